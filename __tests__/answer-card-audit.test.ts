@@ -9,6 +9,8 @@
  * - thousands separator handled
  * - integers exact-match only
  * - Unicode digit defense: NFKC + foreign-digit detection
+ * - unit-aware: value+unit pairs converted to the tool's unit; a figure that
+ *   matches only under another unit is a unit mismatch, not "unmatched"
  */
 
 import assert from 'node:assert/strict'
@@ -235,6 +237,14 @@ describe('auditExplanation', () => {
     expect(audit.clean).toBe(true)
   })
 
+  test('plain numbers starting with 10 are not read as powers of ten', () => {
+    const toolCalls: ToolCall[] = [
+      { name: 'test', engine: 'test', input: {}, result: { ok: true, value: { x: 100, y: 101.325 } }, citation: '' },
+    ]
+    const audit = auditExplanation('Values 100 and 101.325.', toolCalls)
+    expect(audit.clean).toBe(true)
+  })
+
   test('handles thousands separator', () => {
     const toolCalls: ToolCall[] = [
       {
@@ -442,6 +452,129 @@ describe('Unicode digit defense', () => {
   })
 })
 
+describe('Unit-aware audit', () => {
+  const dilution: ToolCall[] = [
+    {
+      name: 'solve_dilution',
+      engine: 'dilution',
+      input: { c1: 1, c2: 0.25, v2: 1 },
+      result: { ok: true, value: { v1: 0.25, diluent_volume_mL: 0.75, solved_for: 'v1' } },
+      citation: '',
+    },
+  ]
+  const volumeMl: ToolCall[] = [
+    {
+      name: 'test',
+      engine: 'test',
+      input: {},
+      result: { ok: true, value: { final_volume_mL: 0.25 } },
+      citation: '',
+    },
+  ]
+  const gas: ToolCall[] = [
+    {
+      name: 'ideal_gas_law',
+      engine: 'ideal-gas',
+      input: { P: 1.0, V: 24.5, n: 1.0 },
+      result: { ok: true, value: { T: 298.15 } },
+      citation: '',
+    },
+  ]
+
+  test('0.25 L against 0.25 mL is a unit mismatch, not an unmatched number', () => {
+    const audit = auditExplanation('Add 0.25 L of water.', volumeMl)
+    expect(audit.clean).toBe(false)
+    expect(audit.unmatched).toEqual([])
+    expect(audit.unit_mismatches).toEqual(['0.25 L (tool reported 0.25 mL)'])
+  })
+
+  test('same quantity in another unit is converted: 0.00025 L and 250 μL match 0.25 mL', () => {
+    const audit = auditExplanation('That is 0.00025 L, or 250 μL (250 uL).', volumeMl)
+    expect(audit.clean).toBe(true)
+    expect(audit.unit_mismatches).toBe(undefined)
+  })
+
+  test('key suffix gives the unit: 750 μL matches diluent_volume_mL 0.75', () => {
+    const audit = auditExplanation('Add 750 μL of diluent to 0.25 of stock.', dilution)
+    expect(audit.clean).toBe(true)
+  })
+
+  test('25 °C against 25 K is a unit mismatch', () => {
+    const toolCalls: ToolCall[] = [
+      { ...gas[0], input: { P: 1.0, V: 2.05, n: 1.0 }, result: { ok: true, value: { T: 25 } } },
+    ]
+    const audit = auditExplanation('The gas is at 25 °C.', toolCalls)
+    expect(audit.clean).toBe(false)
+    expect(audit.unit_mismatches).toEqual(['25 °C (tool reported 25 K)'])
+  })
+
+  test('25 °C converts to the reported 298.15 K (schema description unit)', () => {
+    const audit = auditExplanation('T = 298.15 K, i.e. 25 °C (25°C), at 1.0 atm and 24.5 L.', gas)
+    expect(audit.clean).toBe(true)
+  })
+
+  test('pressure written in kPa converts from the atm schema unit', () => {
+    const audit = auditExplanation('P = 101.325 kPa.', gas)
+    expect(audit.clean).toBe(true)
+    const wrong = auditExplanation('P = 1.0 kPa.', gas)
+    expect(wrong.unit_mismatches).toEqual(['1.0 kPa (tool reported 1 atm)'])
+  })
+
+  test('a sibling unit field annotates the value it describes', () => {
+    const toolCalls: ToolCall[] = [
+      {
+        name: 'van_der_waals',
+        engine: 'van-der-waals',
+        input: {},
+        result: { ok: true, value: { pressure: 4.72, unit: 'atm', a: 1.36, b: 0.0318 } },
+        citation: '',
+      },
+    ]
+    expect(auditExplanation('The pressure is 4.72 atm.', toolCalls).clean).toBe(true)
+    expect(auditExplanation('The pressure is 4.72 bar.', toolCalls).unit_mismatches).toEqual([
+      '4.72 bar (tool reported 4.72 atm)',
+    ])
+  })
+
+  test('molar and mass concentrations are never converted into each other', () => {
+    const toolCalls: ToolCall[] = [
+      { name: 'test', engine: 'test', input: {}, result: { ok: true, value: { concentration_M: 0.5 } }, citation: '' },
+    ]
+    expect(auditExplanation('The solution is 500 mM.', toolCalls).clean).toBe(true)
+    expect(auditExplanation('The solution is 0.5 g/L.', toolCalls).unit_mismatches).toEqual([
+      '0.5 g/L (tool reported 0.5 M)',
+    ])
+  })
+
+  test('a united number with no trace anywhere stays unmatched', () => {
+    const audit = auditExplanation('Add 3.5 mL first.', volumeMl)
+    expect(audit.unmatched).toEqual(['3.5'])
+    expect(audit.unit_mismatches).toBe(undefined)
+  })
+
+  test('values without a reported unit keep the bare-number check', () => {
+    // weak-acid concentration is documented in M, but H_concentration has no unit
+    const audit = auditExplanation('[H+] = 1.34e-3 M and Ka = 1.8e-5.', makeToolCalls())
+    expect(audit.clean).toBe(true)
+  })
+
+  test('compound and ambiguous units fall back to the bare-number check', () => {
+    const toolCalls: ToolCall[] = [
+      { name: 'test', engine: 'test', input: {}, result: { ok: true, value: { volume_L: 22.4, molality: 2 } }, citation: '' },
+    ]
+    const audit = auditExplanation('Molar volume 22.4 L/mol; the solution is 2 m.', toolCalls)
+    expect(audit.clean).toBe(true)
+  })
+
+  test('temperature differences are not converted like absolute temperatures', () => {
+    const toolCalls: ToolCall[] = [
+      { name: 'test', engine: 'test', input: {}, result: { ok: true, value: { delta_tb_C: 0.512 } }, citation: '' },
+    ]
+    const audit = auditExplanation('The boiling point rises by 0.512 K (0.512 °C).', toolCalls)
+    expect(audit.clean).toBe(true)
+  })
+})
+
 async function runTests() {
   console.log('🧪 VerChem Answer Card Audit Tests (W3-R20)')
   console.log('=============================================\n')
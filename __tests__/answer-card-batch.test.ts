@@ -0,0 +1,163 @@
+/**
+ * VerChem Answer Card Batch Tests (problem-set generation)
+ *
+ * Runs through the SCRIPTED provider — real engines, replayed model turns.
+ *
+ * - every question gets an item; results come back in question order and
+ *   each card's signature verifies
+ * - concurrency is bounded
+ * - a provider rate limit on one question is a per-item `rate_limit`
+ *   failure; the rest of the batch still completes
+ * - questions refused by the quota gate never reach the model
+ * - batch → item* → done events survive the SSE codec byte for byte
+ */
+
+import assert from 'node:assert/strict'
+import { runAnswerCardBatch, QUOTA_EXCEEDED_MESSAGE, type AnswerCardBatchEvent } from '@/lib/answer-cards/batch'
+import { createScriptedProvider, type Transcript } from '@/lib/answer-cards/providers'
+import type { LLMProvider } from '@/lib/answer-cards/providers/types'
+import { createBatchStreamParser, encodeBatchStreamEvent } from '@/lib/answer-cards/sse'
+import { verifyCardSignature, toSignablePayload } from '@/lib/answer-cards/signature'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+function strongAcid(concentration: number): Transcript {
+  return {
+    question: `pH of ${concentration} M HCl?`,
+    turns: [
+      {
+        content: [{ type: 'tool_use', id: 'tu_1', name: 'calculate_strong_acid_ph', input: { concentration } }],
+        stop_reason: 'tool_use',
+      },
+      { content: [{ type: 'text', text: 'HCl dissociates completely.' }], stop_reason: 'end_turn' },
+    ],
+  }
+}
+
+const TRANSCRIPTS: Transcript[] = [
+  strongAcid(0.1),
+  strongAcid(0.01),
+  strongAcid(0.001),
+  strongAcid(0.0001),
+  { question: 'Busy model', turns: [{ error: { kind: 'rate_limit', message: 'recorded 429' } }] },
+]
+
+/** Scripted provider that yields between turns and records peak concurrency. */
+function instrumented(inner: LLMProvider) {
+  const stats = { inFlight: 0, peak: 0, questions: [] as string[] }
+  const provider: LLMProvider = {
+    model: inner.model,
+    async createMessage(request) {
+      const first = request.messages[0]
+      if (request.messages.length === 1 && typeof first.content === 'string') stats.questions.push(first.content)
+      stats.inFlight++
+      stats.peak = Math.max(stats.peak, stats.inFlight)
+      try {
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        return await inner.createMessage(request)
+      } finally {
+        stats.inFlight--
+      }
+    },
+  }
+  return { provider, stats }
+}
+
+async function run() {
+  console.log('answer-card-batch')
+
+  const questions = TRANSCRIPTS.map((t) => t.question)
+
+  await test('every question gets an item, in question order, with signed cards', async () => {
+    const { provider } = instrumented(createScriptedProvider(TRANSCRIPTS))
+    const result = await runAnswerCardBatch(questions.slice(0, 4), { ask: { provider }, batchId: 'batch_test' })
+    assert.equal(result.batch_id, 'batch_test')
+    assert.deepEqual(result.items.map((i) => i.index), [0, 1, 2, 3])
+    for (const item of result.items) {
+      assert.ok(item.ok)
+      assert.equal(item.question, questions[item.index])
+      assert.equal(item.card.status, 'verified')
+      assert.equal(await verifyCardSignature(toSignablePayload(item.card), item.card.signature), true)
+    }
+  })
+
+  await test('concurrency is bounded', async () => {
+    const { provider, stats } = instrumented(createScriptedProvider(TRANSCRIPTS))
+    await runAnswerCardBatch(questions.slice(0, 4), { ask: { provider }, concurrency: 2 })
+    assert.equal(stats.peak, 2)
+    const serial = instrumented(createScriptedProvider(TRANSCRIPTS))
+    await runAnswerCardBatch(questions.slice(0, 4), { ask: { provider: serial.provider }, concurrency: 1 })
+    assert.equal(serial.stats.peak, 1)
+  })
+
+  await test('a provider rate limit fails only its own item, with the classified kind', async () => {
+    const { provider } = instrumented(createScriptedProvider(TRANSCRIPTS))
+    const result = await runAnswerCardBatch(questions, { ask: { provider } })
+    const busy = result.items[4]
+    assert.ok(!busy.ok)
+    assert.deepEqual(busy.error, {
+      kind: 'rate_limit',
+      error: 'The verification service is busy right now. Please try again in a moment.',
+      status: 429,
+    })
+    assert.ok(result.items.slice(0, 4).every((item) => item.ok))
+  })
+
+  await test('questions refused by the quota gate never reach the model', async () => {
+    const { provider, stats } = instrumented(createScriptedProvider(TRANSCRIPTS))
+    const admitted = [true, true, false, false]
+    const result = await runAnswerCardBatch(questions.slice(0, 4), { ask: { provider }, admit: (i) => admitted[i] })
+    assert.deepEqual(stats.questions.sort(), questions.slice(0, 2).sort())
+    assert.deepEqual(result.items.map((i) => i.ok), [true, true, false, false])
+    const refused = result.items[2]
+    assert.ok(!refused.ok)
+    assert.deepEqual(refused.error, { kind: 'rate_limit', error: QUOTA_EXCEEDED_MESSAGE, status: 429 })
+  })
+
+  await test('events: batch first, one item per question as it finishes, done last', async () => {
+    const { provider } = instrumented(createScriptedProvider(TRANSCRIPTS))
+    const events: AnswerCardBatchEvent[] = []
+    const result = await runAnswerCardBatch(questions, { ask: { provider }, onEvent: (e) => events.push(e) })
+    assert.deepEqual(events[0], { type: 'batch', batch_id: result.batch_id, total: 5 })
+    assert.deepEqual(events[events.length - 1], { type: 'done', batch_id: result.batch_id, succeeded: 4, failed: 1 })
+    const items = events.filter((e) => e.type === 'item')
+    assert.equal(items.length, 5)
+    assert.deepEqual(items.map((e) => e.item.index).sort(), [0, 1, 2, 3, 4])
+    assert.match(result.batch_id, /^batch_[0-9a-f-]{36}$/)
+  })
+
+  await test('batch events round-trip through the SSE codec; cards still verify', async () => {
+    const { provider } = instrumented(createScriptedProvider(TRANSCRIPTS))
+    const events: AnswerCardBatchEvent[] = []
+    await runAnswerCardBatch(questions, { ask: { provider }, onEvent: (e) => events.push(e) })
+    const wire = events.map(encodeBatchStreamEvent).join('')
+
+    const parsed: AnswerCardBatchEvent[] = []
+    const parser = createBatchStreamParser((e) => parsed.push(e))
+    for (let i = 0; i < wire.length; i += 97) parser.push(wire.slice(i, i + 97))
+    parser.push('event: card\ndata: {}\n\n') // single-card events are not batch events
+    parser.end()
+    assert.deepEqual(parsed, events)
+
+    const item = parsed.find((e) => e.type === 'item' && e.item.ok)
+    assert.ok(item && item.type === 'item' && item.item.ok)
+    assert.equal(await verifyCardSignature(toSignablePayload(item.item.card), item.item.card.signature), true)
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
@@ -0,0 +1,248 @@
+/**
+ * VerChem Answer Card Cache Tests
+ *
+ * Runs through the SCRIPTED provider — real engines, replayed model turns.
+ *
+ * - a repeated (normalized) question is a hit: the model is not called, the
+ *   tool calls are re-executed and the card is freshly signed
+ * - only verified cards are cached
+ * - a cached result that no longer matches the engine is evicted, not served,
+ *   and a hit that no longer verifies streams nothing before the re-ask
+ * - a malformed entry (null call, bad input, missing result) is a miss, not an error
+ * - the key covers VERSION, the tool registry and the normalized question
+ * - the in-memory store expires entries and evicts least recently used
+ */
+
+import assert from 'node:assert/strict'
+import {
+  answerCacheKey,
+  askVerifiedCached,
+  createMemoryCardCache,
+  normalizeCacheQuestion,
+  toolRegistryHash,
+  type CachedAnswer,
+} from '@/lib/answer-cards/cache'
+import { runTool } from '@/lib/answer-cards/orchestrator'
+import { createScriptedProvider, type Transcript } from '@/lib/answer-cards/providers'
+import type { LLMProvider } from '@/lib/answer-cards/providers/types'
+import { verifyCardSignature, toSignablePayload } from '@/lib/answer-cards/signature'
+import type { AnswerCardStreamEvent, ToolCall } from '@/lib/answer-cards/types'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+const TRANSCRIPTS: Transcript[] = [
+  {
+    question: 'pH of 0.01 M HCl?',
+    turns: [
+      {
+        content: [{ type: 'tool_use', id: 'tu_1', name: 'calculate_strong_acid_ph', input: { concentration: 0.01 } }],
+        stop_reason: 'tool_use',
+      },
+      { content: [{ type: 'text', text: 'HCl dissociates completely, so the pH is 2.' }], stop_reason: 'end_turn' },
+    ],
+  },
+  {
+    question: 'What is chemistry?',
+    turns: [{ content: [{ type: 'text', text: 'The study of matter.' }], stop_reason: 'end_turn' }],
+  },
+]
+
+/** Scripted provider that counts first-turn requests (one per model-answered question). */
+function counting() {
+  const inner = createScriptedProvider(TRANSCRIPTS)
+  const stats = { asked: 0 }
+  const provider: LLMProvider = {
+    model: inner.model,
+    async createMessage(request) {
+      if (request.messages.length === 1) stats.asked++
+      return inner.createMessage(request)
+    },
+  }
+  return { provider, stats }
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5))
+
+async function run() {
+  console.log('answer-card-cache')
+
+  await test('a repeated question is a hit: no model call, fresh signed card', async () => {
+    const { provider, stats } = counting()
+    const cache = createMemoryCardCache()
+    const first = await askVerifiedCached('pH of 0.01 M HCl?', { provider, cache })
+    assert.equal(first.cache, 'miss')
+    assert.equal(first.card.status, 'verified')
+    await tick()
+
+    const events: AnswerCardStreamEvent[] = []
+    const second = await askVerifiedCached('pH of 0.01 M HCl?', { provider, cache, onEvent: (e) => events.push(e) })
+    assert.equal(second.cache, 'hit')
+    assert.equal(stats.asked, 1)
+    assert.equal(second.card.status, 'verified')
+    assert.deepEqual(second.card.tool_calls, first.card.tool_calls)
+    assert.equal(second.card.explanation, first.card.explanation)
+    assert.notEqual(second.card.issued_at, first.card.issued_at)
+    assert.equal(await verifyCardSignature(toSignablePayload(second.card), second.card.signature), true)
+    assert.deepEqual(events.map((e) => e.type), ['tool_call', 'audit', 'card'])
+  })
+
+  await test('questions differing in case, spacing or trailing punctuation share an entry', async () => {
+    assert.equal(normalizeCacheQuestion('  pH of  0.01 M\tHCl?? '), 'ph of 0.01 m hcl')
+    assert.equal(await answerCacheKey('pH of 0.01 M HCl?'), await answerCacheKey('PH OF 0.01 m hcl'))
+    assert.notEqual(await answerCacheKey('pH of 0.01 M HCl?'), await answerCacheKey('pH of 0.1 M HCl?'))
+
+    const { provider, stats } = counting()
+    const cache = createMemoryCardCache()
+    await askVerifiedCached('pH of 0.01 M HCl?', { provider, cache })
+    const hit = await askVerifiedCached('  PH of 0.01 m hcl ', { provider, cache })
+    assert.equal(hit.cache, 'hit')
+    assert.equal(hit.card.question, '  PH of 0.01 m hcl ')
+    assert.equal(stats.asked, 1)
+  })
+
+  await test('non-verified cards are not cached', async () => {
+    const { provider, stats } = counting()
+    const cache = createMemoryCardCache()
+    const first = await askVerifiedCached('What is chemistry?', { provider, cache })
+    assert.equal(first.card.status, 'unverified')
+    assert.equal(await cache.get(await answerCacheKey('What is chemistry?')), null)
+    const second = await askVerifiedCached('What is chemistry?', { provider, cache })
+    assert.equal(second.cache, 'miss')
+    assert.equal(stats.asked, 2)
+  })
+
+  await test('a cached result the engine no longer reproduces is evicted and re-asked', async () => {
+    const { provider, stats } = counting()
+    const cache = createMemoryCardCache()
+    await askVerifiedCached('pH of 0.01 M HCl?', { provider, cache })
+    const key = await answerCacheKey('pH of 0.01 M HCl?')
+    const entry = (await cache.get(key)) as CachedAnswer
+    const value = entry.tool_calls[0].result.value as Record<string, unknown>
+    const numericKey = Object.keys(value).find((k) => typeof value[k] === 'number') as string
+    value[numericKey] = (value[numericKey] as number) + 1
+    await cache.set(entry)
+
+    const again = await askVerifiedCached('pH of 0.01 M HCl?', { provider, cache })
+    assert.equal(again.cache, 'miss')
+    assert.equal(stats.asked, 2)
+    const rewritten = (await cache.get(key)) as CachedAnswer
+    assert.deepEqual(rewritten.tool_calls, again.card.tool_calls)
+  })
+
+  await test('a hit that no longer verifies streams only the re-asked answer\'s events', async () => {
+    const { provider, stats } = counting()
+    const cache = createMemoryCardCache()
+    await askVerifiedCached('pH of 0.01 M HCl?', { provider, cache })
+    const key = await answerCacheKey('pH of 0.01 M HCl?')
+    const entry = (await cache.get(key)) as CachedAnswer
+    // Reproduces exactly on replay, but a failed call makes the card partial
+    const failing = runTool('calculate_strong_acid_ph', { concentration: -1 })
+    assert.equal(failing.result.ok, false)
+    await cache.set({ ...entry, tool_calls: [...entry.tool_calls, failing] })
+
+    const events: AnswerCardStreamEvent[] = []
+    const again = await askVerifiedCached('pH of 0.01 M HCl?', { provider, cache, onEvent: (e) => events.push(e) })
+    assert.equal(again.cache, 'miss')
+    assert.equal(again.card.status, 'verified')
+    assert.equal(stats.asked, 2)
+    assert.deepEqual(events.map((e) => e.type), ['tool_call', 'audit', 'card'])
+    assert.deepEqual(events[2], { type: 'card', card: again.card })
+  })
+
+  await test('a malformed cached entry is evicted and re-asked', async () => {
+    const { provider, stats } = counting()
+    const cache = createMemoryCardCache()
+    await askVerifiedCached('pH of 0.01 M HCl?', { provider, cache })
+    const key = await answerCacheKey('pH of 0.01 M HCl?')
+    const entry = (await cache.get(key)) as CachedAnswer
+    const [call] = entry.tool_calls
+    const malformed = [
+      [null],
+      [{ ...call, input: 'concentration=0.01' }],
+      [{ name: call.name, input: call.input }],
+    ] as unknown as ToolCall[][]
+
+    const originalError = console.error
+    console.error = () => {}
+    try {
+      for (const toolCalls of malformed) {
+        await cache.set({ ...entry, tool_calls: toolCalls })
+        const again = await askVerifiedCached('pH of 0.01 M HCl?', { provider, cache })
+        assert.equal(again.cache, 'miss')
+        assert.equal(again.card.status, 'verified')
+        assert.deepEqual(((await cache.get(key)) as CachedAnswer).tool_calls, again.card.tool_calls)
+      }
+    } finally {
+      console.error = originalError
+    }
+    assert.equal(stats.asked, 1 + malformed.length)
+  })
+
+  await test('the key covers VERSION and the tool registry', async () => {
+    const hash = await toolRegistryHash()
+    assert.match(hash, /^[0-9a-f]{64}$/)
+    assert.equal(await toolRegistryHash(), hash)
+    assert.match(await answerCacheKey('pH of 0.01 M HCl?'), /^[0-9a-f]{64}$/)
+
+    const { provider } = counting()
+    const cache = createMemoryCardCache()
+    const { card } = await askVerifiedCached('pH of 0.01 M HCl?', { provider, cache })
+    const entry = (await cache.get(await answerCacheKey('pH of 0.01 M HCl?'))) as CachedAnswer
+    assert.equal(entry.version, card.version)
+    await cache.set({ ...entry, version: 'w0-old' })
+    const after = await askVerifiedCached('pH of 0.01 M HCl?', { provider, cache })
+    assert.equal(after.cache, 'miss')
+  })
+
+  await test('memory store: entries expire and the least recently used is evicted', async () => {
+    let now = 0
+    const cache = createMemoryCardCache({ maxEntries: 2, ttlMs: 1000, now: () => now })
+    const entry = (key: string): CachedAnswer => ({
+      key, tool_calls: [], explanation: '', model: 'm', version: 'v', created_at: '',
+    })
+    await cache.set(entry('a'))
+    await cache.set(entry('b'))
+    assert.ok(await cache.get('a')) // a is now most recently used
+    await cache.set(entry('c'))
+    assert.equal(await cache.get('b'), null)
+    assert.ok(await cache.get('a'))
+    assert.ok(await cache.get('c'))
+    now = 1000
+    assert.equal(await cache.get('a'), null)
+  })
+
+  await test('a failing store degrades to an uncached answer', async () => {
+    const { provider } = counting()
+    const broken = {
+      get: async () => { throw new Error('down') },
+      set: async () => { throw new Error('down') },
+      delete: async () => { throw new Error('down') },
+    }
+    const originalError = console.error
+    console.error = () => {}
+    try {
+      const result = await askVerifiedCached('pH of 0.01 M HCl?', { provider, cache: broken })
+      assert.equal(result.cache, 'miss')
+      assert.equal(result.card.status, 'verified')
+    } finally {
+      console.error = originalError
+    }
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
@@ -0,0 +1,169 @@
+/**
+ * VerChem Answer Card Export Tests (PDF / HTML / oEmbed / QR)
+ *
+ * - the QR encoder matches published ISO 18004 vectors (Reed–Solomon, format
+ *   and version information) and draws the fixed patterns where scanners look
+ * - the HTML snippet is self-contained, escapes model-authored text, and
+ *   carries the badge, tool-call table, citations and link to /verified/[id]
+ * - the PDF renders server-side with the link embedded
+ * - oEmbed only describes this host's /verified/[id] URLs
+ */
+
+import assert from 'node:assert/strict'
+import {
+  answerCardOEmbed,
+  answerCardUrl,
+  exportBadge,
+  exportCitations,
+  exportToolRows,
+  parseVerifiedCardUrl,
+  renderAnswerCardHtml,
+  shortLink,
+} from '@/lib/answer-cards/export'
+import { encodeQRCode, formatBits, qrCodeToSvg, reedSolomonDivisor, reedSolomonRemainder, versionBits } from '@/lib/export/qr-code'
+import { PDFExporter, toPDFText } from '@/lib/export/pdf-export'
+import type { AnswerCard } from '@/lib/answer-cards/types'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+const ID = '123e4567-e89b-12d3-a456-426614174000'
+const URL_ = answerCardUrl('https://verchem.xyz/', ID)
+
+const CARD: AnswerCard = {
+  question: 'pH of 0.01 M HCl? <script>alert(1)</script>',
+  status: 'verified',
+  verified: true,
+  tool_calls: [
+    {
+      name: 'calculate_strong_acid_ph',
+      engine: 'VerChem Solutions Engine',
+      input: { concentration: 0.01 },
+      result: { ok: true, value: { pH: 2, pOH: 12 } },
+      citation: 'Atkins, Physical Chemistry',
+    },
+    {
+      name: 'calculate_molar_mass',
+      engine: 'VerChem Stoichiometry Engine',
+      input: { formula: 'HCl' },
+      result: { ok: false, value: {}, error: 'Unknown element "Xx"' },
+      citation: 'Atkins, Physical Chemistry',
+    },
+  ],
+  explanation: 'HCl → H⁺ + Cl⁻ completely, so [H⁺] = 0.01 M & pH = 2.',
+  audit: { clean: true, unmatched: [] },
+  model: 'claude-test',
+  version: 'w3-v1',
+  issued_at: '2026-10-01T12:00:00.000Z',
+  signature: 'sig',
+}
+
+async function run() {
+  console.log('answer-card-export')
+
+  await test('QR: Reed–Solomon, format and version bits match ISO 18004 vectors', () => {
+    // "HELLO WORLD" 1-M data codewords → its 10 EC codewords
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17]
+    assert.deepEqual(reedSolomonRemainder(data, reedSolomonDivisor(10)), [196, 35, 39, 119, 235, 215, 231, 226, 93, 23])
+    assert.equal(formatBits(0).toString(2).padStart(15, '0'), '101010000010010') // level M, mask 0
+    assert.equal(versionBits(7).toString(2).padStart(18, '0'), '000111110010010100')
+  })
+
+  await test('QR: smallest version that fits, finder and timing patterns in place', () => {
+    assert.equal(encodeQRCode('hi').version, 1)
+    const qr = encodeQRCode(URL_)
+    assert.equal(qr.version, 5)
+    assert.equal(qr.size, 37)
+    const finderRow = [true, true, true, true, true, true, true, false]
+    for (const [x0, y0] of [[0, 0], [qr.size - 7, 0], [0, qr.size - 7]]) {
+      assert.equal(qr.modules[y0][x0 + 3], true)
+      assert.equal(qr.modules[y0 + 1][x0 + 1], false)
+      assert.equal(qr.modules[y0 + 3][x0 + 3], true)
+    }
+    assert.deepEqual(qr.modules[0].slice(0, 8), finderRow)
+    for (let i = 8; i < qr.size - 8; i++) assert.equal(qr.modules[6][i], i % 2 === 0)
+    assert.equal(qr.modules[qr.size - 8][8], true) // dark module
+    assert.throws(() => encodeQRCode('x'.repeat(300)), /too long/)
+  })
+
+  await test('QR: SVG has one path and the quiet zone in the viewBox', () => {
+    const svg = qrCodeToSvg(encodeQRCode('hi'), { moduleSize: 2, margin: 4 })
+    assert.match(svg, /^<svg [^>]*viewBox="0 0 29 29" width="58" height="58"/)
+    assert.equal(svg.match(/<path /g)?.length, 1)
+  })
+
+  await test('table rows and citations: deduplicated, numbered, errors shown', () => {
+    assert.deepEqual(exportCitations(CARD.tool_calls), ['Atkins, Physical Chemistry'])
+    const rows = exportToolRows(CARD.tool_calls)
+    assert.deepEqual(rows[0], {
+      index: 1,
+      engine: 'VerChem Solutions Engine',
+      tool: 'calculate_strong_acid_ph',
+      inputs: 'concentration: 0.01',
+      result: 'pH: 2, pOH: 12',
+      ok: true,
+      citation: 1,
+    })
+    assert.equal(rows[1].result, 'Error: Unknown element "Xx"')
+  })
+
+  await test('badge: signature problems override the card status', () => {
+    assert.equal(exportBadge(CARD).label, 'VERIFIED')
+    assert.equal(exportBadge(CARD, 'tampered').label, 'SIGNATURE INVALID')
+    assert.equal(exportBadge(CARD, 'key_revoked').tone, 'warning')
+    assert.equal(exportBadge({ ...CARD, status: 'partial' }).label, 'PARTIALLY VERIFIED')
+  })
+
+  await test('HTML snippet: self-contained, escaped, links to the public page', () => {
+    const html = renderAnswerCardHtml(CARD, { url: URL_ })
+    assert.ok(!html.includes('<script'))
+    assert.ok(html.includes('&lt;script&gt;alert(1)&lt;/script&gt;'))
+    assert.ok(html.includes('[H⁺] = 0.01 M &amp; pH = 2.'))
+    assert.ok(html.includes(`href="${URL_}"`))
+    assert.ok(html.includes('verchem.xyz/verified/' + ID))
+    assert.ok(html.includes('VERIFIED'))
+    assert.ok(html.includes('<table'))
+    assert.ok(html.includes('<li>Atkins, Physical Chemistry</li>'))
+    assert.ok(html.includes('<svg'))
+    assert.ok(!/<link |<style|src="http/.test(html))
+  })
+
+  await test('PDF: renders without a DOM and embeds the verification link', () => {
+    const bytes = PDFExporter.buildAnswerCardPDF(CARD, { url: URL_ }).output('arraybuffer')
+    const text = new TextDecoder('latin1').decode(bytes)
+    assert.ok(text.startsWith('%PDF-'))
+    assert.ok(text.includes(`/URI (${URL_})`))
+    assert.equal(toPDFText('H₂O → H⁺ + OH⁻ at 25 °C, 5 μL'), 'H2O -> H+ + OH- at 25 °C, 5 µL')
+  })
+
+  await test('oEmbed: own /verified/[id] URLs only; rich iframe response', () => {
+    assert.equal(parseVerifiedCardUrl(URL_, 'https://verchem.xyz'), ID)
+    assert.equal(parseVerifiedCardUrl(`${URL_}/`, 'https://verchem.xyz'), ID)
+    assert.equal(parseVerifiedCardUrl(URL_, 'https://evil.example'), null)
+    assert.equal(parseVerifiedCardUrl('https://verchem.xyz/verified/not-a-uuid', 'https://verchem.xyz'), null)
+    assert.equal(parseVerifiedCardUrl('javascript:alert(1)', 'https://verchem.xyz'), null)
+
+    const embed = answerCardOEmbed(CARD, { origin: 'https://verchem.xyz', id: ID, providerName: 'VerChem', maxwidth: 500 })
+    assert.equal(embed.type, 'rich')
+    assert.equal(embed.width, 500)
+    assert.ok(embed.html.startsWith(`<iframe src="${URL_}/embed" width="500"`))
+    assert.ok(!embed.html.includes('<script'))
+    assert.equal(shortLink(URL_), `verchem.xyz/verified/${ID}`)
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
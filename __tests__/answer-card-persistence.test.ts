@@ -210,6 +210,24 @@ async function run() {
     assert.equal(parseSubmittedCard(tooLong), null, 'over-long string in value must be rejected')
   })
 
+  await test('unit_mismatches survive the round trip and are covered by the signature', async () => {
+    const card = await askVerified('Molar volume at 1 atm?', {
+      client: fakeClient([
+        makeMessage([{ type: 'tool_use', id: 't1', name: 'ideal_gas_law', input: { P: 1, V: 22.4, n: 1 } }], 'tool_use'),
+        makeMessage([{ type: 'text', text: 'One mole occupies 22.4 mL.' }]),
+      ]),
+    })
+    assert.equal(card.status, 'partial')
+    const parsed = roundTrip(card)!
+    assert.deepEqual(parsed.audit.unit_mismatches, ['22.4 mL (tool reported 22.4 L)'])
+    assert.equal(await verifyCardSignature(toSignablePayload(parsed), parsed.signature), true)
+
+    const stripped = { ...parsed, audit: { clean: parsed.audit.clean, unmatched: parsed.audit.unmatched } }
+    assert.equal(await verifyCardSignature(toSignablePayload(stripped), stripped.signature), false)
+    assert.equal(parseSubmittedCard({ ...card, audit: { ...card.audit, unit_mismatches: 'x' } }), null)
+    assert.equal(isValidSignablePayload({ ...toSignablePayload(card), audit: { ...card.audit, unit_mismatches: [1] } }), false)
+  })
+
   await test('F7: isValidSignablePayload deep-validates (rejects malformed tool_calls)', async () => {
     const card = await makeSignedCard()
     const good = toSignablePayload(card)
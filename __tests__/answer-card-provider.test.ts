@@ -0,0 +1,310 @@
+/**
+ * VerChem Answer Card Provider Tests (pluggable LLM provider + scripted replay)
+ *
+ * The orchestrator runs end to end through the SCRIPTED provider — no network,
+ * no fake SDK client. Tool results come from the REAL engines; only the model
+ * side is replayed.
+ *
+ * Covered:
+ *  - replayed tool-use loop → verified card, real engine numbers, valid signature
+ *  - pickSchemaKeys strips smuggled fields; audit flags invented prose numbers
+ *  - a figure quoted in the wrong unit downgrades the card to partial
+ *  - max_tokens with a pending tool_use → not executed, flagged incomplete
+ *  - recorded provider errors → typed AnswerServiceError / graceful partial
+ *  - strict replay: unknown question, exhausted transcript, diverged replay
+ *  - replay is deterministic; recording a session and replaying reproduces it
+ *  - parseTranscripts validation, ANSWER_CARD_PROVIDER=scripted env selection
+ *  - every ProviderError kind maps to a user-safe AnswerServiceError
+ */
+
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  askVerified,
+  classifyServiceError,
+  AnswerServiceError,
+} from '@/lib/answer-cards/orchestrator'
+import {
+  createRecordingProvider,
+  createScriptedProvider,
+  getDefaultProvider,
+  parseTranscripts,
+  ProviderError,
+  SCRIPTED_MODEL,
+  type Transcript,
+} from '@/lib/answer-cards/providers'
+import type { ProviderErrorKind } from '@/lib/answer-cards/providers/types'
+import { verifyCardSignature, toSignablePayload } from '@/lib/answer-cards/signature'
+
+// ---------- tiny runner ----------
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+// ---------- recorded transcripts ----------
+const HCL_QUESTION = 'What is the pH of 0.1 M HCl?'
+
+const TRANSCRIPTS: Transcript[] = [
+  {
+    question: HCL_QUESTION,
+    turns: [
+      {
+        content: [
+          { type: 'text', text: 'Let me calculate that. ' },
+          {
+            type: 'tool_use',
+            id: 'tu_1',
+            name: 'calculate_strong_acid_ph',
+            input: { concentration: 0.1, formula: 'HCl', smuggled: 999 },
+          },
+        ],
+        stop_reason: 'tool_use',
+      },
+      {
+        content: [{ type: 'text', text: 'This is strongly acidic because HCl dissociates completely in water.' }],
+        stop_reason: 'end_turn',
+      },
+    ],
+  },
+  {
+    question: 'pH of 0.01 M HCl, with an invented figure',
+    turns: [
+      {
+        content: [{ type: 'tool_use', id: 'tu_1', name: 'calculate_strong_acid_ph', input: { concentration: 0.01 } }],
+        stop_reason: 'tool_use',
+      },
+      { content: [{ type: 'text', text: 'The answer is close to 3.7 in practice.' }], stop_reason: 'end_turn' },
+    ],
+  },
+  {
+    question: 'Molar volume, quoted in the wrong unit',
+    turns: [
+      {
+        content: [{ type: 'tool_use', id: 'tu_1', name: 'ideal_gas_law', input: { P: 1, V: 22.4, n: 1 } }],
+        stop_reason: 'tool_use',
+      },
+      { content: [{ type: 'text', text: 'One mole occupies 22.4 mL at 1 atm.' }], stop_reason: 'end_turn' },
+    ],
+  },
+  {
+    question: 'Truncated while calling a tool',
+    turns: [
+      {
+        content: [{ type: 'tool_use', id: 'tu_1', name: 'calculate_strong_acid_ph', input: { concentration: 0.1 } }],
+        stop_reason: 'max_tokens',
+      },
+    ],
+  },
+  {
+    question: 'Rate limited immediately',
+    turns: [{ error: { kind: 'rate_limit', message: 'recorded 429' } }],
+  },
+  {
+    question: 'Connection drops after the tool',
+    turns: [
+      {
+        content: [{ type: 'tool_use', id: 'tu_1', name: 'calculate_strong_acid_ph', input: { concentration: 0.1 } }],
+        stop_reason: 'tool_use',
+      },
+      { error: { kind: 'connection', message: 'recorded socket hang up' } },
+    ],
+  },
+  {
+    question: 'Transcript ends too early',
+    turns: [
+      {
+        content: [{ type: 'tool_use', id: 'tu_1', name: 'calculate_strong_acid_ph', input: { concentration: 0.1 } }],
+        stop_reason: 'tool_use',
+      },
+    ],
+  },
+]
+
+async function run() {
+  console.log('answer-card-provider')
+
+  const provider = createScriptedProvider(parseTranscripts(JSON.parse(JSON.stringify(TRANSCRIPTS))))
+
+  await test('scripted replay → verified card from real engines, signed, model = scripted', async () => {
+    const card = await askVerified(HCL_QUESTION, { provider })
+    assert.equal(card.status, 'verified')
+    assert.equal(card.model, SCRIPTED_MODEL)
+    assert.equal(card.tool_calls.length, 1)
+    const pH = card.tool_calls[0].result.value.pH as number
+    assert.ok(Math.abs(pH - 1) < 0.01, `expected pH≈1, got ${pH}`)
+    assert.equal(card.audit.clean, true)
+    assert.match(card.explanation, /^Let me calculate that\. This is strongly acidic/)
+    assert.equal(await verifyCardSignature(toSignablePayload(card), card.signature), true)
+  })
+
+  await test('pickSchemaKeys strips smuggled tool inputs during replay', async () => {
+    const card = await askVerified(HCL_QUESTION, { provider })
+    assert.equal('smuggled' in card.tool_calls[0].input, false)
+    assert.equal(card.tool_calls[0].input.concentration, 0.1)
+  })
+
+  await test('audit flags an invented number in prose without gating status', async () => {
+    const card = await askVerified('pH of 0.01 M HCl, with an invented figure', { provider })
+    assert.equal(card.status, 'verified')
+    assert.equal(card.audit.clean, false)
+    assert.ok(card.audit.unmatched.includes('3.7'), `unmatched: ${card.audit.unmatched.join(', ')}`)
+  })
+
+  await test('a figure in the wrong unit → unit mismatch, status downgraded to partial', async () => {
+    const card = await askVerified('Molar volume, quoted in the wrong unit', { provider })
+    assert.equal(card.tool_calls[0].result.ok, true)
+    assert.equal(card.status, 'partial')
+    assert.deepEqual(card.audit.unit_mismatches, ['22.4 mL (tool reported 22.4 L)'])
+    assert.deepEqual(card.audit.unmatched, [])
+    assert.equal(await verifyCardSignature(toSignablePayload(card), card.signature), true)
+  })
+
+  await test('max_tokens with a pending tool_use → nothing executed, flagged incomplete', async () => {
+    const card = await askVerified('Truncated while calling a tool', { provider })
+    assert.equal(card.tool_calls.length, 0)
+    assert.equal(card.status, 'unverified')
+    assert.match(card.explanation, /may be incomplete/)
+  })
+
+  await test('recorded error before any tool → AnswerServiceError(rate_limit, 429)', async () => {
+    await assert.rejects(
+      () => askVerified('Rate limited immediately', { provider }),
+      (err: unknown) =>
+        err instanceof AnswerServiceError && err.kind === 'rate_limit' && err.httpStatus === 429
+    )
+  })
+
+  await test('recorded error after a verified tool → graceful PARTIAL card', async () => {
+    const card = await askVerified('Connection drops after the tool', { provider })
+    assert.equal(card.status, 'partial')
+    assert.equal(card.tool_calls[0].result.ok, true)
+    assert.match(card.explanation, /temporary service issue/i)
+  })
+
+  await test('strict replay: unknown question / exhausted transcript fail with typed errors', async () => {
+    await assert.rejects(
+      () => askVerified('A question nobody recorded', { provider }),
+      (err: unknown) => err instanceof AnswerServiceError && err.kind === 'bad_request'
+    )
+    // The engine result survives, so an exhausted transcript degrades to partial.
+    const card = await askVerified('Transcript ends too early', { provider })
+    assert.equal(card.status, 'partial')
+  })
+
+  await test('strict replay: an unanswered tool_use is reported as divergence', async () => {
+    const turn = TRANSCRIPTS[0].turns[0]
+    assert.ok(!('error' in turn))
+    await assert.rejects(
+      () =>
+        provider.createMessage({
+          system: '',
+          tools: [],
+          maxTokens: 100,
+          messages: [
+            { role: 'user', content: HCL_QUESTION },
+            { role: 'assistant', content: turn.content },
+            { role: 'user', content: [] },
+          ],
+        }),
+      (err: unknown) => err instanceof ProviderError && /diverged/.test(err.message)
+    )
+  })
+
+  await test('question lookup ignores case and whitespace; replay is deterministic', async () => {
+    const a = await askVerified(HCL_QUESTION, { provider })
+    const b = await askVerified(`  what is the   pH of 0.1 m hcl?  `, { provider })
+    assert.deepEqual(b.tool_calls, a.tool_calls)
+    assert.equal(b.explanation, a.explanation)
+    assert.equal(b.status, a.status)
+  })
+
+  await test('recording a session and replaying it reproduces the card', async () => {
+    const recorder = createRecordingProvider(provider)
+    const live = await askVerified(HCL_QUESTION, { provider: recorder.provider })
+    await assert.rejects(() => askVerified('Rate limited immediately', { provider: recorder.provider }))
+
+    const recorded = parseTranscripts(JSON.parse(JSON.stringify(recorder.transcripts())))
+    assert.equal(recorded.length, 2)
+    assert.deepEqual(recorded[1].turns, [{ error: { kind: 'rate_limit', message: 'recorded 429' } }])
+
+    const replayed = await askVerified(HCL_QUESTION, { provider: createScriptedProvider(recorded) })
+    assert.deepEqual(replayed.tool_calls, live.tool_calls)
+    assert.equal(replayed.explanation, live.explanation)
+  })
+
+  await test('parseTranscripts rejects malformed recordings with a path', () => {
+    assert.throws(() => parseTranscripts({ question: '', turns: [] }), /transcripts\[0\]: question/)
+    assert.throws(() => parseTranscripts([{ question: 'q', turns: [] }]), /turns must be a non-empty array/)
+    assert.throws(
+      () => parseTranscripts({ question: 'q', turns: [{ content: [], stop_reason: 'refusal' }] }),
+      /turns\[0\]: stop_reason/
+    )
+    assert.throws(
+      () => parseTranscripts({ question: 'q', turns: [{ content: [{ type: 'tool_use', name: 'x' }], stop_reason: 'tool_use' }] }),
+      /content\[0\]/
+    )
+    assert.throws(() => parseTranscripts({ question: 'q', turns: [{ error: { kind: 'teapot' } }] }), /error\.kind/)
+    assert.throws(() => createScriptedProvider([TRANSCRIPTS[0], { ...TRANSCRIPTS[0] }]), /Duplicate/)
+  })
+
+  await test('ANSWER_CARD_PROVIDER=scripted loads transcripts from ANSWER_CARD_TRANSCRIPTS', async () => {
+    const saved = { provider: process.env.ANSWER_CARD_PROVIDER, path: process.env.ANSWER_CARD_TRANSCRIPTS }
+    const dir = mkdtempSync(join(tmpdir(), 'verchem-transcripts-'))
+    try {
+      const file = join(dir, 'transcripts.json')
+      writeFileSync(file, JSON.stringify(TRANSCRIPTS))
+      process.env.ANSWER_CARD_PROVIDER = 'scripted'
+      process.env.ANSWER_CARD_TRANSCRIPTS = file
+      assert.equal(getDefaultProvider().model, SCRIPTED_MODEL)
+      const card = await askVerified(HCL_QUESTION)
+      assert.equal(card.status, 'verified')
+
+      delete process.env.ANSWER_CARD_TRANSCRIPTS
+      assert.throws(() => getDefaultProvider(), /ANSWER_CARD_TRANSCRIPTS is required/)
+      process.env.ANSWER_CARD_PROVIDER = 'local-llm'
+      assert.throws(() => getDefaultProvider(), /Unknown ANSWER_CARD_PROVIDER/)
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+      if (saved.provider === undefined) delete process.env.ANSWER_CARD_PROVIDER
+      else process.env.ANSWER_CARD_PROVIDER = saved.provider
+      if (saved.path === undefined) delete process.env.ANSWER_CARD_TRANSCRIPTS
+      else process.env.ANSWER_CARD_TRANSCRIPTS = saved.path
+    }
+  })
+
+  await test('classifyServiceError maps every ProviderError kind to a user-safe error', () => {
+    const cases: Array<[ProviderErrorKind, number]> = [
+      ['rate_limit', 429],
+      ['overloaded', 503],
+      ['timeout', 504],
+      ['connection', 503],
+      ['auth', 503],
+      ['bad_request', 502],
+      ['server', 502],
+      ['unknown', 500],
+    ]
+    for (const [kind, status] of cases) {
+      const svc = classifyServiceError(new ProviderError(kind, 'ANTHROPIC_API_KEY sk-ant-secret leaked?'))
+      assert.equal(svc.kind, kind)
+      assert.equal(svc.httpStatus, status)
+      assert.doesNotMatch(svc.publicMessage, /anthropic|api key|token|sk-ant/i)
+    }
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
@@ -34,49 +34,49 @@ describe('Day 3 tier daily limits', () => {
     expect(answerCardDailyConfig('bogus' as never).maxRequests).toBe(20)
   })
 
-  test('free: 20 succeed, 21st blocked (429 semantics)', () => {
+  test('free: 20 succeed, 21st blocked (429 semantics)', async () => {
     const key = 'test-free-' + Math.random()
     const cfg = answerCardDailyConfig('free')
-    for (let i = 0; i < 20; i++) expect(checkRateLimit(key, cfg).success).toBe(true)
-    const blocked = checkRateLimit(key, cfg)
+    for (let i = 0; i < 20; i++) expect((await checkRateLimit(key, cfg)).success).toBe(true)
+    const blocked = await checkRateLimit(key, cfg)
     expect(blocked.success).toBe(false)
     expect(blocked.remaining).toBe(0)
     expect(blocked.retryAfter ?? 0).toBeGreaterThan(0)
   })
 
-  test('student: 100 succeed, 101st blocked', () => {
+  test('student: 100 succeed, 101st blocked', async () => {
     const key = 'test-student-' + Math.random()
     const cfg = answerCardDailyConfig('student')
-    for (let i = 0; i < 100; i++) checkRateLimit(key, cfg)
-    expect(checkRateLimit(key, cfg).success).toBe(false)
+    for (let i = 0; i < 100; i++) await checkRateLimit(key, cfg)
+    expect((await checkRateLimit(key, cfg)).success).toBe(false)
   })
 
-  test('professional: 500 requests all succeed (unlimited)', () => {
+  test('professional: 500 requests all succeed (unlimited)', async () => {
     const key = 'test-pro-' + Math.random()
     const cfg = answerCardDailyConfig('professional')
-    for (let i = 0; i < 500; i++) expect(checkRateLimit(key, cfg).success).toBe(true)
+    for (let i = 0; i < 500; i++) expect((await checkRateLimit(key, cfg)).success).toBe(true)
   })
 
-  test('unlimited never stored → remaining stays Infinity', () => {
+  test('unlimited never stored → remaining stays Infinity', async () => {
     const key = 'test-pro2-' + Math.random()
     const cfg = answerCardDailyConfig('professional')
-    expect(Number.isFinite(checkRateLimit(key, cfg).remaining)).toBe(false)
+    expect(Number.isFinite((await checkRateLimit(key, cfg)).remaining)).toBe(false)
   })
 
-  test('free: remaining decrements 19, 18', () => {
+  test('free: remaining decrements 19, 18', async () => {
     const key = 'test-rem-' + Math.random()
     const cfg = answerCardDailyConfig('free')
-    expect(checkRateLimit(key, cfg).remaining).toBe(19)
-    expect(checkRateLimit(key, cfg).remaining).toBe(18)
+    expect((await checkRateLimit(key, cfg)).remaining).toBe(19)
+    expect((await checkRateLimit(key, cfg)).remaining).toBe(18)
   })
 
-  test('per-user isolation: one user exhausting does not affect another', () => {
+  test('per-user isolation: one user exhausting does not affect another', async () => {
     const cfg = answerCardDailyConfig('free')
     const a = 'test-userA-' + Math.random()
     const b = 'test-userB-' + Math.random()
-    for (let i = 0; i < 20; i++) checkRateLimit(a, cfg)
-    expect(checkRateLimit(a, cfg).success).toBe(false)
-    expect(checkRateLimit(b, cfg).success).toBe(true)
+    for (let i = 0; i < 20; i++) await checkRateLimit(a, cfg)
+    expect((await checkRateLimit(a, cfg)).success).toBe(false)
+    expect((await checkRateLimit(b, cfg)).success).toBe(true)
   })
 
   test('F17: prototype-pollution tier keys fall back to free (no unlimited bypass)', () => {
@@ -85,11 +85,11 @@ describe('Day 3 tier daily limits', () => {
     }
   })
 
-  test('F17: polluted-key tier is actually rate-limited (21st blocked)', () => {
+  test('F17: polluted-key tier is actually rate-limited (21st blocked)', async () => {
     const key = 'test-proto-' + Math.random()
     const cfg = answerCardDailyConfig('constructor' as never)
-    for (let i = 0; i < 20; i++) expect(checkRateLimit(key, cfg).success).toBe(true)
-    expect(checkRateLimit(key, cfg).success).toBe(false)
+    for (let i = 0; i < 20; i++) expect((await checkRateLimit(key, cfg)).success).toBe(true)
+    expect((await checkRateLimit(key, cfg)).success).toBe(false)
   })
 })
 
@@ -0,0 +1,151 @@
+/**
+ * VerChem Answer Card Re-verification Tests
+ *
+ * Replays stored tool calls against the current engines and classifies drift:
+ *  - a freshly generated card reproduces (every call unchanged)
+ *  - a nudged stored number is reported as drifted with its relative delta
+ *  - structural / string differences are `changed`, not `drifted`
+ *  - a call the engine now rejects is `newly_erroring`
+ *  - a tool missing from the registry is `unknown_tool`
+ *  - reverifyCard refuses to replay a card whose signature no longer holds
+ */
+
+import assert from 'node:assert/strict'
+import Anthropic from '@anthropic-ai/sdk'
+import { askVerified, VERSION } from '@/lib/answer-cards/orchestrator'
+import { diffToolCall, replayToolCalls, reverifyCard } from '@/lib/answer-cards/reverify'
+import type { AnswerCard, ToolCall } from '@/lib/answer-cards/types'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+function makeMessage(content: Record<string, unknown>[], stop = 'end_turn') {
+  return {
+    id: 'm',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-haiku-4-5-20251001',
+    content,
+    stop_reason: stop,
+    stop_sequence: null,
+    usage: { input_tokens: 1, output_tokens: 1 },
+  } as unknown as Anthropic.Messages.Message
+}
+function fakeClient(steps: Anthropic.Messages.Message[]): Anthropic {
+  let i = 0
+  return {
+    messages: { create: async () => steps[Math.min(i++, steps.length - 1)] },
+  } as unknown as Anthropic
+}
+
+async function makeSignedCard(): Promise<AnswerCard> {
+  const client = fakeClient([
+    makeMessage(
+      [
+        { type: 'tool_use', id: 't1', name: 'calculate_strong_acid_ph', input: { concentration: 0.1, formula: 'HCl' } },
+        { type: 'tool_use', id: 't2', name: 'balance_equation', input: { equation: 'H2 + O2 -> H2O' } },
+      ],
+      'tool_use'
+    ),
+    makeMessage([{ type: 'text', text: 'Strongly acidic; water forms from its elements.' }]),
+  ])
+  return askVerified('pH of 0.1 M HCl, and balance hydrogen combustion', { client })
+}
+
+function clone<T>(v: T): T {
+  return JSON.parse(JSON.stringify(v)) as T
+}
+
+async function run() {
+  console.log('answer-card-reverify')
+
+  const card = await makeSignedCard()
+
+  await test('fresh card reproduces: every call unchanged, engine version reported', async () => {
+    const report = await reverifyCard(card)
+    assert.ok(report, 'authentic card must be replayed')
+    assert.equal(report.reproduces, true)
+    assert.equal(report.engine_version, VERSION)
+    assert.equal(report.card_version, card.version)
+    assert.equal(report.calls.length, 2)
+    for (const c of report.calls) {
+      assert.equal(c.status, 'unchanged', `${c.name} should be unchanged`)
+      assert.equal(c.max_relative_delta, 0)
+    }
+  })
+
+  await test('nudged stored number → drifted with relative delta and path', () => {
+    const tc = clone(card.tool_calls[0])
+    const pH = tc.result.value.pH as number
+    tc.result.value.pH = pH * 1.01
+    const drift = diffToolCall(tc, 0)
+    assert.equal(drift.status, 'drifted')
+    assert.ok(drift.fields.some((f) => f.path === 'pH'))
+    assert.ok(Math.abs(drift.max_relative_delta - 0.01 / 1.01) < 1e-6, `delta ${drift.max_relative_delta}`)
+  })
+
+  await test('floating-point noise below tolerance stays unchanged', () => {
+    const tc = clone(card.tool_calls[0])
+    tc.result.value.pH = (tc.result.value.pH as number) * (1 + 1e-12)
+    assert.equal(diffToolCall(tc, 0).status, 'unchanged')
+  })
+
+  await test('string / shape difference → changed, not drifted', () => {
+    const tc = clone(card.tool_calls[1])
+    tc.result.value.balanced = 'something else'
+    assert.equal(diffToolCall(tc, 0).status, 'changed')
+
+    const extra = clone(card.tool_calls[1])
+    extra.result.value.removed_field = 1
+    assert.equal(diffToolCall(extra, 0).status, 'changed')
+  })
+
+  await test('stored ok, engine now rejects the input → newly_erroring with current error', () => {
+    const tc: ToolCall = clone(card.tool_calls[0])
+    tc.input = { concentration: -5, formula: 'HCl' }
+    const drift = diffToolCall(tc, 0)
+    assert.equal(drift.status, 'newly_erroring')
+    assert.ok(drift.error && drift.error.length > 0)
+  })
+
+  await test('stored error that still errors → unchanged; now succeeding → changed', () => {
+    const stillFails: ToolCall = {
+      ...clone(card.tool_calls[0]),
+      input: { concentration: -5, formula: 'HCl' },
+      result: { ok: false, value: {}, error: 'old wording' },
+    }
+    assert.equal(diffToolCall(stillFails, 0).status, 'unchanged')
+
+    const nowOk: ToolCall = { ...clone(card.tool_calls[0]), result: { ok: false, value: {}, error: 'x' } }
+    assert.equal(diffToolCall(nowOk, 0).status, 'changed')
+  })
+
+  await test('tool missing from registry → unknown_tool, card does not reproduce', () => {
+    const tc: ToolCall = { ...clone(card.tool_calls[0]), name: 'retired_tool' }
+    const report = replayToolCalls({ tool_calls: [card.tool_calls[0], tc], version: card.version })
+    assert.equal(report.calls[1].status, 'unknown_tool')
+    assert.equal(report.reproduces, false)
+  })
+
+  await test('tampered card is not replayed (reverifyCard → null)', async () => {
+    const tampered = clone(card)
+    tampered.tool_calls[0].result.value.pH = 7
+    assert.equal(await reverifyCard(tampered), null)
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
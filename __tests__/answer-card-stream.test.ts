@@ -0,0 +1,150 @@
+/**
+ * VerChem Answer Card Streaming Tests (Server-Sent Events)
+ *
+ * - askVerified emits tool_call → audit → card, in order, while the loop runs
+ * - the streamed `card` data is byte-identical to the JSON (non-streaming)
+ *   body, and its signature verifies after the round trip
+ * - the parser copes with arbitrary chunk boundaries (including inside a
+ *   multi-byte character), SSE comments and unknown events
+ * - service errors become a typed `error` event
+ */
+
+import assert from 'node:assert/strict'
+import { askVerified } from '@/lib/answer-cards/orchestrator'
+import { createScriptedProvider } from '@/lib/answer-cards/providers'
+import {
+  createStreamParser,
+  encodeStreamEvent,
+  readAnswerCardStream,
+  wantsEventStream,
+} from '@/lib/answer-cards/sse'
+import { verifyCardSignature, toSignablePayload } from '@/lib/answer-cards/signature'
+import type { AnswerCardStreamEvent } from '@/lib/answer-cards/types'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+const QUESTION = 'pH of 0.1 M HCl and of 0.01 M HNO3?'
+
+const provider = createScriptedProvider([
+  {
+    question: QUESTION,
+    turns: [
+      {
+        content: [
+          { type: 'tool_use', id: 'tu_1', name: 'calculate_strong_acid_ph', input: { concentration: 0.1 } },
+          { type: 'tool_use', id: 'tu_2', name: 'calculate_strong_acid_ph', input: { concentration: 0.01 } },
+        ],
+        stop_reason: 'tool_use',
+      },
+      {
+        // Non-ASCII prose exercises multi-byte chunk splitting below.
+        content: [{ type: 'text', text: 'Both fully dissociate — ΔpH follows the tenfold dilution. 酸性。' }],
+        stop_reason: 'end_turn',
+      },
+    ],
+  },
+])
+
+function streamOf(text: string, chunkSize: number): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text)
+  let offset = 0
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close()
+        return
+      }
+      controller.enqueue(bytes.slice(offset, offset + chunkSize))
+      offset += chunkSize
+    },
+  })
+}
+
+async function run() {
+  console.log('answer-card-stream')
+
+  const events: AnswerCardStreamEvent[] = []
+  const card = await askVerified(QUESTION, { provider, onEvent: (e) => events.push(e) })
+
+  await test('askVerified emits tool_call → audit → card in order', () => {
+    assert.deepEqual(
+      events.map((e) => e.type),
+      ['tool_call', 'tool_call', 'audit', 'card']
+    )
+    const calls = events.filter((e) => e.type === 'tool_call')
+    assert.deepEqual(calls.map((e) => e.index), [0, 1])
+    assert.deepEqual(calls.map((e) => e.call), card.tool_calls)
+    const audit = events[2]
+    assert.ok(audit.type === 'audit')
+    assert.equal(audit.status, 'verified')
+    assert.deepEqual(audit.audit, card.audit)
+    const last = events[3]
+    assert.ok(last.type === 'card')
+    assert.equal(last.card, card, 'the streamed card is the returned card')
+  })
+
+  const wire = events.map(encodeStreamEvent).join('')
+
+  await test('streamed card data is byte-identical to the JSON response body', () => {
+    const cardBlock = wire.split('\n\n').find((b) => b.startsWith('event: card\n'))
+    assert.ok(cardBlock)
+    assert.equal(cardBlock.slice('event: card\ndata: '.length), JSON.stringify(card))
+  })
+
+  await test('round trip through the parser keeps the signature valid', async () => {
+    const parsed: AnswerCardStreamEvent[] = []
+    await readAnswerCardStream(streamOf(wire, 4096), (e) => parsed.push(e))
+    const final = parsed[parsed.length - 1]
+    assert.ok(final.type === 'card')
+    assert.deepEqual(final.card, card)
+    assert.equal(await verifyCardSignature(toSignablePayload(final.card), final.card.signature), true)
+  })
+
+  await test('arbitrary chunk boundaries (even mid-character) decode identically', async () => {
+    for (const size of [1, 3, 7, 64]) {
+      const parsed: AnswerCardStreamEvent[] = []
+      await readAnswerCardStream(streamOf(wire, size), (e) => parsed.push(e))
+      assert.deepEqual(parsed, events, `chunk size ${size}`)
+    }
+  })
+
+  await test('comments, CRLF and unknown or malformed events are skipped', () => {
+    const parsed: AnswerCardStreamEvent[] = []
+    const parser = createStreamParser((e) => parsed.push(e))
+    parser.push(': keep-alive\r\n\r\n')
+    parser.push('event: ping\ndata: {}\n\n')
+    parser.push('event: tool_call\ndata: not json\n\n')
+    parser.push('event: error\ndata: {"error":"busy","status":429}')
+    parser.end()
+    assert.deepEqual(parsed, [{ type: 'error', error: 'busy', status: 429 }])
+  })
+
+  await test('error events carry the public message and status', () => {
+    const text = encodeStreamEvent({ type: 'error', error: 'The verification service is busy.', status: 429 })
+    assert.equal(text, 'event: error\ndata: {"error":"The verification service is busy.","status":429}\n\n')
+  })
+
+  await test('wantsEventStream reads the Accept header', () => {
+    assert.equal(wantsEventStream('text/event-stream'), true)
+    assert.equal(wantsEventStream('application/json, Text/Event-Stream;q=0.9'), true)
+    assert.equal(wantsEventStream('application/json'), false)
+    assert.equal(wantsEventStream(null), false)
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
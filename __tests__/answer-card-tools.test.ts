@@ -1015,8 +1015,8 @@ runTests().catch((error) => {
 })
 
 // ──────────────────────────────────────────────────────────
-// determineStatus — status is driven by engine results ONLY
-// Audit on prose is informational and must NOT gate verified.
+// determineStatus — status is driven by engine results, plus unit mismatches
+// Untraced prose numbers are informational and must NOT gate verified.
 // ──────────────────────────────────────────────────────────
 
 describe('determineStatus', () => {
@@ -1060,4 +1060,13 @@ describe('determineStatus', () => {
   test('error: all failed trumps hasError', () => {
     expect(determineStatus(false, true, true, false)).toBe('error')
   })
+
+  test('partial: unit mismatch in prose downgrades verified', () => {
+    expect(determineStatus(true, false, false, false, true)).toBe('partial')
+  })
+
+  test('unit mismatch does not lift unverified or error', () => {
+    expect(determineStatus(false, false, false, false, true)).toBe('unverified')
+    expect(determineStatus(false, true, true, false, true)).toBe('error')
+  })
 })
@@ -22,6 +22,8 @@ import {
   calculateStockPrep,
   convertConcentration,
   calculateMixing,
+  solveDilution,
+  calculateSerialDilution,
 } from '@/lib/calculations/solution-prep'
 
 type TestFn = () => void | Promise<void>
@@ -543,6 +545,83 @@ describe('Concentration R23 fixes', () => {
   })
 })
 
+describe('solve_dilution', () => {
+  test('12 M stock → 250 mL of 0.5 M needs 10.42 mL stock + diluent', () => {
+    const tool = TOOL_BY_NAME.get('solve_dilution')!
+    const result = tool.execute({ c1: 12, c2: 0.5, v2: 250 })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    const engineResult = solveDilution({ c1: 12, c2: 0.5, v2: 250 })
+    expect(result.value.v1).toBeCloseTo(engineResult.v1, 10)
+    expect(result.value.v1).toBeCloseTo(10.4167, 3)
+    expect(result.value.solved_for).toBe('v1')
+    expect(result.value.diluent_volume).toBeCloseTo(239.5833, 3)
+    expect(result.value.dilution_factor).toBeCloseTo(24, 10)
+  })
+
+  test('solves for the final concentration', () => {
+    const tool = TOOL_BY_NAME.get('solve_dilution')!
+    const result = tool.execute({ c1: 1000, v1: 5, v2: 100 })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.value.c2).toBeCloseTo(50, 10)
+    expect(result.value.solved_for).toBe('c2')
+  })
+
+  test('rejects anything but exactly three values', () => {
+    const tool = TOOL_BY_NAME.get('solve_dilution')!
+    expect(tool.execute({ c1: 1, v1: 1 }).ok).toBe(false)
+    expect(tool.execute({ c1: 1, v1: 1, c2: 0.5, v2: 2 }).ok).toBe(false)
+  })
+
+  test('rejects a "dilution" that concentrates', () => {
+    const tool = TOOL_BY_NAME.get('solve_dilution')!
+    expect(tool.execute({ c1: 1, c2: 2, v2: 250 }).ok).toBe(false)
+    expect(tool.execute({ v1: 300, c2: 2, v2: 250 }).ok).toBe(false)
+    // Solved value would make C2 > C1
+    expect(tool.execute({ c1: 1, v1: 10, v2: 5 }).ok).toBe(false)
+  })
+
+  test('rejects zero, negative and non-finite values', () => {
+    const tool = TOOL_BY_NAME.get('solve_dilution')!
+    expect(tool.execute({ c1: 0, c2: 0.5, v2: 250 }).ok).toBe(false)
+    expect(tool.execute({ c1: -1, c2: 0.5, v2: 250 }).ok).toBe(false)
+    expect(tool.execute({ c1: 'NaN', c2: 0.5, v2: 250 }).ok).toBe(false)
+    expect(tool.execute({ c1: null, c2: 0.5, v2: 250 }).ok).toBe(false)
+  })
+})
+
+describe('calculate_serial_dilution', () => {
+  test('1:10 series, 3 steps, matches engine', () => {
+    const tool = TOOL_BY_NAME.get('calculate_serial_dilution')!
+    const result = tool.execute({ initial_concentration: 1, dilution_factor: 10, number_of_dilutions: 3, transfer_volume_mL: 1 })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    const engineResult = calculateSerialDilution({ initialConc: 1, dilutionFactor: 10, numDilutions: 3, transferVolume: 1 })
+    const tubes = result.value.tubes as Array<Record<string, number>>
+    expect(tubes.length).toBe(4)
+    tubes.forEach((tube, i) => expect(tube.concentration).toBeCloseTo(engineResult.steps[i].concentration, 12))
+    expect(tubes[1].diluent_volume_mL).toBeCloseTo(9, 10)
+    expect(tubes[1].total_volume_mL).toBeCloseTo(10, 10)
+    expect(result.value.final_concentration).toBeCloseTo(0.001, 12)
+  })
+
+  test('rejects factor ≤ 1, non-integer or too many steps', () => {
+    const tool = TOOL_BY_NAME.get('calculate_serial_dilution')!
+    const base = { initial_concentration: 1, dilution_factor: 10, number_of_dilutions: 3, transfer_volume_mL: 1 }
+    expect(tool.execute({ ...base, dilution_factor: 1 }).ok).toBe(false)
+    expect(tool.execute({ ...base, number_of_dilutions: 2.5 }).ok).toBe(false)
+    expect(tool.execute({ ...base, number_of_dilutions: 13 }).ok).toBe(false)
+    expect(tool.execute({ ...base, transfer_volume_mL: 0 }).ok).toBe(false)
+  })
+
+  test('rejects a series whose last tube underflows to zero', () => {
+    const tool = TOOL_BY_NAME.get('calculate_serial_dilution')!
+    const result = tool.execute({ initial_concentration: 1e-300, dilution_factor: 1e100, number_of_dilutions: 12, transfer_volume_mL: 1 })
+    expect(result.ok).toBe(false)
+  })
+})
+
 // ──────────────────────────────────────────────────────────
 // Run all tests
 // ──────────────────────────────────────────────────────────
@@ -0,0 +1,187 @@
+/**
+ * VerChem Answer Card Tools — Lewis Structure / VSEPR Tests
+ */
+
+import assert from 'node:assert/strict'
+import { TOOL_BY_NAME } from '@/lib/answer-cards/tools/registry'
+import { generateLewisStructure } from '@/lib/calculations/lewis-structure'
+
+type TestFn = () => void | Promise<void>
+type TestCase = { name: string; fn: TestFn }
+
+const tests: TestCase[] = []
+
+function describe(_name: string, fn: () => void) {
+  fn()
+}
+
+function test(name: string, fn: TestFn) {
+  tests.push({ name, fn })
+}
+
+function expect(actual: unknown) {
+  return {
+    toBe(expected: unknown) {
+      assert.equal(actual, expected)
+    },
+    toEqual(expected: unknown) {
+      assert.deepEqual(actual, expected)
+    },
+  }
+}
+
+type AtomOut = { index: number; element: string; lone_pairs: number; formal_charge: number }
+type BondOut = { from: number; to: number; order: number }
+
+function lewis(formula: string, charge?: number) {
+  return TOOL_BY_NAME.get('generate_lewis_structure')!.execute(charge === undefined ? { formula } : { formula, charge })
+}
+
+function vsepr(formula: string, charge?: number) {
+  return TOOL_BY_NAME.get('predict_vsepr_geometry')!.execute(charge === undefined ? { formula } : { formula, charge })
+}
+
+describe('generate_lewis_structure', () => {
+  test('CO2 is O=C=O with zero formal charges', () => {
+    const result = lewis('CO2')
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.value.central_atom).toBe('C')
+    expect(result.value.total_valence_electrons).toBe(16)
+    expect((result.value.bonds as BondOut[]).map((b) => b.order)).toEqual([2, 2])
+    expect((result.value.atoms as AtomOut[]).map((a) => a.formal_charge)).toEqual([0, 0, 0])
+  })
+
+  test('triple bonds: HCN and N2', () => {
+    const hcn = lewis('HCN')
+    expect(hcn.ok).toBe(true)
+    if (!hcn.ok) return
+    expect((hcn.value.bonds as BondOut[]).map((b) => b.order)).toEqual([1, 3])
+    const n2 = lewis('N2')
+    expect(n2.ok).toBe(true)
+    if (!n2.ok) return
+    expect((n2.value.bonds as BondOut[]).map((b) => b.order)).toEqual([3])
+  })
+
+  test('NH4+ carries +1 on N; matches engine', () => {
+    const result = lewis('NH4', 1)
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    const engine = generateLewisStructure('NH4', 1)
+    expect(result.value.total_valence_electrons).toBe(engine.totalValenceElectrons)
+    expect((result.value.atoms as AtomOut[])[0]).toEqual({ index: 0, element: 'N', lone_pairs: 0, formal_charge: 1 })
+  })
+
+  test('electron-deficient B and expanded-octet Xe are accepted', () => {
+    const bf3 = lewis('BF3')
+    expect(bf3.ok).toBe(true)
+    const xef4 = lewis('XeF4')
+    expect(xef4.ok).toBe(true)
+    if (!xef4.ok) return
+    expect((xef4.value.atoms as AtomOut[])[0].lone_pairs).toBe(2)
+  })
+
+  test('rejects radicals, chains and skeletons a star topology cannot draw', () => {
+    expect(lewis('NO2').ok).toBe(false) // 17 electrons
+    expect(lewis('NH4').ok).toBe(false) // neutral NH4 is a radical
+    expect(lewis('H2O2').ok).toBe(false)
+    expect(lewis('O3').ok).toBe(false)
+    expect(lewis('ClOH').ok).toBe(false) // H would sit on Cl
+    expect(lewis('H2SO4').ok).toBe(false) // H belongs on O
+  })
+
+  test('rejects malformed formulas, unsupported elements and bad charges', () => {
+    expect(lewis('Ca(OH)2').ok).toBe(false)
+    expect(lewis('NH4+').ok).toBe(false)
+    expect(lewis('H0O').ok).toBe(false)
+    expect(lewis('UF6').ok).toBe(false)
+    expect(lewis('H').ok).toBe(false)
+    expect(lewis('CH4', 0.5).ok).toBe(false)
+    expect(lewis('CH4', 4).ok).toBe(false)
+    expect(TOOL_BY_NAME.get('generate_lewis_structure')!.execute({}).ok).toBe(false)
+  })
+})
+
+describe('predict_vsepr_geometry', () => {
+  const cases: Array<[string, number, string, string, number]> = [
+    // formula, charge, molecular geometry, hybridization, central lone pairs
+    ['CO2', 0, 'linear', 'sp', 0],
+    ['BF3', 0, 'trigonal-planar', 'sp²', 0],
+    ['H2O', 0, 'bent', 'sp³', 2],
+    ['NH3', 0, 'trigonal-pyramidal', 'sp³', 1],
+    ['SO2', 0, 'bent', 'sp²', 1],
+    ['NO3', -1, 'trigonal-planar', 'sp²', 0],
+    ['PCl5', 0, 'trigonal-bipyramidal', 'sp³d', 0],
+    ['SF4', 0, 'seesaw', 'sp³d', 1],
+    ['ClF3', 0, 'T-shaped', 'sp³d', 2],
+    ['XeF2', 0, 'linear', 'sp³d', 3],
+    ['SF6', 0, 'octahedral', 'sp³d²', 0],
+    ['IF5', 0, 'square-pyramidal', 'sp³d²', 1],
+    ['XeF4', 0, 'square-planar', 'sp³d²', 2],
+  ]
+
+  test('textbook shapes, with lone pairs consistent with the Lewis structure', () => {
+    for (const [formula, charge, geometry, hybridization, lonePairs] of cases) {
+      const result = vsepr(formula, charge)
+      assert.ok(result.ok, `${formula}: ${result.error}`)
+      expect(result.value.molecular_geometry).toBe(geometry)
+      expect(result.value.hybridization).toBe(hybridization)
+      expect(result.value.lone_pairs).toBe(lonePairs)
+      const structure = lewis(formula, charge)
+      assert.ok(structure.ok)
+      expect((structure.value.atoms as AtomOut[])[0].lone_pairs).toBe(lonePairs)
+    }
+  })
+
+  test('polarity only for neutral species with identical terminal atoms', () => {
+    const xef4 = vsepr('XeF4')
+    assert.ok(xef4.ok)
+    expect(xef4.value.polarity).toBe('nonpolar')
+    const water = vsepr('H2O')
+    assert.ok(water.ok)
+    expect(water.value.polarity).toBe('polar')
+    const formaldehyde = vsepr('CH2O')
+    assert.ok(formaldehyde.ok)
+    expect(formaldehyde.value.polarity).toBe(undefined)
+    const nitrate = vsepr('NO3', -1)
+    assert.ok(nitrate.ok)
+    expect(nitrate.value.polarity).toBe(undefined)
+  })
+
+  test('diatomics have no VSEPR geometry', () => {
+    expect(vsepr('HCl').ok).toBe(false)
+    expect(vsepr('N2').ok).toBe(false)
+  })
+})
+
+async function runTests() {
+  console.log('VerChem Answer Card Lewis / VSEPR Tests')
+  let passed = 0
+  const failures: string[] = []
+
+  for (const testCase of tests) {
+    try {
+      await testCase.fn()
+      passed++
+      console.log(`PASS ${testCase.name}`)
+    } catch (error) {
+      failures.push(testCase.name)
+      console.log(`FAIL ${testCase.name}`)
+      console.error(error)
+    }
+  }
+
+  console.log(`Total tests: ${tests.length}`)
+  console.log(`Passed: ${passed}`)
+  console.log(`Failed: ${failures.length}`)
+
+  if (failures.length > 0) {
+    failures.forEach((name) => console.log(`- ${name}`))
+    process.exitCode = 1
+  }
+}
+
+runTests().catch((error) => {
+  console.error(error)
+  process.exitCode = 1
+})
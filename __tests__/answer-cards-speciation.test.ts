@@ -0,0 +1,161 @@
+/**
+ * VerChem Answer Card Tools — Acid–Base Speciation Tests
+ */
+
+import assert from 'node:assert/strict'
+import { TOOL_BY_NAME } from '@/lib/answer-cards/tools/registry'
+import { calculateSpeciation, solveMixturePH } from '@/lib/calculations/speciation'
+
+type TestFn = () => void | Promise<void>
+type TestCase = { name: string; fn: TestFn }
+
+const tests: TestCase[] = []
+
+function describe(_name: string, fn: () => void) {
+  fn()
+}
+
+function test(name: string, fn: TestFn) {
+  tests.push({ name, fn })
+}
+
+function expect(actual: unknown) {
+  return {
+    toBe(expected: unknown) {
+      assert.equal(actual, expected)
+    },
+    toEqual(expected: unknown) {
+      assert.deepEqual(actual, expected)
+    },
+    toBeCloseTo(expected: number, precision = 2) {
+      assert.equal(typeof actual, 'number')
+      const diff = Math.abs((actual as number) - expected)
+      assert.ok(diff < Math.pow(10, -precision), `Expected ${actual} to be close to ${expected}`)
+    },
+  }
+}
+
+type Fraction = { species: string; charge: number; alpha: number; concentration_M?: number }
+
+describe('calculate_speciation', () => {
+  test('phosphate at pH 7.4: fractions match the engine', () => {
+    const tool = TOOL_BY_NAME.get('calculate_speciation')!
+    const result = tool.execute({ acid: 'phosphoric acid', pH: 7.4, total_concentration_M: 0.1 })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    const engine = calculateSpeciation('phosphoric', 7.4, 0.1)
+    const fractions = result.value.fractions as Fraction[]
+    expect(fractions.map((f) => f.species)).toEqual(['H3PO4', 'H2PO4-', 'HPO42-', 'PO43-'])
+    fractions.forEach((f, i) => {
+      expect(f.alpha).toBeCloseTo(engine.fractions[i].alpha, 12)
+      expect(f.concentration_M).toBeCloseTo(engine.fractions[i].concentration!, 12)
+    })
+    expect(result.value.dominant_species).toBe('HPO42-')
+    expect(result.value.isoelectric_point).toBe(undefined)
+  })
+
+  test('amino acids report the isoelectric point', () => {
+    const tool = TOOL_BY_NAME.get('calculate_speciation')!
+    const result = tool.execute({ acid: 'glycine', pH: 5.97 })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.value.isoelectric_point).toBeCloseTo(5.97, 6)
+    expect(result.value.dominant_species).toBe('HGly')
+    expect(result.value.average_charge).toBeCloseTo(0, 4)
+  })
+
+  test('custom Ka values with a charge', () => {
+    const tool = TOOL_BY_NAME.get('calculate_speciation')!
+    const result = tool.execute({ ka_values: [5.6e-10], charge: 1, pH: 9.25 })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    const fractions = result.value.fractions as Fraction[]
+    expect(fractions.map((f) => f.species)).toEqual(['HA+', 'A'])
+    expect(fractions[0].alpha).toBeCloseTo(0.5, 2)
+  })
+
+  test('rejects ambiguous, unknown and out-of-range input', () => {
+    const tool = TOOL_BY_NAME.get('calculate_speciation')!
+    expect(tool.execute({ acid: 'glycine', ka_values: [1e-3], pH: 7 }).ok).toBe(false)
+    expect(tool.execute({ acid: 'unobtainium acid', pH: 7 }).ok).toBe(false)
+    expect(tool.execute({ pH: 7 }).ok).toBe(false)
+    expect(tool.execute({ ka_values: [1e-3, 0], pH: 7 }).ok).toBe(false)
+    expect(tool.execute({ ka_values: [1e-3], charge: 0.5, pH: 7 }).ok).toBe(false)
+    expect(tool.execute({ acid: 'glycine', pH: 20 }).ok).toBe(false)
+    expect(tool.execute({ acid: 'glycine', pH: 7, total_concentration_M: 5 }).ok).toBe(false)
+  })
+})
+
+describe('calculate_mixture_ph', () => {
+  test('phosphate buffer: pH matches the engine', () => {
+    const tool = TOOL_BY_NAME.get('calculate_mixture_ph')!
+    const result = tool.execute({
+      components: [
+        { acid: 'H3PO4', concentration_M: 0.05, form: 1 },
+        { acid: 'H3PO4', concentration_M: 0.05, form: 2 },
+      ],
+    })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    const engine = solveMixturePH([
+      { system: 'phosphoric', concentration: 0.05, form: 1 },
+      { system: 'phosphoric', concentration: 0.05, form: 2 },
+    ])
+    expect(result.value.pH).toBeCloseTo(engine.pH, 12)
+    expect(result.value.pH).toBeCloseTo(7.21, 1)
+  })
+
+  test('sodium bicarbonate with added NaOH', () => {
+    const tool = TOOL_BY_NAME.get('calculate_mixture_ph')!
+    const result = tool.execute({
+      components: [{ acid: 'carbonic acid', concentration_M: 0.1, form: 1 }],
+      strong_base_M: 0.05,
+    })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    // Half of HCO3- converted to CO32-: pH ≈ pKa2
+    expect(result.value.pH).toBeCloseTo(-Math.log10(5.6e-11), 1)
+  })
+
+  test('rejects malformed components and concentrations', () => {
+    const tool = TOOL_BY_NAME.get('calculate_mixture_ph')!
+    expect(tool.execute({ components: [] }).ok).toBe(false)
+    expect(tool.execute({ components: 'H3PO4' }).ok).toBe(false)
+    expect(tool.execute({ components: [{ acid: 'H3PO4', concentration_M: 2 }] }).ok).toBe(false)
+    expect(tool.execute({ components: [{ acid: 'H3PO4', concentration_M: 0.1, form: 4 }] }).ok).toBe(false)
+    expect(tool.execute({ components: [{ acid: 'H3PO4', concentration_M: 0.1 }], strong_acid_M: 'lots' }).ok).toBe(false)
+    expect(tool.execute({ components: [{ concentration_M: 0.1 }] }).ok).toBe(false)
+  })
+})
+
+async function runTests() {
+  console.log('VerChem Answer Card Speciation Tests')
+  let passed = 0
+  const failures: string[] = []
+
+  for (const testCase of tests) {
+    try {
+      await testCase.fn()
+      passed++
+      console.log(`PASS ${testCase.name}`)
+    } catch (error) {
+      failures.push(testCase.name)
+      console.log(`FAIL ${testCase.name}`)
+      console.error(error)
+    }
+  }
+
+  console.log(`Total tests: ${tests.length}`)
+  console.log(`Passed: ${passed}`)
+  console.log(`Failed: ${failures.length}`)
+
+  if (failures.length > 0) {
+    failures.forEach((name) => console.log(`- ${name}`))
+    process.exitCode = 1
+  }
+}
+
+runTests().catch((error) => {
+  console.error(error)
+  process.exitCode = 1
+})
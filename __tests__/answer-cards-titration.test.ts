@@ -0,0 +1,161 @@
+/**
+ * VerChem Answer Card Tools — Titration Tests
+ */
+
+import assert from 'node:assert/strict'
+import { TOOL_BY_NAME } from '@/lib/answer-cards/tools/registry'
+import { simulateTitration, INDICATORS } from '@/lib/calculations/titration'
+
+type TestFn = () => void | Promise<void>
+type TestCase = { name: string; fn: TestFn }
+
+const tests: TestCase[] = []
+
+function describe(_name: string, fn: () => void) {
+  fn()
+}
+
+function test(name: string, fn: TestFn) {
+  tests.push({ name, fn })
+}
+
+function expect(actual: unknown) {
+  return {
+    toBe(expected: unknown) {
+      assert.equal(actual, expected)
+    },
+    toEqual(expected: unknown) {
+      assert.deepEqual(actual, expected)
+    },
+    toBeCloseTo(expected: number, precision = 2) {
+      assert.equal(typeof actual, 'number')
+      const diff = Math.abs((actual as number) - expected)
+      assert.ok(diff < Math.pow(10, -precision), `Expected ${actual} to be close to ${expected}`)
+    },
+  }
+}
+
+const ACETIC = {
+  acid_type: 'weak',
+  acid_concentration_M: 0.1,
+  acid_volume_mL: 25,
+  ka: 1.8e-5,
+  base_concentration_M: 0.1,
+}
+
+describe('simulate_titration', () => {
+  test('acetic acid with NaOH: textbook landmarks, matches engine', () => {
+    const tool = TOOL_BY_NAME.get('simulate_titration')!
+    const result = tool.execute(ACETIC)
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.value.equivalence_volume_mL).toBeCloseTo(25, 10)
+    expect(result.value.equivalence_pH).toBeCloseTo(8.72, 2)
+    expect(result.value.initial_pH).toBeCloseTo(2.87, 2)
+    expect(result.value.half_equivalence_volume_mL).toBeCloseTo(12.5, 10)
+    // pH = pKa at half-equivalence
+    expect(result.value.half_equivalence_pH).toBeCloseTo(-Math.log10(1.8e-5), 6)
+    expect(result.value.final_volume_mL).toBeCloseTo(50, 6)
+
+    const engineResult = simulateTitration(
+      { name: 'Weak acid', formula: 'HA', concentration: 0.1, volume: 25, type: 'weak', Ka: 1.8e-5, protonCount: 1 },
+      { name: 'Strong base', formula: 'MOH', concentration: 0.1, type: 'strong', hydroxideCount: 1 },
+      INDICATORS[0],
+      0.25
+    )
+    expect(result.value.equivalence_pH).toBeCloseTo(engineResult.equivalencePoint.pH, 10)
+    expect(result.value.initial_pH).toBeCloseTo(engineResult.initialPH, 10)
+  })
+
+  test('equivalence volume is exact even when it falls between grid steps', () => {
+    const tool = TOOL_BY_NAME.get('simulate_titration')!
+    const result = tool.execute({ ...ACETIC, acid_volume_mL: 17.299, base_concentration_M: 0.0937 })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.value.equivalence_volume_mL).toBeCloseTo((0.1 * 17.299) / 0.0937, 9)
+  })
+
+  test('strong acid with a dihydroxide base: pH 7 at equivalence, no half point', () => {
+    const tool = TOOL_BY_NAME.get('simulate_titration')!
+    const result = tool.execute({
+      acid_type: 'strong',
+      acid_concentration_M: 0.1,
+      acid_volume_mL: 25,
+      base_concentration_M: 0.05,
+      base_hydroxide_count: 2,
+      indicator: 'Bromothymol Blue',
+    })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.value.equivalence_volume_mL).toBeCloseTo(25, 10)
+    expect(result.value.equivalence_pH).toBeCloseTo(7, 10)
+    expect(result.value.initial_pH).toBeCloseTo(1, 10)
+    expect(result.value.half_equivalence_pH).toBe(undefined)
+    expect(result.value.indicator_transition_range).toEqual([6, 7.6])
+    expect(result.value.equivalence_pH_in_indicator_range).toBe(true)
+  })
+
+  test('flags an indicator whose range misses the equivalence pH', () => {
+    const tool = TOOL_BY_NAME.get('simulate_titration')!
+    const result = tool.execute({ ...ACETIC, indicator: 'Methyl Orange' })
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.value.equivalence_pH_in_indicator_range).toBe(false)
+  })
+
+  test('weak acid requires ka; strong acid rejects it', () => {
+    const tool = TOOL_BY_NAME.get('simulate_titration')!
+    expect(tool.execute({ ...ACETIC, ka: undefined }).ok).toBe(false)
+    expect(tool.execute({ ...ACETIC, acid_type: 'strong' }).ok).toBe(false)
+  })
+
+  test('rejects inputs outside the engine approximations', () => {
+    const tool = TOOL_BY_NAME.get('simulate_titration')!
+    // Ka/C too large for [H+] = √(Ka·C)
+    expect(tool.execute({ ...ACETIC, acid_concentration_M: 0.001, ka: 1e-2 }).ok).toBe(false)
+    // Too dilute: water autoionization matters
+    expect(tool.execute({ ...ACETIC, acid_type: 'strong', ka: undefined, acid_concentration_M: 1e-6 }).ok).toBe(false)
+    expect(tool.execute({ ...ACETIC, base_concentration_M: 1e-6 }).ok).toBe(false)
+  })
+
+  test('rejects unknown enums and malformed numbers', () => {
+    const tool = TOOL_BY_NAME.get('simulate_titration')!
+    expect(tool.execute({ ...ACETIC, acid_type: 'polyprotic' }).ok).toBe(false)
+    expect(tool.execute({ ...ACETIC, indicator: 'Universal' }).ok).toBe(false)
+    expect(tool.execute({ ...ACETIC, base_hydroxide_count: 3 }).ok).toBe(false)
+    expect(tool.execute({ ...ACETIC, acid_volume_mL: 0 }).ok).toBe(false)
+    expect(tool.execute({ ...ACETIC, acid_volume_mL: 'Infinity' }).ok).toBe(false)
+  })
+})
+
+async function runTests() {
+  console.log('VerChem Answer Card Titration Tests')
+  let passed = 0
+  const failures: string[] = []
+
+  for (const testCase of tests) {
+    try {
+      await testCase.fn()
+      passed++
+      console.log(`PASS ${testCase.name}`)
+    } catch (error) {
+      failures.push(testCase.name)
+      console.log(`FAIL ${testCase.name}`)
+      console.error(error)
+    }
+  }
+
+  console.log(`Total tests: ${tests.length}`)
+  console.log(`Passed: ${passed}`)
+  console.log(`Failed: ${failures.length}`)
+
+  if (failures.length > 0) {
+    failures.forEach((name) => console.log(`- ${name}`))
+    process.exitCode = 1
+  }
+}
+
+runTests().catch((error) => {
+  console.error(error)
+  process.exitCode = 1
+})
@@ -0,0 +1,288 @@
+/**
+ * Developer API keys — key format, tier quotas, memory store, rate limiting
+ *
+ * - keys are vck_ + 43 base64url chars; only the SHA-256 is stored
+ * - monthly quotas come from FEATURE_LIMITS[tier].apiRequests
+ * - checkApiRateLimit(): X-RateLimit-* headers for keyed and anonymous
+ *   requests, 429 + Retry-After at the quota, 401 for unknown keys (counted
+ *   against the anonymous budget)
+ * - withApiRateLimit() on a real /api/chemistry route
+ */
+
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import {
+  apiKeyMonthlyLimit,
+  canCreateApiKeys,
+  createMemoryApiKeyStore,
+  generateApiKey,
+  hashApiKey,
+  isWellFormedApiKey,
+  nextMonthStart,
+  toApiKeySummary,
+  usageMonth,
+  validateApiKeyName,
+  type ApiKeyStore,
+} from '@/lib/api-keys'
+import { checkApiRateLimit, presentedApiKey } from '@/lib/api-keys/rate-limit'
+import { RATE_LIMITS } from '@/lib/rate-limit'
+import { FEATURE_LIMITS } from '@/lib/vercal/constants'
+import type { SubscriptionTier } from '@/lib/vercal/types'
+import { GET as molarMass } from '@/app/api/chemistry/molar-mass/route'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+const NOW = new Date('2026-10-18T12:00:00Z')
+
+function request(headers: Record<string, string> = {}, ip = '203.0.113.1') {
+  return new Request('http://localhost/api/chemistry/molar-mass?formula=H2O', {
+    headers: { 'x-real-ip': ip, ...headers },
+  })
+}
+
+async function addKey(store: ApiKeyStore, tier: SubscriptionTier, owner = 'user-1') {
+  const key = generateApiKey()
+  const record = await store.create({
+    aiverid_id: owner,
+    name: 'test',
+    tier,
+    prefix: key.slice(0, 12),
+    key_hash: await hashApiKey(key),
+  })
+  return { key, record }
+}
+
+async function run() {
+  console.log('\nAPI key format')
+
+  await test('generated keys are well-formed and distinct', () => {
+    const a = generateApiKey()
+    const b = generateApiKey()
+    assert.match(a, /^vck_[A-Za-z0-9_-]{43}$/)
+    assert.ok(isWellFormedApiKey(a))
+    assert.notEqual(a, b)
+    assert.ok(!isWellFormedApiKey('vck_short'))
+    assert.ok(!isWellFormedApiKey(a.replace('vck_', 'sk_')))
+  })
+
+  await test('hashApiKey is hex SHA-256', async () => {
+    assert.equal(
+      await hashApiKey('abc'),
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    )
+  })
+
+  await test('key names are trimmed and bounded', () => {
+    assert.deepEqual(validateApiKeyName('  CI  '), { name: 'CI' })
+    assert.ok('error' in validateApiKeyName('   '))
+    assert.ok('error' in validateApiKeyName(42))
+    assert.ok('error' in validateApiKeyName('x'.repeat(51)))
+  })
+
+  await test('presentedApiKey reads X-API-Key, then Authorization: Bearer', () => {
+    assert.equal(presentedApiKey(request({ 'x-api-key': 'k1' })), 'k1')
+    assert.equal(presentedApiKey(request({ authorization: 'Bearer k2' })), 'k2')
+    assert.equal(presentedApiKey(request({ authorization: 'Basic k3' })), null)
+    assert.equal(presentedApiKey(request()), null)
+  })
+
+  console.log('\nTier quotas')
+
+  await test('monthly limits follow FEATURE_LIMITS.apiRequests', () => {
+    for (const tier of Object.keys(FEATURE_LIMITS) as SubscriptionTier[]) {
+      assert.equal(apiKeyMonthlyLimit(tier), FEATURE_LIMITS[tier].apiRequests)
+    }
+    assert.ok(!canCreateApiKeys('free'))
+    assert.ok(!canCreateApiKeys('student'))
+    assert.ok(canCreateApiKeys('professional'))
+    assert.equal(apiKeyMonthlyLimit('constructor' as SubscriptionTier), 0)
+  })
+
+  await test('quota periods are UTC months', () => {
+    assert.equal(usageMonth(new Date('2026-12-31T23:59:59Z')), '2026-12')
+    assert.equal(nextMonthStart(new Date('2026-12-31T23:59:59Z')).toISOString(), '2027-01-01T00:00:00.000Z')
+  })
+
+  console.log('\nMemory store')
+
+  await test('create/list/revoke is scoped to the owner and never exposes the hash', async () => {
+    const store = createMemoryApiKeyStore()
+    const { record } = await addKey(store, 'professional')
+    await addKey(store, 'professional', 'user-2')
+    const listed = await store.listByUser('user-1')
+    assert.equal(listed.length, 1)
+    assert.ok(!('key_hash' in listed[0]))
+    assert.equal(await store.revoke(record.id, 'user-2'), false)
+    assert.equal(await store.revoke(record.id, 'user-1'), true)
+    assert.equal(await store.revoke(record.id, 'user-1'), false)
+    assert.ok((await store.listByUser('user-1'))[0].revoked_at)
+  })
+
+  await test('consume counts per month and stops at the quota', async () => {
+    const store = createMemoryApiKeyStore()
+    const { key, record } = await addKey(store, 'professional')
+    const hash = await hashApiKey(key)
+    const limit = FEATURE_LIMITS.professional.apiRequests
+
+    assert.deepEqual(await store.consume(hash, '2026-10'), {
+      status: 'ok', keyId: record.id, tier: 'professional', used: 1, limit,
+    })
+    for (let i = 1; i < limit; i++) await store.consume(hash, '2026-10')
+    assert.equal((await store.consume(hash, '2026-10')).status, 'over_limit')
+
+    const summary = toApiKeySummary((await store.listByUser('user-1'))[0], NOW)
+    assert.deepEqual(summary.usage, { month: '2026-10', requests: limit, limit, total: limit })
+
+    assert.equal((await store.consume(hash, '2026-11')).status, 'ok')
+    const next = toApiKeySummary((await store.listByUser('user-1'))[0], new Date('2026-11-02T00:00:00Z'))
+    assert.equal(next.usage.requests, 1)
+    assert.equal(next.usage.total, limit + 1)
+  })
+
+  await test('the quota follows the owner\'s current subscription, not the tier at creation', async () => {
+    const subscriptions = new Map<string, SubscriptionTier>([['user-1', 'professional']])
+    const store = createMemoryApiKeyStore({
+      subscriptionTier: async (owner) => subscriptions.get(owner) ?? 'free',
+    })
+    const { key, record } = await addKey(store, 'free')
+    const hash = await hashApiKey(key)
+
+    assert.deepEqual(await store.consume(hash, '2026-10'), {
+      status: 'ok', keyId: record.id, tier: 'professional', used: 1,
+      limit: FEATURE_LIMITS.professional.apiRequests,
+    })
+    assert.equal(toApiKeySummary(record, NOW, 'professional').usage.limit, FEATURE_LIMITS.professional.apiRequests)
+
+    subscriptions.delete('user-1')
+    assert.deepEqual(await store.consume(hash, '2026-10'), {
+      status: 'over_limit', keyId: record.id, tier: 'free', used: 1, limit: 0,
+    })
+    assert.equal(toApiKeySummary(record, NOW).usage.limit, 0)
+
+    // A key stamped Enterprise keeps it while the subscription is lower
+    const { key: enterprise } = await addKey(store, 'enterprise')
+    subscriptions.set('user-1', 'student')
+    assert.equal((await store.consume(await hashApiKey(enterprise), '2026-10') as { tier: string }).tier, 'enterprise')
+  })
+
+  await test('revoked and unknown keys are invalid', async () => {
+    const store = createMemoryApiKeyStore()
+    const { key, record } = await addKey(store, 'enterprise')
+    await store.revoke(record.id, 'user-1')
+    assert.deepEqual(await store.consume(await hashApiKey(key), '2026-10'), { status: 'invalid' })
+    assert.deepEqual(await store.consume('0'.repeat(64), '2026-10'), { status: 'invalid' })
+  })
+
+  console.log('\ncheckApiRateLimit')
+
+  await test('a valid key is counted against its monthly quota', async () => {
+    const store = createMemoryApiKeyStore()
+    const { key, record } = await addKey(store, 'professional')
+    const decision = await checkApiRateLimit(request({ 'x-api-key': key }), { store: () => store, now: NOW })
+    assert.ok(decision.allowed)
+    assert.equal(decision.keyId, record.id)
+    assert.equal(decision.tier, 'professional')
+    assert.deepEqual(decision.headers, {
+      'X-RateLimit-Limit': String(FEATURE_LIMITS.professional.apiRequests),
+      'X-RateLimit-Remaining': String(FEATURE_LIMITS.professional.apiRequests - 1),
+      'X-RateLimit-Reset': String(Date.UTC(2026, 10, 1) / 1000),
+      'X-RateLimit-Scope': 'key',
+    })
+  })
+
+  await test('an exhausted key gets 429 with Retry-After until the month resets', async () => {
+    const store: ApiKeyStore = {
+      ...createMemoryApiKeyStore(),
+      consume: async () => ({ status: 'over_limit', keyId: 'k', tier: 'professional', used: 10000, limit: 10000 }),
+    }
+    const decision = await checkApiRateLimit(request({ authorization: `Bearer ${generateApiKey()}` }), {
+      store: () => store,
+      now: NOW,
+    })
+    assert.ok(!decision.allowed)
+    assert.equal(decision.status, 429)
+    assert.equal(decision.code, 'RATE_LIMITED')
+    assert.equal(decision.retryAfter, (Date.UTC(2026, 10, 1) - NOW.getTime()) / 1000)
+    assert.equal(decision.headers['Retry-After'], String(decision.retryAfter))
+    assert.equal(decision.headers['X-RateLimit-Remaining'], '0')
+  })
+
+  await test('unknown and malformed keys get 401 and spend the anonymous budget', async () => {
+    const store = createMemoryApiKeyStore()
+    const ip = '203.0.113.2'
+    const unknown = await checkApiRateLimit(request({ 'x-api-key': generateApiKey() }, ip), { store: () => store })
+    assert.ok(!unknown.allowed)
+    assert.equal(unknown.status, 401)
+    assert.equal(unknown.code, 'INVALID_API_KEY')
+    assert.equal(unknown.headers['X-RateLimit-Scope'], 'anonymous')
+
+    const malformed = await checkApiRateLimit(request({ 'x-api-key': 'nope' }, ip), {
+      store: () => {
+        throw new Error('store must not be loaded for a malformed key')
+      },
+    })
+    assert.ok(!malformed.allowed)
+    assert.equal(malformed.status, 401)
+
+    const anonymous = await checkApiRateLimit(request({}, ip), { store: () => store })
+    assert.ok(anonymous.allowed)
+    assert.equal(anonymous.headers['X-RateLimit-Remaining'], String(RATE_LIMITS.publicApi.maxRequests - 3))
+  })
+
+  await test('anonymous clients get 429 after the hourly limit', async () => {
+    const store = createMemoryApiKeyStore()
+    const ip = '203.0.113.3'
+    for (let i = 0; i < RATE_LIMITS.publicApi.maxRequests; i++) {
+      assert.ok((await checkApiRateLimit(request({}, ip), { store: () => store })).allowed)
+    }
+    const decision = await checkApiRateLimit(request({}, ip), { store: () => store })
+    assert.ok(!decision.allowed)
+    assert.equal(decision.status, 429)
+    assert.ok(Number(decision.headers['Retry-After']) > 0)
+  })
+
+  console.log('\nwithApiRateLimit on /api/chemistry')
+
+  await test('responses carry X-RateLimit-* and are not publicly cacheable', async () => {
+    const res = await molarMass(
+      new NextRequest('http://localhost/api/chemistry/molar-mass?formula=H2O', {
+        headers: { 'x-real-ip': '203.0.113.4' },
+      })
+    )
+    assert.equal(res.status, 200)
+    assert.equal(res.headers.get('X-RateLimit-Limit'), String(RATE_LIMITS.publicApi.maxRequests))
+    assert.equal(res.headers.get('X-RateLimit-Scope'), 'anonymous')
+    assert.ok(res.headers.get('X-RateLimit-Reset'))
+    assert.ok(!res.headers.get('Cache-Control')?.includes('public'))
+  })
+
+  await test('a malformed key gets the 401 error envelope', async () => {
+    const res = await molarMass(
+      new NextRequest('http://localhost/api/chemistry/molar-mass?formula=H2O', {
+        headers: { 'x-real-ip': '203.0.113.5', 'x-api-key': 'vck_not-a-key' },
+      })
+    )
+    assert.equal(res.status, 401)
+    const json = await res.json()
+    assert.equal(json.success, false)
+    assert.equal(json.code, 'INVALID_API_KEY')
+    assert.equal(res.headers.get('X-RateLimit-Remaining'), String(RATE_LIMITS.publicApi.maxRequests - 1))
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
@@ -0,0 +1,180 @@
+/**
+ * POST /api/chemistry/v1/{engine}/{operation} — contract tests
+ *
+ * Calls the route handler directly with a NextRequest (no server):
+ * - every registered operation runs its own example body and returns a finite
+ *   result plus non-empty steps
+ * - spot-checks of engine numbers through HTTP
+ * - uniform error envelope: { success: false, error, code, field? }
+ */
+
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/chemistry/v1/[engine]/[operation]/route'
+import { GET } from '@/app/api/chemistry/v1/route'
+import { V1_OPERATIONS } from '@/lib/chemistry-api'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+type Json = Record<string, unknown>
+
+async function call(path: string, body: unknown): Promise<{ status: number; json: Json }> {
+  const [engine, operation] = path.split('/')
+  const request = new NextRequest(`http://localhost/api/chemistry/v1/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+  const response = await POST(request, { params: Promise.resolve({ engine, operation }) })
+  return { status: response.status, json: (await response.json()) as Json }
+}
+
+const close = (actual: unknown, expected: number, rel = 1e-3) =>
+  assert.ok(
+    typeof actual === 'number' && Math.abs(actual - expected) <= Math.abs(expected) * rel,
+    `expected ≈${expected}, got ${actual}`
+  )
+
+async function run() {
+  console.log('chemistry-api-v1')
+
+  await test('every operation answers its documented example', async () => {
+    for (const operation of V1_OPERATIONS) {
+      const path = `${operation.engine}/${operation.name}`
+      const { status, json } = await call(path, operation.example)
+      assert.equal(status, 200, `${path}: ${JSON.stringify(json)}`)
+      assert.equal(json.success, true)
+      assert.equal(json.endpoint, `/api/chemistry/v1/${path}`)
+      const steps = json.steps as string[]
+      assert.ok(Array.isArray(steps) && steps.length > 0, `${path}: no steps`)
+      assert.ok(steps.every((s) => typeof s === 'string' && s.trim() !== '' && !s.includes('\n')), `${path}: bad step`)
+    }
+  })
+
+  await test('index lists every operation with schema and example', async () => {
+    const json = (await (await GET(new NextRequest('http://localhost/api/chemistry/v1'))).json()) as { endpoints: { path: string; body: Json; example: Json }[] }
+    assert.equal(json.endpoints.length, V1_OPERATIONS.length)
+    assert.ok(json.endpoints.some((e) => e.path === '/api/chemistry/v1/kinetics/reaction-order'))
+  })
+
+  await test('engine numbers come through unchanged', async () => {
+    const gas = await call('gas-laws/ideal-gas', { V: 22.4, n: 1, T: 273.15 })
+    close((gas.json.result as Json).P, 1.0, 2e-3)
+    assert.equal((gas.json.result as Json).solvedFor, 'P')
+
+    const order = await call('kinetics/reaction-order', {
+      data: [0, 10, 20, 30].map((time) => ({ time, concentration: Math.exp(-0.05 * time) })),
+    })
+    assert.equal((order.json.result as Json).order, 'first')
+    close((order.json.result as Json).k, 0.05)
+
+    const limiting = await call('stoichiometry/limiting-reagent', {
+      reactants: [
+        { formula: 'H2', coefficient: 2, moles: 3 },
+        { formula: 'O2', coefficient: 1, moles: 1 },
+      ],
+      products: [{ formula: 'H2O', coefficient: 2 }],
+    })
+    assert.equal((limiting.json.result as Json).limitingReagent, 'O2')
+
+    const empirical = await call('stoichiometry/empirical-formula', {
+      composition: [
+        { element: 'C', percent: 40.0 },
+        { element: 'H', percent: 6.71 },
+        { element: 'O', percent: 53.29 },
+      ],
+      molarMass: 180.16,
+    })
+    assert.equal((empirical.json.result as Json).empiricalFormula, 'CH2O')
+    assert.equal((empirical.json.result as Json).molecularFormula, 'C6H12O6')
+
+    const thermo = await call('thermodynamics/analyze-reaction', {
+      reactants: [{ formula: 'CH4(g)', coefficient: 1 }, { formula: 'O2(g)', coefficient: 2 }],
+      products: [{ formula: 'CO2(g)', coefficient: 1 }, { formula: 'H2O(l)', coefficient: 2 }],
+    })
+    close((thermo.json.result as Json).deltaH, -890.5)
+    assert.equal((thermo.json.input as Json).temperature, 298.15)
+
+    const decay = await call('nuclear/decay', { initialAmount: 100, halfLife: 10, elapsedTime: 20, curvePoints: 4 })
+    close((decay.json.result as Json).remainingAmount, 25)
+    assert.equal(((decay.json.result as Json).curve as unknown[]).length, 5)
+
+    const titration = await call('titration/curve', {
+      acidType: 'strong',
+      acidConcentration: 0.1,
+      acidVolume: 25,
+      baseConcentration: 0.1,
+    })
+    const eq = (titration.json.result as Json).equivalencePoint as Json
+    close(eq.volume, 25)
+    close(eq.pH, 7, 1e-2)
+  })
+
+  await test('schema violations are 400 with a code and the offending field', async () => {
+    const cases: [string, unknown, string, string?][] = [
+      ['gas-laws/ideal-gas', '{"V":', 'INVALID_JSON'],
+      ['gas-laws/ideal-gas', [1, 2], 'INVALID_BODY'],
+      ['gas-laws/ideal-gas', { V: '22.4', n: 1, T: 273 }, 'INVALID_FIELD', 'V'],
+      ['gas-laws/ideal-gas', { V: -1, n: 1, T: 273 }, 'INVALID_FIELD', 'V'],
+      ['gas-laws/ideal-gas', { V: 22.4, n: 1, Temp: 273 }, 'UNKNOWN_FIELD', 'Temp'],
+      ['kinetics/arrhenius', { A: 1e13, T: 300 }, 'MISSING_FIELD', 'Ea'],
+      ['kinetics/concentration', { order: 'third', initialConcentration: 1, k: 1, time: 1 }, 'INVALID_FIELD', 'order'],
+      ['kinetics/reaction-order', { data: [{ time: 0, concentration: 1 }] }, 'INVALID_FIELD', 'data'],
+      ['kinetics/reaction-order', { data: [0, 1, 2].map((time) => ({ time })) }, 'MISSING_FIELD', 'data[0].concentration'],
+      ['stoichiometry/limiting-reagent', { reactants: [{ formula: 'Xx9', coefficient: 1, moles: 1 }], products: [{ formula: 'H2O', coefficient: 1 }] }, 'INVALID_FIELD', 'reactants[0].formula'],
+      ['titration/curve', { acidType: 'weak', acidConcentration: 0.1, acidVolume: 25, baseConcentration: 0.1 }, 'MISSING_FIELD', 'ka'],
+      // Denormals must not reach simulateTitration: an Infinity or 0 equivalence volume never finishes the curve
+      ['titration/curve', { acidType: 'strong', acidConcentration: 0.1, acidVolume: 25, baseConcentration: 5e-324 }, 'INVALID_FIELD', 'baseConcentration'],
+      ['titration/curve', { acidType: 'strong', acidConcentration: 0.1, acidVolume: 5e-324, baseConcentration: 0.1 }, 'INVALID_FIELD', 'acidVolume'],
+      ['titration/curve', { acidType: 'strong', acidConcentration: 0.1, acidVolume: 5e-324, baseConcentration: 0.1, stepSize: 0.1 }, 'INVALID_FIELD', 'acidVolume'],
+    ]
+    for (const [path, body, code, field] of cases) {
+      const { status, json } = await call(path, body)
+      assert.equal(status, 400, `${path} ${JSON.stringify(body)}`)
+      assert.equal(json.success, false)
+      assert.equal(json.code, code, `${path} ${JSON.stringify(body)}: ${json.error}`)
+      assert.equal(typeof json.error, 'string')
+      if (field) assert.equal(json.field, field)
+    }
+  })
+
+  await test('engine refusals are 422 CALCULATION_FAILED with the engine message', async () => {
+    const underdetermined = await call('gas-laws/ideal-gas', { V: 22.4, n: 1 })
+    assert.equal(underdetermined.status, 422)
+    assert.equal(underdetermined.json.code, 'CALCULATION_FAILED')
+
+    const squeezed = await call('gas-laws/van-der-waals', { gas: 'CO2', n: 10, V: 0.1, T: 300 })
+    assert.equal(squeezed.status, 422)
+    assert.match(String(squeezed.json.error), /molecular volume/)
+
+    const noData = await call('thermodynamics/analyze-reaction', {
+      reactants: [{ formula: 'XeF4', coefficient: 1 }],
+      products: [{ formula: 'Xe', coefficient: 1 }],
+    })
+    assert.equal(noData.status, 422)
+    assert.match(String(noData.json.error), /XeF4/)
+  })
+
+  await test('unknown endpoints are 404 UNKNOWN_ENDPOINT', async () => {
+    const { status, json } = await call('alchemy/lead-to-gold', {})
+    assert.equal(status, 404)
+    assert.equal(json.code, 'UNKNOWN_ENDPOINT')
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
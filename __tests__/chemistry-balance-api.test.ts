@@ -0,0 +1,97 @@
+/**
+ * POST /api/chemistry/balance — contract tests
+ *
+ * Calls the route handler directly with a NextRequest (no server):
+ * - balanced result: coefficients, balanced string, per-element atom counts,
+ *   reaction type
+ * - every rejection carries a stable `code`
+ */
+
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/chemistry/balance/route'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+async function balance(body: unknown): Promise<{ status: number; json: Record<string, unknown> }> {
+  const request = new NextRequest('http://localhost/api/chemistry/balance', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+  const response = await POST(request)
+  return { status: response.status, json: (await response.json()) as Record<string, unknown> }
+}
+
+async function run() {
+  console.log('chemistry-balance-api')
+
+  await test('balances and verifies atom counts per element', async () => {
+    const { status, json } = await balance({ equation: 'Fe + O2 -> Fe2O3' })
+    assert.equal(status, 200)
+    assert.equal(json.success, true)
+    assert.deepEqual(json.coefficients, [4, 3, 2])
+    assert.equal(json.balanced, '4Fe + 3O2 → 2Fe2O3')
+    assert.deepEqual(json.reactants, [
+      { formula: 'Fe', coefficient: 4 },
+      { formula: 'O2', coefficient: 3 },
+    ])
+    assert.deepEqual(json.products, [{ formula: 'Fe2O3', coefficient: 2 }])
+    assert.deepEqual(json.verification, {
+      balanced: true,
+      elements: [
+        { element: 'Fe', reactants: 4, products: 4, balanced: true },
+        { element: 'O', reactants: 6, products: 6, balanced: true },
+      ],
+    })
+    assert.equal((json.reactionType as { type: string }).type, 'redox')
+  })
+
+  await test('accepts =>, state symbols and parentheses', async () => {
+    const { status, json } = await balance({ equation: 'Ca(OH)2(aq) + HCl(aq) => CaCl2 + H2O(l)' })
+    assert.equal(status, 200)
+    assert.deepEqual(json.coefficients, [1, 2, 1, 2])
+    const reactionType = json.reactionType as Record<string, unknown>
+    assert.deepEqual(Object.keys(reactionType), ['type', 'label', 'description'])
+  })
+
+  await test('rejections carry stable error codes', async () => {
+    const cases: Array<[unknown, number, string]> = [
+      ['not json', 400, 'INVALID_JSON'],
+      [{}, 400, 'MISSING_EQUATION'],
+      [{ equation: '   ' }, 400, 'MISSING_EQUATION'],
+      [{ equation: 42 }, 400, 'MISSING_EQUATION'],
+      [{ equation: 'H2 + O2 -> H2O'.padEnd(301, ' ') }, 400, 'EQUATION_TOO_LONG'],
+      [{ equation: `${'C'.repeat(101)} -> C` }, 400, 'FORMULA_TOO_LONG'],
+      [{ equation: 'H2 + O2' }, 400, 'INVALID_EQUATION'],
+      [{ equation: 'H2 -> O2 -> H2O' }, 400, 'INVALID_EQUATION'],
+      [{ equation: 'H2 + + O2 -> H2O' }, 400, 'INVALID_EQUATION'],
+      [{ equation: 'H2 + O2 -> H2O!' }, 400, 'INVALID_EQUATION'],
+      [{ equation: 'Xx + O2 -> XxO' }, 400, 'UNKNOWN_ELEMENT'],
+      [{ equation: 'H2 -> O2' }, 422, 'CANNOT_BALANCE'],
+    ]
+    for (const [body, status, code] of cases) {
+      const result = await balance(body)
+      assert.equal(result.status, status, `${JSON.stringify(body)} → ${result.status}`)
+      assert.equal(result.json.code, code, `${JSON.stringify(body)} → ${result.json.code}`)
+      assert.equal(typeof result.json.error, 'string')
+    }
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
@@ -0,0 +1,227 @@
+/**
+ * POST /api/chemistry/{molar-mass,convert,compounds}/batch — tests
+ *
+ * - each item gets its own result; a bad item never fails the batch
+ * - only the envelope (JSON, items array, 1..BATCH_MAX_ITEMS) returns 400
+ * - batches beyond the caller's plan return 402 naming the plan that allows them
+ * - per-item errors use the single-item codes, with `field` naming the item
+ * - compound lookups by name, formula and CAS, with alternatives
+ */
+
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { BATCH_MAX_ITEMS, runBatch } from '@/lib/chemistry-api/batch'
+import { ChemistryApiError } from '@/lib/chemistry-api/errors'
+import { MOLAR_MASS_BATCH_ROUTE } from '@/lib/chemistry-api/routes'
+import { FREE_BATCH_ITEMS } from '@/lib/entitlements'
+import { FEATURE_LIMITS } from '@/lib/vercal/constants'
+import { batchLookupCompounds, batchProcessCompounds, lookupCompound } from '@/lib/compound-integration'
+import { POST as molarMassBatch } from '@/app/api/chemistry/molar-mass/batch/route'
+import { POST as convertBatch } from '@/app/api/chemistry/convert/batch/route'
+import { POST as compoundsBatch } from '@/app/api/chemistry/compounds/batch/route'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+type Json = Record<string, unknown>
+type Handler = (request: NextRequest) => Promise<Response>
+
+let ip = 0
+async function post(handler: Handler, path: string, body: unknown): Promise<{ status: number; json: Json }> {
+  // A fresh client per call keeps the per-IP rate limit out of the way.
+  const request = new NextRequest(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-forwarded-for': `10.9.${Math.floor(ip / 250)}.${ip++ % 250}` },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+  const response = await handler(request)
+  assert.equal(response.headers.get('X-API-Version'), '1.0.0')
+  return { status: response.status, json: (await response.json()) as Json }
+}
+
+const results = (json: Json) => json.results as Json[]
+
+async function run() {
+  console.log('chemistry-batch')
+
+  await test('molar mass: bad formulas fail per item, the rest succeed', async () => {
+    const { status, json } = await post(molarMassBatch, '/api/chemistry/molar-mass/batch', {
+      items: [{ formula: 'H2O' }, { formula: 'Xy2' }, { formula: 'Ca(OH)2' }, { formula: 'NaCl' }],
+    })
+    assert.equal(status, 200)
+    assert.equal(json.success, true)
+    assert.deepEqual([json.count, json.succeeded, json.failed], [4, 2, 2])
+
+    const [water, bad, parens, salt] = results(json)
+    assert.equal(water.index, 0)
+    assert.equal(water.success, true)
+    assert.deepEqual(water.input, { formula: 'H2O' })
+    const waterResult = water.result as Json
+    assert.ok(Math.abs(((waterResult.molarMass as Json).value as number) - 18.015) < 0.01)
+    const percentages = (waterResult.composition as Json[]).map((c) => (c.percentage as Json).value as number)
+    assert.ok(Math.abs(percentages.reduce((a, b) => a + b, 0) - 100) < 1e-9)
+
+    for (const item of [bad, parens]) {
+      assert.equal(item.success, false)
+      assert.equal(item.code, 'INVALID_FORMULA')
+      assert.equal(typeof item.error, 'string')
+      assert.equal(typeof item.hint, 'string')
+    }
+    assert.equal(bad.index, 1)
+    assert.deepEqual(bad.input, { formula: 'Xy2' })
+    assert.equal(salt.success, true)
+    assert.equal((salt.result as Json).formula, 'NaCl')
+  })
+
+  await test('items that fail the item schema are reported with their index', async () => {
+    const { status, json } = await post(molarMassBatch, '/api/chemistry/molar-mass/batch', {
+      items: ['H2O', {}, { formula: 'H2O', extra: 1 }, { formula: 'O2' }],
+    })
+    assert.equal(status, 200)
+    const [notObject, missing, unknown, ok] = results(json)
+    assert.equal(notObject.code, 'INVALID_FIELD')
+    assert.equal(notObject.field, 'items[0]')
+    assert.equal(notObject.input, 'H2O')
+    assert.equal(missing.code, 'MISSING_FIELD')
+    assert.equal(missing.field, 'items[1].formula')
+    assert.equal(unknown.code, 'UNKNOWN_FIELD')
+    assert.equal(unknown.field, 'items[2].extra')
+    assert.equal(ok.success, true)
+    assert.deepEqual([json.succeeded, json.failed], [1, 3])
+  })
+
+  await test('the envelope is validated as a whole', async () => {
+    const path = '/api/chemistry/molar-mass/batch'
+    const cases: Array<[unknown, string, string | undefined]> = [
+      ['{not json', 'INVALID_JSON', undefined],
+      [[{ formula: 'H2O' }], 'INVALID_BODY', undefined],
+      [{}, 'MISSING_FIELD', 'items'],
+      [{ items: { formula: 'H2O' } }, 'INVALID_FIELD', 'items'],
+      [{ items: [] }, 'INVALID_FIELD', 'items'],
+      [{ items: Array.from({ length: BATCH_MAX_ITEMS + 1 }, () => ({ formula: 'H2O' })) }, 'INVALID_FIELD', 'items'],
+      [{ items: [{ formula: 'H2O' }], mode: 'fast' }, 'UNKNOWN_FIELD', 'mode'],
+    ]
+    for (const [body, code, field] of cases) {
+      const { status, json } = await post(molarMassBatch, path, body)
+      assert.equal(status, 400, JSON.stringify(json))
+      assert.equal(json.success, false)
+      assert.equal(json.code, code)
+      if (field) assert.equal(json.field, field)
+    }
+
+  })
+
+  await test('batch size is capped by the API key tier', async () => {
+    const path = '/api/chemistry/molar-mass/batch'
+    const items = (n: number) => Array.from({ length: n }, () => ({ formula: 'CO2' }))
+
+    const free = await post(molarMassBatch, path, { items: items(FREE_BATCH_ITEMS) })
+    assert.equal(free.status, 200)
+    assert.equal(free.json.succeeded, FREE_BATCH_ITEMS)
+
+    const over = await post(molarMassBatch, path, { items: items(FREE_BATCH_ITEMS + 1) })
+    assert.equal(over.status, 402)
+    assert.equal(over.json.code, 'LIMIT_EXCEEDED')
+    assert.equal(over.json.tier, 'free')
+    assert.equal(over.json.requiredTier, 'professional')
+    assert.equal(over.json.limit, FREE_BATCH_ITEMS)
+
+    const run = () => ({})
+    const pro = FEATURE_LIMITS.professional.batchSize
+    assert.equal(runBatch({ items: items(pro) }, MOLAR_MASS_BATCH_ROUTE.body, run, 'professional').count, pro)
+    assert.throws(
+      () => runBatch({ items: items(pro + 1) }, MOLAR_MASS_BATCH_ROUTE.body, run, 'professional'),
+      (err: unknown) =>
+        err instanceof ChemistryApiError && err.status === 402 && err.details.requiredTier === 'enterprise'
+    )
+    const full = runBatch({ items: items(BATCH_MAX_ITEMS) }, MOLAR_MASS_BATCH_ROUTE.body, run, 'enterprise')
+    assert.equal(full.succeeded, BATCH_MAX_ITEMS)
+  })
+
+  await test('convert: bad units and overflow fail per item', async () => {
+    const { status, json } = await post(convertBatch, '/api/chemistry/convert/batch', {
+      items: [
+        { value: 100, from: 'C', to: 'F', category: 'temperature' },
+        { value: 5, from: 'g', to: 'K', category: 'mass' },
+        { value: 1e308, from: 'atm', to: 'Pa', category: 'pressure' },
+        { value: 1, from: 'atm', to: 'kPa', category: 'colour' },
+      ],
+    })
+    assert.equal(status, 200)
+    const [ok, badUnit, overflow, badCategory] = results(json)
+    assert.equal(ok.success, true)
+    assert.ok(Math.abs((((ok.result as Json).output as Json).value as number) - 212) < 1e-9)
+    assert.equal(badUnit.code, 'INVALID_FIELD')
+    assert.equal(badUnit.field, 'items[1].to')
+    assert.ok(Array.isArray(badUnit.availableUnits))
+    assert.equal(overflow.code, 'NON_FINITE_RESULT')
+    assert.equal(badCategory.code, 'INVALID_FIELD')
+    assert.equal(badCategory.field, 'items[3].category')
+  })
+
+  await test('compounds: lookup by name, formula and CAS', async () => {
+    const { status, json } = await post(compoundsBatch, '/api/chemistry/compounds/batch', {
+      items: [
+        { query: 'water' },
+        { query: 'NaCl', by: 'formula' },
+        { query: '64-17-5' },
+        { query: 'unobtainium' },
+        { query: 'water', by: 'cas' },
+        { query: 'H2O', by: 'smiles' },
+      ],
+    })
+    assert.equal(status, 200)
+    const [water, salt, ethanol, missing, wrongKind, badKind] = results(json)
+
+    assert.equal((water.result as Json).matchedBy, 'name')
+    assert.equal(((water.result as Json).compound as Json).formula, 'H2O')
+    assert.ok(((water.result as Json).compound as Json).percentComposition)
+    assert.deepEqual(water.input, { query: 'water', by: 'auto' })
+
+    assert.equal((salt.result as Json).matchedBy, 'formula')
+    const alternatives = (salt.result as Json).alternatives as Json[]
+    assert.ok(alternatives.every((alt) => alt.formula === 'NaCl'))
+
+    assert.equal((ethanol.result as Json).matchedBy, 'cas')
+    assert.equal(((ethanol.result as Json).compound as Json).casNumber, '64-17-5')
+
+    assert.equal(missing.code, 'NOT_FOUND')
+    assert.equal(missing.query, 'unobtainium')
+    assert.equal(wrongKind.code, 'NOT_FOUND')
+    assert.equal(badKind.code, 'INVALID_FIELD')
+    assert.equal(badKind.field, 'items[5].by')
+    assert.deepEqual([json.succeeded, json.failed], [3, 3])
+  })
+
+  await test('lookupCompound and batchProcessCompounds', () => {
+    assert.equal(lookupCompound({ query: ' 64-17-5 ' }).compound?.casNumber, '64-17-5')
+    assert.equal(lookupCompound({ query: 'nacl', by: 'formula' }).compound?.formula, 'NaCl')
+    const byName = lookupCompound({ query: 'NaCl', by: 'name' })
+    assert.deepEqual([byName.matchedBy, byName.compound, byName.alternatives], [null, null, []])
+    assert.deepEqual(
+      batchLookupCompounds([{ query: 'water' }, { query: 'Zz9' }]).map((r) => r.matchedBy),
+      ['name', null]
+    )
+
+    const batch = batchProcessCompounds(['H2O', 'NaCl', 'Zz9'])
+    assert.deepEqual(batch.successful.map((c) => c.formula), ['H2O', 'NaCl'])
+    assert.deepEqual(batch.failed, ['Zz9'])
+    assert.equal(batch.errors.Zz9, 'Compound not found in database')
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
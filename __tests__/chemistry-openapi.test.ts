@@ -0,0 +1,232 @@
+/**
+ * /api/chemistry route specs and OpenAPI document — contract tests
+ *
+ * - every route.ts under app/api/chemistry has a spec entry for each HTTP
+ *   method it exports, and every spec entry has a handler
+ * - GET /api/chemistry/openapi.json documents every route and v1 operation
+ * - each route's example request succeeds and its response matches the
+ *   declared response schema
+ * - query strings and bodies are validated against the same specs
+ */
+
+import assert from 'node:assert/strict'
+import { readdirSync } from 'node:fs'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { NextRequest } from 'next/server'
+import { V1_OPERATIONS, operationPath } from '@/lib/chemistry-api'
+import { CHEMISTRY_ROUTES, V1_OPERATION_ROUTE, type JsonSchema, type RouteSpec } from '@/lib/chemistry-api/routes'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+type Json = Record<string, unknown>
+type Handler = (request: NextRequest, context: { params: Promise<Record<string, string>> }) => Promise<Response>
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD']
+const API_DIR = path.join(process.cwd(), 'app/api/chemistry')
+
+/** route.ts files under app/api/chemistry, keyed by OpenAPI path template. */
+function routeFiles(dir = API_DIR): Map<string, string> {
+  const files = new Map<string, string>()
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name)
+    if (entry.isDirectory()) {
+      for (const [template, file] of routeFiles(full)) files.set(template, file)
+    } else if (entry.name === 'route.ts') {
+      const relative = path.relative(path.join(process.cwd(), 'app'), dir).split(path.sep).join('/')
+      files.set(`/${relative}`.replace(/\[(\w+)\]/g, '{$1}'), full)
+    }
+  }
+  return files
+}
+
+async function handlers(file: string): Promise<Record<string, Handler>> {
+  const mod = (await import(pathToFileURL(file).href)) as Record<string, unknown>
+  return Object.fromEntries(
+    HTTP_METHODS.filter((method) => typeof mod[method] === 'function').map((method) => [method, mod[method] as Handler])
+  )
+}
+
+/** The subset of JSON Schema the route specs use. Returns the first mismatch. */
+function mismatch(schema: JsonSchema, value: unknown, at = '$'): string | null {
+  if ('const' in schema && value !== schema.const) return `${at}: expected ${JSON.stringify(schema.const)}`
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) return `${at}: ${JSON.stringify(value)} not in enum`
+  if (Array.isArray(schema.anyOf) && !(schema.anyOf as JsonSchema[]).some((s) => !mismatch(s, value, at))) {
+    return `${at}: matches no anyOf branch`
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const errors = (schema.oneOf as JsonSchema[]).map((s) => mismatch(s, value, at))
+    if (errors.filter((e) => e === null).length !== 1) return `${at}: must match exactly one oneOf branch (${errors.join('; ')})`
+  }
+  switch (schema.type) {
+    case 'string':
+      return typeof value === 'string' ? null : `${at}: expected string`
+    case 'number':
+      return typeof value === 'number' ? null : `${at}: expected number`
+    case 'integer':
+      return Number.isInteger(value) ? null : `${at}: expected integer`
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${at}: expected boolean`
+    case 'null':
+      return value === null ? null : `${at}: expected null`
+    case 'array': {
+      if (!Array.isArray(value)) return `${at}: expected array`
+      for (const [i, item] of value.entries()) {
+        const e = schema.items ? mismatch(schema.items as JsonSchema, item, `${at}[${i}]`) : null
+        if (e) return e
+      }
+      return null
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return `${at}: expected object`
+      const record = value as Json
+      for (const key of (schema.required as string[] | undefined) ?? []) {
+        if (!(key in record)) return `${at}.${key}: required`
+      }
+      for (const [key, sub] of Object.entries((schema.properties as Record<string, JsonSchema>) ?? {})) {
+        const e = key in record ? mismatch(sub, record[key], `${at}.${key}`) : null
+        if (e) return e
+      }
+      return null
+    }
+  }
+  return null
+}
+
+async function call(route: Pick<RouteSpec, 'method' | 'path'>, url: string, body?: unknown) {
+  const file = routeFiles().get(route.path)
+  assert.ok(file, `no route file for ${route.path}`)
+  const handler = (await handlers(file))[route.method]
+  const request = new NextRequest(`http://localhost${url}`, {
+    method: route.method,
+    ...(body !== undefined && { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }),
+  })
+  const segments = url.split('?')[0].split('/').slice(4)
+  const response = await handler(request, {
+    params: Promise.resolve({ engine: segments[0] ?? '', operation: segments[1] ?? '' }),
+  })
+  return { status: response.status, json: (await response.json()) as Json }
+}
+
+function exampleUrl(route: RouteSpec): string {
+  if (route.method !== 'GET' || !route.example) return route.path
+  return `${route.path}?${new URLSearchParams(Object.entries(route.example).map(([k, v]) => [k, String(v)]))}`
+}
+
+const byPath = (p: string, method = 'GET') => CHEMISTRY_ROUTES.find((r) => r.path === p && r.method === method)!
+
+async function run() {
+  console.log('chemistry-openapi')
+
+  await test('every route handler has a spec entry and every spec entry has a handler', async () => {
+    const implemented = new Set<string>()
+    for (const [template, file] of routeFiles()) {
+      for (const method of Object.keys(await handlers(file))) implemented.add(`${method} ${template}`)
+    }
+    const specified = new Set(CHEMISTRY_ROUTES.map((r) => `${r.method} ${r.path}`))
+    assert.equal(specified.size, CHEMISTRY_ROUTES.length, 'duplicate spec entries')
+    for (const key of implemented) assert.ok(specified.has(key), `route without a spec entry: ${key}`)
+    for (const key of specified) assert.ok(implemented.has(key), `spec entry without a route: ${key}`)
+  })
+
+  await test('openapi.json documents every route and v1 operation', async () => {
+    const { status, json } = await call(byPath('/api/chemistry/openapi.json'), '/api/chemistry/openapi.json')
+    assert.equal(status, 200)
+    assert.equal(json.openapi, '3.1.0')
+    const paths = json.paths as Record<string, Record<string, Json>>
+
+    for (const route of CHEMISTRY_ROUTES) {
+      if (route === V1_OPERATION_ROUTE) continue
+      assert.ok(paths[route.path]?.[route.method.toLowerCase()], `${route.method} ${route.path} missing`)
+    }
+    for (const operation of V1_OPERATIONS) {
+      const doc = paths[operationPath(operation)]?.post
+      assert.ok(doc, `${operationPath(operation)} missing`)
+      const body = (doc.requestBody as { content: Record<string, { schema: Json }> }).content['application/json'].schema
+      assert.deepEqual(Object.keys(body.properties as Json), Object.keys(operation.body))
+    }
+    assert.equal(Object.keys(paths).length, new Set(CHEMISTRY_ROUTES.map((r) => r.path)).size - 1 + V1_OPERATIONS.length)
+
+    const convert = paths['/api/chemistry/convert'].get.parameters as Json[]
+    const category = convert.find((p) => p.name === 'category')!
+    assert.equal(category.required, true)
+    assert.ok(((category.schema as Json).enum as string[]).includes('temperature'))
+
+    const ids = Object.values(paths).flatMap((methods) => Object.values(methods).map((op) => op.operationId))
+    assert.equal(new Set(ids).size, ids.length, 'operationIds must be unique')
+  })
+
+  await test('each route example succeeds and matches its response schema', async () => {
+    for (const route of CHEMISTRY_ROUTES) {
+      if (route === V1_OPERATION_ROUTE) continue
+      const body = route.method === 'POST' ? route.example : undefined
+      const { status, json } = await call(route, exampleUrl(route), body)
+      assert.equal(status, 200, `${route.method} ${route.path}: ${JSON.stringify(json)}`)
+      const error = mismatch(route.response, json)
+      assert.equal(error, null, `${route.method} ${route.path}: ${error}`)
+    }
+    for (const operation of V1_OPERATIONS) {
+      const { status, json } = await call(V1_OPERATION_ROUTE, operationPath(operation), operation.example)
+      assert.equal(status, 200, operationPath(operation))
+      const error = mismatch(V1_OPERATION_ROUTE.response, json)
+      assert.equal(error, null, `${operationPath(operation)}: ${error}`)
+    }
+  })
+
+  await test('query strings are validated against the route spec', async () => {
+    const cases: [string, string, string, number, string, string?][] = [
+      ['/api/chemistry/molar-mass', '', 'GET', 400, 'MISSING_FIELD', 'formula'],
+      ['/api/chemistry/molar-mass', '?formula=' + 'H'.repeat(101), 'GET', 400, 'INVALID_FIELD', 'formula'],
+      ['/api/chemistry/elements', '?number=200', 'GET', 400, 'INVALID_FIELD', 'number'],
+      ['/api/chemistry/elements', '?number=11abc', 'GET', 400, 'INVALID_FIELD', 'number'],
+      ['/api/chemistry/elements', '?symbl=Na', 'GET', 400, 'UNKNOWN_FIELD', 'symbl'],
+      ['/api/chemistry/compounds', '?limit=0', 'GET', 400, 'INVALID_FIELD', 'limit'],
+      ['/api/chemistry/convert', '?value=1e309&from=C&to=F&category=temperature', 'GET', 400, 'INVALID_FIELD', 'value'],
+      ['/api/chemistry/convert', '?value=1&from=C&to=F&category=colour', 'GET', 400, 'INVALID_FIELD', 'category'],
+      ['/api/chemistry/convert', '?value=1&from=C&to=F', 'GET', 400, 'MISSING_FIELD', 'category'],
+      ['/api/chemistry/ph', '?ph=15', 'GET', 400, 'INVALID_FIELD', 'ph'],
+      ['/api/chemistry/ph', '?h=-1', 'GET', 400, 'INVALID_FIELD', 'h'],
+    ]
+    for (const [route, query, method, status, code, field] of cases) {
+      const { status: actual, json } = await call(byPath(route, method), `${route}${query}`)
+      assert.equal(actual, status, `${route}${query}: ${JSON.stringify(json)}`)
+      assert.equal(json.code, code, `${route}${query}`)
+      assert.equal(typeof json.error, 'string')
+      if (field) assert.equal(json.field, field, `${route}${query}`)
+    }
+
+    // An empty value counts as absent, as before the shared schema.
+    const compounds = await call(byPath('/api/chemistry/compounds'), '/api/chemistry/compounds?limit=&q=water')
+    assert.equal(compounds.status, 200)
+    assert.equal((compounds.json.filters as Json).limit, 50)
+  })
+
+  await test('the balance body is validated against its spec', async () => {
+    const route = byPath('/api/chemistry/balance', 'POST')
+    const extra = await call(route, route.path, { equation: 'H2 + O2 -> H2O', coefficients: [2, 1, 2] })
+    assert.equal(extra.status, 400)
+    assert.equal(extra.json.code, 'UNKNOWN_FIELD')
+    assert.equal(extra.json.field, 'coefficients')
+
+    const array = await call(route, route.path, ['H2 + O2 -> H2O'])
+    assert.equal(array.status, 400)
+    assert.equal(array.json.code, 'INVALID_BODY')
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
@@ -0,0 +1,206 @@
+/**
+ * Server-side entitlements — tier checks, saved/batch limits, per-period quotas
+ *
+ * - a feature's minimum tier, saved-item caps and per-request sizes come from
+ *   FEATURE_LIMITS; refusals name the lowest tier that would allow the call
+ *   (402), or none (403)
+ * - consumeQuota() counts per UTC day in the usage store, grants batches
+ *   partially, and never stores unlimited tiers
+ * - entitlementResponse(): the structured 402/403 body, Retry-After for quotas
+ */
+
+import assert from 'node:assert/strict'
+import {
+  FEATURES,
+  FREE_BATCH_ITEMS,
+  checkEntitlement,
+  consumeQuota,
+  createMemoryUsageStore,
+  entitlementResponse,
+  higherTier,
+  knownTier,
+  quotaPeriod,
+  savedLimit,
+  type EntitlementDenial,
+  type UsageStore,
+} from '@/lib/entitlements'
+import { ANSWER_CARD_DAILY_LIMITS } from '@/lib/rate-limit'
+import { FEATURE_LIMITS } from '@/lib/vercal/constants'
+import { canSaveCalculation } from '@/lib/vercal/subscription'
+import type { SubscriptionTier } from '@/lib/vercal/types'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+const NOW = new Date('2026-10-18T12:00:00Z')
+
+function denied(decision: { allowed: boolean }): EntitlementDenial {
+  assert.equal(decision.allowed, false, 'expected a refusal')
+  return decision as EntitlementDenial
+}
+
+async function run() {
+  console.log('entitlements')
+
+  await test('minimum tier: PDF export needs Student', () => {
+    const refusal = denied(checkEntitlement('answer-card-pdf', 'free'))
+    assert.equal(refusal.status, 402)
+    assert.equal(refusal.code, 'TIER_REQUIRED')
+    assert.equal(refusal.requiredTier, 'student')
+    assert.match(refusal.error, /Student plan/)
+
+    for (const tier of ['student', 'professional', 'enterprise'] as const) {
+      assert.equal(checkEntitlement('answer-card-pdf', tier).allowed, true)
+    }
+  })
+
+  await test('unknown and prototype tiers count as free', () => {
+    assert.equal(knownTier('constructor' as SubscriptionTier), 'free')
+    assert.equal(knownTier('__proto__' as SubscriptionTier), 'free')
+    assert.equal(denied(checkEntitlement('answer-card-pdf', 'toString' as SubscriptionTier)).tier, 'free')
+    assert.equal(higherTier('student', 'professional'), 'professional')
+    assert.equal(higherTier('enterprise', 'bogus' as SubscriptionTier), 'enterprise')
+  })
+
+  await test('saved molecules follow maxSavedCalculations', () => {
+    const limit = FEATURE_LIMITS.free.maxSavedCalculations
+    for (let saved = 0; saved <= limit; saved++) {
+      assert.equal(
+        checkEntitlement('molecule-save', 'free', { saved }).allowed,
+        canSaveCalculation('free', saved),
+        `saved=${saved}`
+      )
+    }
+    const refusal = denied(checkEntitlement('molecule-save', 'free', { saved: limit }))
+    assert.equal(refusal.code, 'LIMIT_EXCEEDED')
+    assert.equal(refusal.requiredTier, 'student')
+    assert.equal(refusal.limit, limit)
+    assert.equal(checkEntitlement('molecule-save', 'student', { saved: 10_000 }).allowed, true)
+
+    // The cap a store enforces is the one checkEntitlement reports
+    assert.equal(savedLimit('molecule-save', 'free'), limit)
+    assert.equal(savedLimit('molecule-save', 'student'), Number.POSITIVE_INFINITY)
+    assert.equal(savedLimit('molecule-save', 'toString' as SubscriptionTier), limit)
+    assert.equal(savedLimit('answer-card', 'free'), Number.POSITIVE_INFINITY)
+  })
+
+  await test('batch size: free allowance, then the tier batchSize, then nobody', () => {
+    assert.equal(checkEntitlement('chemistry-batch', 'free', { items: FREE_BATCH_ITEMS }).allowed, true)
+    assert.equal(denied(checkEntitlement('chemistry-batch', 'student', { items: FREE_BATCH_ITEMS + 1 })).requiredTier, 'professional')
+
+    const pro = FEATURE_LIMITS.professional.batchSize
+    assert.equal(checkEntitlement('chemistry-batch', 'professional', { items: pro }).allowed, true)
+    assert.equal(denied(checkEntitlement('chemistry-batch', 'professional', { items: pro + 1 })).requiredTier, 'enterprise')
+
+    const tooBig = denied(checkEntitlement('chemistry-batch', 'enterprise', { items: FEATURE_LIMITS.enterprise.batchSize + 1 }))
+    assert.equal(tooBig.status, 403)
+    assert.equal(tooBig.requiredTier, null)
+    assert.doesNotMatch(tooBig.error, /Upgrade/)
+  })
+
+  await test('daily answer-card quota: the 21st free card is refused until tomorrow', async () => {
+    const store = createMemoryUsageStore()
+    const caller = { userId: 'user-1', tier: 'free' as const }
+    const limit = ANSWER_CARD_DAILY_LIMITS.free
+    for (let i = 1; i <= limit; i++) {
+      const decision = await consumeQuota('answer-card', caller, 1, store, NOW)
+      assert.ok(decision.allowed)
+      assert.equal(decision.remaining, limit - i)
+      assert.equal(decision.resetAt, '2026-10-19T00:00:00.000Z')
+    }
+
+    const refusal = denied(await consumeQuota('answer-card', caller, 1, store, NOW))
+    assert.equal(refusal.status, 402)
+    assert.equal(refusal.code, 'QUOTA_EXCEEDED')
+    assert.equal(refusal.requiredTier, 'student')
+    assert.equal(refusal.used, limit)
+    assert.equal(refusal.resetAt, '2026-10-19T00:00:00.000Z')
+
+    // Another user, and the next UTC day, start from zero.
+    assert.ok((await consumeQuota('answer-card', { ...caller, userId: 'user-2' }, 1, store, NOW)).allowed)
+    assert.ok((await consumeQuota('answer-card', caller, 1, store, new Date('2026-10-19T00:00:00Z'))).allowed)
+  })
+
+  await test('an exhausted student quota names professional; unlimited tiers skip the store', async () => {
+    const store = createMemoryUsageStore()
+    const student = { userId: 'user-1', tier: 'student' as const }
+    const first = await consumeQuota('answer-card', student, ANSWER_CARD_DAILY_LIMITS.student, store, NOW)
+    assert.ok(first.allowed && first.granted === ANSWER_CARD_DAILY_LIMITS.student)
+    assert.equal(denied(await consumeQuota('answer-card', student, 1, store, NOW)).requiredTier, 'professional')
+
+    const untouchable: UsageStore = {
+      async consume() {
+        throw new Error('unlimited tiers must not touch the store')
+      },
+    }
+    const pro = await consumeQuota('answer-card', { userId: 'user-1', tier: 'professional' }, 500, untouchable, NOW)
+    assert.ok(pro.allowed)
+    assert.equal(pro.granted, 500)
+    assert.equal(pro.remaining, Number.POSITIVE_INFINITY)
+  })
+
+  await test('batches are granted as many units as fit', async () => {
+    const store = createMemoryUsageStore()
+    const caller = { userId: 'user-1', tier: 'free' as const }
+    await consumeQuota('answer-card', caller, 15, store, NOW)
+
+    const partial = await consumeQuota('answer-card', caller, 10, store, NOW)
+    assert.ok(partial.allowed)
+    assert.equal(partial.granted, 5)
+    assert.equal(partial.remaining, 0)
+
+    assert.equal(denied(await consumeQuota('answer-card', caller, 10, store, NOW)).code, 'QUOTA_EXCEEDED')
+  })
+
+  await test('quota periods are UTC days and months', () => {
+    assert.deepEqual(quotaPeriod('day', new Date('2026-12-31T23:59:59Z')), {
+      key: '2026-12-31',
+      resetAt: new Date('2027-01-01T00:00:00Z'),
+    })
+    assert.deepEqual(quotaPeriod('month', new Date('2026-12-31T23:59:59Z')), {
+      key: '2026-12',
+      resetAt: new Date('2027-01-01T00:00:00Z'),
+    })
+    assert.equal(FEATURES['answer-card'].quota?.period, 'day')
+  })
+
+  await test('entitlementResponse: structured 402 body, Retry-After for quotas', async () => {
+    const tierRefusal = denied(checkEntitlement('answer-card-pdf', 'free'))
+    const response = entitlementResponse(tierRefusal)
+    assert.equal(response.status, 402)
+    assert.equal(response.headers.get('Retry-After'), null)
+    assert.deepEqual(await response.json(), {
+      error: tierRefusal.error,
+      code: 'TIER_REQUIRED',
+      feature: 'answer-card-pdf',
+      tier: 'free',
+      requiredTier: 'student',
+    })
+
+    const store = createMemoryUsageStore()
+    const caller = { userId: 'user-1', tier: 'free' as const }
+    await consumeQuota('answer-card', caller, ANSWER_CARD_DAILY_LIMITS.free, store)
+    const quotaResponse = entitlementResponse(denied(await consumeQuota('answer-card', caller, 1, store)))
+    const retryAfter = Number(quotaResponse.headers.get('Retry-After'))
+    assert.ok(retryAfter >= 1 && retryAfter <= 86_400, `Retry-After ${retryAfter}`)
+    const body = await quotaResponse.json()
+    assert.equal(body.code, 'QUOTA_EXCEEDED')
+    assert.equal(body.limit, ANSWER_CARD_DAILY_LIMITS.free)
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
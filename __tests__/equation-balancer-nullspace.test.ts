@@ -0,0 +1,112 @@
+/**
+ * Equation balancer — exact rational null space
+ *
+ * - analyzeEquation reports 0, 1 or several independent balanced reactions
+ * - each basis vector is a balanced reaction in its own right
+ * - balanceEquation refuses ambiguous, one-sided and wrong-side equations
+ *   with solutionSpace.reason instead of picking an arbitrary answer
+ * - large coefficients come out exact
+ * - POST /api/chemistry/balance returns the reason and the basis reactions
+ */
+
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/chemistry/balance/route'
+import { analyzeEquation, balanceEquation } from '@/lib/calculations/equation-balancer'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+async function run() {
+  console.log('equation balancer null space')
+
+  await test('one independent reaction: the basis is the balance', () => {
+    const space = analyzeEquation('C3H8 + O2 -> CO2 + H2O')
+    assert.deepEqual(space, {
+      dimension: 1,
+      basis: [[1, 5, 3, 4]],
+      reactions: ['C3H8 + 5O2 → 3CO2 + 4H2O'],
+    })
+
+    const ferrocyanide = 'K4Fe(CN)6 + KMnO4 + H2SO4 -> KHSO4 + Fe2(SO4)3 + MnSO4 + HNO3 + CO2 + H2O'
+    assert.deepEqual(balanceEquation(ferrocyanide).coefficients, [10, 122, 299, 162, 5, 122, 60, 60, 188])
+    assert.equal(balanceEquation(ferrocyanide).solutionSpace, undefined)
+  })
+
+  await test('no solution: one-sided elements and charge', () => {
+    const oneSided = analyzeEquation('H2 -> O2')
+    assert.equal(oneSided.dimension, 0)
+    assert.deepEqual(oneSided.basis, [])
+    assert.match(oneSided.reason!, /^H and O appear on only one side/)
+
+    assert.match(analyzeEquation('Fe3+ -> Fe2+').reason!, /add electrons/)
+    assert.match(analyzeEquation('Na + H2O -> NaOH').reason!, /Only all-zero coefficients/)
+  })
+
+  await test('several independent reactions: basis returned, nothing guessed', () => {
+    const space = analyzeEquation('H2 + O2 -> H2O + H2O2')
+    assert.equal(space.dimension, 2)
+    assert.deepEqual(space.reactions, ['2H2 + O2 → 2H2O', 'H2 + O2 → H2O2'])
+    assert.match(space.reason!, /^2 independent reactions/)
+
+    const result = balanceEquation('H2 + O2 -> H2O + H2O2')
+    assert.equal(result.isBalanced, false)
+    assert.deepEqual(result.coefficients, [])
+    assert.deepEqual(result.solutionSpace, space)
+
+    // Permanganate oxidising H2O2 alongside its decomposition
+    const mixed = analyzeEquation('MnO4- + H2O2 + H+ -> Mn2+ + O2 + H2O')
+    assert.equal(mixed.dimension, 2)
+    for (const reaction of [...mixed.reactions, ...analyzeEquation('C + O2 -> CO + CO2').reactions]) {
+      assert.equal(analyzeEquation(reaction).dimension, 1, reaction)
+      assert.equal(balanceEquation(reaction).isBalanced, true, reaction)
+    }
+  })
+
+  await test('unique but unusable: idle species and species on the wrong side', () => {
+    const idle = balanceEquation('H2 + O2 + N2 -> H2O')
+    assert.equal(idle.isBalanced, false)
+    assert.deepEqual(idle.solutionSpace?.basis, [[2, 1, 0, 2]])
+    assert.equal(idle.solutionSpace?.reason, 'N2 takes no part in the only balanced reaction: 2H2 + O2 → 2H2O')
+
+    const reversed = analyzeEquation('H2O + H2 -> O2')
+    assert.deepEqual(reversed.basis, [[2, -2, 1]])
+    assert.equal(reversed.reason, 'H2 belongs on the other side of the arrow: 2H2O → 2H2 + O2')
+
+    // Already balanced as written is still one reaction
+    assert.deepEqual(balanceEquation('H2O -> H2O').coefficients, [1, 1])
+  })
+
+  await test('POST /api/chemistry/balance: reason and basis reactions on 422', async () => {
+    const response = await POST(
+      new NextRequest('http://localhost/api/chemistry/balance', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ equation: 'C + O2 -> CO + CO2' }),
+      })
+    )
+    assert.equal(response.status, 422)
+    const json = (await response.json()) as Record<string, unknown>
+    assert.equal(json.code, 'CANNOT_BALANCE')
+    assert.match(json.error as string, /not unique/)
+    assert.equal(json.independentReactions, 2)
+    assert.deepEqual(json.reactions, ['2C + O2 → 2CO', 'C + O2 → CO2'])
+    assert.match(json.reason as string, /independent reactions/)
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
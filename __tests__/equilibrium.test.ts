@@ -0,0 +1,155 @@
+/**
+ * Chemical equilibrium (solveEquilibrium) — tests
+ *
+ * - ICE tables from K and initial amounts, balanced with balanceEquation
+ * - exact x by bisection, including weak acids and extreme K
+ * - reaction quotient Q and the Le Chatelier shift, both directions
+ * - Kc ↔ Kp with Δn of gases; no Kp for dissolved species
+ * - pure solids and liquids left out of K; invalid input refused
+ */
+
+import assert from 'node:assert/strict'
+import {
+  calculateReactionQuotient,
+  convertEquilibriumConstant,
+  predictShift,
+  solveEquilibrium,
+} from '@/lib/calculations/equilibrium'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+const close = (actual: number, expected: number, relative = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) <= relative * Math.abs(expected), `${actual} ≉ ${expected}`)
+
+async function run() {
+  console.log('chemical equilibrium')
+
+  await test('H2 + I2 ⇌ 2HI: balanced, ICE table and x', () => {
+    const result = solveEquilibrium({ equation: 'H2 + I2 -> HI', initial: { H2: 0.5, I2: 0.5 }, K: 54.3 })
+    assert.equal(result.equation, 'H2 + I2 ⇌ 2HI')
+    assert.equal(result.unit, 'M')
+    assert.equal(result.shift, 'forward')
+    assert.equal(result.Q, 0)
+
+    // 2x / (0.5 − x) = √54.3
+    const root = Math.sqrt(54.3)
+    close(result.extent, (0.5 * root) / (2 + root))
+    assert.deepEqual(
+      result.ice.map(row => [row.formula, row.side, row.coefficient, row.changeExpression]),
+      [
+        ['H2', 'reactant', 1, '-x'],
+        ['I2', 'reactant', 1, '-x'],
+        ['HI', 'product', 2, '+2x'],
+      ]
+    )
+    close(result.ice[2].equilibrium, 2 * result.extent)
+    close(result.ice[2].equilibrium ** 2 / (result.ice[0].equilibrium * result.ice[1].equilibrium), 54.3)
+    assert.ok(result.steps.includes('Kc = [HI]^2 / ([H2][I2]) = 54.3'))
+    assert.ok(result.steps.includes('  [HI] = 0 + 2x = 0.7865 M'))
+  })
+
+  await test('no "x is small": weak acids and extreme K', () => {
+    // x² / (0.1 − x) = Ka, the quadratic's positive root
+    const acid = solveEquilibrium({
+      equation: 'CH3COOH(aq) -> H+(aq) + CH3COO-(aq)',
+      initial: { 'CH3COOH(aq)': 0.1 },
+      K: 1.8e-5,
+    })
+    close(acid.extent, (-1.8e-5 + Math.sqrt(1.8e-5 ** 2 + 4 * 1.8e-5 * 0.1)) / 2)
+    assert.equal(acid.Kp, undefined)
+    assert.ok(acid.steps.includes('Kp does not apply: the expression contains dissolved species'))
+
+    // Dilute and fairly strong: the shortcut would give x > C
+    const dilute = solveEquilibrium({ equation: 'HF -> H+ + F-', initial: { HF: 1e-4 }, K: 6.8e-4 })
+    close(dilute.extent, (-6.8e-4 + Math.sqrt(6.8e-4 ** 2 + 4 * 6.8e-4 * 1e-4)) / 2)
+
+    // Nearly nothing reacts / nearly everything reacts: the small amount stays exact
+    const tiny = solveEquilibrium({ equation: 'H2 + I2 -> HI', initial: { H2: 1, I2: 1 }, K: 1e-30 })
+    close(tiny.ice[2].equilibrium, 1e-15, 1e-6)
+    const huge = solveEquilibrium({ equation: 'H2 + I2 -> HI', initial: { H2: 1, I2: 1 }, K: 1e30 })
+    close(huge.ice[0].equilibrium, 2e-15, 1e-6)
+    close(huge.ice[2].equilibrium ** 2 / huge.ice[0].equilibrium ** 2, 1e30, 1e-6)
+  })
+
+  await test('reaction quotient and shift direction', () => {
+    close(calculateReactionQuotient([0.1, 0.1, 1], [-1, -1, 2]), 100)
+    assert.equal(calculateReactionQuotient([0, 1], [-1, 1]), Infinity)
+    assert.equal(predictShift(100, 54.3), 'reverse')
+    assert.equal(predictShift(10, 54.3), 'forward')
+    assert.equal(predictShift(54.3, 54.3), 'none')
+
+    // Only product present: runs in reverse to the same equilibrium
+    const reverse = solveEquilibrium({ equation: 'H2 + I2 -> HI', initial: { HI: 1 }, K: 54.3 })
+    assert.equal(reverse.shift, 'reverse')
+    assert.equal(reverse.Q, Infinity)
+    assert.ok(reverse.extent < 0)
+    assert.equal(reverse.ice[2].changeExpression, '+2x')
+    close(reverse.ice[2].equilibrium ** 2 / reverse.ice[0].equilibrium ** 2, 54.3)
+
+    const atEquilibrium = solveEquilibrium({ equation: 'H2 + I2 -> HI', initial: { H2: 0.1, I2: 0.1, HI: 1 }, K: 100 })
+    assert.equal(atEquilibrium.shift, 'none')
+    assert.equal(atEquilibrium.extent, 0)
+  })
+
+  await test('Kc ↔ Kp: Haber process and N2O4', () => {
+    const haber = solveEquilibrium({
+      equation: 'N2 + H2 -> NH3',
+      initial: { N2: 1, H2: 3 },
+      K: 0.105,
+      temperature: 745,
+    })
+    assert.equal(haber.deltaN, -2)
+    close(haber.Kp!, 0.105 * (0.0820573660809596 * 745) ** -2)
+    const [n2, h2, nh3] = haber.ice.map(row => row.equilibrium)
+    close(nh3 ** 2 / (n2 * h2 ** 3), 0.105)
+    close(h2, 3 * n2)
+
+    const dimer = solveEquilibrium({ equation: 'N2O4 -> NO2', initial: { N2O4: 1 }, K: 0.15, type: 'Kp' })
+    assert.equal(dimer.unit, 'atm')
+    close(dimer.Kc!, 0.15 / (0.0820573660809596 * 298.15))
+    close(dimer.extent, (-0.15 + Math.sqrt(0.15 ** 2 + 16 * 0.15)) / 8)
+
+    const { Kc, Kp } = convertEquilibriumConstant(2, 'Kc', 0, 500)
+    assert.equal(Kc, 2)
+    assert.equal(Kp, 2)
+  })
+
+  await test('heterogeneous equilibria and invalid input', () => {
+    const limestone = solveEquilibrium({
+      equation: 'CaCO3(s) -> CaO(s) + CO2(g)',
+      initial: { CO2: 3 },
+      K: 1.16,
+      type: 'Kp',
+      temperature: 1073,
+    })
+    assert.equal(limestone.equation, 'CaCO3(s) ⇌ CaO(s) + CO2(g)')
+    assert.deepEqual(limestone.excluded, ['CaCO3', 'CaO'])
+    assert.deepEqual(limestone.ice.map(row => row.formula), ['CO2'])
+    assert.equal(limestone.shift, 'reverse')
+    close(limestone.ice[0].equilibrium, 1.16)
+    assert.equal(limestone.deltaN, 1)
+
+    assert.throws(() => solveEquilibrium({ equation: 'H2 + O2 -> H2O + H2O2', initial: {}, K: 1 }), /not unique/)
+    assert.throws(() => solveEquilibrium({ equation: 'H2 + I2 -> HI', initial: { Cl2: 1 }, K: 1 }), /Cl2 is not in the equation/)
+    assert.throws(() => solveEquilibrium({ equation: 'H2 + I2 -> HI', initial: { H2: -1 }, K: 1 }), /zero or positive/)
+    assert.throws(() => solveEquilibrium({ equation: 'H2 + I2 -> HI', initial: { H2: 1 }, K: 1 }), /cannot run either way/)
+    assert.throws(() => solveEquilibrium({ equation: 'H2 + I2 -> HI', initial: { H2: 1 }, K: 0 }), /K must be a positive number/)
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
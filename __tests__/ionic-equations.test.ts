@@ -0,0 +1,204 @@
+/**
+ * Ionic equations — charged species in the balancer and net ionic equations
+ *
+ * - parseSpecies reads Fe3+, MnO4-, SO42-, [Cu(NH3)4]2+, e-, ^, superscripts
+ *   and a charge after a space (Cr2O7 2-); leftover characters are an error
+ * - splitSpecies tells a charge "+" from a separator
+ * - balanceEquation adds a charge row when ions or electrons are present
+ * - generateNetIonicEquation splits soluble strong electrolytes (compound
+ *   data, Ksp, solubility rules), cancels and reports spectator ions
+ * - POST /api/chemistry/balance accepts ions and returns the net ionic equation
+ */
+
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/chemistry/balance/route'
+import { balanceEquation, parseSpecies, splitSpecies } from '@/lib/calculations/equation-balancer'
+import { generateNetIonicEquation, ionFormula } from '@/lib/calculations/net-ionic'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+async function run() {
+  console.log('ionic equations')
+
+  await test('parseSpecies: charges, subscripts and electrons', () => {
+    const cases: Array<[string, Record<string, number>, number]> = [
+      ['Fe3+', { Fe: 1 }, 3],
+      ['MnO4-', { Mn: 1, O: 4 }, -1],
+      ['SO42-', { S: 1, O: 4 }, -2],
+      ['NH4+', { N: 1, H: 4 }, 1],
+      ['Hg22+', { Hg: 2 }, 2],
+      ['[Cu(NH3)4]2+', { Cu: 1, N: 4, H: 12 }, 2],
+      ['[Fe(CN)6]4-', { Fe: 1, C: 6, N: 6 }, -4],
+      ['I3^-', { I: 3 }, -1],
+      ['Fe^{3+}', { Fe: 1 }, 3],
+      ['Fe³⁺', { Fe: 1 }, 3],
+      ['Cl-(aq)', { Cl: 1 }, -1],
+      ['e-', {}, -1],
+      ['Ca(OH)2', { Ca: 1, O: 2, H: 2 }, 0],
+      ['Cr2O7 2-', { Cr: 2, O: 7 }, -2],
+      ['C2O4 2-(aq)', { C: 2, O: 4 }, -2],
+      ['NH4 +', { N: 1, H: 4 }, 1],
+    ]
+    for (const [formula, elements, charge] of cases) {
+      assert.deepEqual(parseSpecies(formula), { elements, charge }, formula)
+    }
+    // Characters that belong to no element are an error, never dropped
+    for (const formula of ['Cr2O7 x2-', 'H2O 2', 'Ca(OH2', 'NaCl!', 'h2o']) {
+      assert.throws(() => parseSpecies(formula), /Cannot parse species/, formula)
+    }
+    // ionFormula writes what parseSpecies reads back
+    for (const [base, charge] of [['Fe', 3], ['SO4', -2], ['NO3', -1], ['Hg2', 2], ['S', -2], ['PO4', -3]] as const) {
+      assert.equal(parseSpecies(ionFormula(base, charge)).charge, charge, ionFormula(base, charge))
+    }
+  })
+
+  await test('splitSpecies: charge signs vs separators', () => {
+    assert.deepEqual(splitSpecies('Fe3+ + e-'), ['Fe3+', 'e-'])
+    assert.deepEqual(splitSpecies('Na++Cl-'), ['Na+', 'Cl-'])
+    assert.deepEqual(splitSpecies('NH4+(aq) + OH-(aq)'), ['NH4+(aq)', 'OH-(aq)'])
+    assert.deepEqual(splitSpecies('Fe^{3+} + e-'), ['Fe^{3+}', 'e-'])
+    assert.deepEqual(splitSpecies('H2+O2'), ['H2', 'O2'])
+    assert.deepEqual(splitSpecies('H2+ O2'), ['H2', 'O2'])
+    assert.deepEqual(splitSpecies('H2 + + O2'), ['H2', '', 'O2'])
+  })
+
+  await test('balanceEquation: charge is conserved alongside atoms', () => {
+    const cases: Array<[string, number[], number]> = [
+      ['Fe3+ + e- -> Fe2+', [1, 1, 1], 2],
+      ['Zn + Cu2+ -> Zn2+ + Cu', [1, 1, 1, 1], 2],
+      ['Cu2+ + NH3 -> [Cu(NH3)4]2+', [1, 4, 1], 2],
+      ['MnO4- + Fe2+ + H+ -> Mn2+ + Fe3+ + H2O', [1, 5, 8, 1, 5, 4], 17],
+      ['Cr2O72- + H+ + e- -> Cr3+ + H2O', [1, 14, 6, 2, 7], 6],
+    ]
+    for (const [equation, coefficients, charge] of cases) {
+      const result = balanceEquation(equation)
+      assert.equal(result.isBalanced, true, equation)
+      assert.deepEqual(result.coefficients, coefficients, equation)
+      assert.deepEqual(result.charge, { reactants: charge, products: charge }, equation)
+      assert.equal(result.atoms.charge, undefined, 'charge is not an element')
+    }
+
+    // A charge written after a space balances like the other spellings
+    for (const dichromate of ['Cr2O7 2-', 'Cr2O72-', 'Cr2O7^2-']) {
+      const result = balanceEquation(`${dichromate} + Fe2+ + H+ -> Cr3+ + Fe3+ + H2O`)
+      assert.equal(result.isBalanced, true, dichromate)
+      assert.deepEqual(result.coefficients, [1, 6, 14, 2, 6, 7], dichromate)
+      assert.deepEqual(result.charge, { reactants: 24, products: 24 }, dichromate)
+    }
+    // A species with unparsed characters fails instead of balancing a misreading
+    assert.equal(balanceEquation('Cr2O7 x2- + Fe2+ + H+ -> Cr3+ + Fe3+ + H2O').isBalanced, false)
+
+    // Atoms alone balance, charge does not: no solution without electrons
+    assert.equal(balanceEquation('Fe3+ -> Fe2+').isBalanced, false)
+    // Neutral equations are unchanged and carry no charge row
+    assert.equal(balanceEquation('H2 + O2 -> H2O').charge, undefined)
+  })
+
+  await test('net ionic: precipitation with spectators', () => {
+    const result = generateNetIonicEquation('AgNO3 + NaCl -> AgCl + NaNO3')
+    assert.equal(result.molecular, 'AgNO3(aq) + NaCl(aq) → AgCl(s) + NaNO3(aq)')
+    assert.equal(result.completeIonic, 'Ag+(aq) + NO3-(aq) + Na+(aq) + Cl-(aq) → AgCl(s) + Na+(aq) + NO3-(aq)')
+    assert.equal(result.netIonic, 'Ag+(aq) + Cl-(aq) → AgCl(s)')
+    assert.deepEqual(
+      result.spectators.map((s) => s.formula).sort(),
+      ['NO3-', 'Na+']
+    )
+    assert.match(result.products[0].reason, /Ksp/)
+    assert.match(result.reactants[1].reason, /compound data: 359 g\/L/)
+
+    const sulfate = generateNetIonicEquation('Fe2(SO4)3 + NaOH -> Fe(OH)3 + Na2SO4')
+    assert.equal(sulfate.netIonic, 'Fe3+(aq) + 3OH-(aq) → Fe(OH)3(s)')
+    assert.deepEqual(
+      sulfate.spectators.map((s) => [s.formula, s.coefficient]),
+      [['SO42-', 3], ['Na+', 6]]
+    )
+  })
+
+  await test('net ionic: strong vs weak acids, gases and no reaction', () => {
+    assert.equal(generateNetIonicEquation('HCl + NaOH -> NaCl + H2O').netIonic, 'H+(aq) + OH-(aq) → H2O(l)')
+    assert.equal(
+      generateNetIonicEquation('CH3COOH + NaOH -> CH3COONa + H2O').netIonic,
+      'CH3COOH(aq) + OH-(aq) → CH3COO-(aq) + H2O(l)'
+    )
+    assert.equal(
+      generateNetIonicEquation('Na2CO3 + HCl -> NaCl + H2O + CO2').netIonic,
+      'CO32-(aq) + 2H+(aq) → H2O(l) + CO2(g)'
+    )
+    assert.equal(
+      generateNetIonicEquation('Zn + CuSO4 -> ZnSO4 + Cu').netIonic,
+      'Zn(s) + Cu2+(aq) → Zn2+(aq) + Cu(s)'
+    )
+
+    const none = generateNetIonicEquation('NaCl + KNO3 -> NaNO3 + KCl')
+    assert.equal(none.noReaction, true)
+    assert.equal(none.netIonic, '')
+    assert.equal(none.spectators.length, 4)
+  })
+
+  await test('net ionic: written states win over the data', () => {
+    const result = generateNetIonicEquation('CaCO3(s) + HCl(aq) -> CaCl2(aq) + H2O(l) + CO2(g)')
+    assert.equal(result.netIonic, 'CaCO3(s) + 2H+(aq) → Ca2+(aq) + H2O(l) + CO2(g)')
+    assert.equal(result.reactants[0].reason, 'written as (s)')
+
+    assert.throws(() => generateNetIonicEquation('H2 -> O2'), /Could not balance/)
+  })
+
+  await test('POST /api/chemistry/balance: ions, charge verification, netIonic', async () => {
+    const call = async (body: unknown) => {
+      const response = await POST(
+        new NextRequest('http://localhost/api/chemistry/balance', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        })
+      )
+      return { status: response.status, json: (await response.json()) as Record<string, unknown> }
+    }
+
+    const redox = await call({ equation: 'MnO4- + Fe2+ + H+ -> Mn2+ + Fe3+ + H2O' })
+    assert.equal(redox.status, 200)
+    assert.deepEqual(redox.json.coefficients, [1, 5, 8, 1, 5, 4])
+    const verification = redox.json.verification as Record<string, unknown>
+    assert.deepEqual(verification.charge, { reactants: 17, products: 17, balanced: true })
+    assert.equal(redox.json.netIonic, undefined)
+
+    const halfReaction = await call({ equation: 'Fe3+(aq) + e- -> Fe2+(aq)' })
+    assert.equal(halfReaction.status, 200)
+
+    const ionic = await call({ equation: 'BaCl2 + Na2SO4 -> BaSO4 + NaCl', netIonic: true })
+    assert.equal(ionic.status, 200)
+    const netIonic = ionic.json.netIonic as Record<string, unknown>
+    assert.equal(netIonic.netIonic, 'Ba2+(aq) + SO42-(aq) → BaSO4(s)')
+    assert.deepEqual(netIonic.spectators, [
+      { formula: 'Cl-', coefficient: 2 },
+      { formula: 'Na+', coefficient: 2 },
+    ])
+
+    const spaced = await call({ equation: 'Cr2O7 2- + Fe2+ + H+ -> Cr3+ + Fe3+ + H2O' })
+    assert.equal(spaced.status, 200)
+    assert.deepEqual(spaced.json.coefficients, [1, 6, 14, 2, 6, 7])
+    assert.equal((await call({ equation: 'Cr2O7 x2- + Fe2+ -> Cr3+ + Fe3+' })).json.code, 'INVALID_EQUATION')
+
+    assert.equal((await call({ equation: 'Fe3+ -> Fe2+' })).json.code, 'CANNOT_BALANCE')
+    assert.equal((await call({ equation: 'Xx2+ + e- -> Xx+' })).json.code, 'UNKNOWN_ELEMENT')
+    assert.equal((await call({ equation: 'H2 + O2 -> H2O', netIonic: 'yes' })).status, 400)
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
@@ -0,0 +1,358 @@
+/**
+ * Rate-limit stores — sliding-window semantics, Redis protocol, store config
+ *
+ * The Redis store runs against a local stand-in: a small TCP server speaking
+ * RESP2 with the handful of commands the store uses (MULTI/EXEC, sorted sets,
+ * PEXPIRE, AUTH/SELECT). The same sliding-window cases run against it and the
+ * in-memory store.
+ */
+
+import assert from 'node:assert/strict'
+import { createServer, type AddressInfo, type Server, type Socket } from 'node:net'
+import { checkRateLimit, setRateLimitStore } from '@/lib/rate-limit'
+import { createRedisRateLimitStore } from '@/lib/rate-limit/redis-store'
+import {
+  RespError,
+  createRespClient,
+  encodeCommand,
+  parseReply,
+  type RespClient,
+  type RespValue,
+} from '@/lib/rate-limit/resp'
+import { createMemoryRateLimitStore, type RateLimitStore } from '@/lib/rate-limit/store'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Redis stand-in
+// ---------------------------------------------------------------------------
+
+function encodeReply(value: RespValue): string {
+  if (value === null) return '$-1\r\n'
+  if (value instanceof RespError) return `-${value.message}\r\n`
+  if (typeof value === 'number') return `:${value}\r\n`
+  if (Array.isArray(value)) return `*${value.length}\r\n${value.map(encodeReply).join('')}`
+  if (value === 'OK' || value === 'QUEUED') return `+${value}\r\n`
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+}
+
+interface StandIn {
+  url: string
+  commands: string[][]
+  /** Stop answering (replies are swallowed) to exercise client timeouts. */
+  mute: boolean
+  dropConnections(): void
+  close(): Promise<void>
+}
+
+async function startStandIn(password?: string): Promise<StandIn> {
+  const sets = new Map<string, Map<string, number>>()
+  const expiries = new Map<string, number>()
+  const sockets = new Set<Socket>()
+  const state = { commands: [] as string[][], mute: false }
+
+  const zset = (key: string) => {
+    const expiry = expiries.get(key)
+    if (expiry !== undefined && expiry <= Date.now()) {
+      sets.delete(key)
+      expiries.delete(key)
+    }
+    let set = sets.get(key)
+    if (!set) sets.set(key, (set = new Map()))
+    return set
+  }
+  const sorted = (key: string) => [...zset(key).entries()].sort((a, b) => a[1] - b[1])
+
+  function execute(args: string[]): RespValue {
+    const [name, key] = [args[0].toUpperCase(), args[1]]
+    switch (name) {
+      case 'PING':
+        return 'PONG'
+      case 'AUTH':
+        return args[args.length - 1] === password ? 'OK' : new RespError('WRONGPASS invalid password')
+      case 'SELECT':
+        return 'OK'
+      case 'ZREMRANGEBYSCORE': {
+        const max = Number(args[3])
+        let removed = 0
+        for (const [member, score] of zset(key)) {
+          if (score <= max) {
+            zset(key).delete(member)
+            removed++
+          }
+        }
+        return removed
+      }
+      case 'ZADD':
+        zset(key).set(args[3], Number(args[2]))
+        return 1
+      case 'ZREM':
+        return zset(key).delete(args[2]) ? 1 : 0
+      case 'ZCARD':
+        return zset(key).size
+      case 'ZRANGE': {
+        const [start, stop] = [Number(args[2]), Number(args[3])]
+        const slice = sorted(key).slice(start, stop === -1 ? undefined : stop + 1)
+        return args[4]?.toUpperCase() === 'WITHSCORES'
+          ? slice.flatMap(([member, score]) => [member, String(score)])
+          : slice.map(([member]) => member)
+      }
+      case 'PEXPIRE':
+        expiries.set(key, Date.now() + Number(args[2]))
+        return 1
+      default:
+        return new RespError(`ERR unknown command '${args[0]}'`)
+    }
+  }
+
+  const server: Server = createServer((socket) => {
+    sockets.add(socket)
+    socket.on('close', () => sockets.delete(socket))
+    let buffer = Buffer.alloc(0)
+    let queue: string[][] | null = null
+    let authed = password === undefined
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk])
+      let parsed
+      while ((parsed = parseReply(buffer))) {
+        buffer = buffer.subarray(parsed.offset)
+        const args = parsed.value as string[]
+        state.commands.push(args)
+        const name = args[0].toUpperCase()
+        let reply: RespValue
+        if (!authed && name !== 'AUTH') reply = new RespError('NOAUTH Authentication required.')
+        else if (name === 'AUTH') {
+          reply = execute(args)
+          authed = reply === 'OK'
+        } else if (name === 'MULTI') {
+          queue = []
+          reply = 'OK'
+        } else if (name === 'EXEC') {
+          reply = (queue ?? []).map(execute)
+          queue = null
+        } else if (queue) {
+          queue.push(args)
+          reply = 'QUEUED'
+        } else reply = execute(args)
+        if (!state.mute) socket.write(encodeReply(reply))
+      }
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: password ? `redis://:${password}@127.0.0.1:${port}/2` : `redis://127.0.0.1:${port}`,
+    get commands() {
+      return state.commands
+    },
+    get mute() {
+      return state.mute
+    },
+    set mute(value) {
+      state.mute = value
+    },
+    dropConnections() {
+      for (const socket of sockets) socket.destroy()
+    },
+    close() {
+      for (const socket of sockets) socket.destroy()
+      return new Promise((resolve) => server.close(() => resolve()))
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Shared sliding-window cases
+// ---------------------------------------------------------------------------
+
+const CONFIG = { windowMs: 1000, maxRequests: 3 }
+const T0 = 1_700_000_000_000
+
+async function slidingWindowCases(label: string, store: RateLimitStore) {
+  await test(`${label}: admits maxRequests, then refuses until the oldest hit expires`, async () => {
+    const key = `sw-${label}`
+    assert.deepEqual(await store.hit(key, CONFIG, T0), { success: true, remaining: 2, resetTime: T0 + 1000 })
+    assert.equal((await store.hit(key, CONFIG, T0 + 500)).remaining, 1)
+    assert.equal((await store.hit(key, CONFIG, T0 + 900)).remaining, 0)
+    assert.deepEqual(await store.hit(key, CONFIG, T0 + 950), {
+      success: false,
+      remaining: 0,
+      resetTime: T0 + 1000,
+      retryAfter: 1,
+    })
+    // The hit at T0 leaves the window exactly at T0 + windowMs.
+    const next = await store.hit(key, CONFIG, T0 + 1000)
+    assert.equal(next.success, true)
+    assert.equal(next.resetTime, T0 + 1500)
+    assert.equal((await store.hit(key, CONFIG, T0 + 1001)).success, false)
+  })
+
+  await test(`${label}: no double burst across a window boundary`, async () => {
+    const key = `burst-${label}`
+    for (let i = 0; i < 3; i++) assert.ok((await store.hit(key, CONFIG, T0 + 990 + i)).success)
+    // A fixed window starting at T0 would reset at T0 + 1000 and admit 3 more.
+    assert.equal((await store.hit(key, CONFIG, T0 + 1010)).success, false)
+    assert.equal((await store.hit(key, CONFIG, T0 + 1990)).success, true)
+  })
+
+  await test(`${label}: refused hits are not logged`, async () => {
+    const key = `refused-${label}`
+    for (let i = 0; i < 3; i++) await store.hit(key, CONFIG, T0)
+    for (let i = 1; i <= 5; i++) assert.equal((await store.hit(key, CONFIG, T0 + i)).success, false)
+    // Only the three admitted hits (all at T0) were counted.
+    assert.equal((await store.hit(key, CONFIG, T0 + 1000)).remaining, 2)
+  })
+
+  await test(`${label}: keys are isolated`, async () => {
+    for (let i = 0; i < 3; i++) await store.hit(`iso-a-${label}`, CONFIG, T0)
+    assert.equal((await store.hit(`iso-a-${label}`, CONFIG, T0)).success, false)
+    assert.equal((await store.hit(`iso-b-${label}`, CONFIG, T0)).success, true)
+  })
+}
+
+async function run() {
+  console.log('\nRESP encoding')
+
+  await test('commands encode as arrays of bulk strings (byte lengths)', () => {
+    assert.equal(encodeCommand(['SET', 'k', 'é']).toString(), '*3\r\n$3\r\nSET\r\n$1\r\nk\r\n$2\r\né\r\n')
+  })
+
+  await test('replies parse incrementally, with nulls and nested errors', () => {
+    const wire = Buffer.from('*4\r\n:3\r\n$-1\r\n-ERR nope\r\n*2\r\n+OK\r\n$2\r\nhi\r\n')
+    assert.equal(parseReply(wire.subarray(0, wire.length - 3)), null)
+    const parsed = parseReply(wire)!
+    assert.equal(parsed.offset, wire.length)
+    const [n, nil, err, nested] = parsed.value as RespValue[]
+    assert.equal(n, 3)
+    assert.equal(nil, null)
+    assert.ok(err instanceof RespError && err.message === 'ERR nope')
+    assert.deepEqual(nested, ['OK', 'hi'])
+  })
+
+  console.log('\nSliding window')
+
+  await slidingWindowCases('memory', createMemoryRateLimitStore())
+
+  const standIn = await startStandIn('s3cret')
+  const clients: RespClient[] = []
+  const client = () => {
+    const c = createRespClient(standIn.url, { timeoutMs: 300 })
+    clients.push(c)
+    return c
+  }
+
+  try {
+    await slidingWindowCases('redis', createRedisRateLimitStore(client()))
+
+    console.log('\nRedis store')
+
+    await test('authenticates and selects the database from the URL', () => {
+      assert.deepEqual(standIn.commands[0], ['AUTH', 's3cret'])
+      assert.deepEqual(standIn.commands[1], ['SELECT', '2'])
+    })
+
+    await test('instances with separate connections share one limit', async () => {
+      const a = createRedisRateLimitStore(client())
+      const b = createRedisRateLimitStore(client())
+      assert.ok((await a.hit('shared', CONFIG, T0)).success)
+      assert.ok((await b.hit('shared', CONFIG, T0 + 1)).success)
+      assert.equal((await a.hit('shared', CONFIG, T0 + 2)).remaining, 0)
+      assert.equal((await b.hit('shared', CONFIG, T0 + 3)).success, false)
+    })
+
+    await test('keys are namespaced and expire with the window', () => {
+      const zadd = standIn.commands.find((c) => c[0] === 'ZADD')!
+      assert.ok(zadd[1].startsWith('verchem:rl:'))
+      const pexpire = standIn.commands.find((c) => c[0] === 'PEXPIRE')!
+      assert.equal(pexpire[2], '1000')
+    })
+
+    await test('a wrong password fails the command', async () => {
+      const bad = createRespClient(standIn.url.replace('s3cret', 'wrong'), { timeoutMs: 300 })
+      clients.push(bad)
+      await assert.rejects(bad.pipeline([['PING']]), /WRONGPASS|NOAUTH|closed/)
+    })
+
+    await test('reconnects after the server drops the connection', async () => {
+      const c = client()
+      assert.deepEqual(await c.pipeline([['PING']]), ['PONG'])
+      standIn.dropConnections()
+      await new Promise((resolve) => setTimeout(resolve, 20))
+      assert.deepEqual(await c.pipeline([['PING']]), ['PONG'])
+    })
+
+    await test('a silent server times out instead of hanging', async () => {
+      const c = client()
+      await c.pipeline([['PING']])
+      standIn.mute = true
+      try {
+        await assert.rejects(c.pipeline([['PING']]), /timed out/)
+      } finally {
+        standIn.mute = false
+      }
+    })
+
+    console.log('\ncheckRateLimit store selection')
+
+    await test('RATE_LIMIT_STORE=redis sends call sites to the Redis server', async () => {
+      const saved = { ...process.env }
+      process.env.RATE_LIMIT_STORE = 'redis'
+      process.env.RATE_LIMIT_REDIS_URL = standIn.url
+      setRateLimitStore(undefined)
+      try {
+        const before = standIn.commands.length
+        const result = await checkRateLimit('config-test', { windowMs: 60_000, maxRequests: 2 })
+        assert.equal(result.remaining, 1)
+        assert.ok(standIn.commands.slice(before).some((c) => c[0] === 'ZADD' && c[1] === 'verchem:rl:config-test'))
+      } finally {
+        process.env.RATE_LIMIT_STORE = saved.RATE_LIMIT_STORE
+        process.env.RATE_LIMIT_REDIS_URL = saved.RATE_LIMIT_REDIS_URL
+        if (saved.RATE_LIMIT_STORE === undefined) delete process.env.RATE_LIMIT_STORE
+        if (saved.RATE_LIMIT_REDIS_URL === undefined) delete process.env.RATE_LIMIT_REDIS_URL
+        setRateLimitStore(undefined)
+      }
+    })
+
+    await test('a failing store falls back to the in-memory limit', async () => {
+      const errors: unknown[] = []
+      const consoleError = console.error
+      console.error = (...args: unknown[]) => errors.push(args)
+      setRateLimitStore({
+        hit: async () => {
+          throw new Error('connection refused')
+        },
+      })
+      try {
+        const config = { windowMs: 60_000, maxRequests: 1 }
+        assert.equal((await checkRateLimit('fallback-test', config)).success, true)
+        assert.equal((await checkRateLimit('fallback-test', config)).success, false)
+        assert.equal(errors.length, 2)
+      } finally {
+        console.error = consoleError
+        setRateLimitStore(undefined)
+      }
+    })
+  } finally {
+    for (const c of clients) c.close()
+    await standIn.close()
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
@@ -0,0 +1,161 @@
+/**
+ * Redox balancer (balanceRedoxReaction) — tests
+ *
+ * - assignOxidationStates: fixed rules, peroxides, hydrides, oxyanions,
+ *   two unknowns solved from common states, averages
+ * - skeleton → half-reactions → H2O/H+/e- → equal electrons → sum, with steps
+ * - basic solution, disproportionation, H+ and H2O2 as redox partners
+ * - tabulated couples feed calculateCellPotential
+ * - skeletons that are not redox, or leave a species out, are refused
+ */
+
+import assert from 'node:assert/strict'
+import {
+  assignOxidationStates,
+  balanceRedoxReaction,
+  identifyOxidationState,
+} from '@/lib/calculations/electrochemistry'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+async function run() {
+  console.log('redox balancer')
+
+  await test('oxidation states: rules, exceptions and the element left over', () => {
+    const cases: Array<[string, Record<string, number>]> = [
+      ['MnO4-', { Mn: 7, O: -2 }],
+      ['Cr2O72-', { Cr: 6, O: -2 }],
+      ['H2O2', { H: 1, O: -1 }],
+      ['OF2', { O: 2, F: -1 }],
+      ['NaH', { Na: 1, H: -1 }],
+      ['ClO3-', { Cl: 5, O: -2 }],
+      ['Fe2(SO4)3', { Fe: 3, S: 6, O: -2 }],
+      ['CuSO4', { Cu: 2, S: 6, O: -2 }],
+      ['C2H5OH', { C: -2, H: 1, O: -2 }],
+      ['Fe3+', { Fe: 3 }],
+      ['Cl2', { Cl: 0 }],
+    ]
+    for (const [formula, states] of cases) {
+      assert.deepEqual(assignOxidationStates(formula), states, formula)
+    }
+    assert.ok(Math.abs(identifyOxidationState('Fe', 'Fe3O4')! - 8 / 3) < 1e-12)
+    assert.equal(identifyOxidationState('Xx', 'H2O'), null)
+    assert.equal(assignOxidationStates('NaCl2'), null)
+  })
+
+  await test('a fractional state only where the element can average it', () => {
+    assert.equal(assignOxidationStates('S4O62-')!.S, 2.5)
+    assert.equal(assignOxidationStates('KO2')!.O, -0.5)
+    // Cr +6.5 is a dropped charge digit, not mixed valence
+    assert.equal(assignOxidationStates('Cr2O7-'), null)
+    assert.equal(assignOxidationStates('Cr2O7 x2-'), null)
+  })
+
+  await test('MnO4- + Fe2+ (acidic): half-reactions, steps and the cell', () => {
+    const result = balanceRedoxReaction('MnO4- + Fe2+ -> Mn2+ + Fe3+ (acidic)')
+    assert.equal(result.medium, 'acidic')
+    assert.equal(result.balanced, 'MnO4- + 5Fe2+ + 8H+ → Mn2+ + 5Fe3+ + 4H2O')
+    assert.equal(result.electronCount, 5)
+    assert.equal(result.oxidation.equation, 'Fe2+ → Fe3+ + e-')
+    assert.equal(result.reduction.equation, 'MnO4- + 8H+ + 5e- → Mn2+ + 4H2O')
+    assert.deepEqual(result.reduction.changes, [{ element: 'Mn', from: 7, to: 2 }])
+    assert.deepEqual(result.oxidationStates[0], { formula: 'MnO4-', states: { Mn: 7, O: -2 } })
+
+    for (const step of [
+      'Step 1: Assign oxidation states',
+      '  Reduction: MnO4- → Mn2+ (Mn +7 → +2)',
+      '    O with H2O: MnO4- → Mn2+ + 4H2O',
+      '    H with H+: MnO4- + 8H+ → Mn2+ + 4H2O',
+      'Step 4: Equalize electrons: LCM(1, 5) = 5; oxidation ×5, reduction ×1',
+    ]) {
+      assert.ok(result.steps.includes(step), step)
+    }
+
+    assert.equal(result.reduction.couple, 'MnO4-/Mn2+')
+    assert.equal(result.oxidation.couple, 'Fe3+/Fe2+')
+    assert.ok(result.cell)
+    assert.ok(Math.abs(result.cell.cellPotential - 0.74) < 1e-9)
+    assert.equal(result.cell.spontaneous, true)
+    assert.ok(Math.abs(result.cell.deltaG - -5 * 96485.33212 * 0.74) < 1)
+  })
+
+  await test('acidic skeletons balance to the textbook answers', () => {
+    const cases: Array<[string, string, number]> = [
+      ['Cr2O72- + Fe2+ -> Cr3+ + Fe3+', 'Cr2O72- + 6Fe2+ + 14H+ → 2Cr3+ + 6Fe3+ + 7H2O', 6],
+      ['Cu + NO3- -> Cu2+ + NO', '3Cu + 2NO3- + 8H+ → 3Cu2+ + 2NO + 4H2O', 6],
+      ['MnO4- + C2O42- -> Mn2+ + CO2', '2MnO4- + 5C2O42- + 16H+ → 2Mn2+ + 10CO2 + 8H2O', 10],
+      ['Cr2O72- + C2H5OH -> Cr3+ + CH3COOH', '2Cr2O72- + 3C2H5OH + 16H+ → 4Cr3+ + 3CH3COOH + 11H2O', 12],
+      ['As2S3 + NO3- -> H3AsO4 + SO42- + NO', '3As2S3 + 28NO3- + 4H2O + 10H+ → 6H3AsO4 + 9SO42- + 28NO', 84],
+      // Written H+ and H2O are dropped and added back where they belong
+      ['MnO4- + Fe2+ + H+ -> Mn2+ + Fe3+ + H2O', 'MnO4- + 5Fe2+ + 8H+ → Mn2+ + 5Fe3+ + 4H2O', 5],
+      ['MnO4- + H2O2 -> Mn2+ + O2', '2MnO4- + 5H2O2 + 6H+ → 2Mn2+ + 5O2 + 8H2O', 10],
+    ]
+    for (const [skeleton, balanced, electrons] of cases) {
+      const result = balanceRedoxReaction(skeleton)
+      assert.equal(result.balanced, balanced, skeleton)
+      assert.equal(result.electronCount, electrons, skeleton)
+    }
+  })
+
+  await test('basic solution, disproportionation and H+ as the oxidant', () => {
+    const iodide = balanceRedoxReaction('MnO4- + I- -> MnO2 + I2 (basic)')
+    assert.equal(iodide.medium, 'basic')
+    assert.equal(iodide.balanced, '2MnO4- + 6I- + 4H2O → 2MnO2 + 3I2 + 8OH-')
+    assert.equal(
+      balanceRedoxReaction('Cr(OH)3 + ClO- -> CrO42- + Cl-', { acidic: false }).balanced,
+      '2Cr(OH)3 + 3ClO- + 4OH- → 2CrO42- + 3Cl- + 5H2O'
+    )
+
+    const chlorine = balanceRedoxReaction('Cl2 -> Cl- + ClO3- (basic)')
+    assert.equal(chlorine.balanced, '3Cl2 + 6OH- → 5Cl- + ClO3- + 3H2O')
+    assert.equal(chlorine.electronCount, 5)
+    assert.ok(chlorine.steps.includes('  Divide by the common factor 2: 3Cl2 + 3H2O → 5Cl- + ClO3- + 6H+'))
+
+    assert.equal(balanceRedoxReaction('H2O2 -> H2O + O2').balanced, '2H2O2 → 2H2O + O2')
+
+    const zinc = balanceRedoxReaction('Zn + H+ -> Zn2+ + H2')
+    assert.equal(zinc.balanced, 'Zn + 2H+ → Zn2+ + H2')
+    assert.equal(zinc.reduction.couple, 'H+/H2')
+    assert.ok(Math.abs(zinc.cell!.cellPotential - 0.76) < 1e-9)
+
+    // No tabulated couple, no cell
+    assert.equal(balanceRedoxReaction('Cu + NO3- -> Cu2+ + NO').cell, undefined)
+  })
+
+  await test('dichromate with the charge written apart balances like Cr2O72-', () => {
+    const result = balanceRedoxReaction('Cr2O7 2- + Fe2+ -> Cr3+ + Fe3+ (acidic)')
+    assert.equal(result.balanced, 'Cr2O7 2- + 6Fe2+ + 14H+ → 2Cr3+ + 6Fe3+ + 7H2O')
+    assert.equal(result.electronCount, 6)
+    assert.ok(result.steps.includes('  Cr2O7 2-: Cr +6, O -2'))
+    assert.throws(() => balanceRedoxReaction('Cr2O7- + Fe2+ -> Cr3+ + Fe3+'), /Could not assign oxidation states in Cr2O7-/)
+    assert.throws(() => balanceRedoxReaction('Cr2O7 x2- + Fe2+ -> Cr3+ + Fe3+'), /Could not assign oxidation states/)
+  })
+
+  await test('refuses skeletons it cannot split', () => {
+    assert.throws(() => balanceRedoxReaction('NaCl + AgNO3 -> AgCl + NaNO3'), /not a redox reaction/)
+    assert.throws(() => balanceRedoxReaction('Zn + Cu2+ + SO42- -> Zn2+ + Cu'), /SO42- takes no part/)
+    assert.throws(() => balanceRedoxReaction('Fe3+ + e- -> Fe2+'), /without electrons/)
+    assert.throws(() => balanceRedoxReaction('MnO4- + Fe2+'), /Invalid equation format/)
+    assert.throws(
+      () => balanceRedoxReaction('MnO4- + Fe2+ + Sn2+ -> Mn2+ + Fe3+ + Sn4+'),
+      /2 oxidation and 1 reduction half-reactions/
+    )
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
@@ -0,0 +1,179 @@
+/**
+ * /api/search and /api/search/suggestions — tests
+ *
+ * - POST takes the SearchQuery shape; GET is the q/type/category/state shorthand
+ * - results are paged (limit/offset/hasMore) and the total counts every match
+ * - facets count all matches by type, category and physical state
+ * - filter-only queries ("type:element state:gas") list what passes the filters
+ * - unknown fields, filters and options are 400, never ignored
+ * - suggestions wrap getSuggestions(), optionally narrowed by type
+ */
+
+import assert from 'node:assert/strict'
+import { NextRequest } from 'next/server'
+import { getSearchEngine, parseSearchRequest, runSearch, SEARCH_MAX_LIMIT } from '@/lib/search/api'
+import { GET as searchGet, POST as searchPost } from '@/app/api/search/route'
+import { GET as suggestionsGet } from '@/app/api/search/suggestions/route'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+type Json = Record<string, unknown>
+interface Page {
+  total: number
+  offset: number
+  limit: number
+  hasMore: boolean
+  results: Array<{ id: string; type: string; title: string; data: { state?: string } }>
+  facets: Record<'type' | 'category' | 'state', Record<string, number>>
+}
+
+let ip = 0
+function client(): Record<string, string> {
+  // A fresh client per call keeps the per-IP rate limit out of the way.
+  return { 'x-forwarded-for': `10.7.${Math.floor(ip / 250)}.${ip++ % 250}` }
+}
+
+async function post(body: unknown): Promise<{ status: number; json: Json }> {
+  const request = new NextRequest('http://localhost/api/search', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...client() },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  })
+  const response = await searchPost(request)
+  return { status: response.status, json: (await response.json()) as Json }
+}
+
+async function get(
+  handler: (request: NextRequest) => Promise<Response>,
+  path: string
+): Promise<{ status: number; json: Json }> {
+  const response = await handler(new NextRequest(`http://localhost${path}`, { headers: client() }))
+  return { status: response.status, json: (await response.json()) as Json }
+}
+
+async function run() {
+  console.log('search api')
+
+  await test('POST: SearchQuery filters narrow the results and facets count them', async () => {
+    const { status, json } = await post({
+      query: 'acid',
+      filters: { type: ['compound'], state: ['liquid'] },
+      options: { limit: 5 },
+    })
+    assert.equal(status, 200)
+    const page = json as unknown as Page
+    assert.ok(page.total > 5, `total ${page.total}`)
+    assert.equal(page.results.length, 5)
+    assert.equal(page.hasMore, true)
+    assert.ok(page.results.every((r) => r.type === 'compound' && r.data.state === 'liquid'))
+    assert.deepEqual(page.facets.type, { compound: page.total })
+    assert.deepEqual(page.facets.state, { liquid: page.total })
+  })
+
+  await test('pages are slices of one ordering; the total does not change', async () => {
+    const all = (await post({ query: 'sodium', options: { limit: SEARCH_MAX_LIMIT } })).json as unknown as Page
+    const second = (await post({ query: 'sodium', options: { limit: 3, offset: 3 } })).json as unknown as Page
+    assert.equal(second.total, all.total)
+    assert.equal(second.offset, 3)
+    assert.deepEqual(
+      second.results.map((r) => r.id),
+      all.results.slice(3, 6).map((r) => r.id)
+    )
+
+    const past = (await post({ query: 'sodium', options: { offset: all.total } })).json as unknown as Page
+    assert.deepEqual(past.results, [])
+    assert.equal(past.hasMore, false)
+  })
+
+  await test('facets cover every match, not just the page', () => {
+    const { query, errors } = parseSearchRequest({ query: 'acid', options: { limit: 1 } })
+    assert.deepEqual(errors, [])
+    const page = runSearch(getSearchEngine(), query)
+    const sum = (counts: Record<string, number>) => Object.values(counts).reduce((a, b) => a + b, 0)
+    assert.equal(page.results.length, 1)
+    assert.equal(sum(page.facets.type), page.total)
+    assert.equal(sum(page.facets.category), page.total)
+    assert.equal(page.facets.type.compound + (page.facets.type.element ?? 0), sum(page.facets.state))
+  })
+
+  await test('filter-only queries list everything that passes the filters', async () => {
+    const { json } = await post({ query: 'type:element state:gas', options: { sortBy: 'atomicNumber', sortOrder: 'asc' } })
+    const page = json as unknown as Page
+    assert.equal(page.total, 11)
+    assert.deepEqual(
+      page.results.slice(0, 3).map((r) => r.title),
+      ['Hydrogen (H)', 'Helium (He)', 'Nitrogen (N)']
+    )
+  })
+
+  await test('GET shorthand: q, comma-separated or repeated filters, paging', async () => {
+    const { status, json } = await get(searchGet, '/api/search?q=acid&type=compound,element&state=liquid&state=gas&limit=3')
+    assert.equal(status, 200)
+    const page = json as unknown as Page
+    assert.equal(page.limit, 3)
+    assert.ok(page.results.length <= 3)
+    assert.deepEqual(Object.keys(page.facets.state).sort(), ['gas', 'liquid'])
+    assert.ok(Object.keys(page.facets.type).every((t) => t === 'compound' || t === 'element'))
+
+    const bad = await get(searchGet, '/api/search?q=acid&limit=lots')
+    assert.equal(bad.status, 400)
+    assert.match(String(bad.json.error), /options\.limit/)
+  })
+
+  await test('unknown fields, filters and options are refused', async () => {
+    const { status, json } = await post({
+      query: 'water',
+      filters: { dateRange: {}, state: ['plasma'], molecularWeightRange: { min: '10' } },
+      options: { limit: SEARCH_MAX_LIMIT + 1, pageSize: 10 },
+      page: 2,
+    })
+    assert.equal(status, 400)
+    const error = String(json.error)
+    for (const part of [
+      'page is not a search field',
+      'filters.dateRange is not a supported filter',
+      'filters.state values must be one of: solid, liquid, gas',
+      'filters.molecularWeightRange',
+      'options.limit',
+      'options.pageSize is not a supported option',
+    ]) {
+      assert.ok(error.includes(part), `missing "${part}" in: ${error}`)
+    }
+
+    assert.equal((await post('{not json')).status, 400)
+    assert.equal((await post(['water'])).status, 400)
+    assert.equal((await post({ query: 'x'.repeat(201) })).status, 400)
+  })
+
+  await test('suggestions wrap getSuggestions, optionally by type', async () => {
+    const all = await get(suggestionsGet, '/api/search/suggestions?q=sod')
+    assert.equal(all.status, 200)
+    const suggestions = all.json.suggestions as string[]
+    assert.ok(suggestions.includes('Sodium Chloride'))
+    assert.ok(suggestions.length <= 10)
+
+    const elements = await get(suggestionsGet, '/api/search/suggestions?q=he&type=element')
+    assert.ok((elements.json.suggestions as string[]).every((s) => /\([A-Z][a-z]?\)$/.test(s)))
+    assert.ok((elements.json.suggestions as string[]).includes('Helium (He)'))
+
+    assert.deepEqual((await get(suggestionsGet, '/api/search/suggestions')).json.suggestions, [])
+    assert.equal((await get(suggestionsGet, '/api/search/suggestions?q=na&type=help')).status, 400)
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
@@ -0,0 +1,210 @@
+/**
+ * Search query language (lib/search/query-language.ts) — tests
+ *
+ * - ranges with units (°C/K/F, g/mol, g/cm³), comparisons, open ends, precision
+ * - element-contains, GHS, state (standard and at a temperature)
+ * - AND/OR/NOT/-/parentheses; SMILES stay free text
+ * - top-level clauses map onto SearchFilters; the rest is a predicate
+ * - parse errors carry the offending span and leave the clause out
+ * - the engine runs the whole thing: "bp 50–120 °C, contains Cl, liquid, no GHS06"
+ */
+
+import assert from 'node:assert/strict'
+import { VerChemSearchEngine } from '@/lib/search/engine'
+import { elementsInFormula, mergeSearchFilters, parseSearchQuery } from '@/lib/search/query-language'
+import type { CompoundSearchData, QueryNode, SearchResult } from '@/lib/search/types'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+function clause(query: string): QueryNode {
+  const parsed = parseSearchQuery(query)
+  assert.deepEqual(parsed.errors, [], query)
+  assert.ok(parsed.predicate, `no predicate for ${query}`)
+  return parsed.predicate
+}
+
+function errorsOf(query: string): Array<{ message: string; text: string }> {
+  return parseSearchQuery(query).errors.map((e) => ({ message: e.message, text: query.slice(e.start, e.end) }))
+}
+
+function approx(node: QueryNode, expected: { min?: number; max?: number }) {
+  assert.equal(node.kind, 'range')
+  if (node.kind !== 'range') return
+  for (const key of ['min', 'max'] as const) {
+    if (expected[key] === undefined) assert.equal(node[key], undefined, key)
+    else assert.ok(Math.abs(node[key]! - expected[key]!) < 1e-9, `${key} ${node[key]} ≠ ${expected[key]}`)
+  }
+}
+
+async function run() {
+  console.log('search query language')
+
+  await test('ranges: units convert to °C, one unit covers both ends', () => {
+    approx(clause('bp:50..120C'), { min: 50, max: 120 })
+    approx(clause('bp:323.15..393.15K'), { min: 50, max: 120 })
+    approx(clause('bp:122..248F'), { min: 50, max: 120 })
+    approx(clause('bp:50C..393.15K'), { min: 50, max: 120 })
+    approx(clause('bp: 50–120 °C'), { min: 50, max: 120 })
+    approx(clause('MP:-100--50'), { min: -100, max: -50 })
+    approx(clause('density:800..1200kg/m3'), { min: 0.8, max: 1.2 })
+    approx(clause('mw:1..2kDa'), { min: 1000, max: 2000 })
+  })
+
+  await test('comparisons, open ends and written precision', () => {
+    assert.deepEqual(clause('bp>100'), { kind: 'range', field: 'boilingPoint', min: 100, minExclusive: true })
+    assert.deepEqual(clause('bp:<=0'), { kind: 'range', field: 'boilingPoint', max: 0 })
+    assert.deepEqual(clause('mw:100..'), { kind: 'range', field: 'molecularWeight', min: 100 })
+    assert.deepEqual(clause('pka:..4.75'), { kind: 'range', field: 'pKa', max: 4.75 })
+    assert.deepEqual(clause('group:1'), { kind: 'range', field: 'group', min: 0.5, max: 1.5, maxExclusive: true })
+    approx(clause('bp:100.0'), { min: 99.95, max: 100.05 })
+    assert.deepEqual(clause('bp:1e308..'), { kind: 'range', field: 'boilingPoint', min: 1e308 })
+    approx(clause('mw:1.5E2'), { min: 145, max: 155 })
+    approx(clause('mw:2e-3kDa'), { min: 1.5, max: 2.5 })
+  })
+
+  await test('keywords: elements, GHS codes, states', () => {
+    assert.deepEqual(clause('contains:cl'), { kind: 'keyword', field: 'element', value: 'Cl' })
+    assert.deepEqual(clause('has:Chlorine'), { kind: 'keyword', field: 'element', value: 'Cl' })
+    assert.deepEqual(clause('ghs:6'), { kind: 'keyword', field: 'ghs', value: 'GHS06' })
+    assert.deepEqual(clause('ghs:GHS06'), clause('ghs:06'))
+    assert.deepEqual(clause('state:Liquid'), { kind: 'state', state: 'liquid' })
+    assert.deepEqual(clause('state:solid@273.15K'), { kind: 'state', state: 'solid', temperature: 0 })
+    assert.deepEqual(clause('state:solid@0K'), { kind: 'state', state: 'solid', temperature: -273.15 })
+    assert.deepEqual(elementsInFormula('CH3COOH'), ['C', 'H', 'O'])
+    assert.deepEqual(elementsInFormula('CuSO4·5H2O'), ['Cu', 'S', 'O', 'H'])
+  })
+
+  await test('boolean structure: OR loosest, implied AND, NOT and -', () => {
+    const parsed = parseSearchQuery('acid (contains:Cl OR contains:Br) -ghs:06 NOT "organic"')
+    assert.deepEqual(parsed.errors, [])
+    assert.deepEqual(parsed.mustInclude, ['acid'])
+    assert.deepEqual(parsed.predicate, {
+      kind: 'and',
+      children: [
+        {
+          kind: 'or',
+          children: [
+            { kind: 'keyword', field: 'element', value: 'Cl' },
+            { kind: 'keyword', field: 'element', value: 'Br' },
+          ],
+        },
+        { kind: 'not', child: { kind: 'keyword', field: 'ghs', value: 'GHS06' } },
+        { kind: 'not', child: { kind: 'text', value: 'organic', phrase: true } },
+      ],
+    })
+
+    // SMILES keep their parentheses and bonds
+    for (const smiles of ['CC(=O)O', 'C=C', 'O=C=O', 'CC(C)']) {
+      const smilesQuery = parseSearchQuery(smiles)
+      assert.deepEqual(smilesQuery.errors, [], smiles)
+      assert.deepEqual(smilesQuery.mustInclude, [smiles])
+    }
+  })
+
+  await test('top-level clauses fill SearchFilters; merging narrows type and state', () => {
+    const { filters } = parseSearchQuery('type:compound bp:50..120 mw<200 state:liquid ghs:2 hazard:Flammable group:13..18')
+    assert.deepEqual(filters, {
+      type: ['compound'],
+      boilingPointRange: { min: 50, max: 120 },
+      molecularWeightRange: { min: undefined, max: 200 },
+      state: ['liquid'],
+      ghsCodes: ['GHS02'],
+      safety: ['flammable'],
+      group: [13, 14, 15, 16, 17, 18],
+    })
+    // Clauses under OR or NOT have no SearchFilters form
+    assert.deepEqual(parseSearchQuery('state:liquid OR state:gas NOT type:element').filters, {})
+
+    assert.deepEqual(
+      mergeSearchFilters(
+        { type: ['compound', 'element'], boilingPointRange: { min: 0 }, category: ['acid'] },
+        { type: ['element'], boilingPointRange: { max: 100 }, category: ['salt'] }
+      ),
+      { type: ['element'], boilingPointRange: { min: 0, max: 100 }, category: ['acid', 'salt'] }
+    )
+  })
+
+  await test('parse errors point at the clause and leave it out', () => {
+    assert.deepEqual(errorsOf('bpp:10 acid'), [
+      { message: errorsOf('bpp:10')[0].message, text: 'bpp:10' },
+    ])
+    assert.match(errorsOf('bpp:10')[0].message, /Unknown field "bpp"\. Fields: bp, mp, mw/)
+    assert.deepEqual(errorsOf('mw:10C'), [{ message: 'C is not a unit of molar mass', text: '10C' }])
+    assert.deepEqual(errorsOf('bp:50..120 ghs:12'), [{ message: 'GHS pictograms run from GHS01 to GHS09', text: '12' }])
+    assert.deepEqual(errorsOf('bp:120..50'), [
+      { message: 'bp range is empty: the lower end is above the upper end', text: '120..50' },
+    ])
+    assert.deepEqual(errorsOf('bp:50..120furlongs'), [{ message: 'Unknown unit "furlongs" for bp', text: '50..120furlongs' }])
+    assert.deepEqual(errorsOf('contains:Xx'), [{ message: 'Unknown element "Xx"', text: 'Xx' }])
+    assert.deepEqual(errorsOf('state:plasma')[0].text, 'plasma')
+    assert.deepEqual(errorsOf('group:1K')[0], { message: 'group takes a plain number, not K', text: '1K' })
+    assert.deepEqual(errorsOf('acid OR').map((e) => e.message), ['OR needs a term after it'])
+    assert.deepEqual(errorsOf('(acid').map((e) => e.message), ['Missing closing parenthesis'])
+    assert.deepEqual(errorsOf('acid)').map((e) => e.message), ['Unmatched closing parenthesis'])
+    assert.deepEqual(errorsOf('"sodium').map((e) => e.message), ['Missing closing quote'])
+    assert.deepEqual(errorsOf('type:'), [{ message: 'type: needs a value', text: 'type:' }])
+    assert.deepEqual(errorsOf('bp:1e'), [{ message: 'Malformed number "1e" for bp', text: '1e' }])
+    assert.deepEqual(errorsOf('bp:1e+..5')[0].message, 'Malformed number "1e+" for bp')
+    assert.deepEqual(errorsOf('bp:1e400')[0].message, '1e400 is too large a number for bp')
+
+    assert.deepEqual(errorsOf('state:gas@-300C'), [
+      { message: 'state: -300C is below absolute zero (-273.15 °C)', text: 'gas@-300C' },
+    ])
+    assert.deepEqual(errorsOf('mp:-300..0C')[0].message, 'mp: -300 is below absolute zero (-273.15 °C)')
+    assert.deepEqual(errorsOf('bp<-1K')[0].message, 'bp: -1K is below absolute zero (-273.15 °C)')
+    assert.deepEqual(errorsOf('bp>-459.67F'), [])
+
+    const recovered = parseSearchQuery('bpp:10 acid bp>50')
+    assert.deepEqual(recovered.mustInclude, ['acid'])
+    assert.deepEqual(recovered.predicate, { kind: 'range', field: 'boilingPoint', min: 50, minExclusive: true })
+  })
+
+  await test('engine: bp 50–120 °C, contains Cl, liquid at 25 °C, GHS06 absent', () => {
+    const engine = new VerChemSearchEngine()
+    const search = (query: string): SearchResult[] =>
+      engine.search({ query, filters: {}, options: { limit: 1000 } })
+
+    const results = search('bp:50..120C contains:Cl state:liquid@25C NOT ghs:06')
+    assert.ok(results.length > 0)
+    for (const result of results) {
+      const data = result.data as CompoundSearchData
+      assert.equal(result.type, 'compound')
+      assert.ok(data.boilingPoint! >= 50 && data.boilingPoint! <= 120, `${data.name} bp ${data.boilingPoint}`)
+      assert.ok(elementsInFormula(data.formula).includes('Cl'), data.formula)
+      assert.ok(!(data.ghsCodes ?? []).includes('GHS06'), data.name)
+    }
+
+    // Same query in kelvin, with spaces and a dash; excluding GHS06 only removes results
+    const kelvin = search('bp: 323.15-393.15 K contains:Cl state:liquid -ghs:06')
+    assert.deepEqual(kelvin.map((r) => r.id).sort(), results.map((r) => r.id).sort())
+    const withToxic = search('bp:50..120C contains:Cl state:liquid')
+    assert.ok(withToxic.length > results.length)
+    assert.ok(results.every((r) => withToxic.some((w) => w.id === r.id)))
+
+    // Element melting points are stored in kelvin and compared in °C
+    const gallium = search('type:element mp:29..30C')
+    assert.deepEqual(gallium.map((r) => r.title), ['Gallium (Ga)'])
+
+    // Free text still goes through the fuzzy index; clauses narrow it
+    const chloro = search('chloroform contains:Cl')
+    assert.equal(chloro[0]?.title, 'Chloroform')
+    assert.deepEqual(search('chloroform NOT contains:Cl'), [])
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
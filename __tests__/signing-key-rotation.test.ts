@@ -0,0 +1,212 @@
+/**
+ * VerChem Signing-Key Rotation Tests (answer cards + sessions)
+ *
+ * - parseKeyring rejects ambiguous configs (active not configured, kid both
+ *   configured and revoked, short secrets, bad kids)
+ * - signatures embed the active kid (hmac.<kid>.<sig>); legacy bare tokens map
+ *   to the "legacy" kid and keep verifying after a keyring is configured
+ * - rotating the active key keeps old signatures valid (verify-only keys)
+ * - a revoked kid reports key_revoked — distinct from tampered
+ * - resignCanonical re-issues valid cards under the current key and NEVER
+ *   re-signs revoked or tampered cards
+ * - session cookies survive SESSION_SECRET → SESSION_KEYRING rotation
+ */
+
+import assert from 'node:assert/strict'
+import {
+  KeyringConfigError,
+  loadKeyring,
+  parseKeyedSignature,
+  parseKeyring,
+  signWithKeyring,
+  verifyWithKeyring,
+} from '@/lib/auth/keyring'
+import {
+  canonicalPayloadString,
+  checkCanonicalSignature,
+  resignCanonical,
+  signCard,
+  verifyCardSignature,
+} from '@/lib/answer-cards/signature'
+import { signSessionValue, verifySessionSignature } from '@/lib/auth/session-signature'
+import type { SignablePayload } from '@/lib/answer-cards/types'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+const SECRET_A = 'secret-a-0123456789abcdef'
+const SECRET_B = 'secret-b-0123456789abcdef'
+const LEGACY = 'legacy-secret-0123456789'
+
+function payload(): SignablePayload {
+  return {
+    question: 'pH of 0.1 M HCl?',
+    status: 'verified',
+    tool_calls: [
+      {
+        name: 'calculate_strong_acid_ph',
+        engine: 'strong-acid-pH',
+        input: { concentration: 0.1 },
+        result: { ok: true, value: { pH: 1 } },
+        citation: 'Atkins Ch.6',
+      },
+    ],
+    explanation: 'Strongly acidic.',
+    audit: { clean: true, unmatched: [] },
+    model: 'claude-haiku-4-5-20251001',
+    version: 'w3-v1',
+    issued_at: '2026-01-01T00:00:00.000Z',
+  }
+}
+
+function setCardKeyring(doc: unknown | undefined) {
+  if (doc === undefined) delete process.env.ANSWER_CARD_KEYRING
+  else process.env.ANSWER_CARD_KEYRING = JSON.stringify(doc)
+}
+
+async function run() {
+  console.log('signing-key-rotation')
+
+  const savedEnv = { ...process.env }
+  delete process.env.ANSWER_CARD_ED25519_PRIVATE_KEY
+  process.env.ANSWER_CARD_SECRET = LEGACY
+
+  await test('parseKeyring rejects ambiguous configurations', () => {
+    assert.throws(() => parseKeyring('not json'), KeyringConfigError)
+    assert.throws(() => parseKeyring(JSON.stringify({ active: 'b', keys: { a: SECRET_A } })), /active/)
+    assert.throws(() => parseKeyring(JSON.stringify({ active: 'a', keys: { a: 'short' } })), /16 characters/)
+    assert.throws(() => parseKeyring(JSON.stringify({ active: 'a', keys: { 'a.b': SECRET_A } })), /Invalid key id/)
+    assert.throws(
+      () => parseKeyring(JSON.stringify({ active: 'a', keys: { a: SECRET_A }, revoked: ['a'] })),
+      /both configured and revoked/
+    )
+    assert.throws(
+      () => parseKeyring(JSON.stringify({ active: 'constructor', keys: { a: SECRET_A } })),
+      /active/,
+      'inherited keys must not satisfy "active"'
+    )
+  })
+
+  await test('signatures embed the active kid; legacy-only keyring keeps bare tokens', async () => {
+    const ring = parseKeyring(JSON.stringify({ active: 'k2', keys: { k2: SECRET_B, k1: SECRET_A } }))
+    const sig = await signWithKeyring(ring, 'msg')
+    assert.match(sig, /^hmac\.k2\.[A-Za-z0-9_-]+$/)
+    assert.deepEqual(parseKeyedSignature(sig)?.kid, 'k2')
+
+    const legacyOnly = loadKeyring('UNSET_TEST_KEYRING', LEGACY)!
+    const bare = await signWithKeyring(legacyOnly, 'msg')
+    assert.match(bare, /^[A-Za-z0-9_-]+$/)
+    assert.equal(parseKeyedSignature(bare)?.kid, 'legacy')
+  })
+
+  await test('verifyWithKeyring: valid / invalid / unknown_key / revoked', async () => {
+    const ring = parseKeyring(JSON.stringify({ active: 'k2', keys: { k2: SECRET_B, k1: SECRET_A }, revoked: ['k0'] }))
+    const sig = await signWithKeyring(ring, 'msg')
+    assert.equal(await verifyWithKeyring(ring, 'msg', sig), 'valid')
+    assert.equal(await verifyWithKeyring(ring, 'other', sig), 'invalid')
+    assert.equal(await verifyWithKeyring(ring, 'msg', sig.replace('.k2.', '.k9.')), 'unknown_key')
+    assert.equal(await verifyWithKeyring(ring, 'msg', sig.replace('.k2.', '.k0.')), 'revoked')
+  })
+
+  // --- answer cards ---
+  setCardKeyring(undefined)
+  const legacySig = await signCard(payload())
+  const canonical = canonicalPayloadString(payload())
+
+  await test('pre-rotation cards (bare HMAC) still verify once a keyring is configured', async () => {
+    assert.ok(!legacySig.includes('.'), 'no keyring → legacy bare token')
+    setCardKeyring({ active: 'k1', keys: { k1: SECRET_A } })
+    assert.equal(await verifyCardSignature(payload(), legacySig), true)
+    const fresh = await signCard(payload())
+    assert.match(fresh, /^hmac\.k1\./)
+  })
+
+  let k1Sig = ''
+  await test('rotating the active key keeps old-kid cards valid', async () => {
+    setCardKeyring({ active: 'k1', keys: { k1: SECRET_A } })
+    k1Sig = await signCard(payload())
+    setCardKeyring({ active: 'k2', keys: { k2: SECRET_B, k1: SECRET_A } })
+    assert.equal(await checkCanonicalSignature(canonical, k1Sig), 'valid')
+    assert.match(await signCard(payload()), /^hmac\.k2\./)
+  })
+
+  await test('revoked kid → key_revoked, tampered payload → tampered', async () => {
+    setCardKeyring({ active: 'k2', keys: { k2: SECRET_B }, revoked: ['k1'] })
+    assert.equal(await checkCanonicalSignature(canonical, k1Sig), 'key_revoked')
+    assert.equal(await verifyCardSignature(payload(), k1Sig), false)
+
+    const k2Sig = await signCard(payload())
+    const tampered = canonical.replace('Strongly acidic.', 'Neutral.')
+    assert.equal(await checkCanonicalSignature(tampered, k2Sig), 'tampered')
+
+    setCardKeyring({ active: 'k2', keys: { k2: SECRET_B }, revoked: ['legacy'] })
+    assert.equal(await checkCanonicalSignature(canonical, legacySig), 'key_revoked')
+  })
+
+  await test('resignCanonical re-issues valid old-key cards under the current key', async () => {
+    setCardKeyring({ active: 'k2', keys: { k2: SECRET_B, k1: SECRET_A } })
+    const res = await resignCanonical(canonical, k1Sig)
+    assert.equal(res.status, 'valid')
+    assert.equal(res.changed, true)
+    assert.match(res.signature, /^hmac\.k2\./)
+    assert.equal(await checkCanonicalSignature(canonical, res.signature), 'valid')
+
+    const again = await resignCanonical(canonical, res.signature)
+    assert.equal(again.changed, false, 'already current → untouched')
+
+    const fromLegacy = await resignCanonical(canonical, legacySig)
+    assert.equal(fromLegacy.changed, true)
+  })
+
+  await test('resignCanonical never launders revoked or tampered cards', async () => {
+    setCardKeyring({ active: 'k2', keys: { k2: SECRET_B }, revoked: ['k1'] })
+    const revoked = await resignCanonical(canonical, k1Sig)
+    assert.equal(revoked.status, 'key_revoked')
+    assert.equal(revoked.changed, false)
+    assert.equal(revoked.signature, k1Sig)
+
+    const tampered = await resignCanonical(canonical.replace('"pH":1', '"pH":7'), await signCard(payload()))
+    assert.equal(tampered.status, 'tampered')
+    assert.equal(tampered.changed, false)
+  })
+
+  // --- sessions ---
+  await test('session cookies survive SESSION_SECRET → SESSION_KEYRING rotation', async () => {
+    process.env.SESSION_SECRET = LEGACY
+    delete process.env.SESSION_KEYRING
+    const session = JSON.stringify({ user: { sub: 'u1' } })
+    const oldSig = await signSessionValue(session)
+    assert.equal(await verifySessionSignature(session, oldSig), true)
+
+    process.env.SESSION_KEYRING = JSON.stringify({ active: 's2', keys: { s2: SECRET_B } })
+    assert.equal(await verifySessionSignature(session, oldSig), true, 'pre-rotation cookie still valid')
+    const newSig = await signSessionValue(session)
+    assert.match(newSig, /^hmac\.s2\./)
+    assert.equal(await verifySessionSignature(session, newSig), true)
+    assert.equal(await verifySessionSignature(session + 'x', newSig), false)
+
+    process.env.SESSION_KEYRING = JSON.stringify({ active: 's2', keys: { s2: SECRET_B }, revoked: ['legacy'] })
+    assert.equal(await verifySessionSignature(session, oldSig), false, 'revoked legacy key logs that session out')
+  })
+
+  for (const key of Object.keys(process.env)) {
+    if (!(key in savedEnv)) delete process.env[key]
+  }
+  Object.assign(process.env, savedEnv)
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
@@ -0,0 +1,143 @@
+/**
+ * Acid-base speciation (alpha fractions, mixture pH) — tests
+ *
+ * - alpha fractions: sum to 1, cross at pKa, survive extreme pH
+ * - distribution diagrams over pH 0-14
+ * - isoelectric points of amino acids
+ * - exact pH of acids, amphiprotic salts and buffers from the charge balance
+ * - unknown systems and impossible forms are refused
+ */
+
+import assert from 'node:assert/strict'
+import {
+  calculateAlphaFractions,
+  calculateIsoelectricPoint,
+  calculateSpeciation,
+  createAcidBaseSystem,
+  generateDistributionDiagram,
+  getAcidBaseSystem,
+  solveMixturePH,
+} from '@/lib/calculations/speciation'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+const close = (actual: number, expected: number, tolerance = 1e-9) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} ≉ ${expected}`)
+
+async function run() {
+  console.log('acid-base speciation')
+
+  await test('alpha fractions: monoprotic formula, pKa crossings, extreme pH', () => {
+    const [acid, base] = calculateAlphaFractions(4, [1.74e-5])
+    close(base, 1.74e-5 / (1.74e-5 + 1e-4), 1e-15)
+    close(acid + base, 1, 1e-15)
+
+    const phosphate = getAcidBaseSystem('H3PO4')!
+    const pKa2 = -Math.log10(phosphate.KaValues[1])
+    const alphas = calculateAlphaFractions(pKa2, phosphate.KaValues)
+    close(alphas[1] / alphas[2], 1, 1e-12)
+    close(alphas.reduce((sum, alpha) => sum + alpha, 0), 1, 1e-15)
+
+    // No 0/0 far outside the usual range
+    assert.deepEqual(calculateAlphaFractions(50, [1e-2, 1e-7]), [1e-91, 1e-43, 1])
+    close(calculateAlphaFractions(-3, [1e-2, 1e-7])[0], 1, 1e-4)
+
+    assert.throws(() => calculateAlphaFractions(7, []), /At least one Ka/)
+    assert.throws(() => calculateAlphaFractions(7, [1e-3, -1]), /positive/)
+  })
+
+  await test('speciation at a pH: lookup, concentrations, dominant form and charge', () => {
+    assert.equal(getAcidBaseSystem('HPO42-')?.id, 'phosphoric')
+    assert.equal(getAcidBaseSystem('Glycine')?.id, 'glycine')
+
+    const result = calculateSpeciation('phosphoric', 7.4, 0.1)
+    assert.equal(result.dominant, 'HPO42-')
+    assert.deepEqual(result.fractions.map(f => f.charge), [0, -1, -2, -3])
+    close(result.fractions.reduce((sum, f) => sum + f.concentration!, 0), 0.1, 1e-15)
+    close(result.averageCharge, -(3 - result.boundProtons), 1e-12)
+
+    const custom = createAcidBaseSystem([1e-3, 1e-5, 1e-9])
+    assert.deepEqual(custom.species, ['H3A', 'H2A-', 'HA2-', 'A3-'])
+    assert.deepEqual(createAcidBaseSystem([5.6e-10], { charge: 1 }).species, ['HA+', 'A'])
+    assert.throws(() => calculateSpeciation('sulfurous', 7), /Unknown acid-base system/)
+  })
+
+  await test('distribution diagram and isoelectric points', () => {
+    const diagram = generateDistributionDiagram('citric')
+    assert.equal(diagram.points.length, 281)
+    assert.equal(diagram.points[0].pH, 0)
+    assert.equal(diagram.points[280].pH, 14)
+    assert.deepEqual(diagram.species, ['H3Cit', 'H2Cit-', 'HCit2-', 'Cit3-'])
+    for (const point of diagram.points) {
+      close(point.alphas.reduce((sum, alpha) => sum + alpha, 0), 1, 1e-12)
+    }
+    close(diagram.pKaValues[0], -Math.log10(7.4e-4), 1e-12)
+
+    close(calculateIsoelectricPoint('glycine'), (2.34 + 9.6) / 2, 1e-9)
+    close(calculateIsoelectricPoint('lysine'), (8.95 + 10.53) / 2, 1e-6)
+    close(calculateIsoelectricPoint('aspartic'), (1.88 + 3.65) / 2, 1e-6)
+    assert.throws(() => calculateIsoelectricPoint('phosphoric'), /no isoelectric point/)
+  })
+
+  await test('mixture pH from the charge balance', () => {
+    // Weak acid: matches the quadratic (water negligible)
+    const Ka = 1.74e-5
+    const x = (-Ka + Math.sqrt(Ka * Ka + 4 * Ka * 0.1)) / 2
+    close(solveMixturePH([{ system: 'acetic', concentration: 0.1 }]).pH, -Math.log10(x), 1e-6)
+
+    // Very dilute strong acid: water matters, pH < 7 but not 8
+    const H = (1e-8 + Math.sqrt(1e-16 + 4e-14)) / 2
+    close(solveMixturePH([], { strongAcid: 1e-8 }).pH, -Math.log10(H), 1e-9)
+
+    // Amphiprotic salt and an equimolar buffer
+    const carbonic = getAcidBaseSystem('carbonic')!.KaValues
+    const bicarbonate = solveMixturePH([{ system: 'carbonic', concentration: 0.1, form: 1 }])
+    close(bicarbonate.pH, -Math.log10(Math.sqrt(carbonic[0] * carbonic[1])), 0.01)
+    assert.equal(bicarbonate.sodium, 0.1)
+
+    const buffer = solveMixturePH([
+      { system: 'phosphoric', concentration: 0.05, form: 1 },
+      { system: 'phosphoric', concentration: 0.05, form: 2 },
+    ])
+    close(buffer.pH, -Math.log10(6.2e-8), 0.01)
+    assert.equal(buffer.components[1].form, 'HPO42-')
+    close(buffer.sodium, 0.15, 1e-15)
+
+    // Charge balance holds at the answer: Na3PO4
+    const phosphate = solveMixturePH([{ system: 'phosphoric', concentration: 0.1, form: 3 }])
+    const species = phosphate.components[0].fractions
+    const negative = phosphate.OH_concentration + species.reduce((sum, f) => sum - f.charge * f.concentration!, 0)
+    close(phosphate.H_concentration + 0.3, negative, 1e-12)
+    assert.ok(phosphate.steps.includes('  0.1 M PO43- (with 3 Na+)'))
+
+    // Glycine hydrochloride side: Cl- from HCl
+    assert.equal(
+      solveMixturePH([{ system: 'glycine', concentration: 0.1, form: 1 }], { strongAcid: 0.05 }).chloride,
+      0.05
+    )
+  })
+
+  await test('refuses impossible mixtures', () => {
+    assert.throws(() => solveMixturePH([]), /at least one/)
+    assert.throws(() => solveMixturePH([{ system: 'carbonic', concentration: 0.1, form: 3 }]), /no form with 3 protons removed/)
+    assert.throws(() => solveMixturePH([{ system: 'carbonic', concentration: -1 }]), /zero or positive/)
+    assert.throws(() => solveMixturePH([], { strongBase: -0.1 }), /zero or positive/)
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
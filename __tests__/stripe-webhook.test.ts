@@ -0,0 +1,360 @@
+/**
+ * Stripe webhook — signature check, event processing, subscription state
+ *
+ * - only events signed with the webhook secret are processed
+ * - checkout / invoice / subscription events become subscription snapshots;
+ *   Stripe statuses map onto vercal SubscriptionStatus, prices onto tiers
+ * - redelivered events are duplicates; out-of-order snapshots are stale
+ * - resolveSubscription() feeds hasActiveSubscription / checkFeatureAccess
+ */
+
+import assert from 'node:assert/strict'
+import Stripe from 'stripe'
+import {
+  RENEWAL_GRACE_MS,
+  createMemorySubscriptionStore,
+  freeSubscription,
+  resolveSubscription,
+  type SubscriptionRecord,
+  type SubscriptionStore,
+} from '@/lib/subscriptions'
+import {
+  handleStripeWebhook,
+  processStripeEvent,
+  tierForPrice,
+  toSubscriptionStatus,
+  type StripeWebhookDeps,
+} from '@/lib/subscriptions/stripe-webhook'
+import { STRIPE_PRODUCTS } from '@/lib/vercal/constants'
+import { checkFeatureAccess, hasActiveSubscription } from '@/lib/vercal/subscription'
+
+let passed = 0
+let failed = 0
+async function test(name: string, fn: () => void | Promise<void>) {
+  try {
+    await fn()
+    passed++
+    console.log('  ✓', name)
+  } catch (e) {
+    failed++
+    console.error('  ✗', name)
+    console.error('   ', e instanceof Error ? e.message : e)
+  }
+}
+
+const SECRET = 'whsec_test_secret'
+const NOW = new Date('2026-10-18T12:00:00Z')
+const unix = (iso: string) => Math.floor(Date.parse(iso) / 1000)
+
+// ---- fixture events (the fields the webhook reads, shaped like API 2025-11-17) ----
+
+function subscriptionFixture(overrides: Partial<Record<string, unknown>> = {}): Stripe.Subscription {
+  return {
+    id: 'sub_1',
+    object: 'subscription',
+    customer: 'cus_1',
+    status: 'active',
+    created: unix('2026-09-18T12:00:00Z'),
+    start_date: unix('2026-09-18T12:00:00Z'),
+    ended_at: null,
+    cancel_at_period_end: false,
+    metadata: { aiverid_id: 'user-1' },
+    items: {
+      object: 'list',
+      data: [
+        {
+          id: 'si_1',
+          price: { id: STRIPE_PRODUCTS.professional_monthly },
+          current_period_start: unix('2026-10-18T12:00:00Z'),
+          current_period_end: unix('2026-11-18T12:00:00Z'),
+        },
+      ],
+    },
+    ...overrides,
+  } as unknown as Stripe.Subscription
+}
+
+let eventCount = 0
+function eventFixture(type: string, object: unknown, created = NOW): Stripe.Event {
+  return {
+    id: `evt_${++eventCount}`,
+    object: 'event',
+    type,
+    created: Math.floor(created.getTime() / 1000),
+    data: { object },
+  } as unknown as Stripe.Event
+}
+
+const checkoutCompleted = (subscription = 'sub_1', user = 'user-1') =>
+  eventFixture('checkout.session.completed', {
+    id: 'cs_1',
+    object: 'checkout.session',
+    mode: 'subscription',
+    subscription,
+    client_reference_id: user,
+    metadata: {},
+  })
+
+const invoiceEvent = (type: 'invoice.paid' | 'invoice.payment_failed', subscription = 'sub_1') =>
+  eventFixture(type, {
+    id: 'in_1',
+    object: 'invoice',
+    parent: { type: 'subscription_details', subscription_details: { subscription, metadata: {} } },
+  })
+
+/** Deps whose Stripe "API" serves `remote` and counts fetches. */
+function deps(store: SubscriptionStore, remote: Record<string, Stripe.Subscription> = {}) {
+  const fetched: string[] = []
+  const value: StripeWebhookDeps = {
+    store,
+    now: () => NOW,
+    async retrieveSubscription(id) {
+      fetched.push(id)
+      const subscription = remote[id]
+      if (!subscription) throw new Error(`No such subscription: ${id}`)
+      return subscription
+    },
+  }
+  return { deps: value, fetched }
+}
+
+function sign(event: Stripe.Event) {
+  const payload = JSON.stringify(event)
+  return { payload, signature: Stripe.webhooks.generateTestHeaderString({ payload, secret: SECRET }) }
+}
+
+async function run() {
+  console.log('stripe-webhook')
+
+  await test('status and price mapping', () => {
+    assert.equal(toSubscriptionStatus('active'), 'active')
+    assert.equal(toSubscriptionStatus('trialing'), 'active')
+    assert.equal(toSubscriptionStatus('past_due'), 'past_due')
+    assert.equal(toSubscriptionStatus('unpaid'), 'past_due')
+    assert.equal(toSubscriptionStatus('canceled'), 'cancelled')
+    assert.equal(toSubscriptionStatus('incomplete_expired'), 'expired')
+
+    assert.equal(tierForPrice(STRIPE_PRODUCTS.student_yearly), 'student')
+    assert.equal(tierForPrice(STRIPE_PRODUCTS.professional_monthly), 'professional')
+    assert.equal(tierForPrice(STRIPE_PRODUCTS.enterprise_yearly), 'enterprise')
+    assert.equal(tierForPrice('price_unknown'), null)
+    assert.equal(tierForPrice(null), null)
+  })
+
+  await test('checkout completion links the user and stores the fetched subscription', async () => {
+    const store = createMemorySubscriptionStore()
+    const remote = { sub_1: subscriptionFixture({ metadata: {} }) }
+    const { deps: d, fetched } = deps(store, remote)
+
+    const outcome = await processStripeEvent(checkoutCompleted(), d)
+    assert.deepEqual(outcome, { status: 'processed', subscriptionId: 'sub_1' })
+    assert.deepEqual(fetched, ['sub_1'])
+
+    const [row] = await store.listByUser('user-1')
+    assert.equal(row.tier, 'professional')
+    assert.equal(row.status, 'active')
+    assert.equal(row.stripe_customer_id, 'cus_1')
+    assert.equal(row.current_period_end, '2026-11-18T12:00:00.000Z')
+    assert.equal(row.synced_at, NOW.toISOString())
+
+    const subscription = resolveSubscription([row])
+    assert.equal(hasActiveSubscription(subscription), true)
+    assert.equal(subscription.auto_renew, true)
+    assert.equal(subscription.stripe_subscription_id, 'sub_1')
+    assert.deepEqual(checkFeatureAccess(subscription, 'professional'), { hasAccess: true })
+  })
+
+  await test('invoice paid / failed refresh the subscription from Stripe', async () => {
+    const store = createMemorySubscriptionStore()
+    const remote = { sub_1: subscriptionFixture() }
+    const { deps: d } = deps(store, remote)
+    await processStripeEvent(checkoutCompleted(), d)
+
+    remote.sub_1 = subscriptionFixture({ status: 'past_due' })
+    await processStripeEvent(invoiceEvent('invoice.payment_failed'), { ...d, now: () => new Date(NOW.getTime() + 1000) })
+    let subscription = resolveSubscription(await store.listByUser('user-1'))
+    assert.equal(subscription.status, 'past_due')
+    const access = checkFeatureAccess(subscription, 'professional')
+    assert.equal(access.hasAccess, false)
+    assert.match(access.reason ?? '', /past due/)
+
+    remote.sub_1 = subscriptionFixture({ status: 'active' })
+    await processStripeEvent(invoiceEvent('invoice.paid'), { ...d, now: () => new Date(NOW.getTime() + 2000) })
+    subscription = resolveSubscription(await store.listByUser('user-1'))
+    assert.equal(checkFeatureAccess(subscription, 'professional').hasAccess, true)
+
+    const noSubscription = eventFixture('invoice.paid', { id: 'in_2', object: 'invoice', parent: null })
+    assert.equal((await processStripeEvent(noSubscription, d)).status, 'ignored')
+  })
+
+  await test('subscription updated / deleted use the event snapshot', async () => {
+    const store = createMemorySubscriptionStore()
+    const { deps: d, fetched } = deps(store)
+
+    await processStripeEvent(
+      eventFixture('customer.subscription.updated', subscriptionFixture({ cancel_at_period_end: true })),
+      d
+    )
+    let subscription = resolveSubscription(await store.listByUser('user-1'))
+    assert.equal(subscription.auto_renew, false)
+    assert.equal(subscription.expires_at, '2026-11-18T12:00:00.000Z')
+
+    const ended = unix('2026-11-18T12:00:00Z')
+    await processStripeEvent(
+      eventFixture(
+        'customer.subscription.deleted',
+        subscriptionFixture({ status: 'canceled', ended_at: ended }),
+        new Date('2026-11-18T12:00:01Z')
+      ),
+      d
+    )
+    subscription = resolveSubscription(await store.listByUser('user-1'))
+    assert.equal(subscription.status, 'cancelled')
+    assert.equal(hasActiveSubscription(subscription), false)
+    assert.match(checkFeatureAccess(subscription, 'student').reason ?? '', /cancelled/)
+    assert.deepEqual(fetched, [])
+  })
+
+  await test('redelivered events are duplicates; older snapshots are stale', async () => {
+    const store = createMemorySubscriptionStore()
+    const { deps: d } = deps(store)
+
+    const newer = eventFixture(
+      'customer.subscription.updated',
+      subscriptionFixture({ status: 'past_due' }),
+      new Date('2026-10-19T00:00:00Z')
+    )
+    const older = eventFixture('customer.subscription.updated', subscriptionFixture(), NOW)
+
+    assert.equal((await processStripeEvent(newer, d)).status, 'processed')
+    assert.deepEqual(await processStripeEvent(newer, d), { status: 'duplicate' })
+    assert.deepEqual(await processStripeEvent(older, d), { status: 'stale', subscriptionId: 'sub_1' })
+    assert.equal((await store.listByUser('user-1'))[0].status, 'past_due')
+  })
+
+  await test('the user id survives snapshots that do not carry it', async () => {
+    const store = createMemorySubscriptionStore()
+    const { deps: d } = deps(store, { sub_1: subscriptionFixture({ metadata: {} }) })
+    await processStripeEvent(checkoutCompleted(), d)
+    await processStripeEvent(
+      eventFixture('customer.subscription.updated', subscriptionFixture({ metadata: {} }), new Date('2026-10-19T00:00:00Z')),
+      d
+    )
+    const rows = await store.listByUser('user-1')
+    assert.equal(rows.length, 1)
+    assert.equal(rows[0].synced_at, '2026-10-19T00:00:00.000Z')
+  })
+
+  await test('unknown prices and unhandled events are ignored, but recorded', async () => {
+    const store = createMemorySubscriptionStore()
+    const { deps: d } = deps(store)
+    const unknownPrice = subscriptionFixture()
+    unknownPrice.items.data[0].price = { id: 'price_other' } as Stripe.Price
+
+    const originalWarn = console.warn
+    console.warn = () => {}
+    try {
+      const event = eventFixture('customer.subscription.created', unknownPrice)
+      assert.equal((await processStripeEvent(event, d)).status, 'ignored')
+      assert.deepEqual(await processStripeEvent(event, d), { status: 'duplicate' })
+    } finally {
+      console.warn = originalWarn
+    }
+    assert.deepEqual(await store.listByUser('user-1'), [])
+
+    // metadata.tier is the fallback for prices outside STRIPE_PRODUCTS
+    const withTier = subscriptionFixture({ metadata: { aiverid_id: 'user-1', tier: 'student' } })
+    withTier.items.data[0].price = { id: 'price_other' } as Stripe.Price
+    await processStripeEvent(eventFixture('customer.subscription.created', withTier), d)
+    assert.equal((await store.listByUser('user-1'))[0].tier, 'student')
+
+    const other = eventFixture('customer.created', { id: 'cus_2', object: 'customer' })
+    assert.equal((await processStripeEvent(other, d)).status, 'ignored')
+  })
+
+  await test('resolveSubscription prefers the best active subscription', () => {
+    assert.deepEqual(resolveSubscription([]), freeSubscription())
+    assert.equal(checkFeatureAccess(freeSubscription(), 'free').hasAccess, true)
+
+    const base: SubscriptionRecord = {
+      stripe_subscription_id: 'sub_a',
+      aiverid_id: 'user-1',
+      stripe_customer_id: 'cus_1',
+      price_id: null,
+      tier: 'student',
+      status: 'active',
+      stripe_status: 'active',
+      subscribed_at: '2026-01-01T00:00:00.000Z',
+      current_period_end: new Date(Date.now() + 86_400_000).toISOString(),
+      cancel_at_period_end: false,
+      synced_at: '2026-10-01T00:00:00.000Z',
+    }
+    const cancelledPro = { ...base, stripe_subscription_id: 'sub_b', tier: 'enterprise' as const, status: 'cancelled' as const, synced_at: '2026-10-02T00:00:00.000Z' }
+    const activePro = { ...base, stripe_subscription_id: 'sub_c', tier: 'professional' as const }
+
+    assert.equal(resolveSubscription([base, cancelledPro]).tier, 'student')
+    assert.equal(resolveSubscription([base, cancelledPro, activePro]).tier, 'professional')
+    assert.equal(resolveSubscription([cancelledPro]).status, 'cancelled')
+
+    // Auto-renewing periods get a grace window; a lapsed one without renewal does not.
+    const lapsed = { ...base, current_period_end: new Date(Date.now() - 3_600_000).toISOString() }
+    assert.equal(hasActiveSubscription(resolveSubscription([lapsed])), true)
+    assert.equal(hasActiveSubscription(resolveSubscription([{ ...lapsed, cancel_at_period_end: true }])), false)
+    const lapsedLong = { ...base, current_period_end: new Date(Date.now() - RENEWAL_GRACE_MS - 1000).toISOString() }
+    assert.equal(hasActiveSubscription(resolveSubscription([lapsedLong])), false)
+  })
+
+  await test('handleStripeWebhook verifies the signature before processing', async () => {
+    const store = createMemorySubscriptionStore()
+    const { deps: d } = deps(store, { sub_1: subscriptionFixture() })
+    const event = checkoutCompleted()
+    const { payload, signature } = sign(event)
+
+    const missing = await handleStripeWebhook(payload, null, SECRET, d)
+    assert.equal(missing.status, 400)
+
+    const originalWarn = console.warn
+    console.warn = () => {}
+    try {
+      const wrongSecret = await handleStripeWebhook(payload, signature, 'whsec_other', d)
+      assert.equal(wrongSecret.status, 400)
+      assert.equal(wrongSecret.body.error, 'Invalid signature')
+      const tampered = await handleStripeWebhook(payload.replace('user-1', 'user-2'), signature, SECRET, d)
+      assert.equal(tampered.status, 400)
+    } finally {
+      console.warn = originalWarn
+    }
+    assert.equal(await store.hasProcessedEvent(event.id), false)
+
+    const ok = await handleStripeWebhook(payload, signature, SECRET, d)
+    assert.equal(ok.status, 200)
+    assert.equal(ok.body.status, 'processed')
+    assert.equal(ok.body.id, event.id)
+
+    const again = await handleStripeWebhook(payload, signature, SECRET, d)
+    assert.equal(again.status, 200)
+    assert.equal(again.body.status, 'duplicate')
+  })
+
+  await test('a failed Stripe fetch returns 500 and leaves the event unprocessed', async () => {
+    const store = createMemorySubscriptionStore()
+    const { deps: d } = deps(store)
+    const event = checkoutCompleted('sub_missing')
+    const { payload, signature } = sign(event)
+
+    const originalError = console.error
+    console.error = () => {}
+    try {
+      const result = await handleStripeWebhook(payload, signature, SECRET, d)
+      assert.equal(result.status, 500)
+    } finally {
+      console.error = originalError
+    }
+    assert.equal(await store.hasProcessedEvent(event.id), false)
+  })
+
+  console.log(`\n${passed} passed, ${failed} failed`)
+  if (failed > 0) process.exit(1)
+}
+
+run()
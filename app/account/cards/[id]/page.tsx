@@ -3,7 +3,7 @@
 import { useEffect, useState, useCallback } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import Link from 'next/link'
-import type { AnswerCard } from '@/lib/answer-cards/types'
+import type { AnswerCard, SignatureStatus } from '@/lib/answer-cards/types'
 import AnswerCardView from '@/components/answer-cards/AnswerCardView'
 import { CalcShell, Card } from '@/components/lab'
 
@@ -13,6 +13,7 @@ interface LoadedCard {
   is_public: boolean
   created_at: string
   signatureValid: boolean
+  signatureStatus?: SignatureStatus
 }
 
 export default function CardDetailPage() {
@@ -138,7 +139,11 @@ export default function CardDetailPage() {
       maxWidth="4xl"
     >
       <Card className="p-6 md:p-8">
-        <AnswerCardView card={loaded.card} signatureValid={loaded.signatureValid} />
+        <AnswerCardView
+          card={loaded.card}
+          signatureValid={loaded.signatureValid}
+          signatureStatus={loaded.signatureStatus}
+        />
       </Card>
 
       {/* Manage */}
@@ -3,7 +3,7 @@
 import { useEffect, useState, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
-import type { CardStatus } from '@/lib/answer-cards/types'
+import type { CardStatus, SignatureStatus } from '@/lib/answer-cards/types'
 import { CalcShell, Card, ErrorBanner } from '@/components/lab'
 
 interface CardSummary {
@@ -13,6 +13,7 @@ interface CardSummary {
   is_public: boolean
   created_at: string
   signatureValid: boolean
+  signatureStatus?: SignatureStatus
 }
 
 const STATUS_STYLE: Record<CardStatus, { label: string; cls: string }> = {
@@ -135,6 +136,10 @@ export default function CardsPage() {
                         <span className={`inline-flex items-center rounded-md border px-2 py-0.5 font-medium ${s.cls}`}>
                           {s.label}
                         </span>
+                      ) : c.signatureStatus === 'key_revoked' ? (
+                        <span className="inline-flex items-center rounded-md border border-warning/40 bg-warning/10 px-2 py-0.5 font-medium text-warning-strong">
+                          Key revoked
+                        </span>
                       ) : (
                         <span className="inline-flex items-center rounded-md border border-destructive/40 bg-destructive/10 px-2 py-0.5 font-medium text-destructive-strong">
                           Tampered
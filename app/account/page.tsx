@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { CalcShell, Card, SectionTitle, Button } from '@/components/lab'
+import ApiKeysPanel from '@/components/account/ApiKeysPanel'
 
 interface User {
   id?: string
@@ -184,6 +185,9 @@ export default function AccountPage() {
         </div>
       </Card>
 
+      {/* Developer API keys */}
+      <ApiKeysPanel />
+
       {/* Quick Access Grid */}
       <Card className="p-6">
         <SectionTitle className="mb-4">Quick access</SectionTitle>
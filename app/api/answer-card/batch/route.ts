@@ -0,0 +1,166 @@
+/**
+ * Answer Card Batch API — POST
+ *
+ * A problem set in one request: { questions: string[] } (1..MAX_BATCH_QUESTIONS).
+ *
+ * SECURITY:
+ * - isValidOrigin(request) → 403 if cross-origin
+ * - verifySession() → 401 if not logged in (login-gated)
+ * - Every question passes the same guard as POST /api/answer-card
+ *
+ * QUOTA: each question costs one unit of the caller's entitled tier DAILY
+ * answer-card quota (entitlement 'answer-card', shared with the single-card
+ * route). Questions are admitted in order before any model call; those over
+ * quota come back as per-item `rate_limit` failures. Only a batch with NO
+ * admitted question is refused, with the single-card route's 402/403.
+ *
+ * RESPONSE: the batch id is in the `X-Batch-Id` header. With
+ * `Accept: text/event-stream` the cards stream as they finish (batch → item* →
+ * done, lib/answer-cards/sse.ts); otherwise the JSON body
+ * { batch_id, items } is returned once every question has finished. Each item
+ * is { index, question, ok: true, card } or
+ * { index, question, ok: false, error: { kind, error, status } }.
+ * Repeated questions go through the answer cache like the single-card route.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { verifySession } from '@/lib/auth/session'
+import { isValidOrigin } from '@/lib/auth/origin-check'
+import {
+  MAX_BATCH_QUESTIONS,
+  newBatchId,
+  runAnswerCardBatch,
+  type AnswerCardBatchEvent,
+} from '@/lib/answer-cards/batch'
+import { MAX_QUESTION_LENGTH, sanitizeQuestion } from '@/lib/answer-cards/question'
+import { encodeBatchStreamEvent, SSE_CONTENT_TYPE, wantsEventStream } from '@/lib/answer-cards/sse'
+import { consumeQuota, entitlementResponse } from '@/lib/entitlements'
+import { getAnswerCardCache } from '@/lib/supabase/answer-card-cache'
+import { getUsageStore, resolveEntitledTier } from '@/lib/supabase/entitlements'
+
+function streamBatch(
+  questions: string[],
+  batchId: string,
+  admitted: boolean[],
+  headers: Record<string, string>
+): Response {
+  const encoder = new TextEncoder()
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnswerCardBatchEvent) => {
+        // The client may have gone away; finish the batch, just stop writing.
+        if (closed) return
+        controller.enqueue(encoder.encode(encodeBatchStreamEvent(event)))
+      }
+      // Per-item failures are captured inside the batch; nothing here throws
+      // short of a bug, which must still close the stream.
+      try {
+        await runAnswerCardBatch(questions, {
+          batchId,
+          admit: (i) => admitted[i],
+          cache: getAnswerCardCache(),
+          onEvent: send,
+        })
+      } catch (err) {
+        console.error('POST /api/answer-card/batch stream error:', err)
+      }
+      if (!closed) {
+        closed = true
+        controller.close()
+      }
+    },
+    cancel() {
+      closed = true
+    },
+  })
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      ...headers,
+      'Content-Type': `${SSE_CONTENT_TYPE}; charset=utf-8`,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isValidOrigin(request)) {
+      return NextResponse.json({ error: 'Invalid origin' }, { status: 403 })
+    }
+
+    const session = await verifySession()
+    // Same rule as the single-card route: never key the quota on 'anonymous'.
+    if (!session?.userId || session.userId === 'anonymous') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 })
+    }
+
+    const raw = (body as Record<string, unknown>).questions
+    if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_BATCH_QUESTIONS) {
+      return NextResponse.json(
+        { error: `questions must be an array of 1 to ${MAX_BATCH_QUESTIONS} strings` },
+        { status: 400 }
+      )
+    }
+    const questions: string[] = []
+    for (const [index, value] of raw.entries()) {
+      const question = sanitizeQuestion(value)
+      if (question === null) {
+        return NextResponse.json(
+          { error: `questions[${index}] must be a non-empty string between 1 and ${MAX_QUESTION_LENGTH} characters` },
+          { status: 400 }
+        )
+      }
+      questions.push(question)
+    }
+
+    // Reserve quota up front, in order: the first N within the tier's daily
+    // limit run, the rest fail per item without reaching the model.
+    const quota = await consumeQuota(
+      'answer-card',
+      { userId: session.userId, tier: await resolveEntitledTier(session) },
+      questions.length,
+      getUsageStore()
+    )
+    if (!quota.allowed) {
+      return entitlementResponse(quota)
+    }
+    const admitted = questions.map((_, i) => i < quota.granted)
+
+    const batchId = newBatchId()
+    const successHeaders: Record<string, string> = { 'X-Batch-Id': batchId }
+    if (Number.isFinite(quota.remaining) && quota.resetAt) {
+      successHeaders['X-RateLimit-Remaining'] = String(quota.remaining)
+      successHeaders['X-RateLimit-Reset'] = String(Math.ceil(Date.parse(quota.resetAt) / 1000))
+    }
+
+    if (wantsEventStream(request.headers.get('accept'))) {
+      return streamBatch(questions, batchId, admitted, successHeaders)
+    }
+
+    const result = await runAnswerCardBatch(questions, {
+      batchId,
+      admit: (i) => admitted[i],
+      cache: getAnswerCardCache(),
+    })
+    return NextResponse.json(result, { status: 200, headers: successHeaders })
+  } catch (err: unknown) {
+    console.error('POST /api/answer-card/batch error:', err)
+    return NextResponse.json({ error: 'An unexpected error occurred.' }, { status: 500 })
+  }
+}
@@ -5,23 +5,71 @@
  * - isValidOrigin(request) → 403 if cross-origin
  * - verifySession() → 401 if not logged in (login-gated)
  * - Body guard: object with question string 1..1000 chars
+ * - Daily quota per entitled tier (entitlement 'answer-card', counted in
+ *   feature_usage) → 402 naming the tier with a higher limit, Retry-After
  *
- * DAY 1: No rate-limit, no persistence, no streaming.
+ * STREAMING: with `Accept: text/event-stream` the same card is produced, but
+ * progress is streamed as Server-Sent Events (lib/answer-cards/sse.ts): each
+ * tool call as it executes, the audit, then the signed card — serialized
+ * exactly like the JSON response, so the signature matches either way.
+ * Auth/validation/rate-limit failures are still plain JSON errors; a service
+ * failure after the stream has started arrives as an `error` event.
+ *
+ * CACHE: identical questions are answered from the answer cache
+ * (lib/answer-cards/cache.ts, store chosen by ANSWER_CARD_CACHE) — tool calls
+ * re-executed and the card freshly signed. JSON responses carry
+ * `X-Answer-Cache: hit | miss`. A hit still costs one unit of daily quota.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { verifySession } from '@/lib/auth/session'
 import { isValidOrigin } from '@/lib/auth/origin-check'
-import { askVerified, classifyServiceError } from '@/lib/answer-cards/orchestrator'
-import { checkRateLimit, answerCardDailyConfig } from '@/lib/rate-limit'
+import { classifyServiceError } from '@/lib/answer-cards/orchestrator'
+import { askVerifiedCached } from '@/lib/answer-cards/cache'
+import { encodeStreamEvent, SSE_CONTENT_TYPE, wantsEventStream } from '@/lib/answer-cards/sse'
+import type { AnswerCardStreamEvent } from '@/lib/answer-cards/types'
+import { sanitizeQuestion } from '@/lib/answer-cards/question'
+import { consumeQuota, entitlementResponse } from '@/lib/entitlements'
+import { getAnswerCardCache } from '@/lib/supabase/answer-card-cache'
+import { getUsageStore, resolveEntitledTier } from '@/lib/supabase/entitlements'
+
+function streamAnswerCard(question: string, headers: Record<string, string>): Response {
+  const encoder = new TextEncoder()
+  let closed = false
 
-function sanitizeQuestion(value: unknown): string | null {
-  if (typeof value !== 'string') return null
-  const trimmed = value.trim()
-  if (trimmed.length === 0 || trimmed.length > 1000) return null
-  // Strip control characters except newlines/tabs
-  const cleaned = trimmed.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
-  return cleaned
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnswerCardStreamEvent) => {
+        // The client may have gone away; finish the run, just stop writing.
+        if (closed) return
+        controller.enqueue(encoder.encode(encodeStreamEvent(event)))
+      }
+      try {
+        await askVerifiedCached(question, { cache: getAnswerCardCache(), onEvent: send })
+      } catch (err) {
+        console.error('POST /api/answer-card stream error:', err)
+        const svc = classifyServiceError(err)
+        send({ type: 'error', error: svc.publicMessage, status: svc.httpStatus })
+      }
+      if (!closed) {
+        closed = true
+        controller.close()
+      }
+    },
+    cancel() {
+      closed = true
+    },
+  })
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      ...headers,
+      'Content-Type': `${SSE_CONTENT_TYPE}; charset=utf-8`,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    },
+  })
 }
 
 export async function POST(request: NextRequest) {
@@ -57,32 +105,29 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Day 3: tier-based DAILY rate limit (free 20, student 100, professional/enterprise unlimited)
-    const rl = checkRateLimit(`answer-card:${session.userId}`, answerCardDailyConfig(session.tier))
-    if (!rl.success) {
-      return NextResponse.json(
-        {
-          error: 'Daily verified-answer limit reached for your plan. Upgrade for a higher daily limit.',
-          retryAfter: rl.retryAfter,
-        },
-        {
-          status: 429,
-          headers: {
-            'Retry-After': String(rl.retryAfter ?? 0),
-            'X-RateLimit-Remaining': '0',
-            'X-RateLimit-Reset': String(Math.ceil(rl.resetTime / 1000)),
-          },
-        }
-      )
+    // Day 3: tier-based DAILY quota (free 20, student 100, professional/enterprise unlimited)
+    const quota = await consumeQuota(
+      'answer-card',
+      { userId: session.userId, tier: await resolveEntitledTier(session) },
+      1,
+      getUsageStore()
+    )
+    if (!quota.allowed) {
+      return entitlementResponse(quota)
     }
 
-    const card = await askVerified(question)
     const successHeaders: Record<string, string> = {}
-    if (Number.isFinite(rl.remaining)) {
-      successHeaders['X-RateLimit-Remaining'] = String(rl.remaining)
-      successHeaders['X-RateLimit-Reset'] = String(Math.ceil(rl.resetTime / 1000))
+    if (Number.isFinite(quota.remaining) && quota.resetAt) {
+      successHeaders['X-RateLimit-Remaining'] = String(quota.remaining)
+      successHeaders['X-RateLimit-Reset'] = String(Math.ceil(Date.parse(quota.resetAt) / 1000))
+    }
+
+    if (wantsEventStream(request.headers.get('accept'))) {
+      return streamAnswerCard(question, successHeaders)
     }
-    return NextResponse.json(card, { status: 200, headers: successHeaders })
+
+    const { card, cache } = await askVerifiedCached(question, { cache: getAnswerCardCache() })
+    return NextResponse.json(card, { status: 200, headers: { ...successHeaders, 'X-Answer-Cache': cache } })
   } catch (err: unknown) {
     console.error('POST /api/answer-card error:', err)
 
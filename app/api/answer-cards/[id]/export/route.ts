@@ -0,0 +1,110 @@
+/**
+ * Answer Card Export API — GET
+ *
+ *   ?format=pdf  → printable A4 PDF (attachment)
+ *   ?format=html → self-contained HTML snippet for LMS pages (inline styles,
+ *                  inline SVG QR code, no scripts)
+ *
+ * Both carry the status badge, tool-call table, citations and a QR code +
+ * short link to /verified/[id], so a reader of the paper/embedded copy can
+ * check the signature on the live page.
+ *
+ * SECURITY:
+ * - PUBLIC cards only: the QR code must lead somewhere anyone can open, and a
+ *   private card's contents never leave through this route (404 otherwise).
+ * - The HMAC is re-checked on load; a tampered or revoked-key card is refused
+ *   (409) — never turned into a printable artifact.
+ * - Rate-limited per client: PDF rendering is real server work.
+ * - PDF needs the Student plan or higher (entitlement 'answer-card-pdf'),
+ *   checked against the verified session → 402 naming the tier. The HTML
+ *   embed stays open to everyone.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPublicAnswerCardById } from '@/lib/supabase/answer-cards'
+import { answerCardUrl, renderAnswerCardHtml } from '@/lib/answer-cards/export'
+import { PDFExporter } from '@/lib/export/pdf-export'
+import { checkRateLimit, getClientId, RATE_LIMITS } from '@/lib/rate-limit'
+import { verifySession } from '@/lib/auth/session'
+import { checkEntitlement, entitlementResponse } from '@/lib/entitlements'
+import { resolveEntitledTier } from '@/lib/supabase/entitlements'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid card id' }, { status: 400 })
+    }
+
+    const format = request.nextUrl.searchParams.get('format') ?? 'pdf'
+    if (format !== 'pdf' && format !== 'html') {
+      return NextResponse.json({ error: 'format must be "pdf" or "html"' }, { status: 400 })
+    }
+
+    if (format === 'pdf') {
+      const session = await verifySession()
+      const access = checkEntitlement('answer-card-pdf', session ? await resolveEntitledTier(session) : 'free')
+      if (!access.allowed) {
+        return entitlementResponse(access)
+      }
+    }
+
+    const rl = await checkRateLimit(`answer-card-export:${getClientId(request)}`, RATE_LIMITS.general)
+    if (!rl.success) {
+      return NextResponse.json(
+        { error: 'Too many requests', retryAfter: rl.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(rl.retryAfter ?? 0) } }
+      )
+    }
+
+    const loaded = await getPublicAnswerCardById(id)
+    if (!loaded) {
+      return NextResponse.json({ error: 'Answer card not found' }, { status: 404 })
+    }
+    if (!loaded.signatureValid) {
+      return NextResponse.json(
+        {
+          error:
+            loaded.signatureStatus === 'key_revoked'
+              ? 'Card was signed with a revoked key — it cannot be exported.'
+              : 'Card signature is invalid — it cannot be exported.',
+          signatureValid: false,
+          signatureStatus: loaded.signatureStatus,
+        },
+        { status: 409 }
+      )
+    }
+
+    const options = { url: answerCardUrl(request.nextUrl.origin, id), signatureStatus: loaded.signatureStatus }
+
+    if (format === 'html') {
+      return new Response(renderAnswerCardHtml(loaded.card, options), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Cache-Control': 'public, max-age=300',
+        },
+      })
+    }
+
+    const pdf = PDFExporter.buildAnswerCardPDF(loaded.card, options).output('arraybuffer')
+    return new Response(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="verchem-answer-${id.slice(0, 8)}.pdf"`,
+        // Entitled callers only: a shared cache must not hand it to anyone else.
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (err: unknown) {
+    console.error('GET /api/answer-cards/[id]/export error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Answer Card Re-verification API — GET
+ *
+ * Replays every stored tool call against the CURRENT engines and returns a
+ * per-call drift report (unchanged / drifted / changed / newly_erroring /
+ * unknown_tool).
+ *
+ * SECURITY:
+ * - Same visibility rules as GET /api/answer-cards/[id]: owner sees their card,
+ *   anyone sees a public card, private cards 404 for non-owners.
+ * - The HMAC is re-checked via toSignablePayload before replay. A tampered card
+ *   is reported as 409 — never replayed, so its inputs can't earn a
+ *   "still reproduces" badge.
+ * - Rate-limited per client: replay runs real engine work.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { verifySession } from '@/lib/auth/session'
+import { getAnswerCardForUser, getPublicAnswerCardById } from '@/lib/supabase/answer-cards'
+import { reverifyCard } from '@/lib/answer-cards/reverify'
+import { checkRateLimit, getClientId, RATE_LIMITS } from '@/lib/rate-limit'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid card id' }, { status: 400 })
+    }
+
+    const rl = await checkRateLimit(`answer-card-reverify:${getClientId(request)}`, RATE_LIMITS.general)
+    if (!rl.success) {
+      return NextResponse.json(
+        { error: 'Too many requests', retryAfter: rl.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(rl.retryAfter ?? 0) } }
+      )
+    }
+
+    const session = await verifySession()
+    let loaded = null
+    if (session?.userId && session.userId !== 'anonymous') {
+      loaded = await getAnswerCardForUser(id, session.userId)
+    }
+    loaded ??= await getPublicAnswerCardById(id)
+    if (!loaded) {
+      return NextResponse.json({ error: 'Answer card not found' }, { status: 404 })
+    }
+
+    const report = loaded.signatureValid ? await reverifyCard(loaded.card) : null
+    if (!report) {
+      return NextResponse.json(
+        {
+          error:
+            loaded.signatureStatus === 'key_revoked'
+              ? 'Card was signed with a revoked key — it cannot be re-verified.'
+              : 'Card signature is invalid — it cannot be re-verified.',
+          signatureValid: false,
+          signatureStatus: loaded.signatureStatus,
+        },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ id, signatureValid: true, ...report })
+  } catch (err: unknown) {
+    console.error('GET /api/answer-cards/[id]/reverify error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Answer Card Public Key Set — GET
+ *
+ * Publishes the Ed25519 public keys (current + retired) that answer cards are
+ * signed with, as a JWK set with a per-key rotation status. Anyone holding a
+ * card and this document can verify it offline with
+ * lib/answer-cards/verify-offline.ts#verifyAnswerCardOffline — no server secret.
+ *
+ * SECURITY: public keys only; the private key never leaves signing-keys.ts.
+ * Legacy HMAC cards are not verifiable from this set (server-only).
+ */
+
+import { NextResponse } from 'next/server'
+import { getPublishedKeySet } from '@/lib/answer-cards/signing-keys'
+
+export async function GET() {
+  try {
+    const keySet = await getPublishedKeySet()
+    return NextResponse.json(keySet, {
+      headers: {
+        'Cache-Control': 'public, max-age=300',
+        'Access-Control-Allow-Origin': '*',
+      },
+    })
+  } catch (err: unknown) {
+    console.error('GET /api/answer-cards/keys error:', err)
+    return NextResponse.json({ error: 'Key set unavailable' }, { status: 500 })
+  }
+}
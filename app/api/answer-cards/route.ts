@@ -36,7 +36,7 @@ export async function POST(request: NextRequest) {
 
     // Rate-limit BEFORE parsing/verifying so even invalid attempts consume quota
     // — an attacker can't burn parse/HMAC CPU for free by spamming bad cards.
-    const rl = checkRateLimit(`answer-card-save:${session.userId}`, SAVE_LIMIT)
+    const rl = await checkRateLimit(`answer-card-save:${session.userId}`, SAVE_LIMIT)
     if (!rl.success) {
       return NextResponse.json(
         { error: 'Daily save limit reached. Please try again tomorrow.', retryAfter: rl.retryAfter },
@@ -0,0 +1,48 @@
+/**
+ * Developer API Key Single-Item API — DELETE (revoke)
+ *
+ * SECURITY:
+ * - verifySession() required
+ * - Revocation enforces aiverid_id match (no IDOR)
+ * - Revoked keys stay listed with their usage but never authenticate again
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { verifySession } from '@/lib/auth/session'
+import { isValidOrigin } from '@/lib/auth/origin-check'
+import { getApiKeyStore } from '@/lib/supabase/api-keys'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    if (!isValidOrigin(request)) {
+      return NextResponse.json({ error: 'Invalid origin' }, { status: 403 })
+    }
+
+    const session = await verifySession()
+    if (!session?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!UUID_REGEX.test(id)) {
+      return NextResponse.json({ error: 'Invalid API key id' }, { status: 400 })
+    }
+
+    const revoked = await getApiKeyStore().revoke(id, session.userId)
+    if (!revoked) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err: unknown) {
+    console.error('DELETE /api/api-keys/[id] error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Developer API Keys API — POST (create) + GET (list user's keys with usage)
+ *
+ * SECURITY:
+ * - verifySession() required for all operations
+ * - aiverid_id from session, tier from session + Stripe subscription
+ *   (as resolveEntitledTier, never from client input) — the same tier every
+ *   key request is counted against
+ * - The plaintext key is returned once, by POST; only its hash is stored
+ * - Only tiers with an API quota (Professional+) can create keys
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { verifySession } from '@/lib/auth/session'
+import { isValidOrigin } from '@/lib/auth/origin-check'
+import { getApiKeyStore } from '@/lib/supabase/api-keys'
+import { resolveSubscriptionTier } from '@/lib/supabase/entitlements'
+import {
+  API_KEY_DISPLAY_LENGTH,
+  MAX_ACTIVE_KEYS_PER_USER,
+  apiKeyMonthlyLimit,
+  canCreateApiKeys,
+  generateApiKey,
+  hashApiKey,
+  toApiKeySummary,
+  validateApiKeyName,
+} from '@/lib/api-keys'
+import { higherTier } from '@/lib/entitlements'
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isValidOrigin(request)) {
+      return NextResponse.json({ error: 'Invalid origin' }, { status: 403 })
+    }
+
+    const session = await verifySession()
+    if (!session?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const subscriptionTier = await resolveSubscriptionTier(session.userId)
+    if (!canCreateApiKeys(higherTier(session.tier, subscriptionTier))) {
+      return NextResponse.json(
+        { error: 'API keys require a Professional or Enterprise plan' },
+        { status: 403 }
+      )
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 })
+    }
+
+    const name = validateApiKeyName((body as Record<string, unknown>).name)
+    if ('error' in name) {
+      return NextResponse.json({ error: name.error }, { status: 400 })
+    }
+
+    const store = getApiKeyStore()
+    const existing = await store.listByUser(session.userId)
+    if (existing.filter((k) => !k.revoked_at).length >= MAX_ACTIVE_KEYS_PER_USER) {
+      return NextResponse.json(
+        { error: `At most ${MAX_ACTIVE_KEYS_PER_USER} active keys; revoke one first` },
+        { status: 409 }
+      )
+    }
+
+    const key = generateApiKey()
+    const record = await store.create({
+      aiverid_id: session.userId,
+      name: name.name,
+      tier: session.tier,
+      prefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+      key_hash: await hashApiKey(key),
+    })
+
+    return NextResponse.json(
+      { ...toApiKeySummary(record, new Date(), subscriptionTier), key },
+      { status: 201 }
+    )
+  } catch (err: unknown) {
+    console.error('POST /api/api-keys error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function GET(_request: NextRequest) {
+  try {
+    const session = await verifySession()
+    if (!session?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [keys, subscriptionTier] = await Promise.all([
+      getApiKeyStore().listByUser(session.userId),
+      resolveSubscriptionTier(session.userId),
+    ])
+    const tier = higherTier(session.tier, subscriptionTier)
+    const now = new Date()
+    return NextResponse.json({
+      tier,
+      monthlyLimit: apiKeyMonthlyLimit(tier),
+      canCreate: canCreateApiKeys(tier),
+      maxActiveKeys: MAX_ACTIVE_KEYS_PER_USER,
+      keys: keys.map((record) => toApiKeySummary(record, now, subscriptionTier)),
+    })
+  } catch (err: unknown) {
+    console.error('GET /api/api-keys error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
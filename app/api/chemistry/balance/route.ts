@@ -0,0 +1,232 @@
+/**
+ * VerChem Chemistry API - Equation Balancer
+ *
+ * POST /api/chemistry/balance
+ * Body: { "equation": "Fe + O2 -> Fe2O3", "netIonic"?: boolean }
+ *
+ * Returns the coefficients, the balanced equation, a per-element atom count
+ * for each side (so clients can verify the balance themselves) and the
+ * reaction type. Arrows: ->, =>, = or →. State symbols (s)/(l)/(g)/(aq),
+ * parentheses like Ca(OH)2, ions (Fe3+, MnO4-, [Cu(NH3)4]2+) and electrons
+ * (e-) are accepted; with ions the verification also compares total charge.
+ * `netIonic: true` adds the complete and net ionic equations and the
+ * spectator ions (lib/calculations/net-ionic.ts).
+ *
+ * The body is validated against BALANCE_ROUTE (lib/chemistry-api/routes.ts).
+ * An equation with no unique answer (no balance at all, a species that takes
+ * no part or sits on the wrong side, or several independent reactions) is a
+ * CANNOT_BALANCE with the `reason` and the basis `reactions`.
+ *
+ * Errors are { error, code, ... } with a stable machine-readable `code`:
+ *   INVALID_JSON, INVALID_BODY, UNKNOWN_FIELD, MISSING_EQUATION,
+ *   EQUATION_TOO_LONG, FORMULA_TOO_LONG, INVALID_EQUATION, UNKNOWN_ELEMENT (400),
+ *   CANNOT_BALANCE (422), BALANCE_FAILED (500)
+ *
+ * Created: 2026-10-18
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  balanceEquation,
+  getReactionTypeLabel,
+  identifyReactionType,
+  splitSpecies,
+} from '@/lib/calculations/equation-balancer';
+import { generateNetIonicEquation } from '@/lib/calculations/net-ionic';
+import { ChemistryApiError } from '@/lib/chemistry-api/errors';
+import { BALANCE_ROUTE } from '@/lib/chemistry-api/routes';
+import { validateBody } from '@/lib/chemistry-api/schema';
+import { withApiRateLimit } from '@/lib/chemistry-api/with-rate-limit';
+import { PERIODIC_TABLE } from '@/lib/data/periodic-table';
+
+// Same per-formula limit as /api/chemistry/molar-mass; an equation holds a
+// handful of formulas plus arrows and separators.
+const MAX_FORMULA_LENGTH = 100;
+const MAX_EQUATION_LENGTH = BALANCE_ROUTE.body.equation.maxLength;
+
+const EXAMPLE = BALANCE_ROUTE.example;
+
+const ELEMENT_SYMBOLS = new Set(PERIODIC_TABLE.map((e) => e.symbol));
+
+// Leading coefficient, body, optional charge (2+, ^2+, ^{2+}, ²⁺), optional
+// state symbol — mirrors what the engine strips.
+const SPECIES_PATTERN =
+  /^(\d+\s*)?([A-Za-z0-9()[\]]+?)(\s*\d*[+-]|\^\{?\d*[+-]\}?|\{\d*[+-]\}|[⁰¹²³⁴⁵⁶⁷⁸⁹]*[⁺⁻])?(\((?:aq|s|l|g)\))?$/i;
+
+function errorResponse(
+  status: number,
+  code: string,
+  error: string,
+  extra: Record<string, unknown> = {}
+) {
+  return NextResponse.json(
+    { error, code, ...extra },
+    { status, headers: { 'X-API-Version': '1.0.0' } }
+  );
+}
+
+function netIonicSummary(equation: string) {
+  const result = generateNetIonicEquation(equation);
+  return {
+    molecular: result.molecular,
+    completeIonic: result.completeIonic,
+    netIonic: result.netIonic,
+    noReaction: result.noReaction,
+    spectators: result.spectators.map(({ formula, coefficient }) => ({ formula, coefficient })),
+    species: [...result.reactants, ...result.products].map((s) => ({
+      formula: s.formula,
+      state: s.state ?? null,
+      dissociates: s.dissociates,
+      reason: s.reason,
+    })),
+  };
+}
+
+export const POST = withApiRateLimit(async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(400, 'INVALID_JSON', 'Request body must be valid JSON', { example: EXAMPLE });
+  }
+
+  let raw: string;
+  let netIonic: boolean;
+  try {
+    const fields = validateBody(body, BALANCE_ROUTE.body);
+    raw = fields.equation as string;
+    netIonic = fields.netIonic as boolean;
+  } catch (err) {
+    if (!(err instanceof ChemistryApiError)) throw err;
+    // The equation field keeps its own codes from before the shared schema.
+    if (err.details.field !== 'equation') {
+      return errorResponse(err.status, err.code, err.message, err.details);
+    }
+    const equation = (body as Record<string, unknown>).equation;
+    if (typeof equation === 'string' && equation.length > MAX_EQUATION_LENGTH) {
+      return errorResponse(
+        400,
+        'EQUATION_TOO_LONG',
+        `Equation too long (max ${MAX_EQUATION_LENGTH} characters)`
+      );
+    }
+    return errorResponse(400, 'MISSING_EQUATION', 'Missing equation (non-empty string)', { example: EXAMPLE });
+  }
+
+  // "=>" would otherwise split at "=" and leak ">" into the first product.
+  const equation = raw.replace(/=>/g, '->');
+
+  const sides = equation.split(/->|→|=/);
+  if (sides.length !== 2) {
+    return errorResponse(
+      400,
+      'INVALID_EQUATION',
+      'Equation must have exactly one arrow (->, =>, = or →) between reactants and products',
+      { equation: raw }
+    );
+  }
+
+  // Every term must be a formula: catches "H2 + + O2", trailing "+", bad characters.
+  for (const side of sides) {
+    for (const term of splitSpecies(side)) {
+      if (term === '') {
+        return errorResponse(400, 'INVALID_EQUATION', 'Equation contains an empty term', { equation: raw });
+      }
+      const match = SPECIES_PATTERN.exec(term);
+      if (!match) {
+        return errorResponse(400, 'INVALID_EQUATION', `Invalid formula: "${term}"`, { equation: raw });
+      }
+      const charged = match[3] !== undefined;
+      if (charged && match[2] === 'e') continue; // the electron
+      if (match[2].length > MAX_FORMULA_LENGTH) {
+        return errorResponse(
+          400,
+          'FORMULA_TOO_LONG',
+          `Formula too long (max ${MAX_FORMULA_LENGTH} characters)`,
+          { formula: term }
+        );
+      }
+      const unknown = [...match[2].matchAll(/[A-Z][a-z]?/g)]
+        .map((m) => m[0])
+        .find((symbol) => !ELEMENT_SYMBOLS.has(symbol));
+      if (unknown || /^[a-z]/.test(match[2])) {
+        return errorResponse(400, 'UNKNOWN_ELEMENT', `Unknown element in "${term}"`, {
+          formula: term,
+          ...(unknown && { element: unknown }),
+        });
+      }
+    }
+  }
+
+  try {
+    const result = balanceEquation(equation);
+
+    if (!result.isBalanced || result.coefficients.length === 0) {
+      const space = result.solutionSpace;
+      return errorResponse(
+        422,
+        'CANNOT_BALANCE',
+        space && space.dimension > 1
+          ? 'The coefficients are not unique: several independent reactions balance these species'
+          : 'No balanced set of whole-number coefficients exists for this equation',
+        {
+          equation: raw,
+          hint: 'Check that every element appears on both sides and the formulas are correct.',
+          ...(space && {
+            reason: space.reason,
+            independentReactions: space.dimension,
+            reactions: space.reactions,
+          }),
+        }
+      );
+    }
+
+    const type = identifyReactionType(equation);
+    const { label, description } = getReactionTypeLabel(type);
+    const offset = result.reactants.length;
+
+    return NextResponse.json(
+      {
+        success: true,
+        equation: raw,
+        balanced: result.balanced,
+        coefficients: result.coefficients,
+        reactants: result.reactants.map((formula, i) => ({
+          formula,
+          coefficient: result.coefficients[i],
+        })),
+        products: result.products.map((formula, i) => ({
+          formula,
+          coefficient: result.coefficients[offset + i],
+        })),
+        verification: {
+          balanced: result.isBalanced,
+          elements: Object.entries(result.atoms).map(([element, counts]) => ({
+            element,
+            reactants: counts.reactants,
+            products: counts.products,
+            balanced: counts.reactants === counts.products,
+          })),
+          ...(result.charge && {
+            charge: {
+              reactants: result.charge.reactants,
+              products: result.charge.products,
+              balanced: result.charge.reactants === result.charge.products,
+            },
+          }),
+        },
+        reactionType: { type, label, description },
+        ...(netIonic && { netIonic: netIonicSummary(equation) }),
+        timestamp: new Date().toISOString(),
+      },
+      {
+        headers: {
+          'X-API-Version': '1.0.0',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('POST /api/chemistry/balance error:', error);
+    return errorResponse(500, 'BALANCE_FAILED', 'Equation balancing failed');
+  }
+});
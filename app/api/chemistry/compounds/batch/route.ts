@@ -0,0 +1,28 @@
+/**
+ * VerChem Chemistry API - Batch Compound Lookup
+ *
+ * POST /api/chemistry/compounds/batch
+ * Body: { "items": [{ "query": "water" }, { "query": "7647-14-5", "by": "cas" }] }
+ *
+ * Up to BATCH_MAX_ITEMS lookups per request by name, formula or CAS number
+ * (lookupCompound in lib/compound-integration.ts). An item with no match
+ * fails only itself (NOT_FOUND); see lib/chemistry-api/batch.ts for the
+ * result shape.
+ *
+ * Created: 2026-10-18
+ */
+
+import { batchHandler } from '@/lib/chemistry-api/batch';
+import { findCompound } from '@/lib/chemistry-api/compounds';
+import { COMPOUNDS_BATCH_ROUTE } from '@/lib/chemistry-api/routes';
+import { withApiRateLimit } from '@/lib/chemistry-api/with-rate-limit';
+import type { CompoundLookupKind } from '@/lib/compound-integration';
+
+export const POST = withApiRateLimit(
+  batchHandler(COMPOUNDS_BATCH_ROUTE.body, (item) =>
+    findCompound({
+      query: item.query as string,
+      by: item.by as CompoundLookupKind | 'auto',
+    })
+  )
+);
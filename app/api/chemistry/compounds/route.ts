@@ -5,59 +5,34 @@
  * GET /api/chemistry/compounds?q=water - Search by name/formula
  * GET /api/chemistry/compounds?category=acid - Filter by category
  * GET /api/chemistry/compounds?id=h2o - Get specific compound
+ * POST /api/chemistry/compounds/batch - Look up many by name, formula or CAS
+ *
+ * Query parameters are declared and validated by COMPOUNDS_ROUTE
+ * (lib/chemistry-api/routes.ts).
  *
  * Created: 2026-01-29
  * Author: สมนึก (Claude Opus 4.5)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { formatCompound } from '@/lib/chemistry-api/compounds';
+import { ChemistryApiError, errorBody } from '@/lib/chemistry-api/errors';
+import { COMPOUNDS_ROUTE } from '@/lib/chemistry-api/routes';
+import { validateQuery } from '@/lib/chemistry-api/schema';
+import { withApiRateLimit } from '@/lib/chemistry-api/with-rate-limit';
 import { COMMON_COMPOUNDS } from '@/lib/data/compounds';
 
-// Simplified compound response
-interface CompoundResponse {
-  id: string;
-  name: string;
-  formula: string;
-  molecularMass: number | null;
-  casNumber: string | null;
-  category: string;
-  physicalProperties: {
-    state: string;
-    meltingPoint: number | null;
-    boilingPoint: number | null;
-    density: number | null;
-  };
-  hazards: string[];
-  uses: string[];
-}
-
-function formatCompound(compound: typeof COMMON_COMPOUNDS[0]): CompoundResponse {
-  return {
-    id: compound.id,
-    name: compound.name,
-    formula: compound.formula,
-    molecularMass: compound.molarMass ?? compound.molecularMass ?? null,
-    casNumber: compound.casNumber || compound.cas || null,
-    category: compound.category,
-    physicalProperties: {
-      state: compound.physicalState || 'unknown',
-      meltingPoint: compound.meltingPoint ?? null,
-      boilingPoint: compound.boilingPoint ?? null,
-      density: compound.density ?? null,
-    },
-    hazards: (compound.hazards || []).map((h) =>
-      typeof h === 'string' ? h : (h as { type?: string; ghsCode?: string }).type || (h as { type?: string; ghsCode?: string }).ghsCode || ''
-    ).filter(Boolean),
-    uses: compound.uses || [],
-  };
-}
-
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const query = searchParams.get('q');
-  const category = searchParams.get('category');
-  const id = searchParams.get('id');
-  const limit = searchParams.get('limit');
+export const GET = withApiRateLimit(async (request: NextRequest) => {
+  let input: Record<string, unknown>;
+  try {
+    input = validateQuery(request.nextUrl.searchParams, COMPOUNDS_ROUTE.query);
+  } catch (err) {
+    if (!(err instanceof ChemistryApiError)) throw err;
+    return NextResponse.json(errorBody(err), { status: err.status });
+  }
+  const query = input.q as string | undefined;
+  const category = input.category as string | undefined;
+  const id = input.id as string | undefined;
 
   // Get specific compound by ID
   if (id) {
@@ -113,19 +88,8 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  // Apply limit — reject non-positive / non-integer (e.g. limit=-5 would make
-  // slice(0,-5) drop the last 5 while reporting count:-5, an API-contract lie).
-  let maxLimit = 50;
-  if (limit !== null && limit !== '') {
-    const parsedLimit = Number(limit);
-    if (!Number.isInteger(parsedLimit) || parsedLimit < 1) {
-      return NextResponse.json(
-        { error: 'Invalid limit - must be a positive integer' },
-        { status: 400 }
-      );
-    }
-    maxLimit = Math.min(parsedLimit, 100);
-  }
+  // The schema requires limit >= 1, so slice() never sees a negative bound.
+  const maxLimit = Math.min(input.limit as number, 100);
 
   // Get all categories
   const categories = [...new Set(COMMON_COMPOUNDS.map((c) => c.category))].sort();
@@ -151,4 +115,4 @@ export async function GET(request: NextRequest) {
       },
     }
   );
-}
+});
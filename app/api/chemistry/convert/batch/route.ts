@@ -0,0 +1,29 @@
+/**
+ * VerChem Chemistry API - Batch Unit Conversion
+ *
+ * POST /api/chemistry/convert/batch
+ * Body: { "items": [{ "value": 100, "from": "C", "to": "F", "category": "temperature" }] }
+ *
+ * Up to BATCH_MAX_ITEMS conversions per request, each in its own category.
+ * A unit outside its category fails only its own item (INVALID_FIELD); see
+ * lib/chemistry-api/batch.ts for the result shape.
+ *
+ * Created: 2026-10-18
+ */
+
+import type { ConversionCategory } from '@/lib/units/conversions';
+import { batchHandler } from '@/lib/chemistry-api/batch';
+import { convertUnits } from '@/lib/chemistry-api/convert';
+import { CONVERT_BATCH_ROUTE } from '@/lib/chemistry-api/routes';
+import { withApiRateLimit } from '@/lib/chemistry-api/with-rate-limit';
+
+export const POST = withApiRateLimit(
+  batchHandler(CONVERT_BATCH_ROUTE.body, (item) =>
+    convertUnits({
+      value: item.value as number,
+      from: item.from as string,
+      to: item.to as string,
+      category: item.category as ConversionCategory,
+    })
+  )
+);
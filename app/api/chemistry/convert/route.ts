@@ -13,138 +13,51 @@
  * - amount (mol, mmol, umol)
  * - concentration (M, mM, gL, mgL, ppm)
  *
+ * Query parameters are declared and validated by CONVERT_ROUTE
+ * (lib/chemistry-api/routes.ts); OPTIONS lists CONVERT_UNITS.
+ * POST /api/chemistry/convert/batch converts many values at once.
+ *
  * Created: 2026-01-29
  * Author: สมนึก (Claude Opus 4.5)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import {
-  convert,
-  formatValue,
-  type ConversionCategory,
-} from '@/lib/units/conversions';
-import {
-  TEMPERATURE_UNITS,
-  PRESSURE_UNITS,
-  VOLUME_UNITS,
-  MASS_UNITS,
-  LENGTH_UNITS,
-  ENERGY_UNITS,
-  AMOUNT_UNITS,
-  CONCENTRATION_UNITS,
-} from '@/lib/units/types';
-
-// Available units per category
-const AVAILABLE_UNITS: Record<ConversionCategory, string[]> = {
-  temperature: Object.keys(TEMPERATURE_UNITS),
-  pressure: Object.keys(PRESSURE_UNITS),
-  volume: Object.keys(VOLUME_UNITS),
-  mass: Object.keys(MASS_UNITS),
-  length: Object.keys(LENGTH_UNITS),
-  energy: Object.keys(ENERGY_UNITS),
-  amount: Object.keys(AMOUNT_UNITS),
-  concentration: Object.keys(CONCENTRATION_UNITS),
-  density: ['kgm3', 'gcm3', 'gmL', 'kgL', 'lbft3', 'lbgal'],
-  time: ['s', 'ms', 'us', 'ns', 'min', 'h', 'd'],
-  flowRate: ['m3s', 'm3h', 'm3d', 'Ls', 'Lmin', 'gpm', 'MGD'],
-};
-
-const CATEGORIES = Object.keys(AVAILABLE_UNITS) as ConversionCategory[];
+import type { ConversionCategory } from '@/lib/units/conversions';
+import { convertUnits } from '@/lib/chemistry-api/convert';
+import { ChemistryApiError, errorBody } from '@/lib/chemistry-api/errors';
+import { CONVERT_ROUTE, CONVERT_UNITS } from '@/lib/chemistry-api/routes';
+import { validateQuery } from '@/lib/chemistry-api/schema';
+import { withApiRateLimit } from '@/lib/chemistry-api/with-rate-limit';
 
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const value = searchParams.get('value');
-  const from = searchParams.get('from');
-  const to = searchParams.get('to');
-  const category = searchParams.get('category') as ConversionCategory | null;
+const CATEGORIES = Object.keys(CONVERT_UNITS) as ConversionCategory[];
 
-  // Validate required parameters
-  if (!value || !from || !to || !category) {
+export const GET = withApiRateLimit(async (request: NextRequest) => {
+  let input: Record<string, unknown>;
+  try {
+    input = validateQuery(request.nextUrl.searchParams, CONVERT_ROUTE.query);
+  } catch (err) {
+    if (!(err instanceof ChemistryApiError)) throw err;
     return NextResponse.json(
       {
-        error: 'Missing required parameters',
-        required: ['value', 'from', 'to', 'category'],
+        ...errorBody(err),
         example: '/api/chemistry/convert?value=100&from=C&to=F&category=temperature',
         categories: CATEGORIES,
       },
-      { status: 400 }
-    );
-  }
-
-  // Validate category
-  if (!CATEGORIES.includes(category)) {
-    return NextResponse.json(
-      {
-        error: 'Invalid category',
-        category,
-        availableCategories: CATEGORIES,
-      },
-      { status: 400 }
-    );
-  }
-
-  // Validate units for category
-  const availableUnits = AVAILABLE_UNITS[category];
-  if (!availableUnits.includes(from)) {
-    return NextResponse.json(
-      {
-        error: `Invalid "from" unit for ${category}`,
-        from,
-        availableUnits,
-      },
-      { status: 400 }
-    );
-  }
-  if (!availableUnits.includes(to)) {
-    return NextResponse.json(
-      {
-        error: `Invalid "to" unit for ${category}`,
-        to,
-        availableUnits,
-      },
-      { status: 400 }
-    );
-  }
-
-  // Parse value — strict: reject trailing junk ("1abc"), Infinity, and overflow
-  // ("1e309"→Infinity). parseFloat would accept "1abc" as 1; Number() does not.
-  const numericValue = Number(value.trim());
-  if (value.trim() === '' || !Number.isFinite(numericValue)) {
-    return NextResponse.json(
-      {
-        error: 'Invalid value - must be a finite number',
-        value,
-      },
-      { status: 400 }
+      { status: err.status }
     );
   }
 
   // Perform conversion
   try {
-    const result = convert(numericValue, from, to, category);
-
-    // Guard the computed result: a finite input can still overflow on conversion
-    // (e.g. 1e308 atm → Pa = Infinity). Never serialize a non-finite number.
-    if (!Number.isFinite(result)) {
-      return NextResponse.json(
-        { error: 'Conversion result out of representable range', value },
-        { status: 400 }
-      );
-    }
-
     return NextResponse.json(
       {
         success: true,
-        input: {
-          value: numericValue,
-          unit: from,
-        },
-        output: {
-          value: result,
-          unit: to,
-          formatted: formatValue(result),
-        },
-        category,
+        ...convertUnits({
+          value: input.value as number,
+          from: input.from as string,
+          to: input.to as string,
+          category: input.category as ConversionCategory,
+        }),
         timestamp: new Date().toISOString(),
       },
       {
@@ -155,6 +68,10 @@ export async function GET(request: NextRequest) {
       }
     );
   } catch (error) {
+    // Units outside the category, or a result too large to represent.
+    if (error instanceof ChemistryApiError) {
+      return NextResponse.json(errorBody(error), { status: error.status });
+    }
     return NextResponse.json(
       {
         error: 'Conversion failed',
@@ -163,14 +80,14 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // List available categories and units
-export async function OPTIONS() {
+export const OPTIONS = withApiRateLimit(async () => {
   return NextResponse.json({
     categories: CATEGORIES.map((cat) => ({
       name: cat,
-      units: AVAILABLE_UNITS[cat],
+      units: CONVERT_UNITS[cat],
     })),
   });
-}
+});
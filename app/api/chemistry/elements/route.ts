@@ -6,11 +6,18 @@
  * GET /api/chemistry/elements?number=11 - Get by atomic number
  * GET /api/chemistry/elements?category=alkali-metal - Filter by category
  *
+ * Query parameters are declared and validated by ELEMENTS_ROUTE
+ * (lib/chemistry-api/routes.ts).
+ *
  * Created: 2026-01-29
  * Author: สมนึก (Claude Opus 4.5)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { ChemistryApiError, errorBody } from '@/lib/chemistry-api/errors';
+import { ELEMENTS_ROUTE } from '@/lib/chemistry-api/routes';
+import { validateQuery } from '@/lib/chemistry-api/schema';
+import { withApiRateLimit } from '@/lib/chemistry-api/with-rate-limit';
 import { PERIODIC_TABLE } from '@/lib/data/periodic-table';
 
 // Simplified element response
@@ -50,12 +57,18 @@ function formatElement(element: typeof PERIODIC_TABLE[0]): ElementResponse {
   };
 }
 
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const symbol = searchParams.get('symbol');
-  const number = searchParams.get('number');
-  const category = searchParams.get('category');
-  const limit = searchParams.get('limit');
+export const GET = withApiRateLimit(async (request: NextRequest) => {
+  let input: Record<string, unknown>;
+  try {
+    input = validateQuery(request.nextUrl.searchParams, ELEMENTS_ROUTE.query);
+  } catch (err) {
+    if (!(err instanceof ChemistryApiError)) throw err;
+    return NextResponse.json(errorBody(err), { status: err.status });
+  }
+  const symbol = input.symbol as string | undefined;
+  const atomicNumber = input.number as number | undefined;
+  const category = input.category as string | undefined;
+  const limit = input.limit as number | undefined;
 
   // Get specific element by symbol
   if (symbol) {
@@ -90,18 +103,7 @@ export async function GET(request: NextRequest) {
   }
 
   // Get specific element by atomic number
-  if (number) {
-    const atomicNumber = parseInt(number, 10);
-    if (isNaN(atomicNumber) || atomicNumber < 1 || atomicNumber > 118) {
-      return NextResponse.json(
-        {
-          error: 'Invalid atomic number',
-          hint: 'Atomic number must be between 1 and 118',
-        },
-        { status: 400 }
-      );
-    }
-
+  if (atomicNumber !== undefined) {
     const element = PERIODIC_TABLE.find((e) => e.atomicNumber === atomicNumber);
 
     if (!element) {
@@ -150,19 +152,8 @@ export async function GET(request: NextRequest) {
     }
   }
 
-  // Apply limit — reject non-positive / non-integer (e.g. limit=-5 would make
-  // slice(0,-5) drop the last 5 while reporting count:-5, an API-contract lie).
-  let maxLimit = 118;
-  if (limit !== null && limit !== '') {
-    const parsedLimit = Number(limit);
-    if (!Number.isInteger(parsedLimit) || parsedLimit < 1) {
-      return NextResponse.json(
-        { error: 'Invalid limit - must be a positive integer' },
-        { status: 400 }
-      );
-    }
-    maxLimit = Math.min(parsedLimit, 118);
-  }
+  // The schema requires limit >= 1, so slice() never sees a negative bound.
+  const maxLimit = Math.min(limit ?? 118, 118);
 
   return NextResponse.json(
     {
@@ -180,4 +171,4 @@ export async function GET(request: NextRequest) {
       },
     }
   );
-}
+});
@@ -0,0 +1,21 @@
+/**
+ * VerChem Chemistry API - Batch Molar Mass
+ *
+ * POST /api/chemistry/molar-mass/batch
+ * Body: { "items": [{ "formula": "H2O" }, { "formula": "C6H12O6" }] }
+ *
+ * Up to BATCH_MAX_ITEMS formulas per request, each with its molar mass and
+ * percent composition. An invalid formula fails only its own item
+ * (INVALID_FORMULA); see lib/chemistry-api/batch.ts for the result shape.
+ *
+ * Created: 2026-10-18
+ */
+
+import { batchHandler } from '@/lib/chemistry-api/batch';
+import { molarMassOf } from '@/lib/chemistry-api/molar-mass';
+import { MOLAR_MASS_BATCH_ROUTE } from '@/lib/chemistry-api/routes';
+import { withApiRateLimit } from '@/lib/chemistry-api/with-rate-limit';
+
+export const POST = withApiRateLimit(
+  batchHandler(MOLAR_MASS_BATCH_ROUTE.body, (item) => molarMassOf(item.formula as string))
+);
@@ -2,138 +2,49 @@
  * VerChem Chemistry API - Molar Mass Calculator
  *
  * GET /api/chemistry/molar-mass?formula=H2O
+ * POST /api/chemistry/molar-mass/batch for many formulas at once.
+ *
+ * Query parameters are declared and validated by MOLAR_MASS_ROUTE
+ * (lib/chemistry-api/routes.ts).
  *
  * Created: 2026-01-29
  * Author: สมนึก (Claude Opus 4.5)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { PERIODIC_TABLE } from '@/lib/data/periodic-table';
-
-// Parse chemical formula and calculate molar mass
-function parseMolarMass(formula: string): {
-  mass: number;
-  composition: Array<{ element: string; count: number; mass: number; percentage: number }>;
-  formula: string;
-} | null {
-  if (!formula || typeof formula !== 'string') {
-    return null;
-  }
-
-  // Clean the formula
-  const cleanFormula = formula.trim();
-  if (!cleanFormula) {
-    return null;
-  }
-
-  // Reject formulas with characters we can't handle correctly
-  if (/[()]/.test(cleanFormula)) {
-    return null; // Parenthesized formulas like Ca(OH)2 not supported by this simple API
-  }
-
-  // Validate formula only contains element symbols and digits
-  if (!/^([A-Z][a-z]?\d*)+$/.test(cleanFormula)) {
-    return null;
-  }
-
-  // Parse formula using regex
-  // Matches: Element symbol (1-2 letters, first uppercase) followed by optional number
-  const regex = /([A-Z][a-z]?)(\d*)/g;
-  const matches = [...cleanFormula.matchAll(regex)];
-
-  if (matches.length === 0) {
-    return null;
-  }
-
-  // Verify the parsed tokens reconstruct the full formula
-  const reconstructed = matches.map(m => m[0]).join('');
-  if (reconstructed !== cleanFormula) {
-    return null;
-  }
-
-  const composition: Array<{ element: string; count: number; mass: number; percentage: number }> = [];
-  let totalMass = 0;
-
-  for (const match of matches) {
-    const symbol = match[1];
-    const count = match[2] ? parseInt(match[2], 10) : 1;
-
-    if (!symbol) continue;
-    // Reject zero / leading-zero counts (e.g. "H0", "H00", "H02"): a count of 0
-    // yields mass 0 and a NaN% composition, which must never be returned as valid.
-    if (match[2] && !/^[1-9]\d*$/.test(match[2])) {
-      return null;
-    }
-
-    // Find element in periodic table
-    const element = PERIODIC_TABLE.find((e) => e.symbol === symbol);
-    if (!element) {
-      return null; // Unknown element
-    }
-
-    const elementMass = element.atomicMass * count;
-    totalMass += elementMass;
-
-    composition.push({
-      element: symbol,
-      count,
-      mass: elementMass,
-      percentage: 0, // Will calculate after total
-    });
-  }
-
-  // Guard against a zero / non-finite total mass before computing percentages
-  // (would otherwise produce NaN% and a meaningless molarMass: 0).
-  if (!(totalMass > 0) || !Number.isFinite(totalMass)) {
-    return null;
-  }
-
-  // Calculate percentages
-  for (const comp of composition) {
-    comp.percentage = (comp.mass / totalMass) * 100;
-  }
-
-  return {
-    mass: totalMass,
-    composition,
-    formula: cleanFormula,
-  };
-}
-
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const formula = searchParams.get('formula');
-
-  // Validate input
-  if (!formula) {
-    return NextResponse.json(
-      {
-        error: 'Missing formula parameter',
-        example: '/api/chemistry/molar-mass?formula=H2O',
-      },
-      { status: 400 }
-    );
-  }
-
-  // Validate formula length (prevent DoS)
-  if (formula.length > 100) {
+import { ChemistryApiError, errorBody } from '@/lib/chemistry-api/errors';
+import {
+  MOLAR_MASS_ERROR,
+  MOLAR_MASS_HINT,
+  formatMolarMass,
+  parseMolarMass,
+} from '@/lib/chemistry-api/molar-mass';
+import { MOLAR_MASS_ROUTE } from '@/lib/chemistry-api/routes';
+import { validateQuery } from '@/lib/chemistry-api/schema';
+import { withApiRateLimit } from '@/lib/chemistry-api/with-rate-limit';
+
+export const GET = withApiRateLimit(async (request: NextRequest) => {
+  let input: Record<string, unknown>;
+  try {
+    input = validateQuery(request.nextUrl.searchParams, MOLAR_MASS_ROUTE.query);
+  } catch (err) {
+    if (!(err instanceof ChemistryApiError)) throw err;
     return NextResponse.json(
-      {
-        error: 'Formula too long (max 100 characters)',
-      },
-      { status: 400 }
+      { ...errorBody(err), example: '/api/chemistry/molar-mass?formula=H2O' },
+      { status: err.status }
     );
   }
 
   // Calculate molar mass
+  const formula = input.formula as string;
   const result = parseMolarMass(formula);
 
   if (!result) {
     return NextResponse.json(
       {
-        error: 'Invalid formula or unknown element',
+        error: MOLAR_MASS_ERROR,
         formula,
-        hint: 'Use standard element symbols without parentheses (e.g., H2O, NaCl, H2SO4). Parenthesized formulas like Ca(OH)2 are not supported — use CaO2H2 instead.',
+        hint: MOLAR_MASS_HINT,
       },
       { status: 400 }
     );
@@ -142,24 +53,7 @@ export async function GET(request: NextRequest) {
   return NextResponse.json(
     {
       success: true,
-      formula: result.formula,
-      molarMass: {
-        value: result.mass,
-        unit: 'g/mol',
-        formatted: `${result.mass.toFixed(4)} g/mol`,
-      },
-      composition: result.composition.map((c) => ({
-        element: c.element,
-        count: c.count,
-        mass: {
-          value: c.mass,
-          unit: 'g/mol',
-        },
-        percentage: {
-          value: c.percentage,
-          formatted: `${c.percentage.toFixed(2)}%`,
-        },
-      })),
+      ...formatMolarMass(result),
       timestamp: new Date().toISOString(),
     },
     {
@@ -169,4 +63,4 @@ export async function GET(request: NextRequest) {
       },
     }
   );
-}
+});
@@ -0,0 +1,23 @@
+/**
+ * VerChem Chemistry API - OpenAPI Document
+ *
+ * GET /api/chemistry/openapi.json - OpenAPI 3.1 description of every
+ * /api/chemistry route, generated from lib/chemistry-api/routes.ts (the specs
+ * the handlers validate with) and the v1 operation registry.
+ *
+ * Created: 2026-10-18
+ */
+
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/chemistry-api/openapi';
+import { withApiRateLimit } from '@/lib/chemistry-api/with-rate-limit';
+
+export const GET = withApiRateLimit(async () => {
+  return NextResponse.json(buildOpenApiDocument(), {
+    headers: {
+      'Cache-Control': 'public, max-age=3600',
+      'Access-Control-Allow-Origin': '*',
+      'X-API-Version': '1.0.0',
+    },
+  });
+});
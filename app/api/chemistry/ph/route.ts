@@ -6,28 +6,22 @@
  * GET /api/chemistry/ph?poh=5 - Calculate from pOH
  * GET /api/chemistry/ph?ph=7 - Get all related values
  *
+ * Query parameters and their ranges are declared and validated by PH_ROUTE
+ * (lib/chemistry-api/routes.ts).
+ *
  * Created: 2026-01-29
  * Author: สมนึก (Claude Opus 4.5)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { ChemistryApiError, errorBody } from '@/lib/chemistry-api/errors';
+import { PH_ROUTE } from '@/lib/chemistry-api/routes';
+import { validateQuery } from '@/lib/chemistry-api/schema';
+import { withApiRateLimit } from '@/lib/chemistry-api/with-rate-limit';
 
 // Water ion product at 25°C
 const Kw = 1e-14;
 
-/**
- * Strict numeric parse for query params. Unlike parseFloat (which accepts
- * trailing junk like "1abc"→1), Number() requires the whole string to be
- * numeric. Infinity and overflow ("1e309"→Infinity) are rejected by isFinite.
- */
-function parseFiniteParam(raw: string): number | null {
-  const trimmed = raw.trim();
-  if (trimmed === '') return null;
-  const n = Number(trimmed);
-  if (!Number.isFinite(n)) return null;
-  return n;
-}
-
 interface pHResult {
   pH: number;
   pOH: number;
@@ -118,15 +112,21 @@ function formatScientific(value: number): string {
   return `${mantissa.toFixed(2)} × 10^${exp}`;
 }
 
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const hParam = searchParams.get('h');
-  const ohParam = searchParams.get('oh');
-  const phParam = searchParams.get('ph');
-  const pohParam = searchParams.get('poh');
+export const GET = withApiRateLimit(async (request: NextRequest) => {
+  let input: Record<string, unknown>;
+  try {
+    input = validateQuery(request.nextUrl.searchParams, PH_ROUTE.query);
+  } catch (err) {
+    if (!(err instanceof ChemistryApiError)) throw err;
+    return NextResponse.json(errorBody(err), { status: err.status });
+  }
+  const h = input.h as number | undefined;
+  const oh = input.oh as number | undefined;
+  const pH = input.ph as number | undefined;
+  const pOH = input.poh as number | undefined;
 
   // Check if any parameter is provided
-  if (!hParam && !ohParam && !phParam && !pohParam) {
+  if (h === undefined && oh === undefined && pH === undefined && pOH === undefined) {
     return NextResponse.json(
       {
         error: 'Missing parameter',
@@ -145,47 +145,14 @@ export async function GET(request: NextRequest) {
   let result: pHResult;
 
   try {
-    if (hParam) {
-      const h = parseFiniteParam(hParam);
-      if (h === null || h <= 0) {
-        return NextResponse.json(
-          { error: 'Invalid H+ concentration - must be positive number' },
-          { status: 400 }
-        );
-      }
+    if (h !== undefined) {
       result = calculateFromH(h);
-    } else if (ohParam) {
-      const oh = parseFiniteParam(ohParam);
-      if (oh === null || oh <= 0) {
-        return NextResponse.json(
-          { error: 'Invalid OH- concentration - must be positive number' },
-          { status: 400 }
-        );
-      }
+    } else if (oh !== undefined) {
       result = calculateFromOH(oh);
-    } else if (phParam) {
-      const pH = parseFiniteParam(phParam);
-      if (pH === null || pH < 0 || pH > 14) {
-        return NextResponse.json(
-          { error: 'Invalid pH - must be between 0 and 14' },
-          { status: 400 }
-        );
-      }
+    } else if (pH !== undefined) {
       result = calculateFrompH(pH);
-    } else if (pohParam) {
-      const pOH = parseFiniteParam(pohParam);
-      if (pOH === null || pOH < 0 || pOH > 14) {
-        return NextResponse.json(
-          { error: 'Invalid pOH - must be between 0 and 14' },
-          { status: 400 }
-        );
-      }
-      result = calculateFrompOH(pOH);
     } else {
-      return NextResponse.json(
-        { error: 'No valid parameter provided' },
-        { status: 400 }
-      );
+      result = calculateFrompOH(pOH!);
     }
 
     // Guard the computed result: even a finite input at an extreme magnitude can
@@ -252,4 +219,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -4,78 +4,44 @@
  * Available endpoints:
  * - GET /api/chemistry - API info and documentation
  * - GET /api/chemistry/molar-mass?formula=H2O
- * - GET /api/chemistry/elements/:symbol
+ * - GET /api/chemistry/elements?symbol=Na
  * - GET /api/chemistry/convert?value=100&from=C&to=F&category=temperature
  * - POST /api/chemistry/balance (equation balancing)
+ * - GET /api/chemistry/v1 - versioned calculation endpoints (POST /api/chemistry/v1/:engine/:operation)
+ * - GET /api/chemistry/openapi.json - OpenAPI 3.1 document
+ *
+ * The endpoint list comes from lib/chemistry-api/routes.ts, the same specs
+ * the handlers validate with and the OpenAPI document is generated from.
  *
  * Created: 2026-01-29
  * Author: สมนึก (Claude Opus 4.5)
  */
 
 import { NextResponse } from 'next/server';
+import { apiKeyMonthlyLimit, canCreateApiKeys } from '@/lib/api-keys';
+import { describeRoutes, OPENAPI_ROUTE } from '@/lib/chemistry-api/routes';
+import { withApiRateLimit } from '@/lib/chemistry-api/with-rate-limit';
+import { RATE_LIMITS } from '@/lib/rate-limit';
+import { TIER_HIERARCHY } from '@/lib/vercal/constants';
+import type { SubscriptionTier } from '@/lib/vercal/types';
+
+const TIERS = Object.keys(TIER_HIERARCHY) as SubscriptionTier[];
 
-export async function GET() {
+export const GET = withApiRateLimit(async () => {
   return NextResponse.json({
     name: 'VerChem Chemistry API',
     version: '1.0.0',
     description: 'Free chemistry calculations and data API',
     documentation: 'https://verchem.xyz/api/docs',
-    endpoints: {
-      '/api/chemistry': {
-        method: 'GET',
-        description: 'API documentation (this endpoint)',
-      },
-      '/api/chemistry/molar-mass': {
-        method: 'GET',
-        description: 'Calculate molar mass from formula',
-        params: {
-          formula: 'Chemical formula (e.g., H2O, NaCl, C6H12O6)',
-        },
-        example: '/api/chemistry/molar-mass?formula=H2O',
-      },
-      '/api/chemistry/elements': {
-        method: 'GET',
-        description: 'Get all elements or specific element data',
-        params: {
-          symbol: 'Optional element symbol (e.g., H, He, Li)',
-        },
-        example: '/api/chemistry/elements?symbol=Na',
-      },
-      '/api/chemistry/compounds': {
-        method: 'GET',
-        description: 'Search compounds database',
-        params: {
-          q: 'Search query (name or formula)',
-          category: 'Filter by category',
-        },
-        example: '/api/chemistry/compounds?q=water',
-      },
-      '/api/chemistry/convert': {
-        method: 'GET',
-        description: 'Convert between units',
-        params: {
-          value: 'Number to convert',
-          from: 'Source unit',
-          to: 'Target unit',
-          category: 'Unit category (temperature, pressure, volume, mass, length, energy)',
-        },
-        example: '/api/chemistry/convert?value=100&from=C&to=F&category=temperature',
-      },
-      '/api/chemistry/ph': {
-        method: 'GET',
-        description: 'Calculate pH from concentration or pOH',
-        params: {
-          h: 'H+ concentration (mol/L)',
-          oh: 'OH- concentration (mol/L)',
-          poh: 'pOH value',
-        },
-        example: '/api/chemistry/ph?h=0.001',
-      },
-    },
+    openapi: OPENAPI_ROUTE.path,
+    endpoints: describeRoutes(),
     rateLimit: {
-      free: '100 requests/hour',
-      authenticated: '1000 requests/hour',
-      note: 'Login with AIVerID to increase limits',
+      anonymous: `${RATE_LIMITS.publicApi.maxRequests} requests/hour per client`,
+      apiKey: Object.fromEntries(
+        TIERS.filter(canCreateApiKeys).map((tier) => [tier, `${apiKeyMonthlyLimit(tier)} requests/month`])
+      ),
+      authentication: 'Send a key as X-API-Key or Authorization: Bearer. Create keys at /account.',
+      headers: 'Every response carries X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset and X-RateLimit-Scope',
     },
     support: {
       email: 'verchem.xyz@gmail.com',
@@ -89,4 +55,4 @@ export async function GET() {
       'X-API-Version': '1.0.0',
     },
   });
-}
+});
@@ -0,0 +1,81 @@
+/**
+ * VerChem Chemistry API v1 - Calculation Endpoints
+ *
+ * POST /api/chemistry/v1/{engine}/{operation}
+ * Body: JSON object, fields per operation (GET /api/chemistry/v1 lists them)
+ *
+ * Success: { success: true, endpoint, input, result, steps, timestamp }
+ *   input  — the validated body with defaults applied
+ *   steps  — the worked solution, one line per entry
+ * Errors:  { success: false, error, code, ... } with a stable `code`:
+ *   INVALID_JSON, INVALID_BODY, MISSING_FIELD, INVALID_FIELD, UNKNOWN_FIELD (400),
+ *   UNKNOWN_ENDPOINT (404), CALCULATION_FAILED, NON_FINITE_RESULT (422),
+ *   INVALID_API_KEY (401), RATE_LIMITED (429), INTERNAL_ERROR (500)
+ * Rate limits (per API key or per client) come from withApiRateLimit.
+ *
+ * Created: 2026-10-18
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ChemistryApiError,
+  errorBody,
+  findOperation,
+  operationPath,
+  runOperation,
+} from '@/lib/chemistry-api';
+import { withApiRateLimit } from '@/lib/chemistry-api/with-rate-limit';
+
+interface RouteParams {
+  params: Promise<{ engine: string; operation: string }>;
+}
+
+const API_HEADERS = { 'X-API-Version': '1.0.0' };
+
+function errorResponse(err: ChemistryApiError) {
+  return NextResponse.json(errorBody(err), { status: err.status, headers: API_HEADERS });
+}
+
+export const POST = withApiRateLimit(async (request: NextRequest, { params }: RouteParams) => {
+  const { engine, operation: name } = await params;
+  const operation = findOperation(engine, name);
+  if (!operation) {
+    return errorResponse(
+      new ChemistryApiError(404, 'UNKNOWN_ENDPOINT', `No v1 endpoint ${engine}/${name}`, {
+        documentation: '/api/chemistry/v1',
+      })
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse(
+      new ChemistryApiError(400, 'INVALID_JSON', 'Request body must be valid JSON', {
+        example: operation.example,
+      })
+    );
+  }
+
+  try {
+    const { input, result, steps } = runOperation(operation, body);
+    return NextResponse.json(
+      {
+        success: true,
+        endpoint: operationPath(operation),
+        input,
+        result,
+        steps,
+        timestamp: new Date().toISOString(),
+      },
+      { headers: API_HEADERS }
+    );
+  } catch (err) {
+    if (err instanceof ChemistryApiError) {
+      return errorResponse(err);
+    }
+    console.error(`POST ${operationPath(operation)} error:`, err);
+    return errorResponse(new ChemistryApiError(500, 'INTERNAL_ERROR', 'Internal server error'));
+  }
+});
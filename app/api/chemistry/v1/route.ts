@@ -0,0 +1,36 @@
+/**
+ * VerChem Chemistry API v1 - Index
+ *
+ * GET /api/chemistry/v1 - every calculation endpoint with its body schema
+ * (types, units, bounds, defaults) and a working example body.
+ *
+ * Created: 2026-10-18
+ */
+
+import { NextResponse } from 'next/server';
+import { CHEMISTRY_API_V1_BASE, describeOperations } from '@/lib/chemistry-api';
+import { withApiRateLimit } from '@/lib/chemistry-api/with-rate-limit';
+
+export const GET = withApiRateLimit(async () => {
+  return NextResponse.json(
+    {
+      name: 'VerChem Chemistry API',
+      version: 'v1',
+      base: CHEMISTRY_API_V1_BASE,
+      description:
+        'Deterministic calculation engines over HTTP. POST a JSON body; responses carry the result and a step-by-step solution.',
+      response: {
+        success: '{ success: true, endpoint, input, result, steps: string[], timestamp }',
+        error: '{ success: false, error, code, field?, ... }',
+      },
+      endpoints: describeOperations(),
+      timestamp: new Date().toISOString(),
+    },
+    {
+      headers: {
+        'Cache-Control': 'public, max-age=3600',
+        'X-API-Version': '1.0.0',
+      },
+    }
+  );
+});
@@ -5,19 +5,30 @@
  * - verifySession() required for all operations
  * - Input validation with max length checks
  * - aiverid_id from session (never from client input)
+ * - Per-user daily creation cap (shared rate-limit store)
+ * - Saved-molecule cap per tier (entitlement 'molecule-save',
+ *   FEATURE_LIMITS[tier].maxSavedCalculations) → 402 naming the tier;
+ *   counted and inserted in one locked step, so concurrent saves cannot
+ *   overrun it
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { verifySession } from '@/lib/auth/session'
 import { isValidOrigin } from '@/lib/auth/origin-check'
 import {
-  createMolecule,
+  createMoleculeWithinLimit,
   listMoleculesByUser,
 } from '@/lib/supabase/molecules'
+import { resolveEntitledTier } from '@/lib/supabase/entitlements'
+import { checkEntitlement, entitlementResponse, savedLimit } from '@/lib/entitlements'
 
 import {
   validateCreateMoleculeInput,
 } from '@/lib/molecule/validation'
+import { checkRateLimit } from '@/lib/rate-limit'
+
+// Per-user daily cap so a script can't fill the table with saved molecules.
+const CREATE_LIMIT = { windowMs: 24 * 60 * 60 * 1000, maxRequests: 500 }
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,6 +41,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    const rl = await checkRateLimit(`molecule-create:${session.userId}`, CREATE_LIMIT)
+    if (!rl.success) {
+      return NextResponse.json(
+        { error: 'Daily molecule limit reached. Please try again tomorrow.', retryAfter: rl.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(rl.retryAfter ?? 0) } }
+      )
+    }
+
     let body: unknown
     try {
       body = await request.json()
@@ -41,13 +60,19 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 })
     }
 
+    const tier = await resolveEntitledTier(session)
+    const access = checkEntitlement('molecule-save', tier)
+    if (!access.allowed) {
+      return entitlementResponse(access)
+    }
+
     const errors = validateCreateMoleculeInput(body as Record<string, unknown>)
     if (errors.length > 0) {
       return NextResponse.json({ error: errors.join('. ') }, { status: 400 })
     }
 
     const record = body as Record<string, unknown>
-    const molecule = await createMolecule({
+    const { molecule, saved } = await createMoleculeWithinLimit({
       aiverid_id: session.userId,
       name: (record.name as string).trim(),
       smiles: (record.smiles as string).trim(),
@@ -59,7 +84,12 @@ export async function POST(request: NextRequest) {
         : undefined,
       notes: typeof record.notes === 'string' ? record.notes.trim() : undefined,
       is_public: typeof record.is_public === 'boolean' ? record.is_public : false,
-    })
+    }, savedLimit('molecule-save', tier))
+    if (!molecule) {
+      const refusal = checkEntitlement('molecule-save', tier, { saved })
+      if (!refusal.allowed) return entitlementResponse(refusal)
+      throw new Error(`Molecule not saved at ${saved} of ${refusal.limit}`)
+    }
 
     return NextResponse.json(molecule, { status: 201 })
   } catch (err: unknown) {
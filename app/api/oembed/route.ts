@@ -0,0 +1,72 @@
+/**
+ * oEmbed API — GET (https://oembed.com, JSON only)
+ *
+ *   ?url=https://<this host>/verified/<id>[&maxwidth=&maxheight=]
+ *
+ * Lets sites that support oEmbed (LMSs, blogs, chat apps) turn a pasted card
+ * link into a rich preview: a `rich` response whose html is an iframe of
+ * /verified/[id]/embed. Discovered through the <link rel="alternate"
+ * type="application/json+oembed"> tag on /verified/[id].
+ *
+ * - Only this site's /verified/[id] URLs, only public cards with a valid
+ *   signature (404 otherwise — nothing about private cards is revealed).
+ * - format=xml → 501, as the spec requires for unsupported formats.
+ * - Rate-limited per client.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getPublicAnswerCardById } from '@/lib/supabase/answer-cards'
+import { answerCardOEmbed, parseVerifiedCardUrl } from '@/lib/answer-cards/export'
+import { PRODUCT_CONFIG } from '@/lib/config/product'
+import { checkRateLimit, getClientId, RATE_LIMITS } from '@/lib/rate-limit'
+
+function positiveInt(value: string | null): number | undefined {
+  if (value === null) return undefined
+  const n = Number.parseInt(value, 10)
+  return Number.isFinite(n) && n > 0 ? n : undefined
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const search = request.nextUrl.searchParams
+    const format = search.get('format') ?? 'json'
+    if (format !== 'json') {
+      return NextResponse.json({ error: 'Only format=json is supported' }, { status: 501 })
+    }
+
+    const origin = request.nextUrl.origin
+    const url = search.get('url')
+    const id = url ? parseVerifiedCardUrl(url, origin) : null
+    if (!id) {
+      return NextResponse.json({ error: 'url must be a VerChem /verified/[id] link' }, { status: 404 })
+    }
+
+    const rl = await checkRateLimit(`oembed:${getClientId(request)}`, RATE_LIMITS.general)
+    if (!rl.success) {
+      return NextResponse.json(
+        { error: 'Too many requests', retryAfter: rl.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(rl.retryAfter ?? 0) } }
+      )
+    }
+
+    const loaded = await getPublicAnswerCardById(id)
+    if (!loaded || !loaded.signatureValid) {
+      return NextResponse.json({ error: 'Answer card not found' }, { status: 404 })
+    }
+
+    const body = answerCardOEmbed(loaded.card, {
+      origin,
+      id,
+      providerName: PRODUCT_CONFIG.name,
+      maxwidth: positiveInt(search.get('maxwidth')),
+      maxheight: positiveInt(search.get('maxheight')),
+    })
+    return NextResponse.json(body, {
+      status: 200,
+      headers: { 'Cache-Control': 'public, max-age=3600', 'Access-Control-Allow-Origin': '*' },
+    })
+  } catch (err: unknown) {
+    console.error('GET /api/oembed error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Search API — GET (query string) + POST (SearchQuery JSON)
+ *
+ *   GET  /api/search?q=acid&type=compound&state=liquid&limit=20&offset=0
+ *   POST /api/search  { query, filters?, options? }   (lib/search/types.ts)
+ *
+ * Runs VerChemSearchEngine — the engine behind the in-app search — on the
+ * server, with the same advanced syntax (type:compound, MW:100-200,
+ * "exact phrase", NOT, OR). Returns one page of results, the total and facet
+ * counts by type, category and state (lib/search/api.ts).
+ *
+ * - Public, no session; rate-limited per client
+ * - Unknown fields, filters and options are 400, never ignored
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSearchEngine, parseSearchParams, parseSearchRequest, runSearch } from '@/lib/search/api'
+import type { SearchQuery } from '@/lib/search/types'
+import { checkRateLimit, getClientId, RATE_LIMITS } from '@/lib/rate-limit'
+
+async function respond(request: NextRequest, parsed: { query: SearchQuery; errors: string[] }) {
+  const rl = await checkRateLimit(`search:${getClientId(request)}`, RATE_LIMITS.general)
+  if (!rl.success) {
+    return NextResponse.json(
+      { error: 'Too many requests', retryAfter: rl.retryAfter },
+      { status: 429, headers: { 'Retry-After': String(rl.retryAfter ?? 0) } }
+    )
+  }
+
+  if (parsed.errors.length > 0) {
+    return NextResponse.json({ error: parsed.errors.join('. ') }, { status: 400 })
+  }
+
+  return NextResponse.json(runSearch(getSearchEngine(), parsed.query))
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    return await respond(request, parseSearchParams(request.nextUrl.searchParams))
+  } catch (err: unknown) {
+    console.error('GET /api/search error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    }
+    return await respond(request, parseSearchRequest(body))
+  } catch (err: unknown) {
+    console.error('POST /api/search error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Search suggestions API — GET
+ *
+ *   ?q=sod[&type=compound|element|calculator]
+ *
+ * Autocomplete for the search box: VerChemSearchEngine.getSuggestions(), up
+ * to 10 names matching `q`. An empty `q` gives an empty list.
+ *
+ * - Public, no session; rate-limited per client
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getSearchEngine, SEARCH_MAX_QUERY_LENGTH } from '@/lib/search/api'
+import { checkRateLimit, getClientId, RATE_LIMITS } from '@/lib/rate-limit'
+
+const SUGGESTION_TYPES = ['compound', 'element', 'calculator']
+
+export async function GET(request: NextRequest) {
+  try {
+    const search = request.nextUrl.searchParams
+    const q = search.get('q') ?? ''
+    const type = search.get('type') ?? undefined
+
+    if (q.length > SEARCH_MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `q must be at most ${SEARCH_MAX_QUERY_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+    if (type !== undefined && !SUGGESTION_TYPES.includes(type)) {
+      return NextResponse.json(
+        { error: `type must be one of: ${SUGGESTION_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const rl = await checkRateLimit(`search-suggestions:${getClientId(request)}`, RATE_LIMITS.general)
+    if (!rl.success) {
+      return NextResponse.json(
+        { error: 'Too many requests', retryAfter: rl.retryAfter },
+        { status: 429, headers: { 'Retry-After': String(rl.retryAfter ?? 0) } }
+      )
+    }
+
+    return NextResponse.json({ query: q, suggestions: getSearchEngine().getSuggestions(q, type) })
+  } catch (err: unknown) {
+    console.error('GET /api/search/suggestions error:', err)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,42 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
-
-// Verify session signature using HMAC-SHA256
-// SECURITY: No default secret - SESSION_SECRET is required in production
-async function verifySessionSignature(value: string, signature: string): Promise<boolean> {
-  try {
-    const secret = process.env.SESSION_SECRET
-
-    // In production, SESSION_SECRET is required
-    if (!secret) {
-      if (process.env.NODE_ENV === 'production') {
-        console.error('CRITICAL: SESSION_SECRET is required in production')
-        return false
-      }
-      // In development without secret, skip verification with warning
-      console.warn('SESSION_SECRET not set - session verification skipped in development')
-      return true
-    }
-
-    const enc = new TextEncoder()
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      enc.encode(secret),
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    )
-    const sig = await crypto.subtle.sign('HMAC', cryptoKey, enc.encode(value))
-    const bytes = new Uint8Array(sig)
-    let binary = ''
-    for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i])
-    const expectedSig = btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
-    return expectedSig === signature
-  } catch (error) {
-    console.error('Session signature verification error:', error)
-    return false
-  }
-}
+import { verifySessionSignature } from '@/lib/auth/session-signature'
 
 export async function GET(_request: NextRequest) {
   try {
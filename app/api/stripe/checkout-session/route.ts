@@ -72,6 +72,11 @@ export async function POST(_req: NextRequest) {
       ],
       mode: 'subscription',
       customer_email: session.email, // Pre-fill the user's email
+      // Lets the webhook tie the subscription to this user (lib/subscriptions/stripe-webhook.ts)
+      client_reference_id: session.userId,
+      subscription_data: {
+        metadata: { aiverid_id: session.userId },
+      },
       success_url: `${origin}/account?session_id={CHECKOUT_SESSION_ID}`, // Redirect here on success
       cancel_url: `${origin}/account`, // Redirect here on cancellation
     });
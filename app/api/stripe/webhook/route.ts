@@ -0,0 +1,35 @@
+/**
+ * Stripe Webhook API
+ *
+ * Keeps subscription state authoritative: checkout completion, invoice
+ * paid/failed and subscription created/updated/deleted are written to the
+ * subscriptions table (see lib/subscriptions/stripe-webhook.ts).
+ *
+ * SECURITY:
+ * - Every event is verified against STRIPE_WEBHOOK_SECRET over the raw body
+ * - No session or origin check: Stripe is the caller, the signature is the auth
+ *
+ * Last Updated: 2026-10-18
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getStripe } from '@/lib/stripe';
+import { handleStripeWebhook } from '@/lib/subscriptions/stripe-webhook';
+import { getSubscriptionStore } from '@/lib/supabase/subscriptions';
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not set');
+    return NextResponse.json({ error: 'Webhook not configured' }, { status: 500 });
+  }
+
+  // The signature covers the exact bytes Stripe sent: read the body as text.
+  const payload = await request.text();
+  const result = await handleStripeWebhook(payload, request.headers.get('stripe-signature'), secret, {
+    store: getSubscriptionStore(),
+    retrieveSubscription: (id) => getStripe().subscriptions.retrieve(id),
+  });
+
+  return NextResponse.json(result.body, { status: result.status });
+}
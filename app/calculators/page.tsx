@@ -10,6 +10,8 @@ const CALCULATOR_LINKS = [
   { href: '/gas-laws', label: 'Gas Laws', description: 'Ideal gas law and related calculations' },
   { href: '/thermodynamics', label: 'Thermodynamics', description: 'Enthalpy, entropy, and Gibbs free energy' },
   { href: '/kinetics', label: 'Kinetics', description: 'Reaction rates and kinetics' },
+  { href: '/speciation', label: 'Acid-Base Speciation', description: 'Polyprotic alpha fractions, distribution diagrams, mixture pH' },
+  { href: '/equilibrium', label: 'Chemical Equilibrium', description: 'ICE tables, reaction quotient, and Kc ↔ Kp' },
   { href: '/electrochemistry', label: 'Electrochemistry', description: 'Cell potentials and electrochemical cells' },
   { href: '/electron-config', label: 'Electron Configuration', description: 'Electron configurations and orbitals' },
   { href: '/lewis', label: 'Lewis Structures', description: 'Lewis structure builder and checker' },
@@ -56,7 +56,8 @@ function EquationBalancerContent() {
 
       if (!balanced.isBalanced) {
         setError(
-          'Could not balance equation. This may be a complex redox equation or the equation may be invalid. Please check your input and try again.'
+          balanced.solutionSpace?.reason ??
+            'Could not balance equation. This may be a complex redox equation or the equation may be invalid. Please check your input and try again.'
         )
         setIsBalancing(false)
         return
@@ -0,0 +1,331 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import {
+  CalcShell,
+  Card,
+  SectionTitle,
+  Button,
+  Field,
+  FormulaBlock,
+  ModeGrid,
+  ModeButton,
+  StepList,
+  ErrorBanner,
+} from '@/components/lab'
+import { balanceEquation } from '@/lib/calculations/equation-balancer'
+import {
+  solveEquilibrium,
+  EXAMPLE_EQUILIBRIA,
+  type EquilibriumConstantType,
+  type EquilibriumResult,
+} from '@/lib/calculations/equilibrium'
+
+const CONSTANT_TYPES: { id: EquilibriumConstantType; label: string; description: string }[] = [
+  { id: 'Kc', label: 'Kc (concentrations)', description: 'Amounts in mol/L' },
+  { id: 'Kp', label: 'Kp (partial pressures)', description: 'Amounts in atm' },
+]
+
+const SHIFT_LABELS: Record<EquilibriumResult['shift'], string> = {
+  forward: 'Shifts forward → products',
+  reverse: 'Shifts in reverse ← reactants',
+  none: 'Already at equilibrium',
+}
+
+const formatAmount = (value: number): string =>
+  value !== 0 && (Math.abs(value) < 1e-3 || Math.abs(value) >= 1e5)
+    ? value.toExponential(3)
+    : Number(value.toPrecision(4)).toString()
+
+export default function EquilibriumPage() {
+  const [equation, setEquation] = useState(EXAMPLE_EQUILIBRIA[0].equation)
+  const [type, setType] = useState<EquilibriumConstantType>(EXAMPLE_EQUILIBRIA[0].type)
+  const [K, setK] = useState(String(EXAMPLE_EQUILIBRIA[0].K))
+  const [temperature, setTemperature] = useState(String(EXAMPLE_EQUILIBRIA[0].temperature))
+  const [initial, setInitial] = useState<Record<string, string>>(
+    Object.fromEntries(Object.entries(EXAMPLE_EQUILIBRIA[0].initial).map(([formula, value]) => [formula, String(value)]))
+  )
+
+  const [result, setResult] = useState<EquilibriumResult | null>(null)
+  const [steps, setSteps] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  // Species from the balanced equation, one initial-amount field each
+  const species = useMemo(() => {
+    const balanced = balanceEquation(equation)
+    return balanced.isBalanced ? [...balanced.reactants, ...balanced.products] : []
+  }, [equation])
+
+  const unit = type === 'Kc' ? 'M' : 'atm'
+
+  const calculate = () => {
+    setError(null)
+    setResult(null)
+    setSteps([])
+
+    try {
+      const amounts: Record<string, number> = {}
+      for (const formula of species) {
+        const value = initial[formula]
+        if (value !== undefined && value.trim() !== '') {
+          amounts[formula] = parseFloat(value)
+        }
+      }
+
+      const solved = solveEquilibrium({
+        equation,
+        initial: amounts,
+        K: parseFloat(K),
+        type,
+        temperature: parseFloat(temperature),
+      })
+      setResult(solved)
+      setSteps(solved.steps)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Calculation error')
+    }
+  }
+
+  const loadExample = (example: (typeof EXAMPLE_EQUILIBRIA)[number]) => {
+    setEquation(example.equation)
+    setType(example.type)
+    setK(String(example.K))
+    setTemperature(String(example.temperature))
+    setInitial(Object.fromEntries(Object.entries(example.initial).map(([formula, value]) => [formula, String(value)])))
+    setResult(null)
+    setSteps([])
+    setError(null)
+  }
+
+  return (
+    <CalcShell
+      eyebrow="Chemical Equilibrium · ICE tables"
+      title="Chemical Equilibrium"
+      subtitle="Equilibrium composition from K and initial amounts, with the reaction quotient and Kc ↔ Kp."
+      backHref="/"
+      backLabel="Home"
+    >
+      {/* Constant Type */}
+      <Card className="p-6">
+        <SectionTitle className="mb-4">Equilibrium constant</SectionTitle>
+        <ModeGrid>
+          {CONSTANT_TYPES.map((t) => (
+            <ModeButton
+              key={t.id}
+              active={type === t.id}
+              onClick={() => setType(t.id)}
+              title={t.label}
+              description={t.description}
+            />
+          ))}
+        </ModeGrid>
+      </Card>
+
+      {/* Calculator Input */}
+      <Card className="p-6">
+        <SectionTitle className="mb-4">Input parameters</SectionTitle>
+
+        <div className="space-y-4">
+          <Field label="Reaction" hint="Coefficients are balanced for you; mark solids and liquids with (s) or (l)">
+            <input
+              type="text"
+              value={equation}
+              onChange={(e) => setEquation(e.target.value)}
+              placeholder="N2 + H2 -> NH3"
+              className="input-premium w-full font-mono"
+            />
+          </Field>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Field label={type}>
+              <input
+                type="text"
+                value={K}
+                onChange={(e) => setK(e.target.value)}
+                placeholder="e.g., 54.3 or 1.8e-5"
+                className="input-premium w-full"
+              />
+            </Field>
+            <Field label="Temperature (K)" hint="Used for Kc ↔ Kp">
+              <input
+                type="number"
+                value={temperature}
+                onChange={(e) => setTemperature(e.target.value)}
+                className="input-premium w-full"
+              />
+            </Field>
+          </div>
+
+          {species.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-foreground mb-2">
+                Initial amounts ({unit}); blank means 0
+              </h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {species.map((formula) => (
+                  <Field key={formula} label={formula}>
+                    <input
+                      type="number"
+                      value={initial[formula] ?? ''}
+                      onChange={(e) => setInitial({ ...initial, [formula]: e.target.value })}
+                      min="0"
+                      step="0.01"
+                      className="input-premium w-full"
+                    />
+                  </Field>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Calculate Button */}
+        <Button onClick={calculate} className="w-full mt-6">
+          Solve Equilibrium
+        </Button>
+
+        {/* Quick Examples */}
+        <div className="mt-4 flex flex-wrap gap-2">
+          {EXAMPLE_EQUILIBRIA.map((example) => (
+            <button
+              key={example.name}
+              type="button"
+              onClick={() => loadExample(example)}
+              title={example.description}
+              className="text-sm px-3 py-1.5 rounded-md border border-border text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+            >
+              Example: {example.name}
+            </button>
+          ))}
+        </div>
+      </Card>
+
+      {/* Error Display */}
+      {error && <ErrorBanner>{error}</ErrorBanner>}
+
+      {/* Result Display */}
+      {result && (
+        <Card className="p-6">
+          <SectionTitle className="mb-4">ICE table</SectionTitle>
+          <FormulaBlock label="Balanced equation" className="mb-6">
+            {result.equation}
+          </FormulaBlock>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm font-mono">
+              <thead>
+                <tr className="border-b border-border text-muted-foreground">
+                  <th className="text-left py-2 pr-4 font-medium">Row ({result.unit})</th>
+                  {result.ice.map((row) => (
+                    <th key={row.formula} className="text-right py-2 px-2 font-medium">
+                      {row.formula}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-border">
+                  <td className="py-2 pr-4">Initial</td>
+                  {result.ice.map((row) => (
+                    <td key={row.formula} className="text-right py-2 px-2">
+                      {formatAmount(row.initial)}
+                    </td>
+                  ))}
+                </tr>
+                <tr className="border-b border-border">
+                  <td className="py-2 pr-4">Change</td>
+                  {result.ice.map((row) => (
+                    <td key={row.formula} className="text-right py-2 px-2">
+                      {row.changeExpression}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <td className="py-2 pr-4 font-semibold">Equilibrium</td>
+                  {result.ice.map((row) => (
+                    <td key={row.formula} className="text-right py-2 px-2 font-semibold text-foreground">
+                      {formatAmount(row.equilibrium)}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          {result.excluded.length > 0 && (
+            <p className="mt-3 text-sm text-muted-foreground">
+              Pure solids and liquids ({result.excluded.join(', ')}) do not appear in {result.type}.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+            <div className="bg-muted border border-border rounded-lg p-4">
+              <div className="text-sm text-muted-foreground mb-1">x</div>
+              <div className="text-lg font-bold font-mono">
+                {formatAmount(result.extent)} {result.unit}
+              </div>
+            </div>
+            <div className="bg-muted border border-border rounded-lg p-4">
+              <div className="text-sm text-muted-foreground mb-1">Initial Q</div>
+              <div className="text-lg font-bold font-mono">{formatAmount(result.Q)}</div>
+            </div>
+            <div className="bg-muted border border-border rounded-lg p-4">
+              <div className="text-sm text-muted-foreground mb-1">Kc</div>
+              <div className="text-lg font-bold font-mono">
+                {result.Kc !== undefined ? formatAmount(result.Kc) : '—'}
+              </div>
+            </div>
+            <div className="bg-muted border border-border rounded-lg p-4">
+              <div className="text-sm text-muted-foreground mb-1">Kp</div>
+              <div className="text-lg font-bold font-mono">
+                {result.Kp !== undefined ? formatAmount(result.Kp) : '—'}
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-6 text-center text-xl font-bold text-foreground">
+            {SHIFT_LABELS[result.shift]}
+          </div>
+        </Card>
+      )}
+
+      {/* Step-by-Step Solution */}
+      {steps.length > 0 && <StepList steps={steps} />}
+
+      {/* Reference Info */}
+      <Card className="p-6">
+        <SectionTitle className="mb-4">Quick reference</SectionTitle>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <h3 className="font-semibold text-primary-600 mb-2">Reaction quotient</h3>
+            <ul className="space-y-1 text-sm text-muted-foreground">
+              <li>• Q has the same form as K, with current amounts</li>
+              <li>• Q &lt; K: shifts forward (toward products)</li>
+              <li>• Q &gt; K: shifts in reverse (toward reactants)</li>
+              <li>• Q = K: at equilibrium</li>
+            </ul>
+          </div>
+
+          <div>
+            <h3 className="font-semibold text-primary-600 mb-2">Key formulas</h3>
+            <ul className="space-y-1 text-sm text-muted-foreground">
+              <li>• aA + bB ⇌ cC + dD: K = [C]ᶜ[D]ᵈ / ([A]ᵃ[B]ᵇ)</li>
+              <li>• Kp = Kc(RT)^Δn, R = 0.08206 L·atm/(mol·K)</li>
+              <li>• Δn = moles of gas (products − reactants)</li>
+              <li>• ΔG° = −RT ln K</li>
+            </ul>
+          </div>
+        </div>
+
+        <div className="mt-6 p-4 bg-muted border border-border rounded-md">
+          <h3 className="font-semibold text-foreground mb-2">Tips</h3>
+          <ul className="space-y-1 text-sm text-muted-foreground">
+            <li>• x is solved exactly by bisection; no &quot;x is small&quot; assumption</li>
+            <li>• Pure solids and liquids are left out of K</li>
+            <li>• Kp applies only when every species in K is a gas</li>
+          </ul>
+        </div>
+      </Card>
+    </CalcShell>
+  )
+}
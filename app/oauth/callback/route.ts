@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { signSessionValue } from '@/lib/auth/session-signature'
 
 function sanitizeRedirectPath(value: string | null): string {
   if (!value) return '/'
@@ -34,32 +35,6 @@ if (!hasSupabaseCredentials && process.env.NODE_ENV !== 'production') {
   console.warn('Supabase admin client not initialized: missing credentials')
 }
 
-// Compute session signature using HMAC-SHA256
-// SECURITY: No default secret - SESSION_SECRET is required in production
-async function computeSessionSignature(value: string): Promise<string> {
-  const secret = process.env.SESSION_SECRET
-
-  // This should never happen in production due to the check below,
-  // but we throw to be safe
-  if (!secret) {
-    throw new Error('SESSION_SECRET is required for session signing')
-  }
-
-  const enc = new TextEncoder()
-  const cryptoKey = await crypto.subtle.importKey(
-    'raw',
-    enc.encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  )
-  const sig = await crypto.subtle.sign('HMAC', cryptoKey, enc.encode(value))
-  const bytes = new Uint8Array(sig)
-  let binary = ''
-  for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i])
-  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
-}
-
 export async function GET(request: NextRequest) {
   if (process.env.NODE_ENV !== 'production') {
     console.log('OAuth callback started')
@@ -142,9 +117,9 @@ export async function GET(request: NextRequest) {
       return NextResponse.redirect(new URL('/?error=server_config', request.url))
     }
 
-    // Enforce SESSION_SECRET in production
-    if (process.env.NODE_ENV === 'production' && !process.env.SESSION_SECRET) {
-      console.error('SESSION_SECRET is required in production')
+    // Enforce a session signing key in production
+    if (process.env.NODE_ENV === 'production' && !process.env.SESSION_SECRET && !process.env.SESSION_KEYRING) {
+      console.error('SESSION_SECRET or SESSION_KEYRING is required in production')
       return NextResponse.redirect(new URL('/?error=server_config', request.url))
     }
 
@@ -314,7 +289,7 @@ export async function GET(request: NextRequest) {
 
     // Create session cookie
     const sessionString = JSON.stringify(sessionData)
-    const signature = await computeSessionSignature(sessionString)
+    const signature = await signSessionValue(sessionString)
 
     const redirectCookie = cookieStore.get('oauth_redirect')?.value ?? null
     const redirectPath = sanitizeRedirectPath(redirectCookie)
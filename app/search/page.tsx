@@ -155,8 +155,12 @@ export default function SearchPage() {
                     <br />acid NOT organic
                   </div>
                   <div>
-                    <span className="font-medium text-foreground">Ranges:</span> Use colons
-                    <br />MW:100-200
+                    <span className="font-medium text-foreground">Ranges:</span> Use colons, units optional
+                    <br />MW:100-200, bp:50..120C, density&gt;1
+                  </div>
+                  <div>
+                    <span className="font-medium text-foreground">Properties:</span> Element, state, hazard
+                    <br />contains:Cl state:liquid NOT ghs:06
                   </div>
                   <div>
                     <span className="font-medium text-foreground">Voice search:</span> Use the microphone in the search bar
@@ -0,0 +1,502 @@
+'use client'
+
+import { useState } from 'react'
+import dynamic from 'next/dynamic'
+import {
+  CalcShell,
+  Card,
+  SectionTitle,
+  Button,
+  Field,
+  ModeGrid,
+  ModeButton,
+  ResultPanel,
+  StepList,
+  ErrorBanner,
+} from '@/components/lab'
+import {
+  ACID_BASE_SYSTEMS,
+  EXAMPLE_MIXTURES,
+  calculateIsoelectricPoint,
+  calculateSpeciation,
+  createAcidBaseSystem,
+  generateDistributionDiagram,
+  getAcidBaseSystem,
+  solveMixturePH,
+  type AcidBaseSystem,
+  type DistributionDiagram as DistributionDiagramData,
+  type MixturePHResult,
+  type SpeciationResult,
+} from '@/lib/calculations/speciation'
+
+// Dynamic import for graph component (client-side only)
+const DistributionDiagram = dynamic(() => import('@/components/charts/DistributionDiagram'), {
+  ssr: false,
+  loading: () => (
+    <div className="bg-muted rounded-md h-[350px] flex items-center justify-center text-muted-foreground">
+      Loading graph...
+    </div>
+  ),
+})
+
+type CalculatorMode = 'distribution' | 'mixture'
+
+const MODES: { id: CalculatorMode; label: string; description: string }[] = [
+  { id: 'distribution', label: 'Distribution Diagram', description: 'Alpha fractions vs pH' },
+  { id: 'mixture', label: 'Mixture pH', description: 'Exact pH from the charge balance' },
+]
+
+const CUSTOM_SYSTEM = 'custom'
+
+interface ComponentRow {
+  system: string
+  form: number
+  concentration: string
+}
+
+const EMPTY_ROW: ComponentRow = { system: 'phosphoric', form: 0, concentration: '' }
+
+const formatAmount = (value: number): string =>
+  value !== 0 && (Math.abs(value) < 1e-3 || Math.abs(value) >= 1e5)
+    ? value.toExponential(3)
+    : Number(value.toPrecision(4)).toString()
+
+export default function SpeciationPage() {
+  const [mode, setMode] = useState<CalculatorMode>('distribution')
+
+  // Distribution diagram
+  const [systemId, setSystemId] = useState('phosphoric')
+  const [customKa, setCustomKa] = useState('1e-3, 1e-7')
+  const [customCharge, setCustomCharge] = useState('0')
+  const [pH, setPH] = useState('7.4')
+  const [totalConcentration, setTotalConcentration] = useState('0.1')
+  const [speciation, setSpeciation] = useState<SpeciationResult | null>(null)
+  const [isoelectricPoint, setIsoelectricPoint] = useState<number | null>(null)
+
+  // Mixture
+  const [rows, setRows] = useState<ComponentRow[]>([
+    { system: 'phosphoric', form: 1, concentration: '0.05' },
+    { system: 'phosphoric', form: 2, concentration: '0.05' },
+  ])
+  const [strongAcid, setStrongAcid] = useState('')
+  const [strongBase, setStrongBase] = useState('')
+  const [mixture, setMixture] = useState<MixturePHResult | null>(null)
+
+  const [diagram, setDiagram] = useState<DistributionDiagramData | null>(null)
+  const [steps, setSteps] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const parseNumber = (value: string, label: string): number => {
+    const parsed = parseFloat(value)
+    if (!Number.isFinite(parsed)) {
+      throw new Error(`${label} must be a number`)
+    }
+    return parsed
+  }
+
+  const selectedSystem = (): AcidBaseSystem => {
+    if (systemId !== CUSTOM_SYSTEM) {
+      return getAcidBaseSystem(systemId)!
+    }
+    const KaValues = customKa
+      .split(/[,\s]+/)
+      .filter(Boolean)
+      .map((value) => parseNumber(value, 'Each Ka'))
+    return createAcidBaseSystem(KaValues, { charge: parseInt(customCharge, 10) || 0 })
+  }
+
+  const updateRow = (index: number, update: Partial<ComponentRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...update } : row)))
+  }
+
+  const calculate = () => {
+    setError(null)
+    setSpeciation(null)
+    setIsoelectricPoint(null)
+    setMixture(null)
+    setDiagram(null)
+    setSteps([])
+
+    try {
+      if (mode === 'distribution') {
+        const system = selectedSystem()
+        const pHValue = parseNumber(pH, 'pH')
+        const total = totalConcentration.trim() === '' ? undefined : parseNumber(totalConcentration, 'Total concentration')
+        const result = calculateSpeciation(system, pHValue, total)
+        setSpeciation(result)
+        setDiagram(generateDistributionDiagram(system))
+
+        let pI: number | null = null
+        try {
+          pI = calculateIsoelectricPoint(system)
+        } catch {
+          // No neutral form between charged ones
+        }
+        setIsoelectricPoint(pI)
+
+        const n = system.KaValues.length
+        setSteps([
+          `${system.name}: ${system.species.join(' ⇌ ')}`,
+          ``,
+          `Given:`,
+          ...system.KaValues.map((Ka, i) => `  Ka${i + 1} = ${Ka.toExponential(2)} (pKa${i + 1} = ${(-Math.log10(Ka)).toFixed(2)})`),
+          `  pH = ${pHValue}, [H⁺] = ${Math.pow(10, -pHValue).toExponential(3)} M`,
+          ``,
+          `Alpha fractions:`,
+          `α_i = [H⁺]^(${n}−i)·Ka1···Ka_i / Σ_j [H⁺]^(${n}−j)·Ka1···Ka_j`,
+          ...result.fractions.map(
+            (fraction) =>
+              `  α(${fraction.species}) = ${formatAmount(fraction.alpha)}` +
+              (fraction.concentration !== undefined ? `  →  ${formatAmount(fraction.concentration)} M` : '')
+          ),
+          ``,
+          `Dominant species: ${result.dominant}`,
+          `Average charge: ${result.averageCharge.toFixed(3)}`,
+          ...(pI !== null ? [`Isoelectric point: pI = ${pI.toFixed(2)}`] : []),
+        ])
+      } else {
+        const components = rows
+          .filter((row) => row.concentration.trim() !== '')
+          .map((row) => ({
+            system: row.system,
+            form: row.form,
+            concentration: parseNumber(row.concentration, 'Concentration'),
+          }))
+        const result = solveMixturePH(components, {
+          strongAcid: strongAcid.trim() === '' ? 0 : parseNumber(strongAcid, 'HCl'),
+          strongBase: strongBase.trim() === '' ? 0 : parseNumber(strongBase, 'NaOH'),
+        })
+        setMixture(result)
+        setSteps(result.steps)
+        if (components.length > 0) {
+          setDiagram(generateDistributionDiagram(components[0].system))
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Calculation error')
+    }
+  }
+
+  const loadExample = (example: (typeof EXAMPLE_MIXTURES)[number]) => {
+    setMode('mixture')
+    setRows(
+      example.components.map((component) => ({
+        system: typeof component.system === 'string' ? component.system : component.system.id,
+        form: component.form ?? 0,
+        concentration: String(component.concentration),
+      }))
+    )
+    setStrongAcid(example.options?.strongAcid ? String(example.options.strongAcid) : '')
+    setStrongBase(example.options?.strongBase ? String(example.options.strongBase) : '')
+  }
+
+  const highlightPH = mode === 'distribution' ? speciation?.pH : mixture?.pH
+
+  return (
+    <CalcShell
+      eyebrow="Acid-Base Speciation · polyprotic systems"
+      title="Acid-Base Speciation"
+      subtitle="Alpha fractions and distribution diagrams for polyprotic acids and amino acids, and exact pH of mixtures."
+      backHref="/"
+      backLabel="Home"
+    >
+      {/* Mode Selector */}
+      <Card className="p-6">
+        <SectionTitle className="mb-4">Select calculator mode</SectionTitle>
+        <ModeGrid>
+          {MODES.map((m) => (
+            <ModeButton
+              key={m.id}
+              active={mode === m.id}
+              onClick={() => setMode(m.id)}
+              title={m.label}
+              description={m.description}
+            />
+          ))}
+        </ModeGrid>
+      </Card>
+
+      {/* Calculator Input */}
+      <Card className="p-6">
+        <SectionTitle className="mb-4">Input parameters</SectionTitle>
+
+        {/* Distribution Diagram */}
+        {mode === 'distribution' && (
+          <div className="space-y-4">
+            <Field label="Acid-base system">
+              <select
+                value={systemId}
+                onChange={(e) => setSystemId(e.target.value)}
+                className="input-premium w-full"
+              >
+                {ACID_BASE_SYSTEMS.map((system) => (
+                  <option key={system.id} value={system.id}>
+                    {system.name} ({system.formula})
+                  </option>
+                ))}
+                <option value={CUSTOM_SYSTEM}>Custom (enter Ka values)</option>
+              </select>
+            </Field>
+
+            {systemId === CUSTOM_SYSTEM && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Field label="Ka values" hint="Stepwise Ka1, Ka2, … separated by commas">
+                  <input
+                    type="text"
+                    value={customKa}
+                    onChange={(e) => setCustomKa(e.target.value)}
+                    className="input-premium w-full"
+                  />
+                </Field>
+                <Field label="Charge of the fully protonated form">
+                  <input
+                    type="number"
+                    value={customCharge}
+                    onChange={(e) => setCustomCharge(e.target.value)}
+                    step="1"
+                    className="input-premium w-full"
+                  />
+                </Field>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Field label="pH">
+                <input
+                  type="number"
+                  value={pH}
+                  onChange={(e) => setPH(e.target.value)}
+                  step="0.1"
+                  className="input-premium w-full"
+                />
+              </Field>
+              <Field label="Total concentration (M)" hint="Optional; gives each species in M">
+                <input
+                  type="number"
+                  value={totalConcentration}
+                  onChange={(e) => setTotalConcentration(e.target.value)}
+                  step="0.01"
+                  className="input-premium w-full"
+                />
+              </Field>
+            </div>
+          </div>
+        )}
+
+        {/* Mixture pH */}
+        {mode === 'mixture' && (
+          <div className="space-y-4">
+            {rows.map((row, index) => {
+              const system = getAcidBaseSystem(row.system)!
+              return (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-4 items-end">
+                  <Field label={`Component ${index + 1}`}>
+                    <select
+                      value={row.system}
+                      onChange={(e) => updateRow(index, { system: e.target.value, form: 0 })}
+                      className="input-premium w-full"
+                    >
+                      {ACID_BASE_SYSTEMS.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.name}
+                        </option>
+                      ))}
+                    </select>
+                  </Field>
+                  <Field label="Form added" hint="Salts bring Na⁺ or Cl⁻">
+                    <select
+                      value={row.form}
+                      onChange={(e) => updateRow(index, { form: parseInt(e.target.value, 10) })}
+                      className="input-premium w-full"
+                    >
+                      {system.species.map((species, form) => (
+                        <option key={species} value={form}>
+                          {species}
+                        </option>
+                      ))}
+                    </select>
+                  </Field>
+                  <Field label="Concentration (M)">
+                    <input
+                      type="number"
+                      value={row.concentration}
+                      onChange={(e) => updateRow(index, { concentration: e.target.value })}
+                      step="0.01"
+                      className="input-premium w-full"
+                    />
+                  </Field>
+                  <button
+                    type="button"
+                    onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                    className="text-sm px-3 py-2 rounded-md border border-border text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+                  >
+                    Remove
+                  </button>
+                </div>
+              )
+            })}
+            {rows.length < 4 && (
+              <button
+                type="button"
+                onClick={() => setRows([...rows, { ...EMPTY_ROW }])}
+                className="text-sm px-3 py-1.5 rounded-md border border-border text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+              >
+                + Add component
+              </button>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Field label="Strong acid, HCl (M)">
+                <input
+                  type="number"
+                  value={strongAcid}
+                  onChange={(e) => setStrongAcid(e.target.value)}
+                  step="0.01"
+                  placeholder="0"
+                  className="input-premium w-full"
+                />
+              </Field>
+              <Field label="Strong base, NaOH (M)">
+                <input
+                  type="number"
+                  value={strongBase}
+                  onChange={(e) => setStrongBase(e.target.value)}
+                  step="0.01"
+                  placeholder="0"
+                  className="input-premium w-full"
+                />
+              </Field>
+            </div>
+          </div>
+        )}
+
+        {/* Calculate Button */}
+        <Button onClick={calculate} className="w-full mt-6">
+          Calculate
+        </Button>
+
+        {/* Quick Examples */}
+        <div className="mt-4 flex flex-wrap gap-2">
+          {EXAMPLE_MIXTURES.map((example) => (
+            <button
+              key={example.name}
+              type="button"
+              onClick={() => loadExample(example)}
+              title={example.description}
+              className="text-sm px-3 py-1.5 rounded-md border border-border text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+            >
+              Example: {example.name}
+            </button>
+          ))}
+        </div>
+      </Card>
+
+      {/* Error Display */}
+      {error && <ErrorBanner>{error}</ErrorBanner>}
+
+      {/* Mixture Result */}
+      {mixture && (
+        <ResultPanel label="Mixture pH">
+          pH = {mixture.pH.toFixed(2)}
+        </ResultPanel>
+      )}
+
+      {/* Distribution Diagram */}
+      {diagram && (
+        <Card className="p-6">
+          <SectionTitle className="mb-4">Distribution diagram · {diagram.system}</SectionTitle>
+          <DistributionDiagram diagram={diagram} highlightPH={highlightPH} width={600} height={350} />
+        </Card>
+      )}
+
+      {/* Species Table */}
+      {speciation && (
+        <Card className="p-6">
+          <SectionTitle className="mb-4">Species at pH {speciation.pH}</SectionTitle>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm font-mono">
+              <thead>
+                <tr className="border-b border-border text-muted-foreground">
+                  <th className="text-left py-2 pr-4 font-medium">Species</th>
+                  <th className="text-right py-2 px-2 font-medium">Charge</th>
+                  <th className="text-right py-2 px-2 font-medium">α</th>
+                  <th className="text-right py-2 px-2 font-medium">Concentration (M)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {speciation.fractions.map((fraction) => (
+                  <tr
+                    key={fraction.species}
+                    className={`border-b border-border ${fraction.species === speciation.dominant ? 'font-semibold text-foreground' : ''}`}
+                  >
+                    <td className="py-2 pr-4">{fraction.species}</td>
+                    <td className="text-right py-2 px-2">{fraction.charge}</td>
+                    <td className="text-right py-2 px-2">{formatAmount(fraction.alpha)}</td>
+                    <td className="text-right py-2 px-2">
+                      {fraction.concentration !== undefined ? formatAmount(fraction.concentration) : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mt-6">
+            <div className="bg-muted border border-border rounded-lg p-4">
+              <div className="text-sm text-muted-foreground mb-1">Dominant</div>
+              <div className="text-lg font-bold font-mono">{speciation.dominant}</div>
+            </div>
+            <div className="bg-muted border border-border rounded-lg p-4">
+              <div className="text-sm text-muted-foreground mb-1">Average charge</div>
+              <div className="text-lg font-bold font-mono">{speciation.averageCharge.toFixed(3)}</div>
+            </div>
+            {isoelectricPoint !== null && (
+              <div className="bg-muted border border-border rounded-lg p-4">
+                <div className="text-sm text-muted-foreground mb-1">Isoelectric point</div>
+                <div className="text-lg font-bold font-mono">pI = {isoelectricPoint.toFixed(2)}</div>
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {/* Step-by-Step Solution */}
+      {steps.length > 0 && <StepList steps={steps} />}
+
+      {/* Reference Info */}
+      <Card className="p-6">
+        <SectionTitle className="mb-4">Quick reference</SectionTitle>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <h3 className="font-semibold text-primary-600 mb-2">Alpha fractions</h3>
+            <ul className="space-y-1 text-sm text-muted-foreground">
+              <li>• α is the fraction of the total in one form; Σα = 1</li>
+              <li>• Adjacent forms are equal (α = 0.5 each) at pH = pKa</li>
+              <li>• Amphiprotic salts (HCO₃⁻, H₂PO₄⁻): pH ≈ (pKa₁ + pKa₂)/2</li>
+              <li>• Amino acids: net charge 0 at the isoelectric point pI</li>
+            </ul>
+          </div>
+
+          <div>
+            <h3 className="font-semibold text-primary-600 mb-2">Charge balance</h3>
+            <ul className="space-y-1 text-sm text-muted-foreground">
+              <li>• Σ positive charge = Σ negative charge</li>
+              <li>• [H⁺] + [Na⁺] + Σ C·z̄ = [OH⁻] + [Cl⁻]</li>
+              <li>• z̄ = Σ α_i·z_i, the average charge at that pH</li>
+              <li>• Solved exactly; no Henderson-Hasselbalch shortcut</li>
+            </ul>
+          </div>
+        </div>
+
+        <div className="mt-6 p-4 bg-muted border border-border rounded-md">
+          <h3 className="font-semibold text-foreground mb-2">Tips</h3>
+          <ul className="space-y-1 text-sm text-muted-foreground">
+            <li>• Choose the form you weighed out: NaH₂PO₄ is H₂PO₄⁻, Na₂HPO₄ is HPO₄²⁻</li>
+            <li>• Activities are taken as concentrations; expect small shifts above ~0.1 M ionic strength</li>
+            <li>• Kw = 1.0 × 10⁻¹⁴ (25 °C)</li>
+          </ul>
+        </div>
+      </Card>
+    </CalcShell>
+  )
+}
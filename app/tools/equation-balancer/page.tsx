@@ -8,7 +8,8 @@ import {
   getReactionTypeLabel,
   EXAMPLE_EQUATIONS,
 } from '@/lib/calculations/equation-balancer'
-import type { BalancedEquation } from '@/lib/types/chemistry'
+import { generateNetIonicEquation, type NetIonicEquation } from '@/lib/calculations/net-ionic'
+import type { BalancedEquation, BalanceSolutionSpace } from '@/lib/types/chemistry'
 import { EquationBalancerSchema } from '@/components/seo/JsonLd'
 import { CalcShell, Card, SectionTitle, Button, ErrorBanner } from '@/components/lab'
 
@@ -16,12 +17,16 @@ import { CalcShell, Card, SectionTitle, Button, ErrorBanner } from '@/components
 export default function EquationBalancerToolPage() {
   const [equation, setEquation] = useState('')
   const [result, setResult] = useState<BalancedEquation | null>(null)
+  const [ionic, setIonic] = useState<NetIonicEquation | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [solutionSpace, setSolutionSpace] = useState<BalanceSolutionSpace | null>(null)
   const [isBalancing, setIsBalancing] = useState(false)
 
   const handleBalance = async () => {
     setError(null)
+    setSolutionSpace(null)
     setResult(null)
+    setIonic(null)
     setIsBalancing(true)
 
     if (!equation.trim()) {
@@ -35,11 +40,18 @@ export default function EquationBalancerToolPage() {
     try {
       const balanced = balanceEquation(equation)
       if (!balanced.isBalanced) {
-        setError('Could not balance equation. Please check your input.')
+        setError(balanced.solutionSpace?.reason ?? 'Could not balance equation. Please check your input.')
+        setSolutionSpace(balanced.solutionSpace ?? null)
         setIsBalancing(false)
         return
       }
       setResult(balanced)
+
+      // Only worth showing when something in the equation splits into ions
+      const netIonic = generateNetIonicEquation(equation)
+      if ([...netIonic.reactants, ...netIonic.products].some((s) => s.dissociates)) {
+        setIonic(netIonic)
+      }
     } catch {
       setError('Invalid equation format. Use format: A + B -> C + D')
     }
@@ -70,7 +82,7 @@ export default function EquationBalancerToolPage() {
                 value={equation}
                 onChange={(e) => setEquation(e.target.value)}
                 onKeyPress={(e) => e.key === 'Enter' && handleBalance()}
-                placeholder="e.g., H2 + O2 -> H2O"
+                placeholder="e.g., H2 + O2 -> H2O or Fe3+ + e- -> Fe2+"
                 className="input-premium w-full text-xl font-mono pr-32"
               />
               <div className="absolute right-4 top-1/2 -translate-y-1/2 text-muted-foreground text-sm pointer-events-none">
@@ -79,7 +91,20 @@ export default function EquationBalancerToolPage() {
             </div>
           </div>
 
-          {error && <div className="mb-6"><ErrorBanner>{error}</ErrorBanner></div>}
+          {error && (
+            <div className="mb-6">
+              <ErrorBanner>
+                {error}
+                {solutionSpace && solutionSpace.dimension > 1 && (
+                  <ul className="mt-2 space-y-1 font-mono text-sm">
+                    {solutionSpace.reactions.map((reaction) => (
+                      <li key={reaction}>{reaction}</li>
+                    ))}
+                  </ul>
+                )}
+              </ErrorBanner>
+            </div>
+          )}
 
           <Button
             onClick={handleBalance}
@@ -156,6 +181,20 @@ export default function EquationBalancerToolPage() {
                         </td>
                       </tr>
                     ))}
+                    {result.charge && (
+                      <tr className="border-t border-border">
+                        <td className="py-3 px-4 font-bold text-primary-600">Charge</td>
+                        <td className="text-center py-3 px-4 text-foreground font-mono">{result.charge.reactants}</td>
+                        <td className="text-center py-3 px-4 text-foreground font-mono">{result.charge.products}</td>
+                        <td className="text-center py-3 px-4">
+                          {result.charge.reactants === result.charge.products ? (
+                            <span className="text-success-strong">✓ Balanced</span>
+                          ) : (
+                            <span className="text-destructive-strong">✗ Unbalanced</span>
+                          )}
+                        </td>
+                      </tr>
+                    )}
                   </tbody>
                 </table>
               </div>
@@ -163,6 +202,49 @@ export default function EquationBalancerToolPage() {
           </Card>
         )}
 
+        {/* Net Ionic Equation */}
+        {result && ionic && (
+          <Card className="p-6 sm:p-8">
+            <SectionTitle className="mb-6">Net Ionic Equation</SectionTitle>
+
+            <div className="space-y-4">
+              <div className="p-4 bg-muted border border-border rounded-md">
+                <div className="text-sm text-muted-foreground mb-1">Complete ionic:</div>
+                <div className="text-lg font-mono text-foreground break-words">{ionic.completeIonic}</div>
+              </div>
+
+              <div className="p-6 bg-muted border border-border rounded-md">
+                <div className="text-sm text-primary-600 mb-2 uppercase tracking-wider font-medium">Net ionic:</div>
+                <div className="text-2xl font-mono font-bold text-foreground break-words">
+                  {ionic.noReaction ? 'No net reaction: every ion is a spectator' : ionic.netIonic}
+                </div>
+              </div>
+
+              {ionic.spectators.length > 0 && (
+                <div className="px-4 py-2 bg-muted border border-border rounded-md inline-block">
+                  <span className="text-muted-foreground text-sm">Spectator ions: </span>
+                  <span className="text-foreground font-mono">
+                    {ionic.spectators.map((s) => `${s.coefficient > 1 ? s.coefficient : ''}${s.formula}`).join(', ')}
+                  </span>
+                </div>
+              )}
+
+              <ul className="text-sm text-muted-foreground space-y-1">
+                {[...ionic.reactants, ...ionic.products].map((s, i) => (
+                  <li key={i}>
+                    <span className="font-mono text-foreground">
+                      {s.formula}
+                      {s.state && `(${s.state})`}
+                    </span>
+                    {' — '}
+                    {s.dissociates ? 'splits into ions' : 'stays whole'}: {s.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </Card>
+        )}
+
         {/* Quick Examples Section */}
         <Card className="p-6 sm:p-8">
           <SectionTitle className="text-center text-2xl mb-2">
@@ -179,6 +261,7 @@ export default function EquationBalancerToolPage() {
                 onClick={() => {
                   setEquation(example.equation)
                   setResult(null)
+                  setIonic(null)
                   setError(null)
                 }}
                 className="text-left p-5 bg-card border border-border hover:border-primary-500 hover:bg-muted rounded-lg transition-colors group"
@@ -292,6 +375,7 @@ export default function EquationBalancerToolPage() {
             {[
               { q: 'How do I balance a chemical equation?', a: 'Simply enter your unbalanced equation using the format "Reactants -> Products" (e.g., H2 + O2 -> H2O). Use element symbols with subscripts as numbers (H2O, not H₂O). Our calculator will instantly provide the balanced equation with correct coefficients.' },
               { q: 'What is a balanced chemical equation?', a: 'A balanced chemical equation has equal numbers of each type of atom on both sides of the reaction arrow. This follows the Law of Conservation of Mass - matter cannot be created or destroyed in a chemical reaction.' },
+              { q: 'Can it balance ionic equations?', a: 'Yes. Write ions with their charge after the formula (Fe3+, MnO4-, SO42-, [Cu(NH3)4]2+) and electrons as e-; charge is balanced along with the atoms. Use ^ when a digit could be read either way (I3^-). For reactions in water, the net ionic equation and the spectator ions are shown below the result.' },
               { q: 'Can this balance complex redox equations?', a: 'Yes! Our advanced algorithm can handle complex redox equations including those involving permanganate (MnO4⁻), dichromate (Cr2O7²⁻), and other challenging species. We support coefficients up to 20.' },
               { q: 'Is this calculator free to use?', a: 'Absolutely! VerChem Equation Balancer is 100% free with no usage limits. No sign-up required. Use it as many times as you need for homework, exams, or research.' },
               { q: 'How accurate is this equation balancer?', a: 'Our balancer uses matrix algebra (Gaussian elimination) combined with optimized search algorithms. Every result includes atom count verification to ensure 100% accuracy.' },
@@ -2,8 +2,9 @@
 
 import React, { useState, useCallback } from 'react'
 import type { AnswerCard } from '@/lib/answer-cards/types'
+import { readAnswerCardStream, SSE_CONTENT_TYPE } from '@/lib/answer-cards/sse'
 import { CalcShell, Card } from '@/components/lab'
-import AskBox from '@/components/answer-cards/AskBox'
+import AskBox, { type AnswerProgress } from '@/components/answer-cards/AskBox'
 import AnswerCardView from '@/components/answer-cards/AnswerCardView'
 import SaveShareControls from '@/components/answer-cards/SaveShareControls'
 
@@ -11,16 +12,18 @@ export default function VerifiedAnswerPage() {
   const [card, setCard] = useState<AnswerCard | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<AnswerProgress | null>(null)
 
   const handleSubmit = useCallback(async (question: string) => {
     setIsLoading(true)
     setError(null)
     setCard(null)
+    setProgress({ toolCalls: [], audit: null })
 
     try {
       const response = await fetch('/api/answer-card', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Accept: SSE_CONTENT_TYPE },
         body: JSON.stringify({ question }),
       })
 
@@ -49,12 +52,50 @@ export default function VerifiedAnswerPage() {
         return
       }
 
-      const data = (await response.json()) as AnswerCard
-      setCard(data)
+      const contentType = response.headers.get('content-type') ?? ''
+      if (!contentType.startsWith(SSE_CONTENT_TYPE) || !response.body) {
+        const data = (await response.json()) as AnswerCard
+        setCard(data)
+        return
+      }
+
+      let finished = false
+      await readAnswerCardStream(response.body, (event) => {
+        switch (event.type) {
+          case 'tool_call':
+            setProgress((prev) => ({
+              toolCalls: [...(prev?.toolCalls ?? []), event.call],
+              audit: prev?.audit ?? null,
+            }))
+            break
+          case 'audit':
+            setProgress((prev) => ({
+              toolCalls: prev?.toolCalls ?? [],
+              audit: { audit: event.audit, status: event.status },
+            }))
+            break
+          case 'card':
+            finished = true
+            setCard(event.card)
+            break
+          case 'error':
+            finished = true
+            setError(
+              event.status === 503
+                ? 'AI verification service is temporarily unavailable.'
+                : event.error || 'Something went wrong. Please try again.'
+            )
+            break
+        }
+      })
+      if (!finished) {
+        setError('The connection closed before the answer was complete. Please try again.')
+      }
     } catch {
       setError('Network error. Please check your connection and try again.')
     } finally {
       setIsLoading(false)
+      setProgress(null)
     }
   }, [])
 
@@ -69,7 +110,7 @@ export default function VerifiedAnswerPage() {
     >
       {/* Ask Box */}
       <Card className="p-6 sm:p-8">
-        <AskBox onSubmit={handleSubmit} isLoading={isLoading} error={error} />
+        <AskBox onSubmit={handleSubmit} isLoading={isLoading} error={error} progress={progress} />
       </Card>
 
       {/* Card Result */}
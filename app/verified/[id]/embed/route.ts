@@ -0,0 +1,59 @@
+/**
+ * Embeddable Verified Answer Card — GET /verified/[id]/embed
+ *
+ * The iframe target of the oEmbed response (GET /api/oembed): the card as a
+ * standalone HTML document with inline styles and no scripts. Framing by
+ * other sites is allowed for this path only, by CSP frame-ancestors; it gets
+ * no X-Frame-Options (see next.config.ts headers).
+ *
+ * Same rules as /verified/[id]: public cards only, signature re-verified on
+ * load. A card that fails the check is not embedded — the page itself shows
+ * the tampered/revoked banner to anyone who follows the link.
+ */
+
+import { NextRequest } from 'next/server'
+import { getPublicAnswerCardById } from '@/lib/supabase/answer-cards'
+import { answerCardUrl, escapeHtml, renderAnswerCardDocument } from '@/lib/answer-cards/export'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function htmlResponse(body: string, status: number): Response {
+  return new Response(body, {
+    status,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': status === 200 ? 'public, max-age=300' : 'no-store',
+    },
+  })
+}
+
+function notice(message: string, href?: string): string {
+  const link = href ? ` <a href="${escapeHtml(href)}" target="_blank" rel="noopener">Open on VerChem</a>` : ''
+  return (
+    `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><meta name="robots" content="noindex"></head>` +
+    `<body style="font-family:system-ui,sans-serif;font-size:14px;color:#374151;padding:16px">${escapeHtml(message)}${link}</body></html>`
+  )
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params
+  if (!UUID_REGEX.test(id)) return htmlResponse(notice('Answer card not found.'), 404)
+
+  try {
+    const loaded = await getPublicAnswerCardById(id)
+    if (!loaded) return htmlResponse(notice('Answer card not found.'), 404)
+
+    const url = answerCardUrl(request.nextUrl.origin, id)
+    if (!loaded.signatureValid) {
+      return htmlResponse(notice('This card can no longer be verified.', url), 409)
+    }
+    return htmlResponse(renderAnswerCardDocument(loaded.card, { url, signatureStatus: loaded.signatureStatus }), 200)
+  } catch (err: unknown) {
+    console.error('GET /verified/[id]/embed error:', err)
+    return htmlResponse(notice('Answer card is unavailable right now.'), 500)
+  }
+}
@@ -5,15 +5,25 @@
  * The signature is RE-VERIFIED server-side here; a card whose stored bytes no
  * longer match its signature renders with a TAMPERED banner instead of a
  * VERIFIED badge. Owner identity (aiverid_id) is never read.
+ *
+ * Authentic cards are also replayed against the current engines; the
+ * "still reproduces" badge reflects that drift report.
+ *
+ * Authentic cards can be printed (PDF) or embedded (HTML snippet / oEmbed —
+ * advertised to other sites through the oEmbed discovery link in metadata).
  */
 
 import { cache } from 'react'
 import { notFound } from 'next/navigation'
+import { headers } from 'next/headers'
 import type { Metadata } from 'next'
 import Link from 'next/link'
 import { getPublicAnswerCardById } from '@/lib/supabase/answer-cards'
+import { reverifyCard } from '@/lib/answer-cards/reverify'
 import AnswerCardView from '@/components/answer-cards/AnswerCardView'
+import ExportCardControls from '@/components/answer-cards/ExportCardControls'
 import { CalcShell } from '@/components/lab'
+import { PRODUCT_CONFIG } from '@/lib/config/product'
 
 export const dynamic = 'force-dynamic'
 
@@ -33,6 +43,14 @@ const loadPublicCard = cache(async (id: string) => {
   }
 })
 
+/** Origin this page was requested on — oEmbed only describes its own host's URLs. */
+async function requestOrigin(): Promise<string> {
+  const h = await headers()
+  const host = h.get('x-forwarded-host') ?? h.get('host') ?? PRODUCT_CONFIG.domain
+  const proto = h.get('x-forwarded-proto') ?? (host.startsWith('localhost') ? 'http' : 'https')
+  return `${proto}://${host}`
+}
+
 export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
   const { id } = await params
   const loaded = await loadPublicCard(id)
@@ -46,6 +64,11 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
     description: desc,
     openGraph: { title: q, description: desc, type: 'article' },
     twitter: { card: 'summary', title: q, description: desc },
+    alternates: {
+      types: {
+        'application/json+oembed': `/api/oembed?url=${encodeURIComponent(`${await requestOrigin()}/verified/${id}`)}`,
+      },
+    },
   }
 }
 
@@ -54,6 +77,13 @@ export default async function PublicAnswerCardPage({ params }: PageProps) {
   const loaded = await loadPublicCard(id)
   if (!loaded) notFound()
 
+  // Replay failures must never take the page down — the signed card is still
+  // worth showing without the reproducibility badge.
+  const report = loaded.signatureValid
+    ? await reverifyCard(loaded.card).catch(() => null)
+    : null
+  const driftedCount = report ? report.calls.filter((c) => c.status !== 'unchanged').length : 0
+
   const issued = new Date(loaded.created_at).toLocaleDateString(undefined, {
     year: 'numeric',
     month: 'short',
@@ -69,7 +99,14 @@ export default async function PublicAnswerCardPage({ params }: PageProps) {
       maxWidth="4xl"
     >
       <div className="mx-auto max-w-3xl w-full space-y-8">
-        {loaded.signatureValid ? (
+        {loaded.signatureStatus === 'key_revoked' ? (
+          <div className="inline-flex items-center gap-2 rounded-full border border-warning/40 bg-warning/10 px-4 py-2 text-sm text-warning-strong">
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v2m0 4h.01M5.07 19h13.86c1.54 0 2.5-1.67 1.73-3L13.73 4a2 2 0 00-3.46 0L3.34 16c-.77 1.33.19 3 1.73 3z" />
+            </svg>
+            Signature key revoked — this card&apos;s signature is no longer trusted.
+          </div>
+        ) : loaded.signatureValid ? (
           <div className="inline-flex items-center gap-2 rounded-full border border-success/30 bg-success/10 px-4 py-2 text-sm text-success-strong">
             <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
               <path strokeLinecap="round" strokeLinejoin="round" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -85,12 +122,35 @@ export default async function PublicAnswerCardPage({ params }: PageProps) {
           </div>
         )}
 
+        {report &&
+          (report.reproduces ? (
+            <div className="inline-flex items-center gap-2 rounded-full border border-success/30 bg-success/10 px-4 py-2 text-sm text-success-strong">
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              Still reproduces with engine {report.engine_version}
+            </div>
+          ) : (
+            <div className="inline-flex items-center gap-2 rounded-full border border-warning/30 bg-warning/10 px-4 py-2 text-sm text-warning-strong">
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              {driftedCount} of {report.calls.length} result(s) differ under engine {report.engine_version}
+            </div>
+          ))}
+
         {/* Signed card — AnswerCardView owns all verified/tampered/signature
             presentation (now theme-adaptive via tokens). */}
         <div className="rounded-lg border border-border bg-card p-6 md:p-8">
-          <AnswerCardView card={loaded.card} signatureValid={loaded.signatureValid} />
+          <AnswerCardView
+            card={loaded.card}
+            signatureValid={loaded.signatureValid}
+            signatureStatus={loaded.signatureStatus}
+          />
         </div>
 
+        {loaded.signatureValid && <ExportCardControls id={id} />}
+
         {/* CTA: verify chemistry yourself */}
         <div className="text-center">
           <p className="text-muted-foreground mb-3 text-sm">
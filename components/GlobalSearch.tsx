@@ -66,6 +66,22 @@ const CALCULATORS: SearchResult[] = [
     url: '/kinetics',
     icon: <Calculator className="w-5 h-5" />,
   },
+  {
+    id: 'speciation',
+    title: 'Acid-Base Speciation Calculator',
+    description: 'Alpha fractions, distribution diagrams, mixture pH',
+    category: 'calculator',
+    url: '/speciation',
+    icon: <Calculator className="w-5 h-5" />,
+  },
+  {
+    id: 'equilibrium',
+    title: 'Chemical Equilibrium Calculator',
+    description: 'ICE tables, reaction quotient Q, Kc ↔ Kp',
+    category: 'calculator',
+    url: '/equilibrium',
+    icon: <Calculator className="w-5 h-5" />,
+  },
   {
     id: 'electrochemistry',
     title: 'Electrochemistry Calculator',
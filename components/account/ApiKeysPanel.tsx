@@ -0,0 +1,210 @@
+'use client'
+
+/**
+ * Developer API keys panel for /account.
+ *
+ * Lists the user's keys with this month's usage against the plan quota,
+ * creates keys (POST /api/api-keys — the plaintext is shown once, here) and
+ * revokes them (DELETE /api/api-keys/[id]). Tiers without an API quota see an
+ * upgrade notice instead of the create form.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, SectionTitle, Button, Field, ErrorBanner } from '@/components/lab'
+import type { ApiKeySummary } from '@/lib/api-keys'
+
+interface ApiKeysResponse {
+  tier: string
+  monthlyLimit: number
+  canCreate: boolean
+  maxActiveKeys: number
+  keys: ApiKeySummary[]
+}
+
+function formatDate(iso: string | null): string {
+  if (!iso) return 'Never'
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+export default function ApiKeysPanel() {
+  const [data, setData] = useState<ApiKeysResponse | null>(null)
+  const [name, setName] = useState('')
+  const [newKey, setNewKey] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/api-keys')
+      if (!res.ok) {
+        setError('Could not load API keys.')
+        return
+      }
+      setData((await res.json()) as ApiKeysResponse)
+    } catch {
+      setError('Network error while loading API keys.')
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const create = async () => {
+    setBusy(true)
+    setError(null)
+    setNewKey(null)
+    try {
+      const res = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        setError(body.error || 'Could not create the key.')
+        return
+      }
+      setNewKey(body.key)
+      setName('')
+      await load()
+    } catch {
+      setError('Network error while creating the key.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const revoke = async (key: ApiKeySummary) => {
+    if (!window.confirm(`Revoke "${key.name}"? Requests using it will fail immediately.`)) return
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/api-keys/${key.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        setError(body.error || 'Could not revoke the key.')
+        return
+      }
+      await load()
+    } catch {
+      setError('Network error while revoking the key.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const copyKey = async () => {
+    if (!newKey) return
+    try {
+      await navigator.clipboard.writeText(newKey)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      setError('Could not copy. Select and copy the key manually.')
+    }
+  }
+
+  const activeCount = data?.keys.filter((k) => !k.revoked_at).length ?? 0
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div>
+        <SectionTitle>API keys</SectionTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          Send a key as <code className="font-mono">X-API-Key</code> to call the{' '}
+          <Link href="/api/chemistry" className="text-primary-600 hover:text-primary-500">
+            chemistry API
+          </Link>{' '}
+          on your plan&apos;s monthly quota instead of the shared anonymous limit.
+        </p>
+      </div>
+
+      {error && <ErrorBanner>{error}</ErrorBanner>}
+
+      {data && !data.canCreate && (
+        <p className="rounded-md border border-border bg-muted p-4 text-sm text-muted-foreground">
+          API keys are available on Professional and Enterprise plans. Your current plan is{' '}
+          <span className="font-medium text-foreground capitalize">{data.tier}</span>.
+        </p>
+      )}
+
+      {data?.canCreate && (
+        <div className="flex flex-wrap items-end gap-3">
+          <Field label="Key name" htmlFor="api-key-name" className="flex-1 min-w-[12rem]">
+            <input
+              id="api-key-name"
+              className="input-premium w-full"
+              value={name}
+              maxLength={50}
+              placeholder="e.g. Lab notebook script"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </Field>
+          <Button
+            onClick={create}
+            disabled={busy || name.trim() === '' || activeCount >= data.maxActiveKeys}
+          >
+            {busy ? 'Working…' : 'Create key'}
+          </Button>
+        </div>
+      )}
+
+      {newKey && (
+        <div className="rounded-md border border-success/40 bg-success/10 p-4 space-y-2">
+          <p className="text-sm font-medium text-success-strong">
+            Copy this key now — it will not be shown again.
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <code className="flex-1 break-all rounded-md border border-border bg-card px-3 py-2 font-mono text-sm text-foreground">
+              {newKey}
+            </code>
+            <Button variant="secondary" onClick={copyKey}>
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {data && data.keys.length > 0 && (
+        <ul className="divide-y divide-border rounded-md border border-border">
+          {data.keys.map((key) => (
+            <li key={key.id} className="flex flex-wrap items-center justify-between gap-3 p-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-foreground truncate">{key.name}</span>
+                  {key.revoked_at && (
+                    <span className="rounded-md border border-border px-1.5 py-0.5 text-xs text-muted-foreground">
+                      Revoked
+                    </span>
+                  )}
+                </div>
+                <div className="font-mono text-xs text-muted-foreground">
+                  {key.prefix}… · <span className="capitalize">{key.tier}</span> · created {formatDate(key.created_at)} ·
+                  last used {formatDate(key.last_used_at)}
+                </div>
+              </div>
+              <div className="flex items-center gap-4">
+                <div className="text-right">
+                  <div className="font-mono text-sm text-foreground">
+                    {key.usage.requests.toLocaleString()} / {key.usage.limit.toLocaleString()}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {key.usage.month} · {key.usage.total.toLocaleString()} total
+                  </div>
+                </div>
+                {!key.revoked_at && (
+                  <Button variant="ghost" onClick={() => revoke(key)} disabled={busy}>
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  )
+}
@@ -1,7 +1,9 @@
 'use client'
 
 import React from 'react'
-import type { AnswerCard, CardStatus } from '@/lib/answer-cards/types'
+import Link from 'next/link'
+import type { AnswerCard, CardStatus, SignatureStatus, ToolCall } from '@/lib/answer-cards/types'
+import { parseCardSignature } from '@/lib/answer-cards/verify-offline'
 
 interface AnswerCardViewProps {
   card: AnswerCard
@@ -13,11 +15,25 @@ interface AnswerCardViewProps {
    * never present a VERIFIED badge.
    */
   signatureValid?: boolean
+  /**
+   * Finer-grained result of the same check. `key_revoked` → the card was signed
+   * under a key that has since been revoked: shown distinctly from tampering.
+   */
+  signatureStatus?: SignatureStatus
 }
 
 function truncateSignature(sig: string): string {
-  if (sig.length <= 16) return sig
-  return `${sig.slice(0, 8)}…${sig.slice(-8)}`
+  const parsed = parseCardSignature(sig)
+  const value = parsed ? parsed.value : sig
+  if (value.length <= 16) return value
+  return `${value.slice(0, 8)}…${value.slice(-8)}`
+}
+
+/** Human label for the signing scheme (Ed25519 cards are verifiable offline). */
+function signatureScheme(sig: string): string {
+  const parsed = parseCardSignature(sig)
+  if (!parsed) return 'unknown scheme'
+  return parsed.scheme === 'ed25519' ? `Ed25519 · key ${parsed.kid}` : 'HMAC-SHA256'
 }
 
 function statusBadge(status: CardStatus): {
@@ -84,9 +100,62 @@ function statusBadge(status: CardStatus): {
   }
 }
 
-export default function AnswerCardView({ card, signatureValid }: AnswerCardViewProps) {
+/**
+ * Engine results, one panel per tool call. Shared by the finished card and the
+ * live progress list while a card is streaming in (`live` animates arrivals).
+ */
+export function ToolCallList({ toolCalls, live = false }: { toolCalls: ToolCall[]; live?: boolean }) {
+  return (
+    <div className="space-y-4">
+      {toolCalls.map((tc, idx) => (
+        <div
+          key={`${tc.name}-${idx}`}
+          className={`rounded-xl border p-4 ${live ? 'animate-in fade-in slide-in-from-bottom-2 duration-300 ' : ''}${
+            tc.result?.ok
+              ? 'border-success/20 bg-success/5'
+              : 'border-destructive/20 bg-destructive/5'
+          }`}
+        >
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-foreground">{tc.engine}</span>
+            <span className="text-xs text-muted-foreground">{tc.name}</span>
+          </div>
+
+          <div className="grid gap-2 text-sm">
+            <div>
+              <span className="text-muted-foreground">Inputs:</span>{' '}
+              <code className="rounded bg-muted px-1.5 py-0.5 text-foreground">
+                {JSON.stringify(tc.input)}
+              </code>
+            </div>
+            {tc.result?.ok ? (
+              <div>
+                <span className="text-muted-foreground">Result:</span>{' '}
+                <code className="rounded bg-success/10 px-1.5 py-0.5 text-success-strong">
+                  {JSON.stringify(tc.result.value)}
+                </code>
+              </div>
+            ) : (
+              <div className="text-destructive-strong">
+                <span className="text-muted-foreground">Error:</span> {tc.result?.error}
+              </div>
+            )}
+            {tc.citation && (
+              <div className="text-xs text-muted-foreground mt-1">
+                Citation: {tc.citation}
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default function AnswerCardView({ card, signatureValid, signatureStatus }: AnswerCardViewProps) {
   const badge = statusBadge(card.status)
-  const tampered = signatureValid === false
+  const keyRevoked = signatureStatus === 'key_revoked'
+  const tampered = signatureValid === false && !keyRevoked
 
   // Defense in depth: a tampered/corrupt loaded card could carry malformed
   // tool_calls/audit. The data layer already falls back to a safe empty card,
@@ -95,6 +164,9 @@ export default function AnswerCardView({ card, signatureValid }: AnswerCardViewP
     ? card.tool_calls.filter((tc) => !!tc && typeof tc === 'object')
     : []
   const audit = card.audit ?? { clean: true, unmatched: [] }
+  const unitMismatches = Array.isArray(audit.unit_mismatches)
+    ? audit.unit_mismatches.filter((m) => typeof m === 'string')
+    : []
 
   return (
     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
@@ -117,9 +189,32 @@ export default function AnswerCardView({ card, signatureValid }: AnswerCardViewP
         </div>
       )}
 
+      {/* KEY REVOKED banner — not a forgery, but the signing key is no longer trusted */}
+      {keyRevoked && (
+        <div
+          role="alert"
+          className="rounded-xl border border-warning/40 bg-warning/10 p-4 text-sm text-warning-strong"
+        >
+          <div className="flex items-center gap-2 font-semibold text-warning-strong">
+            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+            </svg>
+            Signature key revoked
+          </div>
+          <p className="mt-1 text-warning-strong">
+            This card was signed with a key VerChem has since revoked, so its signature can no longer
+            vouch for the values below. Regenerate the answer to get a currently signed card.
+          </p>
+        </div>
+      )}
+
       {/* Header: Verification badge */}
       <div className="flex flex-wrap items-center gap-3">
-        {tampered ? (
+        {keyRevoked ? (
+          <span className="inline-flex items-center gap-1.5 rounded-full border border-warning/40 bg-warning/10 px-3 py-1 text-sm font-medium text-warning-strong">
+            SIGNATURE KEY REVOKED
+          </span>
+        ) : tampered ? (
           <span className="inline-flex items-center gap-1.5 rounded-full border border-destructive/40 bg-destructive/10 px-3 py-1 text-sm font-medium text-destructive-strong">
             <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
               <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
@@ -153,47 +248,23 @@ export default function AnswerCardView({ card, signatureValid }: AnswerCardViewP
             </svg>
             Verified Engine Results
           </h3>
-          {toolCalls.map((tc, idx) => (
-            <div
-              key={`${tc.name}-${idx}`}
-              className={`rounded-xl border p-4 ${
-                tc.result?.ok
-                  ? 'border-success/20 bg-success/5'
-                  : 'border-destructive/20 bg-destructive/5'
-              }`}
-            >
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium text-foreground">{tc.engine}</span>
-                <span className="text-xs text-muted-foreground">{tc.name}</span>
-              </div>
+          <ToolCallList toolCalls={toolCalls} />
+        </div>
+      )}
 
-              <div className="grid gap-2 text-sm">
-                <div>
-                  <span className="text-muted-foreground">Inputs:</span>{' '}
-                  <code className="rounded bg-muted px-1.5 py-0.5 text-foreground">
-                    {JSON.stringify(tc.input)}
-                  </code>
-                </div>
-                {tc.result?.ok ? (
-                  <div>
-                    <span className="text-muted-foreground">Result:</span>{' '}
-                    <code className="rounded bg-success/10 px-1.5 py-0.5 text-success-strong">
-                      {JSON.stringify(tc.result.value)}
-                    </code>
-                  </div>
-                ) : (
-                  <div className="text-destructive-strong">
-                    <span className="text-muted-foreground">Error:</span> {tc.result?.error}
-                  </div>
-                )}
-                {tc.citation && (
-                  <div className="text-xs text-muted-foreground mt-1">
-                    Citation: {tc.citation}
-                  </div>
-                )}
-              </div>
-            </div>
-          ))}
+      {/* Unit mismatch — the status was already downgraded to PARTIAL when signed */}
+      {unitMismatches.length > 0 && (
+        <div
+          role="status"
+          aria-label="Audit warning: unit mismatch in explanation"
+          className="rounded-xl border border-warning/20 bg-warning/5 p-3 text-sm text-warning-strong"
+        >
+          <span className="font-medium">Unit mismatch:</span> The explanation quotes engine figure(s) in the wrong unit. Use the units shown in the Verified Engine Results above.
+          <ul className="mt-2 list-disc pl-5 font-mono text-xs">
+            {unitMismatches.map((mismatch) => (
+              <li key={mismatch}>{mismatch}</li>
+            ))}
+          </ul>
         </div>
       )}
 
@@ -243,6 +314,17 @@ export default function AnswerCardView({ card, signatureValid }: AnswerCardViewP
             )}
           </div>
           <code className="text-xs text-muted-foreground break-all">{truncateSignature(card.signature)}</code>
+          <p className="mt-1 text-xs text-muted-foreground">
+            {signatureScheme(card.signature)}
+            {parseCardSignature(card.signature)?.scheme === 'ed25519' && (
+              <>
+                {' · '}
+                <Link href="/api/answer-cards/keys" className="underline hover:text-foreground">
+                  public keys for offline verification
+                </Link>
+              </>
+            )}
+          </p>
         </div>
       )}
 
@@ -1,14 +1,32 @@
 'use client'
 
 import React, { useState, useCallback } from 'react'
+import type { AnswerCard, CardStatus, ToolCall } from '@/lib/answer-cards/types'
+import { ToolCallList } from './AnswerCardView'
+
+/** What has streamed in so far while a card is being generated. */
+export interface AnswerProgress {
+  toolCalls: ToolCall[]
+  /** Set once the explanation has been audited — the card is being signed. */
+  audit: { audit: AnswerCard['audit']; status: CardStatus } | null
+}
 
 export interface AskBoxProps {
   onSubmit: (question: string) => void
   isLoading: boolean
   error: string | null
+  /** Live progress from the streaming endpoint; omit for the plain spinner. */
+  progress?: AnswerProgress | null
+}
+
+function progressLabel(progress: AnswerProgress): string {
+  if (progress.audit) return 'Audit complete — signing the card...'
+  const n = progress.toolCalls.length
+  if (n === 0) return 'Reading the question...'
+  return `${n} engine result${n === 1 ? '' : 's'} so far — waiting for the explanation...`
 }
 
-export default function AskBox({ onSubmit, isLoading, error }: AskBoxProps) {
+export default function AskBox({ onSubmit, isLoading, error, progress }: AskBoxProps) {
   const [question, setQuestion] = useState('')
 
   const handleSubmit = useCallback(
@@ -62,6 +80,13 @@ export default function AskBox({ onSubmit, isLoading, error }: AskBoxProps) {
         )}
       </button>
 
+      {isLoading && progress && (
+        <div aria-live="polite" className="space-y-3">
+          <p className="text-sm text-muted-foreground">{progressLabel(progress)}</p>
+          {progress.toolCalls.length > 0 && <ToolCallList toolCalls={progress.toolCalls} live />}
+        </div>
+      )}
+
       {error && (
         <div
           role="alert"
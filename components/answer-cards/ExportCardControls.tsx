@@ -0,0 +1,108 @@
+'use client'
+
+/**
+ * Print / embed controls for a PUBLIC answer card (/verified/[id]).
+ *
+ * PDF → GET /api/answer-cards/[id]/export?format=pdf (download; Student
+ * plan or higher — a 402 shows its message instead).
+ * Embed → copies either the self-contained HTML snippet (?format=html, for
+ * LMS editors that accept raw HTML) or the card link, which oEmbed-aware
+ * sites expand into a rich preview on their own.
+ */
+
+import { useState, useCallback } from 'react'
+
+interface ExportCardControlsProps {
+  id: string
+}
+
+export default function ExportCardControls({ id }: ExportCardControlsProps) {
+  const [copied, setCopied] = useState<'html' | 'link' | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const flash = (what: 'html' | 'link') => {
+    setCopied(what)
+    setTimeout(() => setCopied(null), 2000)
+  }
+
+  const copyHtml = useCallback(async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/answer-cards/${id}/export?format=html`)
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setError(data.error || 'Could not export this card.')
+        return
+      }
+      await navigator.clipboard.writeText(await res.text())
+      flash('html')
+    } catch {
+      setError('Could not copy the embed HTML.')
+    } finally {
+      setBusy(false)
+    }
+  }, [id])
+
+  const downloadPdf = useCallback(async () => {
+    setBusy(true)
+    setError(null)
+    try {
+      const res = await fetch(`/api/answer-cards/${id}/export?format=pdf`)
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setError(data.error || 'Could not export this card.')
+        return
+      }
+      const url = URL.createObjectURL(await res.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `verchem-answer-${id.slice(0, 8)}.pdf`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch {
+      setError('Could not download the PDF.')
+    } finally {
+      setBusy(false)
+    }
+  }, [id])
+
+  const copyLink = useCallback(async () => {
+    setError(null)
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/verified/${id}`)
+      flash('link')
+    } catch {
+      setError('Could not copy. Select and copy the link manually.')
+    }
+  }, [id])
+
+  const buttonClass =
+    'inline-flex items-center gap-1.5 rounded-lg border border-border bg-card px-3 py-2 text-xs font-medium text-foreground transition-colors hover:bg-muted disabled:opacity-50'
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="text-sm text-muted-foreground">
+          Print or embed this card — each copy carries a QR code back to this page.
+        </span>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={downloadPdf} disabled={busy} className={buttonClass}>
+            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 10v6m0 0l-3-3m3 3l3-3M6 20h12a2 2 0 002-2V8l-6-6H6a2 2 0 00-2 2v14a2 2 0 002 2z" />
+            </svg>
+            Download PDF
+          </button>
+          <button onClick={copyHtml} disabled={busy} className={buttonClass}>
+            {copied === 'html' ? 'Copied!' : busy ? 'Preparing…' : 'Copy embed HTML'}
+          </button>
+          <button onClick={copyLink} className={buttonClass}>
+            {copied === 'link' ? 'Copied!' : 'Copy link'}
+          </button>
+        </div>
+      </div>
+      {error && <p className="mt-3 text-sm text-destructive-strong">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+'use client'
+
+import { useRef, useEffect } from 'react'
+import type { DistributionDiagram as DistributionDiagramData } from '@/lib/calculations/speciation'
+
+// ============================================
+// Types
+// ============================================
+interface DistributionDiagramProps {
+  diagram: DistributionDiagramData
+  highlightPH?: number
+  width?: number
+  height?: number
+}
+
+// One color per species, fully protonated first
+const SPECIES_COLORS = ['#dc2626', '#f59e0b', '#10b981', '#3b82f6', '#8b5cf6', '#64748b']
+
+// ============================================
+// Distribution Diagram Component
+// ============================================
+export default function DistributionDiagram({
+  diagram,
+  highlightPH,
+  width = 600,
+  height = 350,
+}: DistributionDiagramProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  const pHMin = diagram.points[0].pH
+  const pHMax = diagram.points[diagram.points.length - 1].pH
+
+  // Draw graph
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = width * dpr
+    canvas.height = height * dpr
+    canvas.style.width = `${width}px`
+    canvas.style.height = `${height}px`
+    ctx.scale(dpr, dpr)
+
+    // Margins
+    const margin = { top: 30, right: 30, bottom: 50, left: 60 }
+    const plotWidth = width - margin.left - margin.right
+    const plotHeight = height - margin.top - margin.bottom
+
+    // Clear canvas
+    ctx.fillStyle = '#f8fafc'
+    ctx.fillRect(0, 0, width, height)
+
+    // Scale functions
+    const scaleX = (pH: number) => margin.left + ((pH - pHMin) / (pHMax - pHMin)) * plotWidth
+    const scaleY = (alpha: number) => margin.top + plotHeight - alpha * plotHeight
+
+    // Draw grid
+    ctx.strokeStyle = '#e2e8f0'
+    ctx.lineWidth = 1
+
+    // Vertical grid lines (one per pH unit)
+    for (let pH = Math.ceil(pHMin); pH <= pHMax; pH++) {
+      const x = scaleX(pH)
+      ctx.beginPath()
+      ctx.moveTo(x, margin.top)
+      ctx.lineTo(x, margin.top + plotHeight)
+      ctx.stroke()
+    }
+
+    // Horizontal grid lines
+    const yTicks = 5
+    for (let i = 0; i <= yTicks; i++) {
+      const y = margin.top + (i / yTicks) * plotHeight
+      ctx.beginPath()
+      ctx.moveTo(margin.left, y)
+      ctx.lineTo(margin.left + plotWidth, y)
+      ctx.stroke()
+    }
+
+    // Draw axes
+    ctx.strokeStyle = '#475569'
+    ctx.lineWidth = 2
+
+    // X-axis
+    ctx.beginPath()
+    ctx.moveTo(margin.left, margin.top + plotHeight)
+    ctx.lineTo(margin.left + plotWidth, margin.top + plotHeight)
+    ctx.stroke()
+
+    // Y-axis
+    ctx.beginPath()
+    ctx.moveTo(margin.left, margin.top)
+    ctx.lineTo(margin.left, margin.top + plotHeight)
+    ctx.stroke()
+
+    // pKa lines: adjacent species cross at α = 0.5
+    ctx.strokeStyle = '#94a3b8'
+    ctx.lineWidth = 1
+    ctx.setLineDash([5, 5])
+    ctx.fillStyle = '#64748b'
+    ctx.font = '11px Arial'
+    ctx.textAlign = 'center'
+    diagram.pKaValues.forEach((pKa, i) => {
+      if (pKa < pHMin || pKa > pHMax) return
+      const x = scaleX(pKa)
+      ctx.beginPath()
+      ctx.moveTo(x, margin.top)
+      ctx.lineTo(x, margin.top + plotHeight)
+      ctx.stroke()
+      ctx.fillText(`pKa${i + 1} ${pKa.toFixed(2)}`, x, margin.top - 8)
+    })
+    ctx.setLineDash([])
+
+    // Draw one curve per species
+    diagram.species.forEach((_, s) => {
+      ctx.strokeStyle = SPECIES_COLORS[s % SPECIES_COLORS.length]
+      ctx.lineWidth = 3
+      ctx.beginPath()
+      diagram.points.forEach((point, i) => {
+        const x = scaleX(point.pH)
+        const y = scaleY(point.alphas[s])
+        if (i === 0) {
+          ctx.moveTo(x, y)
+        } else {
+          ctx.lineTo(x, y)
+        }
+      })
+      ctx.stroke()
+    })
+
+    // Highlight the chosen pH
+    if (highlightPH !== undefined && highlightPH >= pHMin && highlightPH <= pHMax) {
+      const hx = scaleX(highlightPH)
+      ctx.strokeStyle = '#1e293b'
+      ctx.lineWidth = 2
+      ctx.setLineDash([4, 4])
+      ctx.beginPath()
+      ctx.moveTo(hx, margin.top)
+      ctx.lineTo(hx, margin.top + plotHeight)
+      ctx.stroke()
+      ctx.setLineDash([])
+
+      ctx.fillStyle = '#1e293b'
+      ctx.font = 'bold 11px Arial'
+      ctx.textAlign = 'left'
+      ctx.fillText(`pH ${highlightPH.toFixed(2)}`, hx + 6, margin.top + 14)
+    }
+
+    // Axis labels
+    ctx.fillStyle = '#475569'
+    ctx.font = 'bold 14px Arial'
+    ctx.textAlign = 'center'
+
+    // X-axis label
+    ctx.fillText('pH', margin.left + plotWidth / 2, height - 10)
+
+    // Y-axis label (rotated)
+    ctx.save()
+    ctx.translate(15, margin.top + plotHeight / 2)
+    ctx.rotate(-Math.PI / 2)
+    ctx.fillText('Fraction (α)', 0, 0)
+    ctx.restore()
+
+    // Axis tick labels
+    ctx.font = '12px Arial'
+    ctx.fillStyle = '#64748b'
+
+    // X-axis ticks
+    ctx.textAlign = 'center'
+    for (let pH = Math.ceil(pHMin); pH <= pHMax; pH += 2) {
+      ctx.fillText(String(pH), scaleX(pH), margin.top + plotHeight + 20)
+    }
+
+    // Y-axis ticks
+    ctx.textAlign = 'right'
+    for (let i = 0; i <= yTicks; i++) {
+      const alpha = (yTicks - i) / yTicks
+      const y = margin.top + (i / yTicks) * plotHeight
+      ctx.fillText(alpha.toFixed(1), margin.left - 10, y + 4)
+    }
+  }, [diagram, highlightPH, width, height, pHMin, pHMax])
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-4 shadow-sm">
+      <canvas
+        ref={canvasRef}
+        style={{ width, height }}
+        className="rounded-lg"
+      />
+      <div className="mt-3 flex flex-wrap gap-4 text-sm text-muted-foreground">
+        {diagram.species.map((species, s) => (
+          <div key={species} className="flex items-center gap-2">
+            <span
+              className="inline-block w-5 h-1 rounded"
+              style={{ backgroundColor: SPECIES_COLORS[s % SPECIES_COLORS.length] }}
+            />
+            <span className="font-mono">{species}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
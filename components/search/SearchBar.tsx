@@ -1,9 +1,11 @@
 // VerChem Global Search Bar Component
 'use client'
 
-import React, { useState, useRef, useEffect, useCallback } from 'react'
+import React, { useState, useRef, useEffect, useCallback, useId } from 'react'
 import { MagnifyingGlassIcon, XMarkIcon, MicrophoneIcon } from '@heroicons/react/24/outline'
 import { useSearch } from '../../lib/search/context'
+import { parseSearchQuery } from '../../lib/search/query-language'
+import type { QueryParseError } from '../../lib/search/types'
 import { SearchSuggestions } from './SearchSuggestions'
 import { SearchFilters } from './SearchFilters'
 
@@ -29,6 +31,10 @@ export function SearchBar({
   const [query, setQuery] = useState(initialQuery)
   const [showSuggestions, setShowSuggestions] = useState(false)
   const [showAdvancedFilters, setShowAdvancedFilters] = useState(false)
+  // Parse errors with the query text they point into
+  const [checked, setChecked] = useState<{ text: string; errors: QueryParseError[] }>({ text: '', errors: [] })
+  const queryErrors = checked.errors
+  const errorsId = useId()
   const inputRef = useRef<HTMLInputElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   
@@ -56,6 +62,7 @@ export function SearchBar({
       } else {
         getSuggestions('')
       }
+      setChecked({ text: query, errors: parseSearchQuery(query).errors })
     }, 300)
 
     return () => clearTimeout(timer)
@@ -76,6 +83,14 @@ export function SearchBar({
   const handleSearch = useCallback(async (searchQuery: string = query) => {
     if (!searchQuery.trim()) return
 
+    // Don't run a query with clauses the engine would have to leave out
+    const errors = parseSearchQuery(searchQuery).errors
+    setChecked({ text: searchQuery, errors })
+    if (errors.length > 0) {
+      setShowSuggestions(false)
+      return
+    }
+
     await search(searchQuery, activeFilters, searchOptions)
     setShowSuggestions(false)
     onSearch?.(searchQuery)
@@ -136,6 +151,8 @@ export function SearchBar({
             isSearching ? 'opacity-75' : ''
           }`}
           autoFocus={autoFocus}
+          aria-invalid={queryErrors.length > 0}
+          aria-describedby={queryErrors.length > 0 ? errorsId : undefined}
         />
         
         <div className="absolute inset-y-0 right-0 flex items-center pr-2 space-x-1">
@@ -194,6 +211,18 @@ export function SearchBar({
         </div>
       </div>
 
+      {/* Query syntax errors */}
+      {queryErrors.length > 0 && (
+        <ul id={errorsId} role="alert" className="mt-1 space-y-0.5 text-xs text-destructive-strong">
+          {queryErrors.map((error) => (
+            <li key={`${error.start}-${error.message}`}>
+              <span className="font-mono bg-destructive/10 rounded px-1">{checked.text.slice(error.start, error.end)}</span>{' '}
+              {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Suggestions dropdown */}
       {showSuggestions && (suggestions.length > 0 || query.trim()) && (
         <SearchSuggestions
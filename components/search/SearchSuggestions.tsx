@@ -155,7 +155,8 @@ export function SearchSuggestions({
                 • Use quotes for exact phrases: &quot;sodium chloride&quot;
               </div>
               <div>• Use NOT to exclude: acid NOT organic</div>
-              <div>• Use ranges: MW:100-200</div>
+              <div>• Use ranges with units: bp:50..120C, mw&lt;100</div>
+              <div>• Filter by element, state or hazard: contains:Cl state:liquid NOT ghs:06</div>
             </div>
           </div>
         </div>
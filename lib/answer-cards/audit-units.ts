@@ -0,0 +1,168 @@
+/**
+ * VerChem Answer Cards — Units for the Numeric Audit
+ *
+ * A bare-number audit accepts "0.25 L" against an engine result of 0.25 mL,
+ * and "25 °C" against 25 K. This module puts units on both sides:
+ *  - prose: the unit symbol written right after a number ("250 mL", "25 °C")
+ *  - tool data: a key suffix (volume_mL), the input-schema description
+ *    ("Pressure (atm)"), or a sibling `unit` string ({ pressure, unit: 'atm' })
+ *
+ * Unit definitions come from lib/units/types.ts and conversions from
+ * lib/units/conversions.ts. Anything these tables cannot read with confidence
+ * (compound units, bare "m", "%", "N") stays unannotated, and the audit falls
+ * back to the bare-number check for it.
+ */
+
+import { convert, type ConversionCategory } from '@/lib/units/conversions'
+import {
+  AMOUNT_UNITS,
+  CONCENTRATION_UNITS,
+  DENSITY_UNITS,
+  ENERGY_UNITS,
+  LENGTH_UNITS,
+  MASS_UNITS,
+  PRESSURE_UNITS,
+  TEMPERATURE_UNITS,
+  TIME_UNITS,
+  VOLUME_UNITS,
+  type UnitDefinition,
+} from '@/lib/units/types'
+
+export interface AuditUnit {
+  category: ConversionCategory
+  /** Unit key in lib/units/types.ts, e.g. 'mL', 'C', 'uM' */
+  key: string
+  /** Display symbol, e.g. 'mL', '°C', 'μM' */
+  symbol: string
+  /** Units convert only within a family: molar ≠ g/L ≠ ppm without a molar mass */
+  family: string
+}
+
+const UNIT_TABLES: Array<[ConversionCategory, Record<string, UnitDefinition>]> = [
+  ['temperature', TEMPERATURE_UNITS],
+  ['pressure', PRESSURE_UNITS],
+  ['volume', VOLUME_UNITS],
+  ['mass', MASS_UNITS],
+  ['length', LENGTH_UNITS],
+  ['energy', ENERGY_UNITS],
+  ['amount', AMOUNT_UNITS],
+  ['concentration', CONCENTRATION_UNITS],
+  ['density', DENSITY_UNITS],
+  ['time', TIME_UNITS],
+]
+
+// Concentration units with no molar-mass-free conversion between them.
+// Normality and percent are left out: both depend on what is dissolved.
+const CONCENTRATION_FAMILIES: Record<string, string> = {
+  M: 'molar', mM: 'molar', uM: 'molar', nM: 'molar', molL: 'molar',
+  gL: 'mass', mgL: 'mass', ugL: 'mass',
+  ppm: 'ratio', ppb: 'ratio',
+}
+
+// Symbols that mean something else in chemistry prose: molality (m),
+// normality / newton (N), percent (%), "in", days vs d-orbitals (d), tonne (t).
+const AMBIGUOUS_IN_PROSE = new Set(['m', 'N', '%', 'in', 'd', 't'])
+
+// ASCII and word spellings of the symbols above, mapped to the unit key.
+const PROSE_ALIASES: Record<string, string> = {
+  uL: 'uL', ug: 'ug', um: 'um', umol: 'umol', uM: 'uM', us: 'us',
+  cm3: 'cm3', m3: 'm3', torr: 'torr', 'mmol/L': 'mM', 'ug/L': 'ugL',
+  liter: 'L', liters: 'L', litre: 'L', litres: 'L',
+  milliliter: 'mL', milliliters: 'mL', millilitre: 'mL', millilitres: 'mL',
+  gram: 'g', grams: 'g', milligram: 'mg', milligrams: 'mg', kilogram: 'kg', kilograms: 'kg',
+  mole: 'mol', moles: 'mol', kelvin: 'K', atmosphere: 'atm', atmospheres: 'atm',
+  seconds: 's', minute: 'min', minutes: 'min', hour: 'h', hours: 'h',
+  joule: 'J', joules: 'J', kilojoule: 'kJ', kilojoules: 'kJ',
+  nanometer: 'nm', nanometers: 'nm', nanometre: 'nm', nanometres: 'nm',
+}
+
+// Key suffixes tool adapters use for units (volume_mL, temperature_K, mass_grams).
+// "ms" is absent on purpose: velocity_ms is metres per second.
+const KEY_SUFFIXES = new Set([
+  'K', 'C', 'F', 'atm', 'Pa', 'kPa', 'bar', 'mmHg', 'torr',
+  'L', 'mL', 'uL', 'g', 'mg', 'kg', 'ug', 'mol', 'mmol',
+  'M', 'mM', 'uM', 'nM', 'm', 'cm', 'mm', 'nm', 'pm',
+  'J', 'kJ', 'eV', 'cal', 'kcal', 's', 'min',
+])
+const KEY_SUFFIX_ALIASES: Record<string, string> = { grams: 'g' }
+
+const UNITS_BY_KEY = new Map<string, AuditUnit>()
+const UNITS_BY_SYMBOL = new Map<string, AuditUnit>()
+
+for (const [category, table] of UNIT_TABLES) {
+  for (const [key, definition] of Object.entries(table)) {
+    const family = category === 'concentration' ? CONCENTRATION_FAMILIES[key] : category
+    if (!family) continue
+    const symbol = definition.symbol.normalize('NFKC')
+    const unit: AuditUnit = { category, key, symbol, family }
+    UNITS_BY_KEY.set(key, unit)
+    if (!AMBIGUOUS_IN_PROSE.has(symbol)) UNITS_BY_SYMBOL.set(symbol, unit)
+  }
+}
+
+/**
+ * Resolve a written unit ("mL", "°C", "μmol", "liters") to its definition.
+ */
+export function unitFromSymbol(token: string): AuditUnit | null {
+  const normalized = token.normalize('NFKC').trim()
+  const bySymbol = UNITS_BY_SYMBOL.get(normalized)
+  if (bySymbol) return bySymbol
+  const alias = PROSE_ALIASES[normalized] ?? PROSE_ALIASES[normalized.toLowerCase()]
+  return alias ? UNITS_BY_KEY.get(alias) ?? null : null
+}
+
+// Unit token directly after a number: "250 mL", "25°C", "1.2 g/L".
+const UNIT_TOKEN = /^ ?([A-Za-z°μÅ][A-Za-z0-9°μÅ/]*)/
+// Part of a compound unit the tables do not model: "kJ mol-1", "J·K", "L/mol", "g per".
+const COMPOUND_TAIL = /^(?:[·*^/-]|\s+per\b|\s+mol\b|\s+[A-Za-z]+-\d)/
+
+/**
+ * Read the unit written right after a number that ends at `offset` in
+ * already-normalized audit text. Returns null for no unit, an unknown unit,
+ * or a compound unit.
+ */
+export function readUnitAfter(text: string, offset: number): { unit: AuditUnit; token: string } | null {
+  const rest = text.slice(offset)
+  const match = UNIT_TOKEN.exec(rest)
+  if (!match) return null
+  if (COMPOUND_TAIL.test(rest.slice(match[0].length))) return null
+  const unit = unitFromSymbol(match[1])
+  return unit ? { unit, token: match[1] } : null
+}
+
+/**
+ * Unit encoded in a tool data key: volume_mL → mL, mass_grams → g.
+ * Temperature differences (delta_tb_C) are skipped — a 5 °C rise is a 5 K rise,
+ * so converting them like absolute temperatures would be wrong.
+ */
+export function unitFromKey(key: string): AuditUnit | null {
+  const suffix = /_([A-Za-z]+)$/.exec(key)?.[1]
+  if (!suffix) return null
+  const unitKey = KEY_SUFFIX_ALIASES[suffix] ?? (KEY_SUFFIXES.has(suffix) ? suffix : undefined)
+  const unit = unitKey ? UNITS_BY_KEY.get(unitKey) ?? null : null
+  if (unit?.category === 'temperature' && /^delta/i.test(key)) return null
+  return unit
+}
+
+/**
+ * Unit named in parentheses in an input-schema description:
+ * "Initial volume (L)" → L, "Temperature in Kelvin (K). Default: 298.15 K" → K.
+ */
+export function unitFromDescription(description: string): AuditUnit | null {
+  for (const match of description.matchAll(/\(([^()]+)\)/g)) {
+    const unit = unitFromSymbol(match[1])
+    if (unit) return unit
+  }
+  return null
+}
+
+/**
+ * Convert `value` from one unit to another, or null when the two are not
+ * comparable (different category or concentration family).
+ */
+export function convertAuditUnit(value: number, from: AuditUnit, to: AuditUnit): number | null {
+  if (from.category !== to.category || from.family !== to.family) return null
+  if (from.key === to.key) return value
+  const converted = convert(value, from.key, to.key, from.category)
+  return Number.isFinite(converted) ? converted : null
+}
@@ -6,14 +6,28 @@
  * Precision-aware tolerance, thousands separator, standalone 10^n parsing.
  * Chemical formula subscripts stripped before number extraction.
  * Unicode digit defense: NFKC normalization + foreign-digit detection.
+ * Unit-aware: "0.25 L" is converted into the unit the tool reported (see
+ * audit-units.ts); a figure that only matches under a different unit is a
+ * unit mismatch, reported separately from untraced numbers.
  */
 
-import type { ToolCall } from './types'
+import type { CardAudit, ToolCall } from './types'
 import { ELEMENT_SYMBOLS } from './elements'
+import { TOOL_BY_NAME } from './tools/registry'
+import {
+  convertAuditUnit,
+  readUnitAfter,
+  unitFromDescription,
+  unitFromKey,
+  unitFromSymbol,
+  type AuditUnit,
+} from './audit-units'
 
-export interface AuditResult {
-  clean: boolean
-  unmatched: string[]
+export type AuditResult = CardAudit
+
+interface AnnotatedNumber {
+  value: number
+  unit: AuditUnit | null
 }
 
 /**
@@ -34,6 +48,57 @@ function collectNumbers(value: unknown, out: number[]): void {
   }
 }
 
+/**
+ * Collect numeric values together with the unit the tool reported for them.
+ * A key's own unit (suffix, or schema description at the top level) wins; a
+ * sibling `unit` string covers the one numeric sibling without a unit, or the
+ * siblings named after its quantity ({ pressure, unit: 'atm', a, b }).
+ */
+function collectAnnotatedNumbers(
+  value: unknown,
+  unit: AuditUnit | null,
+  out: AnnotatedNumber[],
+  schemaUnits?: Map<string, AuditUnit>
+): void {
+  if (value === null || value === undefined) return
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    out.push({ value, unit })
+    return
+  }
+  if (Array.isArray(value)) {
+    value.forEach((v) => collectAnnotatedNumbers(v, unit, out))
+    return
+  }
+  if (typeof value !== 'object') return
+
+  const entries = Object.entries(value as Record<string, unknown>)
+  const ownUnits = new Map<string, AuditUnit | null>(
+    entries.map(([key]) => [key, unitFromKey(key) ?? schemaUnits?.get(key) ?? null])
+  )
+  const record = value as Record<string, unknown>
+  const siblingUnit = typeof record.unit === 'string' ? unitFromSymbol(record.unit) : null
+  if (siblingUnit) {
+    const bare = entries.filter(([key, v]) => typeof v === 'number' && !ownUnits.get(key)).map(([key]) => key)
+    const targets = bare.length === 1 ? bare : bare.filter((key) => key.toLowerCase().includes(siblingUnit.category))
+    targets.forEach((key) => ownUnits.set(key, siblingUnit))
+  }
+  entries.forEach(([key, v]) => collectAnnotatedNumbers(v, ownUnits.get(key) ?? null, out))
+}
+
+/**
+ * Units named in a tool's input-schema descriptions, keyed by property name.
+ */
+function schemaUnitsFor(toolName: string): Map<string, AuditUnit> {
+  const units = new Map<string, AuditUnit>()
+  const properties = TOOL_BY_NAME.get(toolName)?.input_schema.properties
+  if (!properties || typeof properties !== 'object') return units
+  for (const [key, schema] of Object.entries(properties as Record<string, { description?: unknown }>)) {
+    const unit = typeof schema?.description === 'string' ? unitFromDescription(schema.description) : null
+    if (unit) units.set(key, unit)
+  }
+  return units
+}
+
 /**
  * Check if a token is a pure chemical formula (all symbols ∈ ELEMENT_SYMBOLS).
  * e.g. "H2O", "C6H12O6", "Fe2O3" → true
@@ -100,8 +165,10 @@ function detectForeignDigits(text: string): string[] {
  * Extract result-like numbers from explanation text.
  * Returns each number with its raw string for precision-aware matching.
  */
-function extractNumbersFromText(text: string): Array<{ value: number; raw: string }> {
-  const numbers: Array<{ value: number; raw: string }> = []
+function extractNumbersFromText(
+  text: string
+): Array<{ value: number; raw: string; unit: { unit: AuditUnit; token: string } | null }> {
+  const numbers: Array<{ value: number; raw: string; unit: { unit: AuditUnit; token: string } | null }> = []
 
   // Layer 1: NFKC normalize — converts fullwidth/compatibility digits to ASCII
   let normalized = text.normalize('NFKC')
@@ -125,7 +192,8 @@ function extractNumbersFromText(text: string): Array<{ value: number; raw: strin
   // Normalize scientific notation variants
   normalized = normalized
     .replace(/[×·x]\s*10\s*\^?\s*([+-]?\d+)/gi, 'e$1') // 1.8×10^-5 → e-5
-    .replace(/\b10\s*\^?\s*([+-]?\d+)\b/g, '1e$1')     // 10^-14 → 1e-14
+    // 10^-14 / 10⁻¹⁴ → 1e-14; needs a caret or a sign so 100 and 101.325 stay intact
+    .replace(/\b10(?:\s*\^\s*([+-]?\d+)|([+-]\d+))\b/g, (_m, caret, signed) => `1e${caret ?? signed}`)
     // Merge "1.34 e-3" → "1.34e-3"
     .replace(/(\d(?:\.\d+)?)\s+e\s*([+-]?\d)/g, '$1e$2')
 
@@ -137,7 +205,7 @@ function extractNumbersFromText(text: string): Array<{ value: number; raw: strin
     const raw = match[0]
     const num = Number(raw)
     if (!Number.isFinite(num)) continue
-    numbers.push({ value: num, raw })
+    numbers.push({ value: num, raw, unit: readUnitAfter(normalized, regex.lastIndex) })
   }
 
   return numbers
@@ -150,18 +218,25 @@ function extractNumbersFromText(text: string): Array<{ value: number; raw: strin
 function buildAllowlists(toolCalls: ToolCall[]): {
   resultValues: number[]
   inputValues: number[]
+  annotated: AnnotatedNumber[]
 } {
   const resultValues: number[] = []
   const inputValues: number[] = []
+  const annotated: AnnotatedNumber[] = []
 
   for (const tc of toolCalls) {
+    // Result keys that echo an input key (gas laws solve for P, V, n or T)
+    // carry the same schema unit.
+    const schemaUnits = schemaUnitsFor(tc.name)
     collectNumbers(tc.input, inputValues)
+    collectAnnotatedNumbers(tc.input, null, annotated, schemaUnits)
     if (tc.result.ok) {
       collectNumbers(tc.result.value, resultValues)
+      collectAnnotatedNumbers(tc.result.value, null, annotated, schemaUnits)
     }
   }
 
-  return { resultValues, inputValues }
+  return { resultValues, inputValues, annotated }
 }
 
 /**
@@ -208,12 +283,45 @@ function inAllowlist(
   return false
 }
 
+/**
+ * Trace a number written with a unit.
+ * 1. Convert every same-quantity tool value into the written unit and compare.
+ * 2. Otherwise accept a bare match against a value the tool gave no unit for.
+ * 3. Otherwise a bare match against a value in another unit is a mismatch.
+ */
+function traceWithUnit(
+  candidate: number,
+  candidateRaw: string,
+  unit: AuditUnit,
+  annotated: AnnotatedNumber[]
+): { traced: true } | { traced: false; reported?: AnnotatedNumber & { unit: AuditUnit } } {
+  for (const entry of annotated) {
+    if (!entry.unit) continue
+    const converted = convertAuditUnit(entry.value, entry.unit, unit)
+    if (converted !== null && isMatch(candidate, candidateRaw, converted)) return { traced: true }
+  }
+  const unannotated = annotated.filter((entry) => !entry.unit).map((entry) => entry.value)
+  if (inAllowlist(candidate, candidateRaw, unannotated)) return { traced: true }
+  const reported = annotated.find(
+    (entry): entry is AnnotatedNumber & { unit: AuditUnit } =>
+      entry.unit !== null && isMatch(candidate, candidateRaw, entry.value)
+  )
+  return { traced: false, reported }
+}
+
+function formatReported(value: number): string {
+  return String(Number(value.toPrecision(6)))
+}
+
 /**
  * Audit an explanation against tool call results.
  *
  * Returns:
  * - clean: true if every extracted number matches at least one allowlist
+ *   in a compatible unit
  * - unmatched: list of raw number strings that could not be traced
+ * - unit_mismatches (only when non-empty): figures that match a tool value
+ *   only under a different unit, e.g. "0.25 L (tool reported 0.25 mL)"
  */
 export function auditExplanation(explanation: string, toolCalls: ToolCall[]): AuditResult {
   if (!explanation || toolCalls.length === 0) {
@@ -224,11 +332,25 @@ export function auditExplanation(explanation: string, toolCalls: ToolCall[]): Au
   // Engine never outputs non-ASCII numerals → any foreign digit is automatically unmatched
   const foreignDigits = detectForeignDigits(explanation)
 
-  const { resultValues, inputValues } = buildAllowlists(toolCalls)
+  const { resultValues, inputValues, annotated } = buildAllowlists(toolCalls)
   const extracted = extractNumbersFromText(explanation)
   const unmatchedRaw: string[] = [...foreignDigits]
+  const unitMismatches: string[] = []
+
+  for (const { value, raw, unit } of extracted) {
+    if (unit) {
+      const trace = traceWithUnit(value, raw, unit.unit, annotated)
+      if (trace.traced) continue
+      if (trace.reported) {
+        unitMismatches.push(
+          `${raw} ${unit.token} (tool reported ${formatReported(trace.reported.value)} ${trace.reported.unit.symbol})`
+        )
+      } else {
+        unmatchedRaw.push(raw)
+      }
+      continue
+    }
 
-  for (const { value, raw } of extracted) {
     const inResults = inAllowlist(value, raw, resultValues)
     const inInputs = inAllowlist(value, raw, inputValues)
     if (!inResults && !inInputs) {
@@ -237,7 +359,8 @@ export function auditExplanation(explanation: string, toolCalls: ToolCall[]): Au
   }
 
   return {
-    clean: unmatchedRaw.length === 0,
+    clean: unmatchedRaw.length === 0 && unitMismatches.length === 0,
     unmatched: [...new Set(unmatchedRaw)], // dedupe
+    ...(unitMismatches.length > 0 ? { unit_mismatches: [...new Set(unitMismatches)] } : {}),
   }
 }
@@ -0,0 +1,121 @@
+/**
+ * VerChem Answer Cards — batch generation for problem sets
+ *
+ * Runs a worksheet of questions through askVerified with bounded concurrency
+ * and reports each card as soon as it finishes.
+ *
+ * - Quota: every question is admitted (in order) BEFORE any model call, so the
+ *   first N within the caller's quota run and the rest fail individually with
+ *   `rate_limit` — no model spend on questions that will not be answered.
+ * - Failures are per item: a service error on one question is classified
+ *   (AnswerServiceErrorKind + user-safe message + HTTP status) and recorded on
+ *   that item only. The batch itself always completes.
+ * - Cache: with `cache` set, repeated questions are served through
+ *   askVerifiedCached (re-executed and re-signed, never replayed verbatim).
+ */
+
+import { askVerifiedCached, type AnswerCardCache } from './cache'
+import {
+  classifyServiceError,
+  type AnswerServiceErrorKind,
+  type AskVerifiedOptions,
+} from './orchestrator'
+import type { AnswerCard } from './types'
+
+export const MAX_BATCH_QUESTIONS = 30
+export const BATCH_CONCURRENCY = 3
+
+export const QUOTA_EXCEEDED_MESSAGE =
+  'Daily verified-answer limit reached for your plan. Upgrade for a higher daily limit.'
+
+export interface BatchItemError {
+  kind: AnswerServiceErrorKind
+  error: string
+  status: number
+}
+
+export type AnswerCardBatchItem =
+  | { index: number; question: string; ok: true; card: AnswerCard }
+  | { index: number; question: string; ok: false; error: BatchItemError }
+
+/**
+ * Streamed by POST /api/answer-card/batch: `batch` first, one `item` per
+ * question in completion order, then `done`.
+ */
+export type AnswerCardBatchEvent =
+  | { type: 'batch'; batch_id: string; total: number }
+  | { type: 'item'; item: AnswerCardBatchItem }
+  | { type: 'done'; batch_id: string; succeeded: number; failed: number }
+
+export interface AnswerCardBatchResult {
+  batch_id: string
+  /** In question order, whatever order they finished in. */
+  items: AnswerCardBatchItem[]
+}
+
+export interface RunBatchOptions {
+  batchId?: string
+  /** Questions in flight at once. Default BATCH_CONCURRENCY. */
+  concurrency?: number
+  /**
+   * Quota gate, called once per question in order before anything runs.
+   * false → that item fails with `rate_limit` and is never sent to the model.
+   */
+  admit?: (index: number) => boolean
+  /** Model backend for every question (tests pass a scripted provider). */
+  ask?: Pick<AskVerifiedOptions, 'provider' | 'client'>
+  /** Answer cache shared by every question. None → every question asks the model. */
+  cache?: AnswerCardCache | null
+  onEvent?: (event: AnswerCardBatchEvent) => void
+}
+
+export function newBatchId(): string {
+  return `batch_${crypto.randomUUID()}`
+}
+
+export async function runAnswerCardBatch(
+  questions: string[],
+  opts: RunBatchOptions = {}
+): Promise<AnswerCardBatchResult> {
+  const batchId = opts.batchId ?? newBatchId()
+  const concurrency = Math.max(1, Math.floor(opts.concurrency ?? BATCH_CONCURRENCY))
+  const items: AnswerCardBatchItem[] = new Array(questions.length)
+  const emit = (event: AnswerCardBatchEvent) => opts.onEvent?.(event)
+
+  emit({ type: 'batch', batch_id: batchId, total: questions.length })
+
+  const finish = (item: AnswerCardBatchItem) => {
+    items[item.index] = item
+    emit({ type: 'item', item })
+  }
+
+  const queue: number[] = []
+  questions.forEach((question, index) => {
+    if (!opts.admit || opts.admit(index)) {
+      queue.push(index)
+    } else {
+      finish({ index, question, ok: false, error: { kind: 'rate_limit', error: QUOTA_EXCEEDED_MESSAGE, status: 429 } })
+    }
+  })
+
+  let next = 0
+  const worker = async () => {
+    while (next < queue.length) {
+      const index = queue[next++]
+      const question = questions[index]
+      try {
+        const { card } = await askVerifiedCached(question, { ...opts.ask, cache: opts.cache })
+        finish({ index, question, ok: true, card })
+      } catch (err) {
+        const svc = classifyServiceError(err)
+        console.error(`Answer-card batch ${batchId} item ${index} failed (${svc.kind}):`, err instanceof Error ? err.message : err)
+        finish({ index, question, ok: false, error: { kind: svc.kind, error: svc.publicMessage, status: svc.httpStatus } })
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker))
+
+  const succeeded = items.filter((item) => item.ok).length
+  emit({ type: 'done', batch_id: batchId, succeeded, failed: items.length - succeeded })
+  return { batch_id: batchId, items }
+}
@@ -0,0 +1,217 @@
+/**
+ * VerChem Answer Cards — answer cache in front of the orchestrator
+ *
+ * Identical questions ("molar mass of glucose") should not call the model
+ * every time. A VERIFIED card's model-authored parts — which tools were
+ * called with which inputs, and the prose — are cached under
+ *
+ *   sha256(VERSION · tool-registry hash · normalized question)
+ *
+ * so a prompt/engine version bump or any change to a tool's name, schema,
+ * description or citation starts a fresh cache.
+ *
+ * TRUST: nothing numeric is served from the cache. On a hit every tool call
+ * is re-executed against the CURRENT engines and the card is re-audited and
+ * freshly signed. If any re-executed result differs from the cached one (an
+ * engine fix changed a number), the prose may quote stale figures, so the
+ * entry is evicted and the question goes to the model again.
+ *
+ * Stores sit behind AnswerCardCache: the in-memory store here, and the
+ * Supabase table store in lib/supabase/answer-card-cache.ts. A store failure
+ * never fails a request — it degrades to an uncached answer.
+ */
+
+import type { AnswerCard, AnswerCardStreamEvent, ToolCall } from './types'
+import { askVerified, finalizeCard, runTool, VERSION, type AskVerifiedOptions } from './orchestrator'
+import { diffToolResult } from './reverify'
+import { ALL_TOOLS } from './tools/registry'
+
+export const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const DEFAULT_MEMORY_MAX_ENTRIES = 500
+
+/** The model-authored part of a verified card — everything else is recomputed. */
+export interface CachedAnswer {
+  key: string
+  /** Tool calls as signed when the entry was written (results compared on replay). */
+  tool_calls: ToolCall[]
+  explanation: string
+  model: string
+  version: string
+  created_at: string
+}
+
+export interface AnswerCardCache {
+  get(key: string): Promise<CachedAnswer | null>
+  set(entry: CachedAnswer): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+export type CacheOutcome = 'hit' | 'miss'
+
+/**
+ * Questions that differ only in case, whitespace, compatibility characters or
+ * trailing punctuation share a cache entry.
+ */
+export function normalizeCacheQuestion(question: string): string {
+  return question
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[\s?.!。？！]+$/u, '')
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+let registryHash: Promise<string> | null = null
+
+/**
+ * Hash of everything the model sees about the tools. Tool order and schema key
+ * order are fixed in code, so JSON.stringify is stable across processes.
+ */
+export function toolRegistryHash(): Promise<string> {
+  registryHash ??= sha256Hex(
+    JSON.stringify(
+      ALL_TOOLS.map((tool) => ({
+        name: tool.name,
+        engine: tool.engine,
+        description: tool.description,
+        input_schema: tool.input_schema,
+        citation: tool.citation,
+      }))
+    )
+  )
+  return registryHash
+}
+
+export async function answerCacheKey(question: string): Promise<string> {
+  return sha256Hex(`${VERSION}\n${await toolRegistryHash()}\n${normalizeCacheQuestion(question)}`)
+}
+
+/**
+ * In-memory store: per process (per serverless instance), least-recently-used
+ * eviction past `maxEntries`, entries expire after `ttlMs`.
+ */
+export function createMemoryCardCache(
+  opts: { maxEntries?: number; ttlMs?: number; now?: () => number } = {}
+): AnswerCardCache {
+  const maxEntries = opts.maxEntries ?? DEFAULT_MEMORY_MAX_ENTRIES
+  const ttlMs = opts.ttlMs ?? DEFAULT_CACHE_TTL_MS
+  const now = opts.now ?? Date.now
+  const entries = new Map<string, { entry: CachedAnswer; expiresAt: number }>()
+
+  return {
+    async get(key) {
+      const found = entries.get(key)
+      if (!found) return null
+      if (found.expiresAt <= now()) {
+        entries.delete(key)
+        return null
+      }
+      // Re-insert to mark as most recently used.
+      entries.delete(key)
+      entries.set(key, found)
+      return structuredClone(found.entry)
+    },
+    async set(entry) {
+      entries.delete(entry.key)
+      entries.set(entry.key, { entry: structuredClone(entry), expiresAt: now() + ttlMs })
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value
+        if (oldest === undefined) break
+        entries.delete(oldest)
+      }
+    },
+    async delete(key) {
+      entries.delete(key)
+    },
+  }
+}
+
+/**
+ * Re-execute the cached calls. Returns null when any call no longer
+ * reproduces its cached result exactly (see reverify.ts for the comparison),
+ * or when a stored call is malformed (a null element, a missing result) and
+ * cannot be replayed at all.
+ */
+function replayCachedCalls(entry: CachedAnswer): ToolCall[] | null {
+  const fresh: ToolCall[] = []
+  try {
+    for (const [index, cached] of entry.tool_calls.entries()) {
+      const call = runTool(cached.name, cached.input)
+      if (diffToolResult(cached, call.result, index).status !== 'unchanged') return null
+      fresh.push(call)
+    }
+  } catch (err) {
+    console.error('Answer cache entry could not be replayed:', err instanceof Error ? err.message : err)
+    return null
+  }
+  return fresh
+}
+
+export interface AskVerifiedCachedOptions extends AskVerifiedOptions {
+  /** No cache → plain askVerified. */
+  cache?: AnswerCardCache | null
+}
+
+/**
+ * askVerified with the answer cache in front. Emits the same stream events as
+ * askVerified on a hit (tool_call* → audit → card).
+ */
+export async function askVerifiedCached(
+  question: string,
+  opts: AskVerifiedCachedOptions = {}
+): Promise<{ card: AnswerCard; cache: CacheOutcome }> {
+  const { cache, ...askOpts } = opts
+  if (!cache) return { card: await askVerified(question, askOpts), cache: 'miss' }
+
+  const key = await answerCacheKey(question)
+  let entry: CachedAnswer | null = null
+  try {
+    entry = await cache.get(key)
+  } catch (err) {
+    console.error('Answer cache read failed:', err instanceof Error ? err.message : err)
+  }
+
+  if (entry && entry.version === VERSION && entry.tool_calls.length > 0) {
+    const toolCalls = replayCachedCalls(entry)
+    if (toolCalls) {
+      // Buffered: a hit that no longer verifies falls through to askVerified,
+      // which streams its own events.
+      const events: AnswerCardStreamEvent[] = toolCalls.map((call, index) => ({ type: 'tool_call', index, call }))
+      const card = await finalizeCard(question, toolCalls, entry.explanation, {
+        model: entry.model,
+        onEvent: (event) => events.push(event),
+      })
+      if (card.status === 'verified') {
+        events.forEach((event) => askOpts.onEvent?.(event))
+        return { card, cache: 'hit' }
+      }
+    }
+  }
+  if (entry) {
+    // Stale: an engine changed underneath the cached prose, or the entry is
+    // malformed. Ask the model again.
+    await cache.delete(key).catch(() => {})
+  }
+
+  const card = await askVerified(question, askOpts)
+  if (card.status === 'verified') {
+    try {
+      await cache.set({
+        key,
+        tool_calls: card.tool_calls,
+        explanation: card.explanation,
+        model: card.model,
+        version: card.version,
+        created_at: card.issued_at,
+      })
+    } catch (err) {
+      console.error('Answer cache write failed:', err instanceof Error ? err.message : err)
+    }
+  }
+  return { card, cache: 'miss' }
+}
@@ -0,0 +1,123 @@
+/**
+ * VerChem Answer Card — Canonical payload + encoding primitives
+ *
+ * Pure (no env, no server secret, no Node-only APIs) so the signing server and
+ * the standalone offline verifier share byte-identical serialization. Any
+ * divergence here would make every signature fail — or verify a different
+ * shape than was signed.
+ */
+
+import type { SignablePayload, AnswerCard } from './types'
+
+/**
+ * Reconstruct the exact signable payload from a card.
+ *
+ * SECURITY: signing (orchestrator) and verification (load / share) MUST build
+ * the payload through this single function. If the two ever diverged, every
+ * signature would fail to verify — or worse, verify a different shape than was
+ * signed. The `signature` field and the deprecated `verified` flag are excluded
+ * because they are not part of what is signed.
+ */
+export function toSignablePayload(card: Omit<AnswerCard, 'signature'>): SignablePayload {
+  return {
+    question: card.question,
+    status: card.status,
+    tool_calls: card.tool_calls.map((tc) => ({
+      name: tc.name,
+      engine: tc.engine,
+      input: tc.input,
+      result: tc.result,
+      citation: tc.citation,
+    })),
+    explanation: card.explanation,
+    audit: card.audit,
+    model: card.model,
+    version: card.version,
+    issued_at: card.issued_at,
+  }
+}
+
+/**
+ * Recursively sort object keys for stable serialization.
+ */
+function canonicalize(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(canonicalize)
+  }
+
+  // SECURITY: use a null-prototype accumulator. With a plain `{}`, assigning a
+  // key named "__proto__" hits Object.prototype's setter and mutates the
+  // prototype instead of creating an own property — so JSON.stringify would
+  // OMIT it, and a card with a tampered/injected `__proto__` field would
+  // produce the SAME canonical string (and thus verify). A null-proto object
+  // has no such setter, so "__proto__" / "constructor" become real own keys
+  // and are faithfully serialized. (JSON.parse can create an own "__proto__"
+  // key, so this is a reachable forgery vector.)
+  const sorted: Record<string, unknown> = Object.create(null)
+  const source = value as Record<string, unknown>
+  const keys = Object.keys(source).sort()
+  for (const key of keys) {
+    sorted[key] = canonicalize(source[key])
+  }
+  return sorted
+}
+
+/**
+ * The exact canonical string that gets signed for a payload.
+ *
+ * PERSISTENCE: store THIS string verbatim (as TEXT) alongside the signature.
+ * Re-deriving it from typed DB columns is fragile — a TIMESTAMPTZ round-trip
+ * or JSONB key/number normalization would change the bytes and break the HMAC.
+ * Storing the canonical string makes verification a pure string operation.
+ */
+export function canonicalPayloadString(payload: SignablePayload): string {
+  return JSON.stringify(canonicalize(payload))
+}
+
+/**
+ * Encode Uint8Array to base64url string.
+ */
+export function base64urlEncode(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/g, '')
+}
+
+/**
+ * Decode a base64url (or plain base64) string. Returns null on malformed input
+ * instead of throwing, so verifiers can treat junk as "invalid".
+ */
+export function base64urlDecode(value: string): Uint8Array<ArrayBuffer> | null {
+  if (!/^[A-Za-z0-9_+/-]*={0,2}$/.test(value)) return null
+  const b64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = b64 + '='.repeat((4 - (b64.length % 4)) % 4)
+  try {
+    const binary = atob(padded)
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+    return bytes
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Constant-time string comparison (prevents timing attacks).
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let result = 0
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return result === 0
+}
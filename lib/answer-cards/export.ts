@@ -0,0 +1,253 @@
+/**
+ * VerChem Answer Cards — printable / embeddable export
+ *
+ * Renders a signed card for use OUTSIDE the app: a self-contained HTML snippet
+ * (inline styles, inline SVG QR code — pastes into an LMS page as-is), the
+ * embed document served to iframes, and the oEmbed response that points at it.
+ * The PDF rendering lives in lib/export/pdf-export.ts and uses the same
+ * badge/row/citation helpers so paper and web show identical content.
+ *
+ * Every export carries a QR code and short link to /verified/[id]: the printed
+ * numbers are only as good as the signature, and the public page re-verifies
+ * it (and replays the engines) whenever someone scans the code.
+ */
+
+import type { AnswerCard, SignatureStatus, ToolCall } from './types'
+import { encodeQRCode, qrCodeToSvg } from '@/lib/export/qr-code'
+
+export interface CardExportOptions {
+  /** Public page the QR code and link point to: https://host/verified/<id> */
+  url: string
+  /** Result of re-checking the stored signature. Omit for a freshly signed card. */
+  signatureStatus?: SignatureStatus
+}
+
+export type ExportBadgeTone = 'success' | 'warning' | 'danger'
+
+export interface ExportBadge {
+  label: string
+  tone: ExportBadgeTone
+  note?: string
+}
+
+export interface ExportToolRow {
+  index: number
+  engine: string
+  tool: string
+  inputs: string
+  /** Engine output, or the engine's error message when `ok` is false. */
+  result: string
+  ok: boolean
+  /** 1-based position in exportCitations(), or null for a call without one. */
+  citation: number | null
+}
+
+/** Mirrors AnswerCardView: a signature problem overrides the card's own status. */
+export function exportBadge(card: AnswerCard, signatureStatus?: SignatureStatus): ExportBadge {
+  if (signatureStatus === 'key_revoked') {
+    return { label: 'SIGNATURE KEY REVOKED', tone: 'warning', note: 'Signed with a key VerChem has since revoked.' }
+  }
+  if (signatureStatus === 'tampered') {
+    return { label: 'SIGNATURE INVALID', tone: 'danger', note: 'This card may have been altered. Do not trust these values.' }
+  }
+  switch (card.status) {
+    case 'verified':
+      return { label: 'VERIFIED', tone: 'success' }
+    case 'partial':
+      return { label: 'PARTIALLY VERIFIED', tone: 'warning', note: 'Some calculations failed or the response may be incomplete.' }
+    case 'error':
+      return { label: 'CALCULATION ERROR', tone: 'danger', note: 'All calculations failed. The explanation is conceptual only.' }
+    case 'unverified':
+    default:
+      return { label: 'UNVERIFIED', tone: 'warning', note: 'No calculation engine was used. This is a conceptual answer.' }
+  }
+}
+
+export function answerCardUrl(origin: string, id: string): string {
+  return `${origin.replace(/\/+$/, '')}/verified/${id}`
+}
+
+/** The link as printed under the QR code: no scheme, no trailing slash. */
+export function shortLink(url: string): string {
+  return url.replace(/^https?:\/\//, '').replace(/\/+$/, '')
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value
+  return JSON.stringify(value) ?? String(value)
+}
+
+function formatRecord(record: Record<string, unknown>): string {
+  const entries = Object.entries(record ?? {})
+  if (entries.length === 0) return '—'
+  return entries.map(([key, value]) => `${key}: ${formatValue(value)}`).join(', ')
+}
+
+/** Distinct citations, in first-use order. */
+export function exportCitations(toolCalls: ToolCall[]): string[] {
+  return [...new Set(toolCalls.map((tc) => tc.citation).filter(Boolean))]
+}
+
+export function exportToolRows(toolCalls: ToolCall[]): ExportToolRow[] {
+  const citations = exportCitations(toolCalls)
+  return toolCalls.map((tc, i) => ({
+    index: i + 1,
+    engine: tc.engine,
+    tool: tc.name,
+    inputs: formatRecord(tc.input),
+    result: tc.result.ok ? formatRecord(tc.result.value) : `Error: ${tc.result.error ?? 'failed'}`,
+    ok: tc.result.ok,
+    citation: tc.citation ? citations.indexOf(tc.citation) + 1 : null,
+  }))
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+const TONE_STYLES: Record<ExportBadgeTone, string> = {
+  success: 'color:#166534;background:#dcfce7;border:1px solid #86efac',
+  warning: 'color:#92400e;background:#fef3c7;border:1px solid #fcd34d',
+  danger: 'color:#991b1b;background:#fee2e2;border:1px solid #fca5a5',
+}
+
+const CELL = 'padding:6px 8px;border-bottom:1px solid #e5e7eb;vertical-align:top;text-align:left'
+
+/**
+ * Self-contained HTML for one card: no external CSS, fonts, images or scripts.
+ * All card text is escaped — the explanation is model-authored.
+ */
+export function renderAnswerCardHtml(card: AnswerCard, options: CardExportOptions): string {
+  const badge = exportBadge(card, options.signatureStatus)
+  const rows = exportToolRows(card.tool_calls)
+  const citations = exportCitations(card.tool_calls)
+  const url = escapeHtml(options.url)
+  const qr = qrCodeToSvg(encodeQRCode(options.url), { moduleSize: 3, margin: 2 })
+  const issued = card.issued_at.slice(0, 10)
+
+  const table = rows.length
+    ? `<table style="width:100%;border-collapse:collapse;font-size:13px;margin:12px 0">` +
+      `<thead><tr><th style="${CELL}">#</th><th style="${CELL}">Engine</th><th style="${CELL}">Inputs</th><th style="${CELL}">Result</th></tr></thead>` +
+      `<tbody>` +
+      rows
+        .map(
+          (row) =>
+            `<tr><td style="${CELL}">${row.index}</td>` +
+            `<td style="${CELL}">${escapeHtml(row.engine)}${row.citation ? ` <sup>[${row.citation}]</sup>` : ''}</td>` +
+            `<td style="${CELL};font-family:monospace">${escapeHtml(row.inputs)}</td>` +
+            `<td style="${CELL};font-family:monospace;color:${row.ok ? '#166534' : '#991b1b'}">${escapeHtml(row.result)}</td></tr>`
+        )
+        .join('') +
+      `</tbody></table>`
+    : ''
+
+  const citationList = citations.length
+    ? `<ol style="margin:8px 0;padding-left:20px;font-size:12px;color:#4b5563">` +
+      citations.map((c) => `<li>${escapeHtml(c)}</li>`).join('') +
+      `</ol>`
+    : ''
+
+  const explanation = card.explanation
+    ? `<div style="white-space:pre-wrap;font-size:14px;margin:12px 0">${escapeHtml(card.explanation)}</div>` +
+      `<p style="font-size:11px;color:#6b7280;font-style:italic;margin:0 0 12px">Explanation is AI-generated narrative. Only the engine results above are computed by deterministic, signed engines.</p>`
+    : ''
+
+  return (
+    `<div class="verchem-answer-card" style="font-family:system-ui,-apple-system,sans-serif;color:#111827;background:#ffffff;border:1px solid #d1d5db;border-radius:8px;padding:16px;max-width:720px">` +
+    `<div style="display:flex;gap:16px;align-items:flex-start">` +
+    `<div style="flex:1;min-width:0">` +
+    `<div style="font-size:12px;color:#6b7280;margin-bottom:4px">VerChem Verified Answer · ${escapeHtml(issued)}</div>` +
+    `<div style="font-size:16px;font-weight:600;margin-bottom:8px">Q: ${escapeHtml(card.question)}</div>` +
+    `<span style="display:inline-block;padding:2px 10px;border-radius:999px;font-size:12px;font-weight:600;${TONE_STYLES[badge.tone]}">${escapeHtml(badge.label)}</span>` +
+    (badge.note ? `<div style="font-size:12px;color:#4b5563;margin-top:6px">${escapeHtml(badge.note)}</div>` : '') +
+    `</div>` +
+    `<a href="${url}" style="flex:none;text-align:center;font-size:11px;color:#2563eb;text-decoration:none">${qr}<br>${escapeHtml(shortLink(options.url))}</a>` +
+    `</div>` +
+    table +
+    citationList +
+    explanation +
+    `<div style="font-size:11px;color:#6b7280;border-top:1px solid #e5e7eb;padding-top:8px">` +
+    `${escapeHtml(card.model)} · ${escapeHtml(card.version)} · signature verifiable at <a href="${url}" style="color:#2563eb">${escapeHtml(shortLink(options.url))}</a>` +
+    `</div>` +
+    `</div>`
+  )
+}
+
+/** Full HTML document around the snippet — what /verified/[id]/embed serves to iframes. */
+export function renderAnswerCardDocument(card: AnswerCard, options: CardExportOptions): string {
+  return (
+    `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8">` +
+    `<meta name="viewport" content="width=device-width,initial-scale=1">` +
+    `<meta name="robots" content="noindex">` +
+    `<title>${escapeHtml(card.question)} — VerChem Verified Answer</title>` +
+    `<base target="_blank">` +
+    `</head><body style="margin:0;padding:8px;background:#ffffff">` +
+    renderAnswerCardHtml(card, options) +
+    `</body></html>`
+  )
+}
+
+// --- oEmbed (https://oembed.com) ---
+
+export const OEMBED_DEFAULT_WIDTH = 720
+export const OEMBED_DEFAULT_HEIGHT = 640
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Card id from a pasted /verified/[id] URL, or null unless it is on `origin`
+ * (oEmbed providers only describe their own URLs).
+ */
+export function parseVerifiedCardUrl(raw: string, origin: string): string | null {
+  let url: URL
+  try {
+    url = new URL(raw)
+  } catch {
+    return null
+  }
+  if (url.origin !== new URL(origin).origin) return null
+  const match = /^\/verified\/([^/]+)\/?$/.exec(url.pathname)
+  return match && UUID_PATTERN.test(match[1]) ? match[1].toLowerCase() : null
+}
+
+export interface OEmbedRich {
+  type: 'rich'
+  version: '1.0'
+  title: string
+  provider_name: string
+  provider_url: string
+  html: string
+  width: number
+  height: number
+  cache_age: number
+}
+
+export function answerCardOEmbed(
+  card: AnswerCard,
+  options: { origin: string; id: string; providerName: string; maxwidth?: number; maxheight?: number }
+): OEmbedRich {
+  const clamp = (value: number, max?: number) => (max && max > 0 ? Math.min(value, Math.floor(max)) : value)
+  const width = clamp(OEMBED_DEFAULT_WIDTH, options.maxwidth)
+  const height = clamp(OEMBED_DEFAULT_HEIGHT, options.maxheight)
+  const embedUrl = `${answerCardUrl(options.origin, options.id)}/embed`
+  const title = `${card.question} — Verified Chemistry Answer`
+
+  return {
+    type: 'rich',
+    version: '1.0',
+    title,
+    provider_name: options.providerName,
+    provider_url: options.origin,
+    html:
+      `<iframe src="${escapeHtml(embedUrl)}" width="${width}" height="${height}" ` +
+      `title="${escapeHtml(title)}" style="border:0;max-width:100%" loading="lazy" sandbox="allow-popups allow-popups-to-escape-sandbox"></iframe>`,
+    width,
+    height,
+    cache_age: 3600,
+  }
+}
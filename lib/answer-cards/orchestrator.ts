@@ -1,24 +1,29 @@
 /**
  * VerChem AI Verified Answer Card Orchestrator
  *
- * Claude Haiku 4.5 tool-use loop.
+ * Tool-use loop over a pluggable LLM provider (./providers) — Claude Haiku 4.5
+ * in production, scripted transcript replay offline.
  * Invariant: Every numeric claim must trace to a tool_result.
  * W3-R2: Status enum, numeric audit, incomplete tracking, input guard.
  */
 
-import Anthropic, {
-  APIError,
-  RateLimitError,
-  APIConnectionError,
-  APIConnectionTimeoutError,
-  AuthenticationError,
-  PermissionDeniedError,
-} from '@anthropic-ai/sdk'
-import type { AnswerCard, CardStatus, ToolCall, VerifiedTool } from './types'
+import type Anthropic from '@anthropic-ai/sdk'
+import type { AnswerCard, AnswerCardStreamEvent, CardStatus, ToolCall, VerifiedTool } from './types'
 import { signCard, toSignablePayload } from './signature'
 import { auditExplanation } from './audit'
 import { ALL_TOOLS, TOOL_BY_NAME, toAnthropicTool } from './tools/registry'
 import { isPlainObject } from './tools/_validate'
+import { anthropicErrorKind, createAnthropicProvider } from './providers/anthropic'
+import { getDefaultProvider } from './providers'
+import {
+  ProviderError,
+  type LLMProvider,
+  type ProviderErrorKind,
+  type ProviderMessage,
+  type ProviderResponse,
+  type ProviderToolResultBlock,
+  type ProviderToolUseBlock,
+} from './providers/types'
 
 /**
  * Strip input object to only keys defined in the tool's input_schema.properties.
@@ -43,23 +48,35 @@ export function pickSchemaKeys(
   return stripped
 }
 
-const MODEL = 'claude-haiku-4-5-20251001'
-const VERSION = 'w3-v1'
+/**
+ * Execute one verified tool on a plain-object input: schema keys only, unknown
+ * tools become an error result. Returns the ToolCall recorded on the card.
+ */
+export function runTool(name: string, input: Record<string, unknown>): ToolCall {
+  const tool = TOOL_BY_NAME.get(name)
+  // Strip input to schema-defined keys only (prevent LLM smuggling via unused fields)
+  const strippedInput = pickSchemaKeys(input, tool)
+  const result = tool
+    ? tool.execute(strippedInput)
+    : { ok: false, value: {}, error: `Tool "${name}" not found` } as const
+  return {
+    name,
+    engine: tool?.engine || 'unknown',
+    input: strippedInput,
+    result,
+    citation: tool?.citation || '',
+  }
+}
+
+/** Engine/prompt version stamped on every card (and reported by re-verification). */
+export const VERSION = 'w3-v1'
 const MAX_TOKENS = 1500
 const MAX_ROUNDS = 5
 
-export type AnswerServiceErrorKind =
-  | 'rate_limit'
-  | 'overloaded'
-  | 'timeout'
-  | 'connection'
-  | 'auth'
-  | 'bad_request'
-  | 'server'
-  | 'unknown'
+export type AnswerServiceErrorKind = ProviderErrorKind
 
 /**
- * Typed failure of the verification *service* (the Claude API call itself),
+ * Typed failure of the verification *service* (the model call itself),
  * as opposed to a chemistry calculation error (which is captured in a card).
  * Carries a user-safe public message + the HTTP status the route should return.
  * Never leaks provider internals to the client.
@@ -86,85 +103,66 @@ export class AnswerServiceError extends Error {
   }
 }
 
+const SERVICE_ERRORS: Record<AnswerServiceErrorKind, { httpStatus: number; publicMessage: string }> = {
+  rate_limit: {
+    httpStatus: 429,
+    publicMessage: 'The verification service is busy right now. Please try again in a moment.',
+  },
+  overloaded: {
+    httpStatus: 503,
+    publicMessage: 'The verification service is overloaded. Please try again shortly.',
+  },
+  timeout: {
+    httpStatus: 504,
+    publicMessage: 'The verification service took too long to respond. Please try again.',
+  },
+  connection: {
+    httpStatus: 503,
+    publicMessage: 'Could not reach the verification service. Please try again.',
+  },
+  auth: {
+    httpStatus: 503,
+    publicMessage: 'The verification service is temporarily unavailable.',
+  },
+  bad_request: {
+    httpStatus: 502,
+    publicMessage: 'The verification service could not process this request. Please rephrase your question.',
+  },
+  server: {
+    httpStatus: 502,
+    publicMessage: 'The verification service returned an error. Please try again.',
+  },
+  unknown: {
+    httpStatus: 500,
+    publicMessage: 'An unexpected error occurred while verifying your question.',
+  },
+}
+
 /**
- * Map an unknown thrown value (typically an Anthropic SDK error) to a typed,
- * user-safe AnswerServiceError. Auth/permission errors are deliberately
- * presented as a generic "temporarily unavailable" so a misconfiguration never
- * exposes that the API key is bad.
+ * Map an unknown thrown value (a ProviderError, or a raw Anthropic SDK error)
+ * to a typed, user-safe AnswerServiceError. Auth/permission errors are
+ * deliberately presented as a generic "temporarily unavailable" so a
+ * misconfiguration never exposes that the API key is bad.
  */
 export function classifyServiceError(err: unknown): AnswerServiceError {
   if (err instanceof AnswerServiceError) return err
 
-  if (err instanceof RateLimitError) {
-    return new AnswerServiceError(
-      'rate_limit',
-      429,
-      'The verification service is busy right now. Please try again in a moment.',
-      err
-    )
-  }
-  if (err instanceof APIConnectionTimeoutError) {
-    return new AnswerServiceError(
-      'timeout',
-      504,
-      'The verification service took too long to respond. Please try again.',
-      err
-    )
-  }
-  if (err instanceof APIConnectionError) {
-    return new AnswerServiceError(
-      'connection',
-      503,
-      'Could not reach the verification service. Please try again.',
-      err
-    )
-  }
-  if (err instanceof AuthenticationError || err instanceof PermissionDeniedError) {
-    return new AnswerServiceError(
-      'auth',
-      503,
-      'The verification service is temporarily unavailable.',
-      err
-    )
-  }
-  if (err instanceof APIError) {
-    const status = typeof err.status === 'number' ? err.status : 0
-    if (status === 529) {
-      return new AnswerServiceError(
-        'overloaded',
-        503,
-        'The verification service is overloaded. Please try again shortly.',
-        err
-      )
-    }
-    if (status === 400 || status === 422) {
-      return new AnswerServiceError(
-        'bad_request',
-        502,
-        'The verification service could not process this request. Please rephrase your question.',
-        err
-      )
+  let kind: AnswerServiceErrorKind = 'unknown'
+  if (err instanceof ProviderError) {
+    kind = err.kind
+  } else {
+    const sdkKind = anthropicErrorKind(err)
+    if (sdkKind) {
+      kind = sdkKind
+    } else if (err instanceof Error && err.message.includes('ANTHROPIC_API_KEY')) {
+      // Legacy "ANTHROPIC_API_KEY is not configured" startup error. Keep the
+      // public message generic — never reveal provider/config state to the client.
+      kind = 'auth'
     }
-    return new AnswerServiceError(
-      'server',
-      502,
-      'The verification service returned an error. Please try again.',
-      err
-    )
   }
 
-  // Includes the "ANTHROPIC_API_KEY is not configured" startup error. Keep the
-  // public message generic — never reveal provider/config state to the client.
-  if (err instanceof Error && err.message.includes('ANTHROPIC_API_KEY')) {
-    return new AnswerServiceError('auth', 503, 'The verification service is temporarily unavailable.', err)
-  }
-
-  return new AnswerServiceError(
-    'unknown',
-    500,
-    'An unexpected error occurred while verifying your question.',
-    err
-  )
+  const { httpStatus, publicMessage } = SERVICE_ERRORS[kind]
+  return new AnswerServiceError(kind, httpStatus, publicMessage, err)
 }
 
 const SYSTEM_PROMPT = `You are the VerChem verification assistant. Your job is to understand chemistry questions and explain answers using ONLY numbers produced by deterministic calculation engines.
@@ -179,51 +177,67 @@ CRITICAL RULES:
 7. Respond in the same language the user asked in.`
 
 /**
- * Determine card status based on engine results and completeness ONLY.
- * Audit on prose is informational — never gates verified status.
+ * Determine card status based on engine results, completeness and unit
+ * consistency. Untraced prose numbers stay informational; a figure quoted in
+ * the wrong unit ("0.25 L" for 0.25 mL) contradicts the engine, so it
+ * downgrades VERIFIED to PARTIAL.
  * VERIFIED means: at least one engine produced a deterministic result,
- * no engine errors, and the response is complete.
+ * no engine errors, the response is complete, and no unit mismatch.
  */
 export function determineStatus(
   hasOk: boolean,
   hasError: boolean,
   allFailed: boolean,
-  incomplete: boolean
+  incomplete: boolean,
+  unitMismatch = false
 ): CardStatus {
   if (allFailed) return 'error'
   if (!hasOk) return 'unverified'
-  if (hasError || incomplete) return 'partial'
+  if (hasError || incomplete || unitMismatch) return 'partial'
   return 'verified'
 }
 
-function getAnthropicClient(): Anthropic {
-  const apiKey = process.env.ANTHROPIC_API_KEY
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY is not configured')
-  }
-  return new Anthropic({ apiKey })
-}
-
 export interface AskVerifiedOptions {
   /**
-   * Inject an Anthropic client. Defaults to an env-configured client.
-   * Used by unit tests (fake client) and the live smoke test (real client).
+   * Model backend. Defaults to getDefaultProvider() (ANSWER_CARD_PROVIDER).
+   * Tests and offline runs pass a scripted provider.
+   */
+  provider?: LLMProvider
+  /**
+   * Inject an Anthropic client (wrapped in the Anthropic provider). Used by
+   * unit tests (fake client) and the live smoke test (real client).
+   * Ignored when `provider` is set.
    */
   client?: Anthropic
+  /**
+   * Progress callback for streaming: each tool call as it is executed, then
+   * the audit, then the signed card (the same object askVerified resolves to).
+   */
+  onEvent?: (event: AnswerCardStreamEvent) => void
+}
+
+function resolveProvider(opts: AskVerifiedOptions): LLMProvider {
+  if (opts.provider) return opts.provider
+  if (opts.client) return createAnthropicProvider({ client: opts.client })
+  return getDefaultProvider()
 }
 
 export async function askVerified(
   question: string,
   opts: AskVerifiedOptions = {}
 ): Promise<AnswerCard> {
-  const client = opts.client ?? getAnthropicClient()
+  const provider = resolveProvider(opts)
   const tools = ALL_TOOLS.map(toAnthropicTool)
 
-  const messages: Anthropic.Messages.MessageParam[] = [
+  const messages: ProviderMessage[] = [
     { role: 'user', content: question },
   ]
 
   const toolCalls: ToolCall[] = []
+  const recordToolCall = (call: ToolCall) => {
+    toolCalls.push(call)
+    opts.onEvent?.({ type: 'tool_call', index: toolCalls.length - 1, call })
+  }
   let explanation = ''
   let rounds = 0
   let incomplete = false
@@ -232,17 +246,16 @@ export async function askVerified(
   while (rounds < MAX_ROUNDS) {
     rounds++
 
-    let response: Anthropic.Messages.Message
+    let response: ProviderResponse
     try {
-      response = await client.messages.create({
-        model: MODEL,
-        max_tokens: MAX_TOKENS,
+      response = await provider.createMessage({
         system: SYSTEM_PROMPT,
         messages,
-        tools: tools.length > 0 ? tools : undefined,
+        tools,
+        maxTokens: MAX_TOKENS,
       })
     } catch (err) {
-      // The Claude API call failed. If we already have at least one verified
+      // The model call failed. If we already have at least one verified
       // engine result, degrade gracefully to a PARTIAL card — the signed
       // engine results remain authoritative even without the AI narrative.
       // Otherwise there is nothing to return: surface a typed service error.
@@ -255,7 +268,7 @@ export async function askVerified(
     }
 
     // Collect tool_use requests
-    const toolUseBlocks: Anthropic.Messages.ToolUseBlock[] = []
+    const toolUseBlocks: ProviderToolUseBlock[] = []
     let hasText = false
     for (const block of response.content) {
       if (block.type === 'tool_use') {
@@ -285,7 +298,7 @@ export async function askVerified(
     }
 
     // Execute tools and build tool_result messages
-    const toolResults: Anthropic.Messages.ToolResultBlockParam[] = []
+    const toolResults: ProviderToolResultBlock[] = []
 
     for (const block of toolUseBlocks) {
       const tool = TOOL_BY_NAME.get(block.name)
@@ -297,7 +310,7 @@ export async function askVerified(
           value: {},
           error: `Tool input must be a plain object, received ${Array.isArray(block.input) ? 'array' : typeof block.input}`,
         } as const
-        toolCalls.push({
+        recordToolCall({
           name: block.name,
           engine: tool?.engine || 'unknown',
           input: { raw: String(block.input) },
@@ -313,21 +326,11 @@ export async function askVerified(
         continue
       }
 
-      // Strip input to schema-defined keys only (prevent LLM smuggling via unused fields)
-      const strippedInput = pickSchemaKeys(block.input as Record<string, unknown>, tool)
-
-      const result = tool
-        ? tool.execute(strippedInput)
-        : { ok: false, value: {}, error: `Tool "${block.name}" not found` } as const
+      const call = runTool(block.name, block.input as Record<string, unknown>)
+      const result = call.result
 
       // Store tool call for the card
-      toolCalls.push({
-        name: block.name,
-        engine: tool?.engine || 'unknown',
-        input: strippedInput,
-        result,
-        citation: tool?.citation || '',
-      })
+      recordToolCall(call)
 
       toolResults.push({
         type: 'tool_result',
@@ -347,16 +350,6 @@ export async function askVerified(
     }
   }
 
-  // Numeric audit (informational — does NOT gate status)
-  const audit = auditExplanation(explanation, toolCalls)
-
-  // Determine status: engine-driven, audit-independent
-  const hasOk = toolCalls.some((tc) => tc.result.ok)
-  const hasError = toolCalls.some((tc) => !tc.result.ok)
-  const allFailed = toolCalls.length > 0 && !hasOk
-
-  const status = determineStatus(hasOk, hasError, allFailed, incomplete)
-
   if (serviceInterrupted) {
     explanation +=
       '\n\n(The AI explanation could not be completed due to a temporary service issue. The verified engine results above are complete and authoritative.)'
@@ -364,6 +357,37 @@ export async function askVerified(
     explanation += '\n\n(Response may be incomplete.)'
   }
 
+  return finalizeCard(question, toolCalls, explanation, {
+    model: provider.model,
+    incomplete,
+    onEvent: opts.onEvent,
+  })
+}
+
+/**
+ * Audit, grade and sign a card from executed tool calls and the model's prose.
+ * Shared by the live tool-use loop and the answer cache (which re-executes
+ * cached tool calls and re-signs), so both produce identical cards.
+ * Emits the `audit` then the `card` stream event.
+ */
+export async function finalizeCard(
+  question: string,
+  toolCalls: ToolCall[],
+  explanation: string,
+  opts: { model: string; incomplete?: boolean; onEvent?: (event: AnswerCardStreamEvent) => void }
+): Promise<AnswerCard> {
+  // Numeric audit: untraced numbers are informational; unit mismatches gate status
+  const audit = auditExplanation(explanation, toolCalls)
+
+  // Determine status: engine-driven, plus the audit's unit-mismatch check
+  const hasOk = toolCalls.some((tc) => tc.result.ok)
+  const hasError = toolCalls.some((tc) => !tc.result.ok)
+  const allFailed = toolCalls.length > 0 && !hasOk
+  const unitMismatch = (audit.unit_mismatches?.length ?? 0) > 0
+
+  const status = determineStatus(hasOk, hasError, allFailed, opts.incomplete ?? false, unitMismatch)
+  opts.onEvent?.({ type: 'audit', audit, status })
+
   // Build the card, then sign it through the shared payload builder so signing
   // and later verification (load / public share) are guaranteed symmetric.
   const card: AnswerCard = {
@@ -373,12 +397,13 @@ export async function askVerified(
     tool_calls: toolCalls,
     explanation: explanation.trim(),
     audit,
-    model: MODEL,
+    model: opts.model,
     version: VERSION,
     issued_at: new Date().toISOString(),
     signature: '',
   }
 
   card.signature = await signCard(toSignablePayload(card))
+  opts.onEvent?.({ type: 'card', card })
   return card
 }
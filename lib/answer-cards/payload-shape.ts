@@ -29,6 +29,8 @@ export function isValidSignablePayload(p: unknown): p is SignablePayload {
     return false
   }
   if (!p.audit.unmatched.every(isStr)) return false
+  const unitMismatches = p.audit.unit_mismatches
+  if (unitMismatches !== undefined && (!Array.isArray(unitMismatches) || !unitMismatches.every(isStr))) return false
 
   if (!Array.isArray(p.tool_calls)) return false
   for (const tc of p.tool_calls) {
@@ -0,0 +1,104 @@
+/**
+ * VerChem Answer Card — Anthropic provider (Claude Haiku 4.5)
+ *
+ * The production provider. Wraps `client.messages.create` and translates SDK
+ * errors into typed ProviderErrors. The API key is read lazily on the first
+ * call, so constructing the provider never throws.
+ */
+
+import Anthropic, {
+  APIError,
+  RateLimitError,
+  APIConnectionError,
+  APIConnectionTimeoutError,
+  AuthenticationError,
+  PermissionDeniedError,
+} from '@anthropic-ai/sdk'
+import {
+  ProviderError,
+  type LLMProvider,
+  type ProviderErrorKind,
+  type ProviderOutputBlock,
+  type ProviderRequest,
+  type ProviderResponse,
+  type ProviderStopReason,
+} from './types'
+
+export const ANTHROPIC_MODEL = 'claude-haiku-4-5-20251001'
+
+/**
+ * Classify an Anthropic SDK error. Returns null for anything that is not an
+ * SDK error so callers can fall through to their own handling.
+ */
+export function anthropicErrorKind(err: unknown): ProviderErrorKind | null {
+  if (err instanceof RateLimitError) return 'rate_limit'
+  if (err instanceof APIConnectionTimeoutError) return 'timeout'
+  if (err instanceof APIConnectionError) return 'connection'
+  if (err instanceof AuthenticationError || err instanceof PermissionDeniedError) return 'auth'
+  if (err instanceof APIError) {
+    const status = typeof err.status === 'number' ? err.status : 0
+    if (status === 529) return 'overloaded'
+    if (status === 400 || status === 422) return 'bad_request'
+    return 'server'
+  }
+  return null
+}
+
+function toStopReason(reason: Anthropic.Messages.Message['stop_reason']): ProviderStopReason {
+  if (reason === 'end_turn' || reason === 'tool_use' || reason === 'max_tokens') return reason
+  return 'other'
+}
+
+export interface AnthropicProviderOptions {
+  /** Inject a client (tests, smoke script). Defaults to an env-configured client. */
+  client?: Anthropic
+  model?: string
+}
+
+export function createAnthropicProvider(opts: AnthropicProviderOptions = {}): LLMProvider {
+  const model = opts.model ?? ANTHROPIC_MODEL
+  let client = opts.client
+
+  function getClient(): Anthropic {
+    if (client) return client
+    const apiKey = process.env.ANTHROPIC_API_KEY
+    if (!apiKey) {
+      throw new ProviderError('auth', 'ANTHROPIC_API_KEY is not configured')
+    }
+    client = new Anthropic({ apiKey })
+    return client
+  }
+
+  return {
+    model,
+    async createMessage(request: ProviderRequest): Promise<ProviderResponse> {
+      const anthropic = getClient()
+      let response: Anthropic.Messages.Message
+      try {
+        response = await anthropic.messages.create({
+          model,
+          max_tokens: request.maxTokens,
+          system: request.system,
+          messages: request.messages as Anthropic.Messages.MessageParam[],
+          tools: request.tools.length > 0
+            ? (request.tools as Anthropic.Messages.Tool[])
+            : undefined,
+        })
+      } catch (err) {
+        const kind = anthropicErrorKind(err)
+        if (!kind) throw err
+        throw new ProviderError(kind, err instanceof Error ? err.message : String(err), err)
+      }
+
+      const content: ProviderOutputBlock[] = []
+      for (const block of response.content) {
+        if (block.type === 'text') {
+          content.push({ type: 'text', text: block.text })
+        } else if (block.type === 'tool_use') {
+          content.push({ type: 'tool_use', id: block.id, name: block.name, input: block.input })
+        }
+      }
+      return { content, stop_reason: toStopReason(response.stop_reason) }
+    },
+  }
+}
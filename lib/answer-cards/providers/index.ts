@@ -0,0 +1,55 @@
+/**
+ * VerChem Answer Card — provider selection
+ *
+ * ANSWER_CARD_PROVIDER picks the model backend for askVerified:
+ *   anthropic (default)  Claude via ANTHROPIC_API_KEY
+ *   scripted             replay transcripts from the JSON file at
+ *                        ANSWER_CARD_TRANSCRIPTS (offline / air-gapped)
+ *
+ * Misconfiguration throws a plain Error, which the route reports as a generic
+ * 500 — provider/config state is never shown to the client.
+ */
+
+import { readFileSync } from 'node:fs'
+import { createAnthropicProvider } from './anthropic'
+import { createScriptedProvider, parseTranscripts } from './scripted'
+import type { LLMProvider } from './types'
+
+export type { LLMProvider } from './types'
+export { ProviderError } from './types'
+export { createAnthropicProvider, ANTHROPIC_MODEL } from './anthropic'
+export {
+  createScriptedProvider,
+  createRecordingProvider,
+  parseTranscripts,
+  SCRIPTED_MODEL,
+  type Transcript,
+} from './scripted'
+
+let cachedScripted: { path: string; provider: LLMProvider } | null = null
+
+function loadScriptedProvider(path: string): LLMProvider {
+  if (cachedScripted?.path === path) return cachedScripted.provider
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'))
+  } catch (err) {
+    throw new Error(`ANSWER_CARD_TRANSCRIPTS could not be read as JSON: ${err instanceof Error ? err.message : err}`)
+  }
+  const provider = createScriptedProvider(parseTranscripts(raw))
+  cachedScripted = { path, provider }
+  return provider
+}
+
+export function getDefaultProvider(): LLMProvider {
+  const name = process.env.ANSWER_CARD_PROVIDER || 'anthropic'
+  if (name === 'anthropic') return createAnthropicProvider()
+  if (name === 'scripted') {
+    const path = process.env.ANSWER_CARD_TRANSCRIPTS
+    if (!path) {
+      throw new Error('ANSWER_CARD_TRANSCRIPTS is required when ANSWER_CARD_PROVIDER=scripted')
+    }
+    return loadScriptedProvider(path)
+  }
+  throw new Error(`Unknown ANSWER_CARD_PROVIDER "${name}" (expected anthropic or scripted)`)
+}
@@ -0,0 +1,235 @@
+/**
+ * VerChem Answer Card — Scripted (offline) provider
+ *
+ * Replays recorded transcripts instead of calling a model, so the full
+ * tool-use loop (tool execution, pickSchemaKeys, audit, signing, status) runs
+ * in CI and on air-gapped classroom servers with no network access.
+ *
+ * Deterministic and stateless: the transcript is chosen by the question (the
+ * first user message) and the turn by the number of assistant messages so
+ * far, so one provider instance can serve concurrent requests. Replay is
+ * strict — if the conversation no longer matches the recording (a tool_use
+ * went unanswered, the transcript ran out) the provider fails with a typed
+ * error instead of improvising.
+ *
+ * Only the model side is recorded. Tool results are always recomputed by the
+ * real engines, which is the point of replaying through the orchestrator.
+ */
+
+import {
+  ProviderError,
+  type LLMProvider,
+  type ProviderErrorKind,
+  type ProviderMessage,
+  type ProviderOutputBlock,
+  type ProviderRequest,
+  type ProviderResponse,
+  type ProviderStopReason,
+} from './types'
+
+export const SCRIPTED_MODEL = 'scripted-replay'
+
+export type TranscriptTurn =
+  | ProviderResponse
+  | { error: { kind: ProviderErrorKind; message: string } }
+
+export interface Transcript {
+  question: string
+  turns: TranscriptTurn[]
+}
+
+const STOP_REASONS: readonly ProviderStopReason[] = ['end_turn', 'tool_use', 'max_tokens', 'other']
+const ERROR_KINDS: readonly ProviderErrorKind[] = [
+  'rate_limit',
+  'overloaded',
+  'timeout',
+  'connection',
+  'auth',
+  'bad_request',
+  'server',
+  'unknown',
+]
+
+/** Transcripts are looked up by question, ignoring case and whitespace runs. */
+export function normalizeTranscriptQuestion(question: string): string {
+  return question.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function parseBlock(raw: unknown, where: string): ProviderOutputBlock {
+  if (!isRecord(raw)) throw new Error(`${where}: block must be an object`)
+  if (raw.type === 'text' && typeof raw.text === 'string') {
+    return { type: 'text', text: raw.text }
+  }
+  if (
+    raw.type === 'tool_use' &&
+    typeof raw.id === 'string' &&
+    raw.id.length > 0 &&
+    typeof raw.name === 'string' &&
+    'input' in raw
+  ) {
+    return { type: 'tool_use', id: raw.id, name: raw.name, input: raw.input }
+  }
+  throw new Error(`${where}: expected a text block or a tool_use block with id, name and input`)
+}
+
+function parseTurn(raw: unknown, where: string): TranscriptTurn {
+  if (!isRecord(raw)) throw new Error(`${where}: turn must be an object`)
+  if ('error' in raw) {
+    const error = raw.error
+    if (!isRecord(error) || !ERROR_KINDS.includes(error.kind as ProviderErrorKind)) {
+      throw new Error(`${where}: error.kind must be one of ${ERROR_KINDS.join(', ')}`)
+    }
+    return {
+      error: {
+        kind: error.kind as ProviderErrorKind,
+        message: typeof error.message === 'string' ? error.message : 'scripted failure',
+      },
+    }
+  }
+  if (!Array.isArray(raw.content)) throw new Error(`${where}: content must be an array`)
+  if (!STOP_REASONS.includes(raw.stop_reason as ProviderStopReason)) {
+    throw new Error(`${where}: stop_reason must be one of ${STOP_REASONS.join(', ')}`)
+  }
+  return {
+    content: raw.content.map((block, i) => parseBlock(block, `${where}.content[${i}]`)),
+    stop_reason: raw.stop_reason as ProviderStopReason,
+  }
+}
+
+/**
+ * Validate untrusted transcript JSON (a single transcript or an array).
+ * Throws with the path of the first problem.
+ */
+export function parseTranscripts(raw: unknown): Transcript[] {
+  const list = Array.isArray(raw) ? raw : [raw]
+  return list.map((entry, i) => {
+    const where = `transcripts[${i}]`
+    if (!isRecord(entry)) throw new Error(`${where}: transcript must be an object`)
+    if (typeof entry.question !== 'string' || entry.question.trim().length === 0) {
+      throw new Error(`${where}: question must be a non-empty string`)
+    }
+    if (!Array.isArray(entry.turns) || entry.turns.length === 0) {
+      throw new Error(`${where}: turns must be a non-empty array`)
+    }
+    return {
+      question: entry.question,
+      turns: entry.turns.map((turn, t) => parseTurn(turn, `${where}.turns[${t}]`)),
+    }
+  })
+}
+
+function questionOf(messages: ProviderMessage[]): string | null {
+  const first = messages[0]
+  return first?.role === 'user' && typeof first.content === 'string' ? first.content : null
+}
+
+/**
+ * Every tool_use in the previous assistant turn must be answered by a
+ * tool_result in the latest user message — otherwise we are no longer
+ * replaying the recorded conversation.
+ */
+function assertToolUsesAnswered(messages: ProviderMessage[]): void {
+  const last = messages[messages.length - 1]
+  const prev = messages[messages.length - 2]
+  if (!prev || prev.role !== 'assistant') return
+  const answered = new Set(
+    last?.role === 'user' && Array.isArray(last.content)
+      ? last.content.map((block) => block.tool_use_id)
+      : []
+  )
+  for (const block of prev.content) {
+    if (block.type === 'tool_use' && !answered.has(block.id)) {
+      throw new ProviderError('bad_request', `Scripted replay diverged: tool_use "${block.id}" has no tool_result`)
+    }
+  }
+}
+
+export interface ScriptedProviderOptions {
+  model?: string
+}
+
+export function createScriptedProvider(
+  transcripts: Transcript[],
+  opts: ScriptedProviderOptions = {}
+): LLMProvider {
+  const byQuestion = new Map<string, Transcript>()
+  for (const transcript of transcripts) {
+    const key = normalizeTranscriptQuestion(transcript.question)
+    if (byQuestion.has(key)) {
+      throw new Error(`Duplicate scripted transcript for question "${transcript.question}"`)
+    }
+    byQuestion.set(key, transcript)
+  }
+
+  return {
+    model: opts.model ?? SCRIPTED_MODEL,
+    async createMessage(request: ProviderRequest): Promise<ProviderResponse> {
+      const question = questionOf(request.messages)
+      const transcript = question === null ? undefined : byQuestion.get(normalizeTranscriptQuestion(question))
+      if (!transcript) {
+        throw new ProviderError('bad_request', 'No recorded transcript for this question')
+      }
+
+      assertToolUsesAnswered(request.messages)
+      const index = request.messages.filter((m) => m.role === 'assistant').length
+      const turn = transcript.turns[index]
+      if (!turn) {
+        throw new ProviderError(
+          'server',
+          `Scripted transcript "${transcript.question}" has no turn ${index + 1} (recorded ${transcript.turns.length})`
+        )
+      }
+      if ('error' in turn) {
+        throw new ProviderError(turn.error.kind, turn.error.message)
+      }
+      // Hand out a copy: the orchestrator keeps the blocks in its message history.
+      return structuredClone(turn)
+    },
+  }
+}
+
+/**
+ * Wrap a live provider and record every model turn (including failures), so
+ * a real session can be saved and replayed later with createScriptedProvider.
+ */
+export function createRecordingProvider(inner: LLMProvider): {
+  provider: LLMProvider
+  transcripts: () => Transcript[]
+} {
+  const recorded = new Map<string, Transcript>()
+
+  function turnsFor(request: ProviderRequest): TranscriptTurn[] {
+    const question = questionOf(request.messages) ?? ''
+    const key = normalizeTranscriptQuestion(question)
+    let transcript = recorded.get(key)
+    // A fresh conversation for a question already recorded replaces the old recording.
+    if (!transcript || !request.messages.some((m) => m.role === 'assistant')) {
+      transcript = { question, turns: [] }
+      recorded.set(key, transcript)
+    }
+    return transcript.turns
+  }
+
+  return {
+    provider: {
+      model: inner.model,
+      async createMessage(request: ProviderRequest): Promise<ProviderResponse> {
+        const turns = turnsFor(request)
+        try {
+          const response = await inner.createMessage(request)
+          turns.push(structuredClone(response))
+          return response
+        } catch (err) {
+          const kind = err instanceof ProviderError ? err.kind : 'unknown'
+          turns.push({ error: { kind, message: err instanceof Error ? err.message : String(err) } })
+          throw err
+        }
+      },
+    },
+    transcripts: () => structuredClone([...recorded.values()]),
+  }
+}
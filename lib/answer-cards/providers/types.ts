@@ -0,0 +1,96 @@
+/**
+ * VerChem Answer Card — LLM provider interface
+ *
+ * The orchestrator's tool-use loop talks to a model only through this
+ * interface: messages in, text / tool_use blocks out. The block shapes mirror
+ * the Anthropic Messages wire format (the first provider) so adapters stay
+ * thin, but nothing here depends on an SDK.
+ *
+ * Providers report failures as ProviderError with a typed kind; the
+ * orchestrator maps that kind to a user-safe AnswerServiceError. Providers
+ * must never put secrets in the error message — it is logged server-side.
+ */
+
+export interface ProviderTextBlock {
+  type: 'text'
+  text: string
+}
+
+export interface ProviderToolUseBlock {
+  type: 'tool_use'
+  id: string
+  name: string
+  /** Raw model output — NOT validated. The orchestrator guards and strips it. */
+  input: unknown
+}
+
+export interface ProviderToolResultBlock {
+  type: 'tool_result'
+  tool_use_id: string
+  content: string
+  is_error: boolean
+}
+
+/** Blocks a model may produce. */
+export type ProviderOutputBlock = ProviderTextBlock | ProviderToolUseBlock
+
+export type ProviderMessage =
+  | { role: 'user'; content: string | ProviderToolResultBlock[] }
+  | { role: 'assistant'; content: ProviderOutputBlock[] }
+
+export interface ProviderToolSpec {
+  name: string
+  description: string
+  input_schema: Record<string, unknown>
+}
+
+export interface ProviderRequest {
+  system: string
+  messages: ProviderMessage[]
+  tools: ProviderToolSpec[]
+  maxTokens: number
+}
+
+/**
+ * Why the model stopped. Anything a provider can't map to the first three
+ * (stop sequences, refusals, ...) is reported as 'other'.
+ */
+export type ProviderStopReason = 'end_turn' | 'tool_use' | 'max_tokens' | 'other'
+
+export interface ProviderResponse {
+  content: ProviderOutputBlock[]
+  stop_reason: ProviderStopReason
+}
+
+export interface LLMProvider {
+  /** Model identifier stamped on every card this provider produces. */
+  readonly model: string
+  createMessage(request: ProviderRequest): Promise<ProviderResponse>
+}
+
+export type ProviderErrorKind =
+  | 'rate_limit'
+  | 'overloaded'
+  | 'timeout'
+  | 'connection'
+  | 'auth'
+  | 'bad_request'
+  | 'server'
+  | 'unknown'
+
+/**
+ * Typed failure of a provider call. `message` is for server logs only — the
+ * client sees the AnswerServiceError public message for `kind`.
+ */
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind
+
+  constructor(kind: ProviderErrorKind, message: string, cause?: unknown) {
+    super(message)
+    this.name = 'ProviderError'
+    this.kind = kind
+    if (cause !== undefined) {
+      ;(this as { cause?: unknown }).cause = cause
+    }
+  }
+}
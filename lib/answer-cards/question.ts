@@ -0,0 +1,21 @@
+/**
+ * VerChem Answer Cards — question input guard
+ *
+ * Shared by the single and batch answer-card routes so both accept exactly
+ * the same questions.
+ */
+
+export const MAX_QUESTION_LENGTH = 1000
+
+/**
+ * Trim and strip control characters (newlines/tabs kept). Returns null for a
+ * non-string, empty or over-long question.
+ */
+export function sanitizeQuestion(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  if (trimmed.length === 0 || trimmed.length > MAX_QUESTION_LENGTH) return null
+  // Strip control characters except newlines/tabs
+  const cleaned = trimmed.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
+  return cleaned
+}
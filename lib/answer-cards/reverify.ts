@@ -0,0 +1,183 @@
+/**
+ * VerChem Answer Cards — Engine Re-verification (drift report)
+ *
+ * Cards are stored for months while the engines in lib/calculations keep
+ * changing underneath them. This module replays every stored ToolCall against
+ * the CURRENT engines and reports, per call, whether the signed result still
+ * reproduces.
+ *
+ * TRUST: replay only runs on a card whose signature verifies. Replaying a
+ * tampered card would report "unchanged" for inputs nobody signed.
+ */
+
+import type { AnswerCard, ToolCall, ToolResult } from './types'
+import { toSignablePayload, verifyCardSignature } from './signature'
+import { TOOL_BY_NAME } from './tools/registry'
+import { isPlainObject } from './tools/_validate'
+import { pickSchemaKeys, VERSION } from './orchestrator'
+
+/**
+ * Relative tolerance below which two numbers are considered identical.
+ * Absorbs floating-point noise from reordered arithmetic in an engine without
+ * hiding a real change in a constant or formula.
+ */
+export const DRIFT_TOLERANCE = 1e-9
+
+/**
+ * - unchanged:      same ok/error outcome, every number within DRIFT_TOLERANCE
+ * - drifted:        same shape, at least one number moved (see max_relative_delta)
+ * - changed:        non-numeric difference (strings, missing/extra fields, or a
+ *                   call that used to fail now succeeds)
+ * - newly_erroring: stored result was ok, current engine errors or throws
+ * - unknown_tool:   the tool no longer exists in the registry
+ */
+export type DriftStatus = 'unchanged' | 'drifted' | 'changed' | 'newly_erroring' | 'unknown_tool'
+
+export interface FieldDrift {
+  /** Dotted path into result.value, e.g. "coefficients.2" */
+  path: string
+  stored: number
+  current: number
+  relative_delta: number
+}
+
+export interface ToolCallDrift {
+  index: number
+  name: string
+  engine: string
+  status: DriftStatus
+  /** Largest relative delta across drifted fields (0 when unchanged). */
+  max_relative_delta: number
+  fields: FieldDrift[]
+  /** Current engine error, for newly_erroring calls. */
+  error?: string
+}
+
+export interface ReverifyReport {
+  /** Engine version the replay ran against. */
+  engine_version: string
+  /** Engine version recorded on the card when it was signed. */
+  card_version: string
+  /** true when every call is unchanged. */
+  reproduces: boolean
+  checked_at: string
+  calls: ToolCallDrift[]
+}
+
+function relativeDelta(stored: number, current: number): number {
+  if (stored === current) return 0
+  const scale = Math.max(Math.abs(stored), Math.abs(current))
+  return scale === 0 ? 0 : Math.abs(current - stored) / scale
+}
+
+/**
+ * Walk stored and current result values side by side. Numbers are compared with
+ * a relative delta; every other leaf must be strictly equal. Returns false as
+ * soon as the two trees differ in anything but numeric magnitude.
+ */
+function compareValues(stored: unknown, current: unknown, path: string, out: FieldDrift[]): boolean {
+  if (typeof stored === 'number' && typeof current === 'number') {
+    const delta = relativeDelta(stored, current)
+    if (delta > DRIFT_TOLERANCE) {
+      out.push({ path, stored, current, relative_delta: delta })
+    }
+    return true
+  }
+
+  if (Array.isArray(stored) || Array.isArray(current)) {
+    if (!Array.isArray(stored) || !Array.isArray(current) || stored.length !== current.length) {
+      return false
+    }
+    return stored.every((v, i) => compareValues(v, current[i], path ? `${path}.${i}` : String(i), out))
+  }
+
+  if (isPlainObject(stored) || isPlainObject(current)) {
+    if (!isPlainObject(stored) || !isPlainObject(current)) return false
+    const keys = Object.keys(stored)
+    if (keys.length !== Object.keys(current).length) return false
+    return keys.every(
+      (k) => Object.hasOwn(current, k) && compareValues(stored[k], current[k], path ? `${path}.${k}` : k, out)
+    )
+  }
+
+  return stored === current
+}
+
+/**
+ * Re-run one stored call through the current engine, mirroring the
+ * orchestrator's input handling (plain-object guard + schema-key stripping).
+ */
+function replay(tc: ToolCall): ToolResult {
+  const tool = TOOL_BY_NAME.get(tc.name)
+  if (!tool) return { ok: false, value: {}, error: `Tool "${tc.name}" not found` }
+  if (!isPlainObject(tc.input)) {
+    return { ok: false, value: {}, error: 'Tool input must be a plain object' }
+  }
+  try {
+    return tool.execute(pickSchemaKeys(tc.input, tool))
+  } catch (e) {
+    return { ok: false, value: {}, error: e instanceof Error ? e.message : 'Engine threw during replay' }
+  }
+}
+
+export function diffToolCall(tc: ToolCall, index: number): ToolCallDrift {
+  if (!TOOL_BY_NAME.has(tc.name)) {
+    return { index, name: tc.name, engine: tc.engine, max_relative_delta: 0, fields: [], status: 'unknown_tool' }
+  }
+  return diffToolResult(tc, replay(tc), index)
+}
+
+/**
+ * Compare a stored call against a result the caller already re-executed
+ * (the answer cache replays calls itself to reuse the fresh results).
+ */
+export function diffToolResult(tc: ToolCall, current: ToolResult, index: number): ToolCallDrift {
+  const base = { index, name: tc.name, engine: tc.engine, max_relative_delta: 0, fields: [] as FieldDrift[] }
+
+  if (!tc.result.ok) {
+    // A call that failed when signed and still fails is reproducing faithfully;
+    // error wording is not part of the numeric contract.
+    return { ...base, status: current.ok ? 'changed' : 'unchanged' }
+  }
+  if (!current.ok) {
+    return { ...base, status: 'newly_erroring', error: current.error }
+  }
+
+  const fields: FieldDrift[] = []
+  if (!compareValues(tc.result.value, current.value, '', fields)) {
+    return { ...base, status: 'changed', fields }
+  }
+  if (fields.length === 0) {
+    return { ...base, status: 'unchanged' }
+  }
+  return {
+    ...base,
+    status: 'drifted',
+    fields,
+    max_relative_delta: Math.max(...fields.map((f) => f.relative_delta)),
+  }
+}
+
+/**
+ * Replay every tool call on an (already authenticated) card.
+ */
+export function replayToolCalls(card: Pick<AnswerCard, 'tool_calls' | 'version'>): ReverifyReport {
+  const calls = card.tool_calls.map(diffToolCall)
+  return {
+    engine_version: VERSION,
+    card_version: card.version,
+    reproduces: calls.every((c) => c.status === 'unchanged'),
+    checked_at: new Date().toISOString(),
+    calls,
+  }
+}
+
+/**
+ * Verify the card's signature, then replay it. Returns null when the signature
+ * does not hold — the caller must surface that as tampered, not as a drift.
+ */
+export async function reverifyCard(card: AnswerCard): Promise<ReverifyReport | null> {
+  const authentic = await verifyCardSignature(toSignablePayload(card), card.signature)
+  if (!authentic) return null
+  return replayToolCalls(card)
+}
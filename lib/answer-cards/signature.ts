@@ -1,156 +1,89 @@
 /**
- * VerChem Answer Card Signature — HMAC-SHA256 with canonical JSON
+ * VerChem Answer Card Signature — canonical JSON, HMAC-SHA256 or Ed25519
  *
  * SECURITY: Signs canonicalized payload so key order never affects signature.
  * Reference: lib/auth/session.ts (crypto.subtle + base64url pattern)
  *
  * W3-R2: Full signature coverage — signs every field visible on the card
  * except signature itself.
- */
-
-import type { SignablePayload, AnswerCard } from './types'
-
-/**
- * Reconstruct the exact signable payload from a card.
  *
- * SECURITY: signing (orchestrator) and verification (load / share) MUST build
- * the payload through this single function. If the two ever diverged, every
- * signature would fail to verify — or worse, verify a different shape than was
- * signed. The `signature` field and the deprecated `verified` flag are excluded
- * because they are not part of what is signed.
- */
-export function toSignablePayload(card: Omit<AnswerCard, 'signature'>): SignablePayload {
-  return {
-    question: card.question,
-    status: card.status,
-    tool_calls: card.tool_calls.map((tc) => ({
-      name: tc.name,
-      engine: tc.engine,
-      input: tc.input,
-      result: tc.result,
-      citation: tc.citation,
-    })),
-    explanation: card.explanation,
-    audit: card.audit,
-    model: card.model,
-    version: card.version,
-    issued_at: card.issued_at,
-  }
-}
-
-/**
- * Recursively sort object keys for stable serialization.
+ * Two schemes (see verify-offline.ts for the token formats):
+ * - Ed25519 when ANSWER_CARD_ED25519_PRIVATE_KEY is configured — anyone can
+ *   verify offline against the published key set (GET /api/answer-cards/keys).
+ * - HMAC otherwise, through a keyring (ANSWER_CARD_KEYRING, see
+ *   lib/auth/keyring.ts) so the secret can rotate: every token carries its kid,
+ *   and ANSWER_CARD_SECRET / SESSION_SECRET remains the verify-only "legacy"
+ *   key for cards signed before rotation. HMAC cards keep verifying after
+ *   Ed25519 is switched on, so stored cards survive the transition.
+ *
+ * A card whose kid was revoked reports `key_revoked` — distinct from
+ * `tampered` — so a routine key retirement never looks like a forgery.
  */
-function canonicalize(value: unknown): unknown {
-  if (value === null || typeof value !== 'object') {
-    return value
-  }
 
-  if (Array.isArray(value)) {
-    return value.map(canonicalize)
-  }
+import type { SignablePayload, SignatureStatus } from './types'
+import { base64urlEncode, canonicalPayloadString, toSignablePayload } from './canonical'
+import { formatEd25519Signature, parseCardSignature, verifyCanonicalOffline } from './verify-offline'
+import { getEd25519SigningKey, getPublishedKeySet } from './signing-keys'
+import { loadKeyring, signWithKeyring, verifyWithKeyring, type HmacKeyring } from '@/lib/auth/keyring'
 
-  // SECURITY: use a null-prototype accumulator. With a plain `{}`, assigning a
-  // key named "__proto__" hits Object.prototype's setter and mutates the
-  // prototype instead of creating an own property — so JSON.stringify would
-  // OMIT it, and a card with a tampered/injected `__proto__` field would
-  // produce the SAME canonical string (and thus verify). A null-proto object
-  // has no such setter, so "__proto__" / "constructor" become real own keys
-  // and are faithfully serialized. (JSON.parse can create an own "__proto__"
-  // key, so this is a reachable forgery vector.)
-  const sorted: Record<string, unknown> = Object.create(null)
-  const source = value as Record<string, unknown>
-  const keys = Object.keys(source).sort()
-  for (const key of keys) {
-    sorted[key] = canonicalize(source[key])
-  }
-  return sorted
-}
+export { toSignablePayload, canonicalPayloadString }
+export type { SignatureStatus }
 
-/**
- * Stable JSON stringify using canonicalization.
- */
-function canonicalJSON(value: unknown): string {
-  return JSON.stringify(canonicalize(value))
+function getLegacySecret(): string | undefined {
+  const secret = process.env.ANSWER_CARD_SECRET || process.env.SESSION_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === 'production') return undefined
+  // Development fallback — still sign with a predictable string so tests work
+  return 'dev-answer-card-secret-do-not-use-in-production'
 }
 
-/**
- * Encode Uint8Array to base64url string.
- */
-function base64urlEncode(bytes: Uint8Array): string {
-  let binary = ''
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i])
+function getCardKeyring(): HmacKeyring {
+  const keyring = loadKeyring('ANSWER_CARD_KEYRING', getLegacySecret())
+  if (!keyring) {
+    throw new Error('ANSWER_CARD_KEYRING, ANSWER_CARD_SECRET or SESSION_SECRET is required in production')
   }
-  return btoa(binary)
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=+$/g, '')
+  return keyring
 }
 
 /**
- * Constant-time string comparison (prevents timing attacks).
+ * Sign a canonical string with the configured scheme. Ed25519 when a signing
+ * key is configured, the keyring's active HMAC key otherwise.
  */
-function constantTimeEqual(a: string, b: string): boolean {
-  if (a.length !== b.length) return false
-  let result = 0
-  for (let i = 0; i < a.length; i++) {
-    result |= a.charCodeAt(i) ^ b.charCodeAt(i)
+async function signCanonical(message: string): Promise<string> {
+  const edKey = await getEd25519SigningKey()
+  if (edKey) {
+    const sig = await crypto.subtle.sign('Ed25519', edKey.privateKey, new TextEncoder().encode(message))
+    return formatEd25519Signature(edKey.kid, base64urlEncode(new Uint8Array(sig)))
   }
-  return result === 0
-}
-
-function getSecret(): string {
-  const secret = process.env.ANSWER_CARD_SECRET || process.env.SESSION_SECRET
-
-  if (!secret) {
-    if (process.env.NODE_ENV === 'production') {
-      throw new Error('ANSWER_CARD_SECRET or SESSION_SECRET is required in production')
-    }
-    // Development fallback — still sign with a predictable string so tests work
-    return 'dev-answer-card-secret-do-not-use-in-production'
-  }
-
-  return secret
+  return signWithKeyring(getCardKeyring(), message)
 }
 
 /**
- * HMAC-SHA256 a raw message → base64url. Single crypto primitive used by both
- * signing and string-level verification so they can never diverge.
+ * Check a signature token over a canonical string, dispatching on its scheme.
+ * Revocation (keyring "revoked" list) applies to HMAC and Ed25519 kids alike.
+ * Ed25519 cards verify without any HMAC secret; a keyring, when one is
+ * configured, only adds its revocations.
  */
-async function hmacBase64url(message: string): Promise<string> {
-  const secret = getSecret()
-  const enc = new TextEncoder()
-
-  const cryptoKey = await crypto.subtle.importKey(
-    'raw',
-    enc.encode(secret),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  )
-
-  const sig = await crypto.subtle.sign('HMAC', cryptoKey, enc.encode(message))
-  return base64urlEncode(new Uint8Array(sig))
-}
-
-/**
- * The exact canonical string that gets signed for a payload.
- *
- * PERSISTENCE: store THIS string verbatim (as TEXT) alongside the signature.
- * Re-deriving it from typed DB columns is fragile — a TIMESTAMPTZ round-trip
- * or JSONB key/number normalization would change the bytes and break the HMAC.
- * Storing the canonical string makes verification a pure string operation.
- */
-export function canonicalPayloadString(payload: SignablePayload): string {
-  return canonicalJSON(payload)
+async function checkCanonical(message: string, signature: string): Promise<SignatureStatus> {
+  const parsed = parseCardSignature(signature)
+  if (!parsed) return 'tampered'
+
+  if (parsed.scheme === 'hmac') {
+    const keyring = getCardKeyring()
+    if (keyring.revoked.has(parsed.kid)) return 'key_revoked'
+    return (await verifyWithKeyring(keyring, message, signature)) === 'valid' ? 'valid' : 'tampered'
+  }
+  const keyring = loadKeyring('ANSWER_CARD_KEYRING', getLegacySecret())
+  if (keyring?.revoked.has(parsed.kid)) return 'key_revoked'
+  const result = await verifyCanonicalOffline(message, signature, await getPublishedKeySet())
+  return result.valid ? 'valid' : 'tampered'
 }
 
 /**
- * Sign a card payload with HMAC-SHA256 (over its canonical serialization).
+ * Sign a card payload (over its canonical serialization).
  */
 export async function signCard(payload: SignablePayload): Promise<string> {
-  return hmacBase64url(canonicalJSON(payload))
+  return signCanonical(canonicalPayloadString(payload))
 }
 
 /**
@@ -161,7 +94,7 @@ export async function verifyCardSignature(
   signature: string
 ): Promise<boolean> {
   try {
-    return constantTimeEqual(await signCard(payload), signature)
+    return (await checkCanonical(canonicalPayloadString(payload), signature)) === 'valid'
   } catch {
     return false
   }
@@ -176,9 +109,51 @@ export async function verifyCanonicalSignature(
   canonical: string,
   signature: string
 ): Promise<boolean> {
+  return (await checkCanonicalSignature(canonical, signature)) === 'valid'
+}
+
+/**
+ * Like verifyCanonicalSignature, but distinguishes a revoked signing key from
+ * tampering. Any internal failure is reported as tampered (fail closed).
+ */
+export async function checkCanonicalSignature(
+  canonical: string,
+  signature: string
+): Promise<SignatureStatus> {
   try {
-    return constantTimeEqual(await hmacBase64url(canonical), signature)
+    return await checkCanonical(canonical, signature)
   } catch {
-    return false
+    return 'tampered'
+  }
+}
+
+/** Scheme + key id new cards are signed with right now. */
+export async function currentSigningKey(): Promise<{ scheme: 'hmac' | 'ed25519'; kid: string }> {
+  const edKey = await getEd25519SigningKey()
+  return edKey ? { scheme: 'ed25519', kid: edKey.kid } : { scheme: 'hmac', kid: getCardKeyring().activeKid }
+}
+
+export interface ResignResult {
+  status: SignatureStatus
+  /** The signature to store: re-issued under the current key, or unchanged. */
+  signature: string
+  changed: boolean
+}
+
+/**
+ * Re-sign a stored canonical payload under the current signing key.
+ *
+ * SECURITY: only a signature that verifies TODAY is re-issued. A tampered row
+ * or a row whose key was revoked is returned unchanged — re-signing it would
+ * launder untrusted bytes into a fresh, valid signature.
+ */
+export async function resignCanonical(canonical: string, signature: string): Promise<ResignResult> {
+  const status = await checkCanonicalSignature(canonical, signature)
+  const parsed = parseCardSignature(signature)
+  const current = await currentSigningKey()
+  if (status !== 'valid' || (parsed?.scheme === current.scheme && parsed.kid === current.kid)) {
+    return { status, signature, changed: false }
   }
+  const fresh = await signCanonical(canonical)
+  return { status, signature: fresh, changed: fresh !== signature }
 }
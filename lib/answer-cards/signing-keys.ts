@@ -0,0 +1,122 @@
+/**
+ * VerChem Answer Card — Ed25519 signing-key configuration (server)
+ *
+ * Asymmetric mode is enabled by configuring a private key; otherwise cards keep
+ * being signed with the legacy HMAC secret (see signature.ts).
+ *
+ *   ANSWER_CARD_ED25519_PRIVATE_KEY   PKCS#8 private key (PEM or base64 DER)
+ *   ANSWER_CARD_ED25519_KID           key id embedded in every signature
+ *   ANSWER_CARD_ED25519_RETIRED_KEYS  JSON [{ "kid": "...", "x": "<base64url>" }]
+ *                                     verify-only public keys of retired keys
+ *
+ * The public half of the active key is derived from the private key, so the
+ * published key set can never disagree with what we actually sign with.
+ */
+
+import type { PublishedKey, PublishedKeySet } from './types'
+import { base64urlDecode } from './canonical'
+
+const KID_REGEX = /^[A-Za-z0-9_-]{1,64}$/
+
+export interface Ed25519SigningKey {
+  kid: string
+  privateKey: CryptoKey
+  publicKey: PublishedKey
+}
+
+function publishedKey(kid: string, x: string, status: PublishedKey['status']): PublishedKey {
+  return { kty: 'OKP', crv: 'Ed25519', x, kid, alg: 'EdDSA', use: 'sig', status }
+}
+
+function decodePkcs8(value: string): Uint8Array<ArrayBuffer> | null {
+  const body = value
+    .replace(/-----BEGIN [A-Z ]+-----/g, '')
+    .replace(/-----END [A-Z ]+-----/g, '')
+    .replace(/\\n/g, '')
+    .replace(/\s+/g, '')
+  return body.length > 0 ? base64urlDecode(body) : null
+}
+
+// Importing a key is cheap but not free; cache on the raw env values so a
+// rotated env (new deploy) is picked up without a restart in tests.
+let cachedKey: { source: string; key: Ed25519SigningKey } | null = null
+
+/**
+ * The active Ed25519 signing key, or null when asymmetric signing is not
+ * configured. Throws on a half/mis-configured key — silently falling back to
+ * HMAC would publish cards nobody can verify offline.
+ */
+export async function getEd25519SigningKey(): Promise<Ed25519SigningKey | null> {
+  const pem = process.env.ANSWER_CARD_ED25519_PRIVATE_KEY
+  if (!pem) return null
+
+  const kid = process.env.ANSWER_CARD_ED25519_KID ?? ''
+  const source = `${kid}\n${pem}`
+  if (cachedKey?.source === source) return cachedKey.key
+
+  if (!KID_REGEX.test(kid)) {
+    throw new Error('ANSWER_CARD_ED25519_KID must be set (1-64 chars of [A-Za-z0-9_-]) when an Ed25519 key is configured')
+  }
+  const der = decodePkcs8(pem)
+  if (!der) {
+    throw new Error('ANSWER_CARD_ED25519_PRIVATE_KEY is not a valid PKCS#8 key')
+  }
+
+  // Import extractable once to derive the public half, then keep a
+  // non-extractable handle for signing.
+  const exportable = await crypto.subtle.importKey('pkcs8', der, { name: 'Ed25519' }, true, ['sign'])
+  const jwk = await crypto.subtle.exportKey('jwk', exportable)
+  if (typeof jwk.x !== 'string') {
+    throw new Error('ANSWER_CARD_ED25519_PRIVATE_KEY did not yield a public key')
+  }
+  const privateKey = await crypto.subtle.importKey('pkcs8', der, { name: 'Ed25519' }, false, ['sign'])
+
+  const key: Ed25519SigningKey = { kid, privateKey, publicKey: publishedKey(kid, jwk.x, 'current') }
+  cachedKey = { source, key }
+  return key
+}
+
+/**
+ * Retired (verify-only) public keys. Malformed entries are skipped with a
+ * warning rather than taking down verification of every other card.
+ */
+export function getRetiredPublicKeys(): PublishedKey[] {
+  const raw = process.env.ANSWER_CARD_ED25519_RETIRED_KEYS
+  if (!raw) return []
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(raw)
+  } catch {
+    console.warn('ANSWER_CARD_ED25519_RETIRED_KEYS is not valid JSON - ignoring')
+    return []
+  }
+  if (!Array.isArray(parsed)) return []
+
+  const keys: PublishedKey[] = []
+  for (const entry of parsed) {
+    const kid = (entry as { kid?: unknown })?.kid
+    const x = (entry as { x?: unknown })?.x
+    const bytes = typeof x === 'string' ? base64urlDecode(x) : null
+    if (typeof kid !== 'string' || !KID_REGEX.test(kid) || !bytes || bytes.length !== 32) {
+      console.warn('Skipping malformed retired answer-card key entry')
+      continue
+    }
+    keys.push(publishedKey(kid, x as string, 'retired'))
+  }
+  return keys
+}
+
+/**
+ * Every public key a card may legitimately be signed with: the current key
+ * first, then retired keys. A retired kid that collides with the current kid
+ * is dropped (the current key wins).
+ */
+export async function getPublishedKeySet(): Promise<PublishedKeySet> {
+  const active = await getEd25519SigningKey()
+  const keys: PublishedKey[] = active ? [active.publicKey] : []
+  for (const k of getRetiredPublicKeys()) {
+    if (!keys.some((existing) => existing.kid === k.kid)) keys.push(k)
+  }
+  return { keys }
+}
@@ -0,0 +1,174 @@
+/**
+ * VerChem Answer Card — Server-Sent Events codec
+ *
+ * Wire format of the streaming answer-card endpoint, shared by the route
+ * (encode) and the browser (decode). Pure — no server imports.
+ *
+ *   event: tool_call   data: {"index":0,"call":{...ToolCall}}
+ *   event: audit       data: {"audit":{...},"status":"verified"}
+ *   event: card        data: {...AnswerCard}
+ *   event: error       data: {"error":"...","status":503}
+ *
+ * The `card` data line is JSON.stringify(card) — byte-for-byte the body of the
+ * non-streaming response — so the signature verifies identically either way.
+ *
+ * The batch endpoint uses the same framing with its own events:
+ *
+ *   event: batch       data: {"batch_id":"batch_…","total":20}
+ *   event: item        data: {"index":3,"question":"...","ok":true,"card":{...}}
+ *   event: done        data: {"batch_id":"batch_…","succeeded":19,"failed":1}
+ */
+
+import type { AnswerCard, AnswerCardStreamEvent } from './types'
+import type { AnswerCardBatchEvent } from './batch'
+
+export const SSE_CONTENT_TYPE = 'text/event-stream'
+
+const EVENT_TYPES = new Set<AnswerCardStreamEvent['type']>(['tool_call', 'audit', 'card', 'error'])
+const BATCH_EVENT_TYPES = new Set<AnswerCardBatchEvent['type']>(['batch', 'item', 'done'])
+
+/** Does this request ask for the streaming variant? */
+export function wantsEventStream(accept: string | null): boolean {
+  return !!accept && accept.toLowerCase().includes(SSE_CONTENT_TYPE)
+}
+
+export function encodeStreamEvent(event: AnswerCardStreamEvent): string {
+  let data: string
+  switch (event.type) {
+    case 'tool_call':
+      data = JSON.stringify({ index: event.index, call: event.call })
+      break
+    case 'audit':
+      data = JSON.stringify({ audit: event.audit, status: event.status })
+      break
+    case 'card':
+      data = JSON.stringify(event.card)
+      break
+    case 'error':
+      data = JSON.stringify({ error: event.error, status: event.status })
+      break
+  }
+  return `event: ${event.type}\ndata: ${data}\n\n`
+}
+
+export function encodeBatchStreamEvent(event: AnswerCardBatchEvent): string {
+  const { type, ...rest } = event
+  const data = JSON.stringify(type === 'item' ? event.item : rest)
+  return `event: ${type}\ndata: ${data}\n\n`
+}
+
+function decodeFrame(block: string, types: ReadonlySet<string>): { type: string; data: Record<string, unknown> } | null {
+  let type = 'message'
+  const dataLines: string[] = []
+  for (const line of block.split('\n')) {
+    if (line.startsWith(':')) continue
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+    if (field === 'event') type = value
+    else if (field === 'data') dataLines.push(value)
+  }
+  if (!types.has(type) || dataLines.length === 0) return null
+
+  let data: unknown
+  try {
+    data = JSON.parse(dataLines.join('\n'))
+  } catch {
+    return null
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return null
+  return { type, data: data as Record<string, unknown> }
+}
+
+function decodeBlock(block: string): AnswerCardStreamEvent | null {
+  const frame = decodeFrame(block, EVENT_TYPES)
+  if (!frame) return null
+  if (frame.type === 'card') return { type: 'card', card: frame.data as unknown as AnswerCard }
+  return { type: frame.type, ...frame.data } as AnswerCardStreamEvent
+}
+
+function decodeBatchBlock(block: string): AnswerCardBatchEvent | null {
+  const frame = decodeFrame(block, BATCH_EVENT_TYPES)
+  if (!frame) return null
+  if (frame.type === 'item') return { type: 'item', item: frame.data } as AnswerCardBatchEvent
+  return { type: frame.type, ...frame.data } as AnswerCardBatchEvent
+}
+
+export interface StreamParser {
+  push: (chunk: string) => void
+  end: () => void
+}
+
+function createFrameParser<E>(decode: (block: string) => E | null, onEvent: (event: E) => void): StreamParser {
+  let buffer = ''
+
+  function drain(final: boolean) {
+    buffer = buffer.replace(/\r\n/g, '\n')
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const event = decode(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      if (event) onEvent(event)
+      boundary = buffer.indexOf('\n\n')
+    }
+    if (final && buffer.trim().length > 0) {
+      const event = decode(buffer)
+      buffer = ''
+      if (event) onEvent(event)
+    }
+  }
+
+  return {
+    push(chunk: string) {
+      buffer += chunk
+      drain(false)
+    },
+    end() {
+      drain(true)
+    },
+  }
+}
+
+/**
+ * Incremental parser: feed decoded text chunks as they arrive; `onEvent` fires
+ * once per complete event. Unknown or malformed events are skipped.
+ */
+export function createStreamParser(onEvent: (event: AnswerCardStreamEvent) => void): StreamParser {
+  return createFrameParser(decodeBlock, onEvent)
+}
+
+/** Incremental parser for the batch endpoint's events. */
+export function createBatchStreamParser(onEvent: (event: AnswerCardBatchEvent) => void): StreamParser {
+  return createFrameParser(decodeBatchBlock, onEvent)
+}
+
+async function readStream(body: ReadableStream<Uint8Array>, parser: StreamParser): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    parser.push(decoder.decode(value, { stream: true }))
+  }
+  parser.push(decoder.decode())
+  parser.end()
+}
+
+/**
+ * Read a streaming response body to the end, dispatching each event.
+ */
+export async function readAnswerCardStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AnswerCardStreamEvent) => void
+): Promise<void> {
+  return readStream(body, createStreamParser(onEvent))
+}
+
+/** Read a batch response body to the end, dispatching each event. */
+export async function readAnswerCardBatchStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AnswerCardBatchEvent) => void
+): Promise<void> {
+  return readStream(body, createBatchStreamParser(onEvent))
+}
@@ -24,6 +24,8 @@ import {
   calculateStockPrep,
   convertConcentration,
   calculateMixing,
+  solveDilution,
+  calculateSerialDilution,
   type ConcentrationUnit,
 } from '@/lib/calculations/solution-prep'
 
@@ -446,6 +448,112 @@ const calculate_mixing: VerifiedTool = {
   },
 }
 
+// Serial dilution series are capped well below the engine's 50 tubes: every
+// tube's numbers land in the audit allowlist.
+const MAX_SERIAL_DILUTIONS = 12
+
+const DILUTION_KEYS = ['c1', 'v1', 'c2', 'v2'] as const
+
+const solve_dilution: VerifiedTool = {
+  name: 'solve_dilution',
+  description: 'Solve C1·V1 = C2·V2 for whichever value is missing and give the dilution recipe (diluent to add). Use when the user asks how to dilute a stock to a target concentration or volume, in any consistent concentration and volume units. Provide exactly three of c1, v1, c2, v2.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      c1: { type: 'number', description: 'Stock concentration (same unit as c2)' },
+      v1: { type: 'number', description: 'Volume of stock taken (same unit as v2)' },
+      c2: { type: 'number', description: 'Final (diluted) concentration (same unit as c1)' },
+      v2: { type: 'number', description: 'Final total volume (same unit as v1)' },
+    },
+    required: [],
+  },
+  citation: CITATION,
+  engine: 'dilution-solver',
+  execute: (input) => {
+    const values: Partial<Record<(typeof DILUTION_KEYS)[number], number>> = {}
+    for (const key of DILUTION_KEYS) {
+      if (input[key] === undefined) continue
+      const value = readFiniteNumber(input[key])
+      if (value === undefined || value <= 0) return err(`${key} must be a positive finite number if provided`)
+      values[key] = value
+    }
+    const provided = Object.keys(values).length
+    if (provided !== 3) return err(`Provide exactly three of c1, v1, c2, v2 (got ${provided})`)
+
+    // A dilution never concentrates: C2 ≤ C1 and V2 ≥ V1.
+    const { c1, v1, c2, v2 } = values
+    if (c1 !== undefined && c2 !== undefined && c2 > c1) return err('c2 cannot exceed c1 — that is a concentration, not a dilution')
+    if (v1 !== undefined && v2 !== undefined && v1 > v2) return err('v1 cannot exceed v2 — the final volume includes the stock taken')
+
+    try {
+      const result = solveDilution(values)
+      if (result.c2 > result.c1 || result.v1 > result.v2) {
+        return err('These values describe a concentration, not a dilution (need C2 ≤ C1 and V2 ≥ V1)')
+      }
+      return finalizeResult({
+        c1: result.c1,
+        v1: result.v1,
+        c2: result.c2,
+        v2: result.v2,
+        solved_for: result.solvedFor,
+        diluent_volume: result.v2 - result.v1,
+        dilution_factor: result.c1 / result.c2,
+        note: 'concentrations share one unit; volumes share one unit',
+      })
+    } catch (e) {
+      return err(e instanceof Error ? e.message : 'Dilution calculation failed')
+    }
+  },
+}
+
+const calculate_serial_dilution: VerifiedTool = {
+  name: 'calculate_serial_dilution',
+  description: 'Plan a serial dilution series: concentration in every tube plus the transfer and diluent volumes. Use when the user asks about serial dilutions (e.g. 1:10 series).',
+  input_schema: {
+    type: 'object',
+    properties: {
+      initial_concentration: { type: 'number', description: 'Stock concentration (any unit; tube concentrations use the same unit)' },
+      dilution_factor: { type: 'number', description: 'Fold dilution per step, greater than 1 (10 for a 1:10 series)' },
+      number_of_dilutions: { type: 'integer', description: `Number of dilution steps (1–${MAX_SERIAL_DILUTIONS})` },
+      transfer_volume_mL: { type: 'number', description: 'Volume carried from each tube to the next (mL)' },
+    },
+    required: ['initial_concentration', 'dilution_factor', 'number_of_dilutions', 'transfer_volume_mL'],
+  },
+  citation: CITATION,
+  engine: 'serial-dilution',
+  execute: (input) => {
+    const initialConc = readFiniteNumber(input.initial_concentration)
+    const dilutionFactor = readFiniteNumber(input.dilution_factor)
+    const numDilutions = readFiniteNumber(input.number_of_dilutions)
+    const transferVolume = readFiniteNumber(input.transfer_volume_mL)
+    if (initialConc === undefined || initialConc <= 0) return err('initial_concentration must be a positive finite number')
+    if (dilutionFactor === undefined || dilutionFactor <= 1) return err('dilution_factor must be a finite number greater than 1')
+    if (numDilutions === undefined || !Number.isInteger(numDilutions) || numDilutions < 1 || numDilutions > MAX_SERIAL_DILUTIONS) {
+      return err(`number_of_dilutions must be an integer from 1 to ${MAX_SERIAL_DILUTIONS}`)
+    }
+    if (transferVolume === undefined || transferVolume <= 0) return err('transfer_volume_mL must be a positive finite number')
+
+    try {
+      const result = calculateSerialDilution({ initialConc, dilutionFactor, numDilutions, transferVolume })
+      const final = result.steps[result.steps.length - 1]
+      // The last tubes of a long, steep series can underflow to 0 — never sign that.
+      if (!(final.concentration > 0)) return err('Final concentration underflows to zero; use fewer or smaller dilutions')
+      return finalizeResult({
+        tubes: result.steps.map((step) => ({
+          step: step.step,
+          concentration: step.concentration,
+          total_volume_mL: step.totalVolume,
+          transfer_volume_mL: step.transferVolume,
+          diluent_volume_mL: step.diluentVolume,
+        })),
+        final_concentration: final.concentration,
+      })
+    } catch (e) {
+      return err(e instanceof Error ? e.message : 'Serial dilution calculation failed')
+    }
+  },
+}
+
 export const concentrationTools: VerifiedTool[] = [
   calculate_molarity,
   calculate_molality,
@@ -457,4 +565,6 @@ export const concentrationTools: VerifiedTool[] = [
   calculate_stock_prep,
   convert_concentration,
   calculate_mixing,
+  solve_dilution,
+  calculate_serial_dilution,
 ]
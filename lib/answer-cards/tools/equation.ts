@@ -72,7 +72,12 @@ const balance_equation: VerifiedTool = {
     try {
       const result = balanceEquation(equation)
       if (!result.isBalanced) {
-        return err('Could not balance the provided equation. Please check the formula and format.')
+        const reason = result.solutionSpace?.reason
+        return err(
+          reason
+            ? `Could not balance the provided equation: ${reason}`
+            : 'Could not balance the provided equation. Please check the formula and format.'
+        )
       }
       // Extra guard: balanced result must have atoms recorded
       if (Object.keys(result.atoms).length === 0) {
@@ -0,0 +1,229 @@
+/**
+ * VerChem Verified Answer Cards — Lewis Structure / VSEPR Tool Adapters
+ *
+ * Maps Claude tool calls to deterministic engines in:
+ *   lib/calculations/lewis-structure.ts
+ *   lib/calculations/vsepr-geometry.ts
+ * CRITICAL: execute() routes to engine functions directly — no reimplementation.
+ *
+ * The Lewis generator builds a single star topology (every atom bonded to one
+ * central atom) and never fails loudly, so its output is only signed after an
+ * independent electron-bookkeeping check. VSEPR is then run on the VERIFIED
+ * Lewis structure (central formal charge + bond orders), so both tools always
+ * agree on the central atom's lone pairs.
+ */
+
+import type { VerifiedTool, ToolResult } from '../types'
+import { finalizeResult, readOptionalFiniteNumber } from './_validate'
+import { normalizeFormula, isAsciiFormula } from './_formula'
+import {
+  generateLewisStructure,
+  isLewisSupportedElement,
+  parseFormula,
+  type LewisAtom,
+  type LewisStructure,
+} from '@/lib/calculations/lewis-structure'
+import { predictVSEPRGeometry } from '@/lib/calculations/vsepr-geometry'
+
+const CITATION = 'Brown, LeMay & Bursten, Chemistry: The Central Science (15th ed.), Ch. 8 (Lewis structures, formal charge) and Ch. 9 (VSEPR); Gillespie & Hargittai, The VSEPR Model of Molecular Geometry (1991)'
+
+function err(message: string): ToolResult {
+  return { ok: false, value: {}, error: message }
+}
+
+// Plain element/count sequences only: no parentheses, hydrates, charges or zero counts.
+const FORMULA_PATTERN = /^(?:[A-Z][a-z]?(?:[1-9]\d?)?)+$/
+const MAX_ATOMS = 7 // AX6 (SF6) is the largest star the generator draws
+const MAX_ABS_CHARGE = 3
+
+// Period 1–2 atoms never exceed an octet.
+const NO_EXPANDED_OCTET = new Set(['H', 'He', 'Li', 'Be', 'B', 'C', 'N', 'O', 'F', 'Ne'])
+// Centrals the generator deliberately leaves electron-deficient (BF3, BeCl2).
+const ELECTRON_DEFICIENT_CENTRALS = new Set(['B', 'Be'])
+// With H present, a halogen/noble-gas "central" atom means the real skeleton
+// is a chain (HOCl is H–O–Cl, not H–Cl–O) that a star topology cannot draw.
+const NO_H_CENTRALS = new Set(['F', 'Cl', 'Br', 'I', 'Xe'])
+
+function bondOrderSum(atom: LewisAtom): number {
+  return atom.bonds.reduce((sum, bond) => sum + bond.order, 0)
+}
+
+function electronsAround(atom: LewisAtom): number {
+  return 2 * atom.lonePairs + 2 * bondOrderSum(atom)
+}
+
+type VerifiedLewis =
+  | { ok: true; formula: string; charge: number; structure: LewisStructure }
+  | { ok: false; error: string }
+
+/**
+ * Run the Lewis engine and accept its structure only if the electron
+ * bookkeeping holds: every valence electron placed exactly once, H duets,
+ * terminal octets, and a central atom that is 8 — or above 8 only from
+ * period 3 on, below 8 only for B/Be.
+ */
+function buildVerifiedLewis(input: Record<string, unknown>): VerifiedLewis {
+  const fail = (error: string): VerifiedLewis => ({ ok: false, error })
+
+  if (typeof input.formula !== 'string') return fail('formula is required')
+  const formula = normalizeFormula(input.formula)
+  if (!isAsciiFormula(formula) || !FORMULA_PATTERN.test(formula)) {
+    return fail('formula must be a simple molecular formula such as H2O, CO2 or SF6 (no parentheses, hydrates or charge signs; pass charge separately)')
+  }
+
+  const charge = readOptionalFiniteNumber(input, 'charge', 0)
+  if (charge === undefined || !Number.isInteger(charge) || Math.abs(charge) > MAX_ABS_CHARGE) {
+    return fail(`charge must be an integer from -${MAX_ABS_CHARGE} to ${MAX_ABS_CHARGE}`)
+  }
+
+  const counts = parseFormula(formula)
+  let atomCount = 0
+  for (const [element, count] of counts) {
+    if (!isLewisSupportedElement(element)) return fail(`Element "${element}" is not supported by the Lewis structure generator`)
+    atomCount += count
+  }
+  if (atomCount < 2 || atomCount > MAX_ATOMS) {
+    return fail(`formula must contain 2 to ${MAX_ATOMS} atoms (got ${atomCount})`)
+  }
+
+  let structure: LewisStructure
+  try {
+    structure = generateLewisStructure(formula, charge)
+  } catch (e) {
+    return fail(e instanceof Error ? e.message : 'Lewis structure generation failed')
+  }
+
+  const [central, ...terminals] = structure.atoms
+  if (atomCount > 2 && (counts.get(central.element) ?? 0) > 1) {
+    return fail(`${formula} has more than one ${central.element} atom; only single-central-atom species (AXn) are supported, not chains such as H2O2, C2H6 or O3`)
+  }
+  if (atomCount > 2 && counts.has('H') && NO_H_CENTRALS.has(central.element)) {
+    return fail(`${formula}: H does not bond to ${central.element} here (e.g. HOCl is H–O–Cl); chain skeletons are not supported`)
+  }
+
+  const total = structure.totalValenceElectrons
+  if (total <= 0) return fail('charge leaves no valence electrons')
+  if (total % 2 !== 0) return fail(`${formula} has ${total} valence electrons; odd-electron species (radicals) are not supported`)
+
+  const placed = structure.atoms.reduce((sum, atom) => sum + 2 * atom.lonePairs + bondOrderSum(atom), 0)
+  if (placed !== total) {
+    return fail(`No valid single-central-atom Lewis structure for ${formula} (placed ${placed} of ${total} valence electrons)`)
+  }
+
+  for (const atom of terminals) {
+    const expected = atom.element === 'H' ? 2 : 8
+    if (electronsAround(atom) !== expected) {
+      return fail(`No valid single-central-atom Lewis structure for ${formula} (terminal ${atom.element} has ${electronsAround(atom)} electrons)`)
+    }
+  }
+
+  const centralElectrons = electronsAround(central)
+  const centralOk =
+    central.element === 'H'
+      ? centralElectrons === 2
+      : centralElectrons === 8 ||
+        (centralElectrons > 8 && !NO_EXPANDED_OCTET.has(central.element)) ||
+        (centralElectrons < 8 && ELECTRON_DEFICIENT_CENTRALS.has(central.element))
+  if (!centralOk) {
+    return fail(`No valid single-central-atom Lewis structure for ${formula} (central ${central.element} has ${centralElectrons} electrons)`)
+  }
+
+  return { ok: true, formula, charge, structure }
+}
+
+const FORMULA_PROPERTIES = {
+  formula: { type: 'string', description: 'Molecular formula of an AXn species with one central atom, e.g. "H2O", "CO2", "NH4", "SF6", "XeF4"' },
+  charge: { type: 'integer', description: 'Overall charge of the species (e.g. 1 for NH4+, -2 for SO4 2-). Default 0' },
+}
+
+const generate_lewis_structure: VerifiedTool = {
+  name: 'generate_lewis_structure',
+  description: 'Generate the Lewis structure of a molecule or polyatomic ion with a single central atom: bonds with bond orders, lone pairs and formal charges on every atom. Use when the user asks for a Lewis structure, formal charges or bond orders. Resonance forms are not enumerated.',
+  input_schema: {
+    type: 'object',
+    properties: FORMULA_PROPERTIES,
+    required: ['formula'],
+  },
+  citation: CITATION,
+  engine: 'lewis-structure',
+  execute: (input) => {
+    const lewis = buildVerifiedLewis(input)
+    if (!lewis.ok) return err(lewis.error)
+    const { structure } = lewis
+    const central = structure.atoms[0]
+    return finalizeResult({
+      formula: lewis.formula,
+      charge: lewis.charge,
+      central_atom: central.element,
+      total_valence_electrons: structure.totalValenceElectrons,
+      atoms: structure.atoms.map((atom) => ({
+        index: atom.index,
+        element: atom.element,
+        lone_pairs: atom.lonePairs,
+        formal_charge: atom.formalCharge,
+      })),
+      bonds: central.bonds.map((bond) => ({ from: central.index, to: bond.toAtomIndex, order: bond.order })),
+      octet_satisfied: structure.octetSatisfied,
+      note: 'one representative structure; resonance forms are not enumerated',
+    })
+  },
+}
+
+const predict_vsepr_geometry: VerifiedTool = {
+  name: 'predict_vsepr_geometry',
+  description: 'Predict electron-domain and molecular geometry, ideal bond angles and hybridization with VSEPR theory, from the verified Lewis structure of a single-central-atom species. Use when the user asks for the shape, bond angle or hybridization of a molecule or ion.',
+  input_schema: {
+    type: 'object',
+    properties: FORMULA_PROPERTIES,
+    required: ['formula'],
+  },
+  citation: CITATION,
+  engine: 'vsepr-geometry',
+  execute: (input) => {
+    const lewis = buildVerifiedLewis(input)
+    if (!lewis.ok) return err(lewis.error)
+    const [central, ...terminals] = lewis.structure.atoms
+    if (terminals.length < 2) return err('VSEPR geometry needs at least two atoms bonded to the central atom')
+
+    const doubleBonds = central.bonds.filter((bond) => bond.order === 2).length
+    const tripleBonds = central.bonds.filter((bond) => bond.order === 3).length
+
+    try {
+      const result = predictVSEPRGeometry(
+        central.element,
+        terminals.map((atom) => atom.element),
+        central.formalCharge,
+        { doubleBonds, tripleBonds }
+      )
+      if (result.electronGeometry === 'Unknown') return err(result.description)
+      if (result.lonePairs !== central.lonePairs) {
+        return err(`VSEPR lone-pair count (${result.lonePairs}) disagrees with the Lewis structure (${central.lonePairs})`)
+      }
+      // The engine's polarity rule looks at geometry only, so it is reported
+      // only where that is sound: neutral, with identical terminal atoms.
+      const uniformTerminals = terminals.every((atom) => atom.element === terminals[0].element)
+      return finalizeResult({
+        formula: lewis.formula,
+        charge: lewis.charge,
+        central_atom: result.centralAtom,
+        bonding_domains: result.bondingPairs,
+        lone_pairs: result.lonePairs,
+        steric_number: result.totalPairs,
+        double_bonds: result.doubleBonds,
+        triple_bonds: result.tripleBonds,
+        electron_geometry: result.electronGeometry,
+        molecular_geometry: result.molecularGeometry,
+        bond_angles_deg: result.bondAngles,
+        hybridization: result.hybridization,
+        ...(lewis.charge === 0 && uniformTerminals ? { polarity: result.polarity } : {}),
+      })
+    } catch (e) {
+      return err(e instanceof Error ? e.message : 'VSEPR geometry prediction failed')
+    }
+  },
+}
+
+export const molecularStructureTools: VerifiedTool[] = [
+  generate_lewis_structure,
+  predict_vsepr_geometry,
+]
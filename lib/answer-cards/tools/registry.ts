@@ -17,6 +17,9 @@ import { electrochemistryTools } from './electrochemistry'
 import { nuclearTools } from './nuclear'
 import { quantumTools } from './quantum'
 import { electronConfigTools } from './electron-config'
+import { titrationTools } from './titration'
+import { speciationTools } from './speciation'
+import { molecularStructureTools } from './molecular-structure'
 
 export const ALL_TOOLS: VerifiedTool[] = [
   ...phTools,
@@ -30,6 +33,9 @@ export const ALL_TOOLS: VerifiedTool[] = [
   ...nuclearTools,
   ...quantumTools,
   ...electronConfigTools,
+  ...titrationTools,
+  ...speciationTools,
+  ...molecularStructureTools,
 ]
 
 export const TOOL_BY_NAME = new Map<string, VerifiedTool>()
@@ -0,0 +1,202 @@
+/**
+ * VerChem Verified Answer Cards — Acid–Base Speciation Tool Adapters
+ *
+ * Maps Claude tool calls to the deterministic engine in:
+ *   lib/calculations/speciation.ts
+ * CRITICAL: execute() routes to engine functions directly — no reimplementation.
+ *
+ * Activities are taken as concentrations, so concentrations are capped at 1 M;
+ * above that the charge-balance pH is no longer a number we would sign.
+ */
+
+import type { VerifiedTool, ToolResult } from '../types'
+import { readFiniteNumber, readOptionalFiniteNumber, finalizeResult, isPlainObject } from './_validate'
+import {
+  ACID_BASE_SYSTEMS,
+  calculateIsoelectricPoint,
+  calculateSpeciation,
+  createAcidBaseSystem,
+  getAcidBaseSystem,
+  solveMixturePH,
+  type AcidBaseSystem,
+  type MixtureComponent,
+} from '@/lib/calculations/speciation'
+
+const CITATION = 'Harris, Quantitative Chemical Analysis (10th ed.), Ch. 8 (Systematic Treatment of Equilibrium) and Ch. 10 (Polyprotic Acid–Base Equilibria)'
+
+function err(message: string): ToolResult {
+  return { ok: false, value: {}, error: message }
+}
+
+const MIN_PH = -1
+const MAX_PH = 15
+const MAX_CONCENTRATION_M = 1
+const MAX_KA_VALUES = 6
+const MAX_COMPONENTS = 6
+
+const SYSTEM_NAMES = ACID_BASE_SYSTEMS.map((system) => system.name)
+
+/**
+ * Resolve a named system, or build one from explicit Ka values — exactly one
+ * of the two. Returns an error string instead of throwing.
+ */
+function readSystem(acid: unknown, kaValues: unknown, charge: unknown): AcidBaseSystem | string {
+  if (acid !== undefined && kaValues !== undefined) return 'Provide either acid or ka_values, not both'
+  if (typeof acid === 'string') {
+    return getAcidBaseSystem(acid) ?? `Unknown acid: ${acid} (known: ${SYSTEM_NAMES.join(', ')}) — or pass ka_values`
+  }
+  if (acid !== undefined) return 'acid must be a string'
+  if (!Array.isArray(kaValues) || kaValues.length === 0 || kaValues.length > MAX_KA_VALUES) {
+    return `Provide a known acid or 1–${MAX_KA_VALUES} ka_values`
+  }
+  const values = kaValues.map(readFiniteNumber)
+  if (values.some((Ka) => Ka === undefined || Ka <= 0 || Ka >= 1e3)) {
+    return 'Each Ka must be a positive finite number below 1000'
+  }
+  const chargeValue = charge === undefined ? 0 : readFiniteNumber(charge)
+  if (chargeValue === undefined || !Number.isInteger(chargeValue) || Math.abs(chargeValue) > MAX_KA_VALUES) {
+    return `charge must be an integer between -${MAX_KA_VALUES} and ${MAX_KA_VALUES}`
+  }
+  return createAcidBaseSystem(values as number[], { charge: chargeValue })
+}
+
+const calculate_speciation: VerifiedTool = {
+  name: 'calculate_speciation',
+  description: 'Alpha fractions of every form of a polyprotic acid or amino acid at a given pH (H3PO4/H2PO4-/HPO42-/PO43-, carbonate, citrate, glycine…), with the dominant species, average charge and isoelectric point. Use for "what fraction is HPO42- at pH 7.4" or distribution-diagram questions.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      acid: { type: 'string', description: `Known system by name, formula or species: ${SYSTEM_NAMES.join(', ')}` },
+      ka_values: { type: 'array', items: { type: 'number' }, description: 'Stepwise Ka1, Ka2, … for an acid not in the list (omit acid)' },
+      charge: { type: 'integer', description: 'Charge of the fully protonated form when using ka_values. Default 0' },
+      pH: { type: 'number', description: 'Solution pH' },
+      total_concentration_M: { type: 'number', description: 'Optional total concentration of all forms (M)' },
+    },
+    required: ['pH'],
+  },
+  citation: CITATION,
+  engine: 'speciation',
+  execute: (input) => {
+    const system = readSystem(input.acid, input.ka_values, input.charge)
+    if (typeof system === 'string') return err(system)
+
+    const pH = readFiniteNumber(input.pH)
+    if (pH === undefined || pH < MIN_PH || pH > MAX_PH) {
+      return err(`pH must be between ${MIN_PH} and ${MAX_PH}`)
+    }
+    let total: number | undefined
+    if (input.total_concentration_M !== undefined) {
+      total = readFiniteNumber(input.total_concentration_M)
+      if (total === undefined || total < 0 || total > MAX_CONCENTRATION_M) {
+        return err(`total_concentration_M must be between 0 and ${MAX_CONCENTRATION_M} M`)
+      }
+    }
+
+    try {
+      const result = calculateSpeciation(system, pH, total)
+      let isoelectricPoint: number | undefined
+      try {
+        isoelectricPoint = calculateIsoelectricPoint(system)
+      } catch {
+        // No neutral form — leave pI out rather than sign a made-up value
+      }
+      return finalizeResult({
+        system: result.system,
+        pH: result.pH,
+        pKa_values: system.KaValues.map((Ka) => -Math.log10(Ka)),
+        fractions: result.fractions.map((fraction) => ({
+          species: fraction.species,
+          charge: fraction.charge,
+          alpha: fraction.alpha,
+          ...(fraction.concentration !== undefined ? { concentration_M: fraction.concentration } : {}),
+        })),
+        dominant_species: result.dominant,
+        average_charge: result.averageCharge,
+        ...(isoelectricPoint !== undefined ? { isoelectric_point: isoelectricPoint } : {}),
+      })
+    } catch (e) {
+      return err(e instanceof Error ? e.message : 'Speciation calculation failed')
+    }
+  },
+}
+
+const calculate_mixture_ph: VerifiedTool = {
+  name: 'calculate_mixture_ph',
+  description: 'Exact pH of a solution of polyprotic acids, amino acids and their salts, optionally with HCl or NaOH, from the full charge balance (no Henderson–Hasselbalch or "x is small" shortcuts). Use for phosphate/carbonate/citrate buffers, amphiprotic salts such as NaHCO3, or polyprotic acid pH.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      components: {
+        type: 'array',
+        description: 'Acids and salts in the solution',
+        items: {
+          type: 'object',
+          properties: {
+            acid: { type: 'string', description: `Known system: ${SYSTEM_NAMES.join(', ')}` },
+            concentration_M: { type: 'number', description: 'Concentration of this component (M)' },
+            form: { type: 'integer', description: 'Protons already removed in the form added: 0 for H3PO4, 1 for NaH2PO4, 2 for Na2HPO4… Default 0' },
+          },
+          required: ['acid', 'concentration_M'],
+        },
+      },
+      strong_acid_M: { type: 'number', description: 'Added HCl (M). Default 0' },
+      strong_base_M: { type: 'number', description: 'Added NaOH (M). Default 0' },
+    },
+    required: ['components'],
+  },
+  citation: CITATION,
+  engine: 'mixture-pH',
+  execute: (input) => {
+    if (!Array.isArray(input.components) || input.components.length > MAX_COMPONENTS) {
+      return err(`components must be an array of up to ${MAX_COMPONENTS} entries`)
+    }
+
+    const components: MixtureComponent[] = []
+    for (const raw of input.components) {
+      if (!isPlainObject(raw) || typeof raw.acid !== 'string') return err('Each component needs an acid name')
+      const system = getAcidBaseSystem(raw.acid)
+      if (!system) return err(`Unknown acid: ${raw.acid} (known: ${SYSTEM_NAMES.join(', ')})`)
+      const concentration = readFiniteNumber(raw.concentration_M)
+      if (concentration === undefined || concentration < 0 || concentration > MAX_CONCENTRATION_M) {
+        return err(`concentration_M of ${raw.acid} must be between 0 and ${MAX_CONCENTRATION_M} M`)
+      }
+      const form = readOptionalFiniteNumber(raw, 'form', 0)
+      if (form === undefined || !Number.isInteger(form) || form < 0 || form > system.KaValues.length) {
+        return err(`form for ${system.name} must be an integer from 0 to ${system.KaValues.length}`)
+      }
+      components.push({ system, concentration, form })
+    }
+
+    const strongAcid = readOptionalFiniteNumber(input, 'strong_acid_M', 0)
+    const strongBase = readOptionalFiniteNumber(input, 'strong_base_M', 0)
+    for (const [name, value] of [['strong_acid_M', strongAcid], ['strong_base_M', strongBase]] as const) {
+      if (value === undefined || value < 0 || value > MAX_CONCENTRATION_M) {
+        return err(`${name} must be between 0 and ${MAX_CONCENTRATION_M} M`)
+      }
+    }
+
+    try {
+      const result = solveMixturePH(components, { strongAcid, strongBase })
+      return finalizeResult({
+        pH: result.pH,
+        pOH: result.pOH,
+        H_concentration: result.H_concentration,
+        OH_concentration: result.OH_concentration,
+        components: result.components.map((component) => ({
+          system: component.system,
+          form_added: component.form,
+          concentration_M: component.concentration,
+          species: component.fractions.map((fraction) => ({
+            species: fraction.species,
+            concentration_M: fraction.concentration,
+          })),
+        })),
+        Kw: 1e-14,
+      })
+    } catch (e) {
+      return err(e instanceof Error ? e.message : 'Mixture pH calculation failed')
+    }
+  },
+}
+
+export const speciationTools: VerifiedTool[] = [calculate_speciation, calculate_mixture_ph]
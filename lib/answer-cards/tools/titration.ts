@@ -0,0 +1,132 @@
+/**
+ * VerChem Verified Answer Cards — Acid–Base Titration Tool Adapter
+ *
+ * Maps Claude tool calls to the deterministic engine in:
+ *   lib/calculations/titration.ts
+ * CRITICAL: execute() routes to engine functions directly — no reimplementation.
+ *
+ * Scope is deliberately narrow: a monoprotic strong or weak acid titrated with
+ * a strong base, inside the range where the engine's textbook approximations
+ * ([H+] = √(Ka·C), Henderson–Hasselbalch, water autoionization neglected) hold.
+ * Only the landmarks are returned, not the full curve — every number in a
+ * result lands in the audit allowlist.
+ */
+
+import type { VerifiedTool, ToolResult } from '../types'
+import { readFiniteNumber, finalizeResult, readOptionalFiniteNumber } from './_validate'
+import { simulateTitration, INDICATORS, type Acid, type Base } from '@/lib/calculations/titration'
+
+const CITATION = 'Harris, Quantitative Chemical Analysis (10th ed.), Ch. 11 (Acid–Base Titrations); Brown, LeMay & Bursten, Chemistry: The Central Science (15th ed.), Ch. 17.3'
+
+function err(message: string): ToolResult {
+  return { ok: false, value: {}, error: message }
+}
+
+const MIN_CONCENTRATION_M = 1e-4 // below this, water autoionization is no longer negligible
+const MAX_CONCENTRATION_M = 6
+const MAX_ACID_VOLUME_ML = 1000
+// 5% rule for the initial weak-acid pH: √(Ka/C) ≤ 0.05.
+const MAX_KA_OVER_C = 0.0025
+const MIN_KA = 1e-10
+// Curve resolution: the engine adds the exact landmark volumes on top of this grid.
+const POINTS_TO_EQUIVALENCE = 100
+
+const INDICATOR_NAMES = INDICATORS.map((indicator) => indicator.name)
+
+const simulate_titration: VerifiedTool = {
+  name: 'simulate_titration',
+  description: 'Simulate the titration of a monoprotic strong or weak acid with a strong base (NaOH, KOH, Ba(OH)2…): equivalence volume and pH, initial pH, half-equivalence point for weak acids, and whether an indicator changes color at the equivalence point. Use for titration-curve and indicator-choice questions.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      acid_type: { type: 'string', enum: ['strong', 'weak'], description: 'strong (HCl, HNO3…) or weak (acetic acid…) monoprotic acid' },
+      acid_concentration_M: { type: 'number', description: 'Acid (analyte) concentration in mol/L' },
+      acid_volume_mL: { type: 'number', description: 'Volume of acid in the flask (mL)' },
+      ka: { type: 'number', description: 'Acid dissociation constant — required for weak acids, omit for strong acids' },
+      base_concentration_M: { type: 'number', description: 'Strong base (titrant) concentration in mol/L' },
+      base_hydroxide_count: { type: 'integer', enum: [1, 2], description: 'OH⁻ per formula unit: 1 for NaOH/KOH, 2 for Ba(OH)2/Ca(OH)2. Default 1' },
+      indicator: { type: 'string', enum: INDICATOR_NAMES, description: 'Indicator to evaluate. Default Phenolphthalein' },
+    },
+    required: ['acid_type', 'acid_concentration_M', 'acid_volume_mL', 'base_concentration_M'],
+  },
+  citation: CITATION,
+  engine: 'titration',
+  execute: (input) => {
+    const acidType = input.acid_type
+    if (acidType !== 'strong' && acidType !== 'weak') return err('acid_type must be "strong" or "weak"')
+
+    const acidConc = readFiniteNumber(input.acid_concentration_M)
+    const acidVolume = readFiniteNumber(input.acid_volume_mL)
+    const baseConc = readFiniteNumber(input.base_concentration_M)
+    const hydroxideCount = readOptionalFiniteNumber(input, 'base_hydroxide_count', 1)
+    const indicatorName = input.indicator === undefined ? 'Phenolphthalein' : input.indicator
+
+    for (const [name, value] of [['acid_concentration_M', acidConc], ['base_concentration_M', baseConc]] as const) {
+      if (value === undefined || value < MIN_CONCENTRATION_M || value > MAX_CONCENTRATION_M) {
+        return err(`${name} must be between ${MIN_CONCENTRATION_M} and ${MAX_CONCENTRATION_M} M`)
+      }
+    }
+    if (acidVolume === undefined || acidVolume <= 0 || acidVolume > MAX_ACID_VOLUME_ML) {
+      return err(`acid_volume_mL must be a positive finite number up to ${MAX_ACID_VOLUME_ML}`)
+    }
+    if (hydroxideCount !== 1 && hydroxideCount !== 2) return err('base_hydroxide_count must be 1 or 2')
+    const indicator = INDICATORS.find((candidate) => candidate.name === indicatorName)
+    if (!indicator) return err(`indicator must be one of: ${INDICATOR_NAMES.join(', ')}`)
+
+    let ka: number | undefined
+    if (acidType === 'weak') {
+      ka = readFiniteNumber(input.ka)
+      if (ka === undefined || ka < MIN_KA || ka >= 1) return err(`ka is required for a weak acid and must be between ${MIN_KA} and 1`)
+      if (ka / acidConc! > MAX_KA_OVER_C) {
+        return err('Ka/C is too large for the weak-acid approximation ([H+] = √(Ka·C) fails the 5% rule); not verifiable')
+      }
+    } else if (input.ka !== undefined) {
+      return err('ka applies only to weak acids; omit it for a strong acid')
+    }
+
+    const acid: Acid = {
+      name: acidType === 'weak' ? 'Weak acid' : 'Strong acid',
+      formula: 'HA',
+      concentration: acidConc!,
+      volume: acidVolume,
+      type: acidType,
+      Ka: ka,
+      protonCount: 1,
+    }
+    const base: Base = {
+      name: 'Strong base',
+      formula: hydroxideCount === 2 ? 'M(OH)2' : 'MOH',
+      concentration: baseConc!,
+      type: 'strong',
+      hydroxideCount,
+    }
+
+    try {
+      const equivalenceVolume = (acidConc! * acidVolume) / (baseConc! * hydroxideCount)
+      const result = simulateTitration(acid, base, indicator, equivalenceVolume / POINTS_TO_EQUIVALENCE)
+      const last = result.points[result.points.length - 1]
+      const [rangeLow, rangeHigh] = indicator.transitionRange
+      const eqPH = result.equivalencePoint.pH
+      return finalizeResult({
+        equivalence_volume_mL: result.equivalencePoint.volume,
+        equivalence_pH: eqPH,
+        initial_pH: result.initialPH,
+        ...(result.halfEquivalencePoint
+          ? {
+              half_equivalence_volume_mL: result.halfEquivalencePoint.volume,
+              half_equivalence_pH: result.halfEquivalencePoint.pH,
+            }
+          : {}),
+        final_volume_mL: last.volumeAdded,
+        final_pH: last.pH,
+        indicator: indicator.name,
+        indicator_transition_range: [rangeLow, rangeHigh],
+        equivalence_pH_in_indicator_range: eqPH >= rangeLow && eqPH <= rangeHigh,
+      })
+    } catch (e) {
+      return err(e instanceof Error ? e.message : 'Titration simulation failed')
+    }
+  },
+}
+
+export const titrationTools: VerifiedTool[] = [simulate_titration]
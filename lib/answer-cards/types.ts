@@ -6,6 +6,13 @@
 
 export type CardStatus = 'verified' | 'partial' | 'unverified' | 'error'
 
+/**
+ * Outcome of re-checking a stored card's signature.
+ * key_revoked = signed under a key that has since been revoked — not a forgery,
+ * but no longer trustworthy either.
+ */
+export type SignatureStatus = 'valid' | 'tampered' | 'key_revoked'
+
 export interface ToolResult {
   ok: boolean
   value: Record<string, unknown>
@@ -29,6 +36,17 @@ export interface VerifiedTool {
   execute: (input: Record<string, unknown>) => ToolResult
 }
 
+/**
+ * Numeric audit of the prose explanation. `unit_mismatches` is present only
+ * when a figure matches an engine value under a different unit — cards
+ * without it keep the original shape and signature bytes.
+ */
+export interface CardAudit {
+  clean: boolean
+  unmatched: string[]
+  unit_mismatches?: string[]
+}
+
 export interface AnswerCard {
   question: string
   status: CardStatus
@@ -36,13 +54,24 @@ export interface AnswerCard {
   verified: boolean
   tool_calls: ToolCall[]
   explanation: string
-  audit: { clean: boolean; unmatched: string[] }
+  audit: CardAudit
   model: string
   version: string
   issued_at: string
   signature: string
 }
 
+/**
+ * Progress event streamed by POST /api/answer-card (Accept: text/event-stream).
+ * Events arrive in order: tool_call* → audit → card, or an error at any point.
+ * The `card` event is the exact card the non-streaming path returns.
+ */
+export type AnswerCardStreamEvent =
+  | { type: 'tool_call'; index: number; call: ToolCall }
+  | { type: 'audit'; audit: AnswerCard['audit']; status: CardStatus }
+  | { type: 'card'; card: AnswerCard }
+  | { type: 'error'; error: string; status: number }
+
 export interface SignablePayload {
   question: string
   status: CardStatus
@@ -54,8 +83,28 @@ export interface SignablePayload {
     citation: string
   }>
   explanation: string
-  audit: { clean: boolean; unmatched: string[] }
+  audit: CardAudit
   model: string
   version: string
   issued_at: string
 }
+
+/**
+ * One Ed25519 public key as published by GET /api/answer-cards/keys
+ * (RFC 8037 OKP JWK plus a rotation status).
+ */
+export interface PublishedKey {
+  kty: 'OKP'
+  crv: 'Ed25519'
+  /** base64url raw public key */
+  x: string
+  kid: string
+  alg: 'EdDSA'
+  use: 'sig'
+  /** current = signing new cards now; retired = verify-only (older cards) */
+  status: 'current' | 'retired'
+}
+
+export interface PublishedKeySet {
+  keys: PublishedKey[]
+}
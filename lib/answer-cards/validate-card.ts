@@ -9,6 +9,7 @@
  */
 
 import type { AnswerCard, CardStatus, ToolCall, ToolResult } from './types'
+import { parseCardSignature } from './verify-offline'
 
 const STATUSES: readonly CardStatus[] = ['verified', 'partial', 'unverified', 'error']
 const MAX_QUESTION = 1000
@@ -92,12 +93,18 @@ export function parseSubmittedCard(body: unknown): AnswerCard | null {
   if (!isStr(version) || version.length === 0 || version.length > MAX_VERSION) return null
   if (!isStr(issued_at) || issued_at.length === 0 || issued_at.length > MAX_ISSUED_AT) return null
   if (!isStr(signature) || signature.length === 0 || signature.length > MAX_SIGNATURE) return null
-  // base64url charset only (the signature is the trust anchor — reject junk early)
-  if (!/^[A-Za-z0-9_-]+$/.test(signature)) return null
+  // Bare base64url (HMAC) or ed25519.<kid>.<base64url> only — the signature is
+  // the trust anchor, so reject junk early.
+  if (!parseCardSignature(signature)) return null
 
   if (!isPlainObj(audit) || typeof audit.clean !== 'boolean' || !Array.isArray(audit.unmatched)) return null
   if (audit.unmatched.length > MAX_UNMATCHED_ITEMS) return null
   if (!audit.unmatched.every((u) => isStr(u) && u.length <= MAX_UNMATCHED_LEN)) return null
+  const unitMismatches = audit.unit_mismatches
+  if (unitMismatches !== undefined) {
+    if (!Array.isArray(unitMismatches) || unitMismatches.length > MAX_UNMATCHED_ITEMS) return null
+    if (!unitMismatches.every((u) => isStr(u) && u.length <= MAX_UNMATCHED_LEN)) return null
+  }
 
   if (!Array.isArray(tool_calls) || tool_calls.length > MAX_TOOL_CALLS) return null
 
@@ -126,7 +133,11 @@ export function parseSubmittedCard(body: unknown): AnswerCard | null {
     verified: status === 'verified',
     tool_calls: parsedToolCalls,
     explanation,
-    audit: { clean: audit.clean, unmatched: audit.unmatched as string[] },
+    audit: {
+      clean: audit.clean,
+      unmatched: audit.unmatched as string[],
+      ...(unitMismatches !== undefined ? { unit_mismatches: unitMismatches as string[] } : {}),
+    },
     model,
     version,
     issued_at,
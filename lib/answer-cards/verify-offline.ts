@@ -0,0 +1,129 @@
+/**
+ * VerChem Answer Card — Standalone (offline) signature verifier
+ *
+ * Teachers and journals verify an Ed25519-signed card with nothing but the card
+ * JSON and the published key set (GET /api/answer-cards/keys). No server
+ * secret, no env, no network: this module only depends on WebCrypto and the
+ * pure canonicalizer, so it runs in a browser, Node, Deno or a printed-out
+ * script.
+ *
+ * Signature token formats:
+ *   <base64url>                     legacy HMAC-SHA256 — server-only verification
+ *   hmac.<kid>.<base64url>          keyed HMAC-SHA256 (lib/auth/keyring.ts) — server-only
+ *   ed25519.<kid>.<base64url>       Ed25519 over the canonical payload string
+ */
+
+import type { AnswerCard, PublishedKey, PublishedKeySet } from './types'
+import { base64urlDecode, canonicalPayloadString, toSignablePayload } from './canonical'
+import { parseKeyedSignature } from '@/lib/auth/keyring'
+
+export const ED25519_SCHEME = 'ed25519'
+
+const KID_REGEX = /^[A-Za-z0-9_-]{1,64}$/
+const B64URL_REGEX = /^[A-Za-z0-9_-]+$/
+
+export type ParsedCardSignature =
+  | { scheme: 'hmac'; kid: string; value: string }
+  | { scheme: 'ed25519'; kid: string; value: string }
+
+/**
+ * Split a signature token into scheme / key id / raw value. Returns null for
+ * anything that is neither an HMAC token (bare = legacy kid) nor a well-formed
+ * Ed25519 token.
+ */
+export function parseCardSignature(signature: string): ParsedCardSignature | null {
+  if (typeof signature !== 'string' || signature.length === 0) return null
+  const keyed = parseKeyedSignature(signature)
+  if (keyed) return { scheme: 'hmac', ...keyed }
+  const parts = signature.split('.')
+  if (parts.length === 3 && parts[0] === ED25519_SCHEME) {
+    const [, kid, value] = parts
+    if (!KID_REGEX.test(kid) || !B64URL_REGEX.test(value)) return null
+    return { scheme: 'ed25519', kid, value }
+  }
+  return null
+}
+
+export function formatEd25519Signature(kid: string, value: string): string {
+  if (!KID_REGEX.test(kid)) {
+    throw new Error(`Invalid signing key id "${kid}" (expected 1-64 chars of [A-Za-z0-9_-])`)
+  }
+  return `${ED25519_SCHEME}.${kid}.${value}`
+}
+
+/**
+ * Verify a raw Ed25519 signature value over a message with a published key.
+ */
+export async function verifyEd25519(
+  message: string,
+  signatureValue: string,
+  key: Pick<PublishedKey, 'x'>
+): Promise<boolean> {
+  const sig = base64urlDecode(signatureValue)
+  const raw = base64urlDecode(key.x)
+  if (!sig || sig.length !== 64 || !raw || raw.length !== 32) return false
+  try {
+    const publicKey = await crypto.subtle.importKey('raw', raw, { name: 'Ed25519' }, false, ['verify'])
+    return await crypto.subtle.verify('Ed25519', publicKey, sig, new TextEncoder().encode(message))
+  } catch {
+    return false
+  }
+}
+
+export type OfflineVerificationReason =
+  | 'valid'
+  | 'bad_signature'
+  | 'unknown_key'
+  | 'hmac_requires_server'
+  | 'malformed'
+
+export interface OfflineVerification {
+  valid: boolean
+  reason: OfflineVerificationReason
+  kid?: string
+  /** Rotation status of the key that verified (or failed to verify) the card. */
+  key_status?: PublishedKey['status']
+}
+
+/**
+ * Verify a signature against a pre-canonicalized payload string and a key set.
+ */
+export async function verifyCanonicalOffline(
+  canonical: string,
+  signature: string,
+  keySet: PublishedKeySet
+): Promise<OfflineVerification> {
+  const parsed = parseCardSignature(signature)
+  if (!parsed) return { valid: false, reason: 'malformed' }
+  if (parsed.scheme === 'hmac') return { valid: false, reason: 'hmac_requires_server' }
+
+  const key = Array.isArray(keySet?.keys)
+    ? keySet.keys.find((k) => k && k.kid === parsed.kid && k.crv === 'Ed25519')
+    : undefined
+  if (!key) return { valid: false, reason: 'unknown_key', kid: parsed.kid }
+
+  const valid = await verifyEd25519(canonical, parsed.value, key)
+  return {
+    valid,
+    reason: valid ? 'valid' : 'bad_signature',
+    kid: parsed.kid,
+    key_status: key.status,
+  }
+}
+
+/**
+ * Verify a full AnswerCard offline. The payload is rebuilt through the same
+ * toSignablePayload/canonicalizer the server signs with.
+ */
+export async function verifyAnswerCardOffline(
+  card: AnswerCard,
+  keySet: PublishedKeySet
+): Promise<OfflineVerification> {
+  let canonical: string
+  try {
+    canonical = canonicalPayloadString(toSignablePayload(card))
+  } catch {
+    return { valid: false, reason: 'malformed' }
+  }
+  return verifyCanonicalOffline(canonical, card.signature, keySet)
+}
@@ -0,0 +1,232 @@
+/**
+ * Developer API keys — generation, hashing, tier quotas, stores
+ *
+ * A key is `vck_` + 32 random bytes (base64url). Only its SHA-256 is stored;
+ * the plaintext is shown once at creation. Each key is stamped with the
+ * owner's session (AIVerID) tier; every request re-resolves the owner's tier
+ * as the higher of that and their current Stripe subscription's, and draws a
+ * MONTHLY quota from FEATURE_LIMITS[tier].apiRequests (UTC calendar month), so
+ * a lapsed subscription stops its keys. Tiers whose quota is 0 cannot create
+ * keys — see PRICING_MODEL.md, API access is Professional+.
+ *
+ * Stores sit behind ApiKeyStore: the in-memory store here (dev/tests), and the
+ * Supabase table store in lib/supabase/api-keys.ts. consume() must check and
+ * count in one step so concurrent requests cannot overrun a quota.
+ */
+
+import { higherTier } from '@/lib/entitlements'
+import { FEATURE_LIMITS } from '@/lib/vercal/constants'
+import type { SubscriptionTier } from '@/lib/vercal/types'
+
+export const API_KEY_PREFIX = 'vck_'
+/** Characters of the key kept in clear for display (`vck_` + 8). */
+export const API_KEY_DISPLAY_LENGTH = 12
+export const MAX_ACTIVE_KEYS_PER_USER = 10
+export const MAX_KEY_NAME_LENGTH = 50
+
+const API_KEY_PATTERN = /^vck_[A-Za-z0-9_-]{43}$/
+
+export interface ApiKeyRecord {
+  id: string
+  aiverid_id: string
+  name: string
+  /** First API_KEY_DISPLAY_LENGTH characters, e.g. `vck_3fQ9xA1b`. */
+  prefix: string
+  /** The owner's session tier when the key was created (see keyTier). */
+  tier: SubscriptionTier
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+  /** UTC month (`YYYY-MM`) that month_requests counts. */
+  usage_month: string | null
+  month_requests: number
+  total_requests: number
+}
+
+/** What the account page sees: no owner id, usage normalized to this month. */
+export interface ApiKeySummary {
+  id: string
+  name: string
+  prefix: string
+  tier: SubscriptionTier
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+  usage: {
+    month: string
+    requests: number
+    limit: number
+    total: number
+  }
+}
+
+export interface CreateApiKeyInput {
+  aiverid_id: string
+  name: string
+  tier: SubscriptionTier
+  prefix: string
+  key_hash: string
+}
+
+export type ConsumeResult =
+  | { status: 'ok' | 'over_limit'; keyId: string; tier: SubscriptionTier; used: number; limit: number }
+  | { status: 'invalid' }
+
+export interface ApiKeyStore {
+  create(input: CreateApiKeyInput): Promise<ApiKeyRecord>
+  /** Active and revoked keys, newest first. */
+  listByUser(aiverid_id: string): Promise<ApiKeyRecord[]>
+  /** false when the key does not exist, belongs to someone else or is already revoked. */
+  revoke(id: string, aiverid_id: string): Promise<boolean>
+  /**
+   * Count one request against the monthly quota of the key's tier as of now
+   * (keyTier() with the owner's current subscription) if it has room.
+   */
+  consume(key_hash: string, month: string): Promise<ConsumeResult>
+}
+
+/** Monthly request quota for keys of this tier (0 → the tier cannot hold keys). */
+export function apiKeyMonthlyLimit(tier: SubscriptionTier): number {
+  // Own-key check ONLY, like answerCardDailyConfig: a prototype key must not
+  // resolve to something truthy.
+  return Object.hasOwn(FEATURE_LIMITS, tier) ? FEATURE_LIMITS[tier].apiRequests : 0
+}
+
+export function canCreateApiKeys(tier: SubscriptionTier): boolean {
+  return apiKeyMonthlyLimit(tier) > 0
+}
+
+/**
+ * The tier a key draws its quota from: the tier stamped on it or the owner's
+ * current subscription tier, whichever is higher.
+ */
+export function keyTier(record: Pick<ApiKeyRecord, 'tier'>, subscriptionTier: SubscriptionTier): SubscriptionTier {
+  return higherTier(record.tier, subscriptionTier)
+}
+
+/** `YYYY-MM` of `now` in UTC — the quota period. */
+export function usageMonth(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 7)
+}
+
+/** Start of the next UTC month: when a monthly quota resets. */
+export function nextMonthStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+}
+
+export function isWellFormedApiKey(key: string): boolean {
+  return API_KEY_PATTERN.test(key)
+}
+
+function base64url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/** A fresh plaintext key. Show it once; store only hashApiKey(key). */
+export function generateApiKey(): string {
+  return API_KEY_PREFIX + base64url(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+/** Hex SHA-256 of the key. Keys are 256-bit random, so no salt/KDF is needed. */
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key))
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** `subscriptionTier` is the owner's current one (free when unknown). */
+export function toApiKeySummary(
+  record: ApiKeyRecord,
+  now: Date = new Date(),
+  subscriptionTier: SubscriptionTier = 'free'
+): ApiKeySummary {
+  const month = usageMonth(now)
+  const tier = keyTier(record, subscriptionTier)
+  return {
+    id: record.id,
+    name: record.name,
+    prefix: record.prefix,
+    tier,
+    created_at: record.created_at,
+    last_used_at: record.last_used_at,
+    revoked_at: record.revoked_at,
+    usage: {
+      month,
+      requests: record.usage_month === month ? record.month_requests : 0,
+      limit: apiKeyMonthlyLimit(tier),
+      total: record.total_requests,
+    },
+  }
+}
+
+/** Trimmed key name, or an error message. */
+export function validateApiKeyName(name: unknown): { name: string } | { error: string } {
+  if (typeof name !== 'string' || name.trim() === '') return { error: 'name is required' }
+  if (name.trim().length > MAX_KEY_NAME_LENGTH) {
+    return { error: `name must be at most ${MAX_KEY_NAME_LENGTH} characters` }
+  }
+  return { name: name.trim() }
+}
+
+export interface MemoryApiKeyStoreOptions {
+  /** The owner's current subscription tier; free when omitted. */
+  subscriptionTier?: (aiverid_id: string) => Promise<SubscriptionTier>
+}
+
+export function createMemoryApiKeyStore(options: MemoryApiKeyStoreOptions = {}): ApiKeyStore {
+  const subscriptionTier = options.subscriptionTier ?? (async () => 'free' as const)
+  const byId = new Map<string, ApiKeyRecord & { key_hash: string }>()
+
+  return {
+    async create(input) {
+      const record = {
+        id: crypto.randomUUID(),
+        aiverid_id: input.aiverid_id,
+        name: input.name,
+        prefix: input.prefix,
+        tier: input.tier,
+        key_hash: input.key_hash,
+        created_at: new Date().toISOString(),
+        last_used_at: null,
+        revoked_at: null,
+        usage_month: null,
+        month_requests: 0,
+        total_requests: 0,
+      }
+      byId.set(record.id, record)
+      const { key_hash: _hash, ...publicRecord } = record
+      return publicRecord
+    },
+
+    async listByUser(aiverid_id) {
+      return [...byId.values()]
+        .filter((r) => r.aiverid_id === aiverid_id)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map(({ key_hash: _hash, ...record }) => record)
+    },
+
+    async revoke(id, aiverid_id) {
+      const record = byId.get(id)
+      if (!record || record.aiverid_id !== aiverid_id || record.revoked_at) return false
+      record.revoked_at = new Date().toISOString()
+      return true
+    },
+
+    async consume(key_hash, month) {
+      const record = [...byId.values()].find((r) => r.key_hash === key_hash && !r.revoked_at)
+      if (!record) return { status: 'invalid' }
+
+      const tier = keyTier(record, await subscriptionTier(record.aiverid_id))
+      const limit = apiKeyMonthlyLimit(tier)
+      const used = record.usage_month === month ? record.month_requests : 0
+      if (used >= limit) return { status: 'over_limit', keyId: record.id, tier, used, limit }
+
+      record.usage_month = month
+      record.month_requests = used + 1
+      record.total_requests++
+      record.last_used_at = new Date().toISOString()
+      return { status: 'ok', keyId: record.id, tier, used: used + 1, limit }
+    },
+  }
+}
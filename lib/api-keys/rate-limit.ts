@@ -0,0 +1,131 @@
+/**
+ * Public API rate limiting — per API key, or per client without one
+ *
+ * A request carrying a key (`X-API-Key: vck_…` or `Authorization: Bearer
+ * vck_…`) is counted against that key's monthly tier quota in the key store.
+ * Anything else — including a malformed, unknown or revoked key — is counted
+ * against the anonymous per-client limit (RATE_LIMITS.publicApi), so guessing
+ * keys costs the guesser's own budget.
+ *
+ * Every decision carries the X-RateLimit-* headers for the response, allowed
+ * or not: Limit, Remaining, Reset (Unix seconds) and Scope (`key` | `anonymous`).
+ */
+
+import { checkRateLimit, getClientId, RATE_LIMITS } from '@/lib/rate-limit'
+import type { SubscriptionTier } from '@/lib/vercal/types'
+import {
+  hashApiKey,
+  isWellFormedApiKey,
+  nextMonthStart,
+  usageMonth,
+  type ApiKeyStore,
+} from './index'
+
+export type ApiRateLimitScope = 'key' | 'anonymous'
+
+export type ApiRateLimitDecision =
+  | {
+      allowed: true
+      scope: ApiRateLimitScope
+      keyId?: string
+      /** The tier the key was counted under (keyed requests only). */
+      tier?: SubscriptionTier
+      headers: Record<string, string>
+    }
+  | {
+      allowed: false
+      scope: ApiRateLimitScope
+      status: 401 | 429
+      code: 'INVALID_API_KEY' | 'RATE_LIMITED'
+      error: string
+      retryAfter?: number
+      headers: Record<string, string>
+    }
+
+export interface ApiRateLimitOptions {
+  /** Resolved only when a request presents a key. */
+  store: () => ApiKeyStore | Promise<ApiKeyStore>
+  now?: Date
+}
+
+/** The key the request presents, if any (not yet checked). */
+export function presentedApiKey(request: Request): string | null {
+  const header = request.headers.get('x-api-key')?.trim()
+  if (header) return header
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get('authorization')?.trim() ?? '')
+  return match ? match[1] : null
+}
+
+function rateLimitHeaders(
+  scope: ApiRateLimitScope,
+  limit: number,
+  remaining: number,
+  resetMs: number
+): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(limit),
+    'X-RateLimit-Remaining': String(Math.max(0, remaining)),
+    'X-RateLimit-Reset': String(Math.ceil(resetMs / 1000)),
+    'X-RateLimit-Scope': scope,
+  }
+}
+
+async function anonymous(request: Request, invalidKey: boolean): Promise<ApiRateLimitDecision> {
+  const config = RATE_LIMITS.publicApi
+  const rl = await checkRateLimit(`public-api:${getClientId(request)}`, config)
+  const headers = rateLimitHeaders('anonymous', config.maxRequests, rl.remaining, rl.resetTime)
+
+  if (!rl.success) {
+    const retryAfter = rl.retryAfter ?? 0
+    return {
+      allowed: false,
+      scope: 'anonymous',
+      status: 429,
+      code: 'RATE_LIMITED',
+      error: `Too many requests (${config.maxRequests} per hour without an API key)`,
+      retryAfter,
+      headers: { ...headers, 'Retry-After': String(retryAfter) },
+    }
+  }
+  if (invalidKey) {
+    return {
+      allowed: false,
+      scope: 'anonymous',
+      status: 401,
+      code: 'INVALID_API_KEY',
+      error: 'Invalid or revoked API key',
+      headers,
+    }
+  }
+  return { allowed: true, scope: 'anonymous', headers }
+}
+
+export async function checkApiRateLimit(
+  request: Request,
+  options: ApiRateLimitOptions
+): Promise<ApiRateLimitDecision> {
+  const key = presentedApiKey(request)
+  if (key === null) return anonymous(request, false)
+  if (!isWellFormedApiKey(key)) return anonymous(request, true)
+
+  const now = options.now ?? new Date()
+  const store = await options.store()
+  const result = await store.consume(await hashApiKey(key), usageMonth(now))
+  if (result.status === 'invalid') return anonymous(request, true)
+
+  const reset = nextMonthStart(now).getTime()
+  const headers = rateLimitHeaders('key', result.limit, result.limit - result.used, reset)
+  if (result.status === 'over_limit') {
+    const retryAfter = Math.ceil((reset - now.getTime()) / 1000)
+    return {
+      allowed: false,
+      scope: 'key',
+      status: 429,
+      code: 'RATE_LIMITED',
+      error: `Monthly API quota of ${result.limit} requests used up for this key's ${result.tier} plan`,
+      retryAfter,
+      headers: { ...headers, 'Retry-After': String(retryAfter) },
+    }
+  }
+  return { allowed: true, scope: 'key', keyId: result.keyId, tier: result.tier, headers }
+}
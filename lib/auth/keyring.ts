@@ -0,0 +1,194 @@
+/**
+ * HMAC Signing Keyring — key IDs + rotation
+ *
+ * Shared by session cookies (lib/auth/session-signature.ts) and answer cards
+ * (lib/answer-cards/signature.ts). Pure WebCrypto, so it also runs in the edge
+ * proxy.
+ *
+ * A keyring holds ONE active key (signs) plus any number of verify-only keys,
+ * and a list of revoked key ids. Configured as JSON in an env var:
+ *
+ *   { "active": "2026-06",
+ *     "keys": { "2026-06": "<secret>", "2026-01": "<older secret>" },
+ *     "revoked": ["2025-09"] }
+ *
+ * Signature tokens:
+ *   hmac.<kid>.<base64url>   keyed signature
+ *   <base64url>              legacy (pre-rotation) signature == kid "legacy"
+ *
+ * The legacy kid is verified with keys.legacy when present, otherwise with the
+ * pre-rotation single-secret env var, so rotating does not invalidate anything
+ * that was signed before the keyring existed. A keyring whose active kid is
+ * "legacy" keeps emitting bare tokens (unchanged behaviour until rotation).
+ *
+ * Last Updated: 2026-10-18
+ */
+
+export const LEGACY_KID = 'legacy'
+export const HMAC_SCHEME = 'hmac'
+
+const KID_REGEX = /^[A-Za-z0-9_-]{1,64}$/
+const B64URL_REGEX = /^[A-Za-z0-9_-]+$/
+
+export interface HmacKeyring {
+  activeKid: string
+  /** kid → secret (null-prototype: a kid can never resolve an inherited key) */
+  keys: Record<string, string>
+  revoked: ReadonlySet<string>
+}
+
+/** valid | signature does not match | kid explicitly revoked | kid not in keyring */
+export type KeyedVerification = 'valid' | 'invalid' | 'revoked' | 'unknown_key'
+
+export class KeyringConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'KeyringConfigError'
+  }
+}
+
+/**
+ * Parse a keyring JSON document. Throws KeyringConfigError on anything
+ * ambiguous — a half-configured keyring must fail loudly, never sign with an
+ * unexpected key.
+ */
+export function parseKeyring(raw: string): HmacKeyring {
+  let doc: unknown
+  try {
+    doc = JSON.parse(raw)
+  } catch {
+    throw new KeyringConfigError('Keyring is not valid JSON')
+  }
+  if (typeof doc !== 'object' || doc === null || Array.isArray(doc)) {
+    throw new KeyringConfigError('Keyring must be a JSON object')
+  }
+  const { active, keys, revoked } = doc as Record<string, unknown>
+
+  if (typeof keys !== 'object' || keys === null || Array.isArray(keys)) {
+    throw new KeyringConfigError('Keyring "keys" must be an object of kid → secret')
+  }
+  const secrets: Record<string, string> = Object.create(null)
+  for (const [kid, secret] of Object.entries(keys as Record<string, unknown>)) {
+    if (!KID_REGEX.test(kid)) {
+      throw new KeyringConfigError(`Invalid key id "${kid}" (expected 1-64 chars of [A-Za-z0-9_-])`)
+    }
+    if (typeof secret !== 'string' || secret.length < 16) {
+      throw new KeyringConfigError(`Secret for key "${kid}" must be a string of at least 16 characters`)
+    }
+    secrets[kid] = secret
+  }
+
+  const revokedList = revoked === undefined ? [] : revoked
+  if (!Array.isArray(revokedList) || !revokedList.every((k) => typeof k === 'string')) {
+    throw new KeyringConfigError('Keyring "revoked" must be an array of key ids')
+  }
+  for (const kid of revokedList as string[]) {
+    if (kid in secrets) {
+      throw new KeyringConfigError(`Key "${kid}" is both configured and revoked`)
+    }
+  }
+
+  if (typeof active !== 'string' || !(active in secrets)) {
+    throw new KeyringConfigError('Keyring "active" must name one of the configured keys')
+  }
+
+  return { activeKid: active, keys: secrets, revoked: new Set(revokedList as string[]) }
+}
+
+/**
+ * Load a keyring from `envVar`, falling back to a single legacy key built from
+ * `legacySecret` (the pre-rotation env secret). Returns null when neither is
+ * configured. When both are set, the legacy secret is kept as a verify-only
+ * "legacy" key unless the keyring already defines or revokes it.
+ */
+export function loadKeyring(envVar: string, legacySecret: string | undefined): HmacKeyring | null {
+  const raw = process.env[envVar]
+  if (!raw) {
+    if (!legacySecret) return null
+    const keys: Record<string, string> = Object.create(null)
+    keys[LEGACY_KID] = legacySecret
+    return { activeKid: LEGACY_KID, keys, revoked: new Set() }
+  }
+
+  const keyring = parseKeyring(raw)
+  if (legacySecret && !(LEGACY_KID in keyring.keys) && !keyring.revoked.has(LEGACY_KID)) {
+    keyring.keys[LEGACY_KID] = legacySecret
+  }
+  return keyring
+}
+
+/**
+ * Split a signature token into kid + value. Bare base64url → legacy kid.
+ */
+export function parseKeyedSignature(signature: string): { kid: string; value: string } | null {
+  if (typeof signature !== 'string' || signature.length === 0) return null
+  const parts = signature.split('.')
+  if (parts.length === 1) {
+    return B64URL_REGEX.test(signature) ? { kid: LEGACY_KID, value: signature } : null
+  }
+  if (parts.length === 3 && parts[0] === HMAC_SCHEME && KID_REGEX.test(parts[1]) && B64URL_REGEX.test(parts[2])) {
+    return { kid: parts[1], value: parts[2] }
+  }
+  return null
+}
+
+function formatKeyedSignature(kid: string, value: string): string {
+  return kid === LEGACY_KID ? value : `${HMAC_SCHEME}.${kid}.${value}`
+}
+
+/**
+ * HMAC-SHA256 a raw message → base64url.
+ */
+export async function hmacSha256Base64url(secret: string, message: string): Promise<string> {
+  const enc = new TextEncoder()
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    enc.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const sig = await crypto.subtle.sign('HMAC', cryptoKey, enc.encode(message))
+  const bytes = new Uint8Array(sig)
+  let binary = ''
+  for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i])
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
+}
+
+/**
+ * Constant-time string comparison (prevents timing attacks).
+ */
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let result = 0
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return result === 0
+}
+
+/**
+ * Sign with the keyring's active key; the token embeds its kid.
+ */
+export async function signWithKeyring(keyring: HmacKeyring, message: string): Promise<string> {
+  const secret = keyring.keys[keyring.activeKid]
+  return formatKeyedSignature(keyring.activeKid, await hmacSha256Base64url(secret, message))
+}
+
+/**
+ * Verify a token against the keyring. Revocation is checked BEFORE the MAC so a
+ * revoked key is reported as such even when its secret is no longer held.
+ */
+export async function verifyWithKeyring(
+  keyring: HmacKeyring,
+  message: string,
+  signature: string
+): Promise<KeyedVerification> {
+  const parsed = parseKeyedSignature(signature)
+  if (!parsed) return 'invalid'
+  if (keyring.revoked.has(parsed.kid)) return 'revoked'
+  const secret = keyring.keys[parsed.kid]
+  if (secret === undefined) return 'unknown_key'
+  const expected = await hmacSha256Base64url(secret, message)
+  return constantTimeEqual(expected, parsed.value) ? 'valid' : 'invalid'
+}
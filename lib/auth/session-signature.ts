@@ -0,0 +1,61 @@
+/**
+ * Session Cookie Signing — keyring-backed HMAC-SHA256
+ *
+ * Single implementation used by the OAuth callback (sign), lib/auth/session.ts,
+ * /api/session and the edge proxy (verify). Runs on the edge runtime (WebCrypto
+ * only, no next/headers).
+ *
+ * Keys: SESSION_KEYRING (see lib/auth/keyring.ts) with SESSION_SECRET as the
+ * legacy key, so rotating the secret no longer logs everyone out — old cookies
+ * keep verifying under their kid until that kid is removed or revoked.
+ *
+ * SECURITY: No default secret - a keyring or SESSION_SECRET is required in production
+ *
+ * Last Updated: 2026-10-18
+ */
+
+import { loadKeyring, signWithKeyring, verifyWithKeyring, type HmacKeyring } from './keyring'
+
+export function getSessionKeyring(): HmacKeyring | null {
+  return loadKeyring('SESSION_KEYRING', process.env.SESSION_SECRET)
+}
+
+/**
+ * Sign a serialized session with the active session key.
+ */
+export async function signSessionValue(value: string): Promise<string> {
+  const keyring = getSessionKeyring()
+  if (!keyring) {
+    throw new Error('SESSION_KEYRING or SESSION_SECRET is required for session signing')
+  }
+  return signWithKeyring(keyring, value)
+}
+
+/**
+ * Verify a session cookie signature.
+ * In development with no key configured, verification is skipped (with a
+ * warning) so local logins work without secrets.
+ */
+export async function verifySessionSignature(value: string, signature: string): Promise<boolean> {
+  try {
+    const keyring = getSessionKeyring()
+
+    if (!keyring) {
+      if (process.env.NODE_ENV === 'production') {
+        console.error('CRITICAL: SESSION_KEYRING or SESSION_SECRET is required in production')
+        return false
+      }
+      console.warn('SESSION_SECRET not set - session verification skipped in development')
+      return true
+    }
+
+    const result = await verifyWithKeyring(keyring, value, signature)
+    if (result === 'revoked') {
+      console.warn('Session signed with a revoked key - rejecting')
+    }
+    return result === 'valid'
+  } catch (error) {
+    console.error('Session signature verification error:', error)
+    return false
+  }
+}
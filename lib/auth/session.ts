@@ -3,7 +3,7 @@
  *
  * SECURITY (Jan 2026 - Fixed by สมคิด + สมหมาย audit):
  * - All API routes MUST use this utility to verify sessions
- * - Sessions are signed with HMAC-SHA256
+ * - Sessions are signed with HMAC-SHA256 (keyring with key IDs, see session-signature.ts)
  * - Rejects unsigned or tampered sessions
  *
  * Last Updated: 2026-01-09
@@ -11,6 +11,7 @@
 
 import { cookies } from 'next/headers'
 import type { SubscriptionTier } from '@/lib/vercal/types'
+import { verifySessionSignature } from './session-signature'
 
 export interface VerifiedSession {
   userId: string
@@ -19,45 +20,6 @@ export interface VerifiedSession {
   expiresAt: Date
 }
 
-/**
- * Verify session signature using HMAC-SHA256
- * SECURITY: No default secret - SESSION_SECRET is required in production
- */
-async function verifySessionSignature(value: string, signature: string): Promise<boolean> {
-  try {
-    const secret = process.env.SESSION_SECRET
-
-    // In production, SESSION_SECRET is required
-    if (!secret) {
-      if (process.env.NODE_ENV === 'production') {
-        console.error('CRITICAL: SESSION_SECRET is required in production')
-        return false
-      }
-      // In development without secret, skip verification with warning
-      console.warn('SESSION_SECRET not set - session verification skipped in development')
-      return true
-    }
-
-    const enc = new TextEncoder()
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      enc.encode(secret),
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    )
-    const sig = await crypto.subtle.sign('HMAC', cryptoKey, enc.encode(value))
-    const bytes = new Uint8Array(sig)
-    let binary = ''
-    for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i])
-    const expectedSig = btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
-    return expectedSig === signature
-  } catch (error) {
-    console.error('Session signature verification error:', error)
-    return false
-  }
-}
-
 /**
  * Verify and parse session from cookies
  *
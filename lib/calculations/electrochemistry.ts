@@ -2,6 +2,13 @@
 // Redox reactions, cell potential, Nernst equation, and electrolysis
 
 import { FARADAY_CONSTANT, GAS_CONSTANT, STP } from '@/lib/constants/physical-constants'
+import {
+  nullspaceBasis,
+  OXIDATION_STATES,
+  parseSpecies,
+  splitEquation,
+} from '@/lib/calculations/equation-balancer'
+import { getElementBySymbol } from '@/lib/data/periodic-table'
 
 export interface Species {
   formula: string
@@ -56,6 +63,32 @@ export interface ElectrolysisResult {
   steps: string[]
 }
 
+/**
+ * Half-reaction found by balanceRedoxReaction
+ */
+export interface RedoxHalfReaction extends HalfReaction {
+  equation: string // Balanced half-reaction, electrons included
+  changes: Array<{ element: string; from: number; to: number }> // Oxidation states per atom
+  couple?: string // Key in STANDARD_REDUCTION_POTENTIALS, when tabulated
+}
+
+/**
+ * Redox Balance Result (skeleton → balanced equation)
+ */
+export interface RedoxBalanceResult {
+  skeleton: string
+  medium: 'acidic' | 'basic'
+  balanced: string
+  reactants: Species[]
+  products: Species[]
+  electronCount: number // Electrons transferred in the balanced equation (n)
+  oxidationStates: Array<{ formula: string; states: Record<string, number> }>
+  oxidation: RedoxHalfReaction
+  reduction: RedoxHalfReaction
+  cell?: ElectrochemicalCell & { deltaG: number } // Both couples tabulated
+  steps: string[]
+}
+
 /**
  * Constants
  */
@@ -239,7 +272,8 @@ export function calculateElectrolysis(
 
 /**
  * Balance redox equation (simple)
- * Note: This is a simplified version for common cases
+ * Combines two half-reactions that already carry their electrons;
+ * balanceRedoxReaction starts from the skeleton instead
  */
 export function balanceRedoxEquation(
   oxidation: string,
@@ -297,28 +331,258 @@ export function balanceRedoxEquation(
   }
 }
 
+/**
+ * Balance a redox reaction from its skeleton
+ * "MnO4- + Fe2+ -> Mn2+ + Fe3+ (acidic)" → 5Fe2+ + MnO4- + 8H+ → 5Fe3+ + Mn2+ + 4H2O
+ *
+ * Assigns oxidation states, splits the skeleton into oxidation and reduction
+ * half-reactions, balances each with H2O, H+ and e-, equalizes electrons,
+ * adds them and (in basic solution) turns H+ into H2O with OH-. When both
+ * couples are in STANDARD_REDUCTION_POTENTIALS the result includes the cell
+ * from calculateCellPotential.
+ */
+export function balanceRedoxReaction(
+  skeleton: string,
+  options: { acidic?: boolean } = {}
+): RedoxBalanceResult {
+  const mediumMatch = skeleton.match(MEDIUM_PATTERN)
+  const acidic = mediumMatch ? mediumMatch[1].toLowerCase() === 'acidic' : (options.acidic ?? true)
+  const medium = acidic ? 'acidic' : 'basic'
+  const equation = skeleton.replace(MEDIUM_PATTERN, '').trim()
+
+  const steps: string[] = []
+  steps.push('=== Balancing Redox Reaction ===')
+  steps.push(`Skeleton: ${equation} (${medium} solution)`)
+
+  const sides = splitEquation(equation)
+  const written = {
+    reactants: sides.reactants.map(term => term.replace(/^\d+\s*/, '')).filter(Boolean),
+    products: sides.products.map(term => term.replace(/^\d+\s*/, '')).filter(Boolean),
+  }
+  const all = [...written.reactants, ...written.products]
+  if (written.reactants.length === 0 || written.products.length === 0) {
+    throw new Error('The skeleton needs species on both sides of the arrow')
+  }
+
+  const oxidationStates = all.map(formula => {
+    if (isElectron(formula)) {
+      throw new Error('Write the skeleton without electrons; balanceRedoxEquation combines half-reactions')
+    }
+    const states = assignOxidationStates(formula)
+    if (!states) {
+      throw new Error(`Could not assign oxidation states in ${formula}`)
+    }
+    return { formula, states }
+  })
+  const statesOf = new Map(oxidationStates.map(entry => [entry.formula, entry.states]))
+
+  steps.push('Step 1: Assign oxidation states')
+  oxidationStates.forEach(({ formula, states }) => {
+    const list = Object.entries(states).map(([element, state]) => `${element} ${formatState(state)}`)
+    steps.push(`  ${formula}: ${list.join(', ')}`)
+  })
+
+  // H2O, H+ and OH- are added as needed; keep the ones the user wrote only
+  // when they are themselves oxidized or reduced (Zn + H+, H2O2 → H2O + O2)
+  const withoutSolvent = {
+    reactants: written.reactants.filter(formula => !isSolventSpecies(formula)),
+    products: written.products.filter(formula => !isSolventSpecies(formula)),
+  }
+  let halves: { oxidation: HalfSkeleton; reduction: HalfSkeleton }
+  try {
+    halves = splitHalfReactions(withoutSolvent.reactants, withoutSolvent.products, statesOf)
+  } catch (error) {
+    if (withoutSolvent.reactants.length + withoutSolvent.products.length === all.length) throw error
+    try {
+      halves = splitHalfReactions(written.reactants, written.products, statesOf)
+    } catch {
+      throw error
+    }
+  }
+
+  const used = new Set([halves.oxidation, halves.reduction].flatMap(half => [...half.reactants, ...half.products]))
+  const dropped = all.filter(formula => !used.has(formula))
+  steps.push('Step 2: Split into half-reactions')
+  ;[halves.oxidation, halves.reduction].forEach(half => {
+    const changes = half.changes.map(c => `${c.element} ${formatState(c.from)} → ${formatState(c.to)}`)
+    steps.push(`  ${halfLabel(half.type)}: ${half.reactants.join(' + ')} → ${half.products.join(' + ')} (${changes.join(', ')})`)
+  })
+  if (dropped.length > 0) {
+    steps.push(`  ${dropped.join(', ')} will be added back where needed`)
+  }
+
+  steps.push('Step 3: Balance each half-reaction (atoms other than O and H, then O with H2O, H with H+, charge with e-)')
+  const oxidationHalf = balanceHalfReaction(halves.oxidation, steps)
+  const reductionHalf = balanceHalfReaction(halves.reduction, steps)
+
+  const electronLCM = lcm(oxidationHalf.electrons, reductionHalf.electrons)
+  const oxidationFactor = electronLCM / oxidationHalf.electrons
+  const reductionFactor = electronLCM / reductionHalf.electrons
+  steps.push(
+    `Step 4: Equalize electrons: LCM(${oxidationHalf.electrons}, ${reductionHalf.electrons}) = ${electronLCM}; ` +
+      `oxidation ×${oxidationFactor}, reduction ×${reductionFactor}`
+  )
+
+  const combined = combineHalfReactions(
+    scaleHalfReaction(oxidationHalf, oxidationFactor),
+    scaleHalfReaction(reductionHalf, reductionFactor)
+  )
+  let reactants = orderLike(combined.reactants, all)
+  let products = orderLike(combined.products, all)
+  steps.push(`Step 5: Add the half-reactions and cancel: ${formatEquation(reactants, products)}`)
+
+  const divisor = [...reactants, ...products].reduce((acc, species) => gcd(acc, species.coefficient), 0)
+  if (divisor > 1) {
+    reactants = reactants.map(species => ({ ...species, coefficient: species.coefficient / divisor }))
+    products = products.map(species => ({ ...species, coefficient: species.coefficient / divisor }))
+    steps.push(`  Divide by the common factor ${divisor}: ${formatEquation(reactants, products)}`)
+  }
+  const electronCount = electronLCM / divisor
+
+  if (!acidic) {
+    const hydrogenIons = [...reactants, ...products].find(species => species.formula === 'H+')
+    const converted = convertToBasicMedium(reactants, products)
+    reactants = orderLike(converted.reactants, all)
+    products = orderLike(converted.products, all)
+    steps.push(
+      hydrogenIons
+        ? `Step 6: Basic solution: add ${hydrogenIons.coefficient} OH- to both sides, combine H+ + OH- → H2O and cancel water: ${formatEquation(reactants, products)}`
+        : 'Step 6: Basic solution: no H+ to neutralize'
+    )
+  }
+
+  const charge = checkRedoxBalance(reactants, products)
+  const balanced = formatEquation(reactants, products)
+  steps.push('Final balanced equation:')
+  steps.push(balanced)
+  steps.push(`Check: every element balances and the charge is ${formatState(charge)} on both sides; ${electronCount} e- transferred`)
+
+  const oxidation = describeHalfReaction(oxidationHalf, halves.oxidation)
+  const reduction = describeHalfReaction(reductionHalf, halves.reduction)
+
+  let cell: RedoxBalanceResult['cell']
+  if (oxidation.E0 !== undefined && reduction.E0 !== undefined) {
+    const potential = calculateCellPotential(reduction.E0, oxidation.E0, electronCount)
+    cell = {
+      anode: oxidation,
+      cathode: reduction,
+      cellPotential: potential.cellPotential,
+      spontaneous: potential.spontaneous,
+      balancedEquation: balanced,
+      deltaG: potential.deltaG,
+    }
+    steps.push(
+      `E°cell = E°cathode − E°anode = ${reduction.E0.toFixed(2)} − (${oxidation.E0.toFixed(2)}) = ${potential.cellPotential.toFixed(2)} V ` +
+        `(${potential.spontaneous ? 'spontaneous' : 'not spontaneous'})`
+    )
+  }
+
+  return {
+    skeleton,
+    medium,
+    balanced,
+    reactants,
+    products,
+    electronCount,
+    oxidationStates,
+    oxidation,
+    reduction,
+    ...(cell && { cell }),
+    steps,
+  }
+}
+
 /**
  * Identify oxidation states
- * Simple algorithm for common elements
+ * Oxidation state of one element in a formula or ion; null when unknown
  */
 export function identifyOxidationState(
   element: string,
   compound: string
 ): number | null {
-  // Simple rules
-  if (element === 'O' && compound !== 'O2') return -2
-  if (element === 'H' && compound !== 'H2') return +1
-  if (element === 'F') return -1
-  if (element === 'Cl' && compound !== 'Cl2') return -1
+  return assignOxidationStates(compound)?.[element] ?? null
+}
 
-  // Group 1 elements
-  if (['Li', 'Na', 'K'].includes(element)) return +1
+/**
+ * Assign oxidation states to every element of a formula or ion
+ * Rules in order: free elements and monatomic ions, F (-1), group 1 (+1),
+ * group 2 (+2), Al (+3), H (+1, -1 with metals), halogens (-1 unless bonded
+ * to something more electronegative), O (-2, except peroxides); the last
+ * element takes whatever the charge leaves. An element in two environments
+ * gets the average (N in NH4NO3: +1, Fe in Fe3O4: 8/3). A fractional average
+ * outside the element's known states (Cr +6.5 in "Cr2O7-") comes from a
+ * misread charge and is refused like any other parse failure.
+ */
+export function assignOxidationStates(compound: string): Record<string, number> | null {
+  let parsed: ReturnType<typeof parseSpecies>
+  try {
+    parsed = parseSpecies(compound)
+  } catch {
+    return null
+  }
 
-  // Group 2 elements
-  if (['Mg', 'Ca', 'Ba'].includes(element)) return +2
+  const { elements, charge } = parsed
+  const symbols = Object.keys(elements)
+  if (symbols.length === 0 || symbols.some(symbol => !getElementBySymbol(symbol))) {
+    return null
+  }
+  if (symbols.length === 1) {
+    const state = charge / elements[symbols[0]]
+    return isPossibleAverage(symbols[0], state) ? { [symbols[0]]: state } : null
+  }
+
+  const states: Record<string, number> = {}
+  for (const symbol of symbols) {
+    const group = getElementBySymbol(symbol)?.group
+    if (symbol === 'F') states[symbol] = -1
+    else if (symbol === 'H') states[symbol] = symbols.every(s => s === 'H' || isMetal(s)) ? -1 : 1
+    else if (group === 1) states[symbol] = 1
+    else if (group === 2) states[symbol] = 2
+    else if (symbol === 'Al') states[symbol] = 3
+  }
+
+  for (const symbol of symbols) {
+    if (
+      HALOGENS.includes(symbol) &&
+      states[symbol] === undefined &&
+      symbols.every(s => s === symbol || electronegativity(s) < electronegativity(symbol))
+    ) {
+      states[symbol] = -1
+    }
+  }
+
+  if (elements.O && states.O === undefined && symbols.some(s => s !== 'O' && states[s] === undefined)) {
+    states.O = -2
+  }
+
+  // Remaining elements: try common states for all but the most electronegative,
+  // which takes the rest of the charge
+  const unknown = symbols
+    .filter(symbol => states[symbol] === undefined)
+    .sort((a, b) => electronegativity(a) - electronegativity(b))
+  const assigned = symbols
+    .filter(symbol => states[symbol] !== undefined)
+    .reduce((sum, symbol) => sum + states[symbol] * elements[symbol], 0)
+
+  // Same order as the formula
+  const ordered = () => Object.fromEntries(symbols.map(symbol => [symbol, states[symbol]]))
+
+  if (unknown.length === 0) {
+    return assigned === charge ? ordered() : null
+  }
 
-  // Aluminum
-  if (element === 'Al') return +3
+  const last = unknown[unknown.length - 1]
+  for (const combination of combinations(unknown.slice(0, -1).map(candidateStates))) {
+    const partial = combination.reduce((sum, state, i) => sum + state * elements[unknown[i]], 0)
+    const rest = (charge - assigned - partial) / elements[last]
+    if (candidateStates(last).includes(rest) || (unknown.length === 1 && isPossibleAverage(last, rest))) {
+      combination.forEach((state, i) => {
+        states[unknown[i]] = state
+      })
+      states[last] = rest
+      return ordered()
+    }
+  }
 
   return null
 }
@@ -581,16 +845,17 @@ function removeZeroCoefficients(list: Species[]): void {
   }
 }
 
-function formatEquation(reactants: Species[], products: Species[]): string {
-  const formatSide = (side: Species[]) =>
-    side
-      .map(species => {
-        const coeff = species.coefficient === 1 ? '' : species.coefficient.toString()
-        return `${coeff}${species.formula}`
-      })
-      .join(' + ')
+function formatSpeciesList(side: Species[]): string {
+  return side
+    .map(species => {
+      const coeff = species.coefficient === 1 ? '' : species.coefficient.toString()
+      return `${coeff}${species.formula}`
+    })
+    .join(' + ')
+}
 
-  return `${formatSide(reactants)} → ${formatSide(products)}`
+function formatEquation(reactants: Species[], products: Species[]): string {
+  return `${formatSpeciesList(reactants)} → ${formatSpeciesList(products)}`
 }
 
 function gcd(a: number, b: number): number {
@@ -601,3 +866,336 @@ function lcm(a: number, b: number): number {
   if (a === 0 || b === 0) return 0
   return Math.abs((a * b) / gcd(a, b))
 }
+
+// "… (acidic)" / "… (basic solution)" at the end of a skeleton
+const MEDIUM_PATTERN = /\s*\((acidic|basic)(?:\s+(?:solution|medium))?\)\s*$/i
+
+const HALOGENS = ['Cl', 'Br', 'I', 'At']
+
+const METAL_CATEGORIES = [
+  'alkali-metal',
+  'alkaline-earth-metal',
+  'transition-metal',
+  'post-transition-metal',
+  'lanthanide',
+  'actinide',
+]
+
+// Added by the balancer; dropped from a skeleton unless oxidized or reduced
+const SOLVENT_SPECIES = ['H2O', 'H+', 'OH-', 'H3O+']
+
+interface HalfSkeleton {
+  type: 'oxidation' | 'reduction'
+  reactants: string[]
+  products: string[]
+  changes: Array<{ element: string; from: number; to: number }>
+}
+
+function isMetal(symbol: string): boolean {
+  return METAL_CATEGORIES.includes(getElementBySymbol(symbol)?.category ?? '')
+}
+
+function electronegativity(symbol: string): number {
+  return getElementBySymbol(symbol)?.electronegativity ?? 0
+}
+
+// Common states first, then everything the element is known to take
+function candidateStates(symbol: string): number[] {
+  return Array.from(
+    new Set([...(OXIDATION_STATES[symbol] ?? []), ...(getElementBySymbol(symbol)?.oxidationStates ?? [])])
+  )
+}
+
+// Mixed valence averages states the element takes: Fe3O4 is +2 and +3
+function isPossibleAverage(symbol: string, state: number): boolean {
+  if (Number.isInteger(state)) return true
+  const known = candidateStates(symbol)
+  return known.some(s => s < state) && known.some(s => s > state)
+}
+
+function combinations(lists: number[][]): number[][] {
+  return lists.reduce<number[][]>(
+    (acc, list) => acc.flatMap(prefix => list.map(value => [...prefix, value])),
+    [[]]
+  )
+}
+
+// Same species regardless of notation: MnO4-, MnO₄⁻, MnO4^-(aq)
+function speciesKey(formula: string): string {
+  const { elements, charge } = parseSpecies(formula)
+  const atoms = Object.keys(elements)
+    .sort()
+    .map(symbol => `${symbol}${elements[symbol]}`)
+  return `${atoms.join('')}|${charge}`
+}
+
+function isSolventSpecies(formula: string): boolean {
+  return SOLVENT_SPECIES.some(solvent => speciesKey(solvent) === speciesKey(formula))
+}
+
+function formatState(state: number): string {
+  const value = Number.isInteger(state) ? state.toString() : state.toFixed(2)
+  return state > 0 ? `+${value}` : value
+}
+
+function halfLabel(type: 'oxidation' | 'reduction'): string {
+  return type === 'oxidation' ? 'Oxidation' : 'Reduction'
+}
+
+/**
+ * Group skeleton species into one oxidation and one reduction half-reaction
+ * Species are linked through an element whose oxidation state changes; H and
+ * O only link species nothing else links (H2O2 → O2 next to MnO4- → Mn2+).
+ * One species going both up and down (Cl2 → Cl- + ClO3-) is split in two.
+ */
+function splitHalfReactions(
+  reactants: string[],
+  products: string[],
+  statesOf: Map<string, Record<string, number>>
+): { oxidation: HalfSkeleton; reduction: HalfSkeleton } {
+  const species = [...reactants, ...products]
+  const isReactant = (index: number) => index < reactants.length
+  const stateIn = (formula: string, element: string) => statesOf.get(formula)?.[element]
+
+  const changing = new Set<string>()
+  reactants.forEach(reactant => {
+    products.forEach(product => {
+      Object.keys(statesOf.get(reactant) ?? {}).forEach(element => {
+        const after = stateIn(product, element)
+        if (after !== undefined && after !== stateIn(reactant, element)) {
+          changing.add(element)
+        }
+      })
+    })
+  })
+  if (changing.size === 0) {
+    throw new Error('No oxidation state changes: this is not a redox reaction')
+  }
+
+  const parent = species.map((_, i) => i)
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])))
+  const linked = new Set<number>()
+  const link = (indices: number[], elements: string[]) => {
+    indices.forEach(i => {
+      indices.forEach(j => {
+        if (j <= i) return
+        if (elements.some(element => stateIn(species[i], element) !== undefined && stateIn(species[j], element) !== undefined)) {
+          parent[find(i)] = find(j)
+          linked.add(i)
+          linked.add(j)
+        }
+      })
+    })
+  }
+  const all = species.map((_, i) => i)
+  link(all, [...changing].filter(element => element !== 'H' && element !== 'O'))
+  link(all.filter(i => !linked.has(i)), [...changing])
+
+  const groups = new Map<number, number[]>()
+  all.forEach(i => {
+    if (!linked.has(i)) {
+      if (isSolventSpecies(species[i])) return
+      throw new Error(`${species[i]} takes no part in the electron transfer; leave spectator ions out of the skeleton`)
+    }
+    groups.set(find(i), [...(groups.get(find(i)) ?? []), i])
+  })
+
+  const halves: HalfSkeleton[] = []
+  groups.forEach(indices => {
+    const groupReactants = indices.filter(isReactant).map(i => species[i])
+    const groupProducts = indices.filter(i => !isReactant(i)).map(i => species[i])
+    if (groupReactants.length === 0 || groupProducts.length === 0) {
+      throw new Error(`${indices.map(i => species[i]).join(', ')} has no partner on the other side of the arrow`)
+    }
+
+    const changesBetween = (from: string[], to: string[]) => {
+      const changes: HalfSkeleton['changes'] = []
+      from.forEach(reactant => {
+        to.forEach(product => {
+          changing.forEach(element => {
+            const before = stateIn(reactant, element)
+            const after = stateIn(product, element)
+            if (before === undefined || after === undefined || before === after) return
+            if (!changes.some(c => c.element === element && c.from === before && c.to === after)) {
+              changes.push({ element, from: before, to: after })
+            }
+          })
+        })
+      })
+      return changes
+    }
+    const direction = (changes: HalfSkeleton['changes']) => {
+      if (changes.length > 0 && changes.every(c => c.to > c.from)) return 'oxidation'
+      if (changes.length > 0 && changes.every(c => c.to < c.from)) return 'reduction'
+      return null
+    }
+
+    const changes = changesBetween(groupReactants, groupProducts)
+    const type = direction(changes)
+    if (type) {
+      halves.push({ type, reactants: groupReactants, products: groupProducts, changes })
+      return
+    }
+
+    // Disproportionation (one reactant) or comproportionation (one product)
+    const single = groupReactants.length === 1 ? 'reactant' : groupProducts.length === 1 ? 'product' : null
+    const others = single === 'reactant' ? groupProducts : groupReactants
+    const split = new Map<'oxidation' | 'reduction', string[]>()
+    others.forEach(other => {
+      const pairChanges =
+        single === 'reactant' ? changesBetween(groupReactants, [other]) : changesBetween([other], groupProducts)
+      const pairType = single ? direction(pairChanges) : null
+      if (!pairType) {
+        throw new Error(`Cannot split ${groupReactants.join(' + ')} → ${groupProducts.join(' + ')} into half-reactions`)
+      }
+      split.set(pairType, [...(split.get(pairType) ?? []), other])
+    })
+    split.forEach((list, pairType) => {
+      const halfReactants = single === 'reactant' ? groupReactants : list
+      const halfProducts = single === 'reactant' ? list : groupProducts
+      halves.push({
+        type: pairType,
+        reactants: halfReactants,
+        products: halfProducts,
+        changes: changesBetween(halfReactants, halfProducts),
+      })
+    })
+  })
+
+  const oxidations = halves.filter(half => half.type === 'oxidation')
+  const reductions = halves.filter(half => half.type === 'reduction')
+  if (oxidations.length !== 1 || reductions.length !== 1) {
+    throw new Error(
+      `Found ${oxidations.length} oxidation and ${reductions.length} reduction half-reactions; ` +
+        'the skeleton needs exactly one of each'
+    )
+  }
+
+  return { oxidation: oxidations[0], reduction: reductions[0] }
+}
+
+/**
+ * Balance one half-reaction in acidic solution
+ * Exact null space of the atom and charge rows with H2O, H+ and e- added. The
+ * changing elements also get a row without the helpers, so their atoms stay
+ * in the skeleton species (H2O2 → O2 cannot borrow O from water).
+ */
+function balanceHalfReaction(half: HalfSkeleton, steps: string[]): ParsedHalfReaction {
+  const written = new Set([...half.reactants, ...half.products].map(speciesKey))
+  const helpers = ['H2O', 'H+', 'e-'].filter(helper => !written.has(speciesKey(helper)))
+  const columns = [
+    ...half.reactants.map(formula => ({ formula, sign: 1, helper: false })),
+    ...helpers.map(formula => ({ formula, sign: 1, helper: true })),
+    ...half.products.map(formula => ({ formula, sign: -1, helper: false })),
+  ]
+  const parsed = columns.map(column => parseSpecies(column.formula))
+
+  const elements = Array.from(new Set(parsed.flatMap(species => Object.keys(species.elements))))
+  const matrix = [
+    ...elements.map(element => columns.map((column, i) => column.sign * (parsed[i].elements[element] ?? 0))),
+    columns.map((column, i) => column.sign * parsed[i].charge),
+    ...half.changes.map(({ element }) =>
+      columns.map((column, i) => (column.helper ? 0 : column.sign * (parsed[i].elements[element] ?? 0)))
+    ),
+  ]
+
+  const failure = new Error(
+    `Could not balance the ${half.type} half-reaction ${half.reactants.join(' + ')} → ${half.products.join(' + ')}`
+  )
+  const basis = nullspaceBasis(matrix, columns.length)
+  if (basis.length !== 1) throw failure
+  const vector = basis[0][0] < 0 ? basis[0].map(value => -value) : basis[0]
+  if (columns.some((column, i) => !column.helper && vector[i] <= 0)) throw failure
+
+  const coefficientOf = (formula: string) => vector[columns.findIndex(column => column.formula === formula)]
+  const reactants: Species[] = half.reactants.map(formula => ({ formula, coefficient: coefficientOf(formula) }))
+  const products: Species[] = half.products.map(formula => ({ formula, coefficient: coefficientOf(formula) }))
+  const label = halfLabel(half.type)
+  steps.push(`  ${label}: atoms other than O and H: ${formatEquation(reactants, products)}`)
+
+  const addHelper = (formula: string) => {
+    const value = helpers.includes(formula) ? coefficientOf(formula) : 0
+    if (value > 0) reactants.push({ formula, coefficient: value })
+    if (value < 0) products.push({ formula, coefficient: -value })
+    return value
+  }
+  if (addHelper('H2O') !== 0) steps.push(`    O with H2O: ${formatEquation(reactants, products)}`)
+  if (addHelper('H+') !== 0) steps.push(`    H with H+: ${formatEquation(reactants, products)}`)
+
+  const electrons = helpers.includes('e-') ? coefficientOf('e-') : 0
+  if ((half.type === 'reduction' && electrons <= 0) || (half.type === 'oxidation' && electrons >= 0)) {
+    throw new Error(`The oxidation states and the charge disagree for ${half.reactants.join(' + ')} → ${half.products.join(' + ')}`)
+  }
+  const electronTerm = { formula: 'e-', coefficient: Math.abs(electrons) }
+  steps.push(
+    `    charge with e-: ${formatEquation(
+      electrons > 0 ? [...reactants, electronTerm] : reactants,
+      electrons < 0 ? [...products, electronTerm] : products
+    )}`
+  )
+
+  return { reactants, products, electrons: Math.abs(electrons), type: half.type }
+}
+
+function describeHalfReaction(half: ParsedHalfReaction, skeleton: HalfSkeleton): RedoxHalfReaction {
+  const electronTerm = { formula: 'e-', coefficient: half.electrons }
+  const reduction = half.type === 'reduction'
+  const left = reduction ? [...half.reactants, electronTerm] : half.reactants
+  const right = reduction ? half.products : [...half.products, electronTerm]
+
+  // The couple is named oxidized form / reduced form, as in the table
+  const { element } = skeleton.changes[0]
+  const holds = (formula: string) => parseSpecies(formula).elements[element] !== undefined
+  const before = skeleton.reactants.find(holds)
+  const after = skeleton.products.find(holds)
+  const couple = before && after ? (reduction ? findCouple(before, after) : findCouple(after, before)) : undefined
+
+  return {
+    reactants: formatSpeciesList(left),
+    products: formatSpeciesList(right),
+    electrons: half.electrons,
+    type: half.type,
+    equation: formatEquation(left, right),
+    changes: skeleton.changes,
+    ...(couple && { couple, E0: STANDARD_REDUCTION_POTENTIALS[couple].E0 }),
+  }
+}
+
+function findCouple(oxidized: string, reduced: string): string | undefined {
+  const target = `${speciesKey(oxidized)}/${speciesKey(reduced)}`
+  return Object.keys(STANDARD_REDUCTION_POTENTIALS).find(name => {
+    const [ox, red] = name.split('/').map(part => part.replace(/\s+/g, ''))
+    return `${speciesKey(ox)}/${speciesKey(red)}` === target
+  })
+}
+
+// Skeleton order first; added H2O, H+ and OH- after
+function orderLike(list: Species[], order: string[]): Species[] {
+  const rank = (formula: string) => {
+    const index = order.indexOf(formula)
+    return index === -1 ? order.length : index
+  }
+  return [...list].sort((a, b) => rank(a.formula) - rank(b.formula))
+}
+
+// Atoms must match on both sides; returns the (equal) total charge
+function checkRedoxBalance(reactants: Species[], products: Species[]): number {
+  const totals = (list: Species[]) => {
+    const counts: Record<string, number> = { charge: 0 }
+    list.forEach(({ formula, coefficient }) => {
+      const { elements, charge } = parseSpecies(formula)
+      counts.charge += charge * coefficient
+      Object.entries(elements).forEach(([element, count]) => {
+        counts[element] = (counts[element] ?? 0) + count * coefficient
+      })
+    })
+    return counts
+  }
+  const left = totals(reactants)
+  const right = totals(products)
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)])
+  if ([...keys].some(key => (left[key] ?? 0) !== (right[key] ?? 0))) {
+    throw new Error('The combined equation does not balance')
+  }
+  return left.charge
+}
@@ -2,7 +2,7 @@
 // Advanced algorithm for balancing chemical equations
 // Updated: Nov 2025 - Improved algorithm with higher coefficient limits and redox support
 
-import { BalancedEquation } from '../types/chemistry'
+import { BalancedEquation, BalanceSolutionSpace } from '../types/chemistry'
 
 interface Fraction {
   num: number
@@ -37,23 +37,95 @@ const OXIDATION_STATES: Record<string, number[]> = {
 // SECURITY: Max input length to prevent ReDoS attacks (Dec 2025 - 4-AI Audit)
 const MAX_FORMULA_LENGTH = 500
 
+// Pseudo-element for the charge-conservation row; lowercase, so never a symbol
+const CHARGE_ROW = 'charge'
+
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4',
+  '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9',
+}
+
+export interface ParsedSpecies {
+  elements: Record<string, number>
+  charge: number
+}
+
 /**
- * Parse chemical formula to extract element counts
- * Examples: "H2O" -> {H: 2, O: 1}, "Ca(OH)2" -> {Ca: 1, O: 2, H: 2}
+ * Parse a species: element counts plus its charge
+ * Examples: "Fe3+" -> Fe, +3; "MnO4-" -> Mn O4, -1; "SO42-" -> S O4, -2;
+ * "[Cu(NH3)4]2+" -> Cu N4 H12, +2; "e-" -> no atoms, -1
+ *
+ * In "Fe3+" the digit is the charge, in "MnO4-" it is a subscript: a single
+ * digit before the sign is a charge only after a lone element symbol, several
+ * digits end in the charge ("SO42-", "Hg22+"), and digits after "]" are all
+ * charge. "^" (I3^-, O2^-, Fe^{3+}), superscripts (Fe³⁺) or a charge after a
+ * space (Cr2O7 2-) are unambiguous. Anything left that is not a formula
+ * throws, so a misread species never reaches the balance.
  */
-function parseFormula(formula: string): Record<string, number> {
+export function parseSpecies(formula: string): ParsedSpecies {
   // SECURITY: Limit input size to prevent ReDoS
   if (formula.length > MAX_FORMULA_LENGTH) {
     throw new Error(`Formula too long (max ${MAX_FORMULA_LENGTH} characters)`)
   }
 
+  // Remove states (s), (l), (g), (aq)
+  let body = formula.replace(/\([slgaq]+\)/g, '').trim()
+
+  if (/^e(?:\^?-|⁻)?$/.test(body)) {
+    return { elements: {}, charge: -1 }
+  }
+
+  let charge = 0
+  let match: RegExpExecArray | null
+  if ((match = /([⁰¹²³⁴⁵⁶⁷⁸⁹]*)([⁺⁻])$/.exec(body))) {
+    const digits = [...match[1]].map(d => SUPERSCRIPT_DIGITS[d]).join('')
+    charge = (digits ? parseInt(digits) : 1) * (match[2] === '⁺' ? 1 : -1)
+    body = body.slice(0, match.index)
+  } else if ((match = /\^?\{(\d*)([+-])\}$|\^(\d*)([+-])$/.exec(body))) {
+    const digits = match[1] ?? match[3]
+    const sign = match[2] ?? match[4]
+    charge = (digits ? parseInt(digits) : 1) * (sign === '+' ? 1 : -1)
+    body = body.slice(0, match.index)
+  } else if ((match = /\s+(\d*)([+-])$/.exec(body))) {
+    // Charge written apart from the formula: "Cr2O7 2-"
+    charge = (match[1] ? parseInt(match[1]) : 1) * (match[2] === '+' ? 1 : -1)
+    body = body.slice(0, match.index)
+  } else if ((match = /(\d*)([+-])$/.exec(body))) {
+    let digits = match[1]
+    body = body.slice(0, match.index)
+    if (digits && !body.endsWith(']')) {
+      // Keep all but the charge digit as the subscript it belongs to
+      const single = digits.length === 1
+      const chargeDigits = single && !/^[A-Z][a-z]?$/.test(body) ? '' : digits.slice(-1)
+      body += digits.slice(0, digits.length - chargeDigits.length)
+      digits = chargeDigits
+    }
+    charge = (digits ? parseInt(digits) : 1) * (match[2] === '+' ? 1 : -1)
+  }
+
+  return { elements: parseElementCounts(body), charge }
+}
+
+/**
+ * Parse chemical formula to extract element counts
+ * Examples: "H2O" -> {H: 2, O: 1}, "Ca(OH)2" -> {Ca: 1, O: 2, H: 2}
+ */
+function parseFormula(formula: string): Record<string, number> {
+  return parseSpecies(formula).elements
+}
+
+function parseElementCounts(formula: string): Record<string, number> {
   const elements: Record<string, number> = {}
+  const written = formula
 
-  // Remove states (s), (l), (g), (aq)
-  formula = formula.replace(/\([slgaq]+\)/g, '')
+  // Handle parentheses: Ca(OH)2 -> expand to CaO2H2; [Cu(NH3)4] likewise
+  formula = expandParentheses(formula.replace(/\[/g, '(').replace(/\]/g, ')'))
 
-  // Handle parentheses: Ca(OH)2 -> expand to CaO2H2
-  formula = expandParentheses(formula)
+  // Every character must belong to an element and its count: no stray
+  // digits, spaces, signs or unmatched brackets left over
+  if (!/^(?:[A-Z][a-z]?\d*)*$/.test(formula)) {
+    throw new Error(`Cannot parse species "${written}"`)
+  }
 
   // Match element and number pattern: H2, C, O3
   const regex = /([A-Z][a-z]?)(\d*)/g
@@ -72,11 +144,11 @@ function parseFormula(formula: string): Record<string, number> {
 }
 
 /**
- * Expand parentheses in chemical formula
+ * Expand parentheses in chemical formula, innermost first
  * Ca(OH)2 -> CaO2H2
  */
 function expandParentheses(formula: string): string {
-  const regex = /\(([^)]+)\)(\d*)/g
+  const regex = /\(([^()]+)\)(\d*)/g
 
   while (regex.test(formula)) {
     formula = formula.replace(regex, (match, group, multiplier) => {
@@ -105,10 +177,40 @@ function sanitizeCompound(compound: string): string {
 }
 
 /**
- * Parse chemical equation into reactants and products
- * "H2 + O2 -> H2O" -> { reactants: ['H2', 'O2'], products: ['H2O'] }
+ * Split one side of an equation at its "+" separators, keeping charges
+ * "Fe3+ + e-" -> ['Fe3+', 'e-'], "Na++Cl-" -> ['Na+', 'Cl-'], "H2+O2" -> ['H2', 'O2']
+ *
+ * A "+" right after a species is its charge when nothing but another "+", a
+ * state symbol, "}" or the end of the side follows; otherwise it separates.
+ * Terms are trimmed but not filtered, so "H2 + + O2" yields an empty term.
  */
-function parseEquation(equation: string): { reactants: string[]; products: string[] } {
+export function splitSpecies(side: string): string[] {
+  const terms: string[] = []
+  let start = 0
+
+  for (let i = 0; i < side.length; i++) {
+    if (side[i] !== '+') continue
+    const before = side[i - 1]
+    const rest = side.slice(i + 1).trimStart()
+    const isCharge =
+      before !== undefined &&
+      !/[\s+]/.test(before) &&
+      (rest === '' || /^[+}]/.test(rest) || /^\((?:aq|s|l|g)\)/i.test(rest))
+    if (!isCharge) {
+      terms.push(side.slice(start, i).trim())
+      start = i + 1
+    }
+  }
+  terms.push(side.slice(start).trim())
+
+  return terms
+}
+
+/**
+ * Split an equation into its raw reactant and product terms
+ * Coefficients and state symbols are kept: "2Na(s) + Cl2(g) -> 2NaCl(s)"
+ */
+export function splitEquation(equation: string): { reactants: string[]; products: string[] } {
   // Split by arrow (support multiple arrow formats)
   const parts = equation.split(/->|→|=>|=/)
 
@@ -116,14 +218,18 @@ function parseEquation(equation: string): { reactants: string[]; products: strin
     throw new Error('Invalid equation format. Use format: A + B -> C + D')
   }
 
-  const reactants = parts[0]
-    .split('+')
-    .map(sanitizeCompound)
-    .filter(s => s.length > 0)
-  const products = parts[1]
-    .split('+')
-    .map(sanitizeCompound)
-    .filter(s => s.length > 0)
+  return { reactants: splitSpecies(parts[0]), products: splitSpecies(parts[1]) }
+}
+
+/**
+ * Parse chemical equation into reactants and products
+ * "H2 + O2 -> H2O" -> { reactants: ['H2', 'O2'], products: ['H2O'] }
+ */
+function parseEquation(equation: string): { reactants: string[]; products: string[] } {
+  const sides = splitEquation(equation)
+
+  const reactants = sides.reactants.map(sanitizeCompound).filter(s => s.length > 0)
+  const products = sides.products.map(sanitizeCompound).filter(s => s.length > 0)
 
   if (reactants.length === 0 || products.length === 0) {
     throw new Error('Invalid equation format. Must include reactants and products')
@@ -146,9 +252,17 @@ function getAllElements(reactants: string[], products: string[]): string[] {
   return Array.from(elements).sort()
 }
 
+/**
+ * Count of one balance row in a species: an element, or its charge
+ */
+function speciesCount(species: ParsedSpecies, row: string): number {
+  return row === CHARGE_ROW ? species.charge : species.elements[row] || 0
+}
+
 /**
  * Build matrix for balancing algorithm
  * Uses linear algebra approach (Gaussian elimination)
+ * One row per element, plus a charge row when any species is charged
  */
 function buildMatrix(
   reactants: string[],
@@ -162,14 +276,12 @@ function buildMatrix(
 
     // Reactants (positive coefficients)
     reactants.forEach(compound => {
-      const parsed = parseFormula(compound)
-      row.push(parsed[element] || 0)
+      row.push(speciesCount(parseSpecies(compound), element))
     })
 
     // Products (negative coefficients)
     products.forEach(compound => {
-      const parsed = parseFormula(compound)
-      row.push(-(parsed[element] || 0))
+      row.push(-speciesCount(parseSpecies(compound), element))
     })
 
     matrix.push(row)
@@ -179,190 +291,108 @@ function buildMatrix(
 }
 
 /**
- * Find GCD (Greatest Common Divisor) of array
+ * Find GCD (Greatest Common Divisor)
  */
 function gcd(a: number, b: number): number {
   return b === 0 ? Math.abs(a) : gcd(b, a % b)
 }
 
-function arrayGCD(arr: number[]): number {
-  return arr.reduce((a, b) => gcd(a, b))
+/**
+ * Balance rows for an equation: every element, plus a charge row when any
+ * species is an ion or an electron
+ */
+function getBalanceRows(reactants: string[], products: string[]): string[] {
+  const rows = getAllElements(reactants, products)
+  if ([...reactants, ...products].some(compound => parseSpecies(compound).charge !== 0)) {
+    rows.push(CHARGE_ROW)
+  }
+  return rows
 }
 
 /**
  * Balance chemical equation using algebraic method
+ * The coefficients are the integer null space of the element (and charge)
+ * matrix. Only a unique reaction in which every species takes part on its
+ * written side is returned; otherwise the result fails with `solutionSpace`
+ * explaining why, instead of guessing one of several answers.
  */
 export function balanceEquation(equation: string): BalancedEquation {
   try {
     const { reactants, products } = parseEquation(equation)
-    const elements = getAllElements(reactants, products)
-
-    // Total number of compounds
-    const n = reactants.length + products.length
-
-    // Try brute force for small equations (most efficient for simple cases)
-    if (n <= 5) {
-      const coeffs = balanceBruteForce(reactants, products, elements)
-      if (coeffs) {
-        return buildBalancedEquation(equation, reactants, products, coeffs, elements)
-      }
-    }
+    const elements = getBalanceRows(reactants, products)
+    const solutionSpace = solveSolutionSpace(reactants, products, elements)
 
-    // Fall back to Gaussian elimination for general cases
-    const coeffs = balanceUsingGaussian(reactants, products, elements)
-    if (coeffs) {
+    const [coeffs] = solutionSpace.basis
+    if (solutionSpace.dimension === 1 && coeffs.every(c => c > 0)) {
       return buildBalancedEquation(equation, reactants, products, coeffs, elements)
     }
 
-    return createFailedBalancedEquation(equation, reactants, products)
+    return { ...createFailedBalancedEquation(equation, reactants, products), solutionSpace }
   } catch {
     return createFailedBalancedEquation(equation, [], [])
   }
 }
 
 /**
- * Optimized brute force with smart pruning
- * - Higher coefficient limit (up to 20)
- * - Early termination when partial balance impossible
- * - Prioritizes common coefficient patterns
+ * Describe every way an equation can be balanced
+ * dimension 0: nothing but all-zero coefficients conserves the atoms
+ * dimension 1: one reaction (possibly with species missing or on the wrong side)
+ * dimension 2+: several independent reactions, so coefficients are not unique
+ * Throws on a malformed equation, like splitEquation
  */
-function balanceBruteForce(
+export function analyzeEquation(equation: string): BalanceSolutionSpace {
+  const { reactants, products } = parseEquation(equation)
+  return solveSolutionSpace(reactants, products, getBalanceRows(reactants, products))
+}
+
+function solveSolutionSpace(
   reactants: string[],
   products: string[],
-  elements: string[],
-  maxCoeff: number = 20
-): number[] | null {
-  const n = reactants.length + products.length
-  const parsedReactants = reactants.map(parseFormula)
-  const parsedProducts = products.map(parseFormula)
-
-  // Pre-compute element counts for each compound
-  const reactantCounts = parsedReactants.map(parsed =>
-    elements.map(el => parsed[el] || 0)
-  )
-  const productCounts = parsedProducts.map(parsed =>
-    elements.map(el => parsed[el] || 0)
-  )
-
-  // Try common coefficient patterns first (1, 2, 3, 4, 6, 8, 10)
-  const priorityCoeffs = [1, 2, 3, 4, 6, 8, 10, 5, 7, 9, 12, 14, 16, 18, 20]
-
-  function tryCoefficientsOptimized(
-    index: number,
-    coeffs: number[],
-    iterationsLeft: number
-  ): number[] | null {
-    if (iterationsLeft <= 0) return null
-
-    if (index === n) {
-      // Fast balance check using pre-computed values
-      for (let elIdx = 0; elIdx < elements.length; elIdx++) {
-        let reactantSum = 0
-        let productSum = 0
-
-        for (let i = 0; i < reactants.length; i++) {
-          reactantSum += reactantCounts[i][elIdx] * coeffs[i]
-        }
-        for (let i = 0; i < products.length; i++) {
-          productSum += productCounts[i][elIdx] * coeffs[reactants.length + i]
-        }
-
-        if (reactantSum !== productSum) return null
-      }
-      return [...coeffs]
+  rows: string[]
+): BalanceSolutionSpace {
+  const species = [...reactants, ...products]
+  const matrix = buildMatrix(reactants, products, rows)
+  const basis = nullspaceBasis(matrix, species.length).map(orientTowardWrittenSides)
+  const reactions = basis.map(vector => formatReaction(reactants, products, vector))
+
+  const space: BalanceSolutionSpace = { dimension: basis.length, basis, reactions }
+
+  if (basis.length === 0) {
+    space.reason = describeNoSolution(matrix, rows)
+  } else if (basis.length === 1) {
+    const reasons: string[] = []
+    const unused = species.filter((_, i) => basis[0][i] === 0)
+    const reversed = species.filter((_, i) => basis[0][i] < 0)
+    if (unused.length > 0) {
+      reasons.push(`${listSpecies(unused)} ${unused.length === 1 ? 'takes' : 'take'} no part in the only balanced reaction`)
     }
-
-    // For later compounds, try to constrain based on partial sums
-    const coeffsToTry =
-      index < 2 ? priorityCoeffs.filter(c => c <= maxCoeff) : getOrderedCoeffs(maxCoeff)
-
-    for (const c of coeffsToTry) {
-      coeffs[index] = c
-
-      // Early pruning: check if partial balance is possible
-      if (index >= reactants.length - 1 && index < n - 1) {
-        // Can we still balance with remaining coefficients?
-        let canBalance = true
-        for (let elIdx = 0; elIdx < elements.length && canBalance; elIdx++) {
-          let reactantSum = 0
-          for (let i = 0; i < reactants.length; i++) {
-            reactantSum += reactantCounts[i][elIdx] * coeffs[i]
-          }
-
-          let productSum = 0
-          let maxPossibleProduct = 0
-          for (let i = 0; i < products.length; i++) {
-            if (i + reactants.length <= index) {
-              productSum += productCounts[i][elIdx] * coeffs[reactants.length + i]
-            } else {
-              maxPossibleProduct += productCounts[i][elIdx] * maxCoeff
-            }
-          }
-
-          // If reactant sum exceeds max possible product, prune this branch
-          if (reactantSum > productSum + maxPossibleProduct) {
-            canBalance = false
-          }
-        }
-        if (!canBalance) continue
-      }
-
-      const result = tryCoefficientsOptimized(index + 1, coeffs, iterationsLeft - 1)
-      if (result) return result
+    if (reversed.length > 0) {
+      reasons.push(`${listSpecies(reversed)} ${reversed.length === 1 ? 'belongs' : 'belong'} on the other side of the arrow`)
     }
-
-    return null
-  }
-
-  // Try with increasingly higher limits
-  for (const limit of [10, 15, 20]) {
-    const result = tryCoefficientsOptimized(0, new Array(n).fill(0), 500000)
-    if (result) {
-      const g = arrayGCD(result)
-      return result.map(c => c / g)
+    if (reasons.length > 0) {
+      space.reason = `${reasons.join('; ')}: ${reactions[0]}`
     }
-    if (limit >= maxCoeff) break
+  } else {
+    space.reason =
+      `${basis.length} independent reactions balance these species, so the coefficients are not unique ` +
+      '(any combination of them also balances). Write the reactions separately or remove a species.'
   }
 
-  return null
+  return space
 }
 
-function getOrderedCoeffs(max: number): number[] {
-  const result: number[] = []
-  for (let i = 1; i <= max; i++) {
-    result.push(i)
+/**
+ * Integer basis of the null space of `matrix` (exact rational arithmetic)
+ * One vector per free column of the reduced row echelon form
+ */
+export function nullspaceBasis(matrix: number[][], cols: number): number[][] {
+  if (cols === 0) {
+    return []
   }
-  return result
-}
-
-
-
-function balanceUsingGaussian(
-  reactants: string[],
-  products: string[],
-  elements: string[]
-): number[] | null {
-  const matrix = buildMatrix(reactants, products, elements)
   if (matrix.length === 0) {
-    return null
-  }
-
-  const solution = solveHomogeneousSystem(matrix)
-  if (!solution) {
-    return null
-  }
-
-  if (solution.some(coefficient => coefficient <= 0)) {
-    return null
-  }
-
-  return solution
-}
-
-function solveHomogeneousSystem(matrix: number[][]): number[] | null {
-  const cols = matrix[0]?.length ?? 0
-  if (cols === 0) {
-    return null
+    return Array.from({ length: cols }, (_, c) =>
+      Array.from({ length: cols }, (_, i) => (i === c ? 1 : 0))
+    )
   }
 
   const { rref, pivotColumns } = toReducedRowEchelonForm(matrix)
@@ -380,20 +410,59 @@ function solveHomogeneousSystem(matrix: number[][]): number[] | null {
     }
   }
 
-  if (freeColumns.length === 0) {
-    return null
-  }
+  return freeColumns.map(freeColumn =>
+    convertFractionsToIntegers(buildSolutionFromRREF(rref, pivotMap, freeColumns, freeColumn))
+  )
+}
 
-  for (let i = freeColumns.length - 1; i >= 0; i--) {
-    const freeColumn = freeColumns[i]
-    const fractions = buildSolutionFromRREF(rref, pivotMap, freeColumns, freeColumn)
-    const integers = convertFractionsToIntegers(fractions)
-    if (integers.length && integers.every(value => value > 0)) {
-      return integers
-    }
+/**
+ * Flip a basis vector when most of its species would otherwise change sides
+ */
+function orientTowardWrittenSides(vector: number[]): number[] {
+  const positive = vector.filter(value => value > 0).length
+  const negative = vector.filter(value => value < 0).length
+  return negative > positive ? vector.map(value => -value || 0) : vector
+}
+
+/**
+ * Write a null space vector as a reaction; negative coefficients move a
+ * species to the other side, zero coefficients drop it
+ */
+function formatReaction(reactants: string[], products: string[], vector: number[]): string {
+  const left: string[] = []
+  const right: string[] = []
+  const term = (formula: string, coeff: number) =>
+    Math.abs(coeff) > 1 ? `${Math.abs(coeff)}${formula}` : formula
+
+  ;[...reactants, ...products].forEach((formula, i) => {
+    const coeff = i < reactants.length ? vector[i] : -vector[i]
+    if (coeff > 0) left.push(term(formula, coeff))
+    if (coeff < 0) right.push(term(formula, coeff))
+  })
+
+  return `${left.join(' + ')} → ${right.join(' + ')}`
+}
+
+function describeNoSolution(matrix: number[][], rows: string[]): string {
+  const oneSided = rows.filter((_, r) => {
+    const nonZero = matrix[r].filter(value => value !== 0)
+    return nonZero.length > 0 && (nonZero.every(value => value > 0) || nonZero.every(value => value < 0))
+  })
+  const atoms = oneSided.filter(row => row !== CHARGE_ROW)
+
+  if (atoms.length > 0) {
+    return `${listSpecies(atoms)} ${atoms.length === 1 ? 'appears' : 'appear'} on only one side, so no nonzero coefficients balance the equation`
   }
+  if (rows.includes(CHARGE_ROW)) {
+    return 'The atoms cannot balance together with the charge; check the ion charges or add electrons (e-)'
+  }
+  return 'Only all-zero coefficients conserve every element; check for a missing or mistyped species'
+}
 
-  return null
+function listSpecies(names: string[]): string {
+  return names.length === 1
+    ? names[0]
+    : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
 }
 
 function toReducedRowEchelonForm(matrix: number[][]): {
@@ -492,6 +561,9 @@ function convertFractionsToIntegers(solution: Fraction[]): number[] {
   const lcmDenominator = denominators.reduce((acc, den) => lcm(acc, den), 1)
 
   const integers = solution.map(frac => frac.num * (lcmDenominator / frac.den))
+  if (!integers.every(value => Number.isSafeInteger(value))) {
+    throw new Error('Coefficient overflow')
+  }
   if (integers.every(value => value === 0)) {
     return []
   }
@@ -513,6 +585,10 @@ function makeFraction(num: number, den: number = 1): Fraction {
   if (den === 0) {
     throw new Error('Zero denominator')
   }
+  // Exact arithmetic only: refuse rather than round past 2^53
+  if (!Number.isSafeInteger(num) || !Number.isSafeInteger(den)) {
+    throw new Error('Coefficient overflow')
+  }
   if (num === 0) {
     return { num: 0, den: 1 }
   }
@@ -597,30 +673,30 @@ function buildBalancedEquation(
 
   const balanced = `${reactantStr} → ${productStr}`
 
-  // Count atoms on each side
-  const atomCounts: Record<string, { reactants: number; products: number }> = {}
+  // Count atoms (and charge) on each side
+  const counts: Record<string, { reactants: number; products: number }> = {}
 
   elements.forEach(element => {
     let reactantCount = 0
     let productCount = 0
 
     reactants.forEach((compound, i) => {
-      const parsed = parseFormula(compound)
-      reactantCount += (parsed[element] || 0) * coefficients[i]
+      reactantCount += speciesCount(parseSpecies(compound), element) * coefficients[i]
     })
 
     products.forEach((compound, i) => {
-      const parsed = parseFormula(compound)
-      productCount += (parsed[element] || 0) * coefficients[reactants.length + i]
+      productCount += speciesCount(parseSpecies(compound), element) * coefficients[reactants.length + i]
     })
 
-    atomCounts[element] = { reactants: reactantCount, products: productCount }
+    counts[element] = { reactants: reactantCount, products: productCount }
   })
 
   const isBalanced = elements.every(
-    el => atomCounts[el].reactants === atomCounts[el].products
+    el => counts[el].reactants === counts[el].products
   )
 
+  const { [CHARGE_ROW]: charge, ...atomCounts } = counts
+
   return {
     original,
     balanced,
@@ -629,6 +705,7 @@ function buildBalancedEquation(
     products,
     isBalanced,
     atoms: atomCounts,
+    ...(charge && { charge }),
   }
 }
 
@@ -870,6 +947,26 @@ export const EXAMPLE_EQUATIONS = [
     type: 'redox',
     difficulty: 'hard',
   },
+
+  // Ionic equations (charge balanced alongside atoms)
+  {
+    name: 'Iron(III) reduction half-reaction',
+    equation: 'Fe3+ + e- -> Fe2+',
+    type: 'redox',
+    difficulty: 'easy',
+  },
+  {
+    name: 'Tetraamminecopper(II) formation',
+    equation: 'Cu2+ + NH3 -> [Cu(NH3)4]2+',
+    type: 'synthesis',
+    difficulty: 'medium',
+  },
+  {
+    name: 'Permanganate + Iron(II) (ionic)',
+    equation: 'MnO4- + Fe2+ + H+ -> Mn2+ + Fe3+ + H2O',
+    type: 'redox',
+    difficulty: 'hard',
+  },
 ]
 
 /**
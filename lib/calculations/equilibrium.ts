@@ -0,0 +1,438 @@
+// VerChem - Chemical Equilibrium Calculator
+// ICE tables from K and initial amounts, reaction quotient, Kc ↔ Kp
+// Created: 2026-10-18
+
+import { balanceEquation, splitEquation } from '@/lib/calculations/equation-balancer'
+import { GAS_CONSTANT } from '@/lib/constants/physical-constants'
+
+export type EquilibriumConstantType = 'Kc' | 'Kp'
+
+/**
+ * Direction the reaction runs to reach equilibrium (Le Chatelier)
+ */
+export type EquilibriumShift = 'forward' | 'reverse' | 'none'
+
+/**
+ * Equilibrium Input
+ * Amounts are concentrations (M) with Kc, partial pressures (atm) with Kp
+ */
+export interface EquilibriumInput {
+  equation: string // Balanced or not; balanced with balanceEquation
+  initial: Record<string, number> // By formula; missing species start at 0
+  K: number
+  type?: EquilibriumConstantType // Default Kc
+  temperature?: number // K, for Kc ↔ Kp (default 298.15)
+}
+
+/**
+ * One row of the ICE table
+ */
+export interface IceRow {
+  formula: string
+  coefficient: number
+  side: 'reactant' | 'product'
+  initial: number
+  change: number
+  equilibrium: number
+  changeExpression: string // "-3x", "+2x"
+}
+
+/**
+ * Equilibrium Result
+ */
+export interface EquilibriumResult {
+  equation: string // Balanced equation with ⇌
+  type: EquilibriumConstantType
+  unit: 'M' | 'atm'
+  K: number
+  Kc?: number // Both present when every species in K is a gas
+  Kp?: number
+  deltaN?: number // Moles of gas, products − reactants
+  temperature: number
+  Q: number // Reaction quotient of the initial mixture
+  shift: EquilibriumShift
+  extent: number // x in the ICE table
+  ice: IceRow[]
+  excluded: string[] // Pure solids and liquids, left out of K
+  steps: string[]
+}
+
+/**
+ * Constants
+ */
+export const EQUILIBRIUM_TEMPERATURE = 298.15 // K (25°C)
+const MAX_BISECTIONS = 400
+const Q_EQUALS_K = 1e-9 // Relative |ln Q − ln K| treated as already at equilibrium
+
+interface EquilibriumSpecies {
+  formula: string
+  coefficient: number // Signed: negative for reactants
+  state?: string
+}
+
+/**
+ * Convert between Kc and Kp
+ * Kp = Kc(RT)^Δn with R = 0.08206 L·atm/(mol·K), Δn = gas moles products − reactants
+ */
+export function convertEquilibriumConstant(
+  K: number,
+  from: EquilibriumConstantType,
+  deltaN: number,
+  temperature: number = EQUILIBRIUM_TEMPERATURE
+): { Kc: number; Kp: number; steps: string[] } {
+  if (!(K > 0) || !Number.isFinite(K)) {
+    throw new Error('K must be a positive number')
+  }
+  if (!(temperature > 0)) {
+    throw new Error('Temperature must be positive (K)')
+  }
+
+  const RT = GAS_CONSTANT.atm * temperature
+  const factor = Math.pow(RT, deltaN)
+  const Kc = from === 'Kc' ? K : K / factor
+  const Kp = from === 'Kp' ? K : K * factor
+
+  const steps: string[] = []
+  steps.push('Kp = Kc(RT)^Δn')
+  steps.push(`  R = ${GAS_CONSTANT.atm.toFixed(5)} L·atm/(mol·K), T = ${temperature} K, Δn = ${deltaN}`)
+  steps.push(`  (RT)^Δn = (${RT.toFixed(4)})^${deltaN} = ${formatNumber(factor)}`)
+  steps.push(`  Kc = ${formatNumber(Kc)}, Kp = ${formatNumber(Kp)}`)
+
+  return { Kc, Kp, steps }
+}
+
+/**
+ * Reaction quotient Q = Π a_i^ν_i (ν negative for reactants)
+ * 0 when a product is absent, Infinity when a reactant is absent
+ */
+export function calculateReactionQuotient(
+  amounts: number[],
+  coefficients: number[]
+): number {
+  const lnQ = logQuotient(amounts, coefficients)
+  return Number.isNaN(lnQ) ? NaN : Math.exp(lnQ)
+}
+
+/**
+ * Le Chatelier direction from Q and K
+ */
+export function predictShift(Q: number, K: number): EquilibriumShift {
+  if (Math.abs(Math.log(Q) - Math.log(K)) <= Q_EQUALS_K * Math.max(1, Math.abs(Math.log(K)))) {
+    return 'none'
+  }
+  return Q < K ? 'forward' : 'reverse'
+}
+
+/**
+ * Solve for the equilibrium composition
+ * Extent x is bracketed between the limiting product (x_min) and the limiting
+ * reactant (x_max); ln Q(x) − ln K rises monotonically across that interval,
+ * so bisection always converges. The search starts from whichever end is
+ * nearer the root, so a nearly consumed species keeps full precision.
+ */
+export function solveEquilibrium(input: EquilibriumInput): EquilibriumResult {
+  const type = input.type ?? 'Kc'
+  const temperature = input.temperature ?? EQUILIBRIUM_TEMPERATURE
+  const unit = type === 'Kc' ? 'M' : 'atm'
+  const { K } = input
+  if (!(K > 0) || !Number.isFinite(K)) {
+    throw new Error('K must be a positive number')
+  }
+
+  const { species, equation } = parseEquilibrium(input.equation)
+  const inExpression = species.filter(s => s.state !== 's' && s.state !== 'l')
+  const excluded = species.filter(s => !inExpression.includes(s)).map(s => s.formula)
+  if (inExpression.length === 0) {
+    throw new Error('Every species is a pure solid or liquid; K has nothing to constrain')
+  }
+
+  const initialByFormula = new Map<string, number>()
+  for (const [key, value] of Object.entries(input.initial)) {
+    const formula = stripState(key)
+    if (!species.some(s => s.formula === formula)) {
+      throw new Error(`${key} is not in the equation`)
+    }
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Initial amount of ${key} must be zero or positive`)
+    }
+    initialByFormula.set(formula, value)
+  }
+
+  const nu = inExpression.map(s => s.coefficient)
+  const initial = inExpression.map(s => initialByFormula.get(s.formula) ?? 0)
+
+  const steps: string[] = []
+  steps.push(`Balanced equation: ${equation}`)
+  if (excluded.length > 0) {
+    steps.push(`Pure solids and liquids are left out of ${type}: ${excluded.join(', ')}`)
+  }
+  steps.push(`${type} = ${expressionFor(inExpression, type)} = ${formatNumber(K)}`)
+
+  // Kc ↔ Kp only when every species in the expression is a gas
+  const gaseous = inExpression.every(s => s.state === undefined || s.state === 'g')
+  const deltaN = gaseous ? nu.reduce((sum, v) => sum + v, 0) : undefined
+  let Kc: number | undefined
+  let Kp: number | undefined
+  if (deltaN !== undefined) {
+    const converted = convertEquilibriumConstant(K, type, deltaN, temperature)
+    Kc = converted.Kc
+    Kp = converted.Kp
+    steps.push(...converted.steps)
+  } else {
+    steps.push('Kp does not apply: the expression contains dissolved species')
+  }
+
+  const Q = calculateReactionQuotient(initial, nu)
+  if (Number.isNaN(Q)) {
+    throw new Error('A reactant and a product are both absent, so the reaction cannot run either way')
+  }
+  const shift = predictShift(Q, K)
+  steps.push(`Initial Q = ${expressionFor(inExpression, type, initial)} = ${formatNumber(Q)}`)
+  steps.push(
+    shift === 'forward'
+      ? `Q < ${type}: the reaction shifts forward (toward products)`
+      : shift === 'reverse'
+        ? `Q > ${type}: the reaction shifts in reverse (toward reactants)`
+        : `Q = ${type}: the mixture is already at equilibrium`
+  )
+
+  const { extent, amounts, bracket } =
+    shift === 'none' ? { extent: 0, amounts: initial, bracket: null } : solveExtent(initial, nu, Math.log(K))
+  if (bracket) {
+    steps.push(
+      `Solve ln Q(x) = ln ${type} by bisection for x in (${formatBound(bracket[0])}, ${formatBound(bracket[1])}), ` +
+        'where a species would run out'
+    )
+  }
+  steps.push(`x = ${formatNumber(extent)} ${unit}`)
+
+  const ice: IceRow[] = inExpression.map((s, i) => {
+    const change = nu[i] * extent
+    return {
+      formula: s.formula,
+      coefficient: Math.abs(nu[i]),
+      side: nu[i] < 0 ? 'reactant' : 'product',
+      initial: initial[i],
+      change,
+      equilibrium: amounts[i],
+      changeExpression: `${nu[i] < 0 ? '-' : '+'}${Math.abs(nu[i]) === 1 ? '' : Math.abs(nu[i])}x`,
+    }
+  })
+
+  steps.push('Equilibrium amounts:')
+  ice.forEach(row => {
+    steps.push(
+      `  ${bracketFor(row.formula, type)} = ${formatNumber(row.initial)} ${row.changeExpression.replace(/^([+-])/, '$1 ')} = ${formatNumber(row.equilibrium)} ${unit}`
+    )
+  })
+  const check = calculateReactionQuotient(
+    ice.map(row => row.equilibrium),
+    nu
+  )
+  steps.push(`Check: Q at equilibrium = ${formatNumber(check)} ≈ ${type} = ${formatNumber(K)}`)
+
+  return {
+    equation,
+    type,
+    unit,
+    K,
+    ...(Kc !== undefined && { Kc }),
+    ...(Kp !== undefined && { Kp }),
+    ...(deltaN !== undefined && { deltaN }),
+    temperature,
+    Q,
+    shift,
+    extent,
+    ice,
+    excluded,
+    steps,
+  }
+}
+
+/**
+ * Example equilibria
+ */
+export const EXAMPLE_EQUILIBRIA: Array<{
+  name: string
+  equation: string
+  type: EquilibriumConstantType
+  K: number
+  temperature: number
+  initial: Record<string, number>
+  description: string
+}> = [
+  {
+    name: 'Hydrogen iodide',
+    equation: 'H2 + I2 -> HI',
+    type: 'Kc',
+    K: 54.3,
+    temperature: 703,
+    initial: { H2: 0.5, I2: 0.5 },
+    description: 'Classic ICE table at 430 °C',
+  },
+  {
+    name: 'Haber process',
+    equation: 'N2 + H2 -> NH3',
+    type: 'Kc',
+    K: 0.105,
+    temperature: 745,
+    initial: { N2: 1, H2: 3 },
+    description: 'Ammonia synthesis at 472 °C',
+  },
+  {
+    name: 'Dinitrogen tetroxide',
+    equation: 'N2O4 -> NO2',
+    type: 'Kp',
+    K: 0.15,
+    temperature: 298.15,
+    initial: { N2O4: 1 },
+    description: 'Gas-phase dissociation in atm',
+  },
+  {
+    name: 'Limestone decomposition',
+    equation: 'CaCO3(s) -> CaO(s) + CO2(g)',
+    type: 'Kp',
+    K: 1.16,
+    temperature: 1073,
+    initial: {},
+    description: 'Heterogeneous: only CO2 appears in Kp',
+  },
+  {
+    name: 'Acetic acid',
+    equation: 'CH3COOH(aq) -> H+(aq) + CH3COO-(aq)',
+    type: 'Kc',
+    K: 1.8e-5,
+    temperature: 298.15,
+    initial: { CH3COOH: 0.1 },
+    description: 'Weak acid, solved without the "x is small" shortcut',
+  },
+]
+
+function parseEquilibrium(text: string): { species: EquilibriumSpecies[]; equation: string } {
+  const balanced = balanceEquation(text)
+  if (!balanced.isBalanced) {
+    throw new Error(balanced.solutionSpace?.reason ?? 'Could not balance the equation')
+  }
+
+  // balanceEquation drops state symbols; read them from the written terms
+  const written = splitEquation(text)
+  const states = [...written.reactants, ...written.products]
+    .filter(term => term.trim() !== '')
+    .map(term => term.match(/\((aq|s|l|g)\)\s*$/i)?.[1].toLowerCase())
+
+  const n = balanced.reactants.length
+  const species = [...balanced.reactants, ...balanced.products].map((formula, i) => ({
+    formula,
+    coefficient: i < n ? -balanced.coefficients[i] : balanced.coefficients[i],
+    state: states[i],
+  }))
+
+  const side = (list: EquilibriumSpecies[]) =>
+    list
+      .map(s => {
+        const count = Math.abs(s.coefficient)
+        return `${count === 1 ? '' : count}${s.formula}${s.state ? `(${s.state})` : ''}`
+      })
+      .join(' + ')
+
+  return {
+    species,
+    equation: `${side(species.slice(0, n))} ⇌ ${side(species.slice(n))}`,
+  }
+}
+
+function stripState(formula: string): string {
+  return formula.replace(/\s*\((?:aq|s|l|g)\)\s*$/i, '').trim()
+}
+
+function logQuotient(amounts: number[], coefficients: number[]): number {
+  return amounts.reduce((sum, amount, i) => sum + coefficients[i] * Math.log(amount), 0)
+}
+
+/**
+ * Extent of reaction x with Q(x) = K
+ * Brackets: products limit x from below, reactants from above; an open end
+ * (no product or no reactant in K) is widened until it brackets the root.
+ * The amounts are then written from the nearer end, s = distance from it,
+ * and s is bisected on [0, half the bracket]. Amounts are returned from
+ * that end too: near K → ∞ the limiting reactant is ~1e-15, not 1 − x.
+ */
+function solveExtent(
+  initial: number[],
+  nu: number[],
+  lnK: number
+): { extent: number; amounts: number[]; bracket: [number, number] } {
+  const limit = (sign: number) => {
+    const bounds = nu
+      .map((v, i) => (Math.sign(v) === sign ? initial[i] / Math.abs(v) : Infinity))
+      .filter(Number.isFinite)
+    return bounds.length > 0 ? Math.min(...bounds) : Infinity
+  }
+  let lower = -limit(1)
+  let upper = limit(-1)
+
+  const residual = (x: number) => logQuotient(nu.map((v, i) => initial[i] + v * x), nu) - lnK
+  const start = Number.isFinite(lower) ? lower : Number.isFinite(upper) ? upper : 0
+  for (let width = Math.max(1, ...initial); !Number.isFinite(upper); width *= 2) {
+    if (residual(start + width) > 0) upper = start + width
+  }
+  for (let width = Math.max(1, ...initial); !Number.isFinite(lower); width *= 2) {
+    if (residual(start - width) < 0) lower = start - width
+  }
+
+  const middle = (lower + upper) / 2
+  const fromLower = residual(middle) >= 0
+  const origin = fromLower ? lower : upper
+  const direction = fromLower ? 1 : -1
+  const base = nu.map((v, i) => {
+    const amount = initial[i] + v * origin
+    // The species that defines this end is exactly used up, not ±1e-17
+    return Math.abs(amount) <= 1e-12 * Math.max(1, initial[i]) ? 0 : Math.max(0, amount)
+  })
+  const residualFrom = (s: number) =>
+    direction * (logQuotient(base.map((amount, i) => amount + direction * nu[i] * s), nu) - lnK)
+
+  let lo = 0
+  let hi = (upper - lower) / 2
+  for (let i = 0; i < MAX_BISECTIONS; i++) {
+    const mid = (lo + hi) / 2
+    if (mid === lo || mid === hi) break
+    if (residualFrom(mid) < 0) lo = mid
+    else hi = mid
+  }
+  const s = (lo + hi) / 2
+
+  return {
+    extent: origin + direction * s,
+    amounts: base.map((amount, i) => Math.max(0, amount + direction * nu[i] * s)),
+    bracket: [lower, upper],
+  }
+}
+
+function bracketFor(formula: string, type: EquilibriumConstantType): string {
+  return type === 'Kc' ? `[${formula}]` : `P(${formula})`
+}
+
+function expressionFor(list: EquilibriumSpecies[], type: EquilibriumConstantType, amounts?: number[]): string {
+  const term = (s: EquilibriumSpecies, i: number) => {
+    const count = Math.abs(s.coefficient)
+    const base = amounts ? `(${formatNumber(amounts[i])})` : bracketFor(s.formula, type)
+    return count === 1 ? base : `${base}^${count}`
+  }
+  const numerator = list.map((s, i) => (s.coefficient > 0 ? term(s, i) : '')).filter(Boolean)
+  const denominator = list.map((s, i) => (s.coefficient < 0 ? term(s, i) : '')).filter(Boolean)
+
+  const top = numerator.length > 0 ? numerator.join('') : '1'
+  if (denominator.length === 0) return top
+  return denominator.length === 1 ? `${top} / ${denominator[0]}` : `${top} / (${denominator.join('')})`
+}
+
+function formatBound(value: number): string {
+  return Number.isFinite(value) ? formatNumber(value) : value > 0 ? '∞' : '-∞'
+}
+
+function formatNumber(value: number): string {
+  if (!Number.isFinite(value)) return value > 0 ? '∞' : String(value)
+  if (value !== 0 && (Math.abs(value) < 1e-3 || Math.abs(value) >= 1e5)) return value.toExponential(3)
+  return Number(value.toPrecision(4)).toString()
+}
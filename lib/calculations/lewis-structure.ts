@@ -61,6 +61,7 @@ const VALENCE_ELECTRONS: Record<string, number> = {
   Ca: 2,
   Br: 7,
   I: 7,
+  Xe: 8,
 }
 
 /**
@@ -70,6 +71,14 @@ function getValenceElectrons(element: string): number {
   return VALENCE_ELECTRONS[element] || 0
 }
 
+/**
+ * Whether the generator knows the element's valence electron count
+ * (unknown elements would silently count as 0).
+ */
+export function isLewisSupportedElement(element: string): boolean {
+  return Object.prototype.hasOwnProperty.call(VALENCE_ELECTRONS, element)
+}
+
 /**
  * Parse molecular formula to get atom counts
  * Simple parser for basic formulas (e.g., H2O, CO2, NH3, C2H6)
@@ -261,34 +270,44 @@ export function generateLewisStructure(
   const centralBondCount = centralAtom.bonds.length
   const centralElectrons = centralBondCount * 2 + centralAtom.lonePairs * 2
 
-  if (centralElectrons < 8 && centralAtom.element !== 'H' && centralAtom.element !== 'B') {
+  // B and Be are left electron-deficient (BF3, BeCl2) rather than forced into multiple bonds
+  if (
+    centralElectrons < 8 &&
+    centralAtom.element !== 'H' &&
+    centralAtom.element !== 'B' &&
+    centralAtom.element !== 'Be'
+  ) {
     // Need multiple bonds
     const bondsNeeded = Math.floor((8 - centralElectrons) / 2)
 
     steps.push(`Central atom needs ${bondsNeeded} additional bonds`)
 
-    // Convert single bonds to double/triple bonds
+    // Convert single bonds to double/triple bonds. First pass gives each
+    // terminal atom at most a double bond (O=C=O, not O≡C–O); the second pass
+    // allows triple bonds (N≡N, HC≡N, C≡O).
     let bondsAdded = 0
-    for (let i = 1; i < atoms.length && bondsAdded < bondsNeeded; i++) {
-      const atom = atoms[i]
-      if (atom.element === 'H') continue
-
-      // Find bond to central atom
-      const bondIndex = atom.bonds.findIndex((b) => b.toAtomIndex === centralIndex)
-      if (bondIndex !== -1 && atom.lonePairs > 0) {
-        // Convert lone pair to bonding pair
-        atom.bonds[bondIndex].order = (atom.bonds[bondIndex].order + 1) as 1 | 2 | 3
-        atom.lonePairs -= 1
-
-        // Update central atom's bond
-        const centralBondIndex = centralAtom.bonds.findIndex(
-          (b) => b.toAtomIndex === i
-        )
-        if (centralBondIndex !== -1) {
-          centralAtom.bonds[centralBondIndex].order = atom.bonds[bondIndex].order
+    for (const maxOrder of [2, 3]) {
+      for (let i = 1; i < atoms.length && bondsAdded < bondsNeeded; i++) {
+        const atom = atoms[i]
+        if (atom.element === 'H') continue
+
+        // Find bond to central atom
+        const bondIndex = atom.bonds.findIndex((b) => b.toAtomIndex === centralIndex)
+        if (bondIndex !== -1 && atom.lonePairs > 0 && atom.bonds[bondIndex].order < maxOrder) {
+          // Convert lone pair to bonding pair
+          atom.bonds[bondIndex].order = (atom.bonds[bondIndex].order + 1) as 1 | 2 | 3
+          atom.lonePairs -= 1
+
+          // Update central atom's bond
+          const centralBondIndex = centralAtom.bonds.findIndex(
+            (b) => b.toAtomIndex === i
+          )
+          if (centralBondIndex !== -1) {
+            centralAtom.bonds[centralBondIndex].order = atom.bonds[bondIndex].order
+          }
+
+          bondsAdded++
         }
-
-        bondsAdded++
       }
     }
 
@@ -0,0 +1,405 @@
+// VerChem - Net Ionic Equations
+// Complete and net ionic equations from a molecular equation: aqueous strong
+// electrolytes split into ions, spectator ions cancel
+// Created: 2026-10-18
+
+import { getAllCompounds } from '@/lib/data/compounds'
+import type { Compound } from '@/lib/data/compounds/types'
+import { getElementBySymbol } from '@/lib/data/periodic-table'
+import { KSP_VALUES_VALIDATED } from '@/lib/validation/reference-data'
+import { balanceEquation, parseSpecies, splitEquation } from './equation-balancer'
+
+export type IonicState = 's' | 'l' | 'g' | 'aq'
+
+export interface IonicTerm {
+  formula: string
+  coefficient: number
+  state?: IonicState
+}
+
+export interface Ion {
+  formula: string // e.g. "SO42-", parseable by parseSpecies
+  charge: number
+  count: number // per formula unit
+}
+
+/**
+ * A species of the molecular equation and how it enters the ionic equation
+ */
+export interface IonicSpecies extends IonicTerm {
+  dissociates: boolean // Written as separate ions
+  ions: Ion[] // Empty unless the species dissociates
+  reason: string // e.g. "soluble ionic compound (compound data: 359 g/L (25°C))"
+}
+
+export interface NetIonicEquation {
+  molecular: string
+  completeIonic: string
+  netIonic: string // Empty when nothing is left after cancelling
+  reactants: IonicSpecies[]
+  products: IonicSpecies[]
+  spectators: IonicTerm[] // What cancelled, with the amount cancelled
+  net: { reactants: IonicTerm[]; products: IonicTerm[] }
+  noReaction: boolean // Every species cancelled
+}
+
+// Cations with the charges they take; "Hg2" is mercury(I), Hg2²⁺
+const CATIONS: Record<string, number[]> = {
+  H: [1], Li: [1], Na: [1], K: [1], Rb: [1], Cs: [1], NH4: [1], Ag: [1],
+  Cu: [1, 2], Hg2: [2], Hg: [2], Mg: [2], Ca: [2], Sr: [2], Ba: [2], Zn: [2],
+  Cd: [2], Pb: [2], Ni: [2], Co: [2], Mn: [2], Sn: [2], Fe: [2, 3], Cr: [3], Al: [3],
+}
+
+const ANIONS: Record<string, number> = {
+  F: -1, Cl: -1, Br: -1, I: -1, OH: -1, CN: -1, SCN: -1, HS: -1,
+  NO3: -1, NO2: -1, ClO: -1, ClO2: -1, ClO3: -1, ClO4: -1, BrO3: -1, IO3: -1,
+  MnO4: -1, HSO4: -1, HSO3: -1, HCO3: -1, H2PO4: -1, CH3COO: -1, C2H3O2: -1,
+  S: -2, SO4: -2, SO3: -2, S2O3: -2, CO3: -2, HPO4: -2, CrO4: -2, Cr2O7: -2, C2O4: -2,
+  PO4: -3,
+}
+
+// Longest first, so "Hg2" is tried before "Hg" and "SO4" before "S"
+const CATION_FORMULAS = Object.keys(CATIONS).sort((a, b) => b.length - a.length)
+const ANION_FORMULAS = Object.keys(ANIONS).sort((a, b) => b.length - a.length)
+
+// Fully dissociated in water; H2SO4 is written as 2H+ + SO42-
+const STRONG_ACIDS = new Set(['HCl', 'HBr', 'HI', 'HNO3', 'HClO4', 'HClO3', 'H2SO4'])
+const WEAK_BASES = new Set(['NH4OH'])
+
+// ~1 g/100 mL, the usual textbook cut-off between "soluble" and "insoluble"
+const SOLUBLE_G_PER_L = 10
+
+// Solubility rules (Brown, LeMay & Bursten, Table 4.1), for compounds
+// without solubility data. Salts of these cations are always soluble.
+const SOLUBLE_CATIONS = new Set(['H', 'Li', 'Na', 'K', 'Rb', 'Cs', 'NH4'])
+
+// Anions whose salts are soluble, except with the listed cations
+const SOLUBLE_ANIONS: Record<string, string[]> = {
+  NO3: [], CH3COO: [], C2H3O2: [], ClO: [], ClO2: [], ClO3: [], ClO4: [], BrO3: [],
+  MnO4: [], HCO3: [], HSO4: [], HSO3: [], H2PO4: [], Cr2O7: [],
+  NO2: ['Ag'],
+  Cl: ['Ag', 'Pb', 'Hg2', 'Cu'],
+  Br: ['Ag', 'Pb', 'Hg2', 'Cu'],
+  I: ['Ag', 'Pb', 'Hg2', 'Cu'],
+  SCN: ['Ag', 'Pb', 'Hg2', 'Cu'],
+  F: ['Mg', 'Ca', 'Sr', 'Ba', 'Pb'],
+  SO4: ['Ca', 'Sr', 'Ba', 'Pb', 'Ag', 'Hg2'],
+  S2O3: ['Ag', 'Pb', 'Ba'],
+}
+
+// Anions whose salts are insoluble, except with the listed cations (and the
+// always-soluble ones above)
+const INSOLUBLE_ANIONS: Record<string, string[]> = {
+  OH: ['Sr', 'Ba'],
+  S: ['Mg', 'Ca', 'Sr', 'Ba'],
+  HS: ['Mg', 'Ca', 'Sr', 'Ba'],
+  CN: ['Mg', 'Ca', 'Sr', 'Ba'],
+  CO3: [], SO3: [], PO4: [], HPO4: [], CrO4: [], C2O4: [],
+}
+
+interface SaltIons {
+  cation: string
+  cationCount: number
+  cationCharge: number
+  anion: string
+  anionCount: number
+}
+
+interface Solubility {
+  soluble: boolean
+  note: string
+}
+
+/**
+ * Write an ion the way parseSpecies reads it: "Fe" + 3 -> "Fe3+", "SO4" - 2 -> "SO42-"
+ */
+export function ionFormula(base: string, charge: number): string {
+  const magnitude = Math.abs(charge)
+  return `${base}${magnitude > 1 ? magnitude : ''}${charge > 0 ? '+' : '-'}`
+}
+
+/**
+ * Read one ion (bare or in parentheses) and its count off the front of a formula
+ */
+function takeIon(text: string, ion: string): { count: number; rest: string } | null {
+  let rest: string
+  if (text.startsWith(`(${ion})`)) {
+    rest = text.slice(ion.length + 2)
+  } else if (text.startsWith(ion) && !/^[a-z]/.test(text.slice(ion.length))) {
+    rest = text.slice(ion.length)
+  } else {
+    return null
+  }
+
+  const digits = /^\d*/.exec(rest)![0]
+  return { count: digits ? parseInt(digits) : 1, rest: rest.slice(digits.length) }
+}
+
+function readPair(formula: string, first: string, second: string): [number, number] | null {
+  const a = takeIon(formula, first)
+  if (!a) return null
+  const b = takeIon(a.rest, second)
+  return b && b.rest === '' ? [a.count, b.count] : null
+}
+
+/**
+ * Split an ionic compound into cation and anion
+ * "Fe2(SO4)3" -> 2 Fe3+ + 3 SO42-; "CH3COONa" (anion first) also works
+ */
+function splitSalt(formula: string): SaltIons | null {
+  for (const cation of CATION_FORMULAS) {
+    for (const anion of ANION_FORMULAS) {
+      const counts = readPair(formula, cation, anion) ?? readPair(formula, anion, cation)?.reverse()
+      if (!counts) continue
+
+      const [cationCount, anionCount] = counts
+      const cationCharge = (anionCount * -ANIONS[anion]) / cationCount
+      if (CATIONS[cation].includes(cationCharge)) {
+        return { cation, cationCount, cationCharge, anion, anionCount }
+      }
+    }
+  }
+  return null
+}
+
+let compoundsByFormula: Map<string, Compound[]> | null = null
+
+function compoundsFor(formula: string): Compound[] {
+  if (!compoundsByFormula) {
+    compoundsByFormula = new Map()
+    for (const compound of getAllCompounds()) {
+      const list = compoundsByFormula.get(compound.formula) ?? []
+      list.push(compound)
+      compoundsByFormula.set(compound.formula, list)
+    }
+  }
+  return compoundsByFormula.get(formula) ?? []
+}
+
+/**
+ * Water solubility from the compound library, when it has any
+ * Accepts "359 g/L (25°C)", "83 g/100mL (20°C)", "miscible", "insoluble"
+ */
+function dataSolubility(formula: string): Solubility | null {
+  for (const compound of compoundsFor(formula)) {
+    const raw = typeof compound.solubility === 'string' ? compound.solubility : compound.solubility?.water
+    if (!raw) continue
+
+    const text = raw.toLowerCase()
+    const note = `compound data: ${raw}`
+    if (/insoluble|slightly|sparingly|poorly/.test(text)) return { soluble: false, note }
+    if (/miscible|very soluble|freely soluble/.test(text)) return { soluble: true, note }
+
+    const amount = /([\d.]+)\s*(mg|g)\s*\/\s*(100\s*ml|l)\b/.exec(text)
+    if (amount) {
+      const grams = parseFloat(amount[1]) * (amount[2] === 'mg' ? 1e-3 : 1)
+      const perLitre = amount[3] === 'l' ? grams : grams * 10
+      return { soluble: perLitre >= SOLUBLE_G_PER_L, note }
+    }
+    if (/soluble/.test(text)) return { soluble: true, note }
+  }
+  return null
+}
+
+function ruleSolubility(salt: SaltIons): Solubility {
+  const cation = ionFormula(salt.cation, salt.cationCharge)
+  const anion = ionFormula(salt.anion, ANIONS[salt.anion])
+
+  if (SOLUBLE_CATIONS.has(salt.cation)) {
+    return { soluble: true, note: `solubility rules: ${cation} compounds are soluble` }
+  }
+  const solubleExcept = SOLUBLE_ANIONS[salt.anion]
+  if (solubleExcept) {
+    return solubleExcept.includes(salt.cation)
+      ? { soluble: false, note: `solubility rules: ${anion} is insoluble with ${cation}` }
+      : { soluble: true, note: `solubility rules: ${anion} compounds are soluble` }
+  }
+  const insolubleExcept = INSOLUBLE_ANIONS[salt.anion]
+  if (insolubleExcept) {
+    return insolubleExcept.includes(salt.cation)
+      ? { soluble: true, note: `solubility rules: ${anion} is soluble with ${cation}` }
+      : { soluble: false, note: `solubility rules: ${anion} compounds are insoluble` }
+  }
+  return { soluble: false, note: `no solubility data or rule for ${cation} with ${anion}` }
+}
+
+/**
+ * Whether an ionic compound dissolves: compound data, then Ksp, then the rules
+ */
+function saltSolubility(formula: string, salt: SaltIons): Solubility {
+  const data = dataSolubility(formula)
+  if (data) return data
+
+  const ksp = KSP_VALUES_VALIDATED.find(entry => entry.compound === formula)
+  if (ksp) return { soluble: false, note: `Ksp = ${ksp.Ksp}` }
+
+  return ruleSolubility(salt)
+}
+
+const STANDARD_STATES: Record<string, IonicState> = { solid: 's', liquid: 'l', gas: 'g' }
+
+/**
+ * State of a species that never dissociates: elements from the periodic
+ * table, compounds from the library
+ */
+function molecularState(formula: string): IonicState | undefined {
+  const symbols = Object.keys(parseSpecies(formula).elements)
+  if (symbols.length === 1) {
+    return STANDARD_STATES[getElementBySymbol(symbols[0])?.standardState ?? '']
+  }
+
+  const compound = compoundsFor(formula)[0]
+  if (!compound) return undefined
+  if (compound.physicalState === 'gas') return 'g'
+  if (dataSolubility(formula)?.soluble) return 'aq'
+  return STANDARD_STATES[compound.physicalState]
+}
+
+function classify(formula: string, coefficient: number, written: IonicState | undefined): IonicSpecies {
+  const keep = (state: IonicState | undefined, reason: string): IonicSpecies => ({
+    formula,
+    coefficient,
+    ...(state && { state }),
+    dissociates: false,
+    ions: [],
+    reason,
+  })
+
+  if (parseSpecies(formula).charge !== 0) return keep(written ?? 'aq', 'already an ion')
+  if (formula === 'H2O') return keep(written ?? 'l', 'water (weak electrolyte)')
+
+  const salt = splitSalt(formula)
+  if (!salt) {
+    const symbols = Object.keys(parseSpecies(formula).elements)
+    return keep(written ?? molecularState(formula), symbols.length === 1 ? 'element' : 'molecular compound')
+  }
+
+  const solubility = saltSolubility(formula, salt)
+  const state = written ?? (solubility.soluble ? 'aq' : 's')
+  if (state !== 'aq') {
+    return keep(state, written ? `written as (${state})` : `insoluble (${solubility.note})`)
+  }
+  if (salt.cation === 'H' && !STRONG_ACIDS.has(formula)) return keep(state, 'weak acid')
+  if (WEAK_BASES.has(formula)) return keep(state, 'weak base')
+
+  return {
+    formula,
+    coefficient,
+    state,
+    dissociates: true,
+    ions: [
+      { formula: ionFormula(salt.cation, salt.cationCharge), charge: salt.cationCharge, count: salt.cationCount },
+      { formula: ionFormula(salt.anion, ANIONS[salt.anion]), charge: ANIONS[salt.anion], count: salt.anionCount },
+    ],
+    reason:
+      salt.cation === 'H'
+        ? 'strong acid'
+        : solubility.soluble
+          ? `soluble ionic compound (${solubility.note})`
+          : 'written as (aq)',
+  }
+}
+
+/**
+ * Terms of the complete ionic equation for one side, like terms merged
+ */
+function ionicTerms(species: IonicSpecies[]): IonicTerm[] {
+  const terms = new Map<string, IonicTerm>()
+  const add = (formula: string, coefficient: number, state: IonicState | undefined) => {
+    const key = `${formula}(${state ?? ''})`
+    const existing = terms.get(key)
+    if (existing) existing.coefficient += coefficient
+    else terms.set(key, { formula, coefficient, ...(state && { state }) })
+  }
+
+  for (const s of species) {
+    if (s.dissociates) s.ions.forEach(ion => add(ion.formula, s.coefficient * ion.count, 'aq'))
+    else add(s.formula, s.coefficient, s.state)
+  }
+  return [...terms.values()]
+}
+
+function sameTerm(a: IonicTerm, b: IonicTerm): boolean {
+  return a.formula === b.formula && a.state === b.state
+}
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? Math.abs(a) : gcd(b, a % b)
+}
+
+function formatTerms(terms: IonicTerm[]): string {
+  return terms
+    .map(t => `${t.coefficient > 1 ? t.coefficient : ''}${t.formula}${t.state ? `(${t.state})` : ''}`)
+    .join(' + ')
+}
+
+function formatEquation(reactants: IonicTerm[], products: IonicTerm[]): string {
+  return `${formatTerms(reactants)} → ${formatTerms(products)}`
+}
+
+/**
+ * Balance a molecular equation and derive its complete and net ionic equations
+ * "AgNO3 + NaCl -> AgCl + NaNO3" -> net "Ag+(aq) + Cl-(aq) → AgCl(s)",
+ * spectators Na+ and NO3-
+ *
+ * States written in the equation win; otherwise they come from the compound
+ * library's solubility data, Ksp values or the solubility rules. Soluble salts,
+ * strong acids and soluble hydroxides dissociate; weak acids, water, gases,
+ * solids and molecular compounds stay whole.
+ */
+export function generateNetIonicEquation(equation: string): NetIonicEquation {
+  const balanced = balanceEquation(equation)
+  if (!balanced.isBalanced) {
+    throw new Error('Could not balance the equation. Check the formulas and try again.')
+  }
+
+  const raw = splitEquation(equation)
+  const writtenStates = (terms: string[]) =>
+    terms
+      .filter(term => term.replace(/\((?:aq|s|l|g)\)/gi, '').trim() !== '')
+      .map(term => /\((aq|s|l|g)\)\s*$/i.exec(term)?.[1].toLowerCase() as IonicState | undefined)
+  const reactantStates = writtenStates(raw.reactants)
+  const productStates = writtenStates(raw.products)
+
+  const offset = balanced.reactants.length
+  const reactants = balanced.reactants.map((formula, i) =>
+    classify(formula, balanced.coefficients[i], reactantStates[i])
+  )
+  const products = balanced.products.map((formula, i) =>
+    classify(formula, balanced.coefficients[offset + i], productStates[i])
+  )
+
+  const left = ionicTerms(reactants)
+  const right = ionicTerms(products)
+  const completeIonic = formatEquation(left, right)
+
+  // Cancel what appears unchanged on both sides
+  const spectators: IonicTerm[] = []
+  for (const term of left) {
+    const match = right.find(other => sameTerm(term, other))
+    if (!match) continue
+    const cancelled = Math.min(term.coefficient, match.coefficient)
+    spectators.push({ ...term, coefficient: cancelled })
+    term.coefficient -= cancelled
+    match.coefficient -= cancelled
+  }
+
+  const remaining = [...left, ...right].filter(term => term.coefficient > 0)
+  const divisor = remaining.reduce((acc, term) => gcd(acc, term.coefficient), 0) || 1
+  const net = {
+    reactants: left.filter(t => t.coefficient > 0).map(t => ({ ...t, coefficient: t.coefficient / divisor })),
+    products: right.filter(t => t.coefficient > 0).map(t => ({ ...t, coefficient: t.coefficient / divisor })),
+  }
+  const noReaction = net.reactants.length === 0 && net.products.length === 0
+
+  return {
+    molecular: formatEquation(reactants, products),
+    completeIonic,
+    netIonic: noReaction ? '' : formatEquation(net.reactants, net.products),
+    reactants,
+    products,
+    spectators,
+    net,
+    noReaction,
+  }
+}
@@ -0,0 +1,573 @@
+// VerChem - Acid-Base Speciation Calculator
+// Alpha fractions of polyprotic acids, distribution diagrams, isoelectric
+// points and exact pH of mixtures from the charge balance
+// Created: 2026-10-18
+
+import { KW_25C } from '@/lib/calculations/solutions'
+import { WEAK_ACIDS } from '@/lib/calculations/titration'
+
+/**
+ * Acid-Base System
+ * A polyprotic acid and all of its conjugate forms, from fully protonated
+ * (species[0]) to fully deprotonated (species[n])
+ */
+export interface AcidBaseSystem {
+  id: string
+  name: string
+  formula: string // Fully protonated form
+  KaValues: number[] // Stepwise Ka1, Ka2, ...
+  charge: number // Charge of the fully protonated form (H3PO4 0, H2Gly+ +1)
+  species: string[]
+  category: 'inorganic' | 'organic' | 'amino-acid'
+}
+
+/**
+ * Fraction of one species at a given pH
+ */
+export interface SpeciesFraction {
+  species: string
+  protonsLost: number // 0 for the fully protonated form
+  charge: number
+  alpha: number // 0-1
+  concentration?: number // M, when a total concentration is given
+}
+
+/**
+ * Speciation Result
+ */
+export interface SpeciationResult {
+  system: string
+  pH: number
+  fractions: SpeciesFraction[]
+  dominant: string
+  averageCharge: number
+  boundProtons: number // Mean H+ still bound per molecule
+}
+
+/**
+ * Distribution Diagram
+ * alphas[i] in each point follows the order of species
+ */
+export interface DistributionDiagram {
+  system: string
+  species: string[]
+  pKaValues: number[]
+  points: Array<{ pH: number; alphas: number[] }>
+}
+
+/**
+ * Mixture Component
+ * form = protons already removed from the species added, e.g. 1 for NaH2PO4,
+ * 2 for Na2HPO4; the counter-ions (Na+ or Cl-) that balance its charge are
+ * added automatically
+ */
+export interface MixtureComponent {
+  system: AcidBaseSystem | string
+  concentration: number // M, all forms together
+  form?: number // Default 0 (fully protonated)
+}
+
+export interface MixtureOptions {
+  strongAcid?: number // M of H+ from HCl (with Cl-)
+  strongBase?: number // M of OH- from NaOH (with Na+)
+  Kw?: number
+}
+
+/**
+ * Mixture pH Result
+ */
+export interface MixturePHResult {
+  pH: number
+  pOH: number
+  H_concentration: number
+  OH_concentration: number
+  components: Array<{
+    system: string
+    concentration: number
+    form: string
+    fractions: SpeciesFraction[]
+  }>
+  sodium: number // M of Na+ counter-ions (strong base and salts)
+  chloride: number // M of Cl- counter-ions (strong acid and salts)
+  steps: string[]
+}
+
+/**
+ * Constants
+ */
+const PH_BISECTIONS = 200
+const DEFAULT_DIAGRAM_POINTS = 281 // pH 0-14 in steps of 0.05
+
+/**
+ * Common acid-base systems
+ * Inorganic and citric Ka values are the ones the titration simulator uses;
+ * amino acid pKa values from Harris, Quantitative Chemical Analysis, Table 10-1
+ */
+export const ACID_BASE_SYSTEMS: AcidBaseSystem[] = [
+  {
+    id: 'phosphoric',
+    name: 'Phosphoric acid',
+    formula: 'H3PO4',
+    KaValues: titrationKaValues('Phosphoric acid'),
+    charge: 0,
+    species: ['H3PO4', 'H2PO4-', 'HPO42-', 'PO43-'],
+    category: 'inorganic',
+  },
+  {
+    id: 'carbonic',
+    name: 'Carbonic acid',
+    formula: 'H2CO3',
+    KaValues: titrationKaValues('Carbonic acid'),
+    charge: 0,
+    species: ['H2CO3', 'HCO3-', 'CO32-'],
+    category: 'inorganic',
+  },
+  {
+    id: 'citric',
+    name: 'Citric acid',
+    formula: 'H3C6H5O7',
+    KaValues: titrationKaValues('Citric acid'),
+    charge: 0,
+    species: ['H3Cit', 'H2Cit-', 'HCit2-', 'Cit3-'],
+    category: 'organic',
+  },
+  {
+    id: 'oxalic',
+    name: 'Oxalic acid',
+    formula: 'H2C2O4',
+    KaValues: fromPKa(1.25, 4.27),
+    charge: 0,
+    species: ['H2C2O4', 'HC2O4-', 'C2O42-'],
+    category: 'organic',
+  },
+  {
+    id: 'acetic',
+    name: 'Acetic acid',
+    formula: 'CH3COOH',
+    KaValues: [1.74e-5],
+    charge: 0,
+    species: ['CH3COOH', 'CH3COO-'],
+    category: 'organic',
+  },
+  {
+    id: 'ammonium',
+    name: 'Ammonium',
+    formula: 'NH4+',
+    KaValues: [5.6e-10],
+    charge: 1,
+    species: ['NH4+', 'NH3'],
+    category: 'inorganic',
+  },
+  {
+    id: 'glycine',
+    name: 'Glycine',
+    formula: 'H2Gly+',
+    KaValues: fromPKa(2.34, 9.6),
+    charge: 1,
+    species: ['H2Gly+', 'HGly', 'Gly-'],
+    category: 'amino-acid',
+  },
+  {
+    id: 'alanine',
+    name: 'Alanine',
+    formula: 'H2Ala+',
+    KaValues: fromPKa(2.34, 9.69),
+    charge: 1,
+    species: ['H2Ala+', 'HAla', 'Ala-'],
+    category: 'amino-acid',
+  },
+  {
+    id: 'aspartic',
+    name: 'Aspartic acid',
+    formula: 'H3Asp+',
+    KaValues: fromPKa(1.88, 3.65, 9.6),
+    charge: 1,
+    species: ['H3Asp+', 'H2Asp', 'HAsp-', 'Asp2-'],
+    category: 'amino-acid',
+  },
+  {
+    id: 'glutamic',
+    name: 'Glutamic acid',
+    formula: 'H3Glu+',
+    KaValues: fromPKa(2.19, 4.25, 9.67),
+    charge: 1,
+    species: ['H3Glu+', 'H2Glu', 'HGlu-', 'Glu2-'],
+    category: 'amino-acid',
+  },
+  {
+    id: 'cysteine',
+    name: 'Cysteine',
+    formula: 'H3Cys+',
+    KaValues: fromPKa(1.96, 8.18, 10.28),
+    charge: 1,
+    species: ['H3Cys+', 'H2Cys', 'HCys-', 'Cys2-'],
+    category: 'amino-acid',
+  },
+  {
+    id: 'histidine',
+    name: 'Histidine',
+    formula: 'H3His2+',
+    KaValues: fromPKa(1.82, 6.0, 9.17),
+    charge: 2,
+    species: ['H3His2+', 'H2His+', 'HHis', 'His-'],
+    category: 'amino-acid',
+  },
+  {
+    id: 'lysine',
+    name: 'Lysine',
+    formula: 'H3Lys2+',
+    KaValues: fromPKa(2.18, 8.95, 10.53),
+    charge: 2,
+    species: ['H3Lys2+', 'H2Lys+', 'HLys', 'Lys-'],
+    category: 'amino-acid',
+  },
+]
+
+/**
+ * Find a system by id, name or formula of any of its species (case-insensitive)
+ */
+export function getAcidBaseSystem(query: string): AcidBaseSystem | undefined {
+  const key = query.trim().toLowerCase()
+  return ACID_BASE_SYSTEMS.find(
+    system =>
+      system.id === key ||
+      system.name.toLowerCase() === key ||
+      system.formula.toLowerCase() === key ||
+      system.species.some(species => species.toLowerCase() === key)
+  )
+}
+
+/**
+ * Build a system from Ka values alone
+ * Species are labelled H3A, H2A-, HA2-, A3- (shifted by the starting charge)
+ */
+export function createAcidBaseSystem(
+  KaValues: number[],
+  options: { charge?: number; name?: string } = {}
+): AcidBaseSystem {
+  validateKaValues(KaValues)
+  const charge = options.charge ?? 0
+  if (!Number.isInteger(charge)) {
+    throw new Error('Charge must be an integer')
+  }
+  const n = KaValues.length
+  const species = Array.from({ length: n + 1 }, (_, i) => {
+    const protons = n - i
+    const hydrogen = protons === 0 ? '' : protons === 1 ? 'H' : `H${protons}`
+    return `${hydrogen}A${formatCharge(charge - i)}`
+  })
+
+  return {
+    id: 'custom',
+    name: options.name ?? `${n === 1 ? 'Monoprotic' : n === 2 ? 'Diprotic' : n === 3 ? 'Triprotic' : `${n}-protic`} acid`,
+    formula: species[0],
+    KaValues,
+    charge,
+    species,
+    category: 'organic',
+  }
+}
+
+/**
+ * Alpha fractions at a given pH
+ * α_i = [H+]^(n−i)·Ka1···Ka_i / Σ_j [H+]^(n−j)·Ka1···Ka_j
+ * Summed in log space so extreme pH values do not underflow to 0/0.
+ */
+export function calculateAlphaFractions(pH: number, KaValues: number[]): number[] {
+  if (!Number.isFinite(pH)) {
+    throw new Error('pH must be a finite number')
+  }
+  validateKaValues(KaValues)
+
+  const n = KaValues.length
+  const logTerms: number[] = []
+  let logKaProduct = 0
+  for (let i = 0; i <= n; i++) {
+    if (i > 0) logKaProduct += Math.log10(KaValues[i - 1])
+    logTerms.push(-(n - i) * pH + logKaProduct)
+  }
+
+  const largest = Math.max(...logTerms)
+  const terms = logTerms.map(logTerm => Math.pow(10, logTerm - largest))
+  const sum = terms.reduce((total, term) => total + term, 0)
+  return terms.map(term => term / sum)
+}
+
+/**
+ * Speciation of one system at a given pH
+ */
+export function calculateSpeciation(
+  system: AcidBaseSystem | string,
+  pH: number,
+  totalConcentration?: number
+): SpeciationResult {
+  const resolved = resolveSystem(system)
+  if (totalConcentration !== undefined && (!Number.isFinite(totalConcentration) || totalConcentration < 0)) {
+    throw new Error('Total concentration must be zero or positive')
+  }
+
+  const fractions = speciesFractions(resolved, pH, totalConcentration)
+  const dominant = fractions.reduce((best, fraction) => (fraction.alpha > best.alpha ? fraction : best))
+  const averageCharge = fractions.reduce((sum, fraction) => sum + fraction.alpha * fraction.charge, 0)
+  const boundProtons = fractions.reduce(
+    (sum, fraction) => sum + fraction.alpha * (resolved.KaValues.length - fraction.protonsLost),
+    0
+  )
+
+  return {
+    system: resolved.name,
+    pH,
+    fractions,
+    dominant: dominant.species,
+    averageCharge,
+    boundProtons,
+  }
+}
+
+/**
+ * Distribution diagram: alpha fractions across a pH range
+ */
+export function generateDistributionDiagram(
+  system: AcidBaseSystem | string,
+  options: { pHMin?: number; pHMax?: number; points?: number } = {}
+): DistributionDiagram {
+  const resolved = resolveSystem(system)
+  const pHMin = options.pHMin ?? 0
+  const pHMax = options.pHMax ?? 14
+  const count = options.points ?? DEFAULT_DIAGRAM_POINTS
+  if (!(pHMax > pHMin)) {
+    throw new Error('pH range must run from low to high')
+  }
+  if (!Number.isInteger(count) || count < 2) {
+    throw new Error('A diagram needs at least 2 points')
+  }
+
+  const points = Array.from({ length: count }, (_, i) => {
+    const pH = pHMin + ((pHMax - pHMin) * i) / (count - 1)
+    return { pH, alphas: calculateAlphaFractions(pH, resolved.KaValues) }
+  })
+
+  return {
+    system: resolved.name,
+    species: resolved.species,
+    pKaValues: resolved.KaValues.map(Ka => -Math.log10(Ka)),
+    points,
+  }
+}
+
+/**
+ * Isoelectric point: the pH where the average charge is zero
+ * Exists only when the system has a neutral (or zwitterionic) form
+ */
+export function calculateIsoelectricPoint(system: AcidBaseSystem | string): number {
+  const resolved = resolveSystem(system)
+  const lastCharge = resolved.charge - resolved.KaValues.length
+  if (resolved.charge <= 0 || lastCharge >= 0) {
+    throw new Error(`${resolved.name} has no isoelectric point: none of its forms is neutral between two charged ones`)
+  }
+
+  // Average charge falls monotonically with pH
+  const averageCharge = (pH: number) =>
+    speciesFractions(resolved, pH).reduce((sum, fraction) => sum + fraction.alpha * fraction.charge, 0)
+  return bisectPH(averageCharge, -5, 20)
+}
+
+/**
+ * Exact pH of a mixture of acids, bases and their salts
+ * Solves the charge balance
+ *   [H+] + [Na+] + Σ C·z̄(pH) = [OH-] + [Cl-]
+ * for pH by bisection. The left side minus the right falls monotonically
+ * with pH, so the root is unique; activities are taken as concentrations.
+ */
+export function solveMixturePH(components: MixtureComponent[], options: MixtureOptions = {}): MixturePHResult {
+  const Kw = options.Kw ?? KW_25C
+  const strongAcid = options.strongAcid ?? 0
+  const strongBase = options.strongBase ?? 0
+  if (!(Kw > 0)) {
+    throw new Error('Kw must be positive')
+  }
+  if (!(strongAcid >= 0) || !(strongBase >= 0)) {
+    throw new Error('Strong acid and strong base concentrations must be zero or positive')
+  }
+  if (components.length === 0 && strongAcid === 0 && strongBase === 0) {
+    throw new Error('Add at least one acid, base or salt')
+  }
+
+  const steps: string[] = []
+  steps.push('=== pH from the Charge Balance ===')
+
+  let sodium = strongBase
+  let chloride = strongAcid
+  const resolved = components.map(component => {
+    const system = resolveSystem(component.system)
+    const form = component.form ?? 0
+    if (!Number.isFinite(component.concentration) || component.concentration < 0) {
+      throw new Error(`Concentration of ${system.name} must be zero or positive`)
+    }
+    if (!Number.isInteger(form) || form < 0 || form > system.KaValues.length) {
+      throw new Error(`${system.name} has no form with ${form} protons removed`)
+    }
+
+    // Counter-ions keep the added salt neutral: Na+ for anions, Cl- for cations
+    const addedCharge = system.charge - form
+    if (addedCharge < 0) sodium += -addedCharge * component.concentration
+    if (addedCharge > 0) chloride += addedCharge * component.concentration
+
+    const counter = addedCharge < 0 ? ` (with ${-addedCharge} Na+)` : addedCharge > 0 ? ` (with ${addedCharge} Cl-)` : ''
+    steps.push(`  ${formatNumber(component.concentration)} M ${system.species[form]}${counter}`)
+    return { system, form, concentration: component.concentration, addedCharge }
+  })
+  if (strongAcid > 0) steps.push(`  ${formatNumber(strongAcid)} M HCl`)
+  if (strongBase > 0) steps.push(`  ${formatNumber(strongBase)} M NaOH`)
+
+  const balance = (pH: number) => {
+    const H = Math.pow(10, -pH)
+    let charge = H - Kw / H + sodium - chloride
+    for (const { system, concentration } of resolved) {
+      const alphas = calculateAlphaFractions(pH, system.KaValues)
+      charge += concentration * alphas.reduce((sum, alpha, i) => sum + alpha * (system.charge - i), 0)
+    }
+    return charge
+  }
+
+  const terms = resolved.map(({ system }) => `C·z̄(${system.name})`)
+  steps.push(`Charge balance: [H+] + [Na+]${terms.map(term => ` + ${term}`).join('')} = [OH-] + [Cl-]`)
+  steps.push(`  [Na+] = ${formatNumber(sodium)} M, [Cl-] = ${formatNumber(chloride)} M, Kw = ${formatNumber(Kw)}`)
+  steps.push('  z̄ = Σ α_i·z_i is the average charge of each acid at that pH')
+
+  // Bracket wide enough that [H+] or [OH-] alone outweighs every other charge
+  const totalCharge =
+    sodium + chloride + resolved.reduce((sum, { system, concentration }) => sum + concentration * (Math.abs(system.charge) + system.KaValues.length), 0)
+  const pKw = -Math.log10(Kw)
+  const low = Math.min(0, -Math.log10(totalCharge + 1)) - 1
+  const high = pKw - low
+  const pH = bisectPH(balance, low, high)
+  steps.push(`Solve by bisection on pH in (${formatNumber(low)}, ${formatNumber(high)}): pH = ${pH.toFixed(3)}`)
+
+  const H = Math.pow(10, -pH)
+  const OH = Kw / H
+  steps.push(`[H+] = ${formatNumber(H)} M, [OH-] = ${formatNumber(OH)} M`)
+
+  const componentResults = resolved.map(({ system, form, concentration }) => {
+    const fractions = speciesFractions(system, pH, concentration)
+    steps.push(
+      `${system.name}: ` + fractions.map(fraction => `[${fraction.species}] = ${formatNumber(fraction.concentration!)} M`).join(', ')
+    )
+    return { system: system.name, concentration, form: system.species[form], fractions }
+  })
+  steps.push(`Check: charge balance residual = ${formatNumber(balance(pH))} M`)
+
+  return {
+    pH,
+    pOH: pKw - pH,
+    H_concentration: H,
+    OH_concentration: OH,
+    components: componentResults,
+    sodium,
+    chloride,
+    steps,
+  }
+}
+
+/**
+ * Example mixtures
+ */
+export const EXAMPLE_MIXTURES: Array<{
+  name: string
+  components: MixtureComponent[]
+  options?: MixtureOptions
+  description: string
+}> = [
+  {
+    name: 'Phosphate buffer',
+    components: [
+      { system: 'phosphoric', concentration: 0.05, form: 1 },
+      { system: 'phosphoric', concentration: 0.05, form: 2 },
+    ],
+    description: 'NaH2PO4 + Na2HPO4, pH near pKa2',
+  },
+  {
+    name: 'Sodium bicarbonate',
+    components: [{ system: 'carbonic', concentration: 0.1, form: 1 }],
+    description: 'Amphiprotic salt: pH ≈ (pKa1 + pKa2)/2',
+  },
+  {
+    name: 'Citric acid',
+    components: [{ system: 'citric', concentration: 0.1 }],
+    description: 'Three overlapping dissociations',
+  },
+  {
+    name: 'Glycine + HCl',
+    components: [{ system: 'glycine', concentration: 0.1, form: 1 }],
+    options: { strongAcid: 0.05 },
+    description: 'Half-titrated carboxyl group: pH ≈ pKa1',
+  },
+]
+
+function titrationKaValues(name: string): number[] {
+  return WEAK_ACIDS.find(acid => acid.name === name)?.KaValues ?? []
+}
+
+function fromPKa(...pKaValues: number[]): number[] {
+  return pKaValues.map(pKa => Math.pow(10, -pKa))
+}
+
+function validateKaValues(KaValues: number[]): void {
+  if (KaValues.length === 0) {
+    throw new Error('At least one Ka value is required')
+  }
+  if (KaValues.some(Ka => !Number.isFinite(Ka) || Ka <= 0)) {
+    throw new Error('Ka values must be positive numbers')
+  }
+}
+
+function resolveSystem(system: AcidBaseSystem | string): AcidBaseSystem {
+  if (typeof system !== 'string') {
+    validateKaValues(system.KaValues)
+    if (system.species.length !== system.KaValues.length + 1) {
+      throw new Error(`${system.name} needs one more species than Ka values`)
+    }
+    return system
+  }
+  const found = getAcidBaseSystem(system)
+  if (!found) {
+    throw new Error(`Unknown acid-base system: ${system}`)
+  }
+  return found
+}
+
+function speciesFractions(system: AcidBaseSystem, pH: number, totalConcentration?: number): SpeciesFraction[] {
+  return calculateAlphaFractions(pH, system.KaValues).map((alpha, i) => ({
+    species: system.species[i],
+    protonsLost: i,
+    charge: system.charge - i,
+    alpha,
+    ...(totalConcentration !== undefined && { concentration: alpha * totalConcentration }),
+  }))
+}
+
+/**
+ * Root of a function that falls monotonically with pH
+ */
+function bisectPH(f: (pH: number) => number, low: number, high: number): number {
+  let lo = low
+  let hi = high
+  for (let i = 0; i < PH_BISECTIONS; i++) {
+    const mid = (lo + hi) / 2
+    if (mid === lo || mid === hi) break
+    if (f(mid) > 0) lo = mid
+    else hi = mid
+  }
+  return (lo + hi) / 2
+}
+
+function formatCharge(charge: number): string {
+  if (charge === 0) return ''
+  const magnitude = Math.abs(charge) === 1 ? '' : Math.abs(charge)
+  return `${magnitude}${charge > 0 ? '+' : '-'}`
+}
+
+function formatNumber(value: number): string {
+  if (value !== 0 && (Math.abs(value) < 1e-3 || Math.abs(value) >= 1e5)) return value.toExponential(3)
+  return Number(value.toPrecision(4)).toString()
+}
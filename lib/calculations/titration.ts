@@ -10,6 +10,9 @@ export type AcidType = 'strong' | 'weak'
 
 const KW_25C = WATER_ION_PRODUCT[25] ?? 1.0e-14
 const DEFAULT_WEAK_ACID_KA = 1.74e-5
+// Relative tolerance for "exactly at an equivalence point": absorbs floating-
+// point noise in volume × concentration products (e.g. 0.1 mL steps).
+const EQUIVALENCE_REL_TOL = 1e-9
 
 /**
  * Acid Data
@@ -256,14 +259,15 @@ function calculatePolyproticWeakAcidPH(
     return 7
   }
 
-  let stage = Math.floor(baseEquivalents / stageSize)
+  let stage = Math.floor(baseEquivalents / stageSize + EQUIVALENCE_REL_TOL)
   if (stage < 0) stage = 0
   if (stage > totalStages) stage = totalStages
-  const fractional = Math.max(0, baseEquivalents - stage * stageSize)
+  let fractional = Math.max(0, baseEquivalents - stage * stageSize)
+  if (fractional <= stageSize * EQUIVALENCE_REL_TOL) fractional = 0
 
   if (stage >= totalStages) {
     const excessEquiv = baseEquivalents - maxEquivalents
-    if (excessEquiv <= 1e-12) {
+    if (excessEquiv <= Math.max(1e-12, maxEquivalents * EQUIVALENCE_REL_TOL)) {
       // Exactly at final equivalence - treat as weak base (conjugate of last dissociation)
       const concentration = acidMoles / Math.max(totalVolume, 1e-9)
       const lastKa = KaSeries[KaSeries.length - 1]
@@ -318,11 +322,13 @@ function calculateStrongAcidStrongBasePH(
   const baseEquivalents = (baseConcentration * baseHydroxideCount * baseVolumeAdded) / 1000
   const totalVolume = (acid.volume + baseVolumeAdded) / 1000
 
-  if (baseEquivalents < acidEquivalents) {
+  if (baseEquivalents < acidEquivalents * (1 - EQUIVALENCE_REL_TOL)) {
     const excessAcid = acidEquivalents - baseEquivalents
     const H_concentration = excessAcid / Math.max(totalVolume, 1e-9)
     return -Math.log10(Math.max(H_concentration, 1e-30))
-  } else if (Math.abs(baseEquivalents - acidEquivalents) <= 1e-12) {
+  } else if (
+    Math.abs(baseEquivalents - acidEquivalents) <= Math.max(1e-12, acidEquivalents * EQUIVALENCE_REL_TOL)
+  ) {
     return 7.0
   } else {
     const excessBase = baseEquivalents - acidEquivalents
@@ -455,9 +461,30 @@ export function simulateTitration(
     percentNeutralized: 0,
   })
 
-  // Titration points
+  // Titration points: the stepSize grid plus the exact equivalence (and, for
+  // weak acids, every half-equivalence and intermediate equivalence) volumes,
+  // so the landmarks reported below are exact rather than the nearest step.
   const maxVolume = equivalenceVolume * 2 // Go beyond equivalence point
-  for (let volume = stepSize; volume <= maxVolume; volume += stepSize) {
+  const volumes: number[] = []
+  for (let i = 1; i * stepSize <= maxVolume; i++) {
+    volumes.push(i * stepSize)
+  }
+  const stageVolume = equivalenceVolume / Math.max(acidProtonCount, 1)
+  const landmarks = [equivalenceVolume]
+  if (acid.type === 'weak') {
+    for (let k = 0; k < acidProtonCount; k++) {
+      landmarks.push(stageVolume * (k + 0.5))
+      if (k > 0) landmarks.push(stageVolume * k)
+    }
+  }
+  for (const landmark of landmarks) {
+    if (!volumes.some((v) => Math.abs(v - landmark) <= landmark * EQUIVALENCE_REL_TOL)) {
+      volumes.push(landmark)
+    }
+  }
+  volumes.sort((a, b) => a - b)
+
+  for (const volume of volumes) {
     let pH: number
 
     if (acid.type === 'strong' && base.type === 'strong') {
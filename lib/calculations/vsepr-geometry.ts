@@ -228,6 +228,8 @@ function predictPolarity(
 
   // Linear with lone pairs (e.g., XeF2) is nonpolar
   if (geometry === 'linear' && lonePairs > 0) return 'nonpolar'
+  // Square planar with two opposed lone pairs (e.g., XeF4) is nonpolar
+  if (geometry === 'square-planar') return 'nonpolar'
 
   return 'polar'
 }
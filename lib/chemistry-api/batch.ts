@@ -0,0 +1,131 @@
+/**
+ * VerChem Chemistry API — batch endpoints
+ *
+ *   export const POST = withApiRateLimit(batchHandler(X_BATCH_ROUTE.body, (item) => ...))
+ *
+ * A batch body is { items: [...] } with 1..BATCH_MAX_ITEMS items. Only the
+ * envelope can fail the request: 400, or 402 LIMIT_EXCEEDED when the batch is
+ * larger than the caller's plan allows (entitlement 'chemistry-batch': up to
+ * FREE_BATCH_ITEMS for everyone, the API key's FEATURE_LIMITS batchSize
+ * beyond). Each item is validated and run on its own and gets its own result,
+ * so one bad formula doesn't fail the batch:
+ *
+ *   { index, success: true, input, result }
+ *   { index, success: false, input, error, code, field? }
+ *
+ * A batch is one request for rate limiting, whatever its size.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { FREE_BATCH_ITEMS, checkEntitlement } from '@/lib/entitlements'
+import { FEATURE_LIMITS } from '@/lib/vercal/constants'
+import type { SubscriptionTier } from '@/lib/vercal/types'
+import { ChemistryApiError, errorBody, type ChemistryApiErrorBody } from './errors'
+import { validateBatchBody, validateBatchItem, type BodySchema, type FieldSpec } from './schema'
+import { apiCallerTier } from './with-rate-limit'
+
+/** The largest batch any plan allows (Enterprise). */
+export const BATCH_MAX_ITEMS = FEATURE_LIMITS.enterprise.batchSize
+
+export type BatchBodySchema = { items: FieldSpec & { items: BodySchema } }
+
+export type BatchItemResult =
+  | { index: number; success: true; input: Record<string, unknown>; result: Record<string, unknown> }
+  | ({ index: number; input: unknown } & ChemistryApiErrorBody)
+
+export interface BatchResult {
+  count: number
+  succeeded: number
+  failed: number
+  results: BatchItemResult[]
+}
+
+/** The body schema of a batch endpoint whose items have the fields `item`. */
+export function batchBody(item: BodySchema, description: string): BatchBodySchema {
+  return {
+    items: {
+      type: 'array',
+      description: `${description} (1–${BATCH_MAX_ITEMS}; more than ${FREE_BATCH_ITEMS} needs a Professional or Enterprise API key); each item succeeds or fails on its own`,
+      required: true,
+      minItems: 1,
+      maxItems: BATCH_MAX_ITEMS,
+      items: item,
+    },
+  }
+}
+
+/**
+ * Validate the envelope and the batch size for `tier` (throws
+ * ChemistryApiError), then run each item. An item that throws gets an error
+ * result; anything other than a ChemistryApiError is logged and reported as
+ * INTERNAL_ERROR for that item.
+ */
+export function runBatch(
+  body: unknown,
+  schema: BatchBodySchema,
+  run: (input: Record<string, unknown>) => Record<string, unknown>,
+  tier: SubscriptionTier = 'free'
+): BatchResult {
+  const items = validateBatchBody(body, schema).items as unknown[]
+
+  const access = checkEntitlement('chemistry-batch', tier, { items: items.length })
+  if (!access.allowed) {
+    const { feature, requiredTier, limit, used } = access
+    throw new ChemistryApiError(access.status, 'LIMIT_EXCEEDED', access.error, {
+      field: 'items',
+      feature,
+      tier: access.tier,
+      requiredTier,
+      limit,
+      items: used,
+    })
+  }
+
+  const results = items.map((raw, index): BatchItemResult => {
+    try {
+      const input = validateBatchItem(raw, schema.items.items, 'items', index)
+      return { index, success: true, input, result: run(input) }
+    } catch (err) {
+      if (!(err instanceof ChemistryApiError)) console.error(`Batch item ${index} error:`, err)
+      const error = errorBody(
+        err instanceof ChemistryApiError ? err : new ChemistryApiError(500, 'INTERNAL_ERROR', 'Internal error')
+      )
+      // Name the item in `field` the way validateBatchItem() does.
+      if (typeof error.field === 'string' && !error.field.startsWith('items[')) {
+        error.field = `items[${index}].${error.field}`
+      }
+      return { index, input: raw, ...error }
+    }
+  })
+
+  const succeeded = results.filter((r) => r.success).length
+  return { count: results.length, succeeded, failed: results.length - succeeded, results }
+}
+
+/** A POST handler that runs runBatch() on the JSON body, for the API key's tier. */
+export function batchHandler(
+  schema: BatchBodySchema,
+  run: (input: Record<string, unknown>) => Record<string, unknown>
+) {
+  return async (request: NextRequest): Promise<Response> => {
+    const headers = { 'X-API-Version': '1.0.0' }
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      const err = new ChemistryApiError(400, 'INVALID_JSON', 'Request body must be valid JSON')
+      return NextResponse.json(errorBody(err), { status: err.status, headers })
+    }
+
+    try {
+      const batch = runBatch(body, schema, run, apiCallerTier(request))
+      return NextResponse.json(
+        { success: true, ...batch, timestamp: new Date().toISOString() },
+        { headers }
+      )
+    } catch (err) {
+      if (!(err instanceof ChemistryApiError)) throw err
+      return NextResponse.json(errorBody(err), { status: err.status, headers })
+    }
+  }
+}
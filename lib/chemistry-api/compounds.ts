@@ -0,0 +1,69 @@
+/**
+ * VerChem Chemistry API — compound records
+ *
+ * The public shape of a compound, shared by GET /api/chemistry/compounds and
+ * POST /api/chemistry/compounds/batch.
+ */
+
+import { lookupCompound, type CompoundLookup } from '@/lib/compound-integration'
+import type { Compound } from '@/lib/data/compounds/types'
+import { ChemistryApiError } from './errors'
+
+// Simplified compound response
+export interface CompoundResponse {
+  id: string
+  name: string
+  formula: string
+  molecularMass: number | null
+  casNumber: string | null
+  category: string
+  physicalProperties: {
+    state: string
+    meltingPoint: number | null
+    boilingPoint: number | null
+    density: number | null
+  }
+  hazards: string[]
+  uses: string[]
+}
+
+export function formatCompound(compound: Compound): CompoundResponse {
+  return {
+    id: compound.id,
+    name: compound.name,
+    formula: compound.formula,
+    molecularMass: compound.molarMass ?? compound.molecularMass ?? null,
+    casNumber: compound.casNumber || compound.cas || null,
+    category: compound.category,
+    physicalProperties: {
+      state: compound.physicalState || 'unknown',
+      meltingPoint: compound.meltingPoint ?? null,
+      boilingPoint: compound.boilingPoint ?? null,
+      density: compound.density ?? null,
+    },
+    hazards: (compound.hazards || [])
+      .map((h) => (typeof h === 'string' ? h : h.type || h.ghsCode || ''))
+      .filter(Boolean),
+    uses: compound.uses || [],
+  }
+}
+
+/** One batch lookup: the best match with its percent composition, or NOT_FOUND. */
+export function findCompound(lookup: CompoundLookup) {
+  const result = lookupCompound(lookup)
+  if (!result.compound) {
+    throw new ChemistryApiError(404, 'NOT_FOUND', `No compound matches "${lookup.query}"`, {
+      query: lookup.query,
+      by: lookup.by ?? 'auto',
+    })
+  }
+  return {
+    query: result.query,
+    matchedBy: result.matchedBy,
+    compound: {
+      ...formatCompound(result.compound),
+      percentComposition: result.compound.calculatedProperties.percentComposition,
+    },
+    alternatives: result.alternatives.map((c) => ({ id: c.id, name: c.name, formula: c.formula })),
+  }
+}
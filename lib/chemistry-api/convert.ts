@@ -0,0 +1,52 @@
+/**
+ * VerChem Chemistry API — unit conversion
+ *
+ * Shared by GET /api/chemistry/convert and its POST /batch variant. The field
+ * types and the category enum are checked by the route schema; this checks
+ * that both units belong to the category and that the result is finite.
+ */
+
+import { convert, formatValue, type ConversionCategory } from '@/lib/units/conversions'
+import { ChemistryApiError } from './errors'
+import { CONVERT_UNITS } from './routes'
+
+export interface ConvertInput {
+  value: number
+  from: string
+  to: string
+  category: ConversionCategory
+}
+
+/** The response fields for one conversion (without success/timestamp). */
+export function convertUnits({ value, from, to, category }: ConvertInput) {
+  const availableUnits = CONVERT_UNITS[category]
+  if (!availableUnits.includes(from)) {
+    throw new ChemistryApiError(400, 'INVALID_FIELD', `Invalid "from" unit for ${category}`, {
+      field: 'from',
+      from,
+      availableUnits,
+    })
+  }
+  if (!availableUnits.includes(to)) {
+    throw new ChemistryApiError(400, 'INVALID_FIELD', `Invalid "to" unit for ${category}`, {
+      field: 'to',
+      to,
+      availableUnits,
+    })
+  }
+
+  const result = convert(value, from, to, category)
+  // Guard the computed result: a finite input can still overflow on conversion
+  // (e.g. 1e308 atm → Pa = Infinity). Never serialize a non-finite number.
+  if (!Number.isFinite(result)) {
+    throw new ChemistryApiError(400, 'NON_FINITE_RESULT', 'Conversion result out of representable range', {
+      value,
+    })
+  }
+
+  return {
+    input: { value, unit: from },
+    output: { value: result, unit: to, formatted: formatValue(result) },
+    category,
+  }
+}
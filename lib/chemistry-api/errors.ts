@@ -0,0 +1,63 @@
+/**
+ * VerChem Chemistry API v1 — error envelope
+ *
+ * Every v1 failure has the same body: { success: false, error, code, ...details }
+ * where `code` is stable and machine-readable and `error` is a human message.
+ * Same flat shape as POST /api/chemistry/balance, so clients need one handler.
+ */
+
+export type ChemistryApiErrorCode =
+  | 'INVALID_JSON'
+  | 'INVALID_BODY'
+  | 'MISSING_FIELD'
+  | 'INVALID_FIELD'
+  | 'UNKNOWN_FIELD'
+  | 'INVALID_FORMULA'
+  | 'NOT_FOUND'
+  | 'INVALID_API_KEY'
+  | 'UNKNOWN_ENDPOINT'
+  | 'METHOD_NOT_ALLOWED'
+  | 'CALCULATION_FAILED'
+  | 'NON_FINITE_RESULT'
+  | 'RATE_LIMITED'
+  | 'LIMIT_EXCEEDED'
+  | 'INTERNAL_ERROR'
+
+export class ChemistryApiError extends Error {
+  readonly status: number
+  readonly code: ChemistryApiErrorCode
+  readonly details: Record<string, unknown>
+
+  constructor(
+    status: number,
+    code: ChemistryApiErrorCode,
+    message: string,
+    details: Record<string, unknown> = {}
+  ) {
+    super(message)
+    this.name = 'ChemistryApiError'
+    this.status = status
+    this.code = code
+    this.details = details
+  }
+}
+
+export interface ChemistryApiErrorBody {
+  success: false
+  error: string
+  code: ChemistryApiErrorCode
+  [detail: string]: unknown
+}
+
+export function errorBody(err: ChemistryApiError): ChemistryApiErrorBody {
+  return { success: false, error: err.message, code: err.code, ...err.details }
+}
+
+/**
+ * A calculation the engine refused (it throws, or returns null with the reason
+ * as a "❌ …" step). These are input problems the schema cannot express — e.g.
+ * "need exactly 3 of 4 values" — so they are 422, not 500.
+ */
+export function calculationFailed(message: string): ChemistryApiError {
+  return new ChemistryApiError(422, 'CALCULATION_FAILED', message)
+}
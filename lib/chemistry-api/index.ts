@@ -0,0 +1,101 @@
+/**
+ * VerChem Chemistry API v1 — operation registry
+ *
+ * POST /api/chemistry/v1/{engine}/{operation} looks the operation up here and
+ * calls runOperation(); GET /api/chemistry/v1 lists describeOperations(). A new
+ * endpoint is one entry in an operations/*.ts array — validation, the error
+ * envelope and the finite-result check come for free.
+ */
+
+import { ChemistryApiError } from './errors'
+import type { ChemistryOperation, OperationResult } from './operation'
+import { validateBody } from './schema'
+import { ELECTROCHEMISTRY_OPERATIONS } from './operations/electrochemistry'
+import { GAS_LAW_OPERATIONS } from './operations/gas-laws'
+import { KINETICS_OPERATIONS } from './operations/kinetics'
+import { NUCLEAR_OPERATIONS } from './operations/nuclear'
+import { SOLUTION_PREP_OPERATIONS } from './operations/solution-prep'
+import { STOICHIOMETRY_OPERATIONS } from './operations/stoichiometry'
+import { THERMODYNAMICS_OPERATIONS } from './operations/thermodynamics'
+import { TITRATION_OPERATIONS } from './operations/titration'
+
+export { ChemistryApiError, errorBody } from './errors'
+export type { ChemistryApiErrorCode, ChemistryApiErrorBody } from './errors'
+export type { ChemistryOperation, OperationResult } from './operation'
+export type { BodySchema, FieldSpec } from './schema'
+
+export const CHEMISTRY_API_V1_BASE = '/api/chemistry/v1'
+
+export const V1_OPERATIONS: ChemistryOperation[] = [
+  ...GAS_LAW_OPERATIONS,
+  ...STOICHIOMETRY_OPERATIONS,
+  ...KINETICS_OPERATIONS,
+  ...THERMODYNAMICS_OPERATIONS,
+  ...ELECTROCHEMISTRY_OPERATIONS,
+  ...NUCLEAR_OPERATIONS,
+  ...SOLUTION_PREP_OPERATIONS,
+  ...TITRATION_OPERATIONS,
+]
+
+const OPERATION_BY_PATH = new Map<string, ChemistryOperation>()
+for (const operation of V1_OPERATIONS) {
+  OPERATION_BY_PATH.set(`${operation.engine}/${operation.name}`, operation)
+}
+
+export function operationPath(operation: ChemistryOperation): string {
+  return `${CHEMISTRY_API_V1_BASE}/${operation.engine}/${operation.name}`
+}
+
+export function findOperation(engine: string, name: string): ChemistryOperation | undefined {
+  return OPERATION_BY_PATH.get(`${engine}/${name}`)
+}
+
+function hasNonFinite(value: unknown): boolean {
+  if (typeof value === 'number') return !Number.isFinite(value)
+  if (Array.isArray(value)) return value.some(hasNonFinite)
+  if (typeof value === 'object' && value !== null) return Object.values(value).some(hasNonFinite)
+  return false
+}
+
+/**
+ * Validate `body` against the operation's schema and run it. Throws
+ * ChemistryApiError for schema violations (400), engine refusals (422, the
+ * engine's own message) and NaN/Infinity results (422 — JSON would silently
+ * turn them into null). Anything else propagates for the route to log as 500.
+ */
+export function runOperation(
+  operation: ChemistryOperation,
+  body: unknown
+): OperationResult & { input: Record<string, unknown> } {
+  const input = validateBody(body, operation.body)
+
+  let output: OperationResult
+  try {
+    output = operation.run(input)
+  } catch (err) {
+    // Engines reject input with a plain Error; a TypeError etc. is a bug → 500.
+    if (err instanceof Error && err.constructor === Error) {
+      throw new ChemistryApiError(422, 'CALCULATION_FAILED', err.message)
+    }
+    throw err
+  }
+
+  if (hasNonFinite(output.result)) {
+    throw new ChemistryApiError(
+      422,
+      'NON_FINITE_RESULT',
+      'Calculation produced a non-finite value (check for division by zero or out-of-range input)'
+    )
+  }
+  return { input, ...output }
+}
+
+export function describeOperations() {
+  return V1_OPERATIONS.map((operation) => ({
+    method: 'POST',
+    path: operationPath(operation),
+    summary: operation.summary,
+    body: operation.body,
+    example: operation.example,
+  }))
+}
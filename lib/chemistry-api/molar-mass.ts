@@ -0,0 +1,146 @@
+/**
+ * VerChem Chemistry API — molar mass from a formula
+ *
+ * Shared by GET /api/chemistry/molar-mass and its POST /batch variant.
+ * Formulas are element symbols with counts only (H2O, NaCl, C6H12O6);
+ * parentheses and hydrates are rejected rather than guessed at.
+ */
+
+import { PERIODIC_TABLE } from '@/lib/data/periodic-table'
+import { ChemistryApiError } from './errors'
+
+export interface MolarMassComposition {
+  element: string
+  count: number
+  mass: number
+  percentage: number
+}
+
+export interface ParsedMolarMass {
+  mass: number
+  composition: MolarMassComposition[]
+  formula: string
+}
+
+export const MOLAR_MASS_ERROR = 'Invalid formula or unknown element'
+export const MOLAR_MASS_HINT =
+  'Use standard element symbols without parentheses (e.g., H2O, NaCl, H2SO4). Parenthesized formulas like Ca(OH)2 are not supported — use CaO2H2 instead.'
+
+// Parse chemical formula and calculate molar mass
+export function parseMolarMass(formula: string): ParsedMolarMass | null {
+  if (!formula || typeof formula !== 'string') {
+    return null
+  }
+
+  // Clean the formula
+  const cleanFormula = formula.trim()
+  if (!cleanFormula) {
+    return null
+  }
+
+  // Reject formulas with characters we can't handle correctly
+  if (/[()]/.test(cleanFormula)) {
+    return null // Parenthesized formulas like Ca(OH)2 not supported by this simple API
+  }
+
+  // Validate formula only contains element symbols and digits
+  if (!/^([A-Z][a-z]?\d*)+$/.test(cleanFormula)) {
+    return null
+  }
+
+  // Parse formula using regex
+  // Matches: Element symbol (1-2 letters, first uppercase) followed by optional number
+  const regex = /([A-Z][a-z]?)(\d*)/g
+  const matches = [...cleanFormula.matchAll(regex)]
+
+  if (matches.length === 0) {
+    return null
+  }
+
+  // Verify the parsed tokens reconstruct the full formula
+  const reconstructed = matches.map((m) => m[0]).join('')
+  if (reconstructed !== cleanFormula) {
+    return null
+  }
+
+  const composition: MolarMassComposition[] = []
+  let totalMass = 0
+
+  for (const match of matches) {
+    const symbol = match[1]
+    const count = match[2] ? parseInt(match[2], 10) : 1
+
+    if (!symbol) continue
+    // Reject zero / leading-zero counts (e.g. "H0", "H00", "H02"): a count of 0
+    // yields mass 0 and a NaN% composition, which must never be returned as valid.
+    if (match[2] && !/^[1-9]\d*$/.test(match[2])) {
+      return null
+    }
+
+    // Find element in periodic table
+    const element = PERIODIC_TABLE.find((e) => e.symbol === symbol)
+    if (!element) {
+      return null // Unknown element
+    }
+
+    const elementMass = element.atomicMass * count
+    totalMass += elementMass
+
+    composition.push({
+      element: symbol,
+      count,
+      mass: elementMass,
+      percentage: 0, // Will calculate after total
+    })
+  }
+
+  // Guard against a zero / non-finite total mass before computing percentages
+  // (would otherwise produce NaN% and a meaningless molarMass: 0).
+  if (!(totalMass > 0) || !Number.isFinite(totalMass)) {
+    return null
+  }
+
+  // Calculate percentages
+  for (const comp of composition) {
+    comp.percentage = (comp.mass / totalMass) * 100
+  }
+
+  return {
+    mass: totalMass,
+    composition,
+    formula: cleanFormula,
+  }
+}
+
+/** The response fields for a parsed formula (without success/timestamp). */
+export function formatMolarMass(result: ParsedMolarMass) {
+  return {
+    formula: result.formula,
+    molarMass: {
+      value: result.mass,
+      unit: 'g/mol',
+      formatted: `${result.mass.toFixed(4)} g/mol`,
+    },
+    composition: result.composition.map((c) => ({
+      element: c.element,
+      count: c.count,
+      mass: {
+        value: c.mass,
+        unit: 'g/mol',
+      },
+      percentage: {
+        value: c.percentage,
+        formatted: `${c.percentage.toFixed(2)}%`,
+      },
+    })),
+  }
+}
+
+/** formatMolarMass(parseMolarMass(formula)), or INVALID_FORMULA. */
+export function molarMassOf(formula: string) {
+  const result = parseMolarMass(formula)
+  if (!result) {
+    throw new ChemistryApiError(400, 'INVALID_FORMULA', MOLAR_MASS_ERROR, { formula, hint: MOLAR_MASS_HINT })
+  }
+  return formatMolarMass(result)
+}
@@ -0,0 +1,196 @@
+/**
+ * VerChem Chemistry API — OpenAPI 3.1 document
+ *
+ * Generated from CHEMISTRY_ROUTES and, for the dynamic v1 handler, from
+ * V1_OPERATIONS — the same FieldSpecs the handlers validate requests with, so
+ * the document cannot describe a parameter the API does not enforce.
+ */
+
+import { V1_OPERATIONS, operationPath } from './index'
+import {
+  CHEMISTRY_ROUTES,
+  V1_OPERATION_ROUTE,
+  type JsonSchema,
+  type RouteSpec,
+} from './routes'
+import type { BodySchema, FieldSpec } from './schema'
+
+const ERROR_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: 'Error envelope. `code` is stable and machine-readable; `field` names the offending input.',
+  properties: {
+    success: { const: false },
+    error: { type: 'string' },
+    code: { type: 'string' },
+    field: { type: 'string' },
+  },
+  required: ['error'],
+}
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid request',
+  401: 'Invalid or revoked API key',
+  402: 'Larger than the plan allows (requiredTier names the plan that does)',
+  404: 'Not found',
+  422: 'Valid request the calculation cannot satisfy',
+  429: 'Rate limited (see Retry-After)',
+  500: 'Internal error',
+}
+
+/** JSON Schema for a FieldSpec, keeping the limits validateBody()/validateQuery() enforce. */
+export function fieldSchema(spec: FieldSpec): JsonSchema {
+  const schema: JsonSchema = { type: spec.type, description: spec.description }
+  if (spec.unit) schema['x-unit'] = spec.unit
+  if (spec.default !== undefined) schema.default = spec.default
+  if (spec.min !== undefined) schema.minimum = spec.min
+  if (spec.exclusiveMin !== undefined) schema.exclusiveMinimum = spec.exclusiveMin
+  if (spec.max !== undefined) schema.maximum = spec.max
+  if (spec.type === 'string') {
+    schema.minLength = 1
+    schema.maxLength = spec.maxLength ?? 100
+    if (spec.enum) schema.enum = [...spec.enum]
+  }
+  if (spec.type === 'array') {
+    schema.items = objectSchema(spec.items ?? {})
+    if (spec.minItems !== undefined) schema.minItems = spec.minItems
+    schema.maxItems = spec.maxItems ?? 100
+  }
+  return schema
+}
+
+function objectSchema(fields: BodySchema): JsonSchema {
+  const required = Object.keys(fields).filter((key) => fields[key].required)
+  return {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(fields).map(([key, spec]) => [key, fieldSchema(spec)])),
+    ...(required.length > 0 && { required }),
+    additionalProperties: false,
+  }
+}
+
+/** Every /api/chemistry handler runs behind withApiRateLimit. */
+const RATE_LIMIT_ERRORS = [401, 429]
+
+const RATE_LIMIT_HEADERS = {
+  'X-RateLimit-Limit': { description: 'Requests allowed in the current window', schema: { type: 'integer' } },
+  'X-RateLimit-Remaining': { description: 'Requests left in the current window', schema: { type: 'integer' } },
+  'X-RateLimit-Reset': { description: 'Unix time (seconds) the window resets', schema: { type: 'integer' } },
+  'X-RateLimit-Scope': {
+    description: '`key`: the API key\'s monthly plan quota; `anonymous`: the per-client hourly limit',
+    schema: { enum: ['key', 'anonymous'] },
+  },
+}
+
+function responses(route: RouteSpec) {
+  const headers = Object.fromEntries(
+    Object.keys(RATE_LIMIT_HEADERS).map((name) => [name, { $ref: `#/components/headers/${name}` }])
+  )
+  const statuses = [...new Set([...route.errors, ...RATE_LIMIT_ERRORS])].sort((a, b) => a - b)
+  return {
+    200: { description: 'Success', headers, content: { 'application/json': { schema: route.response } } },
+    ...Object.fromEntries(
+      statuses.map((status) => [
+        status,
+        {
+          description: ERROR_DESCRIPTIONS[status] ?? 'Error',
+          headers,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+        },
+      ])
+    ),
+  }
+}
+
+function operationObject(
+  route: RouteSpec,
+  overrides: Pick<RouteSpec, 'summary' | 'body' | 'example'> & { operationId: string }
+) {
+  const { body, example } = overrides
+  return {
+    operationId: overrides.operationId,
+    summary: overrides.summary,
+    ...(route.description && { description: route.description }),
+    ...(route.query && {
+      parameters: Object.entries(route.query).map(([name, spec]) => ({
+        name,
+        in: 'query',
+        required: spec.required === true,
+        description: spec.description,
+        schema: fieldSchema(spec),
+        ...(example?.[name] !== undefined && { example: example[name] }),
+      })),
+    }),
+    ...(body && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: objectSchema(body), ...(example && { example }) } },
+      },
+    }),
+    responses: responses(route),
+  }
+}
+
+function operationId(method: string, path: string): string {
+  const words = path
+    .replace(/^\/api\/chemistry\/?/, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+  return [method.toLowerCase(), ...words.map((w) => w[0].toUpperCase() + w.slice(1))].join('') || method.toLowerCase()
+}
+
+/** The document served by GET /api/chemistry/openapi.json. */
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {}
+  const add = (path: string, method: string, operation: unknown) => {
+    paths[path] = { ...paths[path], [method.toLowerCase()]: operation }
+  }
+
+  for (const route of CHEMISTRY_ROUTES) {
+    if (route === V1_OPERATION_ROUTE) {
+      for (const operation of V1_OPERATIONS) {
+        const path = operationPath(operation)
+        add(path, route.method, {
+          ...operationObject(route, {
+            operationId: operationId(route.method, path),
+            summary: operation.summary,
+            body: operation.body,
+            example: operation.example,
+          }),
+          tags: [operation.engine],
+        })
+      }
+      continue
+    }
+    add(
+      route.path,
+      route.method,
+      operationObject(route, {
+        operationId: operationId(route.method, route.path),
+        summary: route.summary,
+        body: route.body,
+        example: route.example,
+      })
+    )
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'VerChem Chemistry API',
+      version: '1.0.0',
+      description: 'Free chemistry calculations and data API',
+    },
+    servers: [{ url: 'https://verchem.xyz' }],
+    // A key is optional: without one, requests share the anonymous limit.
+    security: [{}, { apiKeyHeader: [] }, { bearer: [] }],
+    paths,
+    components: {
+      schemas: { Error: ERROR_SCHEMA },
+      headers: RATE_LIMIT_HEADERS,
+      securitySchemes: {
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key', description: 'Developer key (vck_…) from /account' },
+        bearer: { type: 'http', scheme: 'bearer', description: 'The same developer key as a bearer token' },
+      },
+    },
+  }
+}
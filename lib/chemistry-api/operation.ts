@@ -0,0 +1,38 @@
+/**
+ * VerChem Chemistry API v1 — operation contract
+ *
+ * One operation = one POST /api/chemistry/v1/{engine}/{name}. `run` receives a
+ * body already checked against `body` and calls the engine in lib/calculations
+ * directly (no reimplementation); it returns the numbers plus the worked
+ * `steps`. Engines that already narrate their work pass their steps through.
+ */
+
+import type { BodySchema } from './schema'
+
+export interface OperationResult {
+  result: Record<string, unknown>
+  steps: string[]
+}
+
+export interface ChemistryOperation {
+  engine: string
+  name: string
+  summary: string
+  body: BodySchema
+  example: Record<string, unknown>
+  run: (input: Record<string, unknown>) => OperationResult
+}
+
+/** Engine steps are written for the calculator UI ("=== X ===\n", blank spacer
+ *  lines); the API returns one non-empty line per entry. */
+export function cleanSteps(steps: string[]): string[] {
+  return steps
+    .flatMap((step) => step.split('\n'))
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim() !== '')
+}
+
+/** Six significant figures for step text; the result fields keep full precision. */
+export function fmt(value: number): string {
+  return String(Number(value.toPrecision(6)))
+}
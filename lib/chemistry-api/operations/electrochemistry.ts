@@ -0,0 +1,100 @@
+/**
+ * VerChem Chemistry API v1 — electrochemistry (lib/calculations/electrochemistry.ts)
+ */
+
+import {
+  calculateCellPotential,
+  calculateElectrolysis,
+  calculateNernstEquation,
+  ROOM_TEMPERATURE,
+} from '@/lib/calculations/electrochemistry'
+import { FARADAY_CONSTANT } from '@/lib/constants/physical-constants'
+import { cleanSteps, fmt, type ChemistryOperation } from '../operation'
+
+const ELECTRONS = {
+  type: 'integer',
+  description: 'Electrons transferred',
+  required: true,
+  min: 1,
+  max: 20,
+} as const
+
+const cellPotential: ChemistryOperation = {
+  engine: 'electrochemistry',
+  name: 'cell-potential',
+  summary: 'E°cell = E°cathode − E°anode and ΔG° = −nFE°',
+  body: {
+    cathodePotential: { type: 'number', description: 'Standard reduction potential of the cathode', unit: 'V', required: true, min: -10, max: 10 },
+    anodePotential: { type: 'number', description: 'Standard reduction potential of the anode', unit: 'V', required: true, min: -10, max: 10 },
+    n: ELECTRONS,
+  },
+  example: { cathodePotential: 0.34, anodePotential: -0.76, n: 2 },
+  run: (input) => {
+    const cathode = input.cathodePotential as number
+    const anode = input.anodePotential as number
+    const n = input.n as number
+    const result = calculateCellPotential(cathode, anode, n)
+    return {
+      result: { cellPotential: result.cellPotential, deltaG: result.deltaG, spontaneous: result.spontaneous, n },
+      steps: [
+        `E°cell = E°cathode − E°anode = ${cathode} − (${anode}) = ${fmt(result.cellPotential)} V`,
+        `ΔG° = −nFE° = −${n} × ${FARADAY_CONSTANT} × ${fmt(result.cellPotential)} = ${fmt(result.deltaG)} J/mol`,
+        result.spontaneous ? 'E°cell > 0: spontaneous (galvanic)' : 'E°cell ≤ 0: non-spontaneous (needs an external source)',
+      ],
+    }
+  },
+}
+
+const nernst: ChemistryOperation = {
+  engine: 'electrochemistry',
+  name: 'nernst',
+  summary: 'Cell potential at non-standard conditions: E = E° − (RT/nF)·ln Q',
+  body: {
+    E0: { type: 'number', description: 'Standard cell potential', unit: 'V', required: true, min: -10, max: 10 },
+    n: ELECTRONS,
+    Q: { type: 'number', description: 'Reaction quotient', required: true, exclusiveMin: 0 },
+    temperature: { type: 'number', description: 'Temperature', unit: 'K', default: ROOM_TEMPERATURE, exclusiveMin: 0, max: 10000 },
+  },
+  example: { E0: 1.10, n: 2, Q: 0.01 },
+  run: (input) => {
+    const result = calculateNernstEquation(input.E0 as number, input.n as number, input.Q as number, input.temperature as number)
+    return {
+      result: { E: result.E, E0: result.E0, n: result.n, Q: result.Q, temperature: result.temperature },
+      steps: cleanSteps(result.steps),
+    }
+  },
+}
+
+const electrolysis: ChemistryOperation = {
+  engine: 'electrochemistry',
+  name: 'electrolysis',
+  summary: 'Charge, moles and mass (and gas volume at STP) deposited by a current (Faraday’s laws)',
+  body: {
+    current: { type: 'number', description: 'Current', unit: 'A', required: true, exclusiveMin: 0, max: 1e6 },
+    time: { type: 'number', description: 'Duration', unit: 's', required: true, exclusiveMin: 0, max: 1e9 },
+    n: { ...ELECTRONS, description: 'Electrons per formula unit deposited or evolved' },
+    molarMass: { type: 'number', description: 'Molar mass of the product', unit: 'g/mol', required: true, exclusiveMin: 0 },
+    isGas: { type: 'boolean', description: 'Also report the volume at STP', default: false },
+  },
+  example: { current: 2, time: 3600, n: 2, molarMass: 63.546 },
+  run: (input) => {
+    const result = calculateElectrolysis(
+      input.current as number,
+      input.time as number,
+      input.n as number,
+      input.molarMass as number,
+      input.isGas as boolean
+    )
+    return {
+      result: {
+        charge: result.charge,
+        moles: result.moles,
+        mass: result.mass,
+        ...(result.volume !== undefined && { volume: result.volume }),
+      },
+      steps: cleanSteps(result.steps),
+    }
+  },
+}
+
+export const ELECTROCHEMISTRY_OPERATIONS: ChemistryOperation[] = [cellPotential, nernst, electrolysis]
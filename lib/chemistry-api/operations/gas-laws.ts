@@ -0,0 +1,146 @@
+/**
+ * VerChem Chemistry API v1 — gas laws (lib/calculations/gas-laws.ts)
+ */
+
+import {
+  combinedGasLaw,
+  idealGasLaw,
+  vanDerWaalsEquation,
+  VAN_DER_WAALS_CONSTANTS,
+} from '@/lib/calculations/gas-laws'
+import { GAS_CONSTANT } from '@/lib/constants/physical-constants'
+import { calculationFailed } from '../errors'
+import { fmt, type ChemistryOperation } from '../operation'
+
+const positive = (description: string, unit: string) =>
+  ({ type: 'number', description, unit, exclusiveMin: 0 }) as const
+
+const UNITS: Record<string, string> = { P: 'atm', V: 'L', n: 'mol', T: 'K' }
+
+const IDEAL_GAS_FORMULAS: Record<string, string> = {
+  P: 'P = nRT / V',
+  V: 'V = nRT / P',
+  n: 'n = PV / RT',
+  T: 'T = PV / nR',
+}
+
+const idealGas: ChemistryOperation = {
+  engine: 'gas-laws',
+  name: 'ideal-gas',
+  summary: 'Solve PV = nRT for the one missing variable (give exactly 3 of P, V, n, T)',
+  body: {
+    P: positive('Pressure', 'atm'),
+    V: positive('Volume', 'L'),
+    n: positive('Amount of gas', 'mol'),
+    T: positive('Temperature', 'K'),
+  },
+  example: { V: 22.4, n: 1, T: 273.15 },
+  run: (input) => {
+    const given = ['P', 'V', 'n', 'T'].filter((key) => input[key] !== undefined)
+    if (given.length !== 3) throw calculationFailed('Give exactly 3 of P, V, n, T')
+    const unknown = ['P', 'V', 'n', 'T'].find((key) => input[key] === undefined)!
+
+    const result = idealGasLaw({
+      P: input.P as number | undefined,
+      V: input.V as number | undefined,
+      n: input.n as number | undefined,
+      T: input.T as number | undefined,
+    })
+    const values: Record<string, number> = { P: result.P, V: result.V, n: result.n, T: result.T }
+
+    return {
+      result: { ...values, R: result.R, solvedFor: unknown },
+      steps: [
+        'Ideal gas law: PV = nRT',
+        `Given: ${given.map((key) => `${key} = ${fmt(values[key])} ${UNITS[key]}`).join(', ')}`,
+        `R = ${result.R} L·atm/(mol·K)`,
+        `Solve for ${unknown}: ${IDEAL_GAS_FORMULAS[unknown]}`,
+        `${unknown} = ${fmt(values[unknown])} ${UNITS[unknown]}`,
+      ],
+    }
+  },
+}
+
+const combined: ChemistryOperation = {
+  engine: 'gas-laws',
+  name: 'combined',
+  summary: 'Solve P1V1/T1 = P2V2/T2 for the one missing variable (give exactly 5 of 6)',
+  body: {
+    P1: positive('Initial pressure', 'atm'),
+    V1: positive('Initial volume', 'L'),
+    T1: positive('Initial temperature', 'K'),
+    P2: positive('Final pressure', 'atm'),
+    V2: positive('Final volume', 'L'),
+    T2: positive('Final temperature', 'K'),
+  },
+  example: { P1: 1, V1: 10, T1: 300, P2: 2, T2: 400 },
+  run: (input) => {
+    const keys = ['P1', 'V1', 'T1', 'P2', 'V2', 'T2'] as const
+    const missing = keys.filter((key) => input[key] === undefined)
+    if (missing.length !== 1) throw calculationFailed('Give exactly 5 of P1, V1, T1, P2, V2, T2')
+
+    const result = combinedGasLaw(Object.fromEntries(keys.map((key) => [key, input[key] as number | undefined])))
+    const unit = (key: string) => UNITS[key[0]]
+
+    return {
+      result: { ...result, solvedFor: missing[0] },
+      steps: [
+        'Combined gas law: P1·V1 / T1 = P2·V2 / T2',
+        `Given: ${keys
+          .filter((key) => key !== missing[0])
+          .map((key) => `${key} = ${fmt(result[key])} ${unit(key)}`)
+          .join(', ')}`,
+        `Rearrange for ${missing[0]} and substitute`,
+        `${missing[0]} = ${fmt(result[missing[0]])} ${unit(missing[0])}`,
+      ],
+    }
+  },
+}
+
+const GASES = Object.keys(VAN_DER_WAALS_CONSTANTS) as (keyof typeof VAN_DER_WAALS_CONSTANTS)[]
+
+const vanDerWaals: ChemistryOperation = {
+  engine: 'gas-laws',
+  name: 'van-der-waals',
+  summary: 'Real-gas pressure from [P + a(n/V)²](V − nb) = nRT, compared with the ideal-gas value',
+  body: {
+    n: { ...positive('Amount of gas', 'mol'), required: true },
+    V: { ...positive('Volume', 'L'), required: true },
+    T: { ...positive('Temperature', 'K'), required: true },
+    gas: { type: 'string', description: 'Use tabulated a and b for this gas', enum: GASES },
+    a: { type: 'number', description: 'Attraction constant a (instead of gas)', unit: 'L²·atm/mol²', min: 0 },
+    b: { type: 'number', description: 'Excluded volume b (instead of gas)', unit: 'L/mol', min: 0 },
+  },
+  example: { gas: 'CO2', n: 1, V: 0.5, T: 300 },
+  run: (input) => {
+    const n = input.n as number
+    const V = input.V as number
+    const T = input.T as number
+    const gas = input.gas as keyof typeof VAN_DER_WAALS_CONSTANTS | undefined
+    if (gas && (input.a !== undefined || input.b !== undefined)) {
+      throw calculationFailed('Give either gas or both a and b, not both')
+    }
+    if (!gas && (input.a === undefined || input.b === undefined)) {
+      throw calculationFailed('Give gas, or both a and b')
+    }
+    const { a, b } = gas ? VAN_DER_WAALS_CONSTANTS[gas] : { a: input.a as number, b: input.b as number }
+
+    const P = vanDerWaalsEquation({ n, V, T, a, b })
+    const R = GAS_CONSTANT.atm
+    const idealP = (n * R * T) / V
+
+    return {
+      result: { P, idealP, deviationPercent: ((P - idealP) / idealP) * 100, a, b },
+      steps: [
+        'Van der Waals equation: P = nRT / (V − nb) − a(n/V)²',
+        `${gas ? `${gas}: ` : ''}a = ${a} L²·atm/mol², b = ${b} L/mol`,
+        `nRT / (V − nb) = ${fmt(n * R * T)} / ${fmt(V - n * b)} = ${fmt((n * R * T) / (V - n * b))} atm`,
+        `a(n/V)² = ${a} × (${fmt(n / V)})² = ${fmt(a * (n / V) ** 2)} atm`,
+        `P = ${fmt(P)} atm`,
+        `Ideal gas: P = nRT / V = ${fmt(idealP)} atm (${fmt(((P - idealP) / idealP) * 100)}% difference)`,
+      ],
+    }
+  },
+}
+
+export const GAS_LAW_OPERATIONS: ChemistryOperation[] = [idealGas, combined, vanDerWaals]
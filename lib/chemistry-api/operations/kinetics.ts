@@ -0,0 +1,116 @@
+/**
+ * VerChem Chemistry API v1 — kinetics (lib/calculations/kinetics.ts)
+ */
+
+import {
+  arrheniusEquation,
+  calculateActivationEnergy,
+  calculateConcentration,
+  determineReactionOrder,
+  type RateOrder,
+} from '@/lib/calculations/kinetics'
+import { calculationFailed } from '../errors'
+import { cleanSteps, type ChemistryOperation } from '../operation'
+
+const ORDERS = ['zero', 'first', 'second'] as const
+
+const reactionOrder: ChemistryOperation = {
+  engine: 'kinetics',
+  name: 'reaction-order',
+  summary: 'Fit [A], ln[A] and 1/[A] against time and report the best-fitting order, k and R²',
+  body: {
+    data: {
+      type: 'array',
+      description: 'Concentration–time measurements',
+      required: true,
+      minItems: 3,
+      maxItems: 1000,
+      items: {
+        time: { type: 'number', description: 'Time', unit: 's', required: true, min: 0 },
+        concentration: { type: 'number', description: 'Concentration of A', unit: 'M', required: true, exclusiveMin: 0 },
+      },
+    },
+  },
+  example: {
+    data: [
+      { time: 0, concentration: 1.0 },
+      { time: 10, concentration: 0.5 },
+      { time: 20, concentration: 0.25 },
+      { time: 30, concentration: 0.125 },
+    ],
+  },
+  run: (input) => {
+    const data = input.data as { time: number; concentration: number }[]
+    if (new Set(data.map((point) => point.time)).size < 2) {
+      throw calculationFailed('data needs at least two different times')
+    }
+    const result = determineReactionOrder(data)
+    if (!result) throw calculationFailed('Could not determine the reaction order from this data')
+    return { result: { order: result.order, k: result.k, r2: result.r2 }, steps: cleanSteps(result.steps) }
+  },
+}
+
+const arrhenius: ChemistryOperation = {
+  engine: 'kinetics',
+  name: 'arrhenius',
+  summary: 'Rate constant at a temperature from k = A·e^(−Ea/RT)',
+  body: {
+    A: { type: 'number', description: 'Pre-exponential factor (same units as k)', required: true, exclusiveMin: 0 },
+    Ea: { type: 'number', description: 'Activation energy', unit: 'J/mol', required: true, min: 0 },
+    T: { type: 'number', description: 'Temperature', unit: 'K', required: true, exclusiveMin: 0 },
+  },
+  example: { A: 1e13, Ea: 75000, T: 298.15 },
+  run: (input) => {
+    const result = arrheniusEquation(input.A as number, input.Ea as number, input.T as number)
+    return {
+      result: { k: result.k, A: result.A, Ea: result.Ea, T: result.temperature },
+      steps: cleanSteps(result.steps),
+    }
+  },
+}
+
+const activationEnergy: ChemistryOperation = {
+  engine: 'kinetics',
+  name: 'activation-energy',
+  summary: 'Activation energy and A from rate constants at two temperatures (two-point Arrhenius)',
+  body: {
+    k1: { type: 'number', description: 'Rate constant at T1', required: true, exclusiveMin: 0 },
+    T1: { type: 'number', description: 'First temperature', unit: 'K', required: true, exclusiveMin: 0 },
+    k2: { type: 'number', description: 'Rate constant at T2', required: true, exclusiveMin: 0 },
+    T2: { type: 'number', description: 'Second temperature', unit: 'K', required: true, exclusiveMin: 0 },
+  },
+  example: { k1: 0.001, T1: 300, k2: 0.01, T2: 350 },
+  run: (input) => {
+    if (input.T1 === input.T2) throw calculationFailed('T1 and T2 must differ')
+    const result = calculateActivationEnergy(input.k1 as number, input.T1 as number, input.k2 as number, input.T2 as number)
+    if (!result) throw calculationFailed('Activation energy calculation failed')
+    return { result: { Ea: result.Ea, EaKJ: result.EaKJ, A: result.A }, steps: cleanSteps(result.steps) }
+  },
+}
+
+const concentration: ChemistryOperation = {
+  engine: 'kinetics',
+  name: 'concentration',
+  summary: 'Concentration after time t and half-life from the zero-, first- or second-order integrated rate law',
+  body: {
+    order: { type: 'string', description: 'Reaction order', required: true, enum: ORDERS },
+    initialConcentration: { type: 'number', description: '[A]₀', unit: 'M', required: true, exclusiveMin: 0 },
+    k: { type: 'number', description: 'Rate constant (units follow the order)', required: true, exclusiveMin: 0 },
+    time: { type: 'number', description: 'Elapsed time', unit: 's', required: true, min: 0 },
+  },
+  example: { order: 'first', initialConcentration: 1, k: 0.0693, time: 10 },
+  run: (input) => {
+    const result = calculateConcentration(
+      input.order as RateOrder,
+      input.initialConcentration as number,
+      input.k as number,
+      input.time as number
+    )
+    return {
+      result: { order: result.order, concentration: result.concentration, halfLife: result.halfLife, k: result.k, time: result.time },
+      steps: cleanSteps(result.steps),
+    }
+  },
+}
+
+export const KINETICS_OPERATIONS: ChemistryOperation[] = [reactionOrder, arrhenius, activationEnergy, concentration]
@@ -0,0 +1,127 @@
+/**
+ * VerChem Chemistry API v1 — nuclear decay (lib/calculations/nuclear.ts)
+ *
+ * Times are in whatever unit the caller picks (`timeUnit`, default years), as
+ * long as half-life and elapsed time share it; rates come back per that unit.
+ */
+
+import {
+  generateDecayCurve,
+  halfLifeFromDecay,
+  radioactiveDecay,
+  timeToDecay,
+  type HalfLifeUnit,
+} from '@/lib/calculations/nuclear'
+import { fmt, type ChemistryOperation } from '../operation'
+
+const TIME_UNITS: readonly HalfLifeUnit[] = ['seconds', 'minutes', 'hours', 'days', 'years']
+
+const TIME_UNIT = {
+  type: 'string',
+  description: 'Unit shared by every time value (labels only — no conversion)',
+  enum: TIME_UNITS,
+  default: 'years',
+} as const
+
+const AMOUNT = (description: string) =>
+  ({ type: 'number', description: `${description} (any unit: g, mol, atoms, Bq…)`, required: true, exclusiveMin: 0 }) as const
+
+const decay: ChemistryOperation = {
+  engine: 'nuclear',
+  name: 'decay',
+  summary: 'Amount remaining after a time: N = N₀·(½)^(t/t½), with decay constant and optional curve',
+  body: {
+    initialAmount: AMOUNT('Initial amount N₀'),
+    halfLife: { type: 'number', description: 'Half-life', required: true, exclusiveMin: 0 },
+    elapsedTime: { type: 'number', description: 'Elapsed time', required: true, min: 0 },
+    timeUnit: TIME_UNIT,
+    curvePoints: {
+      type: 'integer',
+      description: 'Also return this many decay-curve intervals over five half-lives (0 = none)',
+      default: 0,
+      min: 0,
+      max: 500,
+    },
+  },
+  example: { initialAmount: 100, halfLife: 5730, elapsedTime: 10000, timeUnit: 'years' },
+  run: (input) => {
+    const N0 = input.initialAmount as number
+    const halfLife = input.halfLife as number
+    const t = input.elapsedTime as number
+    const unit = input.timeUnit as HalfLifeUnit
+    const result = radioactiveDecay(N0, halfLife, t)
+
+    return {
+      result: {
+        ...result,
+        timeUnit: unit,
+        ...((input.curvePoints as number) > 0 && {
+          curve: generateDecayCurve(N0, halfLife, input.curvePoints as number),
+        }),
+      },
+      steps: [
+        'N = N₀ × (½)^(t / t½)',
+        `Half-lives elapsed: t / t½ = ${fmt(t)} / ${fmt(halfLife)} = ${fmt(result.numHalfLives)}`,
+        `N = ${fmt(N0)} × (½)^${fmt(result.numHalfLives)} = ${fmt(result.remainingAmount)}`,
+        `Decayed: ${fmt(N0)} − ${fmt(result.remainingAmount)} = ${fmt(result.decayedAmount)}`,
+        `Decay constant: λ = ln 2 / t½ = ${fmt(result.decayConstant)} per ${unit.replace(/s$/, '')}`,
+      ],
+    }
+  },
+}
+
+const halfLife: ChemistryOperation = {
+  engine: 'nuclear',
+  name: 'half-life',
+  summary: 'Half-life from the initial and remaining amounts: t½ = t·ln 2 / ln(N₀/N)',
+  body: {
+    initialAmount: AMOUNT('Initial amount N₀'),
+    remainingAmount: AMOUNT('Remaining amount N'),
+    elapsedTime: { type: 'number', description: 'Elapsed time', required: true, exclusiveMin: 0 },
+    timeUnit: TIME_UNIT,
+  },
+  example: { initialAmount: 100, remainingAmount: 25, elapsedTime: 10, timeUnit: 'days' },
+  run: (input) => {
+    const N0 = input.initialAmount as number
+    const N = input.remainingAmount as number
+    const t = input.elapsedTime as number
+    const value = halfLifeFromDecay(N0, N, t)
+    return {
+      result: { halfLife: value, decayConstant: Math.LN2 / value, timeUnit: input.timeUnit },
+      steps: [
+        't½ = t × ln 2 / ln(N₀ / N)',
+        `ln(N₀ / N) = ln(${fmt(N0)} / ${fmt(N)}) = ${fmt(Math.log(N0 / N))}`,
+        `t½ = ${fmt(t)} × ${fmt(Math.LN2)} / ${fmt(Math.log(N0 / N))} = ${fmt(value)} ${input.timeUnit}`,
+      ],
+    }
+  },
+}
+
+const decayTime: ChemistryOperation = {
+  engine: 'nuclear',
+  name: 'time-to-decay',
+  summary: 'Time for an amount to fall to a target: t = t½·ln(N₀/N) / ln 2',
+  body: {
+    initialAmount: AMOUNT('Initial amount N₀'),
+    targetAmount: AMOUNT('Target amount N'),
+    halfLife: { type: 'number', description: 'Half-life', required: true, exclusiveMin: 0 },
+    timeUnit: TIME_UNIT,
+  },
+  example: { initialAmount: 1, targetAmount: 0.1, halfLife: 8.02, timeUnit: 'days' },
+  run: (input) => {
+    const N0 = input.initialAmount as number
+    const N = input.targetAmount as number
+    const t12 = input.halfLife as number
+    const value = timeToDecay(N0, N, t12)
+    return {
+      result: { time: value, numHalfLives: value / t12, timeUnit: input.timeUnit },
+      steps: [
+        't = t½ × ln(N₀ / N) / ln 2',
+        `t = ${fmt(t12)} × ln(${fmt(N0)} / ${fmt(N)}) / ${fmt(Math.LN2)} = ${fmt(value)} ${input.timeUnit}`,
+        `That is ${fmt(value / t12)} half-lives`,
+      ],
+    }
+  },
+}
+
+export const NUCLEAR_OPERATIONS: ChemistryOperation[] = [decay, halfLife, decayTime]
@@ -0,0 +1,177 @@
+/**
+ * VerChem Chemistry API v1 — solution preparation (lib/calculations/solution-prep.ts)
+ */
+
+import {
+  calculateMixing,
+  calculateSerialDilution,
+  calculateStockPrep,
+  convertConcentration,
+  solveDilution,
+  UNIT_SHORT_LABELS,
+  type ConcentrationUnit,
+} from '@/lib/calculations/solution-prep'
+import { cleanSteps, fmt, type ChemistryOperation } from '../operation'
+
+const UNITS = Object.keys(UNIT_SHORT_LABELS) as ConcentrationUnit[]
+
+const CONCENTRATION = (description: string) => ({ type: 'number', description, min: 0 }) as const
+const VOLUME = (description: string) => ({ type: 'number', description, min: 0 }) as const
+
+const dilution: ChemistryOperation = {
+  engine: 'solution-prep',
+  name: 'dilution',
+  summary: 'Solve C1V1 = C2V2 for the one missing value (same concentration unit and same volume unit throughout)',
+  body: {
+    c1: CONCENTRATION('Stock concentration'),
+    v1: VOLUME('Stock volume'),
+    c2: CONCENTRATION('Final concentration'),
+    v2: VOLUME('Final volume'),
+  },
+  example: { c1: 12, c2: 1, v2: 500 },
+  run: (input) => {
+    const result = solveDilution({
+      c1: input.c1 as number | undefined,
+      v1: input.v1 as number | undefined,
+      c2: input.c2 as number | undefined,
+      v2: input.v2 as number | undefined,
+    })
+    const formulas: Record<string, string> = {
+      c1: 'C1 = C2·V2 / V1',
+      v1: 'V1 = C2·V2 / C1',
+      c2: 'C2 = C1·V1 / V2',
+      v2: 'V2 = C1·V1 / C2',
+    }
+    const solved = result.solvedFor as keyof typeof formulas
+    const steps = [
+      'C1 × V1 = C2 × V2',
+      `Solve for ${solved.toUpperCase()}: ${formulas[solved]}`,
+      `${solved.toUpperCase()} = ${fmt(result[solved as 'c1' | 'v1' | 'c2' | 'v2'])}`,
+    ]
+    if (solved === 'v1') {
+      steps.push(`Dilute ${fmt(result.v1)} of stock with ${fmt(result.v2 - result.v1)} of solvent to ${fmt(result.v2)}`)
+    }
+    return { result: { ...result }, steps }
+  },
+}
+
+const stock: ChemistryOperation = {
+  engine: 'solution-prep',
+  name: 'stock',
+  summary: 'Mass of solute to weigh for a target concentration and volume, with preparation steps',
+  body: {
+    targetConc: { type: 'number', description: 'Target concentration (in `unit`)', required: true, exclusiveMin: 0 },
+    targetVolume: { type: 'number', description: 'Target volume', unit: 'L', required: true, exclusiveMin: 0 },
+    molarMass: { type: 'number', description: 'Molar mass of the solute', unit: 'g/mol', required: true, exclusiveMin: 0 },
+    unit: { type: 'string', description: 'Concentration unit of targetConc', enum: UNITS, default: 'mol/L' },
+  },
+  example: { targetConc: 0.1, targetVolume: 0.5, molarMass: 58.44, unit: 'mol/L' },
+  run: (input) => {
+    const result = calculateStockPrep({
+      targetConc: input.targetConc as number,
+      targetVolume: input.targetVolume as number,
+      molarMass: input.molarMass as number,
+      unit: input.unit as ConcentrationUnit,
+    })
+    return { result: { massNeeded: result.massNeeded, unit: 'g' }, steps: cleanSteps(result.steps) }
+  },
+}
+
+const serialDilution: ChemistryOperation = {
+  engine: 'solution-prep',
+  name: 'serial-dilution',
+  summary: 'Concentration and transfer/diluent volumes for each tube of a serial dilution',
+  body: {
+    initialConc: { type: 'number', description: 'Starting concentration (any unit)', required: true, exclusiveMin: 0 },
+    dilutionFactor: { type: 'number', description: 'Dilution per tube, e.g. 10 for 1:10', required: true, exclusiveMin: 1 },
+    numDilutions: { type: 'integer', description: 'Number of tubes', required: true, min: 1, max: 50 },
+    transferVolume: { type: 'number', description: 'Volume carried to the next tube', unit: 'mL', required: true, exclusiveMin: 0 },
+  },
+  example: { initialConc: 1, dilutionFactor: 10, numDilutions: 5, transferVolume: 1 },
+  run: (input) => {
+    const result = calculateSerialDilution({
+      initialConc: input.initialConc as number,
+      dilutionFactor: input.dilutionFactor as number,
+      numDilutions: input.numDilutions as number,
+      transferVolume: input.transferVolume as number,
+    })
+    return {
+      // The engine calls its tubes "steps"; here `steps` is the worked explanation.
+      result: { tubes: result.steps },
+      steps: [
+        `Each tube: ${fmt(input.transferVolume as number)} mL carried over + diluent to ${fmt(result.steps[0].totalVolume)} mL (1:${fmt(input.dilutionFactor as number)})`,
+        ...result.steps.map(
+          (tube) =>
+            `Tube ${tube.step}: ${fmt(tube.transferVolume)} mL + ${fmt(tube.diluentVolume)} mL diluent → ${fmt(tube.concentration)}`
+        ),
+      ],
+    }
+  },
+}
+
+const convert: ChemistryOperation = {
+  engine: 'solution-prep',
+  name: 'convert',
+  summary: 'Convert a concentration between molar, mass/volume, percent, normality, ppm and ppb units',
+  body: {
+    value: { type: 'number', description: 'Concentration to convert', required: true, min: 0 },
+    fromUnit: { type: 'string', description: 'Unit of value', required: true, enum: UNITS },
+    toUnit: { type: 'string', description: 'Target unit', required: true, enum: UNITS },
+    molarMass: { type: 'number', description: 'Solute molar mass (molar ↔ mass conversions)', unit: 'g/mol', exclusiveMin: 0 },
+    density: { type: 'number', description: 'Solution density (% w/w conversions)', unit: 'g/mL', exclusiveMin: 0 },
+    equivalents: { type: 'number', description: 'Equivalents per mole (normality)', exclusiveMin: 0 },
+  },
+  example: { value: 0.5, fromUnit: 'mol/L', toUnit: 'g/L', molarMass: 58.44 },
+  run: (input) => {
+    const options = {
+      molarMass: input.molarMass as number | undefined,
+      density: input.density as number | undefined,
+      equivalents: input.equivalents as number | undefined,
+    }
+    const value = input.value as number
+    const fromUnit = input.fromUnit as ConcentrationUnit
+    const toUnit = input.toUnit as ConcentrationUnit
+    const result = convertConcentration({ value, fromUnit, toUnit, ...options })
+    // The engine converts through g/L; show that intermediate.
+    const gPerL = convertConcentration({ value, fromUnit, toUnit: 'g/L', ...options }).convertedValue
+    const from = UNIT_SHORT_LABELS[fromUnit]
+    const to = UNIT_SHORT_LABELS[toUnit]
+    const steps: string[] = []
+    if ([fromUnit, toUnit].some((unit) => unit === 'pct_ww' || unit === 'pct_vv') && options.density === undefined) {
+      steps.push('No density given: assuming 1 g/mL')
+    }
+    if (fromUnit !== 'g/L' && toUnit !== 'g/L' && fromUnit !== toUnit) {
+      steps.push(`${fmt(value)} ${from} = ${fmt(gPerL)} g/L`)
+      steps.push(`${fmt(gPerL)} g/L = ${fmt(result.convertedValue)} ${to}`)
+    }
+    steps.push(`${fmt(value)} ${from} = ${fmt(result.convertedValue)} ${to}`)
+    return { result: { ...result }, steps }
+  },
+}
+
+const mixing: ChemistryOperation = {
+  engine: 'solution-prep',
+  name: 'mixing',
+  summary: 'Concentration after mixing two solutions of the same solute: C = (C1V1 + C2V2) / (V1 + V2)',
+  body: {
+    c1: { ...CONCENTRATION('Concentration of solution 1'), required: true },
+    v1: { ...VOLUME('Volume of solution 1'), required: true },
+    c2: { ...CONCENTRATION('Concentration of solution 2'), required: true },
+    v2: { ...VOLUME('Volume of solution 2'), required: true },
+  },
+  example: { c1: 1, v1: 100, c2: 0.5, v2: 200 },
+  run: (input) => {
+    const [c1, v1, c2, v2] = (['c1', 'v1', 'c2', 'v2'] as const).map((key) => input[key] as number)
+    const result = calculateMixing({ c1, v1, c2, v2 })
+    return {
+      result: { ...result },
+      steps: [
+        'C = (C1·V1 + C2·V2) / (V1 + V2)',
+        `C = (${fmt(c1)} × ${fmt(v1)} + ${fmt(c2)} × ${fmt(v2)}) / (${fmt(v1)} + ${fmt(v2)})`,
+        `C = ${fmt(c1 * v1 + c2 * v2)} / ${fmt(result.finalVolume)} = ${fmt(result.finalConc)}`,
+      ],
+    }
+  },
+}
+
+export const SOLUTION_PREP_OPERATIONS: ChemistryOperation[] = [dilution, stock, serialDilution, convert, mixing]
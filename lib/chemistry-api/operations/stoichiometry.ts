@@ -0,0 +1,176 @@
+/**
+ * VerChem Chemistry API v1 — stoichiometry (lib/calculations/stoichiometry.ts)
+ */
+
+import { calculateMolecularMass, findLimitingReagent } from '@/lib/calculations/stoichiometry'
+import { getElementBySymbol } from '@/lib/data/periodic-table'
+import { isValidStandaloneFormula } from '@/lib/answer-cards/tools/_formula'
+import { TOOL_BY_NAME } from '@/lib/answer-cards/tools/registry'
+import { ChemistryApiError, calculationFailed } from '../errors'
+import { fmt, type ChemistryOperation } from '../operation'
+
+type Species = { formula: string; coefficient: number }
+
+function checkFormulas(field: string, items: Species[]): void {
+  items.forEach((item, i) => {
+    if (!isValidStandaloneFormula(item.formula)) {
+      throw new ChemistryApiError(400, 'INVALID_FIELD', `${field}[${i}].formula is not a valid formula: "${item.formula}"`, {
+        field: `${field}[${i}].formula`,
+      })
+    }
+  })
+}
+
+const FORMULA = { type: 'string', description: 'Chemical formula, e.g. H2, Ca(OH)2', required: true } as const
+const COEFFICIENT = { type: 'integer', description: 'Stoichiometric coefficient', required: true, min: 1, max: 1000 } as const
+
+const limitingReagent: ChemistryOperation = {
+  engine: 'stoichiometry',
+  name: 'limiting-reagent',
+  summary: 'Limiting reagent, leftover excess reagents and moles of each product from a balanced equation',
+  body: {
+    reactants: {
+      type: 'array',
+      description: 'Reactants with the moles available',
+      required: true,
+      minItems: 1,
+      maxItems: 20,
+      items: {
+        formula: FORMULA,
+        coefficient: COEFFICIENT,
+        moles: { type: 'number', description: 'Amount available', unit: 'mol', required: true, min: 0 },
+      },
+    },
+    products: {
+      type: 'array',
+      description: 'Products of the balanced equation',
+      required: true,
+      minItems: 1,
+      maxItems: 20,
+      items: { formula: FORMULA, coefficient: COEFFICIENT },
+    },
+  },
+  example: {
+    reactants: [
+      { formula: 'H2', coefficient: 2, moles: 3 },
+      { formula: 'O2', coefficient: 1, moles: 1 },
+    ],
+    products: [{ formula: 'H2O', coefficient: 2 }],
+  },
+  run: (input) => {
+    const reactants = input.reactants as (Species & { moles: number })[]
+    const products = input.products as Species[]
+    checkFormulas('reactants', reactants)
+    checkFormulas('products', products)
+    if (new Set(reactants.map((r) => r.formula)).size !== reactants.length) {
+      throw calculationFailed('Each reactant may appear only once')
+    }
+
+    const result = findLimitingReagent({ reactants }, products)
+    const limiting = reactants.find((r) => r.formula === result.limitingReagent)!
+    const extent = limiting.moles / limiting.coefficient
+
+    return {
+      result: { ...result },
+      steps: [
+        'Divide the moles of each reactant by its coefficient; the smallest ratio runs out first',
+        ...reactants.map((r) => `${r.formula}: ${fmt(r.moles)} mol ÷ ${r.coefficient} = ${fmt(r.moles / r.coefficient)}`),
+        `Limiting reagent: ${result.limitingReagent}`,
+        ...result.excessReagents.map(
+          (r) => `${r.formula} left over: ${fmt(r.excessMoles)} mol (${fmt(r.excessMass)} g)`
+        ),
+        ...products.map(
+          (p) => `${p.formula} formed: ${fmt(extent)} × ${p.coefficient} = ${fmt(result.molesProductFormed[p.formula])} mol`
+        ),
+      ],
+    }
+  },
+}
+
+const empiricalFormula: ChemistryOperation = {
+  engine: 'stoichiometry',
+  name: 'empirical-formula',
+  summary: 'Simplest whole-number formula from mass percent (or grams) of each element',
+  body: {
+    composition: {
+      type: 'array',
+      description: 'One entry per element',
+      required: true,
+      minItems: 1,
+      maxItems: 20,
+      items: {
+        element: { type: 'string', description: 'Element symbol', required: true, maxLength: 3 },
+        percent: { type: 'number', description: 'Mass percent (or grams) of this element', required: true, exclusiveMin: 0 },
+      },
+    },
+    molarMass: {
+      type: 'number',
+      description: 'Measured molar mass; when given, the molecular formula is derived too',
+      unit: 'g/mol',
+      exclusiveMin: 0,
+    },
+  },
+  example: {
+    composition: [
+      { element: 'C', percent: 40.0 },
+      { element: 'H', percent: 6.71 },
+      { element: 'O', percent: 53.29 },
+    ],
+    molarMass: 180.16,
+  },
+  run: (input) => {
+    const composition = input.composition as { element: string; percent: number }[]
+    const moles = composition.map(({ element, percent }, i) => {
+      const data = getElementBySymbol(element)
+      if (!data) {
+        throw new ChemistryApiError(400, 'INVALID_FIELD', `Unknown element symbol: "${element}"`, {
+          field: `composition[${i}].element`,
+        })
+      }
+      return { element, percent, atomicMass: data.atomicMass, moles: percent / data.atomicMass }
+    })
+
+    // The answer-card adapter wraps the engine with a mole-ratio postcondition
+    // (the engine's rounding can otherwise return a plausible wrong formula).
+    const verified = TOOL_BY_NAME.get('calculate_empirical_formula')!.execute({ composition })
+    if (!verified.ok) throw calculationFailed(verified.error ?? 'Could not determine the empirical formula')
+    const formula = verified.value.empirical_formula as string
+    const formulaMass = calculateMolecularMass(formula)
+    const smallest = Math.min(...moles.map((m) => m.moles))
+
+    const steps = [
+      'Assume 100 g of compound, so each percent is a mass in grams',
+      ...moles.map((m) => `${m.element}: ${fmt(m.percent)} g ÷ ${m.atomicMass} g/mol = ${fmt(m.moles)} mol`),
+      `Divide by the smallest amount (${fmt(smallest)} mol):`,
+      ...moles.map((m) => `${m.element}: ${fmt(m.moles / smallest)}`),
+      `Scale to whole numbers: empirical formula ${formula} (${fmt(formulaMass)} g/mol)`,
+    ]
+    const result: Record<string, unknown> = {
+      empiricalFormula: formula,
+      empiricalFormulaMass: formulaMass,
+      moleRatios: Object.fromEntries(moles.map((m) => [m.element, m.moles / smallest])),
+    }
+
+    if (input.molarMass !== undefined) {
+      const multiple = Math.round((input.molarMass as number) / formulaMass)
+      if (multiple < 1 || Math.abs((input.molarMass as number) / formulaMass - multiple) > 0.05) {
+        throw calculationFailed(
+          `molarMass ${input.molarMass} g/mol is not a whole-number multiple of the empirical formula mass ${fmt(formulaMass)} g/mol`
+        )
+      }
+      const molecularFormula = formula.replace(/([A-Z][a-z]?)(\d*)/g, (_, symbol: string, count: string) => {
+        const scaled = (count ? parseInt(count, 10) : 1) * multiple
+        return symbol + (scaled > 1 ? scaled : '')
+      })
+      result.multiple = multiple
+      result.molecularFormula = molecularFormula
+      steps.push(
+        `Molecular formula: ${input.molarMass} ÷ ${fmt(formulaMass)} ≈ ${multiple}, so ${molecularFormula}`
+      )
+    }
+
+    return { result, steps }
+  },
+}
+
+export const STOICHIOMETRY_OPERATIONS: ChemistryOperation[] = [limitingReagent, empiricalFormula]
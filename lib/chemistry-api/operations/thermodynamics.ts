@@ -0,0 +1,79 @@
+/**
+ * VerChem Chemistry API v1 — thermodynamics (lib/calculations/thermodynamics.ts)
+ */
+
+import { analyzeReaction, STANDARD_TEMPERATURE, THERMODYNAMIC_DATA } from '@/lib/calculations/thermodynamics'
+import { calculationFailed } from '../errors'
+import { cleanSteps, type ChemistryOperation } from '../operation'
+
+type Species = { formula: string; coefficient: number }
+
+const SPECIES_ITEMS = {
+  formula: {
+    type: 'string',
+    description: 'Formula with optional state, e.g. H2O(l), CO2(g) — must be in the standard-data table',
+    required: true,
+    maxLength: 30,
+  },
+  coefficient: { type: 'number', description: 'Stoichiometric coefficient', required: true, exclusiveMin: 0, max: 1000 },
+} as const
+
+const TABULATED = new Set(THERMODYNAMIC_DATA.map((entry) => entry.formula))
+
+const analyze: ChemistryOperation = {
+  engine: 'thermodynamics',
+  name: 'analyze-reaction',
+  summary: 'ΔH°, ΔS°, ΔG° and K for a reaction from standard formation data (Hess’s law)',
+  body: {
+    reactants: { type: 'array', description: 'Reactants', required: true, minItems: 1, maxItems: 20, items: SPECIES_ITEMS },
+    products: { type: 'array', description: 'Products', required: true, minItems: 1, maxItems: 20, items: SPECIES_ITEMS },
+    temperature: {
+      type: 'number',
+      description: 'Temperature for ΔG = ΔH − TΔS and K',
+      unit: 'K',
+      default: STANDARD_TEMPERATURE,
+      exclusiveMin: 0,
+      max: 10000,
+    },
+  },
+  example: {
+    reactants: [
+      { formula: 'CH4(g)', coefficient: 1 },
+      { formula: 'O2(g)', coefficient: 2 },
+    ],
+    products: [
+      { formula: 'CO2(g)', coefficient: 1 },
+      { formula: 'H2O(l)', coefficient: 2 },
+    ],
+  },
+  run: (input) => {
+    const reactants = input.reactants as Species[]
+    const products = input.products as Species[]
+    const missing = [...reactants, ...products]
+      .map((species) => species.formula)
+      .filter((formula) => !TABULATED.has(formula.replace(/\s+/g, '').replace(/\((aq|s|l|g|a)\)$/i, '')))
+    if (missing.length > 0) {
+      throw calculationFailed(`No standard thermodynamic data for: ${[...new Set(missing)].join(', ')}`)
+    }
+
+    const result = analyzeReaction(products, reactants, input.temperature as number)
+    if (!result) {
+      throw calculationFailed('No standard thermodynamic data for one of the species in the requested state')
+    }
+
+    return {
+      result: {
+        deltaH: result.deltaH,
+        deltaS: result.deltaS,
+        deltaG: result.deltaG,
+        K: result.K,
+        spontaneous: result.spontaneous,
+        temperature: result.temperature,
+        units: { deltaH: 'kJ/mol', deltaS: 'J/(mol·K)', deltaG: 'kJ/mol' },
+      },
+      steps: cleanSteps(result.steps),
+    }
+  },
+}
+
+export const THERMODYNAMICS_OPERATIONS: ChemistryOperation[] = [analyze]
@@ -0,0 +1,114 @@
+/**
+ * VerChem Chemistry API v1 — titration curves (lib/calculations/titration.ts)
+ *
+ * Monoprotic strong or weak acid titrated with a strong base, the case the
+ * engine models directly. Returns the full curve (volume, pH, indicator color)
+ * plus the landmarks.
+ */
+
+import { simulateTitration, INDICATORS, type Acid, type Base } from '@/lib/calculations/titration'
+import { ChemistryApiError, calculationFailed } from '../errors'
+import { cleanSteps, type ChemistryOperation } from '../operation'
+
+// The curve runs to twice the equivalence volume; keep responses bounded.
+const MAX_POINTS = 2000
+const DEFAULT_POINTS_TO_EQUIVALENCE = 50
+// Below this, water autoionization is no longer negligible (same floor as the answer-card tool)
+const MIN_CONCENTRATION_M = 1e-4
+
+const curve: ChemistryOperation = {
+  engine: 'titration',
+  name: 'curve',
+  summary: 'pH curve, equivalence and half-equivalence points for an acid titrated with a strong base',
+  body: {
+    acidType: { type: 'string', description: 'strong (HCl, HNO3…) or weak (CH3COOH…) monoprotic acid', required: true, enum: ['strong', 'weak'] },
+    acidConcentration: { type: 'number', description: 'Acid (analyte) concentration', unit: 'M', required: true, min: MIN_CONCENTRATION_M, max: 20 },
+    acidVolume: { type: 'number', description: 'Acid volume in the flask', unit: 'mL', required: true, exclusiveMin: 0, max: 10000 },
+    ka: { type: 'number', description: 'Acid dissociation constant (weak acids only)', exclusiveMin: 0, max: 1 },
+    baseConcentration: { type: 'number', description: 'Strong base (titrant) concentration', unit: 'M', required: true, min: MIN_CONCENTRATION_M, max: 20 },
+    baseHydroxideCount: { type: 'integer', description: 'OH⁻ per formula unit: 1 for NaOH, 2 for Ba(OH)2', default: 1, min: 1, max: 2 },
+    indicator: { type: 'string', description: 'Indicator for the color column', enum: INDICATORS.map((i) => i.name), default: 'Phenolphthalein' },
+    stepSize: {
+      type: 'number',
+      description: `Titrant increment between points (default: equivalence volume / ${DEFAULT_POINTS_TO_EQUIVALENCE})`,
+      unit: 'mL',
+      exclusiveMin: 0,
+    },
+  },
+  example: { acidType: 'weak', acidConcentration: 0.1, acidVolume: 25, ka: 1.8e-5, baseConcentration: 0.1 },
+  run: (input) => {
+    const acidType = input.acidType as 'strong' | 'weak'
+    const ka = input.ka as number | undefined
+    if (acidType === 'weak' && ka === undefined) {
+      throw new ChemistryApiError(400, 'MISSING_FIELD', 'Missing required field: ka (required for a weak acid)', { field: 'ka' })
+    }
+    if (acidType === 'strong' && ka !== undefined) {
+      throw new ChemistryApiError(400, 'INVALID_FIELD', 'ka applies only to weak acids; omit it for a strong acid', { field: 'ka' })
+    }
+
+    const hydroxideCount = input.baseHydroxideCount as number
+    const equivalenceVolume =
+      ((input.acidConcentration as number) * (input.acidVolume as number)) /
+      ((input.baseConcentration as number) * hydroxideCount)
+    const stepSize = (input.stepSize as number | undefined) ?? equivalenceVolume / DEFAULT_POINTS_TO_EQUIVALENCE
+    // A denormal volume or concentration underflows to 0 or overflows to Infinity;
+    // the point-count guard below compares NaN and the curve loop never ends
+    if (!(Number.isFinite(equivalenceVolume) && equivalenceVolume > 0 && Number.isFinite(stepSize) && stepSize > 0)) {
+      throw new ChemistryApiError(
+        400,
+        'INVALID_FIELD',
+        'The equivalence volume and step size must be finite and positive; check the volumes and concentrations',
+        { field: Number.isFinite(equivalenceVolume) && equivalenceVolume > 0 ? 'stepSize' : 'acidVolume' }
+      )
+    }
+    if ((2 * equivalenceVolume) / stepSize > MAX_POINTS) {
+      throw new ChemistryApiError(
+        400,
+        'INVALID_FIELD',
+        `stepSize too small: the curve would exceed ${MAX_POINTS} points (equivalence at ${equivalenceVolume.toPrecision(4)} mL)`,
+        { field: 'stepSize' }
+      )
+    }
+
+    const acid: Acid = {
+      name: acidType === 'weak' ? 'Weak acid' : 'Strong acid',
+      formula: 'HA',
+      concentration: input.acidConcentration as number,
+      volume: input.acidVolume as number,
+      type: acidType,
+      protonCount: 1,
+      ...(ka !== undefined && { Ka: ka, pKa: -Math.log10(ka) }),
+    }
+    const base: Base = {
+      name: 'Strong base',
+      formula: hydroxideCount === 2 ? 'M(OH)2' : 'MOH',
+      concentration: input.baseConcentration as number,
+      type: 'strong',
+      hydroxideCount,
+    }
+    const indicator = INDICATORS.find((candidate) => candidate.name === input.indicator)
+    if (!indicator) throw calculationFailed(`Unknown indicator: ${input.indicator}`)
+
+    const result = simulateTitration(acid, base, indicator, stepSize)
+    const [low, high] = indicator.transitionRange
+
+    return {
+      result: {
+        equivalencePoint: result.equivalencePoint,
+        ...(result.halfEquivalencePoint && { halfEquivalencePoint: result.halfEquivalencePoint }),
+        initialPH: result.initialPH,
+        finalPH: result.finalPH,
+        totalVolume: result.totalVolume,
+        indicator: {
+          name: indicator.name,
+          transitionRange: indicator.transitionRange,
+          equivalencePHInRange: result.equivalencePoint.pH >= low && result.equivalencePoint.pH <= high,
+        },
+        points: result.points,
+      },
+      steps: cleanSteps(result.steps),
+    }
+  },
+}
+
+export const TITRATION_OPERATIONS: ChemistryOperation[] = [curve]
@@ -0,0 +1,538 @@
+/**
+ * VerChem Chemistry API — route specs
+ *
+ * One entry per handler under app/api/chemistry: its query or body fields (the
+ * FieldSpecs the handler validates with) and the JSON Schema of its success
+ * response. GET /api/chemistry lists these, GET /api/chemistry/openapi.json is
+ * generated from them, and __tests__/chemistry-openapi.test.ts fails when a
+ * route file and this list disagree — add the entry with the route.
+ */
+
+import {
+  AMOUNT_UNITS,
+  CONCENTRATION_UNITS,
+  ENERGY_UNITS,
+  LENGTH_UNITS,
+  MASS_UNITS,
+  PRESSURE_UNITS,
+  TEMPERATURE_UNITS,
+  VOLUME_UNITS,
+} from '@/lib/units/types'
+import type { ConversionCategory } from '@/lib/units/conversions'
+import { batchBody } from './batch'
+import type { BodySchema } from './schema'
+
+export type HttpMethod = 'GET' | 'POST' | 'OPTIONS'
+
+/** JSON Schema (2020-12, the dialect of OpenAPI 3.1) for a response body. */
+export type JsonSchema = { [keyword: string]: unknown }
+
+export interface RouteSpec {
+  method: HttpMethod
+  /** OpenAPI path template: `/api/chemistry/v1/{engine}/{operation}`. */
+  path: string
+  summary: string
+  description?: string
+  query?: BodySchema
+  body?: BodySchema
+  /** Query parameters (GET) or JSON body (POST) of a request that succeeds. */
+  example?: Record<string, unknown>
+  response: JsonSchema
+  /** Statuses that return the error envelope, besides 200 (401/429 are added for every route). */
+  errors: number[]
+}
+
+export const CHEMISTRY_API_BASE = '/api/chemistry'
+
+// ---------------------------------------------------------------------------
+// Response schema helpers
+// ---------------------------------------------------------------------------
+
+const string: JsonSchema = { type: 'string' }
+const number: JsonSchema = { type: 'number' }
+const integer: JsonSchema = { type: 'integer' }
+const boolean: JsonSchema = { type: 'boolean' }
+const timestamp: JsonSchema = { type: 'string', format: 'date-time' }
+const success: JsonSchema = { const: true }
+const stringList: JsonSchema = { type: 'array', items: string }
+
+const nullable = (schema: JsonSchema): JsonSchema => ({ anyOf: [schema, { type: 'null' }] })
+
+function object(properties: Record<string, JsonSchema>, required = Object.keys(properties)): JsonSchema {
+  return { type: 'object', properties, required }
+}
+
+function arrayOf(items: JsonSchema): JsonSchema {
+  return { type: 'array', items }
+}
+
+/** A batch endpoint's response: one success or error entry per item, in order. */
+function batchResponse(result: JsonSchema): JsonSchema {
+  return object({
+    success,
+    count: integer,
+    succeeded: integer,
+    failed: integer,
+    results: arrayOf({
+      oneOf: [
+        object({ index: integer, success, input: { type: 'object' }, result }),
+        object(
+          {
+            index: integer,
+            success: { const: false },
+            input: { description: 'The item as sent' },
+            error: string,
+            code: string,
+            field: string,
+          },
+          ['index', 'success', 'input', 'error', 'code']
+        ),
+      ],
+    }),
+    timestamp,
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Data routes
+// ---------------------------------------------------------------------------
+
+const ELEMENT = object({
+  atomicNumber: integer,
+  symbol: string,
+  name: string,
+  atomicMass: number,
+  category: string,
+  group: nullable(integer),
+  period: integer,
+  electronConfiguration: string,
+  electronegativity: nullable(number),
+  oxidationStates: arrayOf(integer),
+  state: string,
+  meltingPoint: nullable(number),
+  boilingPoint: nullable(number),
+  density: nullable(number),
+})
+
+const COMPOUND_FIELDS = {
+  id: string,
+  name: string,
+  formula: string,
+  molecularMass: nullable(number),
+  casNumber: nullable(string),
+  category: string,
+  physicalProperties: object({
+    state: string,
+    meltingPoint: nullable(number),
+    boilingPoint: nullable(number),
+    density: nullable(number),
+  }),
+  hazards: stringList,
+  uses: stringList,
+}
+
+const COMPOUND = object(COMPOUND_FIELDS)
+
+const FORMULA_FIELD = {
+  type: 'string',
+  description: 'Chemical formula without parentheses (e.g. H2O, NaCl, C6H12O6)',
+  required: true,
+  maxLength: 100,
+} as const
+
+const MOLAR_MASS = {
+  formula: string,
+  molarMass: object({ value: number, unit: string, formatted: string }),
+  composition: arrayOf(
+    object({
+      element: string,
+      count: integer,
+      mass: object({ value: number, unit: string }),
+      percentage: object({ value: number, formatted: string }),
+    })
+  ),
+}
+
+export const MOLAR_MASS_ROUTE = {
+  method: 'GET',
+  path: '/api/chemistry/molar-mass',
+  summary: 'Calculate molar mass and percent composition from a formula',
+  query: { formula: FORMULA_FIELD },
+  example: { formula: 'H2O' },
+  response: object({ success, ...MOLAR_MASS, timestamp }),
+  errors: [400],
+} satisfies RouteSpec
+
+export const MOLAR_MASS_BATCH_ROUTE = {
+  method: 'POST',
+  path: '/api/chemistry/molar-mass/batch',
+  summary: 'Molar mass and percent composition for many formulas',
+  description: 'An invalid formula fails only its own item (code INVALID_FORMULA).',
+  body: batchBody({ formula: FORMULA_FIELD }, 'Formulas'),
+  example: { items: [{ formula: 'H2O' }, { formula: 'C6H12O6' }, { formula: 'Xy2' }] },
+  response: batchResponse(object(MOLAR_MASS)),
+  errors: [400, 402],
+} satisfies RouteSpec
+
+export const ELEMENTS_ROUTE = {
+  method: 'GET',
+  path: '/api/chemistry/elements',
+  summary: 'List elements, or look one up by symbol or atomic number',
+  query: {
+    symbol: { type: 'string', description: 'Element symbol, case-insensitive (e.g. Na)', maxLength: 3 },
+    number: { type: 'integer', description: 'Atomic number', min: 1, max: 118 },
+    category: { type: 'string', description: 'Filter by category (e.g. alkali-metal)' },
+    limit: { type: 'integer', description: 'Maximum elements returned (capped at 118)', min: 1 },
+  },
+  example: { symbol: 'Na' },
+  response: {
+    oneOf: [
+      object({ success, element: ELEMENT, timestamp }),
+      object({
+        success,
+        count: integer,
+        total: integer,
+        elements: arrayOf(ELEMENT),
+        categories: stringList,
+        timestamp,
+      }),
+    ],
+  },
+  errors: [400, 404],
+} satisfies RouteSpec
+
+export const COMPOUNDS_ROUTE = {
+  method: 'GET',
+  path: '/api/chemistry/compounds',
+  summary: 'Search the compounds database, or look one up by id',
+  query: {
+    q: { type: 'string', description: 'Search by name, formula or IUPAC name' },
+    category: { type: 'string', description: 'Filter by category (e.g. acid)' },
+    id: { type: 'string', description: 'Compound id (e.g. h2o)' },
+    limit: { type: 'integer', description: 'Maximum compounds returned (capped at 100)', min: 1, default: 50 },
+  },
+  example: { q: 'water' },
+  response: {
+    oneOf: [
+      object({ success, compound: COMPOUND, timestamp }),
+      object({
+        success,
+        count: integer,
+        total: integer,
+        compounds: arrayOf(COMPOUND),
+        categories: stringList,
+        filters: object({ query: nullable(string), category: nullable(string), limit: integer }),
+        timestamp,
+      }),
+    ],
+  },
+  errors: [400, 404],
+} satisfies RouteSpec
+
+export const COMPOUNDS_BATCH_ROUTE = {
+  method: 'POST',
+  path: '/api/chemistry/compounds/batch',
+  summary: 'Look up many compounds by name, formula or CAS number',
+  description:
+    'With by=auto a CAS number (e.g. 7732-18-5) is matched as CAS, anything else by name and then formula. ' +
+    'An item with no match fails on its own (code NOT_FOUND); other exact matches are listed as alternatives.',
+  body: batchBody(
+    {
+      query: { type: 'string', description: 'Name, formula or CAS number', required: true },
+      by: {
+        type: 'string',
+        description: 'What query is',
+        enum: ['auto', 'name', 'formula', 'cas'],
+        default: 'auto',
+      },
+    },
+    'Lookups'
+  ),
+  example: { items: [{ query: 'water' }, { query: 'NaCl', by: 'formula' }, { query: '64-17-5' }] },
+  response: batchResponse(
+    object({
+      query: string,
+      matchedBy: { enum: ['name', 'formula', 'cas'] },
+      compound: object({
+        ...COMPOUND_FIELDS,
+        percentComposition: { type: 'object', additionalProperties: number },
+      }),
+      alternatives: arrayOf(object({ id: string, name: string, formula: string })),
+    })
+  ),
+  errors: [400, 402],
+} satisfies RouteSpec
+
+/** Units accepted by /api/chemistry/convert, per category. */
+export const CONVERT_UNITS: Record<ConversionCategory, string[]> = {
+  temperature: Object.keys(TEMPERATURE_UNITS),
+  pressure: Object.keys(PRESSURE_UNITS),
+  volume: Object.keys(VOLUME_UNITS),
+  mass: Object.keys(MASS_UNITS),
+  length: Object.keys(LENGTH_UNITS),
+  energy: Object.keys(ENERGY_UNITS),
+  amount: Object.keys(AMOUNT_UNITS),
+  concentration: Object.keys(CONCENTRATION_UNITS),
+  density: ['kgm3', 'gcm3', 'gmL', 'kgL', 'lbft3', 'lbgal'],
+  time: ['s', 'ms', 'us', 'ns', 'min', 'h', 'd'],
+  flowRate: ['m3s', 'm3h', 'm3d', 'Ls', 'Lmin', 'gpm', 'MGD'],
+}
+
+const CONVERSION_FIELDS = {
+  value: { type: 'number', description: 'Value to convert', required: true },
+  from: { type: 'string', description: 'Source unit', required: true, maxLength: 10 },
+  to: { type: 'string', description: 'Target unit', required: true, maxLength: 10 },
+  category: {
+    type: 'string',
+    description: 'Unit category',
+    required: true,
+    enum: Object.keys(CONVERT_UNITS),
+  },
+} satisfies BodySchema
+
+const CONVERSION = {
+  input: object({ value: number, unit: string }),
+  output: object({ value: number, unit: string, formatted: string }),
+  category: string,
+}
+
+export const CONVERT_ROUTE = {
+  method: 'GET',
+  path: '/api/chemistry/convert',
+  summary: 'Convert a value between units of one category',
+  description: 'OPTIONS /api/chemistry/convert lists the units of each category.',
+  query: CONVERSION_FIELDS,
+  example: { value: 100, from: 'C', to: 'F', category: 'temperature' },
+  response: object({ success, ...CONVERSION, timestamp }),
+  errors: [400, 500],
+} satisfies RouteSpec
+
+export const CONVERT_BATCH_ROUTE = {
+  method: 'POST',
+  path: '/api/chemistry/convert/batch',
+  summary: 'Convert many values, each between units of its own category',
+  description: 'A unit outside its category fails only its own item (code INVALID_FIELD).',
+  body: batchBody(CONVERSION_FIELDS, 'Conversions'),
+  example: {
+    items: [
+      { value: 100, from: 'C', to: 'F', category: 'temperature' },
+      { value: 1, from: 'atm', to: 'kPa', category: 'pressure' },
+      { value: 5, from: 'g', to: 'K', category: 'mass' },
+    ],
+  },
+  response: batchResponse(object(CONVERSION)),
+  errors: [400, 402],
+} satisfies RouteSpec
+
+export const CONVERT_UNITS_ROUTE = {
+  method: 'OPTIONS',
+  path: '/api/chemistry/convert',
+  summary: 'List unit categories and their units',
+  response: object({ categories: arrayOf(object({ name: string, units: stringList })) }),
+  errors: [],
+} satisfies RouteSpec
+
+export const PH_ROUTE = {
+  method: 'GET',
+  path: '/api/chemistry/ph',
+  summary: 'Calculate pH, pOH, [H+] and [OH-] at 25 °C from any one of them',
+  description: 'Give one of h, oh, ph, poh; if several are given the first in that order is used.',
+  query: {
+    h: { type: 'number', description: 'H+ concentration', unit: 'mol/L', exclusiveMin: 0 },
+    oh: { type: 'number', description: 'OH- concentration', unit: 'mol/L', exclusiveMin: 0 },
+    ph: { type: 'number', description: 'pH', min: 0, max: 14 },
+    poh: { type: 'number', description: 'pOH', min: 0, max: 14 },
+  },
+  example: { h: 0.001 },
+  response: object({
+    success,
+    result: object({
+      pH: object({ value: number, formatted: string }),
+      pOH: object({ value: number, formatted: string }),
+      hConcentration: object({ value: number, unit: string, scientific: string }),
+      ohConcentration: object({ value: number, unit: string, scientific: string }),
+      acidity: { enum: ['acidic', 'neutral', 'basic'] },
+      description: string,
+    }),
+    constants: object({ Kw: object({ value: number, description: string }) }),
+    timestamp,
+  }),
+  errors: [400, 500],
+} satisfies RouteSpec
+
+// ---------------------------------------------------------------------------
+// Calculation routes
+// ---------------------------------------------------------------------------
+
+export const BALANCE_ROUTE = {
+  method: 'POST',
+  path: '/api/chemistry/balance',
+  summary: 'Balance a chemical equation, verify atom counts and identify the reaction type',
+  body: {
+    equation: {
+      type: 'string',
+      description:
+        'Equation with ->, =>, = or → between sides (e.g. "Fe + O2 -> Fe2O3"); ions (Fe3+, MnO4-) and electrons (e-) allowed',
+      required: true,
+      maxLength: 300,
+    },
+    netIonic: {
+      type: 'boolean',
+      description: 'Also return the complete and net ionic equations and the spectator ions',
+      default: false,
+    },
+  },
+  example: { equation: 'Fe + O2 -> Fe2O3' },
+  response: object(
+    {
+      success,
+      equation: string,
+      balanced: string,
+      coefficients: arrayOf(integer),
+      reactants: arrayOf(object({ formula: string, coefficient: integer })),
+      products: arrayOf(object({ formula: string, coefficient: integer })),
+      verification: object(
+        {
+          balanced: boolean,
+          elements: arrayOf(object({ element: string, reactants: number, products: number, balanced: boolean })),
+          charge: object({ reactants: integer, products: integer, balanced: boolean }),
+        },
+        ['balanced', 'elements']
+      ),
+      reactionType: object({ type: string, label: string, description: string }),
+      netIonic: object({
+        molecular: string,
+        completeIonic: string,
+        netIonic: string,
+        noReaction: boolean,
+        spectators: arrayOf(object({ formula: string, coefficient: integer })),
+        species: arrayOf(
+          object({
+            formula: string,
+            state: nullable({ enum: ['s', 'l', 'g', 'aq'] }),
+            dissociates: boolean,
+            reason: string,
+          })
+        ),
+      }),
+      timestamp,
+    },
+    [
+      'success',
+      'equation',
+      'balanced',
+      'coefficients',
+      'reactants',
+      'products',
+      'verification',
+      'reactionType',
+      'timestamp',
+    ]
+  ),
+  errors: [400, 422, 500],
+} satisfies RouteSpec
+
+export const V1_INDEX_ROUTE = {
+  method: 'GET',
+  path: '/api/chemistry/v1',
+  summary: 'List the v1 calculation endpoints with their body schemas and examples',
+  response: object({
+    name: string,
+    version: { const: 'v1' },
+    base: string,
+    description: string,
+    response: object({ success: string, error: string }),
+    endpoints: arrayOf(
+      object({ method: string, path: string, summary: string, body: { type: 'object' }, example: { type: 'object' } })
+    ),
+    timestamp,
+  }),
+  errors: [],
+} satisfies RouteSpec
+
+/**
+ * The dynamic v1 handler. Its body depends on the operation, so the OpenAPI
+ * document lists one path per V1_OPERATIONS entry instead of this template.
+ */
+export const V1_OPERATION_ROUTE = {
+  method: 'POST',
+  path: '/api/chemistry/v1/{engine}/{operation}',
+  summary: 'Run a v1 calculation',
+  response: object({
+    success,
+    endpoint: string,
+    input: { type: 'object', description: 'The validated body with defaults applied' },
+    result: { type: 'object' },
+    steps: { ...stringList, description: 'The worked solution, one line per entry' },
+    timestamp,
+  }),
+  errors: [400, 404, 422, 500],
+} satisfies RouteSpec
+
+// ---------------------------------------------------------------------------
+// Documentation routes
+// ---------------------------------------------------------------------------
+
+export const INDEX_ROUTE = {
+  method: 'GET',
+  path: '/api/chemistry',
+  summary: 'API information and the list of endpoints',
+  response: object(
+    {
+      name: string,
+      version: string,
+      description: string,
+      documentation: string,
+      openapi: string,
+      endpoints: arrayOf(object({ method: string, path: string, summary: string }, ['method', 'path', 'summary'])),
+      status: string,
+      timestamp,
+    },
+    ['name', 'version', 'endpoints', 'timestamp']
+  ),
+  errors: [],
+} satisfies RouteSpec
+
+export const OPENAPI_ROUTE = {
+  method: 'GET',
+  path: '/api/chemistry/openapi.json',
+  summary: 'OpenAPI 3.1 description of this API',
+  response: object({ openapi: string, info: { type: 'object' }, paths: { type: 'object' } }),
+  errors: [],
+} satisfies RouteSpec
+
+export const CHEMISTRY_ROUTES: RouteSpec[] = [
+  INDEX_ROUTE,
+  OPENAPI_ROUTE,
+  MOLAR_MASS_ROUTE,
+  MOLAR_MASS_BATCH_ROUTE,
+  ELEMENTS_ROUTE,
+  COMPOUNDS_ROUTE,
+  COMPOUNDS_BATCH_ROUTE,
+  CONVERT_ROUTE,
+  CONVERT_BATCH_ROUTE,
+  CONVERT_UNITS_ROUTE,
+  PH_ROUTE,
+  BALANCE_ROUTE,
+  V1_INDEX_ROUTE,
+  V1_OPERATION_ROUTE,
+]
+
+function exampleFor(route: RouteSpec): string | undefined {
+  if (!route.example) return undefined
+  if (route.method === 'POST') return `POST ${route.path} ${JSON.stringify(route.example)}`
+  const query = new URLSearchParams(Object.entries(route.example).map(([k, v]) => [k, String(v)]))
+  return `${route.path}?${query}`
+}
+
+/** The endpoint list served by GET /api/chemistry. */
+export function describeRoutes() {
+  return CHEMISTRY_ROUTES.map((route) => ({
+    method: route.method,
+    path: route.path,
+    summary: route.summary,
+    ...(route.query && { params: route.query }),
+    ...(route.body && { body: route.body }),
+    ...(route.example && { example: exampleFor(route) }),
+  }))
+}
@@ -0,0 +1,187 @@
+/**
+ * VerChem Chemistry API v1 — request schemas
+ *
+ * Every /api/chemistry/v1 operation declares its JSON body as a map of fields,
+ * and validateBody() enforces it the same way for all of them: JSON types only
+ * (no numeric strings), finite numbers, bounds, enums, required fields, and no
+ * unknown keys — a typo like "temprature" fails instead of silently falling
+ * back to a default. The same specs are listed by GET /api/chemistry/v1.
+ *
+ * The older GET routes declare their query strings with the same FieldSpec and
+ * go through validateQuery(), which parses the strings first.
+ */
+
+import { ChemistryApiError } from './errors'
+
+export type FieldType = 'number' | 'integer' | 'string' | 'boolean' | 'array'
+
+export interface FieldSpec {
+  type: FieldType
+  description: string
+  required?: boolean
+  /** Applied when the field is absent (never when it is present but invalid). */
+  default?: unknown
+  unit?: string
+  /** Inclusive lower bound. */
+  min?: number
+  /** Exclusive lower bound — most physical quantities must be > 0. */
+  exclusiveMin?: number
+  /** Inclusive upper bound. */
+  max?: number
+  enum?: readonly string[]
+  maxLength?: number
+  /** Arrays are arrays of objects; this is the shape of each item. */
+  items?: Record<string, FieldSpec>
+  minItems?: number
+  maxItems?: number
+}
+
+export type BodySchema = Record<string, FieldSpec>
+
+/** Upper bound for any array field without its own maxItems. */
+const DEFAULT_MAX_ITEMS = 100
+const DEFAULT_MAX_LENGTH = 100
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function invalid(field: string, message: string): ChemistryApiError {
+  return new ChemistryApiError(400, 'INVALID_FIELD', `${field} ${message}`, { field })
+}
+
+function validateValue(field: string, spec: FieldSpec, value: unknown, deep: boolean): unknown {
+  switch (spec.type) {
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw invalid(field, 'must be a finite number')
+      }
+      if (spec.type === 'integer' && !Number.isInteger(value)) throw invalid(field, 'must be an integer')
+      if (spec.min !== undefined && value < spec.min) throw invalid(field, `must be at least ${spec.min}`)
+      if (spec.exclusiveMin !== undefined && value <= spec.exclusiveMin) {
+        throw invalid(field, `must be greater than ${spec.exclusiveMin}`)
+      }
+      if (spec.max !== undefined && value > spec.max) throw invalid(field, `must be at most ${spec.max}`)
+      return value
+    }
+    case 'string': {
+      if (typeof value !== 'string' || value.trim() === '') throw invalid(field, 'must be a non-empty string')
+      const maxLength = spec.maxLength ?? DEFAULT_MAX_LENGTH
+      if (value.length > maxLength) throw invalid(field, `must be at most ${maxLength} characters`)
+      if (spec.enum && !spec.enum.includes(value)) throw invalid(field, `must be one of: ${spec.enum.join(', ')}`)
+      return value.trim()
+    }
+    case 'boolean': {
+      if (typeof value !== 'boolean') throw invalid(field, 'must be true or false')
+      return value
+    }
+    case 'array': {
+      if (!Array.isArray(value)) throw invalid(field, 'must be an array')
+      const maxItems = spec.maxItems ?? DEFAULT_MAX_ITEMS
+      if (spec.minItems !== undefined && value.length < spec.minItems) {
+        throw invalid(field, `needs at least ${spec.minItems} item${spec.minItems === 1 ? '' : 's'}`)
+      }
+      if (value.length > maxItems) throw invalid(field, `allows at most ${maxItems} items`)
+      return deep ? value.map((item, i) => validateObject(item, spec.items ?? {}, `${field}[${i}]`)) : value
+    }
+  }
+}
+
+function validateObject(raw: unknown, schema: BodySchema, path: string, deep = true): Record<string, unknown> {
+  if (!isPlainObject(raw)) {
+    throw path
+      ? invalid(path, 'must be an object')
+      : new ChemistryApiError(400, 'INVALID_BODY', 'Request body must be a JSON object')
+  }
+
+  const prefix = path ? `${path}.` : ''
+  for (const key of Object.keys(raw)) {
+    if (!Object.hasOwn(schema, key)) {
+      throw new ChemistryApiError(400, 'UNKNOWN_FIELD', `Unknown field: ${prefix}${key}`, {
+        field: `${prefix}${key}`,
+        allowed: Object.keys(schema),
+      })
+    }
+  }
+
+  const out: Record<string, unknown> = {}
+  for (const [key, spec] of Object.entries(schema)) {
+    const value = raw[key]
+    if (value === undefined || value === null) {
+      if (spec.required) {
+        throw new ChemistryApiError(400, 'MISSING_FIELD', `Missing required field: ${prefix}${key}`, {
+          field: `${prefix}${key}`,
+        })
+      }
+      if (value === null) throw invalid(`${prefix}${key}`, 'must not be null (omit it instead)')
+      if (spec.default !== undefined) out[key] = spec.default
+      continue
+    }
+    out[key] = validateValue(`${prefix}${key}`, spec, value, deep)
+  }
+  return out
+}
+
+/** Validated copy of `body`: defaults applied, strings trimmed, unknown keys rejected. */
+export function validateBody(body: unknown, schema: BodySchema): Record<string, unknown> {
+  return validateObject(body, schema, '')
+}
+
+/**
+ * validateBody() for batch endpoints: array fields are checked as arrays
+ * (type, minItems, maxItems) but their items are left as sent, to be checked
+ * one at a time with validateBatchItem() so one bad item fails only itself.
+ */
+export function validateBatchBody(body: unknown, schema: BodySchema): Record<string, unknown> {
+  return validateObject(body, schema, '', false)
+}
+
+/** One item of a validateBatchBody() array; errors name it, e.g. `items[3].formula`. */
+export function validateBatchItem(
+  item: unknown,
+  schema: BodySchema,
+  field: string,
+  index: number
+): Record<string, unknown> {
+  return validateObject(item, schema, `${field}[${index}]`)
+}
+
+function parseQueryValue(field: string, spec: FieldSpec, value: string): unknown {
+  switch (spec.type) {
+    case 'number':
+    case 'integer': {
+      // Number(), not parseFloat: "1abc" is rejected instead of read as 1.
+      const n = Number(value.trim())
+      if (!Number.isFinite(n)) throw invalid(field, 'must be a finite number')
+      return n
+    }
+    case 'boolean': {
+      if (value !== 'true' && value !== 'false') throw invalid(field, 'must be true or false')
+      return value === 'true'
+    }
+    case 'array':
+      throw invalid(field, 'cannot be given in a query string')
+    case 'string':
+      return value
+  }
+}
+
+/**
+ * Validated query parameters: numbers and booleans parsed strictly, an empty
+ * value (`?limit=`) treated as absent, then the same checks as validateBody.
+ * A repeated parameter uses its first value, like URLSearchParams.get().
+ */
+export function validateQuery(params: URLSearchParams, schema: BodySchema): Record<string, unknown> {
+  const raw: Record<string, unknown> = {}
+  for (const [key, value] of params) {
+    if (Object.hasOwn(raw, key)) continue
+    if (!Object.hasOwn(schema, key)) {
+      raw[key] = value
+      continue
+    }
+    if (value.trim() === '') continue
+    raw[key] = parseQueryValue(key, schema[key], value)
+  }
+  return validateObject(raw, schema, '')
+}
@@ -0,0 +1,74 @@
+/**
+ * VerChem Chemistry API — rate limiting for every /api/chemistry handler
+ *
+ *   export const GET = withApiRateLimit(async (request) => { ... })
+ *
+ * Counts the request per API key or per client (lib/api-keys/rate-limit.ts),
+ * answers 401 INVALID_API_KEY / 429 RATE_LIMITED in the shared error envelope,
+ * and puts the X-RateLimit-* headers on every response, including errors.
+ * The handler can read the caller's tier with apiCallerTier(request).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { checkApiRateLimit } from '@/lib/api-keys/rate-limit'
+import type { SubscriptionTier } from '@/lib/vercal/types'
+import { ChemistryApiError, errorBody } from './errors'
+
+const callerTiers = new WeakMap<Request, SubscriptionTier>()
+
+/**
+ * The tier the request's API key was counted under — its owner's tier as of
+ * this request (see keyTier in lib/api-keys); free without a key.
+ */
+export function apiCallerTier(request: Request): SubscriptionTier {
+  return callerTiers.get(request) ?? 'free'
+}
+
+// Loaded only when a request presents a key: the store is server-only and
+// anonymous requests never need it.
+async function loadApiKeyStore() {
+  const { getApiKeyStore } = await import('@/lib/supabase/api-keys')
+  return getApiKeyStore()
+}
+
+export function withApiRateLimit<Context extends unknown[]>(
+  handler: (request: NextRequest, ...context: Context) => Promise<Response>
+) {
+  return async (request: NextRequest, ...context: Context): Promise<Response> => {
+    let decision
+    try {
+      decision = await checkApiRateLimit(request, { store: loadApiKeyStore })
+    } catch (err) {
+      console.error(`${request.method} ${request.nextUrl.pathname} API key check error:`, err)
+      return NextResponse.json(
+        errorBody(new ChemistryApiError(500, 'INTERNAL_ERROR', 'Internal server error')),
+        { status: 500, headers: { 'X-API-Version': '1.0.0' } }
+      )
+    }
+
+    if (!decision.allowed) {
+      const err = new ChemistryApiError(decision.status, decision.code, decision.error, {
+        scope: decision.scope,
+        ...(decision.retryAfter !== undefined && { retryAfter: decision.retryAfter }),
+        documentation: '/api/chemistry',
+      })
+      return NextResponse.json(errorBody(err), {
+        status: err.status,
+        headers: { ...decision.headers, 'X-API-Version': '1.0.0' },
+      })
+    }
+
+    if (decision.tier) callerTiers.set(request, decision.tier)
+    const response = await handler(request, ...context)
+    for (const [name, value] of Object.entries(decision.headers)) {
+      response.headers.set(name, value)
+    }
+    // The headers (and the count) are per caller: a shared cache must not
+    // replay them to someone else or serve hits the limiter never sees.
+    const cacheControl = response.headers.get('Cache-Control')
+    if (cacheControl?.includes('public')) {
+      response.headers.set('Cache-Control', cacheControl.replace('public', 'private'))
+    }
+    return response
+  }
+}
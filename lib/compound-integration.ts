@@ -251,6 +251,77 @@ export function getEducationalCompounds(level: 'basic' | 'intermediate' | 'advan
   return compounds
 }
 
+export type CompoundLookupKind = 'name' | 'formula' | 'cas'
+
+export interface CompoundLookup {
+  query: string
+  /** 'auto' (default): a CAS number by its shape, otherwise name, then formula. */
+  by?: CompoundLookupKind | 'auto'
+}
+
+export interface CompoundLookupResult {
+  query: string
+  matchedBy: CompoundLookupKind | null
+  compound: EnhancedCompound | null
+  /** Other compounds matching just as well (e.g. isomers sharing a formula). */
+  alternatives: Compound[]
+}
+
+const CAS_PATTERN = /^\d{2,7}-\d{2}-\d$/
+
+function normalizeCas(cas: string): string {
+  return cas.replace(/\s+/g, '')
+}
+
+function compoundMatches(query: string, by: CompoundLookupKind): Compound[] {
+  const q = query.trim()
+  const lower = q.toLowerCase()
+  switch (by) {
+    case 'cas': {
+      const cas = normalizeCas(q)
+      return COMPREHENSIVE_COMPOUNDS.filter(c => {
+        const own = c.casNumber ?? c.cas
+        return own !== undefined && normalizeCas(own) === cas
+      })
+    }
+    case 'name':
+      return COMPREHENSIVE_COMPOUNDS.filter(c =>
+        c.name.toLowerCase() === lower ||
+        c.iupacName?.toLowerCase() === lower ||
+        c.id.toLowerCase() === lower
+      )
+    case 'formula': {
+      // Formulas are case-significant (CO vs Co); fall back to a
+      // case-insensitive match like getCompoundForStoichiometry().
+      const exact = COMPREHENSIVE_COMPOUNDS.filter(c => c.formula === q)
+      return exact.length > 0 ? exact : COMPREHENSIVE_COMPOUNDS.filter(c => c.formula.toLowerCase() === lower)
+    }
+  }
+}
+
+/**
+ * Look a compound up by name, formula or CAS number
+ */
+export function lookupCompound({ query, by = 'auto' }: CompoundLookup): CompoundLookupResult {
+  const kinds: CompoundLookupKind[] =
+    by !== 'auto' ? [by] : CAS_PATTERN.test(normalizeCas(query.trim())) ? ['cas'] : ['name', 'formula']
+
+  for (const kind of kinds) {
+    const [first, ...alternatives] = compoundMatches(query, kind)
+    if (first) {
+      return { query, matchedBy: kind, compound: enhanceCompoundData(first), alternatives }
+    }
+  }
+  return { query, matchedBy: null, compound: null, alternatives: [] }
+}
+
+/**
+ * Look up many compounds at once; one result per lookup, in order
+ */
+export function batchLookupCompounds(lookups: CompoundLookup[]): CompoundLookupResult[] {
+  return lookups.map(lookupCompound)
+}
+
 /**
  * Batch process compounds for calculator integration
  */
@@ -265,7 +336,7 @@ export function batchProcessCompounds(formulas: string[]): {
   
   formulas.forEach(formula => {
     try {
-      const compound = getCompoundForStoichiometry(formula)
+      const { compound } = lookupCompound({ query: formula, by: 'formula' })
       if (compound) {
         successful.push(compound)
       } else {
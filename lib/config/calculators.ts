@@ -94,6 +94,22 @@ export const VERCHEM_CALCULATORS: Calculator[] = [
     path: '/calculators/kinetics',
     icon: '⏱️',
   },
+  {
+    id: 'speciation',
+    name: 'Acid-Base Speciation',
+    description: 'Alpha fractions, distribution diagrams, mixture pH',
+    tier: 'free',
+    path: '/calculators/speciation',
+    icon: '📊',
+  },
+  {
+    id: 'equilibrium',
+    name: 'Chemical Equilibrium',
+    description: 'ICE tables, reaction quotient, Kc ↔ Kp',
+    tier: 'free',
+    path: '/calculators/equilibrium',
+    icon: '⚖️',
+  },
   {
     id: 'electrochemistry',
     name: 'Electrochemistry Calculator',
@@ -30,6 +30,8 @@ export const PRODUCT_CONFIG: ProductConfig = {
     'gas-laws-full',
     'thermodynamics',
     'kinetics',
+    'equilibrium',
+    'speciation',
     'electrochemistry',
     'electron-config',
     'periodic-table',
@@ -0,0 +1,311 @@
+/**
+ * Entitlements — what a tier may do, enforced by API routes
+ *
+ * FEATURE_LIMITS / TIER_HIERARCHY (lib/vercal) describe the plans; this
+ * module turns them into decisions a route can act on:
+ *
+ *   checkEntitlement(feature, tier)                 minimum tier only
+ *   checkEntitlement(feature, tier, { saved })      items kept at once (molecules)
+ *   savedLimit(feature, tier)                       the same cap, for a store to enforce
+ *   checkEntitlement(feature, tier, { items })      items in one request (batches)
+ *   consumeQuota(feature, caller, amount, store)    per-period usage (cards per day)
+ *
+ * A refusal names the lowest tier that would have allowed the call:
+ * 402 when an upgrade helps (`requiredTier` set), 403 when no plan does
+ * (`requiredTier: null`). Quota periods are UTC calendar days/months; the
+ * counts live in a UsageStore — memory here, the Supabase `feature_usage`
+ * table in lib/supabase/entitlements.ts.
+ *
+ * The caller's tier must come from the verified session (and the Stripe
+ * subscription, see resolveEntitledTier), never from the request.
+ */
+
+import { NextResponse } from 'next/server'
+import { ANSWER_CARD_DAILY_LIMITS } from '@/lib/rate-limit'
+import { FEATURE_LIMITS, TIER_HIERARCHY } from '@/lib/vercal/constants'
+import { getTierDisplayName } from '@/lib/vercal/subscription'
+import type { SubscriptionTier } from '@/lib/vercal/types'
+
+export type Feature = 'answer-card' | 'answer-card-pdf' | 'molecule-save' | 'chemistry-batch'
+export type QuotaPeriod = 'day' | 'month'
+
+type TierLimits = Record<SubscriptionTier, number>
+
+export interface FeatureRule {
+  /** For messages: "<name> requires the Student plan". */
+  name: string
+  requiredTier: SubscriptionTier
+  /** Units per UTC day or month (consumeQuota). */
+  quota?: { period: QuotaPeriod; limits: TierLimits }
+  /** Items a user may keep saved at once. */
+  saved?: TierLimits
+  /** Items in one request. */
+  items?: TierLimits
+}
+
+/**
+ * Every caller may send batches this small — enough for a problem set or the
+ * API examples. Larger batches are FEATURE_LIMITS[tier].batchSize (Professional+).
+ */
+export const FREE_BATCH_ITEMS = 10
+
+/** Tiers from lowest to highest. */
+const TIERS = (Object.keys(TIER_HIERARCHY) as SubscriptionTier[]).sort(
+  (a, b) => TIER_HIERARCHY[a] - TIER_HIERARCHY[b]
+)
+
+function byTier(limit: (tier: SubscriptionTier) => number): TierLimits {
+  return Object.fromEntries(TIERS.map((tier) => [tier, limit(tier)])) as TierLimits
+}
+
+export const FEATURES: Record<Feature, FeatureRule> = {
+  'answer-card': {
+    name: 'Verified answers',
+    requiredTier: 'free',
+    quota: { period: 'day', limits: ANSWER_CARD_DAILY_LIMITS },
+  },
+  'answer-card-pdf': {
+    name: 'PDF export',
+    requiredTier: 'student',
+  },
+  'molecule-save': {
+    name: 'Saved molecules',
+    requiredTier: 'free',
+    saved: byTier((tier) => FEATURE_LIMITS[tier].maxSavedCalculations),
+  },
+  'chemistry-batch': {
+    name: 'Batch calculations',
+    requiredTier: 'free',
+    items: byTier((tier) => Math.max(FEATURE_LIMITS[tier].batchSize, FREE_BATCH_ITEMS)),
+  },
+}
+
+export type EntitlementCode = 'TIER_REQUIRED' | 'LIMIT_EXCEEDED' | 'QUOTA_EXCEEDED'
+
+export interface EntitlementDenial {
+  allowed: false
+  status: 402 | 403
+  code: EntitlementCode
+  error: string
+  feature: Feature
+  tier: SubscriptionTier
+  /** Lowest tier that would allow the call; null when none would. */
+  requiredTier: SubscriptionTier | null
+  limit?: number
+  used?: number
+  /** ISO time the quota period ends (QUOTA_EXCEEDED). */
+  resetAt?: string
+}
+
+export interface EntitlementGrant {
+  allowed: true
+  tier: SubscriptionTier
+  /** Infinity when the tier has no limit. */
+  limit: number
+  remaining: number
+  resetAt?: string
+}
+
+export type EntitlementDecision = EntitlementGrant | EntitlementDenial
+
+/** An unknown tier — or an inherited prototype key — counts as free. */
+export function knownTier(tier: SubscriptionTier): SubscriptionTier {
+  return Object.hasOwn(TIER_HIERARCHY, tier) ? tier : 'free'
+}
+
+export function higherTier(a: SubscriptionTier, b: SubscriptionTier): SubscriptionTier {
+  return TIER_HIERARCHY[knownTier(a)] >= TIER_HIERARCHY[knownTier(b)] ? knownTier(a) : knownTier(b)
+}
+
+/** Lowest tier that includes the feature and passes `fits`. */
+function lowestTier(rule: FeatureRule, fits: (tier: SubscriptionTier) => boolean): SubscriptionTier | null {
+  return TIERS.find((tier) => TIER_HIERARCHY[tier] >= TIER_HIERARCHY[rule.requiredTier] && fits(tier)) ?? null
+}
+
+function deny(
+  feature: Feature,
+  tier: SubscriptionTier,
+  code: EntitlementCode,
+  requiredTier: SubscriptionTier | null,
+  reason: string,
+  details: Pick<EntitlementDenial, 'limit' | 'used' | 'resetAt'> = {}
+): EntitlementDenial {
+  const upgrade = requiredTier ? ` Upgrade to the ${getTierDisplayName(requiredTier)} plan.` : ''
+  return {
+    allowed: false,
+    status: requiredTier ? 402 : 403,
+    code,
+    error: reason + upgrade,
+    feature,
+    tier,
+    requiredTier,
+    ...details,
+  }
+}
+
+/**
+ * Tier and size checks that need no stored usage. `saved` is how many items
+ * the user already keeps (one more is being added); `items` is the size of
+ * this request.
+ */
+export function checkEntitlement(
+  feature: Feature,
+  callerTier: SubscriptionTier,
+  usage: { saved?: number; items?: number } = {}
+): EntitlementDecision {
+  const rule = FEATURES[feature]
+  const tier = knownTier(callerTier)
+
+  if (TIER_HIERARCHY[tier] < TIER_HIERARCHY[rule.requiredTier]) {
+    return deny(feature, tier, 'TIER_REQUIRED', rule.requiredTier, `${rule.name} is not included in your plan.`)
+  }
+
+  if (rule.saved && usage.saved !== undefined) {
+    const limits = rule.saved
+    const limit = limits[tier]
+    if (usage.saved >= limit) {
+      return deny(
+        feature,
+        tier,
+        'LIMIT_EXCEEDED',
+        lowestTier(rule, (t) => usage.saved! < limits[t]),
+        `${rule.name}: your plan keeps up to ${limit}.`,
+        { limit, used: usage.saved }
+      )
+    }
+    return { allowed: true, tier, limit, remaining: limit - usage.saved - 1 }
+  }
+
+  if (rule.items && usage.items !== undefined) {
+    const limits = rule.items
+    const limit = limits[tier]
+    if (usage.items > limit) {
+      return deny(
+        feature,
+        tier,
+        'LIMIT_EXCEEDED',
+        lowestTier(rule, (t) => usage.items! <= limits[t]),
+        `${rule.name}: your plan allows up to ${limit} items per request.`,
+        { limit, used: usage.items }
+      )
+    }
+    return { allowed: true, tier, limit, remaining: limit - usage.items }
+  }
+
+  return { allowed: true, tier, limit: Number.POSITIVE_INFINITY, remaining: Number.POSITIVE_INFINITY }
+}
+
+/**
+ * Items a tier may keep saved at once (Infinity without a cap), for stores
+ * that enforce the cap themselves. A refusal is then reported with
+ * checkEntitlement(feature, tier, { saved }).
+ */
+export function savedLimit(feature: Feature, callerTier: SubscriptionTier): number {
+  return FEATURES[feature].saved?.[knownTier(callerTier)] ?? Number.POSITIVE_INFINITY
+}
+
+// ---------------------------------------------------------------------------
+// Per-period quotas
+// ---------------------------------------------------------------------------
+
+export interface UsageKey {
+  /** Who the usage belongs to (the aiverid user id). */
+  subject: string
+  feature: Feature
+  /** `YYYY-MM-DD` or `YYYY-MM` (UTC). */
+  period: string
+}
+
+export interface UsageStore {
+  /**
+   * Count up to `amount` units, as many as fit under `limit`, in one step so
+   * concurrent requests cannot overrun it. Returns the units counted and the
+   * period's total afterwards.
+   */
+  consume(key: UsageKey, amount: number, limit: number): Promise<{ granted: number; used: number }>
+}
+
+/** The period `now` falls in, and when it ends. */
+export function quotaPeriod(period: QuotaPeriod, now: Date = new Date()): { key: string; resetAt: Date } {
+  const y = now.getUTCFullYear()
+  const m = now.getUTCMonth()
+  if (period === 'month') {
+    return { key: now.toISOString().slice(0, 7), resetAt: new Date(Date.UTC(y, m + 1, 1)) }
+  }
+  return { key: now.toISOString().slice(0, 10), resetAt: new Date(Date.UTC(y, m, now.getUTCDate() + 1)) }
+}
+
+export type QuotaDecision = (EntitlementGrant & { granted: number }) | EntitlementDenial
+
+/**
+ * Count `amount` units of the feature's quota for the caller. A batch may be
+ * granted fewer than it asked for (`granted`); it is refused only when
+ * nothing fits. Unlimited tiers never touch the store.
+ */
+export async function consumeQuota(
+  feature: Feature,
+  caller: { userId: string; tier: SubscriptionTier },
+  amount: number,
+  store: UsageStore,
+  now: Date = new Date()
+): Promise<QuotaDecision> {
+  const rule = FEATURES[feature]
+  const access = checkEntitlement(feature, caller.tier)
+  if (!access.allowed) return access
+  if (!rule.quota) return { ...access, granted: amount }
+
+  const tier = access.tier
+  const limits = rule.quota.limits
+  const limit = limits[tier]
+  if (!Number.isFinite(limit)) {
+    return { allowed: true, tier, limit, remaining: Number.POSITIVE_INFINITY, granted: amount }
+  }
+
+  const { key, resetAt } = quotaPeriod(rule.quota.period, now)
+  const { granted, used } = await store.consume({ subject: caller.userId, feature, period: key }, amount, limit)
+  if (granted === 0 && amount > 0) {
+    return deny(
+      feature,
+      tier,
+      'QUOTA_EXCEEDED',
+      lowestTier(rule, (t) => limits[t] > used),
+      `${rule.name}: your plan's ${rule.quota.period === 'day' ? 'daily' : 'monthly'} limit of ${limit} is used up.`,
+      { limit, used, resetAt: resetAt.toISOString() }
+    )
+  }
+  return { allowed: true, tier, limit, remaining: limit - used, resetAt: resetAt.toISOString(), granted }
+}
+
+export function createMemoryUsageStore(): UsageStore {
+  const counts = new Map<string, number>()
+
+  return {
+    async consume({ subject, feature, period }, amount, limit) {
+      const key = `${feature}:${period}:${subject}`
+      const used = counts.get(key) ?? 0
+      const granted = Math.max(0, Math.min(amount, limit - used))
+      counts.set(key, used + granted)
+      return { granted, used: used + granted }
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Responses
+// ---------------------------------------------------------------------------
+
+/** The refusal body: { error, code, feature, tier, requiredTier, limit?, used?, resetAt? }. */
+export function entitlementErrorBody(denial: EntitlementDenial): Record<string, unknown> {
+  const { allowed: _allowed, status: _status, ...body } = denial
+  return body
+}
+
+/** 402/403 JSON for a refusal; Retry-After when waiting for the next period also works. */
+export function entitlementResponse(denial: EntitlementDenial): NextResponse {
+  const headers: Record<string, string> = {}
+  if (denial.resetAt) {
+    const seconds = Math.max(1, Math.ceil((Date.parse(denial.resetAt) - Date.now()) / 1000))
+    headers['Retry-After'] = String(seconds)
+  }
+  return NextResponse.json(entitlementErrorBody(denial), { status: denial.status, headers })
+}
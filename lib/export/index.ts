@@ -18,9 +18,13 @@ export { SVGExporter } from './svg-export';
 export type { SVGExportOptions } from './svg-export';
 
 // PDF export utilities
-export { PDFExporter } from './pdf-export';
+export { PDFExporter, toPDFText } from './pdf-export';
 export type { PDFExportOptions, PDFPage } from './pdf-export';
 
+// QR codes (share links on printed/embedded answer cards)
+export { encodeQRCode, qrCodeToSvg } from './qr-code';
+export type { QRCode, QRSvgOptions } from './qr-code';
+
 // Native print-to-PDF (vector, oklch-safe)
 export { printElement } from './print-export';
 export type { PrintOptions } from './print-export';
@@ -1,6 +1,16 @@
 import jsPDF from 'jspdf';
 import { CanvasExporter } from './canvas-export';
 import { SVGExporter } from './svg-export';
+import { encodeQRCode } from './qr-code';
+import type { AnswerCard } from '@/lib/answer-cards/types';
+import {
+  exportBadge,
+  exportCitations,
+  exportToolRows,
+  shortLink,
+  type CardExportOptions,
+  type ExportBadgeTone,
+} from '@/lib/answer-cards/export';
 
 export interface PDFExportOptions {
   orientation?: 'portrait' | 'landscape';
@@ -27,6 +37,37 @@ export interface PDFPage {
   height?: number;
 }
 
+const BADGE_COLORS: Record<ExportBadgeTone, { fill: [number, number, number]; text: [number, number, number] }> = {
+  success: { fill: [220, 252, 231], text: [22, 101, 52] },
+  warning: { fill: [254, 243, 199], text: [146, 64, 14] },
+  danger: { fill: [254, 226, 226], text: [153, 27, 27] },
+};
+
+// jsPDF's standard fonts are WinAnsi only: fold subscripts/superscripts and
+// common chemistry symbols to ASCII so they print instead of garbling.
+const PDF_TEXT_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/[→⟶]/g, '->'],
+  [/[⇌⇄]/g, '<=>'],
+  [/←/g, '<-'],
+  [/[−–—]/g, '-'],
+  [/μ/g, '\u00b5'],
+  [/[‘’]/g, "'"],
+  [/[“”]/g, '"'],
+  [/…/g, '...'],
+  [/≈/g, '~'],
+  [/≤/g, '<='],
+  [/≥/g, '>='],
+  [/Δ/g, 'delta '],
+];
+
+export function toPDFText(text: string): string {
+  let result = text.normalize('NFKC');
+  for (const [pattern, replacement] of PDF_TEXT_REPLACEMENTS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result.replace(/[^\n\x20-\x7e\u00a0-\u00ff]/g, '?');
+}
+
 export class PDFExporter {
   private static defaultOptions: PDFExportOptions = {
     orientation: 'portrait',
@@ -312,6 +353,192 @@ export class PDFExporter {
     this.downloadBlob(blob, filename);
   }
 
+  /**
+   * Printable answer card: status badge, tool-call table, citations and
+   * explanation, with a QR code + short link to the card's public page.
+   * Drawn with jsPDF primitives only (no DOM/canvas), so it also runs on the
+   * server for GET /api/answer-cards/[id]/export.
+   */
+  static buildAnswerCardPDF(card: AnswerCard, options: CardExportOptions): jsPDF {
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'a4', compress: true });
+    pdf.setProperties({
+      title: toPDFText(`${card.question} - VerChem Verified Answer`),
+      subject: 'VerChem verified chemistry answer',
+      creator: 'VerChem',
+    });
+
+    const margin = 50;
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const contentWidth = pageWidth - 2 * margin;
+    const lineHeight = 12;
+    let y = margin;
+
+    const ensureSpace = (height: number): boolean => {
+      if (y + height <= pageHeight - margin) return false;
+      pdf.addPage();
+      y = margin;
+      return true;
+    };
+    const paragraph = (text: string, size: number, width = contentWidth, x = margin) => {
+      pdf.setFontSize(size);
+      const lines: string[] = pdf.splitTextToSize(toPDFText(text), width);
+      for (const line of lines) {
+        ensureSpace(size * 1.25);
+        pdf.text(line, x, y + size);
+        y += size * 1.25;
+      }
+    };
+
+    // QR code (top right) → /verified/[id]
+    const qr = encodeQRCode(options.url);
+    const qrSize = 96;
+    const quiet = 2;
+    const moduleSize = qrSize / (qr.size + quiet * 2);
+    const qrX = pageWidth - margin - qrSize;
+    pdf.setFillColor(0, 0, 0);
+    qr.modules.forEach((row, my) => {
+      row.forEach((dark, mx) => {
+        if (dark) pdf.rect(qrX + (mx + quiet) * moduleSize, y + (my + quiet) * moduleSize, moduleSize, moduleSize, 'F');
+      });
+    });
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(7);
+    pdf.setTextColor(37, 99, 235);
+    const link = toPDFText(shortLink(options.url));
+    // Full id is wider than the code: right-align it to the margin instead of centring.
+    pdf.textWithLink(link, pageWidth - margin - pdf.getTextWidth(link), y + qrSize + 8, { url: options.url });
+    const qrBottom = y + qrSize + 14;
+
+    // Header, question and status badge (left of the QR code)
+    const headerWidth = contentWidth - qrSize - 16;
+    pdf.setTextColor(107, 114, 128);
+    paragraph(`VerChem Verified Answer - issued ${card.issued_at.slice(0, 10)}`, 9, headerWidth);
+    y += 4;
+    pdf.setTextColor(17, 24, 39);
+    pdf.setFont('helvetica', 'bold');
+    paragraph(`Q: ${card.question}`, 14, headerWidth);
+    pdf.setFont('helvetica', 'normal');
+    y += 6;
+
+    const badge = exportBadge(card, options.signatureStatus);
+    const colors = BADGE_COLORS[badge.tone];
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(9);
+    const badgeWidth = pdf.getTextWidth(badge.label) + 16;
+    pdf.setFillColor(...colors.fill);
+    pdf.roundedRect(margin, y, badgeWidth, 16, 8, 8, 'F');
+    pdf.setTextColor(...colors.text);
+    pdf.text(badge.label, margin + 8, y + 11);
+    pdf.setFont('helvetica', 'normal');
+    y += 22;
+    if (badge.note) {
+      pdf.setTextColor(75, 85, 99);
+      paragraph(badge.note, 9, headerWidth);
+    }
+    y = Math.max(y, qrBottom) + 10;
+
+    // Tool-call table
+    const rows = exportToolRows(card.tool_calls);
+    if (rows.length > 0) {
+      const columns = [
+        { title: '#', width: 20 },
+        { title: 'Engine', width: 125 },
+        { title: 'Inputs', width: 160 },
+        { title: 'Result', width: contentWidth - 305 },
+      ];
+      const drawHeader = () => {
+        pdf.setFont('helvetica', 'bold');
+        pdf.setFontSize(9);
+        pdf.setTextColor(17, 24, 39);
+        let x = margin;
+        for (const column of columns) {
+          pdf.text(column.title, x + 3, y + 10);
+          x += column.width;
+        }
+        y += 14;
+        pdf.setDrawColor(209, 213, 219);
+        pdf.line(margin, y, margin + contentWidth, y);
+        pdf.setFont('helvetica', 'normal');
+      };
+
+      ensureSpace(40);
+      drawHeader();
+      pdf.setFontSize(8);
+      for (const row of rows) {
+        const cells = [
+          String(row.index),
+          `${row.engine}${row.citation ? ` [${row.citation}]` : ''}`,
+          row.inputs,
+          row.result,
+        ].map((text, i): string[] => pdf.splitTextToSize(toPDFText(text), columns[i].width - 6));
+        const height = Math.max(...cells.map((lines) => lines.length)) * (lineHeight - 2) + 8;
+        if (ensureSpace(height)) drawHeader();
+        pdf.setFontSize(8);
+        let x = margin;
+        cells.forEach((lines, i) => {
+          if (i === 3) pdf.setTextColor(...(row.ok ? BADGE_COLORS.success.text : BADGE_COLORS.danger.text));
+          else pdf.setTextColor(17, 24, 39);
+          pdf.text(lines, x + 3, y + 10);
+          x += columns[i].width;
+        });
+        y += height;
+        pdf.setDrawColor(229, 231, 235);
+        pdf.line(margin, y, margin + contentWidth, y);
+      }
+      y += 10;
+    }
+
+    // Citations
+    const citations = exportCitations(card.tool_calls);
+    if (citations.length > 0) {
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(17, 24, 39);
+      paragraph('Citations', 10);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(75, 85, 99);
+      citations.forEach((citation, i) => paragraph(`[${i + 1}] ${citation}`, 8));
+      y += 8;
+    }
+
+    // Explanation
+    if (card.explanation) {
+      pdf.setFont('helvetica', 'bold');
+      pdf.setTextColor(17, 24, 39);
+      paragraph('Explanation', 10);
+      pdf.setFont('helvetica', 'normal');
+      paragraph(card.explanation, 10);
+      pdf.setFont('helvetica', 'italic');
+      pdf.setTextColor(107, 114, 128);
+      paragraph(
+        'Explanation is AI-generated narrative. Only the engine results above are computed by deterministic, signed engines.',
+        8
+      );
+      pdf.setFont('helvetica', 'normal');
+      y += 8;
+    }
+
+    // Footer: provenance + where to verify
+    pdf.setTextColor(107, 114, 128);
+    paragraph(`${card.model} - ${card.version} - verify the signature at ${shortLink(options.url)}`, 8);
+    pdf.setTextColor(0, 0, 0);
+
+    return pdf;
+  }
+
+  static async createAnswerCardPDF(card: AnswerCard, options: CardExportOptions): Promise<Blob> {
+    return this.buildAnswerCardPDF(card, options).output('blob');
+  }
+
+  static async exportAnswerCardToPDF(
+    card: AnswerCard,
+    filename: string,
+    options: CardExportOptions
+  ): Promise<void> {
+    const blob = await this.createAnswerCardPDF(card, options);
+    this.downloadBlob(blob, filename);
+  }
+
   private static downloadBlob(blob: Blob, filename: string): void {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -0,0 +1,404 @@
+/**
+ * QR Code encoder (ISO/IEC 18004) — byte mode, error-correction level M.
+ *
+ * Small and dependency-free so printed/embedded answer cards can carry a
+ * scannable link to /verified/[id] on the server and in the browser alike.
+ * Covers versions 1–10 (up to 213 bytes at level M), which is plenty for a
+ * share URL. The mask with the lowest standard penalty score is chosen.
+ */
+
+export interface QRCode {
+  version: number;
+  /** Modules per side (17 + 4 × version). */
+  size: number;
+  /** modules[y][x] — true = dark. */
+  modules: boolean[][];
+}
+
+export interface QRSvgOptions {
+  /** Pixels per module. Default 4. */
+  moduleSize?: number;
+  /** Quiet zone in modules. Default 4 (the spec minimum). */
+  margin?: number;
+  dark?: string;
+  light?: string;
+}
+
+const MAX_VERSION = 10;
+
+// Level M, indexed by version (index 0 unused).
+const ECC_CODEWORDS_PER_BLOCK = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+const NUM_ERROR_CORRECTION_BLOCKS = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+
+// Format-info bits for level M (the 2-bit indicator is 00).
+const ECC_LEVEL_M_BITS = 0;
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+function numRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function numDataCodewords(version: number): number {
+  return (
+    Math.floor(numRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version]
+  );
+}
+
+function alignmentPatternPositions(version: number): number[] {
+  if (version === 1) return [];
+  const size = version * 4 + 17;
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let pos = size - 7; result.length < numAlign; pos -= step) {
+    result.splice(1, 0, pos);
+  }
+  return result;
+}
+
+// --- Reed–Solomon over GF(2^8), primitive polynomial 0x11D ---
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+export function reedSolomonDivisor(degree: number): number[] {
+  const result: number[] = new Array(degree - 1).fill(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+export function reedSolomonRemainder(data: readonly number[], divisor: readonly number[]): number[] {
+  const result: number[] = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/** 15-bit format information (level M) for a mask, BCH-protected and XOR-masked. */
+export function formatBits(mask: number): number {
+  const data = (ECC_LEVEL_M_BITS << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return ((data << 10) | rem) ^ 0x5412;
+}
+
+/** 18-bit version information (versions 7+). */
+export function versionBits(version: number): number {
+  let rem = version;
+  for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  return (version << 12) | rem;
+}
+
+// --- Data encoding ---
+
+function encodeDataCodewords(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4); // byte mode
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach((b) => append(b, 8));
+
+  const capacityBits = numDataCodewords(version) * 8;
+  append(0, Math.min(4, capacityBits - bits.length)); // terminator
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+function addEccAndInterleave(data: number[], version: number): number[] {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(numRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const block = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += block.length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding byte of short blocks.
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+// --- Matrix construction ---
+
+class QRMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = alignmentPatternPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // The three corners are occupied by finder patterns.
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        this.drawAlignment(x, y);
+      });
+    });
+
+    this.drawFormatBits(0); // reserved now, rewritten once the mask is chosen
+    this.drawVersionBits();
+  }
+
+  private drawFinder(cx: number, cy: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || x >= this.size || y < 0 || y >= this.size) continue;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        this.setFunction(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+
+  private drawAlignment(cx: number, cy: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number): void {
+    const bits = formatBits(mask);
+    const size = this.size;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, getBit(bits, i));
+    this.setFunction(8, size - 8, true); // dark module
+  }
+
+  private drawVersionBits(): void {
+    if (this.version < 7) return;
+    const bits = versionBits(this.version);
+    for (let i = 0; i < 18; i++) {
+      const dark = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  drawCodewords(codewords: number[]): void {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // skip the vertical timing column
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  /** XOR the data area with a mask pattern (applying twice undoes it). */
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.isFunction[y][x]) continue;
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        }
+        if (invert) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  penaltyScore(): number {
+    const size = this.size;
+    const at = (x: number, y: number, transpose: boolean) =>
+      transpose ? this.modules[x][y] : this.modules[y][x];
+    let penalty = 0;
+
+    for (const transpose of [false, true]) {
+      for (let y = 0; y < size; y++) {
+        // N1: runs of five or more same-coloured modules.
+        let runLength = 1;
+        for (let x = 1; x <= size; x++) {
+          if (x < size && at(x, y, transpose) === at(x - 1, y, transpose)) {
+            runLength++;
+          } else {
+            if (runLength >= 5) penalty += runLength - 2;
+            runLength = 1;
+          }
+        }
+        // N3: finder-like 1:1:3:1:1 pattern with four light modules on one side.
+        for (let x = 0; x + 11 <= size; x++) {
+          const row = Array.from({ length: 11 }, (_, k) => at(x + k, y, transpose));
+          const core = row[4] && !row[5] && row[6] && row[7] && row[8] && !row[9] && row[10];
+          const coreReversed = row[0] && !row[1] && row[2] && row[3] && row[4] && !row[5] && row[6];
+          if (core && !row[0] && !row[1] && !row[2] && !row[3]) penalty += 40;
+          if (coreReversed && !row[7] && !row[8] && !row[9] && !row[10]) penalty += 40;
+        }
+      }
+    }
+
+    // N2: 2×2 blocks of one colour.
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = this.modules[y][x];
+        if (color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          penalty += 3;
+        }
+      }
+    }
+
+    // N4: deviation of the dark share from 50%.
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    penalty += Math.max(0, k) * 10;
+
+    return penalty;
+  }
+}
+
+/**
+ * Encode text (UTF-8) as the smallest level-M QR code that fits.
+ * Throws when the text exceeds version 10 capacity.
+ */
+export function encodeQRCode(text: string): QRCode {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = 1;
+  for (; version <= MAX_VERSION; version++) {
+    const countBits = version <= 9 ? 8 : 16;
+    if (4 + countBits + bytes.length * 8 <= numDataCodewords(version) * 8) break;
+  }
+  if (version > MAX_VERSION) {
+    throw new Error(`Text too long for a QR code (${bytes.length} bytes)`);
+  }
+
+  const codewords = addEccAndInterleave(encodeDataCodewords(bytes, version), version);
+  const matrix = new QRMatrix(version);
+  matrix.drawCodewords(codewords);
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.penaltyScore();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  }
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+
+  return { version, size: matrix.size, modules: matrix.modules };
+}
+
+/** Dark modules as one SVG path (1 unit per module, quiet zone included in the viewBox). */
+export function qrCodeToSvg(qr: QRCode, options: QRSvgOptions = {}): string {
+  const { moduleSize = 4, margin = 4, dark = '#000000', light = '#ffffff' } = options;
+  const dim = qr.size + margin * 2;
+  const path: string[] = [];
+  qr.modules.forEach((row, y) => {
+    row.forEach((isDark, x) => {
+      if (isDark) path.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    });
+  });
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dim} ${dim}" width="${dim * moduleSize}" height="${dim * moduleSize}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="${light}"/>` +
+    `<path d="${path.join('')}" fill="${dark}"/>` +
+    `</svg>`
+  );
+}
@@ -1,68 +1,71 @@
 /**
  * Rate Limiter for API Routes
  *
- * Simple in-memory rate limiting for API protection
+ * Sliding-window limits (./store.ts) for API protection
  * SECURITY: Prevents brute-force and DoS attacks
  *
- * NOTE (Dec 2025 - 4-AI Audit):
- * Current implementation is in-memory (resets on server restart).
- * For production at scale, consider:
- * - Redis (Upstash) for distributed rate limiting
- * - Vercel Edge Config for edge-level limits
- * - Cloudflare WAF for enterprise protection
+ * The store is picked from config:
  *
- * Current in-memory approach is sufficient for:
- * - Single instance deployments
- * - Vercel serverless (per-instance limiting)
- * - MVP/early stage products
+ *   RATE_LIMIT_STORE=redis (default when RATE_LIMIT_REDIS_URL or REDIS_URL is set) | memory
  *
- * Last Updated: 2025-12-12
+ * - memory: per process — resets on deploy, per serverless instance on Vercel
+ * - redis: any Redis-protocol server (Redis, Valkey, Upstash via rediss://),
+ *   shared by every instance
+ *
+ * If the Redis store fails, the request is checked against the in-memory store
+ * instead (logged): a per-instance limit beats none, and an outage of the
+ * limiter must not take the API down with it.
+ *
+ * Last Updated: 2026-10-18
  */
 
-import type { SubscriptionTier } from './vercal/types'
-
-interface RateLimitEntry {
-  count: number
-  resetTime: number
-}
-
-// In-memory store (use Redis in production for horizontal scaling)
-const rateLimitStore = new Map<string, RateLimitEntry>()
-
-// Cleanup old entries periodically
-const cleanupTimer = setInterval(() => {
-  const now = Date.now()
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.resetTime < now) {
-      rateLimitStore.delete(key)
-    }
+import type { SubscriptionTier } from '../vercal/types'
+import {
+  createMemoryRateLimitStore,
+  type RateLimitConfig,
+  type RateLimitResult,
+  type RateLimitStore,
+} from './store'
+
+export type { RateLimitConfig, RateLimitResult, RateLimitStore } from './store'
+
+const memoryStore = createMemoryRateLimitStore()
+let selected: Promise<RateLimitStore> | undefined
+
+async function selectStore(): Promise<RateLimitStore> {
+  const url = process.env.RATE_LIMIT_REDIS_URL ?? process.env.REDIS_URL
+  const mode = (process.env.RATE_LIMIT_STORE ?? (url ? 'redis' : 'memory')).trim().toLowerCase()
+  if (mode !== 'redis') return memoryStore
+  if (!url) {
+    console.error('RATE_LIMIT_STORE=redis but no RATE_LIMIT_REDIS_URL/REDIS_URL; using memory')
+    return memoryStore
   }
-}, 60000) // Cleanup every minute
-
-// Don't let this background timer keep the process (e.g. the test runner) alive.
-// In the browser/edge runtime setInterval returns a number with no unref — the
-// optional call is then a harmless no-op.
-;(cleanupTimer as { unref?: () => void }).unref?.()
+  // Loaded only when configured: node:net/tls stay out of other runtimes.
+  const [{ createRespClient }, { createRedisRateLimitStore }] = await Promise.all([
+    import('./resp'),
+    import('./redis-store'),
+  ])
+  return createRedisRateLimitStore(createRespClient(url))
+}
 
-export interface RateLimitConfig {
-  windowMs: number // Time window in milliseconds
-  maxRequests: number // Max requests per window
+/** The store selected by RATE_LIMIT_STORE. */
+export function getRateLimitStore(): Promise<RateLimitStore> {
+  selected ??= selectStore()
+  return selected
 }
 
-export interface RateLimitResult {
-  success: boolean
-  remaining: number
-  resetTime: number
-  retryAfter?: number
+/** Replace the configured store (tests, or a store built from other config). */
+export function setRateLimitStore(store: RateLimitStore | undefined): void {
+  selected = store && Promise.resolve(store)
 }
 
 /**
  * Check and update rate limit for a key
  */
-export function checkRateLimit(
+export async function checkRateLimit(
   key: string,
   config: RateLimitConfig
-): RateLimitResult {
+): Promise<RateLimitResult> {
   const now = Date.now()
 
   // Unlimited tier: ONLY an explicit Infinity short-circuits — never NaN/function/
@@ -72,40 +75,13 @@ export function checkRateLimit(
     return { success: true, remaining: Number.POSITIVE_INFINITY, resetTime: now + config.windowMs }
   }
 
-  const entry = rateLimitStore.get(key)
-
-  // If no entry or window expired, create new (<= so the window resets exactly at resetTime)
-  if (!entry || entry.resetTime <= now) {
-    rateLimitStore.set(key, {
-      count: 1,
-      resetTime: now + config.windowMs,
-    })
-
-    return {
-      success: true,
-      remaining: config.maxRequests - 1,
-      resetTime: now + config.windowMs,
-    }
-  }
-
-  // Window still active
-  if (entry.count >= config.maxRequests) {
-    return {
-      success: false,
-      remaining: 0,
-      resetTime: entry.resetTime,
-      retryAfter: Math.ceil((entry.resetTime - now) / 1000),
-    }
-  }
-
-  // Increment count
-  entry.count++
-  rateLimitStore.set(key, entry)
-
-  return {
-    success: true,
-    remaining: config.maxRequests - entry.count,
-    resetTime: entry.resetTime,
+  const store = await getRateLimitStore()
+  if (store === memoryStore) return memoryStore.hit(key, config, now)
+  try {
+    return await store.hit(key, config, now)
+  } catch (err) {
+    console.error('Rate-limit store error, falling back to memory:', err)
+    return memoryStore.hit(key, config, now)
   }
 }
 
@@ -195,6 +171,13 @@ export const RATE_LIMITS = {
     maxRequests: 100,
   },
 
+  // Public chemistry API without an API key: 100 requests per hour per client
+  // (keyed requests use the key's monthly tier quota, see lib/api-keys)
+  publicApi: {
+    windowMs: 60 * 60 * 1000,
+    maxRequests: 100,
+  },
+
   // Strict: 5 requests per minute (for sensitive endpoints)
   strict: {
     windowMs: 60 * 1000,
@@ -206,10 +189,9 @@ export const RATE_LIMITS = {
  * W3 Day 3 — Verified Answer Card DAILY quota per subscription tier.
  * Infinity = unlimited (checkRateLimit short-circuits to success).
  *
- * NOTE: the in-memory store is per-serverless-instance, so on Vercel this daily
- * count is approximate (a user spread across cold-started lambdas may exceed it).
- * Day 4 (answer_cards table) can replace this with a DB COUNT for cross-instance
- * accuracy. Sufficient as an MVP abuse guardrail.
+ * The answer-card routes enforce these limits through the 'answer-card'
+ * entitlement (lib/entitlements), counted per UTC day in Supabase.
+ * answerCardDailyConfig() is the same quota as a sliding-window config.
  */
 const DAY_MS = 24 * 60 * 60 * 1000
 
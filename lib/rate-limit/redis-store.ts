@@ -0,0 +1,54 @@
+/**
+ * Redis rate-limit store — the sliding-window log as a sorted set
+ *
+ * Each key is a sorted set of hits scored by timestamp. One MULTI/EXEC trims
+ * hits older than the window, logs this hit, and reads the count and oldest
+ * hit; a hit that made the count exceed the limit is removed again. Every
+ * instance sees the same log, so limits hold across serverless instances and
+ * survive deploys. Racing requests at the limit may both be refused (never
+ * both admitted), which errs on the safe side.
+ */
+
+import { RespError, type RespClient, type RespValue } from './resp'
+import { slidingWindowResult, type RateLimitStore } from './store'
+
+export const REDIS_KEY_PREFIX = 'verchem:rl:'
+
+function toNumber(value: RespValue): number {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value)
+  throw new RespError(`Unexpected Redis reply: ${JSON.stringify(value)}`)
+}
+
+export function createRedisRateLimitStore(client: RespClient, prefix = REDIS_KEY_PREFIX): RateLimitStore {
+  return {
+    async hit(key, config, now) {
+      const redisKey = prefix + key
+      const member = `${now}:${crypto.randomUUID()}`
+      const replies = await client.pipeline([
+        ['MULTI'],
+        ['ZREMRANGEBYSCORE', redisKey, '-inf', String(now - config.windowMs)],
+        ['ZADD', redisKey, String(now), member],
+        ['ZCARD', redisKey],
+        ['ZRANGE', redisKey, '0', '0', 'WITHSCORES'],
+        ['PEXPIRE', redisKey, String(config.windowMs)],
+        ['EXEC'],
+      ])
+
+      const exec = replies[replies.length - 1]
+      if (!Array.isArray(exec)) throw new RespError('Redis transaction aborted')
+      const failed = exec.find((v): v is RespError => v instanceof RespError)
+      if (failed) throw failed
+
+      const count = toNumber(exec[2])
+      const oldestEntry = exec[3]
+      const oldest = Array.isArray(oldestEntry) && oldestEntry.length === 2 ? toNumber(oldestEntry[1]) : now
+
+      if (count > config.maxRequests) {
+        await client.pipeline([['ZREM', redisKey, member]])
+        return slidingWindowResult(false, count - 1, oldest, config, now)
+      }
+      return slidingWindowResult(true, count, oldest, config, now)
+    },
+  }
+}
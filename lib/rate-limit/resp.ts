@@ -0,0 +1,196 @@
+/**
+ * Minimal Redis (RESP2) client — just enough for the rate-limit store
+ *
+ * One lazily opened connection per client, commands pipelined in order. Works
+ * with any server speaking the Redis protocol: Redis, Valkey, KeyDB, Upstash
+ * (`rediss://` for TLS) or a local stand-in in tests.
+ *
+ *   redis[s]://[user[:password]@]host[:port][/db]
+ *
+ * A dropped connection fails the pending commands and is reopened by the next
+ * call; a reply that takes longer than `timeoutMs` drops the connection.
+ */
+
+import { connect as netConnect, type Socket } from 'node:net'
+import { connect as tlsConnect } from 'node:tls'
+
+/** An error reply (`-ERR …`). Inside arrays (EXEC) it is a value, not a throw. */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RespError'
+  }
+}
+
+export type RespValue = string | number | null | RespError | RespValue[]
+
+export interface RespClient {
+  /** Send the commands in one round trip; resolves with their replies in order. */
+  pipeline(commands: string[][]): Promise<RespValue[]>
+  close(): void
+}
+
+export interface RespClientOptions {
+  timeoutMs?: number
+}
+
+export function encodeCommand(args: string[]): Buffer {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)]
+  for (const arg of args) {
+    const bytes = Buffer.from(arg)
+    parts.push(Buffer.from(`$${bytes.length}\r\n`), bytes, Buffer.from('\r\n'))
+  }
+  return Buffer.concat(parts)
+}
+
+/**
+ * Parse one value starting at `offset`; null when the buffer does not hold a
+ * complete value yet.
+ */
+export function parseReply(buffer: Buffer, offset = 0): { value: RespValue; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset)
+  if (lineEnd === -1) return null
+  const type = String.fromCharCode(buffer[offset])
+  const line = buffer.toString('utf8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next }
+    case '-':
+      return { value: new RespError(line), offset: next }
+    case ':':
+      return { value: Number(line), offset: next }
+    case '$': {
+      const length = Number(line)
+      if (length === -1) return { value: null, offset: next }
+      if (buffer.length < next + length + 2) return null
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 }
+    }
+    case '*': {
+      const count = Number(line)
+      if (count === -1) return { value: null, offset: next }
+      const items: RespValue[] = []
+      let cursor = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor)
+        if (!item) return null
+        items.push(item.value)
+        cursor = item.offset
+      }
+      return { value: items, offset: cursor }
+    }
+    default:
+      throw new RespError(`Unexpected RESP type byte ${JSON.stringify(type)}`)
+  }
+}
+
+interface Pending {
+  resolve: (value: RespValue) => void
+  reject: (error: Error) => void
+}
+
+export function createRespClient(url: string, options: RespClientOptions = {}): RespClient {
+  const target = new URL(url)
+  if (target.protocol !== 'redis:' && target.protocol !== 'rediss:') {
+    throw new Error(`Unsupported Redis URL protocol: ${target.protocol}`)
+  }
+  const timeoutMs = options.timeoutMs ?? 1000
+  const handshake: string[][] = []
+  if (target.password) {
+    const password = decodeURIComponent(target.password)
+    handshake.push(target.username ? ['AUTH', decodeURIComponent(target.username), password] : ['AUTH', password])
+  }
+  const db = target.pathname.replace(/^\//, '')
+  if (db) handshake.push(['SELECT', db])
+
+  let socket: Socket | null = null
+  let buffer: Buffer = Buffer.alloc(0)
+  const pending: Pending[] = []
+
+  function fail(error: Error) {
+    socket?.destroy()
+    socket = null
+    buffer = Buffer.alloc(0)
+    for (const p of pending.splice(0)) p.reject(error)
+  }
+
+  function open(): Socket {
+    const host = target.hostname || '127.0.0.1'
+    const port = Number(target.port || 6379)
+    const s =
+      target.protocol === 'rediss:'
+        ? tlsConnect({ host, port, servername: host })
+        : netConnect({ host, port })
+    s.setNoDelay(true)
+    // An idle connection must not keep the process (e.g. the test runner) alive;
+    // the reply timer holds it open while a command is in flight.
+    s.unref()
+    s.on('data', (chunk: Buffer) => {
+      buffer = buffer.length === 0 ? chunk : Buffer.concat([buffer, chunk])
+      try {
+        let parsed
+        while (pending.length > 0 && (parsed = parseReply(buffer))) {
+          buffer = buffer.subarray(parsed.offset)
+          pending.shift()!.resolve(parsed.value)
+        }
+      } catch (err) {
+        fail(err instanceof Error ? err : new Error(String(err)))
+      }
+    })
+    s.on('error', (err) => fail(err))
+    s.on('close', () => {
+      if (socket === s) fail(new Error('Redis connection closed'))
+    })
+    // Handshake replies are consumed here; an AUTH/SELECT error fails the connection.
+    for (const command of handshake) {
+      pending.push({
+        resolve: (value) => {
+          if (value instanceof RespError) fail(value)
+        },
+        reject: () => {},
+      })
+      s.write(encodeCommand(command))
+    }
+    return s
+  }
+
+  return {
+    pipeline(commands) {
+      socket ??= open()
+      const conn = socket
+      const replies = commands.map(
+        () => new Promise<RespValue>((resolve, reject) => pending.push({ resolve, reject }))
+      )
+      conn.write(Buffer.concat(commands.map(encodeCommand)))
+
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const error = new Error(`Redis reply timed out after ${timeoutMs}ms`)
+          if (socket === conn) fail(error)
+          reject(error)
+        }, timeoutMs)
+      })
+      return Promise.race([Promise.all(replies), timeout]).then(
+        (values) => {
+          clearTimeout(timer)
+          const error = values.find((v): v is RespError => v instanceof RespError)
+          if (error) throw error
+          return values
+        },
+        (err) => {
+          clearTimeout(timer)
+          throw err
+        }
+      )
+    },
+
+    close() {
+      const s = socket
+      socket = null
+      s?.end()
+      for (const p of pending.splice(0)) p.reject(new Error('Redis client closed'))
+    },
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Rate-limit stores — sliding-window log
+ *
+ * A key's window is the log of its hit timestamps over the last `windowMs`.
+ * A hit is admitted while fewer than `maxRequests` hits are in the log, so a
+ * client cannot burst 2× the limit across a fixed-window boundary.
+ *
+ * `resetTime` is when the oldest logged hit leaves the window — the moment the
+ * next request would be admitted again — and `retryAfter` counts down to it.
+ *
+ * Stores sit behind RateLimitStore: the in-memory store here (per process) and
+ * the Redis store in ./redis-store.ts (shared across instances and deploys).
+ */
+
+export interface RateLimitConfig {
+  windowMs: number // Time window in milliseconds
+  maxRequests: number // Max requests per window
+}
+
+export interface RateLimitResult {
+  success: boolean
+  remaining: number
+  resetTime: number
+  retryAfter?: number
+}
+
+export interface RateLimitStore {
+  /** Log one hit at `now` if the window has room; the check and the write are one step. */
+  hit(key: string, config: RateLimitConfig, now: number): Promise<RateLimitResult>
+}
+
+/**
+ * The decision for a window holding `count` hits (including this one when
+ * admitted), the oldest logged at `oldest`.
+ */
+export function slidingWindowResult(
+  admitted: boolean,
+  count: number,
+  oldest: number,
+  config: RateLimitConfig,
+  now: number
+): RateLimitResult {
+  const resetTime = oldest + config.windowMs
+  if (!admitted) {
+    return {
+      success: false,
+      remaining: 0,
+      resetTime,
+      retryAfter: Math.max(1, Math.ceil((resetTime - now) / 1000)),
+    }
+  }
+  return { success: true, remaining: Math.max(0, config.maxRequests - count), resetTime }
+}
+
+interface WindowLog {
+  hits: number[] // ascending
+  windowMs: number
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const logs = new Map<string, WindowLog>()
+
+  // Drop logs whose newest hit has left the window.
+  const cleanupTimer = setInterval(() => {
+    const now = Date.now()
+    for (const [key, log] of logs.entries()) {
+      if (log.hits.length === 0 || log.hits[log.hits.length - 1] + log.windowMs <= now) {
+        logs.delete(key)
+      }
+    }
+  }, 60000) // Cleanup every minute
+
+  // Don't let this background timer keep the process (e.g. the test runner) alive.
+  // In the browser/edge runtime setInterval returns a number with no unref — the
+  // optional call is then a harmless no-op.
+  ;(cleanupTimer as { unref?: () => void }).unref?.()
+
+  return {
+    async hit(key, config, now) {
+      const log = logs.get(key) ?? { hits: [], windowMs: config.windowMs }
+      log.windowMs = config.windowMs
+      // A hit exactly windowMs old has expired (the window is (now - windowMs, now]).
+      const firstLive = log.hits.findIndex((t) => t > now - config.windowMs)
+      log.hits = firstLive === -1 ? [] : log.hits.slice(firstLive)
+      logs.set(key, log)
+
+      if (log.hits.length >= config.maxRequests) {
+        return slidingWindowResult(false, log.hits.length, log.hits[0] ?? now, config, now)
+      }
+      log.hits.push(now)
+      return slidingWindowResult(true, log.hits.length, log.hits[0], config, now)
+    },
+  }
+}
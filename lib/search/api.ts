@@ -0,0 +1,289 @@
+// VerChem Search API - request parsing, pagination and facets
+//
+// The same VerChemSearchEngine the browser uses (context.tsx), run on the
+// server for /api/search and /api/search/suggestions:
+//
+//   parseSearchRequest(body)       SearchQuery JSON → { query, errors }
+//   parseSearchParams(params)      ?q=&type=&category=&state=&limit=&offset=&sortBy=&sortOrder=
+//   runSearch(engine, query)       one page of results + total + facets
+//
+// Facets count every match (not just the page) by result type, category and
+// physical state, so a client can render filter chips with counts. A query
+// with syntax errors (query-language.ts) is refused rather than run without
+// the clauses that failed.
+
+import { VerChemSearchEngine } from './engine'
+import { parseSearchQuery } from './query-language'
+import type { SearchFilters, SearchOptions, SearchQuery, SearchResult } from './types'
+
+export const SEARCH_DEFAULT_LIMIT = 20
+export const SEARCH_MAX_LIMIT = 100
+export const SEARCH_MAX_QUERY_LENGTH = 200
+const MAX_FILTER_VALUES = 20
+const MAX_FILTER_VALUE_LENGTH = 100
+
+export const SEARCH_RESULT_TYPES = ['compound', 'element', 'calculator', 'help', 'tool'] as const
+export const SEARCH_STATES = ['solid', 'liquid', 'gas'] as const
+const SORT_BY: readonly NonNullable<SearchOptions['sortBy']>[] = [
+  'relevance',
+  'name',
+  'date',
+  'popularity',
+  'molecularWeight',
+  'atomicNumber',
+]
+const SORT_ORDER: readonly NonNullable<SearchOptions['sortOrder']>[] = ['asc', 'desc']
+
+type StringFilter =
+  | 'type'
+  | 'category'
+  | 'safety'
+  | 'applications'
+  | 'difficulty'
+  | 'block'
+  | 'elementCategory'
+  | 'hazardLevel'
+  | 'ghsCodes'
+  | 'state'
+type RangeFilter =
+  | 'molecularWeightRange'
+  | 'meltingPointRange'
+  | 'boilingPointRange'
+  | 'atomicNumberRange'
+  | 'pKaRange'
+  | 'pKbRange'
+
+const STRING_FILTERS: Record<StringFilter, readonly string[] | null> = {
+  type: SEARCH_RESULT_TYPES,
+  category: null,
+  safety: null,
+  applications: null,
+  difficulty: null,
+  block: null,
+  elementCategory: null,
+  hazardLevel: null,
+  ghsCodes: null,
+  state: SEARCH_STATES,
+}
+const INTEGER_FILTERS = ['group', 'period'] as const
+const RANGE_FILTERS: readonly RangeFilter[] = [
+  'molecularWeightRange',
+  'meltingPointRange',
+  'boilingPointRange',
+  'atomicNumberRange',
+  'pKaRange',
+  'pKbRange',
+]
+const BOOLEAN_OPTIONS = ['fuzzy', 'caseSensitive', 'includeSynonyms', 'includeRelated'] as const
+
+export interface SearchFacets {
+  type: Record<string, number>
+  category: Record<string, number>
+  state: Record<string, number>
+}
+
+export interface SearchResponse {
+  query: string
+  total: number
+  offset: number
+  limit: number
+  /** True when results beyond this page exist. */
+  hasMore: boolean
+  results: SearchResult[]
+  facets: SearchFacets
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function parseFilters(raw: unknown, errors: string[]): SearchFilters {
+  const filters: SearchFilters = {}
+  if (raw === undefined) return filters
+  if (!isPlainObject(raw)) {
+    errors.push('filters must be an object')
+    return filters
+  }
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (Object.hasOwn(STRING_FILTERS, key)) {
+      const allowed = STRING_FILTERS[key as StringFilter]
+      if (
+        !Array.isArray(value) ||
+        value.length > MAX_FILTER_VALUES ||
+        !value.every((v) => typeof v === 'string' && v.trim() !== '' && v.length <= MAX_FILTER_VALUE_LENGTH)
+      ) {
+        errors.push(`filters.${key} must be an array of up to ${MAX_FILTER_VALUES} non-empty strings`)
+      } else if (allowed && !value.every((v: string) => allowed.includes(v))) {
+        errors.push(`filters.${key} values must be one of: ${allowed.join(', ')}`)
+      } else {
+        filters[key as StringFilter] = value as string[]
+      }
+    } else if ((INTEGER_FILTERS as readonly string[]).includes(key)) {
+      if (
+        !Array.isArray(value) ||
+        value.length > MAX_FILTER_VALUES ||
+        !value.every((v) => Number.isInteger(v) && v > 0)
+      ) {
+        errors.push(`filters.${key} must be an array of positive integers`)
+      } else {
+        filters[key as (typeof INTEGER_FILTERS)[number]] = value as number[]
+      }
+    } else if ((RANGE_FILTERS as readonly string[]).includes(key)) {
+      const bounds = isPlainObject(value) ? value : null
+      const ok =
+        bounds !== null &&
+        Object.keys(bounds).every((k) => k === 'min' || k === 'max') &&
+        [bounds.min, bounds.max].every((b) => b === undefined || (typeof b === 'number' && Number.isFinite(b)))
+      if (!ok) {
+        errors.push(`filters.${key} must be { min?, max? } with finite numbers`)
+      } else {
+        filters[key as RangeFilter] = { min: bounds.min as number | undefined, max: bounds.max as number | undefined }
+      }
+    } else {
+      // properties / dateRange are part of SearchFilters but the engine does
+      // not apply them; refusing beats silently returning unfiltered results.
+      errors.push(`filters.${key} is not a supported filter`)
+    }
+  }
+  return filters
+}
+
+function parseOptions(raw: unknown, errors: string[]): SearchOptions {
+  const options: SearchOptions = { limit: SEARCH_DEFAULT_LIMIT, offset: 0 }
+  if (raw === undefined) return options
+  if (!isPlainObject(raw)) {
+    errors.push('options must be an object')
+    return options
+  }
+
+  for (const [key, value] of Object.entries(raw)) {
+    if ((BOOLEAN_OPTIONS as readonly string[]).includes(key)) {
+      if (typeof value !== 'boolean') errors.push(`options.${key} must be true or false`)
+      else options[key as (typeof BOOLEAN_OPTIONS)[number]] = value
+    } else if (key === 'limit') {
+      if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > SEARCH_MAX_LIMIT) {
+        errors.push(`options.limit must be an integer from 1 to ${SEARCH_MAX_LIMIT}`)
+      } else options.limit = value as number
+    } else if (key === 'offset') {
+      if (!Number.isInteger(value) || (value as number) < 0) {
+        errors.push('options.offset must be a non-negative integer')
+      } else options.offset = value as number
+    } else if (key === 'sortBy') {
+      if (!SORT_BY.includes(value as never)) errors.push(`options.sortBy must be one of: ${SORT_BY.join(', ')}`)
+      else options.sortBy = value as SearchOptions['sortBy']
+    } else if (key === 'sortOrder') {
+      if (!SORT_ORDER.includes(value as never)) errors.push('options.sortOrder must be asc or desc')
+      else options.sortOrder = value as SearchOptions['sortOrder']
+    } else {
+      errors.push(`options.${key} is not a supported option`)
+    }
+  }
+  return options
+}
+
+/** Validate a SearchQuery-shaped JSON body. `query` is only usable when `errors` is empty. */
+export function parseSearchRequest(body: unknown): { query: SearchQuery; errors: string[] } {
+  const errors: string[] = []
+  const record = isPlainObject(body) ? body : {}
+  if (!isPlainObject(body)) errors.push('Body must be a JSON object')
+
+  for (const key of Object.keys(record)) {
+    if (key !== 'query' && key !== 'filters' && key !== 'options') errors.push(`${key} is not a search field`)
+  }
+
+  let text = ''
+  if (record.query !== undefined) {
+    if (typeof record.query !== 'string') errors.push('query must be a string')
+    else if (record.query.length > SEARCH_MAX_QUERY_LENGTH) {
+      errors.push(`query must be at most ${SEARCH_MAX_QUERY_LENGTH} characters`)
+    } else {
+      text = record.query
+      for (const error of parseSearchQuery(text).errors) {
+        errors.push(`query: ${error.message} (at "${text.slice(error.start, error.end)}")`)
+      }
+    }
+  }
+
+  return {
+    query: {
+      query: text,
+      filters: parseFilters(record.filters, errors),
+      options: parseOptions(record.options, errors),
+    },
+    errors,
+  }
+}
+
+/**
+ * The GET shorthand: `q`, repeated (or comma-separated) `type`, `category`
+ * and `state`, and `limit`, `offset`, `sortBy`, `sortOrder`.
+ */
+export function parseSearchParams(params: URLSearchParams): { query: SearchQuery; errors: string[] } {
+  const filters: Record<string, string[]> = {}
+  for (const key of ['type', 'category', 'state'] as const) {
+    const values = params
+      .getAll(key)
+      .flatMap((v) => v.split(','))
+      .map((v) => v.trim())
+      .filter(Boolean)
+    if (values.length > 0) filters[key] = values
+  }
+
+  const options: Record<string, unknown> = {}
+  for (const key of ['limit', 'offset'] as const) {
+    const value = params.get(key)
+    if (value !== null) options[key] = /^\d+$/.test(value) ? Number(value) : value
+  }
+  for (const key of ['sortBy', 'sortOrder'] as const) {
+    const value = params.get(key)
+    if (value !== null) options[key] = value
+  }
+
+  return parseSearchRequest({ query: params.get('q') ?? '', filters, options })
+}
+
+function count(into: Record<string, number>, key: string | undefined) {
+  if (key) into[key] = (into[key] ?? 0) + 1
+}
+
+export function searchFacets(results: SearchResult[]): SearchFacets {
+  const facets: SearchFacets = { type: {}, category: {}, state: {} }
+  for (const result of results) {
+    count(facets.type, result.type)
+    count(facets.category, result.category)
+    if (result.type === 'compound' || result.type === 'element') {
+      const state = (result.data as { state?: string }).state
+      count(facets.state, state === 'unknown' ? undefined : state)
+    }
+  }
+  return facets
+}
+
+/** Run the query over every match, then page it; facets cover all matches. */
+export function runSearch(engine: VerChemSearchEngine, query: SearchQuery): SearchResponse {
+  const offset = query.options.offset ?? 0
+  const limit = query.options.limit ?? SEARCH_DEFAULT_LIMIT
+  const matches = engine.search({
+    ...query,
+    options: { ...query.options, offset: 0, limit: Number.POSITIVE_INFINITY },
+  })
+
+  return {
+    query: query.query,
+    total: matches.length,
+    offset,
+    limit,
+    hasMore: offset + limit < matches.length,
+    results: matches.slice(offset, offset + limit),
+    facets: searchFacets(matches),
+  }
+}
+
+let serverEngine: VerChemSearchEngine | undefined
+
+/** One engine per server instance: the indexes are built once, on first use. */
+export function getSearchEngine(): VerChemSearchEngine {
+  serverEngine ??= new VerChemSearchEngine()
+  return serverEngine
+}
@@ -122,12 +122,14 @@ export const SEARCH_EXAMPLES = {
     { query: '"sodium chloride"', description: 'Exact phrase search' },
     { query: 'acid NOT organic', description: 'Exclude organic acids' },
     { query: 'MW:100-200', description: 'Molecular weight range' },
+    { query: 'bp:50..120C contains:Cl', description: 'Boiling range with units, element in the formula' },
     { query: 'stoichiometry calculator', description: 'Find specific calculator' }
   ],
   expert: [
     { query: 'c1ccccc1', description: 'SMILES notation for benzene' },
     { query: 'CCO', description: 'SMILES for ethanol' },
-    { query: 'group:1 period:1', description: 'Filter elements by group and period' }
+    { query: 'group:1 period:1', description: 'Filter elements by group and period' },
+    { query: 'state:liquid NOT ghs:06', description: 'Liquid at 25 °C, without the toxic pictogram' }
   ]
 }
 
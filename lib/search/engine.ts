@@ -11,6 +11,7 @@ import {
   HelpSearchData,
   AdvancedQuerySyntax
 } from './types'
+import { matchesQuery, mergeSearchFilters, parseSearchQuery } from './query-language'
 import { COMMON_COMPOUNDS } from '../data/compounds'
 import { PERIODIC_TABLE } from '../data/periodic-table'
 
@@ -58,6 +59,7 @@ export class VerChemSearchEngine {
         density: compound.density,
         solubility: typeof compound.solubility === 'string' ? compound.solubility : compound.solubility?.water,
         appearance: compound.appearance,
+        state: compound.physicalState,
         hazards: hazardTypes,
         ghsCodes: ghsCodes as string[],
         uses: compound.uses,
@@ -83,6 +85,7 @@ export class VerChemSearchEngine {
       group: element.group,
       period: element.period,
       block: element.block,
+      state: element.standardState,
       electronConfiguration: element.electronConfiguration,
       electronegativity: element.electronegativity,
       ionizationEnergy: element.ionizationEnergy,
@@ -282,6 +285,50 @@ export class VerChemSearchEngine {
         tags: ['kinetics', 'reaction-rate', 'rate-constant', 'activation-energy', 'half-life'],
         url: '/kinetics'
       },
+      {
+        id: 'speciation',
+        name: 'Acid-Base Speciation Calculator',
+        description: 'Alpha fractions and distribution diagrams for polyprotic acids and amino acids, and exact pH of mixtures',
+        category: 'analytical',
+        type: 'speciation',
+        inputs: [
+          { name: 'acid', type: 'string', description: 'Polyprotic acid, amino acid or Ka values' },
+          { name: 'pH', type: 'number', description: 'Solution pH' },
+          { name: 'components', type: 'array', unit: 'M', description: 'Acids, salts, HCl and NaOH in a mixture' }
+        ],
+        outputs: [
+          { name: 'alphaFractions', type: 'array', description: 'Fraction of each form' },
+          { name: 'distributionDiagram', type: 'array', description: 'Alpha fractions across pH 0-14' },
+          { name: 'pH', type: 'number', description: 'Exact pH from the charge balance' },
+          { name: 'isoelectricPoint', type: 'number', description: 'pI of amino acids' }
+        ],
+        difficulty: 'advanced',
+        educationalLevel: ['college', 'university'],
+        tags: ['speciation', 'polyprotic', 'alpha-fraction', 'distribution-diagram', 'amino-acid', 'isoelectric-point', 'buffer', 'ph'],
+        url: '/speciation'
+      },
+      {
+        id: 'equilibrium',
+        name: 'Chemical Equilibrium Calculator',
+        description: 'Solve ICE tables for equilibrium composition from K and initial amounts',
+        category: 'thermodynamics',
+        type: 'equilibrium',
+        inputs: [
+          { name: 'equation', type: 'string', description: 'Chemical reaction' },
+          { name: 'initialAmounts', type: 'object', unit: 'M/atm', description: 'Initial concentrations or partial pressures' },
+          { name: 'K', type: 'number', description: 'Equilibrium constant (Kc or Kp)' },
+          { name: 'temperature', type: 'number', unit: 'K', description: 'Temperature' }
+        ],
+        outputs: [
+          { name: 'iceTable', type: 'array', description: 'Initial, change and equilibrium amounts' },
+          { name: 'reactionQuotient', type: 'number', description: 'Q and the direction of shift' },
+          { name: 'Kp', type: 'number', description: 'Kc ↔ Kp conversion' }
+        ],
+        difficulty: 'intermediate',
+        educationalLevel: ['high-school', 'college', 'university'],
+        tags: ['equilibrium', 'ice-table', 'reaction-quotient', 'le-chatelier', 'kc', 'kp'],
+        url: '/equilibrium'
+      },
       {
         id: 'titration',
         name: 'Titration Calculator',
@@ -509,147 +556,49 @@ export class VerChemSearchEngine {
       return this.getFilteredResults(filters, options)
     }
 
-    // Parse advanced query syntax
+    // Parse the query language (query-language.ts): free text for the
+    // indexes, SearchFilters where a clause has one, a predicate for the rest.
+    // Clauses that fail to parse are left out (SearchBar shows why).
     const parsedQuery = this.parseAdvancedQuery(searchQuery)
-    const effectiveFilters: SearchFilters = { ...filters }
-
-    // Map parsed ranges onto structured filters (e.g. MW:100-200 -> molecularWeightRange)
-    if (parsedQuery.ranges.length > 0) {
-      parsedQuery.ranges.forEach(range => {
-        const field = range.field.toLowerCase()
-        if (field === 'mw' || field === 'molecularweight' || field === 'molarmass') {
-          effectiveFilters.molecularWeightRange = {
-            min: range.min,
-            max: range.max
-          }
-        } else if (field === 'mp' || field === 'meltingpoint') {
-          effectiveFilters.meltingPointRange = {
-            min: range.min,
-            max: range.max
-          }
-        } else if (field === 'bp' || field === 'boilingpoint') {
-          effectiveFilters.boilingPointRange = {
-            min: range.min,
-            max: range.max
-          }
-        } else if (field === 'an' || field === 'atomicnumber' || field === 'z') {
-          effectiveFilters.atomicNumberRange = {
-            min: range.min,
-            max: range.max
-          }
-        } else if (field === 'pka') {
-          effectiveFilters.pKaRange = {
-            min: range.min,
-            max: range.max
-          }
-        } else if (field === 'pkb') {
-          effectiveFilters.pKbRange = {
-            min: range.min,
-            max: range.max
-          }
-        }
-      })
-    }
-    
-    // Map field-specific filters (e.g., type:compound, category:reactions)
-    if (parsedQuery.fieldFilters && parsedQuery.fieldFilters.length > 0) {
-      parsedQuery.fieldFilters.forEach(filter => {
-        const field = filter.field.toLowerCase()
-        const value = filter.value.toLowerCase()
-        
-        switch (field) {
-          case 'type': {
-            const existing = effectiveFilters.type || []
-            if (!existing.includes(value)) {
-              effectiveFilters.type = [...existing, value]
-            }
-            break
-          }
-          case 'category': {
-            const existing = effectiveFilters.category || []
-            if (!existing.includes(value)) {
-              effectiveFilters.category = [...existing, value]
-            }
-            break
-          }
-          case 'difficulty': {
-            const existing = effectiveFilters.difficulty || []
-            if (!existing.includes(value)) {
-              effectiveFilters.difficulty = [...existing, value]
-            }
-            break
-          }
-        }
-      })
-    }
-    
-    let results: SearchResult[] = []
+    const effectiveFilters = mergeSearchFilters(filters, parsedQuery.filters)
 
-    // Search compounds
-    if (!effectiveFilters.type || effectiveFilters.type.includes('compound')) {
-      const compoundResults = this.searchCompounds(parsedQuery)
-      results = results.concat(compoundResults)
-    }
+    let results: SearchResult[] = []
 
-    // Search elements
-    if (!effectiveFilters.type || effectiveFilters.type.includes('element')) {
-      const elementResults = this.searchElements(parsedQuery)
-      results = results.concat(elementResults)
-    }
+    const hasTerms = parsedQuery.mustInclude.length > 0 || parsedQuery.exactPhrases.length > 0
+
+    if (!hasTerms) {
+      // Filter-only queries (e.g. "type:element state:gas", "MW:100-200",
+      // "acid OR base") list everything that passes the filters
+      results = this.getFilteredResults(effectiveFilters, options)
+    } else {
+      // Search compounds
+      if (!effectiveFilters.type || effectiveFilters.type.includes('compound')) {
+        const compoundResults = this.searchCompounds(parsedQuery)
+        results = results.concat(compoundResults)
+      }
 
-    // Search calculators
-    if (!effectiveFilters.type || effectiveFilters.type.includes('calculator')) {
-      const calculatorResults = this.searchCalculators(parsedQuery)
-      results = results.concat(calculatorResults)
-    }
+      // Search elements
+      if (!effectiveFilters.type || effectiveFilters.type.includes('element')) {
+        const elementResults = this.searchElements(parsedQuery)
+        results = results.concat(elementResults)
+      }
 
-    // Search help
-    if (!effectiveFilters.type || effectiveFilters.type.includes('help')) {
-      const helpResults = this.searchHelp(parsedQuery)
-      results = results.concat(helpResults)
-    }
+      // Search calculators
+      if (!effectiveFilters.type || effectiveFilters.type.includes('calculator')) {
+        const calculatorResults = this.searchCalculators(parsedQuery)
+        results = results.concat(calculatorResults)
+      }
 
-    // Apply OR groups: each group requires at least one term match
-    if (parsedQuery.orGroups && parsedQuery.orGroups.length > 0) {
-      const orGroups = parsedQuery.orGroups
-        .filter(group => group.length > 0)
-        .map(group => group.map(term => term.toLowerCase()))
-
-      if (orGroups.length > 0) {
-        results = results.filter(result => {
-          const haystack = [
-            result.title,
-            result.subtitle || '',
-            result.description,
-            result.category,
-            result.tags.join(' ')
-          ]
-            .join(' ')
-            .toLowerCase()
-
-          // Every OR group must have at least one term present
-          return orGroups.every(group =>
-            group.some(term => haystack.includes(term))
-          )
-        })
+      // Search help
+      if (!effectiveFilters.type || effectiveFilters.type.includes('help')) {
+        const helpResults = this.searchHelp(parsedQuery)
+        results = results.concat(helpResults)
       }
     }
 
-    // Apply exclusion terms (NOT operator) across title/description/tags/category
-    if (parsedQuery.mustExclude.length > 0) {
-      const excluded = parsedQuery.mustExclude.map(term => term.toLowerCase())
-      results = results.filter(result => {
-        const haystack = [
-          result.title,
-          result.subtitle || '',
-          result.description,
-          result.category,
-          result.tags.join(' ')
-        ]
-          .join(' ')
-          .toLowerCase()
-        return !excluded.some(term => haystack.includes(term))
-      })
+    const predicate = parsedQuery.predicate
+    if (predicate) {
+      results = results.filter(result => matchesQuery(predicate, result))
     }
 
     // Apply filters and sorting (including any ranges from the query)
@@ -663,121 +612,7 @@ export class VerChemSearchEngine {
   }
 
   private parseAdvancedQuery(query: string): AdvancedQuerySyntax {
-    const syntax: AdvancedQuerySyntax = {
-      mustInclude: [],
-      mustExclude: [],
-      exactPhrases: [],
-      ranges: [],
-      wildcards: [],
-      orGroups: [],
-      fieldFilters: []
-    }
-
-    // Extract exact phrases (quoted text)
-    const phraseMatches = query.match(/"([^"]+)"/g)
-    if (phraseMatches) {
-      syntax.exactPhrases = phraseMatches.map(match => match.slice(1, -1))
-      query = query.replace(/"[^"]+"/g, '')
-    }
-
-    // Extract must exclude terms (NOT operator)
-    const excludeMatches = query.match(/\bNOT\s+(\w+)/gi)
-    if (excludeMatches) {
-      syntax.mustExclude = excludeMatches.map(match => match.replace(/NOT\s+/i, ''))
-      query = query.replace(/\bNOT\s+\w+/gi, '')
-    }
-
-    // Extract ranges (e.g., MW:100-200, MP:-100--50)
-    const rangeRegex = /(\w+):(-?\d+(?:\.\d+)?)-(-?\d+(?:\.\d+)?)/g
-    const rangeExtractRegex = /(\w+):(-?\d+(?:\.\d+)?)-(-?\d+(?:\.\d+)?)/
-    const rangeMatches = query.match(rangeRegex)
-    if (rangeMatches) {
-      syntax.ranges = rangeMatches.map(match => {
-        const parsed = match.match(rangeExtractRegex)
-        if (!parsed) {
-          return { field: '', min: undefined, max: undefined }
-        }
-        const [, field, min, max] = parsed
-        return { field, min: parseFloat(min), max: parseFloat(max) }
-      })
-      query = query.replace(rangeRegex, '')
-    }
-
-    // Remaining terms: parse field filters, OR groups, and must-include terms
-    const rawTerms = query.split(/\s+/).filter(term => term.trim())
-
-    const stripParens = (term: string) =>
-      term.replace(/^[()]+/, '').replace(/[()]+$/, '')
-
-    const mustInclude: string[] = []
-
-    let i = 0
-    while (i < rawTerms.length) {
-      const term = rawTerms[i]
-
-      // Skip standalone OR tokens (handled as part of groups)
-      if (term.toUpperCase() === 'OR') {
-        i += 1
-        continue
-      }
-
-      // Field-specific filter (e.g., type:compound, category:reactions)
-      const fieldMatch = term.match(/^(\w+):(.+)$/)
-      if (fieldMatch) {
-        const [, field, value] = fieldMatch
-        const cleanedValue = stripParens(value)
-        if (cleanedValue) {
-          syntax.fieldFilters.push({
-            field: field.toLowerCase(),
-            value: cleanedValue
-          })
-        }
-        i += 1
-        continue
-      }
-
-      // OR group: term1 OR term2 [OR term3 ...]
-      if (i + 1 < rawTerms.length && rawTerms[i + 1].toUpperCase() === 'OR') {
-        const group: string[] = [stripParens(term)]
-        let j = i + 2
-
-        while (j < rawTerms.length) {
-          const next = rawTerms[j]
-          if (next.toUpperCase() === 'OR') {
-            j += 1
-            continue
-          }
-
-          group.push(stripParens(next))
-
-          if (j + 1 < rawTerms.length && rawTerms[j + 1].toUpperCase() === 'OR') {
-            j += 2
-          } else {
-            j += 1
-            break
-          }
-        }
-
-        const cleanedGroup = group.filter(Boolean)
-        if (cleanedGroup.length > 0) {
-          syntax.orGroups.push(cleanedGroup)
-        }
-
-        i = j
-        continue
-      }
-
-      // Default: must-include term
-      const cleaned = stripParens(term)
-      if (cleaned) {
-        mustInclude.push(cleaned)
-      }
-      i += 1
-    }
-
-    syntax.mustInclude = mustInclude
-
-    return syntax
+    return parseSearchQuery(query)
   }
 
   private searchCompounds(
@@ -1055,6 +890,11 @@ export class VerChemSearchEngine {
       if (!hasMatchingApplication) return false
     }
 
+    // Physical state at room temperature
+    if (filters.state && !filters.state.includes(data.state)) {
+      return false
+    }
+
     return true
   }
 
@@ -1091,6 +931,11 @@ export class VerChemSearchEngine {
       return false
     }
 
+    // Standard state
+    if (filters.state && !filters.state.includes(data.state)) {
+      return false
+    }
+
     return true
   }
 
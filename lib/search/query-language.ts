@@ -0,0 +1,764 @@
+// VerChem Search Query Language
+//
+// What the search box understands, e.g.
+//
+//   acid bp:50..120C contains:Cl state:liquid NOT ghs:06
+//
+//   field:value        type:compound  category:solvent  block:p  hazard:flammable
+//   contains:Cl        element in the formula (also has:, element:; names work too)
+//   ghs:GHS06          GHS pictogram (ghs:06 and ghs:6 are the same)
+//   state:liquid       standard state at 25 °C; state:liquid@80C at another temperature
+//   bp:50..120C        inclusive range; open ends (bp:50..), dashes (bp:50-120), or
+//   bp>=50 / bp:<120   comparisons; bp:100 matches to the precision written
+//   numbers            decimals or exponents (mw:1.2e3); no temperature below 0 K
+//   units              °C/C/K/F for mp and bp (°C when omitted), g/mol or Da for
+//                      mw, g/cm3, g/mL, kg/m3 or g/L for density
+//   NOT x, -x          exclusion; a OR b; AND is implied; (…) groups
+//   "exact phrase"
+//
+// parseSearchQuery() turns a query into AdvancedQuerySyntax: free text for the
+// Fuse indexes, SearchFilters for the top-level clauses that have one, and a
+// predicate (matchesQuery) for the rest. A clause that does not parse is
+// reported with its position and left out, so the rest of the query still runs.
+
+import { PERIODIC_TABLE } from '../data/periodic-table'
+import type {
+  AdvancedQuerySyntax,
+  CalculatorSearchData,
+  CompoundSearchData,
+  ElementSearchData,
+  QueryKeywordField,
+  QueryNode,
+  QueryNumericField,
+  QueryParseError,
+  SearchFilters,
+  SearchResult
+} from './types'
+
+type Dimension = 'temperature' | 'molarMass' | 'density' | 'none'
+
+const NUMERIC_FIELDS: Record<string, { field: QueryNumericField; dimension: Dimension }> = {
+  mw: { field: 'molecularWeight', dimension: 'molarMass' },
+  molarmass: { field: 'molecularWeight', dimension: 'molarMass' },
+  molecularweight: { field: 'molecularWeight', dimension: 'molarMass' },
+  mass: { field: 'molecularWeight', dimension: 'molarMass' },
+  mp: { field: 'meltingPoint', dimension: 'temperature' },
+  meltingpoint: { field: 'meltingPoint', dimension: 'temperature' },
+  bp: { field: 'boilingPoint', dimension: 'temperature' },
+  boilingpoint: { field: 'boilingPoint', dimension: 'temperature' },
+  density: { field: 'density', dimension: 'density' },
+  pka: { field: 'pKa', dimension: 'none' },
+  pkb: { field: 'pKb', dimension: 'none' },
+  an: { field: 'atomicNumber', dimension: 'none' },
+  atomicnumber: { field: 'atomicNumber', dimension: 'none' },
+  z: { field: 'atomicNumber', dimension: 'none' },
+  group: { field: 'group', dimension: 'none' },
+  period: { field: 'period', dimension: 'none' }
+}
+
+const KEYWORD_FIELDS: Record<string, QueryKeywordField | 'state'> = {
+  type: 'type',
+  category: 'category',
+  difficulty: 'difficulty',
+  block: 'block',
+  contains: 'element',
+  has: 'element',
+  element: 'element',
+  ghs: 'ghs',
+  hazard: 'hazard',
+  state: 'state',
+  phase: 'state'
+}
+
+const FIELD_NAMES = 'bp, mp, mw, density, pka, pkb, an, group, period, state, contains, ghs, hazard, type, category, difficulty, block'
+
+const DIMENSION_NAMES: Record<Dimension, string> = {
+  temperature: 'temperature',
+  molarMass: 'molar mass',
+  density: 'density',
+  none: 'this field'
+}
+
+interface Unit {
+  name: string
+  dimension: Dimension
+  convert: (x: number) => number
+}
+
+/** Units by dimension; convert() maps to °C, g/mol or g/cm³. */
+const UNIT_TABLE: Unit[] = [
+  { name: 'celsius', dimension: 'temperature', convert: x => x },
+  { name: 'kelvin', dimension: 'temperature', convert: x => x - 273.15 },
+  { name: 'degc', dimension: 'temperature', convert: x => x },
+  { name: 'degf', dimension: 'temperature', convert: x => (x - 32) * 5 / 9 },
+  { name: '°c', dimension: 'temperature', convert: x => x },
+  { name: '°f', dimension: 'temperature', convert: x => (x - 32) * 5 / 9 },
+  { name: 'c', dimension: 'temperature', convert: x => x },
+  { name: 'k', dimension: 'temperature', convert: x => x - 273.15 },
+  { name: 'f', dimension: 'temperature', convert: x => (x - 32) * 5 / 9 },
+  { name: 'kg/mol', dimension: 'molarMass', convert: x => x * 1000 },
+  { name: 'g/mol', dimension: 'molarMass', convert: x => x },
+  { name: 'kda', dimension: 'molarMass', convert: x => x * 1000 },
+  { name: 'da', dimension: 'molarMass', convert: x => x },
+  { name: 'kg/m3', dimension: 'density', convert: x => x / 1000 },
+  { name: 'kg/m³', dimension: 'density', convert: x => x / 1000 },
+  { name: 'g/cm3', dimension: 'density', convert: x => x },
+  { name: 'g/cm³', dimension: 'density', convert: x => x },
+  { name: 'g/ml', dimension: 'density', convert: x => x },
+  { name: 'g/cc', dimension: 'density', convert: x => x },
+  { name: 'g/l', dimension: 'density', convert: x => x / 1000 }
+]
+// Longest names first: '°c' before 'c', 'kg/mol' before 'k'
+const UNITS = [...UNIT_TABLE].sort((a, b) => b.name.length - a.name.length)
+
+const RESULT_TYPES = ['compound', 'element', 'calculator', 'help', 'tool']
+const ELEMENT_SYMBOLS = new Set(PERIODIC_TABLE.map(element => element.symbol))
+
+const RANGE_FILTERS: Partial<Record<QueryNumericField, keyof SearchFilters>> = {
+  molecularWeight: 'molecularWeightRange',
+  meltingPoint: 'meltingPointRange',
+  boilingPoint: 'boilingPointRange',
+  atomicNumber: 'atomicNumberRange',
+  pKa: 'pKaRange',
+  pKb: 'pKbRange'
+}
+
+// ---------------------------------------------------------------------------
+// Tokens
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'minus'; start: number; end: number }
+  | { type: 'word'; text: string; quoted: boolean; start: number; end: number }
+
+function count(text: string, char: string): number {
+  return text.split(char).length - 1
+}
+
+/**
+ * Whitespace separates terms (except inside quotes). Parentheses group only
+ * at the edges of a term, so SMILES such as CC(=O)O stay one term.
+ */
+function tokenize(query: string, errors: QueryParseError[]): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i += 1
+      continue
+    }
+
+    const start = i
+    let inQuote = false
+    while (i < query.length && (inQuote || !/\s/.test(query[i]))) {
+      if (query[i] === '"') inQuote = !inQuote
+      i += 1
+    }
+    if (inQuote) errors.push({ message: 'Missing closing quote', start, end: i })
+
+    const chunk = query.slice(start, i)
+    let a = 0
+    let b = chunk.length
+    if (chunk[0] === '-' && /[A-Za-z"(]/.test(chunk[1] ?? '')) {
+      tokens.push({ type: 'minus', start, end: start + 1 })
+      a = 1
+    }
+    while (a < b && chunk[a] === '(') {
+      tokens.push({ type: 'lparen', start: start + a, end: start + a + 1 })
+      a += 1
+    }
+    const closes: Token[] = []
+    while (b > a && chunk[b - 1] === ')' && count(chunk.slice(a, b), ')') > count(chunk.slice(a, b), '(')) {
+      b -= 1
+      closes.unshift({ type: 'rparen', start: start + b, end: start + b + 1 })
+    }
+    if (b > a) {
+      let text = chunk.slice(a, b)
+      const quoted = text.startsWith('"')
+      if (quoted) text = text.slice(1, text.endsWith('"') && text.length > 1 ? -1 : undefined)
+      tokens.push({ type: 'word', text, quoted, start: start + a, end: start + b })
+    }
+    tokens.push(...closes)
+  }
+
+  return tokens
+}
+
+// ---------------------------------------------------------------------------
+// Clauses
+// ---------------------------------------------------------------------------
+
+const CLAUSE = /^([A-Za-z][A-Za-z0-9_]*)(:|>=|<=|>|<|=)([\s\S]*)$/
+const NUMBER = /^[-+]?(?:\d+(?:\.\d+)?|\.\d+)(?:e[-+]?\d+)?/i
+const ABSOLUTE_ZERO_C = -273.15
+
+class ClauseError extends Error {}
+
+interface Quantity {
+  /** As written, for error messages. */
+  text: string
+  value: number
+  /** Half a unit in the last digit written: bp:100 is 99.5 ≤ bp < 100.5. */
+  half: number
+  convert: (x: number) => number
+  hasUnit: boolean
+}
+
+/** Reads `<number><unit?>` at `text[i]`; returns the quantity and the index after it. */
+function readQuantity(text: string, i: number, dimension: Dimension, field: string): [Quantity | null, number] {
+  const start = i
+  const number = text.slice(i).match(NUMBER)
+  if (!number) return [null, i]
+  i += number[0].length
+  const [mantissa, exponent = '0'] = number[0].toLowerCase().split('e')
+  const decimals = mantissa.split('.')[1]?.length ?? 0
+  const value = Number(number[0])
+  if (!Number.isFinite(value)) throw new ClauseError(`${number[0]} is too large a number for ${field}`)
+
+  const rest = text.slice(i).toLowerCase()
+  // No unit starts with e: "1e" and "1e+" are numbers missing their exponent
+  const partial = rest.match(/^e[-+]?(?![a-z°µ/])/)
+  if (partial) throw new ClauseError(`Malformed number "${number[0]}${partial[0]}" for ${field}`)
+  const unit = UNITS.find(u => rest.startsWith(u.name) && !/[a-z]/.test(rest[u.name.length] ?? ''))
+  if (unit) {
+    if (unit.dimension !== dimension) {
+      throw new ClauseError(
+        dimension === 'none'
+          ? `${field} takes a plain number, not ${text.slice(i, i + unit.name.length)}`
+          : `${text.slice(i, i + unit.name.length)} is not a unit of ${DIMENSION_NAMES[dimension]}`
+      )
+    }
+    i += unit.name.length
+  } else if (/^[a-z°µ/]/.test(rest)) {
+    const word = text.slice(i).match(/^[^\s.–—-]+/)?.[0] ?? rest
+    throw new ClauseError(`Unknown unit "${word}" for ${field}`)
+  }
+
+  return [
+    {
+      text: text.slice(start, i),
+      value,
+      half: 0.5 * 10 ** (Number(exponent) - decimals),
+      convert: unit?.convert ?? (x => x),
+      hasUnit: !!unit
+    },
+    i
+  ]
+}
+
+/** `q` in °C; refuses anything below absolute zero. */
+function toCelsius(q: Quantity, field: string, convert = q.convert): number {
+  const x = convert(q.value)
+  // Allow for rounding in the °F conversion of -459.67F
+  if (x < ABSOLUTE_ZERO_C - 1e-9) {
+    throw new ClauseError(`${field}: ${q.text} is below absolute zero (-273.15 °C)`)
+  }
+  return x
+}
+
+function rangeNode(
+  field: QueryNumericField,
+  bounds: { min?: number; max?: number; minExclusive?: boolean; maxExclusive?: boolean }
+): QueryNode {
+  const node: Extract<QueryNode, { kind: 'range' }> = { kind: 'range', field }
+  if (bounds.min !== undefined) node.min = bounds.min
+  if (bounds.max !== undefined) node.max = bounds.max
+  if (bounds.minExclusive) node.minExclusive = true
+  if (bounds.maxExclusive) node.maxExclusive = true
+  return node
+}
+
+function parseRange(name: string, op: string, value: string): QueryNode {
+  const { field, dimension } = NUMERIC_FIELDS[name]
+  let text = value
+  let comparison = op === ':' ? '' : op
+  if (!comparison) {
+    const m = text.match(/^(>=|<=|>|<|=)/)
+    if (m) {
+      comparison = m[1]
+      text = text.slice(m[1].length)
+    }
+  }
+  const unexpected = (i: number) => new ClauseError(`Unexpected "${text.slice(i)}" in ${name}`)
+  const valueOf = (q: Quantity, convert = q.convert) =>
+    dimension === 'temperature' ? toCelsius(q, name, convert) : convert(q.value)
+
+  if (comparison) {
+    const [q, i] = readQuantity(text, 0, dimension, name)
+    if (!q) throw new ClauseError(`${name}${comparison} needs a number`)
+    if (i < text.length) throw unexpected(i)
+    const x = valueOf(q)
+    switch (comparison) {
+      case '>': return rangeNode(field, { min: x, minExclusive: true })
+      case '>=': return rangeNode(field, { min: x })
+      case '<': return rangeNode(field, { max: x, maxExclusive: true })
+      case '<=': return rangeNode(field, { max: x })
+      default: return rangeNode(field, { min: q.convert(q.value - q.half), max: q.convert(q.value + q.half), maxExclusive: true })
+    }
+  }
+
+  let i = 0
+  let lo: Quantity | null = null
+  if (!text.startsWith('..')) {
+    ;[lo, i] = readQuantity(text, 0, dimension, name)
+    if (!lo) throw new ClauseError(`${name} needs a number or a range like ${name}:50..120`)
+  }
+
+  let separator = ''
+  if (text.startsWith('..', i)) separator = '..'
+  else if (lo && /^[-–—]/.test(text.slice(i))) separator = text[i]
+  if (!separator) {
+    if (i < text.length) throw unexpected(i)
+    valueOf(lo!)
+    return rangeNode(field, { min: lo!.convert(lo!.value - lo!.half), max: lo!.convert(lo!.value + lo!.half), maxExclusive: true })
+  }
+  i += separator.length
+
+  const [hi, end] = readQuantity(text, i, dimension, name)
+  if (end < text.length) throw unexpected(end)
+  if (!hi && separator !== '..') throw new ClauseError(`${name} range needs a number after "${separator}"`)
+  if (!lo && !hi) throw new ClauseError(`${name} range needs at least one end`)
+
+  // One unit covers both ends: bp:50..120C
+  const loConvert = lo?.hasUnit ? lo.convert : hi?.convert ?? (x => x)
+  const hiConvert = hi?.hasUnit ? hi.convert : lo?.convert ?? (x => x)
+  const min = lo ? valueOf(lo, loConvert) : undefined
+  const max = hi ? valueOf(hi, hiConvert) : undefined
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new ClauseError(`${name} range is empty: the lower end is above the upper end`)
+  }
+  return rangeNode(field, { min, max })
+}
+
+function parseKeyword(name: string, value: string): QueryNode {
+  const field = KEYWORD_FIELDS[name]
+
+  if (field === 'state') {
+    const m = value.match(/^(solid|liquid|gas)(?:@(.*))?$/i)
+    if (!m) throw new ClauseError(`${name} is solid, liquid or gas (optionally at a temperature, e.g. liquid@80C)`)
+    const state = m[1].toLowerCase() as 'solid' | 'liquid' | 'gas'
+    if (m[2] === undefined) return { kind: 'state', state }
+    const [q, end] = readQuantity(m[2], 0, 'temperature', name)
+    if (!q || end < m[2].length) throw new ClauseError(`${name}:${state}@ needs a temperature, e.g. ${state}@25C`)
+    return { kind: 'state', state, temperature: toCelsius(q, name) }
+  }
+
+  switch (field) {
+    case 'type': {
+      const type = value.toLowerCase()
+      if (!RESULT_TYPES.includes(type)) throw new ClauseError(`type is one of: ${RESULT_TYPES.join(', ')}`)
+      return { kind: 'keyword', field, value: type }
+    }
+    case 'block': {
+      if (!/^[spdf]$/i.test(value)) throw new ClauseError('block is s, p, d or f')
+      return { kind: 'keyword', field, value: value.toLowerCase() }
+    }
+    case 'element': {
+      const symbol = value.length <= 3 ? value[0].toUpperCase() + value.slice(1).toLowerCase() : ''
+      const element = ELEMENT_SYMBOLS.has(symbol)
+        ? symbol
+        : PERIODIC_TABLE.find(e => e.name.toLowerCase() === value.toLowerCase())?.symbol
+      if (!element) throw new ClauseError(`Unknown element "${value}"`)
+      return { kind: 'keyword', field, value: element }
+    }
+    case 'ghs': {
+      const m = value.match(/^(?:ghs)?0?([1-9])$/i)
+      if (!m) throw new ClauseError('GHS pictograms run from GHS01 to GHS09')
+      return { kind: 'keyword', field, value: `GHS0${m[1]}` }
+    }
+    default:
+      return { kind: 'keyword', field, value: value.toLowerCase() }
+  }
+}
+
+/** A word term: free text, or a field clause. Null when the clause is invalid (reported). */
+function parseTerm(token: Extract<Token, { type: 'word' }>, errors: QueryParseError[]): QueryNode | null {
+  if (token.quoted) return token.text ? { kind: 'text', value: token.text, phrase: true } : null
+
+  const m = token.text.match(CLAUSE)
+  const name = m?.[1].toLowerCase() ?? ''
+  // Comparisons only for known fields: C=C and O=C=O are SMILES, not clauses
+  if (!m || (m[2] !== ':' && !NUMERIC_FIELDS[name])) {
+    return { kind: 'text', value: token.text, phrase: false }
+  }
+
+  const fail = (message: string, start = token.start) => {
+    errors.push({ message, start, end: token.end })
+    return null
+  }
+  if (!NUMERIC_FIELDS[name] && !KEYWORD_FIELDS[name]) {
+    return fail(`Unknown field "${m[1]}". Fields: ${FIELD_NAMES}`, token.start)
+  }
+
+  let value = m[3]
+  if (value.startsWith('"')) value = value.slice(1, value.endsWith('"') && value.length > 1 ? -1 : undefined)
+  value = value.trim()
+  const valueStart = token.start + m[1].length + m[2].length
+  if (!value && m[2] === ':') return fail(`${m[1]}: needs a value`)
+
+  try {
+    return NUMERIC_FIELDS[name] ? parseRange(name, m[2], value) : parseKeyword(name, value)
+  } catch (err) {
+    if (!(err instanceof ClauseError)) throw err
+    return fail(err.message, valueStart > token.end ? token.start : valueStart)
+  }
+}
+
+/** True when `text` is a field clause still waiting for its value or unit. */
+function awaitsMore(text: string): 'value' | 'unit' | null {
+  const m = text.match(CLAUSE)
+  if (!m) return null
+  const name = m[1].toLowerCase()
+  if (m[2] === ':' && !m[3] && (NUMERIC_FIELDS[name] || KEYWORD_FIELDS[name])) return 'value'
+  const numeric = NUMERIC_FIELDS[name]
+  return numeric && numeric.dimension !== 'none' && /\d$/.test(m[3]) ? 'unit' : null
+}
+
+function isUnitFor(text: string, clause: string): boolean {
+  const name = clause.match(CLAUSE)![1].toLowerCase()
+  const unit = UNITS.find(u => u.name === text.toLowerCase())
+  return !!unit && unit.dimension === NUMERIC_FIELDS[name].dimension
+}
+
+// ---------------------------------------------------------------------------
+// Boolean structure: OR binds loosest, then AND (implied), then NOT / -
+// ---------------------------------------------------------------------------
+
+function combine(kind: 'and' | 'or', nodes: Array<QueryNode | null>): QueryNode | null {
+  const children: QueryNode[] = []
+  for (const node of nodes) {
+    if (!node) continue
+    if (node.kind === kind) children.push(...node.children)
+    else children.push(node)
+  }
+  if (children.length === 0) return null
+  return children.length === 1 ? children[0] : { kind, children }
+}
+
+function parseTokens(tokens: Token[], errors: QueryParseError[]): QueryNode | null {
+  let pos = 0
+  const isKeyword = (token: Token | undefined, keyword: string) =>
+    token?.type === 'word' && !token.quoted && token.text.toUpperCase() === keyword
+  const endsOperand = (token: Token | undefined) =>
+    !token || token.type === 'rparen' || isKeyword(token, 'OR') || isKeyword(token, 'AND')
+
+  function parseOr(): QueryNode | null {
+    const children: Array<QueryNode | null> = [parseAnd()]
+    while (isKeyword(tokens[pos], 'OR')) {
+      const op = tokens[pos++]
+      if (!children.some(Boolean)) errors.push({ message: 'OR needs a term before it', start: op.start, end: op.end })
+      const next = parseAnd()
+      if (!next) errors.push({ message: 'OR needs a term after it', start: op.start, end: op.end })
+      children.push(next)
+    }
+    return combine('or', children)
+  }
+
+  function parseAnd(): QueryNode | null {
+    const children: Array<QueryNode | null> = []
+    while (pos < tokens.length) {
+      const token = tokens[pos]
+      if (token.type === 'rparen' || isKeyword(token, 'OR')) break
+      if (isKeyword(token, 'AND')) {
+        pos += 1
+        if (children.length === 0 || endsOperand(tokens[pos])) {
+          errors.push({ message: 'AND needs a term on both sides', start: token.start, end: token.end })
+        }
+        continue
+      }
+      children.push(parseUnary())
+    }
+    return combine('and', children)
+  }
+
+  function parseUnary(): QueryNode | null {
+    const token = tokens[pos++]
+
+    if (token.type === 'minus' || isKeyword(token, 'NOT')) {
+      if (endsOperand(tokens[pos])) {
+        errors.push({ message: `${token.type === 'minus' ? '-' : 'NOT'} needs a term after it`, start: token.start, end: token.end })
+        return null
+      }
+      const child = parseUnary()
+      return child ? { kind: 'not', child } : null
+    }
+
+    if (token.type === 'lparen') {
+      const inner = parseOr()
+      if (tokens[pos]?.type === 'rparen') pos += 1
+      else errors.push({ message: 'Missing closing parenthesis', start: token.start, end: token.end })
+      if (!inner) errors.push({ message: 'Empty parentheses', start: token.start, end: tokens[pos - 1]?.end ?? token.end })
+      return inner
+    }
+
+    if (token.type !== 'word') return null
+
+    // "bp: 50..120 °C" — the value and the unit may follow as separate words
+    let word = token
+    for (let wait = awaitsMore(word.text); wait; wait = awaitsMore(word.text)) {
+      const next = tokens[pos]
+      if (next?.type !== 'word' || next.quoted || endsOperand(next)) break
+      if (wait === 'unit' && !isUnitFor(next.text, word.text)) break
+      word = { ...word, text: word.text + next.text, end: next.end }
+      pos += 1
+    }
+    return parseTerm(word, errors)
+  }
+
+  let root = parseOr()
+  while (pos < tokens.length) {
+    const stray = tokens[pos++]
+    errors.push({ message: 'Unmatched closing parenthesis', start: stray.start, end: stray.end })
+    root = combine('and', [root, parseOr()])
+  }
+  return root
+}
+
+// ---------------------------------------------------------------------------
+// Query → AdvancedQuerySyntax
+// ---------------------------------------------------------------------------
+
+function narrow<T>(existing: T[] | undefined, values: T[]): T[] {
+  return existing ? existing.filter(v => values.includes(v)) : values
+}
+
+function union<T>(existing: T[] | undefined, values: T[]): T[] {
+  return [...new Set([...(existing ?? []), ...values])]
+}
+
+type Range = { min?: number; max?: number }
+
+function intersect(a: Range | undefined, b: Range): Range {
+  const bounds = [a?.min, b.min].filter((v): v is number => v !== undefined)
+  const ceilings = [a?.max, b.max].filter((v): v is number => v !== undefined)
+  return {
+    min: bounds.length > 0 ? Math.max(...bounds) : undefined,
+    max: ceilings.length > 0 ? Math.min(...ceilings) : undefined
+  }
+}
+
+/** Integers a range admits, when it is small enough to list (group:13..18). */
+function integersIn(node: Extract<QueryNode, { kind: 'range' }>): number[] | null {
+  if (node.min === undefined || node.max === undefined) return null
+  let lo = Math.ceil(node.min)
+  let hi = Math.floor(node.max)
+  if (node.minExclusive && lo === node.min) lo += 1
+  if (node.maxExclusive && hi === node.max) hi -= 1
+  if (hi - lo > 20) return null
+  const values: number[] = []
+  for (let n = lo; n <= hi; n++) values.push(n)
+  return values
+}
+
+/** The SearchFilters equivalent of one top-level clause, merged into `filters`. */
+function addToFilters(filters: SearchFilters, node: QueryNode) {
+  if (node.kind === 'range') {
+    const key = RANGE_FILTERS[node.field]
+    if (key) {
+      const ranges = filters as Record<string, Range | undefined>
+      ranges[key] = intersect(ranges[key], { min: node.min, max: node.max })
+    } else if (node.field === 'group' || node.field === 'period') {
+      const values = integersIn(node)
+      if (values) filters[node.field] = narrow(filters[node.field], values)
+    }
+  } else if (node.kind === 'state' && node.temperature === undefined) {
+    filters.state = narrow(filters.state, [node.state])
+  } else if (node.kind === 'keyword') {
+    switch (node.field) {
+      case 'type':
+        filters.type = narrow(filters.type, [node.value])
+        break
+      case 'category':
+        filters.category = union(filters.category, [node.value])
+        break
+      case 'difficulty':
+        filters.difficulty = union(filters.difficulty, [node.value])
+        break
+      case 'block':
+        filters.block = union(filters.block, [node.value])
+        break
+      case 'ghs':
+        filters.ghsCodes = union(filters.ghsCodes, [node.value])
+        break
+      case 'hazard':
+        filters.safety = union(filters.safety, [node.value])
+        break
+    }
+  }
+}
+
+/**
+ * Parse a search box query. Top-level words are what the indexes are searched
+ * for; top-level phrases are searched for and required verbatim; every other
+ * clause becomes part of the predicate, and those with a SearchFilters
+ * equivalent are also put in `filters`.
+ */
+export function parseSearchQuery(query: string): AdvancedQuerySyntax {
+  const errors: QueryParseError[] = []
+  const root = parseTokens(tokenize(query, errors), errors)
+  const conjuncts = !root ? [] : root.kind === 'and' ? root.children : [root]
+
+  const mustInclude: string[] = []
+  const exactPhrases: string[] = []
+  const rest: QueryNode[] = []
+  const filters: SearchFilters = {}
+
+  for (const node of conjuncts) {
+    if (node.kind === 'text' && !node.phrase) {
+      mustInclude.push(node.value)
+      continue
+    }
+    if (node.kind === 'text') exactPhrases.push(node.value)
+    addToFilters(filters, node)
+    rest.push(node)
+  }
+
+  errors.sort((a, b) => a.start - b.start)
+  return { mustInclude, exactPhrases, filters, predicate: combine('and', rest), errors }
+}
+
+const NARROWING_FILTERS = ['type', 'state', 'group', 'period']
+
+/**
+ * Combine the caller's filters with the query's: type and state narrow
+ * (both must hold), other lists widen, ranges intersect.
+ */
+export function mergeSearchFilters(base: SearchFilters, extra: SearchFilters): SearchFilters {
+  const merged: Record<string, unknown> = { ...base }
+  for (const [key, value] of Object.entries(extra)) {
+    if (value === undefined) continue
+    if (Array.isArray(value)) {
+      const current = merged[key] as unknown[] | undefined
+      merged[key] = NARROWING_FILTERS.includes(key) ? narrow(current, value) : union(current, value)
+    } else {
+      merged[key] = intersect(merged[key] as Range | undefined, value as Range)
+    }
+  }
+  return merged as SearchFilters
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+const formulaElements = new Map<string, string[]>()
+
+/** Element symbols in a formula: CH3COOH → C, H, O; NaCl → Na, Cl. */
+export function elementsInFormula(formula: string): string[] {
+  let elements = formulaElements.get(formula)
+  if (!elements) {
+    elements = [...new Set(formula.match(/[A-Z][a-z]?/g) ?? [])].filter(symbol => ELEMENT_SYMBOLS.has(symbol))
+    formulaElements.set(formula, elements)
+  }
+  return elements
+}
+
+function haystack(result: SearchResult): string {
+  return [result.title, result.subtitle || '', result.description, result.category, result.tags.join(' ')]
+    .join(' ')
+    .toLowerCase()
+}
+
+/** The property in °C, g/mol or g/cm³; undefined when the result has none. */
+function numericValue(field: QueryNumericField, result: SearchResult): number | undefined {
+  if (result.type === 'compound') {
+    const data = result.data as CompoundSearchData
+    switch (field) {
+      case 'molecularWeight': return data.molecularMass || undefined
+      case 'meltingPoint': return data.meltingPoint
+      case 'boilingPoint': return data.boilingPoint
+      case 'density': return data.density
+      case 'pKa': return data.pKa
+      case 'pKb': return data.pKb
+      default: return undefined
+    }
+  }
+  if (result.type === 'element') {
+    const data = result.data as ElementSearchData
+    switch (field) {
+      case 'molecularWeight': return data.atomicMass
+      // Element melting and boiling points are stored in kelvin
+      case 'meltingPoint': return data.meltingPoint === undefined ? undefined : data.meltingPoint - 273.15
+      case 'boilingPoint': return data.boilingPoint === undefined ? undefined : data.boilingPoint - 273.15
+      case 'density': return data.density
+      case 'atomicNumber': return data.atomicNumber
+      case 'group': return data.group
+      case 'period': return data.period
+      default: return undefined
+    }
+  }
+  return undefined
+}
+
+function inRange(node: Extract<QueryNode, { kind: 'range' }>, value: number): boolean {
+  if (node.min !== undefined && (node.minExclusive ? value <= node.min : value < node.min)) return false
+  if (node.max !== undefined && (node.maxExclusive ? value >= node.max : value > node.max)) return false
+  return true
+}
+
+/**
+ * Physical state at `temperature` (°C) from the melting and boiling points,
+ * falling back to the 25 °C state where that settles it; undefined if unknown.
+ */
+function stateAt(result: SearchResult, temperature?: number): string | undefined {
+  if (result.type !== 'compound' && result.type !== 'element') return undefined
+  const data = result.data as CompoundSearchData | ElementSearchData
+  const standard = data.state === 'unknown' ? undefined : data.state
+  if (temperature === undefined) return standard
+
+  const mp = numericValue('meltingPoint', result)
+  const bp = numericValue('boilingPoint', result)
+  if (mp !== undefined && temperature < mp) return 'solid'
+  if (bp !== undefined && temperature > bp) return 'gas'
+  if (mp !== undefined && bp !== undefined) return 'liquid'
+  if (temperature === 25) return standard
+  // Cooling a solid or heating a gas does not change its state
+  if (standard === 'solid' && temperature < 25) return 'solid'
+  if (standard === 'gas' && temperature > 25) return 'gas'
+  return undefined
+}
+
+function matchesKeyword(node: Extract<QueryNode, { kind: 'keyword' }>, result: SearchResult): boolean {
+  const data = result.data as Partial<CompoundSearchData & ElementSearchData & CalculatorSearchData>
+  switch (node.field) {
+    case 'type':
+      return result.type === node.value
+    case 'category':
+      return result.category.toLowerCase().includes(node.value) ||
+        (typeof data.category === 'string' && data.category.toLowerCase().includes(node.value))
+    case 'difficulty':
+      return result.type === 'calculator' && data.difficulty === node.value
+    case 'block':
+      return result.type === 'element' && data.block === node.value
+    case 'element':
+      if (result.type === 'element') return data.symbol === node.value
+      return result.type === 'compound' && elementsInFormula(data.formula ?? '').includes(node.value)
+    case 'ghs':
+      return result.type === 'compound' && (data.ghsCodes ?? []).includes(node.value)
+    case 'hazard':
+      return result.type === 'compound' && (data.hazards ?? []).some(hazard => hazard.includes(node.value))
+  }
+}
+
+/** Whether a result satisfies a parsed query (the `predicate` of parseSearchQuery). */
+export function matchesQuery(node: QueryNode, result: SearchResult): boolean {
+  switch (node.kind) {
+    case 'and':
+      return node.children.every(child => matchesQuery(child, result))
+    case 'or':
+      return node.children.some(child => matchesQuery(child, result))
+    case 'not':
+      return !matchesQuery(node.child, result)
+    case 'text':
+      return haystack(result).includes(node.value.toLowerCase())
+    case 'range': {
+      const value = numericValue(node.field, result)
+      return value !== undefined && inRange(node, value)
+    }
+    case 'keyword':
+      return matchesKeyword(node, result)
+    case 'state':
+      return stateAt(result, node.temperature) === node.state
+  }
+}
@@ -56,6 +56,8 @@ export interface SearchFilters {
   elementCategory?: string[]
   hazardLevel?: string[]
   ghsCodes?: string[]
+  /** Compounds and elements only: 'solid' | 'liquid' | 'gas'. */
+  state?: string[]
 }
 
 export interface SearchQuery {
@@ -115,6 +117,7 @@ export interface CompoundSearchData {
   density?: number
   solubility?: string
   appearance?: string
+  state: 'solid' | 'liquid' | 'gas'
   hazards?: string[]
   ghsCodes?: string[]
   uses?: string[]
@@ -132,6 +135,7 @@ export interface ElementSearchData {
   group?: number
   period: number
   block: string
+  state: 'solid' | 'liquid' | 'gas' | 'unknown'
   electronConfiguration: string
   electronegativity?: number
   ionizationEnergy?: number
@@ -199,19 +203,54 @@ export interface SearchIndexConfig {
   distance: number
 }
 
+/** Numeric properties a query can range over (see query-language.ts). */
+export type QueryNumericField =
+  | 'molecularWeight'
+  | 'meltingPoint'
+  | 'boilingPoint'
+  | 'density'
+  | 'pKa'
+  | 'pKb'
+  | 'atomicNumber'
+  | 'group'
+  | 'period'
+
+/** Keyword properties: `type:compound`, `contains:Cl`, `ghs:GHS06`, … */
+export type QueryKeywordField = 'type' | 'category' | 'difficulty' | 'block' | 'element' | 'ghs' | 'hazard'
+
+export type QueryNode =
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode }
+  | { kind: 'text'; value: string; phrase: boolean }
+  /** Canonical units: °C, g/mol, g/cm³. */
+  | {
+      kind: 'range'
+      field: QueryNumericField
+      min?: number
+      max?: number
+      minExclusive?: boolean
+      maxExclusive?: boolean
+    }
+  | { kind: 'keyword'; field: QueryKeywordField; value: string }
+  /** Without a temperature: the standard state at 25 °C. */
+  | { kind: 'state'; state: 'solid' | 'liquid' | 'gas'; temperature?: number }
+
+export interface QueryParseError {
+  message: string
+  /** Offsets into the query string, end exclusive. */
+  start: number
+  end: number
+}
+
 export interface AdvancedQuerySyntax {
+  /** Top-level free-text terms: what the Fuse indexes are searched for. */
   mustInclude: string[]
-  mustExclude: string[]
   exactPhrases: string[]
-  ranges: Array<{
-    field: string
-    min?: number
-    max?: number
-  }>
-  wildcards: string[]
-  orGroups: string[][]
-  fieldFilters: Array<{
-    field: string
-    value: string
-  }>
+  /** The top-level clauses that map onto SearchFilters. */
+  filters: SearchFilters
+  /** Everything else a result must satisfy (NOT, OR, element and state clauses); null when nothing. */
+  predicate: QueryNode | null
+  /** Clauses that failed to parse are reported here and left out of the query. */
+  errors: QueryParseError[]
 }
@@ -0,0 +1,131 @@
+/**
+ * Subscriptions — Stripe-backed subscription state, stores
+ *
+ * One row per Stripe subscription, written only by the Stripe webhook
+ * (lib/subscriptions/stripe-webhook.ts) from a snapshot of the subscription.
+ * Each row carries `synced_at`, the time its snapshot was taken; upsert()
+ * never lets an older snapshot overwrite a newer one, so events delivered out
+ * of order or retried cannot roll a subscription back.
+ *
+ * A user's rows resolve to ONE vercal Subscription (resolveSubscription) so
+ * hasActiveSubscription / checkFeatureAccess work on stored data.
+ *
+ * Stores sit behind SubscriptionStore: the in-memory store here (dev/tests),
+ * and the Supabase table store in lib/supabase/subscriptions.ts.
+ */
+
+import { hasActiveSubscription } from '@/lib/vercal/subscription'
+import { TIER_HIERARCHY } from '@/lib/vercal/constants'
+import type { Subscription, SubscriptionStatus, SubscriptionTier } from '@/lib/vercal/types'
+
+/**
+ * How long past the end of a paid period an auto-renewing subscription stays
+ * active. Stripe invoices at period end and pays a little later; without this
+ * the renewal window would lock paying users out until invoice.paid arrives.
+ * A failed renewal moves the subscription to past_due well within it.
+ */
+export const RENEWAL_GRACE_MS = 3 * 24 * 60 * 60 * 1000
+
+export interface SubscriptionRecord {
+  stripe_subscription_id: string
+  /** Null until the checkout (client_reference_id) or metadata names the user. */
+  aiverid_id: string | null
+  stripe_customer_id: string | null
+  price_id: string | null
+  tier: SubscriptionTier
+  status: SubscriptionStatus
+  /** The raw Stripe status (trialing, unpaid, …) that `status` was mapped from. */
+  stripe_status: string
+  subscribed_at: string | null
+  current_period_end: string | null
+  cancel_at_period_end: boolean
+  /** When the snapshot this row holds was taken (Stripe event time or fetch time). */
+  synced_at: string
+}
+
+export interface SubscriptionStore {
+  /**
+   * Insert or replace the row for record.stripe_subscription_id unless the
+   * stored row has a later synced_at (returns false: stale). A known
+   * aiverid_id is kept when the record has none.
+   */
+  upsert(record: SubscriptionRecord): Promise<boolean>
+  listByUser(aiverid_id: string): Promise<SubscriptionRecord[]>
+  hasProcessedEvent(eventId: string): Promise<boolean>
+  markEventProcessed(eventId: string, type: string): Promise<void>
+}
+
+/** What a user without any subscription row gets. */
+export function freeSubscription(): Subscription {
+  return {
+    tier: 'free',
+    status: 'active',
+    subscribed_at: null,
+    expires_at: null,
+    auto_renew: false,
+  }
+}
+
+export function toSubscription(record: SubscriptionRecord): Subscription {
+  const renews = record.status === 'active' && !record.cancel_at_period_end
+  let expiresAt = record.current_period_end
+  if (expiresAt && renews) {
+    expiresAt = new Date(Date.parse(expiresAt) + RENEWAL_GRACE_MS).toISOString()
+  }
+
+  return {
+    tier: record.tier,
+    status: record.status,
+    subscribed_at: record.subscribed_at,
+    expires_at: expiresAt,
+    auto_renew: renews,
+    stripe_customer_id: record.stripe_customer_id ?? undefined,
+    stripe_subscription_id: record.stripe_subscription_id,
+  }
+}
+
+/**
+ * One Subscription for all of a user's rows: the highest-tier active one;
+ * otherwise the most recently synced (so checkFeatureAccess can say "past
+ * due" or "cancelled"); otherwise free.
+ */
+export function resolveSubscription(records: SubscriptionRecord[]): Subscription {
+  const subscriptions = [...records]
+    .sort((a, b) => b.synced_at.localeCompare(a.synced_at))
+    .map(toSubscription)
+  if (subscriptions.length === 0) return freeSubscription()
+
+  const active = subscriptions
+    .filter(hasActiveSubscription)
+    .sort((a, b) => TIER_HIERARCHY[b.tier] - TIER_HIERARCHY[a.tier])
+  return active[0] ?? subscriptions[0]
+}
+
+export function createMemorySubscriptionStore(): SubscriptionStore {
+  const rows = new Map<string, SubscriptionRecord>()
+  const events = new Set<string>()
+
+  return {
+    async upsert(record) {
+      const existing = rows.get(record.stripe_subscription_id)
+      if (existing && existing.synced_at > record.synced_at) return false
+      rows.set(record.stripe_subscription_id, {
+        ...record,
+        aiverid_id: record.aiverid_id ?? existing?.aiverid_id ?? null,
+      })
+      return true
+    },
+
+    async listByUser(aiverid_id) {
+      return [...rows.values()].filter((r) => r.aiverid_id === aiverid_id).map((r) => ({ ...r }))
+    },
+
+    async hasProcessedEvent(eventId) {
+      return events.has(eventId)
+    },
+
+    async markEventProcessed(eventId) {
+      events.add(eventId)
+    },
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Stripe webhook — signature check and event processing
+ *
+ * Every handled event becomes a full snapshot of one Stripe subscription,
+ * written with SubscriptionStore.upsert():
+ *
+ *   customer.subscription.created/updated/deleted  the event's own object
+ *                                                  (as of event.created)
+ *   checkout.session.completed, invoice.paid,      the subscription fetched
+ *   invoice.payment_failed                          from Stripe (as of now)
+ *
+ * Fetching on checkout/invoice events means the stored state is whatever
+ * Stripe holds, never a guess from a partial object. Processing is
+ * idempotent: a snapshot is the same however often it is applied, stale
+ * snapshots are skipped by upsert(), and processed event ids are recorded
+ * so Stripe's retries short-circuit as `duplicate`.
+ *
+ * The user comes from checkout's client_reference_id or the subscription's
+ * metadata.aiverid_id (both set by /api/stripe/checkout-session); the tier
+ * from the price (STRIPE_PRODUCTS), else metadata.tier.
+ */
+
+import Stripe from 'stripe'
+import { STRIPE_PRODUCTS, TIER_HIERARCHY } from '@/lib/vercal/constants'
+import type { SubscriptionStatus, SubscriptionTier } from '@/lib/vercal/types'
+import type { SubscriptionRecord, SubscriptionStore } from './index'
+
+export interface StripeWebhookDeps {
+  store: SubscriptionStore
+  retrieveSubscription(id: string): Promise<Stripe.Subscription>
+  now?: () => Date
+}
+
+export type StripeEventOutcome =
+  | { status: 'processed' | 'stale'; subscriptionId: string }
+  | { status: 'duplicate' }
+  | { status: 'ignored'; reason: string }
+
+const STATUS_MAP: Record<Stripe.Subscription.Status, SubscriptionStatus> = {
+  active: 'active',
+  trialing: 'active',
+  past_due: 'past_due',
+  unpaid: 'past_due',
+  incomplete: 'past_due',
+  incomplete_expired: 'expired',
+  paused: 'expired',
+  canceled: 'cancelled',
+}
+
+export function toSubscriptionStatus(status: Stripe.Subscription.Status): SubscriptionStatus {
+  return Object.hasOwn(STATUS_MAP, status) ? STATUS_MAP[status] : 'expired'
+}
+
+function isTier(value: unknown): value is SubscriptionTier {
+  return typeof value === 'string' && Object.hasOwn(TIER_HIERARCHY, value)
+}
+
+/** The tier a STRIPE_PRODUCTS price id sells (`professional_monthly` → professional). */
+export function tierForPrice(priceId: string | null): SubscriptionTier | null {
+  if (!priceId) return null
+  const product = Object.entries(STRIPE_PRODUCTS).find(([, id]) => id === priceId)?.[0]
+  const tier = product?.split('_')[0]
+  return isTier(tier) ? tier : null
+}
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null
+  return typeof value === 'string' ? value : value.id
+}
+
+const isoFromUnix = (seconds: number | null | undefined) =>
+  typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : null
+
+/** The store row for a subscription as of `syncedAt`, or why it cannot be stored. */
+export function subscriptionRecord(
+  subscription: Stripe.Subscription,
+  syncedAt: Date,
+  aiveridId: string | null = null
+): SubscriptionRecord | { error: string } {
+  const items = subscription.items?.data ?? []
+  const priceId = items[0]?.price?.id ?? null
+  const metadataTier = subscription.metadata?.tier
+  const tier = tierForPrice(priceId) ?? (isTier(metadataTier) ? metadataTier : null)
+  if (!tier) return { error: `no tier for price ${priceId ?? '(none)'}` }
+
+  // Since API 2025-03-31 the billing period lives on the items.
+  const periodEnds = items.map((item) => item.current_period_end).filter((end) => typeof end === 'number')
+  const periodEnd = subscription.ended_at ?? (periodEnds.length > 0 ? Math.max(...periodEnds) : null)
+
+  return {
+    stripe_subscription_id: subscription.id,
+    aiverid_id: aiveridId ?? subscription.metadata?.aiverid_id ?? null,
+    stripe_customer_id: idOf(subscription.customer),
+    price_id: priceId,
+    tier,
+    status: toSubscriptionStatus(subscription.status),
+    stripe_status: subscription.status,
+    subscribed_at: isoFromUnix(subscription.start_date ?? subscription.created),
+    current_period_end: isoFromUnix(periodEnd),
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    synced_at: syncedAt.toISOString(),
+  }
+}
+
+async function applySnapshot(
+  subscription: Stripe.Subscription,
+  syncedAt: Date,
+  aiveridId: string | null,
+  store: SubscriptionStore
+): Promise<StripeEventOutcome> {
+  const record = subscriptionRecord(subscription, syncedAt, aiveridId)
+  if ('error' in record) {
+    console.warn(`Stripe subscription ${subscription.id} not stored: ${record.error}`)
+    return { status: 'ignored', reason: record.error }
+  }
+  const written = await store.upsert(record)
+  return { status: written ? 'processed' : 'stale', subscriptionId: subscription.id }
+}
+
+async function applyEvent(event: Stripe.Event, deps: StripeWebhookDeps): Promise<StripeEventOutcome> {
+  const now = deps.now ?? (() => new Date())
+
+  switch (event.type) {
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      return applySnapshot(event.data.object, new Date(event.created * 1000), null, deps.store)
+
+    case 'checkout.session.completed': {
+      const session = event.data.object
+      const subscriptionId = idOf(session.subscription)
+      if (session.mode !== 'subscription' || !subscriptionId) {
+        return { status: 'ignored', reason: 'not a subscription checkout' }
+      }
+      const aiveridId = session.client_reference_id ?? session.metadata?.aiverid_id ?? null
+      const subscription = await deps.retrieveSubscription(subscriptionId)
+      return applySnapshot(subscription, now(), aiveridId, deps.store)
+    }
+
+    case 'invoice.paid':
+    case 'invoice.payment_failed': {
+      const subscriptionId = idOf(event.data.object.parent?.subscription_details?.subscription)
+      if (!subscriptionId) return { status: 'ignored', reason: 'invoice has no subscription' }
+      const subscription = await deps.retrieveSubscription(subscriptionId)
+      return applySnapshot(subscription, now(), null, deps.store)
+    }
+
+    default:
+      return { status: 'ignored', reason: `unhandled event type ${event.type}` }
+  }
+}
+
+/** Apply one verified event. Throws on store/Stripe errors so the delivery is retried. */
+export async function processStripeEvent(event: Stripe.Event, deps: StripeWebhookDeps): Promise<StripeEventOutcome> {
+  if (await deps.store.hasProcessedEvent(event.id)) return { status: 'duplicate' }
+  const outcome = await applyEvent(event, deps)
+  await deps.store.markEventProcessed(event.id, event.type)
+  return outcome
+}
+
+/**
+ * Verify the Stripe-Signature header over the raw body, then process the
+ * event. 400 for a missing or bad signature; 500 (Stripe retries) when
+ * processing fails.
+ */
+export async function handleStripeWebhook(
+  payload: string,
+  signature: string | null,
+  secret: string,
+  deps: StripeWebhookDeps
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  if (!signature) {
+    return { status: 400, body: { error: 'Missing Stripe-Signature header' } }
+  }
+
+  let event: Stripe.Event
+  try {
+    event = Stripe.webhooks.constructEvent(payload, signature, secret)
+  } catch (err) {
+    console.warn('Stripe webhook signature rejected:', err instanceof Error ? err.message : err)
+    return { status: 400, body: { error: 'Invalid signature' } }
+  }
+
+  try {
+    const outcome = await processStripeEvent(event, deps)
+    return { status: 200, body: { received: true, id: event.id, type: event.type, ...outcome } }
+  } catch (err) {
+    console.error(`Stripe webhook ${event.type} (${event.id}) failed:`, err)
+    return { status: 500, body: { error: 'Webhook processing failed' } }
+  }
+}
@@ -0,0 +1,133 @@
+import 'server-only'
+
+/**
+ * Answer Card Cache Store — Server-only
+ *
+ * Supabase-table implementation of AnswerCardCache (lib/answer-cards/cache.ts),
+ * shared by every serverless instance, plus the env switch that picks a store:
+ *
+ *   ANSWER_CARD_CACHE=memory (default) | supabase | off
+ *
+ * SECURITY:
+ * - Uses SUPABASE_SERVICE_ROLE_KEY (server-only, never exposed to client)
+ * - Entries hold no user identifier: a cache row is keyed by the question hash
+ *   only, so one user's hit never reveals who asked first.
+ * - Nothing in a row is trusted: a hit re-executes every tool call and re-signs
+ *   (see askVerifiedCached), so a tampered row can at worst cause a miss.
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import {
+  createMemoryCardCache,
+  DEFAULT_CACHE_TTL_MS,
+  type AnswerCardCache,
+  type CachedAnswer,
+} from '@/lib/answer-cards/cache'
+import type { ToolCall } from '@/lib/answer-cards/types'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+function getSupabase() {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase credentials not configured')
+  }
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  })
+}
+
+interface AnswerCardCacheRow {
+  key: string
+  tool_calls: ToolCall[]
+  explanation: string
+  model: string
+  version: string
+  created_at: string
+  expires_at: string
+}
+
+function isCacheRow(row: unknown): row is AnswerCardCacheRow {
+  if (typeof row !== 'object' || row === null) return false
+  const r = row as Record<string, unknown>
+  return (
+    typeof r.key === 'string' &&
+    Array.isArray(r.tool_calls) &&
+    typeof r.explanation === 'string' &&
+    typeof r.model === 'string' &&
+    typeof r.version === 'string' &&
+    typeof r.created_at === 'string'
+  )
+}
+
+export function createSupabaseCardCache(opts: { ttlMs?: number } = {}): AnswerCardCache {
+  const ttlMs = opts.ttlMs ?? DEFAULT_CACHE_TTL_MS
+
+  return {
+    async get(key) {
+      const supabase = getSupabase()
+      const { data, error } = await supabase
+        .from('answer_card_cache')
+        .select('key, tool_calls, explanation, model, version, created_at, expires_at')
+        .eq('key', key)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle()
+
+      if (error) {
+        console.error('answerCardCache.get error:', error)
+        throw new Error('Database error while reading answer cache')
+      }
+      if (!isCacheRow(data)) return null
+
+      const entry: CachedAnswer = {
+        key: data.key,
+        tool_calls: data.tool_calls,
+        explanation: data.explanation,
+        model: data.model,
+        version: data.version,
+        created_at: data.created_at,
+      }
+      return entry
+    },
+
+    async set(entry) {
+      const supabase = getSupabase()
+      const { error } = await supabase.from('answer_card_cache').upsert({
+        key: entry.key,
+        tool_calls: entry.tool_calls,
+        explanation: entry.explanation,
+        model: entry.model,
+        version: entry.version,
+        created_at: entry.created_at,
+        expires_at: new Date(Date.now() + ttlMs).toISOString(),
+      })
+
+      if (error) {
+        console.error('answerCardCache.set error:', error)
+        throw new Error('Database error while writing answer cache')
+      }
+    },
+
+    async delete(key) {
+      const supabase = getSupabase()
+      const { error } = await supabase.from('answer_card_cache').delete().eq('key', key)
+
+      if (error) {
+        console.error('answerCardCache.delete error:', error)
+        throw new Error('Database error while deleting answer cache entry')
+      }
+    },
+  }
+}
+
+let selected: AnswerCardCache | null | undefined
+
+/** The store selected by ANSWER_CARD_CACHE; null when caching is off. */
+export function getAnswerCardCache(): AnswerCardCache | null {
+  if (selected !== undefined) return selected
+  const mode = (process.env.ANSWER_CARD_CACHE ?? 'memory').trim().toLowerCase()
+  if (mode === 'off' || mode === 'none') selected = null
+  else if (mode === 'supabase') selected = createSupabaseCardCache()
+  else selected = createMemoryCardCache()
+  return selected
+}
@@ -9,6 +9,8 @@ import 'server-only'
  * - Cards are stored with the exact canonical string that was signed; loading
  *   RE-VERIFIES the HMAC so a row tampered directly in the DB surfaces as
  *   `signatureValid: false` instead of silently displaying a VERIFIED badge.
+ *   `signatureStatus` additionally tells a revoked signing key apart from
+ *   tampering (key rotation must not look like forgery).
  * - Public view strips aiverid_id (mirrors getPublicMoleculeById).
  */
 
@@ -17,8 +19,9 @@ import type { AnswerCard, CardStatus, ToolCall } from '@/lib/answer-cards/types'
 import type { SignablePayload } from '@/lib/answer-cards/types'
 import {
   canonicalPayloadString,
-  verifyCanonicalSignature,
+  checkCanonicalSignature,
   toSignablePayload,
+  type SignatureStatus,
 } from '@/lib/answer-cards/signature'
 import { isValidSignablePayload } from '@/lib/answer-cards/payload-shape'
 
@@ -55,6 +58,7 @@ export interface AnswerCardSummary {
   created_at: string
   /** false → row no longer matches its signature; list must not show VERIFIED. */
   signatureValid: boolean
+  signatureStatus: SignatureStatus
 }
 
 
@@ -66,6 +70,8 @@ export interface LoadedAnswerCard {
   created_at: string
   /** false → the stored bytes no longer match the signature (tampered/corrupt). */
   signatureValid: boolean
+  /** valid | tampered | key_revoked (signed under a key that has since been revoked) */
+  signatureStatus: SignatureStatus
 }
 
 /**
@@ -74,7 +80,8 @@ export interface LoadedAnswerCard {
  * exactly what was signed — no divergence from denormalized columns possible.
  */
 export async function rowToVerifiedCard(row: AnswerCardRow): Promise<LoadedAnswerCard> {
-  const signatureValid = await verifyCanonicalSignature(row.signed_payload, row.signature)
+  let signatureStatus = await checkCanonicalSignature(row.signed_payload, row.signature)
+  const signatureValid = signatureStatus === 'valid'
 
   let parsed: SignablePayload | null = null
   try {
@@ -112,12 +119,15 @@ export async function rowToVerifiedCard(row: AnswerCardRow): Promise<LoadedAnswe
         signature: row.signature,
       }
 
+  if (parsed === null) signatureStatus = 'tampered'
+
   return {
     id: row.id,
     card,
     is_public: row.is_public,
     created_at: row.created_at,
     signatureValid: signatureValid && parsed !== null,
+    signatureStatus,
   }
 }
 
@@ -184,7 +194,7 @@ export async function listAnswerCardsByUser(aiverid_id: string): Promise<AnswerC
   // but NOT returned to the client (keeps the list light).
   return Promise.all(
     rows.map(async (r) => {
-      const signatureValid = await verifyCanonicalSignature(r.signed_payload, r.signature)
+      const signatureStatus = await checkCanonicalSignature(r.signed_payload, r.signature)
       let question = r.question
       let status = r.status
       try {
@@ -196,7 +206,15 @@ export async function listAnswerCardsByUser(aiverid_id: string): Promise<AnswerC
       } catch {
         /* keep denormalized columns as a last resort; row shows as tampered */
       }
-      return { id: r.id, question, status, is_public: r.is_public, created_at: r.created_at, signatureValid }
+      return {
+        id: r.id,
+        question,
+        status,
+        is_public: r.is_public,
+        created_at: r.created_at,
+        signatureValid: signatureStatus === 'valid',
+        signatureStatus,
+      }
     })
   )
 }
@@ -0,0 +1,155 @@
+import 'server-only'
+
+/**
+ * Developer API Key Store — Server-only
+ *
+ * Supabase-table implementation of ApiKeyStore (lib/api-keys), plus the env
+ * switch that picks a store:
+ *
+ *   API_KEY_STORE=supabase (default when Supabase is configured) | memory
+ *
+ * SECURITY:
+ * - Uses SUPABASE_SERVICE_ROLE_KEY (server-only, never exposed to client)
+ * - Only the SHA-256 of a key is stored; rows never hold the plaintext
+ * - All user scoping enforced at app level (where aiverid_id = ...)
+ * - consume() is the consume_api_key() function (007_api_key_entitled_tier.sql):
+ *   the owner's current subscription tier, quota check and increment under
+ *   one row lock
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import {
+  createMemoryApiKeyStore,
+  type ApiKeyRecord,
+  type ApiKeyStore,
+} from '@/lib/api-keys'
+import { RENEWAL_GRACE_MS } from '@/lib/subscriptions'
+import { FEATURE_LIMITS } from '@/lib/vercal/constants'
+import type { SubscriptionTier } from '@/lib/vercal/types'
+import { resolveSubscriptionTier } from './entitlements'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+function getSupabase() {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase credentials not configured')
+  }
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  })
+}
+
+const RECORD_COLUMNS =
+  'id, aiverid_id, name, prefix, tier, created_at, last_used_at, revoked_at, usage_month, month_requests, total_requests'
+
+interface ConsumeRow {
+  key_id: string
+  key_tier: SubscriptionTier
+  used: number
+  quota: number
+  allowed: boolean
+}
+
+/** BIGINT columns may arrive as strings; counters are far below 2^53. */
+function toRecord(row: ApiKeyRecord): ApiKeyRecord {
+  return { ...row, month_requests: Number(row.month_requests), total_requests: Number(row.total_requests) }
+}
+
+const TIER_LIMITS = Object.fromEntries(
+  Object.entries(FEATURE_LIMITS).map(([tier, limits]) => [tier, limits.apiRequests])
+)
+
+export function createSupabaseApiKeyStore(): ApiKeyStore {
+  return {
+    async create(input) {
+      const supabase = getSupabase()
+      const { data, error } = await supabase
+        .from('api_keys')
+        .insert({
+          aiverid_id: input.aiverid_id,
+          name: input.name,
+          prefix: input.prefix,
+          key_hash: input.key_hash,
+          tier: input.tier,
+        })
+        .select(RECORD_COLUMNS)
+        .single()
+
+      if (error || !data) {
+        console.error('createApiKey error:', error)
+        throw new Error('Database error while creating API key')
+      }
+      return toRecord(data as ApiKeyRecord)
+    },
+
+    async listByUser(aiverid_id) {
+      const supabase = getSupabase()
+      const { data, error } = await supabase
+        .from('api_keys')
+        .select(RECORD_COLUMNS)
+        .eq('aiverid_id', aiverid_id)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        console.error('listApiKeys error:', error)
+        throw new Error('Database error while listing API keys')
+      }
+      return ((data ?? []) as ApiKeyRecord[]).map(toRecord)
+    },
+
+    async revoke(id, aiverid_id) {
+      const supabase = getSupabase()
+      const { data, error } = await supabase
+        .from('api_keys')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('aiverid_id', aiverid_id)
+        .is('revoked_at', null)
+        .select('id')
+
+      if (error) {
+        console.error('revokeApiKey error:', error)
+        throw new Error('Database error while revoking API key')
+      }
+      return (data ?? []).length > 0
+    },
+
+    async consume(key_hash, month) {
+      const supabase = getSupabase()
+      const { data, error } = await supabase.rpc('consume_api_key', {
+        p_key_hash: key_hash,
+        p_month: month,
+        p_limits: TIER_LIMITS,
+        p_renewal_grace_ms: RENEWAL_GRACE_MS,
+      })
+
+      if (error) {
+        console.error('consumeApiKey error:', error)
+        throw new Error('Database error while checking API key')
+      }
+      const row = ((data ?? []) as ConsumeRow[])[0]
+      if (!row) return { status: 'invalid' }
+      return {
+        status: row.allowed ? 'ok' : 'over_limit',
+        keyId: row.key_id,
+        tier: row.key_tier,
+        used: Number(row.used),
+        limit: Number(row.quota),
+      }
+    },
+  }
+}
+
+let selected: ApiKeyStore | undefined
+
+/** The store selected by API_KEY_STORE (Supabase whenever it is configured). */
+export function getApiKeyStore(): ApiKeyStore {
+  if (selected) return selected
+  const fallback = supabaseUrl && supabaseServiceKey ? 'supabase' : 'memory'
+  const mode = (process.env.API_KEY_STORE ?? fallback).trim().toLowerCase()
+  selected = mode === 'memory'
+    ? createMemoryApiKeyStore({ subscriptionTier: resolveSubscriptionTier })
+    : createSupabaseApiKeyStore()
+  return selected
+}
@@ -0,0 +1,98 @@
+import 'server-only'
+
+/**
+ * Entitlement Usage Store + tier resolution — Server-only
+ *
+ * Supabase-table implementation of UsageStore (lib/entitlements), the env
+ * switch that picks a store, and the caller's entitled tier:
+ *
+ *   USAGE_STORE=supabase (default when Supabase is configured) | memory
+ *
+ * SECURITY:
+ * - Uses SUPABASE_SERVICE_ROLE_KEY (server-only, never exposed to client)
+ * - consume() is the consume_feature_usage() function
+ *   (006_feature_usage_table.sql): check and count under one row lock, so
+ *   concurrent requests on different instances cannot overrun a quota
+ * - The tier comes from the verified session and the webhook-written Stripe
+ *   subscription only, never from request input
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import type { VerifiedSession } from '@/lib/auth/session'
+import { createMemoryUsageStore, higherTier, type UsageStore } from '@/lib/entitlements'
+import { getEffectiveTier } from '@/lib/vercal/subscription'
+import type { SubscriptionTier } from '@/lib/vercal/types'
+import { getUserSubscription } from './subscriptions'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+function getSupabase() {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase credentials not configured')
+  }
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  })
+}
+
+interface ConsumeRow {
+  granted: number
+  used: number
+}
+
+export function createSupabaseUsageStore(): UsageStore {
+  return {
+    async consume({ subject, feature, period }, amount, limit) {
+      const supabase = getSupabase()
+      const { data, error } = await supabase.rpc('consume_feature_usage', {
+        p_subject: subject,
+        p_feature: feature,
+        p_period: period,
+        p_amount: amount,
+        p_limit: limit,
+      })
+
+      if (error) {
+        console.error('consumeFeatureUsage error:', error)
+        throw new Error('Database error while counting usage')
+      }
+      const row = ((data ?? []) as ConsumeRow[])[0]
+      if (!row) throw new Error('Database error while counting usage')
+      return { granted: Number(row.granted), used: Number(row.used) }
+    },
+  }
+}
+
+let selected: UsageStore | undefined
+
+/** The store selected by USAGE_STORE (Supabase whenever it is configured). */
+export function getUsageStore(): UsageStore {
+  if (selected) return selected
+  const fallback = supabaseUrl && supabaseServiceKey ? 'supabase' : 'memory'
+  const mode = (process.env.USAGE_STORE ?? fallback).trim().toLowerCase()
+  selected = mode === 'memory' ? createMemoryUsageStore() : createSupabaseUsageStore()
+  return selected
+}
+
+/**
+ * The tier of a user's active Stripe subscription (free without one). If the
+ * lookup fails this is free, so only the session tier applies.
+ */
+export async function resolveSubscriptionTier(aiverid_id: string): Promise<SubscriptionTier> {
+  try {
+    return getEffectiveTier(await getUserSubscription(aiverid_id))
+  } catch (err) {
+    console.error('resolveSubscriptionTier subscription lookup failed:', err)
+    return 'free'
+  }
+}
+
+/**
+ * The tier a verified caller is entitled to: the session's (AIVerID) tier or
+ * their active Stripe subscription's, whichever is higher. If the
+ * subscription lookup fails the session tier still applies.
+ */
+export async function resolveEntitledTier(session: VerifiedSession): Promise<SubscriptionTier> {
+  return higherTier(session.tier, await resolveSubscriptionTier(session.userId))
+}
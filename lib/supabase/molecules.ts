@@ -138,6 +138,43 @@ export async function listMoleculesByUser(aiverid_id: string): Promise<Molecule[
   return (data ?? []) as Molecule[]
 }
 
+/**
+ * Create a molecule unless its owner already has `limit` of them (Infinity →
+ * no cap). The count and the insert are one locked step
+ * (create_molecule_within_limit, 008_molecule_save_limit.sql), so concurrent
+ * saves cannot overrun the cap. `molecule` is null when the cap was reached;
+ * `saved` is the owner's count after the call.
+ */
+export async function createMoleculeWithinLimit(
+  input: CreateMoleculeInput,
+  limit: number
+): Promise<{ molecule: Molecule | null; saved: number }> {
+  const supabase = getSupabase()
+
+  const { data, error } = await supabase.rpc('create_molecule_within_limit', {
+    p_molecule: {
+      aiverid_id: input.aiverid_id,
+      name: input.name,
+      smiles: input.smiles,
+      mol_block: input.mol_block ?? null,
+      inchi: input.inchi ?? null,
+      inchi_key: input.inchi_key ?? null,
+      tags: input.tags ?? null,
+      notes: input.notes ?? null,
+      is_public: input.is_public ?? false,
+    },
+    p_limit: Number.isFinite(limit) ? limit : null,
+  })
+
+  if (error) {
+    console.error('createMoleculeWithinLimit error:', error)
+    throw new Error('Database error while creating molecule')
+  }
+  const row = ((data ?? []) as Array<{ saved: number; molecule: Molecule | null }>)[0]
+  if (!row) throw new Error('Database error while creating molecule')
+  return { molecule: row.molecule, saved: Number(row.saved) }
+}
+
 export async function getMoleculeById(id: string): Promise<Molecule | null> {
   const supabase = getSupabase()
 
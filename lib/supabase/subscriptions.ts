@@ -0,0 +1,109 @@
+import 'server-only'
+
+/**
+ * Subscription Store — Server-only
+ *
+ * Supabase-table implementation of SubscriptionStore (lib/subscriptions),
+ * the env switch that picks a store, and the per-user lookup:
+ *
+ *   SUBSCRIPTION_STORE=supabase (default when Supabase is configured) | memory
+ *
+ * SECURITY:
+ * - Uses SUPABASE_SERVICE_ROLE_KEY (server-only, never exposed to client)
+ * - Rows are written only by the signature-verified Stripe webhook
+ * - upsert() is the upsert_subscription() function
+ *   (005_subscriptions_table.sql): the staleness check and the write are one
+ *   statement
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import {
+  createMemorySubscriptionStore,
+  resolveSubscription,
+  type SubscriptionRecord,
+  type SubscriptionStore,
+} from '@/lib/subscriptions'
+import type { Subscription } from '@/lib/vercal/types'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+function getSupabase() {
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase credentials not configured')
+  }
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  })
+}
+
+const RECORD_COLUMNS =
+  'stripe_subscription_id, aiverid_id, stripe_customer_id, price_id, tier, status, stripe_status, subscribed_at, current_period_end, cancel_at_period_end, synced_at'
+
+export function createSupabaseSubscriptionStore(): SubscriptionStore {
+  return {
+    async upsert(record) {
+      const supabase = getSupabase()
+      const { data, error } = await supabase.rpc('upsert_subscription', { p_record: record })
+
+      if (error) {
+        console.error('upsertSubscription error:', error)
+        throw new Error('Database error while saving subscription')
+      }
+      return data === true
+    },
+
+    async listByUser(aiverid_id) {
+      const supabase = getSupabase()
+      const { data, error } = await supabase
+        .from('subscriptions')
+        .select(RECORD_COLUMNS)
+        .eq('aiverid_id', aiverid_id)
+
+      if (error) {
+        console.error('listSubscriptions error:', error)
+        throw new Error('Database error while listing subscriptions')
+      }
+      return (data ?? []) as SubscriptionRecord[]
+    },
+
+    async hasProcessedEvent(eventId) {
+      const supabase = getSupabase()
+      const { data, error } = await supabase.from('stripe_events').select('id').eq('id', eventId).maybeSingle()
+
+      if (error) {
+        console.error('hasProcessedEvent error:', error)
+        throw new Error('Database error while checking Stripe event')
+      }
+      return data !== null
+    },
+
+    async markEventProcessed(eventId, type) {
+      const supabase = getSupabase()
+      const { error } = await supabase
+        .from('stripe_events')
+        .upsert({ id: eventId, type }, { onConflict: 'id', ignoreDuplicates: true })
+
+      if (error) {
+        console.error('markEventProcessed error:', error)
+        throw new Error('Database error while recording Stripe event')
+      }
+    },
+  }
+}
+
+let selected: SubscriptionStore | undefined
+
+/** The store selected by SUBSCRIPTION_STORE (Supabase whenever it is configured). */
+export function getSubscriptionStore(): SubscriptionStore {
+  if (selected) return selected
+  const fallback = supabaseUrl && supabaseServiceKey ? 'supabase' : 'memory'
+  const mode = (process.env.SUBSCRIPTION_STORE ?? fallback).trim().toLowerCase()
+  selected = mode === 'memory' ? createMemorySubscriptionStore() : createSupabaseSubscriptionStore()
+  return selected
+}
+
+/** The user's Subscription from stored Stripe state (free when there is none). */
+export async function getUserSubscription(aiverid_id: string): Promise<Subscription> {
+  return resolveSubscription(await getSubscriptionStore().listByUser(aiverid_id))
+}
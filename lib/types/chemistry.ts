@@ -183,6 +183,24 @@ export interface BalancedEquation {
   products: string[]
   isBalanced: boolean
   atoms: Record<string, { reactants: number; products: number }>
+  /** Total charge per side; only present when the equation has ions or electrons */
+  charge?: { reactants: number; products: number }
+  /** Why balancing failed; present on failure once the equation has parsed */
+  solutionSpace?: BalanceSolutionSpace
+}
+
+/**
+ * Every balanced reaction the species allow (null space of the atom matrix)
+ */
+export interface BalanceSolutionSpace {
+  /** Number of independent balanced reactions: 0 none, 1 unique, 2+ ambiguous */
+  dimension: number
+  /** Integer coefficients per species, in written order; negative = other side */
+  basis: number[][]
+  /** Each basis vector written as a reaction */
+  reactions: string[]
+  /** Why there is no unique balance with every species on its written side */
+  reason?: string
 }
 
 /**
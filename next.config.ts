@@ -56,10 +56,6 @@ const nextConfig: NextConfig = {
             key: 'X-DNS-Prefetch-Control',
             value: 'on'
           },
-          {
-            key: 'X-Frame-Options',
-            value: 'SAMEORIGIN'
-          },
           {
             key: 'X-Content-Type-Options',
             value: 'nosniff'
@@ -99,6 +95,37 @@ const nextConfig: NextConfig = {
           },
         ],
       },
+      // Every path but the answer-card embed below: X-Frame-Options has no
+      // value that allows framing, so that path must not get one at all.
+      {
+        source: '/((?!verified/[^/]+/embed$).*)',
+        headers: [
+          {
+            key: 'X-Frame-Options',
+            value: 'SAMEORIGIN'
+          },
+        ],
+      },
+      // Embeddable answer cards (oEmbed iframes) — the one path other sites may
+      // frame, allowed by CSP frame-ancestors alone. Later entries override
+      // same-named headers above; the document is static HTML, so it gets a
+      // script-free CSP.
+      {
+        source: '/verified/:id/embed',
+        headers: [
+          {
+            key: 'Content-Security-Policy',
+            value: [
+              "default-src 'none'",
+              "style-src 'unsafe-inline'",
+              "img-src data:",
+              "base-uri 'none'",
+              "form-action 'none'",
+              "frame-ancestors *",
+            ].join('; ')
+          },
+        ],
+      },
       {
         source: '/fonts/:path*',
         headers: [
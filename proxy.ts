@@ -11,7 +11,7 @@
  * Security (Jan 2026 - Fixed by สมคิด + สมหมาย audit):
  * - Session cookies are now HMAC-SHA256 signed
  * - Proxy verifies signature before granting access
- * - SESSION_SECRET is required in production
+ * - SESSION_SECRET (or SESSION_KEYRING for rotation) is required in production
  *
  * Public routes (no login required):
  * - / (homepage)
@@ -34,42 +34,7 @@
 
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
-
-// Verify session signature using HMAC-SHA256
-async function verifySessionSignature(value: string, signature: string): Promise<boolean> {
-  try {
-    const secret = process.env.SESSION_SECRET
-
-    // In production, SESSION_SECRET is required
-    if (!secret) {
-      if (process.env.NODE_ENV === 'production') {
-        console.error('SESSION_SECRET is required in production')
-        return false
-      }
-      // In development, allow without secret but log warning
-      console.warn('SESSION_SECRET not set - using insecure fallback for development')
-      return true // Allow in dev for easier testing
-    }
-
-    const enc = new TextEncoder()
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      enc.encode(secret),
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    )
-    const sig = await crypto.subtle.sign('HMAC', cryptoKey, enc.encode(value))
-    const bytes = new Uint8Array(sig)
-    let binary = ''
-    for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i])
-    const expectedSig = btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
-    return expectedSig === signature
-  } catch (error) {
-    console.error('Session signature verification failed:', error)
-    return false
-  }
-}
+import { verifySessionSignature } from '@/lib/auth/session-signature'
 
 // Routes that require authentication
 const PROTECTED_ROUTES = [
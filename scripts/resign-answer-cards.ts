@@ -0,0 +1,128 @@
+/**
+ * VerChem — re-sign stored answer cards under the current signing key.
+ *
+ * Run after rotating ANSWER_CARD_KEYRING (or switching on Ed25519) so the old
+ * key can later be dropped from the keyring without invalidating saved cards
+ * (the `answer_cards` table behind lib/supabase/answer-cards.ts).
+ *
+ * SECURITY: only cards whose signature verifies TODAY are re-issued (see
+ * resignCanonical). Cards signed by a revoked key or that fail verification are
+ * listed and left untouched — re-signing them would launder untrusted bytes.
+ * `signed_payload` is never rewritten, only `signature`.
+ *
+ * Needs the production Supabase + signing env. Dry run first:
+ *
+ *   npm run cards:resign -- --dry-run
+ *   npm run cards:resign
+ *
+ * Exits non-zero if any tampered rows were found, so it is visible in CI logs.
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import { currentSigningKey, resignCanonical } from '@/lib/answer-cards/signature'
+
+const BATCH_SIZE = 200
+
+interface StoredRow {
+  id: string
+  signed_payload: string
+  signature: string
+}
+
+interface ResignReport {
+  scanned: number
+  resigned: number
+  /** Already signed under the current key. */
+  current: number
+  revoked: string[]
+  tampered: string[]
+}
+
+function getSupabase() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !serviceKey) {
+    throw new Error('Supabase credentials not configured')
+  }
+  return createClient(url, serviceKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  })
+}
+
+async function resignAll(dryRun: boolean): Promise<ResignReport> {
+  const supabase = getSupabase()
+  const report: ResignReport = { scanned: 0, resigned: 0, current: 0, revoked: [], tampered: [] }
+
+  for (let from = 0; ; from += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('answer_cards')
+      .select('id, signed_payload, signature')
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + BATCH_SIZE - 1)
+
+    if (error) throw new Error(`Database error while scanning answer cards: ${error.message}`)
+
+    const rows = (data ?? []) as StoredRow[]
+    for (const row of rows) {
+      report.scanned++
+      const result = await resignCanonical(row.signed_payload, row.signature)
+      if (result.status === 'key_revoked') {
+        report.revoked.push(row.id)
+        continue
+      }
+      if (result.status === 'tampered') {
+        report.tampered.push(row.id)
+        continue
+      }
+      if (!result.changed) {
+        report.current++
+        continue
+      }
+
+      if (!dryRun) {
+        // Compare-and-set on the old signature: a concurrent change is skipped, not clobbered.
+        const { error: updateError } = await supabase
+          .from('answer_cards')
+          .update({ signature: result.signature })
+          .eq('id', row.id)
+          .eq('signature', row.signature)
+        if (updateError) {
+          throw new Error(`Database error while re-signing ${row.id}: ${updateError.message}`)
+        }
+      }
+      report.resigned++
+    }
+
+    if (rows.length < BATCH_SIZE) break
+  }
+
+  return report
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run')
+  const key = await currentSigningKey()
+  console.log(`Re-signing answer cards under ${key.scheme} key "${key.kid}"${dryRun ? ' (dry run)' : ''}`)
+
+  const report = await resignAll(dryRun)
+
+  console.log(`  scanned:  ${report.scanned}`)
+  console.log(`  ${dryRun ? 'would re-sign' : 're-signed'}: ${report.resigned}`)
+  console.log(`  already current: ${report.current}`)
+  if (report.revoked.length > 0) {
+    console.warn(`  ⚠ signed by a revoked key (left as-is): ${report.revoked.length}`)
+    for (const id of report.revoked) console.warn(`    - ${id}`)
+  }
+  if (report.tampered.length > 0) {
+    console.error(`  ✗ signature does not verify (left as-is): ${report.tampered.length}`)
+    for (const id of report.tampered) console.error(`    - ${id}`)
+  }
+
+  process.exit(report.tampered.length === 0 ? 0 : 1)
+}
+
+main().catch((err) => {
+  console.error('✗ re-sign failed:', err instanceof Error ? err.message : err)
+  process.exit(1)
+})
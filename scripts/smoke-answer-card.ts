@@ -9,10 +9,17 @@
  *
  *   ANTHROPIC_API_KEY=sk-ant-... npm run test:smoke
  *
+ * `--record <file>` also saves the model side of every probe as scripted
+ * transcripts (lib/answer-cards/providers/scripted.ts) for offline replay:
+ *
+ *   npm run test:smoke -- --record transcripts.json
+ *
  * Exits non-zero on any failed invariant so it can gate a deploy if desired.
  */
 
+import { writeFileSync } from 'node:fs'
 import { askVerified } from '@/lib/answer-cards/orchestrator'
+import { createAnthropicProvider, createRecordingProvider } from '@/lib/answer-cards/providers'
 import { verifyCardSignature, toSignablePayload } from '@/lib/answer-cards/signature'
 
 interface Probe {
@@ -59,11 +66,19 @@ async function main() {
     process.exit(2)
   }
 
+  const recordIndex = process.argv.indexOf('--record')
+  const recordPath = recordIndex >= 0 ? process.argv[recordIndex + 1] : undefined
+  if (recordIndex >= 0 && !recordPath) {
+    console.error('✗ --record needs an output file path')
+    process.exit(2)
+  }
+  const recorder = recordPath ? createRecordingProvider(createAnthropicProvider()) : null
+
   let failed = 0
   for (const probe of PROBES) {
     process.stdout.write(`\n❓ ${probe.question}\n`)
     try {
-      const card = await askVerified(probe.question)
+      const card = await askVerified(probe.question, recorder ? { provider: recorder.provider } : {})
 
       // Invariant 1: signature is valid against the reconstructed payload.
       const payload = toSignablePayload(card)
@@ -101,6 +116,9 @@ async function main() {
       // Invariant 4: explanation must contain no ASCII numbers that escaped the audit
       if (!card.audit.clean) {
         console.warn(`   ⚠ audit flagged unmatched figures in prose: ${card.audit.unmatched.join(', ')}`)
+        if (card.audit.unit_mismatches) {
+          console.warn(`   ⚠ audit flagged unit mismatches: ${card.audit.unit_mismatches.join(', ')}`)
+        }
       }
     } catch (err) {
       console.error('   ✗ threw:', err instanceof Error ? err.message : err)
@@ -108,6 +126,11 @@ async function main() {
     }
   }
 
+  if (recorder && recordPath) {
+    writeFileSync(recordPath, JSON.stringify(recorder.transcripts(), null, 2) + '\n')
+    console.log(`\n📼 recorded ${recorder.transcripts().length} transcript(s) → ${recordPath}`)
+  }
+
   console.log(`\n${failed === 0 ? '✓ all probes passed' : `✗ ${failed} invariant(s) failed`}`)
   process.exit(failed === 0 ? 0 : 1)
 }
@@ -1,8 +1,12 @@
 -- =====================================================================
 -- VerChem — FRESH SUPABASE PROJECT SETUP (run once, in SQL Editor)
 -- Generated from 000_users_table.sql + 001_molecules_table.sql +
--- 002_answer_cards_table.sql. Source of truth = those individual files.
--- Idempotent: safe to re-run. Creates users, molecules, answer_cards.
+-- 002_answer_cards_table.sql + 003_answer_card_cache.sql +
+-- 004_api_keys_table.sql + 005_subscriptions_table.sql +
+-- 006_feature_usage_table.sql + 007_api_key_entitled_tier.sql +
+-- 008_molecule_save_limit.sql. Source of truth = those individual files.
+-- Idempotent: safe to re-run. Creates users, molecules, answer_cards,
+-- answer_card_cache, api_keys, subscriptions, stripe_events, feature_usage.
 -- =====================================================================
 
 -- ----- 000: users -----
@@ -178,3 +182,447 @@ CREATE TRIGGER answer_cards_updated_at_trigger
 BEFORE UPDATE ON answer_cards
 FOR EACH ROW
 EXECUTE FUNCTION update_answer_cards_updated_at();
+
+-- ----- 003: answer_card_cache -----
+-- Answer card cache for VerChem AI Verified Answer Cards
+--
+-- Caches the MODEL-AUTHORED part of verified cards (tool names/inputs and the
+-- explanation) so identical questions skip the model. `key` is
+-- sha256(VERSION · tool-registry hash · normalized question) — see
+-- lib/answer-cards/cache.ts. No user identifier is stored.
+--
+-- TRUST MODEL: rows are never served as-is. A hit re-executes every tool call
+-- against the current engines, compares with `tool_calls`, and signs a fresh
+-- card; any difference evicts the row. Expired rows are ignored on read and
+-- can be purged at leisure:
+--   DELETE FROM answer_card_cache WHERE expires_at < NOW();
+
+CREATE TABLE IF NOT EXISTS answer_card_cache (
+  key TEXT PRIMARY KEY,                   -- hex sha256, see answerCacheKey()
+  tool_calls JSONB NOT NULL,              -- ToolCall[] as signed when cached
+  explanation TEXT NOT NULL,
+  model TEXT NOT NULL,
+  version TEXT NOT NULL,                  -- orchestrator VERSION (also in key)
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_card_cache_expires_at ON answer_card_cache(expires_at);
+
+ALTER TABLE answer_card_cache ENABLE ROW LEVEL SECURITY;
+
+-- Defense in depth: explicit privilege grants (only the server's service role)
+REVOKE ALL ON TABLE answer_card_cache FROM anon, authenticated;
+GRANT ALL ON TABLE answer_card_cache TO service_role;
+
+DROP POLICY IF EXISTS "Service role full access to answer_card_cache" ON answer_card_cache;
+
+CREATE POLICY "Service role full access to answer_card_cache"
+ON answer_card_cache FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- ----- 004: api_keys -----
+-- Developer API keys for the public chemistry API (/api/chemistry/*)
+--
+-- Keys are `vck_` + 32 random bytes; only the hex SHA-256 is stored
+-- (`key_hash`), plus the first 12 characters (`prefix`) so owners can tell
+-- keys apart. The plaintext is shown once at creation and cannot be recovered.
+--
+-- QUOTA: each key is stamped with the owner's subscription tier at creation
+-- and draws a monthly quota from FEATURE_LIMITS[tier].apiRequests
+-- (lib/vercal/constants.ts). consume_api_key() checks and counts in one locked
+-- statement so concurrent requests on different instances cannot overrun it.
+-- `month_requests` counts the UTC month in `usage_month`; a request in a new
+-- month starts it again from zero. Revoked keys stay listed, never match.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  aiverid_id TEXT NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,          -- hex sha256 of the full key
+  tier TEXT NOT NULL CHECK (tier IN ('free', 'student', 'professional', 'enterprise')),
+  usage_month TEXT,                       -- 'YYYY-MM' (UTC) that month_requests counts
+  month_requests BIGINT NOT NULL DEFAULT 0,
+  total_requests BIGINT NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_aiverid ON api_keys(aiverid_id);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Defense in depth: explicit privilege grants (only the server's service role)
+REVOKE ALL ON TABLE api_keys FROM anon, authenticated;
+GRANT ALL ON TABLE api_keys TO service_role;
+
+DROP POLICY IF EXISTS "Service role full access to api_keys" ON api_keys;
+
+-- App-level access via API routes (service role). User scoping enforced in app code.
+CREATE POLICY "Service role full access to api_keys"
+ON api_keys FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Count one request against an active key if its tier quota has room.
+-- p_limits is {"free":0,"student":0,"professional":10000,...} from
+-- FEATURE_LIMITS, passed by the app so the quotas live in one place.
+-- Returns no row for an unknown or revoked key.
+CREATE OR REPLACE FUNCTION consume_api_key(p_key_hash TEXT, p_month TEXT, p_limits JSONB)
+RETURNS TABLE (key_id UUID, key_tier TEXT, used BIGINT, quota BIGINT, allowed BOOLEAN) AS $$
+DECLARE
+  k api_keys%ROWTYPE;
+  current_used BIGINT;
+  current_quota BIGINT;
+BEGIN
+  SELECT * INTO k FROM api_keys
+  WHERE api_keys.key_hash = p_key_hash AND api_keys.revoked_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  current_quota := COALESCE((p_limits ->> k.tier)::BIGINT, 0);
+  current_used := CASE WHEN k.usage_month = p_month THEN k.month_requests ELSE 0 END;
+
+  IF current_used >= current_quota THEN
+    RETURN QUERY SELECT k.id, k.tier, current_used, current_quota, FALSE;
+    RETURN;
+  END IF;
+
+  UPDATE api_keys
+  SET usage_month = p_month,
+      month_requests = current_used + 1,
+      total_requests = api_keys.total_requests + 1,
+      last_used_at = NOW()
+  WHERE api_keys.id = k.id;
+
+  RETURN QUERY SELECT k.id, k.tier, current_used + 1, current_quota, TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION consume_api_key(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_api_key(TEXT, TEXT, JSONB) TO service_role;
+
+-- ----- 005: subscriptions -----
+-- Stripe subscriptions, kept in sync by POST /api/stripe/webhook
+--
+-- One row per Stripe subscription, always a full snapshot of it (see
+-- lib/subscriptions/stripe-webhook.ts). `status` is the vercal
+-- SubscriptionStatus the raw `stripe_status` maps to; `tier` comes from the
+-- price. `aiverid_id` is NULL until checkout or the subscription's metadata
+-- names the user, and is never cleared once known.
+--
+-- ORDERING: `synced_at` is when the snapshot was taken. upsert_subscription()
+-- only replaces a row with a snapshot at least as new, in one statement, so
+-- out-of-order or retried deliveries cannot roll a subscription back.
+-- `stripe_events` records processed event ids so retries short-circuit.
+--
+-- Replaces the planned `subscriptions` table in DATABASE_SCHEMA.md (never
+-- created: it keyed on users.id, not aiverid_id).
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+  stripe_subscription_id TEXT PRIMARY KEY,
+  aiverid_id TEXT,
+  stripe_customer_id TEXT,
+  price_id TEXT,
+  tier TEXT NOT NULL CHECK (tier IN ('free', 'student', 'professional', 'enterprise')),
+  status TEXT NOT NULL CHECK (status IN ('active', 'cancelled', 'expired', 'past_due')),
+  stripe_status TEXT NOT NULL,
+  subscribed_at TIMESTAMPTZ,
+  current_period_end TIMESTAMPTZ,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT FALSE,
+  synced_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_aiverid ON subscriptions(aiverid_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_customer ON subscriptions(stripe_customer_id);
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id TEXT PRIMARY KEY,                    -- Stripe event id (evt_…)
+  type TEXT NOT NULL,
+  processed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+-- Defense in depth: explicit privilege grants (only the server's service role)
+REVOKE ALL ON TABLE subscriptions FROM anon, authenticated;
+GRANT ALL ON TABLE subscriptions TO service_role;
+REVOKE ALL ON TABLE stripe_events FROM anon, authenticated;
+GRANT ALL ON TABLE stripe_events TO service_role;
+
+DROP POLICY IF EXISTS "Service role full access to subscriptions" ON subscriptions;
+DROP POLICY IF EXISTS "Service role full access to stripe_events" ON stripe_events;
+
+-- App-level access via API routes (service role). User scoping enforced in app code.
+CREATE POLICY "Service role full access to subscriptions"
+ON subscriptions FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role full access to stripe_events"
+ON stripe_events FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Insert or replace a subscription snapshot unless the stored one is newer.
+-- Returns FALSE when the snapshot was stale and nothing was written.
+CREATE OR REPLACE FUNCTION upsert_subscription(p_record JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  written BOOLEAN;
+BEGIN
+  INSERT INTO subscriptions AS s (
+    stripe_subscription_id, aiverid_id, stripe_customer_id, price_id, tier, status,
+    stripe_status, subscribed_at, current_period_end, cancel_at_period_end, synced_at
+  )
+  VALUES (
+    p_record ->> 'stripe_subscription_id',
+    p_record ->> 'aiverid_id',
+    p_record ->> 'stripe_customer_id',
+    p_record ->> 'price_id',
+    p_record ->> 'tier',
+    p_record ->> 'status',
+    p_record ->> 'stripe_status',
+    (p_record ->> 'subscribed_at')::TIMESTAMPTZ,
+    (p_record ->> 'current_period_end')::TIMESTAMPTZ,
+    COALESCE((p_record ->> 'cancel_at_period_end')::BOOLEAN, FALSE),
+    (p_record ->> 'synced_at')::TIMESTAMPTZ
+  )
+  ON CONFLICT (stripe_subscription_id) DO UPDATE
+  SET aiverid_id = COALESCE(EXCLUDED.aiverid_id, s.aiverid_id),
+      stripe_customer_id = EXCLUDED.stripe_customer_id,
+      price_id = EXCLUDED.price_id,
+      tier = EXCLUDED.tier,
+      status = EXCLUDED.status,
+      stripe_status = EXCLUDED.stripe_status,
+      subscribed_at = EXCLUDED.subscribed_at,
+      current_period_end = EXCLUDED.current_period_end,
+      cancel_at_period_end = EXCLUDED.cancel_at_period_end,
+      synced_at = EXCLUDED.synced_at,
+      updated_at = NOW()
+  WHERE s.synced_at <= EXCLUDED.synced_at
+  RETURNING TRUE INTO written;
+
+  RETURN COALESCE(written, FALSE);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION upsert_subscription(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION upsert_subscription(JSONB) TO service_role;
+
+-- ----- 006: feature_usage -----
+-- Per-period feature usage for server-side entitlements (lib/entitlements)
+--
+-- One counter per (subject, feature, period): `subject` is the aiverid user
+-- id, `feature` an entitlement feature ('answer-card', …) and `period` the
+-- UTC day ('YYYY-MM-DD') or month ('YYYY-MM') the quota counts. A new period
+-- is a new row, so nothing ever has to be reset.
+--
+-- QUOTA: the per-tier limits live in the app (FEATURES in
+-- lib/entitlements/index.ts) and are passed in. consume_feature_usage() counts
+-- as many of the requested units as fit under the limit, under one row lock,
+-- so concurrent requests on different instances cannot overrun it.
+
+CREATE TABLE IF NOT EXISTS feature_usage (
+  subject TEXT NOT NULL,
+  feature TEXT NOT NULL,
+  period TEXT NOT NULL,
+  used BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (subject, feature, period)
+);
+
+ALTER TABLE feature_usage ENABLE ROW LEVEL SECURITY;
+
+-- Defense in depth: explicit privilege grants (only the server's service role)
+REVOKE ALL ON TABLE feature_usage FROM anon, authenticated;
+GRANT ALL ON TABLE feature_usage TO service_role;
+
+DROP POLICY IF EXISTS "Service role full access to feature_usage" ON feature_usage;
+
+-- App-level access via API routes (service role). User scoping enforced in app code.
+CREATE POLICY "Service role full access to feature_usage"
+ON feature_usage FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Count up to p_amount units if they fit under p_limit. Returns the units
+-- counted (0 when the quota is used up) and the period's total afterwards.
+CREATE OR REPLACE FUNCTION consume_feature_usage(
+  p_subject TEXT, p_feature TEXT, p_period TEXT, p_amount BIGINT, p_limit BIGINT
+)
+RETURNS TABLE (granted BIGINT, used BIGINT) AS $$
+DECLARE
+  current_used BIGINT;
+  current_granted BIGINT;
+BEGIN
+  INSERT INTO feature_usage (subject, feature, period)
+  VALUES (p_subject, p_feature, p_period)
+  ON CONFLICT (subject, feature, period) DO NOTHING;
+
+  SELECT feature_usage.used INTO current_used FROM feature_usage
+  WHERE subject = p_subject AND feature = p_feature AND period = p_period
+  FOR UPDATE;
+
+  current_granted := GREATEST(0, LEAST(p_amount, p_limit - current_used));
+
+  IF current_granted > 0 THEN
+    UPDATE feature_usage
+    SET used = current_used + current_granted,
+        updated_at = NOW()
+    WHERE subject = p_subject AND feature = p_feature AND period = p_period;
+  END IF;
+
+  RETURN QUERY SELECT current_granted, current_used + current_granted;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION consume_feature_usage(TEXT, TEXT, TEXT, BIGINT, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_feature_usage(TEXT, TEXT, TEXT, BIGINT, BIGINT) TO service_role;
+
+-- ----- 007: api key entitled tier -----
+-- API key quotas follow the owner's current subscription
+--
+-- 004 stamped each key with the owner's session tier at creation and drew the
+-- quota from that tier forever: a cancelled Stripe subscription kept its keys
+-- at Professional. consume_api_key() now takes the higher of the stamped tier
+-- and the owner's active Stripe subscription (005) as of the request, the same
+-- way resolveSubscription()/toSubscription() in lib/subscriptions decide it:
+-- status 'active' and not past current_period_end, plus p_renewal_grace_ms
+-- (RENEWAL_GRACE_MS, passed by the app) for subscriptions that auto-renew.
+-- The result is still checked and counted under the key's row lock.
+
+DROP FUNCTION IF EXISTS consume_api_key(TEXT, TEXT, JSONB);
+
+-- Count one request against an active key if its tier quota has room.
+-- p_limits is {"free":0,"student":0,"professional":10000,...} from
+-- FEATURE_LIMITS, passed by the app so the quotas live in one place.
+-- key_tier is the tier the quota was taken from.
+-- Returns no row for an unknown or revoked key.
+CREATE OR REPLACE FUNCTION consume_api_key(
+  p_key_hash TEXT,
+  p_month TEXT,
+  p_limits JSONB,
+  p_renewal_grace_ms BIGINT
+)
+RETURNS TABLE (key_id UUID, key_tier TEXT, used BIGINT, quota BIGINT, allowed BOOLEAN) AS $$
+DECLARE
+  tiers CONSTANT TEXT[] := ARRAY['free', 'student', 'professional', 'enterprise'];
+  k api_keys%ROWTYPE;
+  subscription_tier TEXT;
+  entitled_tier TEXT;
+  current_used BIGINT;
+  current_quota BIGINT;
+BEGIN
+  SELECT * INTO k FROM api_keys
+  WHERE api_keys.key_hash = p_key_hash AND api_keys.revoked_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT s.tier INTO subscription_tier FROM subscriptions s
+  WHERE s.aiverid_id = k.aiverid_id
+    AND s.status = 'active'
+    AND (
+      s.current_period_end IS NULL
+      OR s.current_period_end
+        + CASE WHEN s.cancel_at_period_end THEN INTERVAL '0'
+               ELSE p_renewal_grace_ms * INTERVAL '1 millisecond' END
+        >= NOW()
+    )
+  ORDER BY array_position(tiers, s.tier) DESC
+  LIMIT 1;
+
+  entitled_tier := CASE
+    WHEN subscription_tier IS NOT NULL
+      AND array_position(tiers, subscription_tier) > array_position(tiers, k.tier)
+    THEN subscription_tier
+    ELSE k.tier
+  END;
+
+  current_quota := COALESCE((p_limits ->> entitled_tier)::BIGINT, 0);
+  current_used := CASE WHEN k.usage_month = p_month THEN k.month_requests ELSE 0 END;
+
+  IF current_used >= current_quota THEN
+    RETURN QUERY SELECT k.id, entitled_tier, current_used, current_quota, FALSE;
+    RETURN;
+  END IF;
+
+  UPDATE api_keys
+  SET usage_month = p_month,
+      month_requests = current_used + 1,
+      total_requests = api_keys.total_requests + 1,
+      last_used_at = NOW()
+  WHERE api_keys.id = k.id;
+
+  RETURN QUERY SELECT k.id, entitled_tier, current_used + 1, current_quota, TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION consume_api_key(TEXT, TEXT, JSONB, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_api_key(TEXT, TEXT, JSONB, BIGINT) TO service_role;
+
+-- ----- 008: molecule save limit -----
+-- Saved-molecule cap per tier, enforced in the database
+--
+-- POST /api/molecules used to count a user's molecules and then insert, so
+-- concurrent saves could all pass the count and overrun the free tier's cap.
+-- create_molecule_within_limit() counts and inserts in one transaction while
+-- holding a per-user advisory lock, so saves by the same user run one at a
+-- time. The per-tier cap lives in the app (FEATURES['molecule-save'] in
+-- lib/entitlements/index.ts) and is passed in; NULL means no cap.
+
+-- Insert p_molecule for its aiverid_id if the user has fewer than p_limit
+-- molecules. Returns the user's count after the call and the new row, or
+-- NULL when the cap was reached and nothing was inserted.
+CREATE OR REPLACE FUNCTION create_molecule_within_limit(p_molecule JSONB, p_limit BIGINT)
+RETURNS TABLE (saved BIGINT, molecule JSONB) AS $$
+DECLARE
+  molecule_owner TEXT := p_molecule ->> 'aiverid_id';
+  current_saved BIGINT;
+  created molecules%ROWTYPE;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended('molecules:' || molecule_owner, 0));
+
+  SELECT COUNT(*) INTO current_saved FROM molecules WHERE molecules.aiverid_id = molecule_owner;
+
+  IF p_limit IS NOT NULL AND current_saved >= p_limit THEN
+    RETURN QUERY SELECT current_saved, NULL::JSONB;
+    RETURN;
+  END IF;
+
+  INSERT INTO molecules (aiverid_id, name, smiles, mol_block, inchi, inchi_key, tags, notes, is_public)
+  VALUES (
+    molecule_owner,
+    p_molecule ->> 'name',
+    p_molecule ->> 'smiles',
+    p_molecule ->> 'mol_block',
+    p_molecule ->> 'inchi',
+    p_molecule ->> 'inchi_key',
+    CASE WHEN jsonb_typeof(p_molecule -> 'tags') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_molecule -> 'tags'))
+    END,
+    p_molecule ->> 'notes',
+    COALESCE((p_molecule ->> 'is_public')::BOOLEAN, FALSE)
+  )
+  RETURNING * INTO created;
+
+  RETURN QUERY SELECT current_saved + 1, to_jsonb(created);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION create_molecule_within_limit(JSONB, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_molecule_within_limit(JSONB, BIGINT) TO service_role;
@@ -0,0 +1,38 @@
+-- Answer card cache for VerChem AI Verified Answer Cards
+--
+-- Caches the MODEL-AUTHORED part of verified cards (tool names/inputs and the
+-- explanation) so identical questions skip the model. `key` is
+-- sha256(VERSION · tool-registry hash · normalized question) — see
+-- lib/answer-cards/cache.ts. No user identifier is stored.
+--
+-- TRUST MODEL: rows are never served as-is. A hit re-executes every tool call
+-- against the current engines, compares with `tool_calls`, and signs a fresh
+-- card; any difference evicts the row. Expired rows are ignored on read and
+-- can be purged at leisure:
+--   DELETE FROM answer_card_cache WHERE expires_at < NOW();
+
+CREATE TABLE IF NOT EXISTS answer_card_cache (
+  key TEXT PRIMARY KEY,                   -- hex sha256, see answerCacheKey()
+  tool_calls JSONB NOT NULL,              -- ToolCall[] as signed when cached
+  explanation TEXT NOT NULL,
+  model TEXT NOT NULL,
+  version TEXT NOT NULL,                  -- orchestrator VERSION (also in key)
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_card_cache_expires_at ON answer_card_cache(expires_at);
+
+ALTER TABLE answer_card_cache ENABLE ROW LEVEL SECURITY;
+
+-- Defense in depth: explicit privilege grants (only the server's service role)
+REVOKE ALL ON TABLE answer_card_cache FROM anon, authenticated;
+GRANT ALL ON TABLE answer_card_cache TO service_role;
+
+DROP POLICY IF EXISTS "Service role full access to answer_card_cache" ON answer_card_cache;
+
+CREATE POLICY "Service role full access to answer_card_cache"
+ON answer_card_cache FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,84 @@
+-- Developer API keys for the public chemistry API (/api/chemistry/*)
+--
+-- Keys are `vck_` + 32 random bytes; only the hex SHA-256 is stored
+-- (`key_hash`), plus the first 12 characters (`prefix`) so owners can tell
+-- keys apart. The plaintext is shown once at creation and cannot be recovered.
+--
+-- QUOTA: each key is stamped with the owner's subscription tier at creation
+-- and draws a monthly quota from FEATURE_LIMITS[tier].apiRequests
+-- (lib/vercal/constants.ts). consume_api_key() checks and counts in one locked
+-- statement so concurrent requests on different instances cannot overrun it.
+-- `month_requests` counts the UTC month in `usage_month`; a request in a new
+-- month starts it again from zero. Revoked keys stay listed, never match.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  aiverid_id TEXT NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,          -- hex sha256 of the full key
+  tier TEXT NOT NULL CHECK (tier IN ('free', 'student', 'professional', 'enterprise')),
+  usage_month TEXT,                       -- 'YYYY-MM' (UTC) that month_requests counts
+  month_requests BIGINT NOT NULL DEFAULT 0,
+  total_requests BIGINT NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_aiverid ON api_keys(aiverid_id);
+
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Defense in depth: explicit privilege grants (only the server's service role)
+REVOKE ALL ON TABLE api_keys FROM anon, authenticated;
+GRANT ALL ON TABLE api_keys TO service_role;
+
+DROP POLICY IF EXISTS "Service role full access to api_keys" ON api_keys;
+
+-- App-level access via API routes (service role). User scoping enforced in app code.
+CREATE POLICY "Service role full access to api_keys"
+ON api_keys FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Count one request against an active key if its tier quota has room.
+-- p_limits is {"free":0,"student":0,"professional":10000,...} from
+-- FEATURE_LIMITS, passed by the app so the quotas live in one place.
+-- Returns no row for an unknown or revoked key.
+CREATE OR REPLACE FUNCTION consume_api_key(p_key_hash TEXT, p_month TEXT, p_limits JSONB)
+RETURNS TABLE (key_id UUID, key_tier TEXT, used BIGINT, quota BIGINT, allowed BOOLEAN) AS $$
+DECLARE
+  k api_keys%ROWTYPE;
+  current_used BIGINT;
+  current_quota BIGINT;
+BEGIN
+  SELECT * INTO k FROM api_keys
+  WHERE api_keys.key_hash = p_key_hash AND api_keys.revoked_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  current_quota := COALESCE((p_limits ->> k.tier)::BIGINT, 0);
+  current_used := CASE WHEN k.usage_month = p_month THEN k.month_requests ELSE 0 END;
+
+  IF current_used >= current_quota THEN
+    RETURN QUERY SELECT k.id, k.tier, current_used, current_quota, FALSE;
+    RETURN;
+  END IF;
+
+  UPDATE api_keys
+  SET usage_month = p_month,
+      month_requests = current_used + 1,
+      total_requests = api_keys.total_requests + 1,
+      last_used_at = NOW()
+  WHERE api_keys.id = k.id;
+
+  RETURN QUERY SELECT k.id, k.tier, current_used + 1, current_quota, TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION consume_api_key(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_api_key(TEXT, TEXT, JSONB) TO service_role;
@@ -0,0 +1,110 @@
+-- Stripe subscriptions, kept in sync by POST /api/stripe/webhook
+--
+-- One row per Stripe subscription, always a full snapshot of it (see
+-- lib/subscriptions/stripe-webhook.ts). `status` is the vercal
+-- SubscriptionStatus the raw `stripe_status` maps to; `tier` comes from the
+-- price. `aiverid_id` is NULL until checkout or the subscription's metadata
+-- names the user, and is never cleared once known.
+--
+-- ORDERING: `synced_at` is when the snapshot was taken. upsert_subscription()
+-- only replaces a row with a snapshot at least as new, in one statement, so
+-- out-of-order or retried deliveries cannot roll a subscription back.
+-- `stripe_events` records processed event ids so retries short-circuit.
+--
+-- Replaces the planned `subscriptions` table in DATABASE_SCHEMA.md (never
+-- created: it keyed on users.id, not aiverid_id).
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+  stripe_subscription_id TEXT PRIMARY KEY,
+  aiverid_id TEXT,
+  stripe_customer_id TEXT,
+  price_id TEXT,
+  tier TEXT NOT NULL CHECK (tier IN ('free', 'student', 'professional', 'enterprise')),
+  status TEXT NOT NULL CHECK (status IN ('active', 'cancelled', 'expired', 'past_due')),
+  stripe_status TEXT NOT NULL,
+  subscribed_at TIMESTAMPTZ,
+  current_period_end TIMESTAMPTZ,
+  cancel_at_period_end BOOLEAN NOT NULL DEFAULT FALSE,
+  synced_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_aiverid ON subscriptions(aiverid_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_customer ON subscriptions(stripe_customer_id);
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id TEXT PRIMARY KEY,                    -- Stripe event id (evt_…)
+  type TEXT NOT NULL,
+  processed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+-- Defense in depth: explicit privilege grants (only the server's service role)
+REVOKE ALL ON TABLE subscriptions FROM anon, authenticated;
+GRANT ALL ON TABLE subscriptions TO service_role;
+REVOKE ALL ON TABLE stripe_events FROM anon, authenticated;
+GRANT ALL ON TABLE stripe_events TO service_role;
+
+DROP POLICY IF EXISTS "Service role full access to subscriptions" ON subscriptions;
+DROP POLICY IF EXISTS "Service role full access to stripe_events" ON stripe_events;
+
+-- App-level access via API routes (service role). User scoping enforced in app code.
+CREATE POLICY "Service role full access to subscriptions"
+ON subscriptions FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Service role full access to stripe_events"
+ON stripe_events FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Insert or replace a subscription snapshot unless the stored one is newer.
+-- Returns FALSE when the snapshot was stale and nothing was written.
+CREATE OR REPLACE FUNCTION upsert_subscription(p_record JSONB)
+RETURNS BOOLEAN AS $$
+DECLARE
+  written BOOLEAN;
+BEGIN
+  INSERT INTO subscriptions AS s (
+    stripe_subscription_id, aiverid_id, stripe_customer_id, price_id, tier, status,
+    stripe_status, subscribed_at, current_period_end, cancel_at_period_end, synced_at
+  )
+  VALUES (
+    p_record ->> 'stripe_subscription_id',
+    p_record ->> 'aiverid_id',
+    p_record ->> 'stripe_customer_id',
+    p_record ->> 'price_id',
+    p_record ->> 'tier',
+    p_record ->> 'status',
+    p_record ->> 'stripe_status',
+    (p_record ->> 'subscribed_at')::TIMESTAMPTZ,
+    (p_record ->> 'current_period_end')::TIMESTAMPTZ,
+    COALESCE((p_record ->> 'cancel_at_period_end')::BOOLEAN, FALSE),
+    (p_record ->> 'synced_at')::TIMESTAMPTZ
+  )
+  ON CONFLICT (stripe_subscription_id) DO UPDATE
+  SET aiverid_id = COALESCE(EXCLUDED.aiverid_id, s.aiverid_id),
+      stripe_customer_id = EXCLUDED.stripe_customer_id,
+      price_id = EXCLUDED.price_id,
+      tier = EXCLUDED.tier,
+      status = EXCLUDED.status,
+      stripe_status = EXCLUDED.stripe_status,
+      subscribed_at = EXCLUDED.subscribed_at,
+      current_period_end = EXCLUDED.current_period_end,
+      cancel_at_period_end = EXCLUDED.cancel_at_period_end,
+      synced_at = EXCLUDED.synced_at,
+      updated_at = NOW()
+  WHERE s.synced_at <= EXCLUDED.synced_at
+  RETURNING TRUE INTO written;
+
+  RETURN COALESCE(written, FALSE);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION upsert_subscription(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION upsert_subscription(JSONB) TO service_role;
@@ -0,0 +1,69 @@
+-- Per-period feature usage for server-side entitlements (lib/entitlements)
+--
+-- One counter per (subject, feature, period): `subject` is the aiverid user
+-- id, `feature` an entitlement feature ('answer-card', …) and `period` the
+-- UTC day ('YYYY-MM-DD') or month ('YYYY-MM') the quota counts. A new period
+-- is a new row, so nothing ever has to be reset.
+--
+-- QUOTA: the per-tier limits live in the app (FEATURES in
+-- lib/entitlements/index.ts) and are passed in. consume_feature_usage() counts
+-- as many of the requested units as fit under the limit, under one row lock,
+-- so concurrent requests on different instances cannot overrun it.
+
+CREATE TABLE IF NOT EXISTS feature_usage (
+  subject TEXT NOT NULL,
+  feature TEXT NOT NULL,
+  period TEXT NOT NULL,
+  used BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (subject, feature, period)
+);
+
+ALTER TABLE feature_usage ENABLE ROW LEVEL SECURITY;
+
+-- Defense in depth: explicit privilege grants (only the server's service role)
+REVOKE ALL ON TABLE feature_usage FROM anon, authenticated;
+GRANT ALL ON TABLE feature_usage TO service_role;
+
+DROP POLICY IF EXISTS "Service role full access to feature_usage" ON feature_usage;
+
+-- App-level access via API routes (service role). User scoping enforced in app code.
+CREATE POLICY "Service role full access to feature_usage"
+ON feature_usage FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Count up to p_amount units if they fit under p_limit. Returns the units
+-- counted (0 when the quota is used up) and the period's total afterwards.
+CREATE OR REPLACE FUNCTION consume_feature_usage(
+  p_subject TEXT, p_feature TEXT, p_period TEXT, p_amount BIGINT, p_limit BIGINT
+)
+RETURNS TABLE (granted BIGINT, used BIGINT) AS $$
+DECLARE
+  current_used BIGINT;
+  current_granted BIGINT;
+BEGIN
+  INSERT INTO feature_usage (subject, feature, period)
+  VALUES (p_subject, p_feature, p_period)
+  ON CONFLICT (subject, feature, period) DO NOTHING;
+
+  SELECT feature_usage.used INTO current_used FROM feature_usage
+  WHERE subject = p_subject AND feature = p_feature AND period = p_period
+  FOR UPDATE;
+
+  current_granted := GREATEST(0, LEAST(p_amount, p_limit - current_used));
+
+  IF current_granted > 0 THEN
+    UPDATE feature_usage
+    SET used = current_used + current_granted,
+        updated_at = NOW()
+    WHERE subject = p_subject AND feature = p_feature AND period = p_period;
+  END IF;
+
+  RETURN QUERY SELECT current_granted, current_used + current_granted;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION consume_feature_usage(TEXT, TEXT, TEXT, BIGINT, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_feature_usage(TEXT, TEXT, TEXT, BIGINT, BIGINT) TO service_role;
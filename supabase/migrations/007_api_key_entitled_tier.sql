@@ -0,0 +1,81 @@
+-- API key quotas follow the owner's current subscription
+--
+-- 004 stamped each key with the owner's session tier at creation and drew the
+-- quota from that tier forever: a cancelled Stripe subscription kept its keys
+-- at Professional. consume_api_key() now takes the higher of the stamped tier
+-- and the owner's active Stripe subscription (005) as of the request, the same
+-- way resolveSubscription()/toSubscription() in lib/subscriptions decide it:
+-- status 'active' and not past current_period_end, plus p_renewal_grace_ms
+-- (RENEWAL_GRACE_MS, passed by the app) for subscriptions that auto-renew.
+-- The result is still checked and counted under the key's row lock.
+
+DROP FUNCTION IF EXISTS consume_api_key(TEXT, TEXT, JSONB);
+
+-- Count one request against an active key if its tier quota has room.
+-- p_limits is {"free":0,"student":0,"professional":10000,...} from
+-- FEATURE_LIMITS, passed by the app so the quotas live in one place.
+-- key_tier is the tier the quota was taken from.
+-- Returns no row for an unknown or revoked key.
+CREATE OR REPLACE FUNCTION consume_api_key(
+  p_key_hash TEXT,
+  p_month TEXT,
+  p_limits JSONB,
+  p_renewal_grace_ms BIGINT
+)
+RETURNS TABLE (key_id UUID, key_tier TEXT, used BIGINT, quota BIGINT, allowed BOOLEAN) AS $$
+DECLARE
+  tiers CONSTANT TEXT[] := ARRAY['free', 'student', 'professional', 'enterprise'];
+  k api_keys%ROWTYPE;
+  subscription_tier TEXT;
+  entitled_tier TEXT;
+  current_used BIGINT;
+  current_quota BIGINT;
+BEGIN
+  SELECT * INTO k FROM api_keys
+  WHERE api_keys.key_hash = p_key_hash AND api_keys.revoked_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT s.tier INTO subscription_tier FROM subscriptions s
+  WHERE s.aiverid_id = k.aiverid_id
+    AND s.status = 'active'
+    AND (
+      s.current_period_end IS NULL
+      OR s.current_period_end
+        + CASE WHEN s.cancel_at_period_end THEN INTERVAL '0'
+               ELSE p_renewal_grace_ms * INTERVAL '1 millisecond' END
+        >= NOW()
+    )
+  ORDER BY array_position(tiers, s.tier) DESC
+  LIMIT 1;
+
+  entitled_tier := CASE
+    WHEN subscription_tier IS NOT NULL
+      AND array_position(tiers, subscription_tier) > array_position(tiers, k.tier)
+    THEN subscription_tier
+    ELSE k.tier
+  END;
+
+  current_quota := COALESCE((p_limits ->> entitled_tier)::BIGINT, 0);
+  current_used := CASE WHEN k.usage_month = p_month THEN k.month_requests ELSE 0 END;
+
+  IF current_used >= current_quota THEN
+    RETURN QUERY SELECT k.id, entitled_tier, current_used, current_quota, FALSE;
+    RETURN;
+  END IF;
+
+  UPDATE api_keys
+  SET usage_month = p_month,
+      month_requests = current_used + 1,
+      total_requests = api_keys.total_requests + 1,
+      last_used_at = NOW()
+  WHERE api_keys.id = k.id;
+
+  RETURN QUERY SELECT k.id, entitled_tier, current_used + 1, current_quota, TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION consume_api_key(TEXT, TEXT, JSONB, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_api_key(TEXT, TEXT, JSONB, BIGINT) TO service_role;
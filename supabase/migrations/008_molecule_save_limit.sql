@@ -0,0 +1,50 @@
+-- Saved-molecule cap per tier, enforced in the database
+--
+-- POST /api/molecules used to count a user's molecules and then insert, so
+-- concurrent saves could all pass the count and overrun the free tier's cap.
+-- create_molecule_within_limit() counts and inserts in one transaction while
+-- holding a per-user advisory lock, so saves by the same user run one at a
+-- time. The per-tier cap lives in the app (FEATURES['molecule-save'] in
+-- lib/entitlements/index.ts) and is passed in; NULL means no cap.
+
+-- Insert p_molecule for its aiverid_id if the user has fewer than p_limit
+-- molecules. Returns the user's count after the call and the new row, or
+-- NULL when the cap was reached and nothing was inserted.
+CREATE OR REPLACE FUNCTION create_molecule_within_limit(p_molecule JSONB, p_limit BIGINT)
+RETURNS TABLE (saved BIGINT, molecule JSONB) AS $$
+DECLARE
+  molecule_owner TEXT := p_molecule ->> 'aiverid_id';
+  current_saved BIGINT;
+  created molecules%ROWTYPE;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended('molecules:' || molecule_owner, 0));
+
+  SELECT COUNT(*) INTO current_saved FROM molecules WHERE molecules.aiverid_id = molecule_owner;
+
+  IF p_limit IS NOT NULL AND current_saved >= p_limit THEN
+    RETURN QUERY SELECT current_saved, NULL::JSONB;
+    RETURN;
+  END IF;
+
+  INSERT INTO molecules (aiverid_id, name, smiles, mol_block, inchi, inchi_key, tags, notes, is_public)
+  VALUES (
+    molecule_owner,
+    p_molecule ->> 'name',
+    p_molecule ->> 'smiles',
+    p_molecule ->> 'mol_block',
+    p_molecule ->> 'inchi',
+    p_molecule ->> 'inchi_key',
+    CASE WHEN jsonb_typeof(p_molecule -> 'tags') = 'array'
+      THEN ARRAY(SELECT jsonb_array_elements_text(p_molecule -> 'tags'))
+    END,
+    p_molecule ->> 'notes',
+    COALESCE((p_molecule ->> 'is_public')::BOOLEAN, FALSE)
+  )
+  RETURNING * INTO created;
+
+  RETURN QUERY SELECT current_saved + 1, to_jsonb(created);
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION create_molecule_within_limit(JSONB, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_molecule_within_limit(JSONB, BIGINT) TO service_role;